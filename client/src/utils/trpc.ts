@@ -1,10 +1,25 @@
 import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import type { inferRouterInputs, inferRouterOutputs } from '@trpc/server';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+export const SESSION_TOKEN_KEY = 'primesec.session';
+
+// Procedure inputs and results, e.g. RouterOutputs['getSecurityIssues'] is a
+// page of issues with its total and next_cursor
+export type RouterInputs = inferRouterInputs<AppRouter>;
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers: () => {
+        const token = localStorage.getItem(SESSION_TOKEN_KEY);
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
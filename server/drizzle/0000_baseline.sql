@@ -0,0 +1,286 @@
+CREATE TYPE "public"."activity_entity_type" AS ENUM('Issue', 'Violation', 'Review');--> statement-breakpoint
+CREATE TYPE "public"."activity_event_type" AS ENUM('Created', 'FieldChange', 'StatusChange', 'Assignment');--> statement-breakpoint
+CREATE TYPE "public"."container_type" AS ENUM('Project', 'Application', 'System', 'Service');--> statement-breakpoint
+CREATE TYPE "public"."control_status" AS ENUM('Existing', 'Planned', 'NotSpecified');--> statement-breakpoint
+CREATE TYPE "public"."cvss_version" AS ENUM('3.1', '4.0');--> statement-breakpoint
+CREATE TYPE "public"."issue_classification" AS ENUM('Vulnerability', 'Misconfiguration', 'Weakness', 'Exposure');--> statement-breakpoint
+CREATE TYPE "public"."issue_hierarchy" AS ENUM('Epic', 'Story', 'Task');--> statement-breakpoint
+CREATE TYPE "public"."issue_status" AS ENUM('Open', 'In-progress', 'Closed', 'Resolved');--> statement-breakpoint
+CREATE TYPE "public"."review_status" AS ENUM('Pending', 'InReview', 'Completed', 'Rejected');--> statement-breakpoint
+CREATE TYPE "public"."severity_level" AS ENUM('Critical', 'High', 'Medium', 'Low');--> statement-breakpoint
+CREATE TYPE "public"."user_role" AS ENUM('Admin', 'SecurityAnalyst', 'SecurityManager', 'Viewer');--> statement-breakpoint
+CREATE TYPE "public"."violation_type" AS ENUM('SecurityBreach', 'PolicyViolation', 'ComplianceIssue', 'DataLeak');--> statement-breakpoint
+CREATE TABLE "activity_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entity_type" "activity_entity_type" NOT NULL,
+	"entity_id" integer NOT NULL,
+	"event_type" "activity_event_type" NOT NULL,
+	"field" text,
+	"old_value" text,
+	"new_value" text,
+	"actor_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "architecture_components" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"component_type" text NOT NULL,
+	"description" text,
+	"technology_stack" text,
+	"security_domain" text,
+	"trust_boundary" text,
+	"network_zone" text,
+	"data_classification" text,
+	"position_x" real,
+	"position_y" real,
+	"container_id" integer NOT NULL,
+	"created_by" integer NOT NULL,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" integer,
+	"procedure" text NOT NULL,
+	"entity_type" text,
+	"entity_id" integer,
+	"input" jsonb,
+	"changes" jsonb,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp NOT NULL,
+	"prev_hash" text,
+	"hash" text NOT NULL,
+	CONSTRAINT "audit_log_hash_unique" UNIQUE("hash")
+);
+--> statement-breakpoint
+CREATE TABLE "comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entity_type" "activity_entity_type" NOT NULL,
+	"entity_id" integer NOT NULL,
+	"parent_comment_id" integer,
+	"body" text NOT NULL,
+	"author_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"edited_at" timestamp,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "containers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"type" "container_type" NOT NULL,
+	"risk_score" real DEFAULT 0 NOT NULL,
+	"external_id" text,
+	"external_system" text,
+	"scoring_profile_id" integer,
+	"created_by" integer NOT NULL,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "control_frameworks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"version" text NOT NULL,
+	"description" text,
+	"url" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "control_frameworks_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "issue_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"issue_id" integer NOT NULL,
+	"from_status" "issue_status",
+	"to_status" "issue_status" NOT NULL,
+	"note" text,
+	"changed_by" integer NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scoring_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"version" integer NOT NULL,
+	"description" text,
+	"confidentiality_weight" real NOT NULL,
+	"integrity_weight" real NOT NULL,
+	"availability_weight" real NOT NULL,
+	"compliance_weight" real NOT NULL,
+	"third_party_weight" real NOT NULL,
+	"critical_weight" real NOT NULL,
+	"high_weight" real NOT NULL,
+	"medium_weight" real NOT NULL,
+	"low_weight" real NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scoring_profiles_name_version_unique" UNIQUE("name","version")
+);
+--> statement-breakpoint
+CREATE TABLE "security_controls" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"control_type" text NOT NULL,
+	"implementation_status" "control_status" NOT NULL,
+	"effectiveness_rating" real,
+	"framework_reference" text,
+	"control_family" text,
+	"implementation_notes" text,
+	"testing_frequency" text,
+	"last_tested" timestamp,
+	"container_id" integer NOT NULL,
+	"created_by" integer NOT NULL,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "security_issues" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"severity" "severity_level" NOT NULL,
+	"status" "issue_status" DEFAULT 'Open' NOT NULL,
+	"classification" "issue_classification" NOT NULL,
+	"hierarchy" "issue_hierarchy" NOT NULL,
+	"risk_score" real DEFAULT 0 NOT NULL,
+	"confidentiality_impact" real DEFAULT 0 NOT NULL,
+	"integrity_impact" real DEFAULT 0 NOT NULL,
+	"availability_impact" real DEFAULT 0 NOT NULL,
+	"compliance_impact" real DEFAULT 0 NOT NULL,
+	"third_party_risk" real DEFAULT 0 NOT NULL,
+	"mitre_attack_id" text,
+	"mitre_attack_tactic" text,
+	"mitre_attack_technique" text,
+	"linddun_category" text,
+	"attack_complexity" text,
+	"cvss_vector" text,
+	"cvss_version" "cvss_version",
+	"cvss_base_score" real,
+	"cvss_temporal_score" real,
+	"cvss_environmental_score" real,
+	"threat_modeling_notes" text,
+	"compensating_controls" text,
+	"resolution_note" text,
+	"container_id" integer NOT NULL,
+	"parent_issue_id" integer,
+	"assigned_to" integer,
+	"created_by" integer NOT NULL,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"is_automated_finding" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "security_reviews" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"document_name" text,
+	"document_url" text,
+	"document_type" text,
+	"status" "review_status" DEFAULT 'Pending' NOT NULL,
+	"ai_analysis_complete" boolean DEFAULT false NOT NULL,
+	"ai_analysis_results" text,
+	"container_id" integer,
+	"reviewer_id" integer,
+	"created_by" integer NOT NULL,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "security_violations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"violation_type" "violation_type" NOT NULL,
+	"severity" "severity_level" NOT NULL,
+	"status" "issue_status" DEFAULT 'Open' NOT NULL,
+	"incident_date" timestamp NOT NULL,
+	"detection_method" text,
+	"affected_systems" text,
+	"impact_assessment" text,
+	"remediation_steps" text,
+	"container_id" integer,
+	"related_issue_id" integer,
+	"assigned_to" integer,
+	"created_by" integer NOT NULL,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_used_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sessions_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"email" text NOT NULL,
+	"full_name" text NOT NULL,
+	"role" "user_role" NOT NULL,
+	"password_hash" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "activity_events" ADD CONSTRAINT "activity_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "architecture_components" ADD CONSTRAINT "architecture_components_container_id_containers_id_fk" FOREIGN KEY ("container_id") REFERENCES "public"."containers"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "architecture_components" ADD CONSTRAINT "architecture_components_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "architecture_components" ADD CONSTRAINT "architecture_components_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_parent_comment_id_comments_id_fk" FOREIGN KEY ("parent_comment_id") REFERENCES "public"."comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "containers" ADD CONSTRAINT "containers_scoring_profile_id_scoring_profiles_id_fk" FOREIGN KEY ("scoring_profile_id") REFERENCES "public"."scoring_profiles"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "containers" ADD CONSTRAINT "containers_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "containers" ADD CONSTRAINT "containers_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "issue_status_history" ADD CONSTRAINT "issue_status_history_issue_id_security_issues_id_fk" FOREIGN KEY ("issue_id") REFERENCES "public"."security_issues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "issue_status_history" ADD CONSTRAINT "issue_status_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scoring_profiles" ADD CONSTRAINT "scoring_profiles_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_controls" ADD CONSTRAINT "security_controls_container_id_containers_id_fk" FOREIGN KEY ("container_id") REFERENCES "public"."containers"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_controls" ADD CONSTRAINT "security_controls_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_controls" ADD CONSTRAINT "security_controls_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD CONSTRAINT "security_issues_container_id_containers_id_fk" FOREIGN KEY ("container_id") REFERENCES "public"."containers"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD CONSTRAINT "security_issues_parent_issue_id_security_issues_id_fk" FOREIGN KEY ("parent_issue_id") REFERENCES "public"."security_issues"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD CONSTRAINT "security_issues_assigned_to_users_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD CONSTRAINT "security_issues_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD CONSTRAINT "security_issues_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_reviews" ADD CONSTRAINT "security_reviews_container_id_containers_id_fk" FOREIGN KEY ("container_id") REFERENCES "public"."containers"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_reviews" ADD CONSTRAINT "security_reviews_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_reviews" ADD CONSTRAINT "security_reviews_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_reviews" ADD CONSTRAINT "security_reviews_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_violations" ADD CONSTRAINT "security_violations_container_id_containers_id_fk" FOREIGN KEY ("container_id") REFERENCES "public"."containers"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_violations" ADD CONSTRAINT "security_violations_related_issue_id_security_issues_id_fk" FOREIGN KEY ("related_issue_id") REFERENCES "public"."security_issues"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_violations" ADD CONSTRAINT "security_violations_assigned_to_users_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_violations" ADD CONSTRAINT "security_violations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "security_violations" ADD CONSTRAINT "security_violations_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "activity_events_entity_idx" ON "activity_events" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_log_entity_idx" ON "audit_log" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_idx" ON "audit_log" USING btree ("actor_id");--> statement-breakpoint
+CREATE INDEX "comments_entity_idx" ON "comments" USING btree ("entity_type","entity_id");
\ No newline at end of file
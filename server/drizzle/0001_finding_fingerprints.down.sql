@@ -0,0 +1,2 @@
+DROP INDEX "security_issues_container_fingerprint_idx";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "fingerprint";
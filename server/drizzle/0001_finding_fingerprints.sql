@@ -0,0 +1,2 @@
+ALTER TABLE "security_issues" ADD COLUMN "fingerprint" text;--> statement-breakpoint
+CREATE INDEX "security_issues_container_fingerprint_idx" ON "security_issues" USING btree ("container_id","fingerprint");
\ No newline at end of file
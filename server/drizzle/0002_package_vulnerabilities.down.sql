@@ -0,0 +1,6 @@
+ALTER TABLE "security_issues" DROP CONSTRAINT "security_issues_component_id_architecture_components_id_fk";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "fixed_version";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "package_version";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "package_name";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "cve_id";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "component_id";
@@ -0,0 +1,6 @@
+ALTER TABLE "security_issues" ADD COLUMN "component_id" integer;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "cve_id" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "package_name" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "package_version" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "fixed_version" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD CONSTRAINT "security_issues_component_id_architecture_components_id_fk" FOREIGN KEY ("component_id") REFERENCES "public"."architecture_components"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "security_issues" DROP COLUMN "evidence";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "affected_parameter";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "affected_url";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "cwe_id";
@@ -0,0 +1,4 @@
+ALTER TABLE "security_issues" ADD COLUMN "cwe_id" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "affected_url" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "affected_parameter" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "evidence" text;
\ No newline at end of file
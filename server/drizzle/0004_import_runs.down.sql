@@ -0,0 +1,2 @@
+DROP TABLE "import_runs";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "scanner";
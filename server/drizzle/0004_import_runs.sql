@@ -0,0 +1,21 @@
+CREATE TABLE "import_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"container_id" integer NOT NULL,
+	"component_id" integer,
+	"format" text NOT NULL,
+	"scanners" text[] NOT NULL,
+	"created" integer NOT NULL,
+	"updated" integer NOT NULL,
+	"reopened" integer NOT NULL,
+	"resolved" integer NOT NULL,
+	"skipped" integer NOT NULL,
+	"delta" jsonb NOT NULL,
+	"imported_by" integer,
+	"imported_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "scanner" text;--> statement-breakpoint
+ALTER TABLE "import_runs" ADD CONSTRAINT "import_runs_container_id_containers_id_fk" FOREIGN KEY ("container_id") REFERENCES "public"."containers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_runs" ADD CONSTRAINT "import_runs_component_id_architecture_components_id_fk" FOREIGN KEY ("component_id") REFERENCES "public"."architecture_components"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_runs" ADD CONSTRAINT "import_runs_imported_by_users_id_fk" FOREIGN KEY ("imported_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "import_runs_container_idx" ON "import_runs" USING btree ("container_id","imported_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+DROP INDEX "security_issues_external_idx";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "external_synced_at";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "external_url";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "external_id";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "external_system";
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "security_issues" ADD COLUMN "external_system" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "external_id" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "external_url" text;--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "external_synced_at" timestamp;--> statement-breakpoint
+CREATE INDEX "security_issues_external_idx" ON "security_issues" USING btree ("external_system","external_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "security_issues" DROP COLUMN "external_sync_error";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "external_sync_status";--> statement-breakpoint
+DROP TYPE "public"."external_sync_status";
\ No newline at end of file
@@ -0,0 +1,3 @@
+CREATE TYPE "public"."external_sync_status" AS ENUM('Synced', 'Failed');--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "external_sync_status" "external_sync_status";--> statement-breakpoint
+ALTER TABLE "security_issues" ADD COLUMN "external_sync_error" text;
\ No newline at end of file
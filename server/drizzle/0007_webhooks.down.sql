@@ -0,0 +1,3 @@
+DROP TABLE "webhook_deliveries";--> statement-breakpoint
+DROP TABLE "webhook_subscriptions";--> statement-breakpoint
+DROP TYPE "public"."webhook_delivery_status";
\ No newline at end of file
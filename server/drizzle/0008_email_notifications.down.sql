@@ -0,0 +1,4 @@
+DROP TABLE "email_notifications";--> statement-breakpoint
+DROP TABLE "notification_preferences";--> statement-breakpoint
+DROP TYPE "public"."email_notification_status";--> statement-breakpoint
+DROP TYPE "public"."email_notification_kind";
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TYPE "public"."email_notification_kind" AS ENUM('Assignment', 'CriticalViolation', 'DailyDigest');--> statement-breakpoint
+CREATE TYPE "public"."email_notification_status" AS ENUM('Pending', 'Sent', 'Failed');--> statement-breakpoint
+CREATE TABLE "email_notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"kind" "email_notification_kind" NOT NULL,
+	"to_address" text NOT NULL,
+	"subject" text NOT NULL,
+	"text_body" text NOT NULL,
+	"html_body" text NOT NULL,
+	"status" "email_notification_status" DEFAULT 'Pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp,
+	"last_error" text,
+	"digest_date" date,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"sent_at" timestamp,
+	CONSTRAINT "email_notifications_digest_unique" UNIQUE("user_id","digest_date")
+);
+--> statement-breakpoint
+CREATE TABLE "notification_preferences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"assignment_emails" boolean DEFAULT true NOT NULL,
+	"critical_violation_emails" boolean DEFAULT true NOT NULL,
+	"daily_digest" boolean DEFAULT true NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notification_preferences_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "email_notifications" ADD CONSTRAINT "email_notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "email_notifications_due_idx" ON "email_notifications" USING btree ("status","next_attempt_at");
\ No newline at end of file
@@ -0,0 +1,7 @@
+DROP INDEX "security_violations_correlation_idx";--> statement-breakpoint
+ALTER TABLE "security_violations" DROP COLUMN "last_occurrence_at";--> statement-breakpoint
+ALTER TABLE "security_violations" DROP COLUMN "occurrence_count";--> statement-breakpoint
+ALTER TABLE "security_violations" DROP COLUMN "correlation_key";--> statement-breakpoint
+DROP TABLE "siem_mapping_rules";--> statement-breakpoint
+DROP TYPE "public"."siem_rule_action";--> statement-breakpoint
+DROP TYPE "public"."siem_alert_format";
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."siem_alert_format" AS ENUM('CEF', 'LEEF');--> statement-breakpoint
+CREATE TYPE "public"."siem_rule_action" AS ENUM('Violation', 'Ignore');--> statement-breakpoint
+CREATE TABLE "siem_mapping_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"priority" integer DEFAULT 100 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"format" "siem_alert_format",
+	"vendor" text,
+	"product" text,
+	"event_pattern" text,
+	"min_severity" integer,
+	"action" "siem_rule_action" DEFAULT 'Violation' NOT NULL,
+	"violation_type" "violation_type" DEFAULT 'SecurityBreach' NOT NULL,
+	"severity" "severity_level",
+	"container_id" integer,
+	"title_template" text,
+	"correlation_fields" text[] NOT NULL,
+	"correlation_window_minutes" integer DEFAULT 60 NOT NULL,
+	"created_by" integer NOT NULL,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "security_violations" ADD COLUMN "correlation_key" text;--> statement-breakpoint
+ALTER TABLE "security_violations" ADD COLUMN "occurrence_count" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "security_violations" ADD COLUMN "last_occurrence_at" timestamp;--> statement-breakpoint
+ALTER TABLE "siem_mapping_rules" ADD CONSTRAINT "siem_mapping_rules_container_id_containers_id_fk" FOREIGN KEY ("container_id") REFERENCES "public"."containers"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "siem_mapping_rules" ADD CONSTRAINT "siem_mapping_rules_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "siem_mapping_rules" ADD CONSTRAINT "siem_mapping_rules_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "security_violations_correlation_idx" ON "security_violations" USING btree ("correlation_key","last_occurrence_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+DROP INDEX "architecture_components_search_idx";--> statement-breakpoint
+DROP INDEX "security_controls_search_idx";--> statement-breakpoint
+DROP INDEX "security_issues_search_idx";--> statement-breakpoint
+DROP INDEX "security_reviews_search_idx";--> statement-breakpoint
+DROP INDEX "security_violations_search_idx";
\ No newline at end of file
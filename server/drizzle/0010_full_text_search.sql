@@ -0,0 +1,5 @@
+CREATE INDEX "architecture_components_search_idx" ON "architecture_components" USING gin ((setweight(to_tsvector('english'::regconfig, coalesce("name", '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce("technology_stack", '') || ' ' || coalesce("security_domain", '')), 'C')));--> statement-breakpoint
+CREATE INDEX "security_controls_search_idx" ON "security_controls" USING gin ((setweight(to_tsvector('english'::regconfig, coalesce("name", '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce("implementation_notes", '') || ' ' || coalesce("framework_reference", '') || ' ' || coalesce("control_family", '')), 'C')));--> statement-breakpoint
+CREATE INDEX "security_issues_search_idx" ON "security_issues" USING gin ((setweight(to_tsvector('english'::regconfig, coalesce("title", '') || ' ' || coalesce("cve_id", '') || ' ' || coalesce("package_name", '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce("threat_modeling_notes", '') || ' ' || coalesce("compensating_controls", '')), 'C')));--> statement-breakpoint
+CREATE INDEX "security_reviews_search_idx" ON "security_reviews" USING gin ((setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce("description", '') || ' ' || coalesce("document_name", '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce("ai_analysis_results", '')), 'C')));--> statement-breakpoint
+CREATE INDEX "security_violations_search_idx" ON "security_violations" USING gin ((setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce("remediation_steps", '') || ' ' || coalesce("impact_assessment", '') || ' ' || coalesce("affected_systems", '')), 'C')));
\ No newline at end of file
@@ -0,0 +1,4 @@
+DROP TABLE "saved_view_pins";--> statement-breakpoint
+DROP TABLE "saved_views";--> statement-breakpoint
+DROP TYPE "public"."saved_view_visibility";--> statement-breakpoint
+DROP TYPE "public"."saved_view_entity_type";
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TYPE "public"."saved_view_entity_type" AS ENUM('Issue', 'Violation');--> statement-breakpoint
+CREATE TYPE "public"."saved_view_visibility" AS ENUM('Private', 'Team', 'Organization');--> statement-breakpoint
+CREATE TABLE "saved_view_pins" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"view_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "saved_view_pins_view_user_unique" UNIQUE("view_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "saved_views" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"entity_type" "saved_view_entity_type" NOT NULL,
+	"visibility" "saved_view_visibility" DEFAULT 'Private' NOT NULL,
+	"container_id" integer,
+	"filter" jsonb NOT NULL,
+	"sort" jsonb NOT NULL,
+	"columns" text[] NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_view_pins" ADD CONSTRAINT "saved_view_pins_view_id_saved_views_id_fk" FOREIGN KEY ("view_id") REFERENCES "public"."saved_views"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_view_pins" ADD CONSTRAINT "saved_view_pins_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_views" ADD CONSTRAINT "saved_views_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_views" ADD CONSTRAINT "saved_views_container_id_containers_id_fk" FOREIGN KEY ("container_id") REFERENCES "public"."containers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "saved_views_owner_idx" ON "saved_views" USING btree ("owner_id");--> statement-breakpoint
+CREATE INDEX "saved_views_container_idx" ON "saved_views" USING btree ("container_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "security_violations" DROP COLUMN "tags";--> statement-breakpoint
+ALTER TABLE "security_issues" DROP COLUMN "tags";
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "security_issues" ADD COLUMN "tags" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "security_violations" ADD COLUMN "tags" text[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+UPDATE "security_issues" SET "external_sync_status" = 'Failed' WHERE "external_sync_status" = 'Conflict';--> statement-breakpoint
+ALTER TYPE "public"."external_sync_status" RENAME TO "external_sync_status_old";--> statement-breakpoint
+CREATE TYPE "public"."external_sync_status" AS ENUM('Synced', 'Failed');--> statement-breakpoint
+ALTER TABLE "security_issues" ALTER COLUMN "external_sync_status" SET DATA TYPE "public"."external_sync_status" USING "external_sync_status"::text::"public"."external_sync_status";--> statement-breakpoint
+DROP TYPE "public"."external_sync_status_old";
\ No newline at end of file
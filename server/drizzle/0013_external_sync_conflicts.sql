@@ -0,0 +1 @@
+ALTER TYPE "public"."external_sync_status" ADD VALUE 'Conflict';
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "security_issues_container_fingerprint_idx";--> statement-breakpoint
+CREATE INDEX "security_issues_container_fingerprint_idx" ON "security_issues" USING btree ("container_id","fingerprint");
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Concurrent imports may have created the same finding twice; the oldest issue keeps the fingerprint
+UPDATE "security_issues" SET "fingerprint" = NULL WHERE "fingerprint" IS NOT NULL AND EXISTS (SELECT 1 FROM "security_issues" AS "earlier" WHERE "earlier"."container_id" = "security_issues"."container_id" AND "earlier"."fingerprint" = "security_issues"."fingerprint" AND "earlier"."id" < "security_issues"."id");--> statement-breakpoint
+DROP INDEX "security_issues_container_fingerprint_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "security_issues_container_fingerprint_idx" ON "security_issues" USING btree ("container_id","fingerprint") WHERE "security_issues"."fingerprint" is not null;
\ No newline at end of file
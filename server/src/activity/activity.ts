@@ -0,0 +1,119 @@
+import { db } from '../db';
+import {
+  activityEventsTable,
+  securityIssuesTable,
+  securityReviewsTable,
+  securityViolationsTable
+} from '../db/schema';
+import { type ActivityEvent } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export type ActivityEntityType = ActivityEvent['entity_type'];
+
+type ActivityEntry = Omit<ActivityEvent, 'id' | 'created_at'>;
+
+const entityTables = {
+  Issue: securityIssuesTable,
+  Violation: securityViolationsTable,
+  Review: securityReviewsTable
+};
+
+const entityLabels: Record<ActivityEntityType, string> = {
+  Issue: 'Security issue',
+  Violation: 'Security violation',
+  Review: 'Security review'
+};
+
+// Fields whose changes show up in an entity's activity feed. Derived values
+// such as risk and CVSS scores are left out; they follow from the tracked ones.
+export const TRACKED_FIELDS: Record<ActivityEntityType, readonly string[]> = {
+  Issue: [
+    'title', 'description', 'severity', 'status', 'classification', 'hierarchy', 'parent_issue_id',
+    'assigned_to', 'confidentiality_impact', 'integrity_impact', 'availability_impact',
+    'compliance_impact', 'third_party_risk', 'mitre_attack_id', 'mitre_attack_tactic',
+    'mitre_attack_technique', 'linddun_category', 'attack_complexity', 'cvss_vector',
+    'threat_modeling_notes', 'compensating_controls', 'resolution_note', 'component_id',
+    'package_version', 'fixed_version', 'container_id', 'tags'
+  ],
+  Violation: [
+    'title', 'description', 'violation_type', 'severity', 'status', 'incident_date', 'detection_method',
+    'affected_systems', 'impact_assessment', 'remediation_steps', 'container_id', 'related_issue_id',
+    'assigned_to', 'is_active', 'tags'
+  ],
+  Review: [
+    'title', 'description', 'status', 'document_name', 'document_url', 'document_type', 'container_id',
+    'reviewer_id', 'is_active'
+  ]
+};
+
+// Reviews are assigned through their reviewer
+const assignmentFields = ['assigned_to', 'reviewer_id'];
+
+const toActivityValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+// Throws unless the commented or audited entity exists
+export const assertEntityExists = async (entityType: ActivityEntityType, entityId: number): Promise<void> => {
+  const table = entityTables[entityType];
+  const rows = await db.select({ id: table.id })
+    .from(table)
+    .where(eq(table.id, entityId))
+    .execute();
+
+  if (rows.length === 0) {
+    throw notFoundError(entityLabels[entityType], entityId);
+  }
+};
+
+// One event per tracked field that differs between the two versions of a row
+export const diffActivity = (
+  entityType: ActivityEntityType,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  actorId: number
+): ActivityEntry[] => {
+  const entries: ActivityEntry[] = [];
+
+  for (const field of TRACKED_FIELDS[entityType]) {
+    const oldValue = toActivityValue(before[field]);
+    const newValue = toActivityValue(after[field]);
+    if (oldValue === newValue) continue;
+
+    entries.push({
+      entity_type: entityType,
+      entity_id: after['id'] as number,
+      event_type: field === 'status' ? 'StatusChange' : assignmentFields.includes(field) ? 'Assignment' : 'FieldChange',
+      field,
+      old_value: oldValue,
+      new_value: newValue,
+      actor_id: actorId
+    });
+  }
+
+  return entries;
+};
+
+export const createdActivity = (entityType: ActivityEntityType, entityId: number, actorId: number): ActivityEntry => ({
+  entity_type: entityType,
+  entity_id: entityId,
+  event_type: 'Created',
+  field: null,
+  old_value: null,
+  new_value: null,
+  actor_id: actorId
+});
+
+export const recordActivity = async (executor: Pick<typeof db, 'insert'>, entries: ActivityEntry[]): Promise<void> => {
+  if (entries.length === 0) {
+    return;
+  }
+
+  await executor.insert(activityEventsTable)
+    .values(entries)
+    .execute();
+};
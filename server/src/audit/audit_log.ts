@@ -0,0 +1,320 @@
+import { createHash } from 'node:crypto';
+import { db } from '../db';
+import {
+  architectureComponentsTable,
+  auditLogTable,
+  type AuditLogEntry,
+  commentsTable,
+  containersTable,
+  scoringProfilesTable,
+  securityControlsTable,
+  securityIssuesTable,
+  securityReviewsTable,
+  securityViolationsTable,
+  usersTable,
+  webhookSubscriptionsTable,
+  siemMappingRulesTable,
+  savedViewsTable
+} from '../db/schema';
+import { type AuditChanges, type AuditVerificationResult } from '../schema';
+import { bulkAuditChanges } from '../bulk/bulk_update';
+import { type SQL, asc, desc, eq, gt, sql } from 'drizzle-orm';
+
+// Tables whose rows mutations are diffed against, keyed by table name
+const auditedTables = {
+  users: usersTable,
+  containers: containersTable,
+  scoring_profiles: scoringProfilesTable,
+  security_issues: securityIssuesTable,
+  security_reviews: securityReviewsTable,
+  security_violations: securityViolationsTable,
+  security_controls: securityControlsTable,
+  architecture_components: architectureComponentsTable,
+  comments: commentsTable,
+  webhook_subscriptions: webhookSubscriptionsTable,
+  siem_mapping_rules: siemMappingRulesTable,
+  saved_views: savedViewsTable
+};
+
+export type AuditedEntity = keyof typeof auditedTables;
+
+// How a mutation maps onto the row it changes. inputId identifies an existing
+// row, read before and after the call; resultId a row the call creates.
+// changedRows covers mutations over many rows, which report their own changes
+// keyed by row id. scope covers mutations over many rows that do not: the rows
+// it selects (all when undefined) are read before and after the call and every
+// one that differs is recorded. actor covers mutations that run before anyone
+// is signed in (login).
+export type AuditTarget =
+  | { entity: AuditedEntity; inputId: (input: any) => number; resultId?: never; changedRows?: never; scope?: never }
+  | { entity: AuditedEntity; resultId: (result: any) => number; inputId?: never; changedRows?: never; scope?: never }
+  | { entity: AuditedEntity; changedRows: (result: any) => AuditChanges; inputId?: never; resultId?: never; scope?: never }
+  | { entity: AuditedEntity; scope: (input: any) => SQL | undefined; inputId?: never; resultId?: never; changedRows?: never }
+  | { actor: (result: any) => number };
+
+const inContainer = (input: { container_id: number }): SQL => eq(securityIssuesTable.container_id, input.container_id);
+
+// Mutation -> audit target. Every mutation in appRouter must be listed; null
+// means the mutation has no single row to diff and only its input is logged.
+export const auditTargets: Record<string, AuditTarget | null> = {
+  login: { actor: result => result.user.id },
+  logout: null,
+
+  createUser: { entity: 'users', resultId: result => result.id },
+
+  createContainer: { entity: 'containers', resultId: result => result.id },
+  updateContainer: { entity: 'containers', inputId: input => input.id },
+  archiveContainer: { entity: 'containers', inputId: input => input.id },
+  restoreContainer: { entity: 'containers', inputId: input => input.id },
+  updateContainerRiskScore: { entity: 'containers', inputId: input => input.containerId },
+
+  createScoringProfile: { entity: 'scoring_profiles', resultId: result => result.id },
+  setContainerScoringProfile: { entity: 'containers', inputId: input => input.container_id },
+  // Container rollups follow from the rescored issues
+  recomputeRiskScores: {
+    entity: 'security_issues',
+    scope: input => input.container_id !== undefined ? inContainer(input) : undefined
+  },
+
+  createSecurityIssue: { entity: 'security_issues', resultId: result => result.id },
+  updateSecurityIssue: { entity: 'security_issues', inputId: input => input.id },
+  bulkUpdateSecurityIssues: { entity: 'security_issues', changedRows: result => bulkAuditChanges(result) },
+  importSarif: { entity: 'security_issues', scope: inContainer },
+  importTrivy: { entity: 'security_issues', scope: inContainer },
+  importGrype: { entity: 'security_issues', scope: inContainer },
+  importZap: { entity: 'security_issues', scope: inContainer },
+  importBurp: { entity: 'security_issues', scope: inContainer },
+  pushIssuesToJira: { entity: 'security_issues', scope: inContainer },
+  pullIssuesFromJira: { entity: 'security_issues', scope: inContainer },
+  pushIssuesToAzureDevOps: { entity: 'security_issues', scope: inContainer },
+  pullIssuesFromAzureDevOps: { entity: 'security_issues', scope: inContainer },
+
+  createSecurityReview: { entity: 'security_reviews', resultId: result => result.id },
+  updateSecurityReview: { entity: 'security_reviews', inputId: input => input.id },
+  archiveSecurityReview: { entity: 'security_reviews', inputId: input => input.id },
+  restoreSecurityReview: { entity: 'security_reviews', inputId: input => input.id },
+  processDocumentAiAnalysis: { entity: 'security_reviews', inputId: input => input.reviewId },
+
+  createSecurityViolation: { entity: 'security_violations', resultId: result => result.id },
+  updateSecurityViolation: { entity: 'security_violations', inputId: input => input.id },
+  bulkUpdateSecurityViolations: { entity: 'security_violations', changedRows: result => bulkAuditChanges(result) },
+  archiveSecurityViolation: { entity: 'security_violations', inputId: input => input.id },
+  restoreSecurityViolation: { entity: 'security_violations', inputId: input => input.id },
+
+  createSecurityControl: { entity: 'security_controls', resultId: result => result.id },
+  updateSecurityControl: { entity: 'security_controls', inputId: input => input.id },
+  archiveSecurityControl: { entity: 'security_controls', inputId: input => input.id },
+  restoreSecurityControl: { entity: 'security_controls', inputId: input => input.id },
+
+  createArchitectureComponent: { entity: 'architecture_components', resultId: result => result.id },
+  updateArchitectureComponent: { entity: 'architecture_components', inputId: input => input.id },
+  archiveArchitectureComponent: { entity: 'architecture_components', inputId: input => input.id },
+  restoreArchitectureComponent: { entity: 'architecture_components', inputId: input => input.id },
+
+  createComment: { entity: 'comments', resultId: result => result.id },
+  updateComment: { entity: 'comments', inputId: input => input.id },
+  deleteComment: { entity: 'comments', inputId: input => input.commentId },
+
+  createWebhookSubscription: { entity: 'webhook_subscriptions', resultId: result => result.id },
+  updateWebhookSubscription: { entity: 'webhook_subscriptions', inputId: input => input.id },
+  deleteWebhookSubscription: { entity: 'webhook_subscriptions', inputId: input => input.id },
+  redeliverWebhook: null,
+
+  updateNotificationPreferences: null,
+
+  createSiemMappingRule: { entity: 'siem_mapping_rules', resultId: result => result.id },
+  updateSiemMappingRule: { entity: 'siem_mapping_rules', inputId: input => input.id },
+  deleteSiemMappingRule: { entity: 'siem_mapping_rules', inputId: input => input.id },
+
+  createSavedView: { entity: 'saved_views', resultId: result => result.id },
+  updateSavedView: { entity: 'saved_views', inputId: input => input.id },
+  deleteSavedView: { entity: 'saved_views', inputId: input => input.id },
+  pinSavedView: null
+};
+
+export interface RequestMetadata {
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+const REDACTED = '[redacted]';
+const sensitiveKey = /password|token|secret/i;
+
+// Plain JSON with secrets masked, so nothing the database cannot store
+// verbatim ends up in a hash
+const toAuditJson = (value: unknown): JsonValue => {
+  const json = JSON.stringify(value ?? null, (key, nested) => sensitiveKey.test(key) ? REDACTED : nested);
+  return JSON.parse(json);
+};
+
+// jsonb does not preserve key order, so hashes are computed over JSON with
+// recursively sorted keys
+const canonicalJson = (value: JsonValue): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+type HashedFields = Omit<AuditLogEntry, 'id' | 'hash'>;
+
+export const computeAuditHash = (entry: HashedFields): string =>
+  createHash('sha256')
+    .update(canonicalJson({
+      prev_hash: entry.prev_hash,
+      actor_id: entry.actor_id,
+      procedure: entry.procedure,
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id,
+      input: entry.input as JsonValue,
+      changes: entry.changes as JsonValue,
+      ip_address: entry.ip_address,
+      user_agent: entry.user_agent,
+      created_at: entry.created_at.toISOString()
+    }))
+    .digest('hex');
+
+// Field -> before/after for every column that differs; a missing before row
+// (creation) reports every column
+export const diffRows = (before: Record<string, unknown> | null, after: Record<string, unknown> | null): AuditChanges => {
+  const beforeJson = (toAuditJson(before) ?? {}) as Record<string, JsonValue>;
+  const afterJson = (toAuditJson(after) ?? {}) as Record<string, JsonValue>;
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(beforeJson), ...Object.keys(afterJson)])) {
+    const from = beforeJson[field] ?? null;
+    const to = afterJson[field] ?? null;
+    if (canonicalJson(from) !== canonicalJson(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+
+  return changes;
+};
+
+export const loadAuditedRow = async (entity: AuditedEntity, id: number): Promise<Record<string, unknown> | null> => {
+  const table = auditedTables[entity];
+  const rows = await db.select()
+    .from(table)
+    .where(eq(table.id, id))
+    .execute();
+
+  return rows[0] ?? null;
+};
+
+// The rows a scoped mutation may change, keyed by id
+export const loadAuditedRows = async (entity: AuditedEntity, scope: SQL | undefined): Promise<Map<number, Record<string, unknown>>> => {
+  const table = auditedTables[entity];
+  const rows = await db.select()
+    .from(table)
+    .where(scope)
+    .execute();
+
+  return new Map(rows.map(row => [row.id, row]));
+};
+
+// Changed fields of every row that was created, changed or deleted, keyed by
+// row id, in the shape bulk updates report
+export const diffRowSets = (
+  before: Map<number, Record<string, unknown>>,
+  after: Map<number, Record<string, unknown>>
+): AuditChanges => {
+  const changes: AuditChanges = {};
+
+  for (const id of new Set([...before.keys(), ...after.keys()])) {
+    const fields = Object.entries(diffRows(before.get(id) ?? null, after.get(id) ?? null));
+    if (fields.length > 0) {
+      changes[id] = {
+        before: Object.fromEntries(fields.map(([field, change]) => [field, change.before])),
+        after: Object.fromEntries(fields.map(([field, change]) => [field, change.after]))
+      };
+    }
+  }
+
+  return changes;
+};
+
+// Appends an entry to the chain, inside the mutation's transaction when there
+// is one. The advisory lock is held until that commits and serialises writers,
+// so each entry links to the one committed just before it.
+export const appendAuditEntry = async (entry: {
+  actor_id: number | null;
+  procedure: string;
+  entity_type: string | null;
+  entity_id: number | null;
+  input: unknown;
+  changes: AuditChanges | null;
+  request: RequestMetadata;
+}): Promise<AuditLogEntry> => {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext('audit_log'))`);
+
+    const latest = await tx.select({ hash: auditLogTable.hash })
+      .from(auditLogTable)
+      .orderBy(desc(auditLogTable.id))
+      .limit(1)
+      .execute();
+
+    const fields: HashedFields = {
+      actor_id: entry.actor_id,
+      procedure: entry.procedure,
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id,
+      input: toAuditJson(entry.input),
+      changes: entry.changes,
+      ip_address: entry.request.ip_address,
+      user_agent: entry.request.user_agent,
+      created_at: new Date(),
+      prev_hash: latest[0]?.hash ?? null
+    };
+
+    const result = await tx.insert(auditLogTable)
+      .values({ ...fields, hash: computeAuditHash(fields) })
+      .returning()
+      .execute();
+
+    return result[0];
+  });
+};
+
+const VERIFY_BATCH_SIZE = 500;
+
+// Recomputes every hash from the first entry on. Any edited, deleted or
+// reordered entry breaks the link to its successor.
+export const verifyAuditChain = async (): Promise<AuditVerificationResult> => {
+  let previousHash: string | null = null;
+  let lastId = 0;
+  let checked = 0;
+
+  while (true) {
+    const batch = await db.select()
+      .from(auditLogTable)
+      .where(gt(auditLogTable.id, lastId))
+      .orderBy(asc(auditLogTable.id))
+      .limit(VERIFY_BATCH_SIZE)
+      .execute();
+
+    for (const entry of batch) {
+      if (entry.prev_hash !== previousHash) {
+        return { valid: false, entries_checked: checked, first_invalid_id: entry.id, reason: 'Link to previous entry is broken' };
+      }
+      if (computeAuditHash(entry) !== entry.hash) {
+        return { valid: false, entries_checked: checked, first_invalid_id: entry.id, reason: 'Entry contents do not match its hash' };
+      }
+
+      previousHash = entry.hash;
+      lastId = entry.id;
+      checked++;
+    }
+
+    if (batch.length < VERIFY_BATCH_SIZE) {
+      return { valid: true, entries_checked: checked, first_invalid_id: null, reason: null };
+    }
+  }
+};
@@ -0,0 +1,51 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+// scrypt parameters; stored alongside the hash so they can be raised later
+// without invalidating existing passwords
+const KEY_LENGTH = 64;
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+
+const deriveKey = (password: string, salt: Buffer, keyLength: number, cost: number, blockSize: number, parallelization: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { N: cost, r: blockSize, p: parallelization }, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+
+// Format: scrypt$N$r$p$salt$hash (salt and hash base64 encoded)
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, KEY_LENGTH, COST, BLOCK_SIZE, PARALLELIZATION);
+  return ['scrypt', COST, BLOCK_SIZE, PARALLELIZATION, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+// A hash of a random password, made once. Logins without a stored hash are
+// checked against it so they take as long as a wrong password.
+let dummyHash: Promise<string> | null = null;
+export const dummyPasswordHash = (): Promise<string> => {
+  dummyHash ??= hashPassword(randomBytes(32).toString('base64'));
+  return dummyHash;
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') {
+    return false;
+  }
+
+  const [, cost, blockSize, parallelization, salt, hash] = parts;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await deriveKey(
+    password,
+    Buffer.from(salt, 'base64'),
+    expected.length,
+    Number(cost),
+    Number(blockSize),
+    Number(parallelization)
+  );
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
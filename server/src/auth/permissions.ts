@@ -0,0 +1,196 @@
+import { TRPCError } from '@trpc/server';
+import { type User } from '../schema';
+
+type Role = User['role'];
+
+// The signed-in user as seen by handlers that enforce row-level rules
+export type Actor = Pick<User, 'id' | 'role'>;
+
+export const permissions = [
+  'users:read',
+  'users:manage',
+  'containers:read',
+  'containers:manage',
+  'issues:read',
+  'issues:write',
+  'issues:close_critical',
+  'risk:accept',
+  'violations:read',
+  'violations:write',
+  'reviews:read',
+  'reviews:write',
+  'controls:read',
+  'controls:write',
+  'components:read',
+  'components:write',
+  'scoring:manage',
+  'activity:read',
+  'comments:write',
+  'comments:moderate',
+  'audit:review',
+  'analytics:read',
+  'system:manage',
+  'webhooks:manage',
+  'siem:manage'
+] as const;
+
+export type Permission = typeof permissions[number];
+
+const readPermissions: Permission[] = permissions.filter(permission =>
+  permission.endsWith(':read')
+);
+
+const analystPermissions: Permission[] = [
+  ...readPermissions,
+  'issues:write',
+  'violations:write',
+  'reviews:write',
+  'comments:write'
+];
+
+const managerPermissions: Permission[] = [
+  ...analystPermissions,
+  'issues:close_critical', // Close or resolve Critical severity issues
+  'risk:accept', // Move an issue to Closed without a fix (risk acceptance)
+  'controls:write',
+  'components:write',
+  'scoring:manage', // Define scoring profiles and rescore scopes
+  'comments:moderate', // Delete other people's comments
+  'audit:review' // Query and verify the audit log
+];
+
+// Role -> permission matrix. Viewers are read-only, Analysts work findings,
+// Managers own risk decisions and blueprints, Admins manage users and scopes.
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  Viewer: readPermissions,
+  SecurityAnalyst: analystPermissions,
+  SecurityManager: managerPermissions,
+  Admin: [...permissions]
+};
+
+// Procedure -> required permission. 'public' procedures skip authentication,
+// 'authenticated' ones only need a valid session. Procedures missing from this
+// map are denied for everyone.
+export const procedurePermissions: Record<string, Permission | 'public' | 'authenticated'> = {
+  healthcheck: 'public',
+  login: 'public',
+  logout: 'authenticated',
+  me: 'authenticated',
+
+  createUser: 'users:manage',
+  getUsers: 'users:read',
+
+  createContainer: 'containers:manage',
+  getContainers: 'containers:read',
+  updateContainer: 'containers:manage',
+  archiveContainer: 'containers:manage',
+  restoreContainer: 'containers:manage',
+  updateContainerRiskScore: 'issues:write',
+
+  createScoringProfile: 'scoring:manage',
+  getScoringProfiles: 'containers:read',
+  setContainerScoringProfile: 'scoring:manage',
+  recomputeRiskScores: 'scoring:manage',
+
+  createSecurityIssue: 'issues:write',
+  getSecurityIssues: 'issues:read',
+  getSecurityIssuesByContainer: 'issues:read',
+  getIssueTree: 'issues:read',
+  updateSecurityIssue: 'issues:write',
+  bulkUpdateSecurityIssues: 'issues:write',
+  getIssueStatusHistory: 'issues:read',
+  getIssueWorkflow: 'issues:read',
+  importSarif: 'issues:write',
+  importTrivy: 'issues:write',
+  importGrype: 'issues:write',
+  importZap: 'issues:write',
+  importBurp: 'issues:write',
+  getImportRuns: 'issues:read',
+  pushIssuesToJira: 'issues:write',
+  pullIssuesFromJira: 'issues:write',
+  pushIssuesToAzureDevOps: 'issues:write',
+  pullIssuesFromAzureDevOps: 'issues:write',
+  getExternalSyncStatus: 'issues:read',
+
+  createSecurityReview: 'reviews:write',
+  getSecurityReviews: 'reviews:read',
+  getSecurityReviewsByContainer: 'reviews:read',
+  updateSecurityReview: 'reviews:write',
+  archiveSecurityReview: 'reviews:write',
+  restoreSecurityReview: 'reviews:write',
+  processDocumentAiAnalysis: 'reviews:write',
+
+  createSecurityViolation: 'violations:write',
+  getSecurityViolations: 'violations:read',
+  getActiveSecurityViolations: 'violations:read',
+  updateSecurityViolation: 'violations:write',
+  bulkUpdateSecurityViolations: 'violations:write',
+  archiveSecurityViolation: 'violations:write',
+  restoreSecurityViolation: 'violations:write',
+
+  createSecurityControl: 'controls:write',
+  getSecurityControls: 'controls:read',
+  getSecurityControlsByContainer: 'controls:read',
+  getControlFrameworks: 'controls:read',
+  updateSecurityControl: 'controls:write',
+  archiveSecurityControl: 'controls:write',
+  restoreSecurityControl: 'controls:write',
+
+  createArchitectureComponent: 'components:write',
+  getArchitectureComponents: 'components:read',
+  getArchitectureComponentsByContainer: 'components:read',
+  updateArchitectureComponent: 'components:write',
+  archiveArchitectureComponent: 'components:write',
+  restoreArchitectureComponent: 'components:write',
+
+  createComment: 'comments:write',
+  updateComment: 'comments:write',
+  deleteComment: 'comments:write',
+  getComments: 'activity:read',
+  getActivityFeed: 'activity:read',
+
+  getAuditLog: 'audit:review',
+  verifyAuditLog: 'audit:review',
+
+  getDashboardAnalytics: 'analytics:read',
+  getContainerRiskAnalytics: 'analytics:read',
+
+  getMigrationStatus: 'system:manage',
+
+  createWebhookSubscription: 'webhooks:manage',
+  getWebhookSubscriptions: 'webhooks:manage',
+  updateWebhookSubscription: 'webhooks:manage',
+  deleteWebhookSubscription: 'webhooks:manage',
+  getWebhookDeliveries: 'webhooks:manage',
+  redeliverWebhook: 'webhooks:manage',
+
+  getNotificationPreferences: 'authenticated',
+  updateNotificationPreferences: 'authenticated',
+
+  createSiemMappingRule: 'siem:manage',
+  getSiemMappingRules: 'siem:manage',
+  updateSiemMappingRule: 'siem:manage',
+  deleteSiemMappingRule: 'siem:manage',
+
+  search: 'authenticated',
+
+  createSavedView: 'authenticated',
+  getSavedViews: 'authenticated',
+  updateSavedView: 'authenticated',
+  deleteSavedView: 'authenticated',
+  pinSavedView: 'authenticated',
+  getSavedViewIssues: 'issues:read',
+  getSavedViewViolations: 'violations:read'
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  rolePermissions[role].includes(permission);
+
+export const assertPermission = (role: Role, permission: Permission): void => {
+  if (!hasPermission(role, permission)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Role ${role} lacks permission ${permission}`
+    });
+  }
+};
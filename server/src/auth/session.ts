@@ -0,0 +1,88 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+
+export const SESSION_TTL_MS = Number(process.env['SESSION_TTL_HOURS'] || 12) * 60 * 60 * 1000;
+
+// Tokens are opaque random strings; only their hash is persisted so a database
+// leak does not hand out live sessions
+export const generateSessionToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashSessionToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+// Columns safe to return to clients (everything but the password hash)
+export const publicUserColumns = {
+  id: usersTable.id,
+  username: usersTable.username,
+  email: usersTable.email,
+  full_name: usersTable.full_name,
+  role: usersTable.role,
+  created_at: usersTable.created_at,
+  updated_at: usersTable.updated_at,
+  is_active: usersTable.is_active
+};
+
+export const toPublicUser = (user: typeof usersTable.$inferSelect): User => {
+  const { password_hash, ...publicUser } = user;
+  return publicUser;
+};
+
+export const createSession = async (userId: number): Promise<{ token: string; expires_at: Date }> => {
+  const token = generateSessionToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await db.insert(sessionsTable)
+    .values({
+      user_id: userId,
+      token_hash: hashSessionToken(token),
+      expires_at: expiresAt
+    })
+    .execute();
+
+  return { token, expires_at: expiresAt };
+};
+
+// Resolve a bearer token to its active user, or null when the token is
+// unknown, expired, revoked or belongs to a deactivated account
+export const getSessionUser = async (token: string): Promise<User | null> => {
+  const now = new Date();
+  const tokenHash = hashSessionToken(token);
+
+  const results = await db.select(publicUserColumns)
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(
+      eq(sessionsTable.token_hash, tokenHash),
+      isNull(sessionsTable.revoked_at),
+      gt(sessionsTable.expires_at, now),
+      eq(usersTable.is_active, true)
+    ))
+    .execute();
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  await db.update(sessionsTable)
+    .set({ last_used_at: now })
+    .where(eq(sessionsTable.token_hash, tokenHash))
+    .execute();
+
+  return results[0];
+};
+
+export const revokeSession = async (token: string): Promise<boolean> => {
+  const result = await db.update(sessionsTable)
+    .set({ revoked_at: new Date() })
+    .where(and(
+      eq(sessionsTable.token_hash, hashSessionToken(token)),
+      isNull(sessionsTable.revoked_at)
+    ))
+    .returning()
+    .execute();
+
+  return result.length > 0;
+};
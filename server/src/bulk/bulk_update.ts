@@ -0,0 +1,122 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { containersTable, usersTable } from '../db/schema';
+import {
+  BULK_UPDATE_LIMIT,
+  type AuditChanges,
+  type BulkRowResult,
+  type BulkUpdateResult
+} from '../schema';
+import { diffRows } from '../audit/audit_log';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+// What a bulk update intends for one selected row. values is empty for a
+// Failed row; error is null unless it Failed.
+export interface BulkRowPlan<R extends { id: number }> {
+  row: R;
+  values: Partial<R>;
+  error: string | null;
+}
+
+// Filters are refused rather than truncated when they match more rows than a
+// bulk update may touch, so nothing is changed that the caller did not see
+export const assertWithinBulkLimit = (matched: number, label: string): void => {
+  if (matched > BULK_UPDATE_LIMIT) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Bulk updates are limited to ${BULK_UPDATE_LIMIT} ${label}; narrow the filter`
+    });
+  }
+};
+
+export const assertUserExists = async (userId: number): Promise<void> => {
+  const users = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw notFoundError('User', userId);
+  }
+};
+
+export const assertContainerExists = async (containerId: number): Promise<void> => {
+  const containers = await db.select({ id: containersTable.id })
+    .from(containersTable)
+    .where(eq(containersTable.id, containerId))
+    .execute();
+
+  if (containers.length === 0) {
+    throw notFoundError('Container', containerId);
+  }
+};
+
+// A row's tags with add_tags appended and remove_tags taken out, keeping the
+// existing order. Tags compare case-insensitively like the tag: filter.
+export const mergeTags = (current: string[], add: string[] = [], remove: string[] = []): string[] => {
+  const removed = new Set(remove.map(tag => tag.toLowerCase()));
+  const merged: string[] = [];
+  const seen = new Set<string>();
+
+  for (const tag of [...current, ...add]) {
+    const key = tag.toLowerCase();
+    if (!removed.has(key) && !seen.has(key)) {
+      seen.add(key);
+      merged.push(tag);
+    }
+  }
+  return merged;
+};
+
+// Field -> before/after for the planned values that differ from the row
+export const plannedChanges = <R extends { id: number }>(plan: BulkRowPlan<R>): AuditChanges => {
+  const fields = Object.keys(plan.values) as Array<keyof R & string>;
+  const pick = (row: Partial<R>) => Object.fromEntries(fields.map(field => [field, row[field]]));
+  return diffRows(pick(plan.row), pick({ ...plan.row, ...plan.values }));
+};
+
+export const failedRow = (id: number, error: string): BulkRowResult => ({ id, outcome: 'Failed', error, changes: {} });
+
+// Listed ids that matched no row, reported as Failed rows
+export const missingRows = (ids: number[] | undefined, found: Array<{ id: number }>, label: string): BulkRowResult[] => {
+  const foundIds = new Set(found.map(row => row.id));
+  return [...new Set(ids ?? [])]
+    .filter(id => !foundIds.has(id))
+    .map(id => failedRow(id, notFoundError(label, id).message));
+};
+
+export const toRowResult = <R extends { id: number }>(plan: BulkRowPlan<R>): BulkRowResult => {
+  if (plan.error !== null) {
+    return failedRow(plan.row.id, plan.error);
+  }
+  const changes = plannedChanges(plan);
+  return { id: plan.row.id, outcome: Object.keys(changes).length > 0 ? 'Changed' : 'Unchanged', error: null, changes };
+};
+
+// matched counts the rows found, so listed ids that do not exist are only
+// counted as failed
+export const summarizeBulkUpdate = (dryRun: boolean, matched: number, rows: BulkRowResult[]): BulkUpdateResult => ({
+  dry_run: dryRun,
+  matched,
+  changed: rows.filter(row => row.outcome === 'Changed').length,
+  failed: rows.filter(row => row.outcome === 'Failed').length,
+  rows: rows.sort((a, b) => a.id - b.id)
+});
+
+// Audit changes for a bulk update: row id -> the fields it changed before
+// and after. A dry run changes nothing, so it is logged with no rows.
+export const bulkAuditChanges = (result: BulkUpdateResult): AuditChanges => {
+  if (result.dry_run) {
+    return {};
+  }
+
+  const changes: AuditChanges = {};
+  for (const row of result.rows.filter(row => row.outcome === 'Changed')) {
+    changes[row.id] = {
+      before: Object.fromEntries(Object.entries(row.changes).map(([field, change]) => [field, change.before])),
+      after: Object.fromEntries(Object.entries(row.changes).map(([field, change]) => [field, change.after]))
+    };
+  }
+  return changes;
+};
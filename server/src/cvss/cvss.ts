@@ -0,0 +1,99 @@
+import { CVSS31_PREFIX, modifiedValue, parseCvss31Vector, scoreCvss31 } from './cvss31';
+import { CVSS40_PREFIX, effectiveValue, parseCvss40Vector, scoreCvss40 } from './cvss40';
+
+type Severity = 'Critical' | 'High' | 'Medium' | 'Low';
+
+export type CvssVersion = '3.1' | '4.0';
+
+// Everything an issue stores or derives from its CVSS vector
+export interface CvssAssessment {
+  version: CvssVersion;
+  vector: string;
+  base_score: number;
+  temporal_score: number; // v4.0: CVSS-BT (base + threat)
+  environmental_score: number; // v4.0: CVSS-BTE (base + threat + environmental)
+  severity: Severity;
+  confidentiality_impact: number;
+  integrity_impact: number;
+  availability_impact: number;
+  attack_complexity: 'Low' | 'High';
+}
+
+// Impact metric levels mapped onto the 0-100 impact dimensions
+const impactLevels: Record<string, number> = { S: 100, H: 100, L: 50, N: 0 };
+
+// Qualitative severity rating scale shared by v3.1 and v4.0. Scores of 0.0
+// ("None") map to Low because issues have no lower severity.
+export const cvssSeverity = (score: number): Severity => {
+  if (score >= 9.0) return 'Critical';
+  if (score >= 7.0) return 'High';
+  if (score >= 4.0) return 'Medium';
+  return 'Low';
+};
+
+// Parses, validates and scores a CVSS v3.1 or v4.0 vector. Throws with a
+// message naming the offending metric when the vector is invalid.
+export const assessCvssVector = (rawVector: string): CvssAssessment => {
+  const vector = rawVector.trim();
+
+  if (vector.startsWith(`${CVSS31_PREFIX}/`)) {
+    const metrics = parseCvss31Vector(vector);
+    const scores = scoreCvss31(metrics);
+    const level = (metric: string) => impactLevels[modifiedValue(metrics, metric)];
+
+    return {
+      version: '3.1',
+      vector,
+      ...scores,
+      severity: cvssSeverity(scores.environmental_score),
+      confidentiality_impact: level('C'),
+      integrity_impact: level('I'),
+      availability_impact: level('A'),
+      attack_complexity: modifiedValue(metrics, 'AC') === 'H' ? 'High' : 'Low'
+    };
+  }
+
+  if (vector.startsWith(`${CVSS40_PREFIX}/`)) {
+    const metrics = parseCvss40Vector(vector);
+    const scores = scoreCvss40(metrics);
+    // Worst of the vulnerable and subsequent systems
+    const level = (vulnerable: string, subsequent: string) => Math.max(
+      impactLevels[effectiveValue(metrics, vulnerable)],
+      impactLevels[effectiveValue(metrics, subsequent)]
+    );
+
+    return {
+      version: '4.0',
+      vector,
+      base_score: scores.base_score,
+      temporal_score: scores.threat_score,
+      environmental_score: scores.environmental_score,
+      severity: cvssSeverity(scores.environmental_score),
+      confidentiality_impact: level('VC', 'SC'),
+      integrity_impact: level('VI', 'SI'),
+      availability_impact: level('VA', 'SA'),
+      attack_complexity: effectiveValue(metrics, 'AC') === 'H' ? 'High' : 'Low'
+    };
+  }
+
+  throw new Error(`Unsupported CVSS vector; expected a ${CVSS31_PREFIX}/ or ${CVSS40_PREFIX}/ prefix`);
+};
+
+// Returns the validation error for a vector, or null when it is valid
+export const validateCvssVector = (vector: string): string | null => {
+  try {
+    assessCvssVector(vector);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+// Values for the security_issues CVSS columns; null clears them
+export const cvssIssueColumns = (assessment: CvssAssessment | null) => ({
+  cvss_vector: assessment?.vector ?? null,
+  cvss_version: assessment?.version ?? null,
+  cvss_base_score: assessment?.base_score ?? null,
+  cvss_temporal_score: assessment?.temporal_score ?? null,
+  cvss_environmental_score: assessment?.environmental_score ?? null
+});
@@ -0,0 +1,183 @@
+// CVSS v3.1 parsing and scoring, following the formulas in section 7 and the
+// Roundup definition in Appendix A of the FIRST specification
+// (https://www.first.org/cvss/v3.1/specification-document)
+
+export const CVSS31_PREFIX = 'CVSS:3.1';
+
+// Allowed values per metric, in the order the specification lists them
+const metricValues: Record<string, readonly string[]> = {
+  // Base
+  AV: ['N', 'A', 'L', 'P'],
+  AC: ['L', 'H'],
+  PR: ['N', 'L', 'H'],
+  UI: ['N', 'R'],
+  S: ['U', 'C'],
+  C: ['H', 'L', 'N'],
+  I: ['H', 'L', 'N'],
+  A: ['H', 'L', 'N'],
+  // Temporal
+  E: ['X', 'H', 'F', 'P', 'U'],
+  RL: ['X', 'U', 'W', 'T', 'O'],
+  RC: ['X', 'C', 'R', 'U'],
+  // Environmental
+  CR: ['X', 'H', 'M', 'L'],
+  IR: ['X', 'H', 'M', 'L'],
+  AR: ['X', 'H', 'M', 'L'],
+  MAV: ['X', 'N', 'A', 'L', 'P'],
+  MAC: ['X', 'L', 'H'],
+  MPR: ['X', 'N', 'L', 'H'],
+  MUI: ['X', 'N', 'R'],
+  MS: ['X', 'U', 'C'],
+  MC: ['X', 'H', 'L', 'N'],
+  MI: ['X', 'H', 'L', 'N'],
+  MA: ['X', 'H', 'L', 'N']
+};
+
+const baseMetrics = ['AV', 'AC', 'PR', 'UI', 'S', 'C', 'I', 'A'];
+const environmentalMetrics = ['CR', 'IR', 'AR', 'MAV', 'MAC', 'MPR', 'MUI', 'MS', 'MC', 'MI', 'MA'];
+
+const weights = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 } as Record<string, number>,
+  AC: { L: 0.77, H: 0.44 } as Record<string, number>,
+  UI: { N: 0.85, R: 0.62 } as Record<string, number>,
+  CIA: { H: 0.56, L: 0.22, N: 0 } as Record<string, number>,
+  E: { X: 1, H: 1, F: 0.97, P: 0.94, U: 0.91 } as Record<string, number>,
+  RL: { X: 1, U: 1, W: 0.97, T: 0.96, O: 0.95 } as Record<string, number>,
+  RC: { X: 1, C: 1, R: 0.96, U: 0.92 } as Record<string, number>,
+  CR: { X: 1, H: 1.5, M: 1, L: 0.5 } as Record<string, number>
+};
+
+// Privileges Required depends on whether the scope changes
+const privilegesWeight = (pr: string, scope: string): number => {
+  if (pr === 'N') return 0.85;
+  if (pr === 'L') return scope === 'C' ? 0.68 : 0.62;
+  return scope === 'C' ? 0.5 : 0.27;
+};
+
+export type Cvss31Metrics = Record<string, string>;
+
+export interface Cvss31Scores {
+  base_score: number;
+  temporal_score: number;
+  environmental_score: number;
+}
+
+// Smallest number, to one decimal place, that is equal to or higher than its
+// input, computed on integers to avoid floating point artefacts
+export const roundUp = (value: number): number => {
+  const intInput = Math.round(value * 100000);
+  if (intInput % 10000 === 0) {
+    return intInput / 100000;
+  }
+  return (Math.floor(intInput / 10000) + 1) / 10;
+};
+
+// Parses a CVSS:3.1 vector into its metrics, with every optional metric that
+// is absent from the vector set to X (Not Defined)
+export const parseCvss31Vector = (vector: string): Cvss31Metrics => {
+  const [prefix, ...parts] = vector.split('/');
+
+  if (prefix !== CVSS31_PREFIX) {
+    throw new Error(`CVSS v3.1 vectors must start with ${CVSS31_PREFIX}`);
+  }
+
+  const metrics: Cvss31Metrics = {};
+
+  for (const part of parts) {
+    const [metric, value, ...rest] = part.split(':');
+    const allowed = metricValues[metric];
+
+    if (!allowed || value === undefined || rest.length > 0) {
+      throw new Error(`Unknown CVSS v3.1 metric "${part}"`);
+    }
+    if (metrics[metric] !== undefined) {
+      throw new Error(`CVSS v3.1 metric ${metric} is defined more than once`);
+    }
+    if (!allowed.includes(value)) {
+      throw new Error(`Invalid value "${value}" for CVSS v3.1 metric ${metric}`);
+    }
+
+    metrics[metric] = value;
+  }
+
+  const missing = baseMetrics.filter(metric => metrics[metric] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`CVSS v3.1 vector is missing base metrics: ${missing.join(', ')}`);
+  }
+
+  for (const metric of Object.keys(metricValues)) {
+    metrics[metric] ??= 'X';
+  }
+
+  return metrics;
+};
+
+// Environmental metric value, falling back to the base metric when Not Defined
+export const modifiedValue = (metrics: Cvss31Metrics, metric: string): string =>
+  metrics[`M${metric}`] !== 'X' ? metrics[`M${metric}`] : metrics[metric];
+
+export const scoreCvss31 = (metrics: Cvss31Metrics): Cvss31Scores => {
+  const temporalMultiplier = weights.E[metrics['E']] * weights.RL[metrics['RL']] * weights.RC[metrics['RC']];
+
+  // Base score
+  const scope = metrics['S'];
+  const iss = 1 - (
+    (1 - weights.CIA[metrics['C']]) *
+    (1 - weights.CIA[metrics['I']]) *
+    (1 - weights.CIA[metrics['A']])
+  );
+  const impact = scope === 'U'
+    ? 6.42 * iss
+    : 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15);
+  const exploitability = 8.22 * weights.AV[metrics['AV']] * weights.AC[metrics['AC']] *
+    privilegesWeight(metrics['PR'], scope) * weights.UI[metrics['UI']];
+
+  let baseScore = 0;
+  if (impact > 0) {
+    baseScore = scope === 'U'
+      ? roundUp(Math.min(impact + exploitability, 10))
+      : roundUp(Math.min(1.08 * (impact + exploitability), 10));
+  }
+
+  const temporalScore = roundUp(baseScore * temporalMultiplier);
+
+  // Without environmental metrics the temporal score is the most specific one;
+  // the modified impact formula is not an exact match for the base formula
+  if (environmentalMetrics.every(metric => metrics[metric] === 'X')) {
+    return {
+      base_score: baseScore,
+      temporal_score: temporalScore,
+      environmental_score: temporalScore
+    };
+  }
+
+  // Environmental score
+  const modifiedScope = modifiedValue(metrics, 'S');
+  const miss = Math.min(1 - (
+    (1 - weights.CR[metrics['CR']] * weights.CIA[modifiedValue(metrics, 'C')]) *
+    (1 - weights.CR[metrics['IR']] * weights.CIA[modifiedValue(metrics, 'I')]) *
+    (1 - weights.CR[metrics['AR']] * weights.CIA[modifiedValue(metrics, 'A')])
+  ), 0.915);
+  const modifiedImpact = modifiedScope === 'U'
+    ? 6.42 * miss
+    : 7.52 * (miss - 0.029) - 3.25 * Math.pow(miss * 0.9731 - 0.02, 13);
+  const modifiedExploitability = 8.22 *
+    weights.AV[modifiedValue(metrics, 'AV')] *
+    weights.AC[modifiedValue(metrics, 'AC')] *
+    privilegesWeight(modifiedValue(metrics, 'PR'), modifiedScope) *
+    weights.UI[modifiedValue(metrics, 'UI')];
+
+  let environmentalScore = 0;
+  if (modifiedImpact > 0) {
+    const modifiedBase = modifiedScope === 'U'
+      ? roundUp(Math.min(modifiedImpact + modifiedExploitability, 10))
+      : roundUp(Math.min(1.08 * (modifiedImpact + modifiedExploitability), 10));
+    environmentalScore = roundUp(modifiedBase * temporalMultiplier);
+  }
+
+  return {
+    base_score: baseScore,
+    temporal_score: temporalScore,
+    environmental_score: environmentalScore
+  };
+};
@@ -0,0 +1,377 @@
+// CVSS v4.0 parsing and scoring. v4.0 has no closed-form equation: a vector is
+// mapped onto one of 270 MacroVectors whose scores come from the FIRST lookup
+// table, then interpolated by its severity distance to the MacroVector's
+// highest severity vectors (https://www.first.org/cvss/v4.0/specification-document,
+// section 8, and the reference calculator at github.com/FIRSTdotorg/cvss-v4-calculator)
+
+export const CVSS40_PREFIX = 'CVSS:4.0';
+
+// Allowed values per metric, in the order the specification lists them
+const metricValues: Record<string, readonly string[]> = {
+  // Base
+  AV: ['N', 'A', 'L', 'P'],
+  AC: ['L', 'H'],
+  AT: ['N', 'P'],
+  PR: ['N', 'L', 'H'],
+  UI: ['N', 'P', 'A'],
+  VC: ['H', 'L', 'N'],
+  VI: ['H', 'L', 'N'],
+  VA: ['H', 'L', 'N'],
+  SC: ['H', 'L', 'N'],
+  SI: ['H', 'L', 'N'],
+  SA: ['H', 'L', 'N'],
+  // Threat
+  E: ['X', 'A', 'P', 'U'],
+  // Environmental
+  CR: ['X', 'H', 'M', 'L'],
+  IR: ['X', 'H', 'M', 'L'],
+  AR: ['X', 'H', 'M', 'L'],
+  MAV: ['X', 'N', 'A', 'L', 'P'],
+  MAC: ['X', 'L', 'H'],
+  MAT: ['X', 'N', 'P'],
+  MPR: ['X', 'N', 'L', 'H'],
+  MUI: ['X', 'N', 'P', 'A'],
+  MVC: ['X', 'H', 'L', 'N'],
+  MVI: ['X', 'H', 'L', 'N'],
+  MVA: ['X', 'H', 'L', 'N'],
+  MSC: ['X', 'H', 'L', 'N'],
+  MSI: ['X', 'S', 'H', 'L', 'N'],
+  MSA: ['X', 'S', 'H', 'L', 'N'],
+  // Supplemental (informational only, never affect the score)
+  S: ['X', 'N', 'P'],
+  AU: ['X', 'N', 'Y'],
+  R: ['X', 'A', 'U', 'I'],
+  V: ['X', 'D', 'C'],
+  RE: ['X', 'L', 'M', 'H'],
+  U: ['X', 'Clear', 'Green', 'Amber', 'Red']
+};
+
+const baseMetrics = ['AV', 'AC', 'AT', 'PR', 'UI', 'VC', 'VI', 'VA', 'SC', 'SI', 'SA'];
+const threatMetrics = ['E'];
+const environmentalMetrics = [
+  'CR', 'IR', 'AR', 'MAV', 'MAC', 'MAT', 'MPR', 'MUI', 'MVC', 'MVI', 'MVA', 'MSC', 'MSI', 'MSA'
+];
+
+// Severity order per metric, most severe first, used for severity distances
+const severityLevels: Record<string, readonly string[]> = {
+  AV: ['N', 'A', 'L', 'P'],
+  AC: ['L', 'H'],
+  AT: ['N', 'P'],
+  PR: ['N', 'L', 'H'],
+  UI: ['N', 'P', 'A'],
+  VC: ['H', 'L', 'N'],
+  VI: ['H', 'L', 'N'],
+  VA: ['H', 'L', 'N'],
+  SC: ['H', 'L', 'N'],
+  SI: ['S', 'H', 'L', 'N'],
+  SA: ['S', 'H', 'L', 'N'],
+  CR: ['H', 'M', 'L'],
+  IR: ['H', 'M', 'L'],
+  AR: ['H', 'M', 'L']
+};
+
+// Highest severity vectors of each equivalence class level (tables 24-30)
+const maxComposed: {
+  eq1: Record<number, string[]>;
+  eq2: Record<number, string[]>;
+  eq3eq6: Record<number, Record<number, string[]>>;
+  eq4: Record<number, string[]>;
+} = {
+  eq1: {
+    0: ['AV:N/PR:N/UI:N'],
+    1: ['AV:A/PR:N/UI:N', 'AV:N/PR:L/UI:N', 'AV:N/PR:N/UI:P'],
+    2: ['AV:P/PR:N/UI:N', 'AV:A/PR:L/UI:P']
+  },
+  eq2: {
+    0: ['AC:L/AT:N'],
+    1: ['AC:H/AT:N', 'AC:L/AT:P']
+  },
+  eq3eq6: {
+    0: {
+      0: ['VC:H/VI:H/VA:H/CR:H/IR:H/AR:H'],
+      1: ['VC:H/VI:H/VA:L/CR:M/IR:M/AR:H', 'VC:H/VI:H/VA:H/CR:M/IR:M/AR:M']
+    },
+    1: {
+      0: ['VC:L/VI:H/VA:H/CR:H/IR:H/AR:H', 'VC:H/VI:L/VA:H/CR:H/IR:H/AR:H'],
+      1: [
+        'VC:L/VI:H/VA:L/CR:H/IR:M/AR:H',
+        'VC:L/VI:H/VA:H/CR:H/IR:M/AR:M',
+        'VC:H/VI:L/VA:H/CR:M/IR:H/AR:M',
+        'VC:H/VI:L/VA:L/CR:M/IR:H/AR:H',
+        'VC:L/VI:L/VA:H/CR:H/IR:H/AR:M'
+      ]
+    },
+    2: {
+      1: ['VC:L/VI:L/VA:L/CR:H/IR:H/AR:H']
+    }
+  },
+  eq4: {
+    0: ['SC:H/SI:S/SA:S'],
+    1: ['SC:H/SI:H/SA:H'],
+    2: ['SC:L/SI:L/SA:L']
+  }
+};
+
+// Number of severity steps within each equivalence class level
+const maxSeverity = {
+  eq1: { 0: 1, 1: 4, 2: 5 } as Record<number, number>,
+  eq2: { 0: 1, 1: 2 } as Record<number, number>,
+  eq3eq6: { 0: { 0: 7, 1: 6 }, 1: { 0: 8, 1: 8 }, 2: { 1: 10 } } as Record<number, Record<number, number>>,
+  eq4: { 0: 6, 1: 5, 2: 4 } as Record<number, number>
+};
+
+// MacroVector -> score lookup table published by FIRST
+const macroVectorScores: Record<string, number> = {
+  '000000': 10, '000001': 9.9, '000010': 9.8, '000011': 9.5, '000020': 9.5, '000021': 9.2,
+  '000100': 10, '000101': 9.6, '000110': 9.3, '000111': 8.7, '000120': 9.1, '000121': 8.1,
+  '000200': 9.3, '000201': 9, '000210': 8.9, '000211': 8, '000220': 8.1, '000221': 6.8,
+  '001000': 9.8, '001001': 9.5, '001010': 9.5, '001011': 9.2, '001020': 9, '001021': 8.4,
+  '001100': 9.3, '001101': 9.2, '001110': 8.9, '001111': 8.1, '001120': 8.1, '001121': 6.5,
+  '001200': 8.8, '001201': 8, '001210': 7.8, '001211': 7, '001220': 6.9, '001221': 4.8,
+  '002001': 9.2, '002011': 8.2, '002021': 7.2, '002101': 7.9, '002111': 6.9, '002121': 5,
+  '002201': 6.9, '002211': 5.5, '002221': 2.7,
+  '010000': 9.9, '010001': 9.7, '010010': 9.5, '010011': 9.2, '010020': 9.2, '010021': 8.5,
+  '010100': 9.5, '010101': 9.1, '010110': 9, '010111': 8.3, '010120': 8.4, '010121': 7.1,
+  '010200': 9.2, '010201': 8.1, '010210': 8.2, '010211': 7.1, '010220': 7.2, '010221': 5.3,
+  '011000': 9.5, '011001': 9.3, '011010': 9.2, '011011': 8.5, '011020': 8.5, '011021': 7.3,
+  '011100': 9.2, '011101': 8.2, '011110': 8, '011111': 7.2, '011120': 7, '011121': 5.9,
+  '011200': 8.4, '011201': 7, '011210': 7.1, '011211': 5.2, '011220': 5, '011221': 3,
+  '012001': 8.6, '012011': 7.5, '012021': 5.2, '012101': 7.1, '012111': 5.2, '012121': 2.9,
+  '012201': 6.3, '012211': 2.9, '012221': 1.7,
+  '100000': 9.8, '100001': 9.5, '100010': 9.4, '100011': 8.7, '100020': 9.1, '100021': 8.1,
+  '100100': 9.4, '100101': 8.9, '100110': 8.6, '100111': 7.4, '100120': 7.7, '100121': 6.4,
+  '100200': 8.7, '100201': 7.5, '100210': 7.4, '100211': 6.3, '100220': 6.3, '100221': 4.9,
+  '101000': 9.4, '101001': 8.9, '101010': 8.8, '101011': 7.7, '101020': 7.6, '101021': 6.7,
+  '101100': 8.6, '101101': 7.6, '101110': 7.4, '101111': 5.8, '101120': 5.9, '101121': 5,
+  '101200': 7.2, '101201': 5.7, '101210': 5.7, '101211': 5.2, '101220': 5.2, '101221': 2.5,
+  '102001': 8.3, '102011': 7, '102021': 5.4, '102101': 6.5, '102111': 5.8, '102121': 2.6,
+  '102201': 5.3, '102211': 2.1, '102221': 1.3,
+  '110000': 9.5, '110001': 9, '110010': 8.8, '110011': 7.6, '110020': 7.6, '110021': 7,
+  '110100': 9, '110101': 7.7, '110110': 7.5, '110111': 6.2, '110120': 6.1, '110121': 5.3,
+  '110200': 7.7, '110201': 6.6, '110210': 6.8, '110211': 5.9, '110220': 5.2, '110221': 3,
+  '111000': 8.9, '111001': 7.8, '111010': 7.6, '111011': 6.7, '111020': 6.2, '111021': 5.8,
+  '111100': 7.4, '111101': 5.9, '111110': 5.7, '111111': 5.7, '111120': 4.7, '111121': 2.3,
+  '111200': 6.1, '111201': 5.2, '111210': 5.7, '111211': 2.9, '111220': 2.4, '111221': 1.6,
+  '112001': 7.1, '112011': 5.9, '112021': 3, '112101': 5.8, '112111': 2.6, '112121': 1.5,
+  '112201': 2.3, '112211': 1.3, '112221': 0.6,
+  '200000': 9.3, '200001': 8.7, '200010': 8.6, '200011': 7.2, '200020': 7.5, '200021': 5.8,
+  '200100': 8.6, '200101': 7.4, '200110': 7.4, '200111': 6.1, '200120': 5.6, '200121': 3.4,
+  '200200': 7, '200201': 5.4, '200210': 5.2, '200211': 4, '200220': 4, '200221': 2.2,
+  '201000': 8.5, '201001': 7.5, '201010': 7.4, '201011': 5.5, '201020': 6.2, '201021': 5.1,
+  '201100': 7.2, '201101': 5.7, '201110': 5.5, '201111': 4.1, '201120': 4.6, '201121': 1.9,
+  '201200': 5.3, '201201': 3.6, '201210': 3.4, '201211': 1.9, '201220': 1.9, '201221': 0.8,
+  '202001': 6.4, '202011': 5.1, '202021': 2, '202101': 4.7, '202111': 2.1, '202121': 1.1,
+  '202201': 2.4, '202211': 0.9, '202221': 0.4,
+  '210000': 8.8, '210001': 7.5, '210010': 7.3, '210011': 5.3, '210020': 6, '210021': 5,
+  '210100': 7.3, '210101': 5.5, '210110': 5.9, '210111': 4, '210120': 4.1, '210121': 2,
+  '210200': 5.4, '210201': 4.3, '210210': 4.5, '210211': 2.2, '210220': 2, '210221': 1.1,
+  '211000': 7.5, '211001': 5.5, '211010': 5.8, '211011': 4.5, '211020': 4, '211021': 2.1,
+  '211100': 6.1, '211101': 5.1, '211110': 4.8, '211111': 1.8, '211120': 2, '211121': 0.9,
+  '211200': 4.6, '211201': 1.8, '211210': 1.7, '211211': 0.7, '211220': 0.8, '211221': 0.2,
+  '212001': 5.3, '212011': 2.4, '212021': 1.4, '212101': 2.4, '212111': 1.2, '212121': 0.5,
+  '212201': 1, '212211': 0.3, '212221': 0.1
+};
+
+export type Cvss40Metrics = Record<string, string>;
+
+export interface Cvss40Scores {
+  base_score: number; // CVSS-B
+  threat_score: number; // CVSS-BT
+  environmental_score: number; // CVSS-BTE
+}
+
+// Parses a CVSS:4.0 vector into its metrics, with every optional metric that
+// is absent from the vector set to X (Not Defined)
+export const parseCvss40Vector = (vector: string): Cvss40Metrics => {
+  const [prefix, ...parts] = vector.split('/');
+
+  if (prefix !== CVSS40_PREFIX) {
+    throw new Error(`CVSS v4.0 vectors must start with ${CVSS40_PREFIX}`);
+  }
+
+  const metrics: Cvss40Metrics = {};
+
+  for (const part of parts) {
+    const [metric, value, ...rest] = part.split(':');
+    const allowed = metricValues[metric];
+
+    if (!allowed || value === undefined || rest.length > 0) {
+      throw new Error(`Unknown CVSS v4.0 metric "${part}"`);
+    }
+    if (metrics[metric] !== undefined) {
+      throw new Error(`CVSS v4.0 metric ${metric} is defined more than once`);
+    }
+    if (!allowed.includes(value)) {
+      throw new Error(`Invalid value "${value}" for CVSS v4.0 metric ${metric}`);
+    }
+
+    metrics[metric] = value;
+  }
+
+  const missing = baseMetrics.filter(metric => metrics[metric] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`CVSS v4.0 vector is missing base metrics: ${missing.join(', ')}`);
+  }
+
+  for (const metric of Object.keys(metricValues)) {
+    metrics[metric] ??= 'X';
+  }
+
+  return metrics;
+};
+
+// Value used for scoring: the modified metric when set, otherwise the base
+// metric, with the specification's worst-case defaults for E and CR/IR/AR
+export const effectiveValue = (metrics: Cvss40Metrics, metric: string): string => {
+  if (baseMetrics.includes(metric)) {
+    const modified = metrics[`M${metric}`];
+    return modified !== 'X' ? modified : metrics[metric];
+  }
+
+  const value = metrics[metric];
+  if (value !== 'X') return value;
+  if (metric === 'E') return 'A';
+  return 'H'; // CR, IR, AR
+};
+
+const macroVector = (metrics: Cvss40Metrics): number[] => {
+  const m = (metric: string) => effectiveValue(metrics, metric);
+
+  // EQ1: AV/PR/UI
+  let eq1 = 2;
+  if (m('AV') === 'N' && m('PR') === 'N' && m('UI') === 'N') {
+    eq1 = 0;
+  } else if ((m('AV') === 'N' || m('PR') === 'N' || m('UI') === 'N') && m('AV') !== 'P') {
+    eq1 = 1;
+  }
+
+  // EQ2: AC/AT
+  const eq2 = m('AC') === 'L' && m('AT') === 'N' ? 0 : 1;
+
+  // EQ3: VC/VI/VA
+  let eq3 = 2;
+  if (m('VC') === 'H' && m('VI') === 'H') {
+    eq3 = 0;
+  } else if (m('VC') === 'H' || m('VI') === 'H' || m('VA') === 'H') {
+    eq3 = 1;
+  }
+
+  // EQ4: SC/SI/SA, where S (Safety) can only come from MSI/MSA
+  let eq4 = 2;
+  if (m('SI') === 'S' || m('SA') === 'S') {
+    eq4 = 0;
+  } else if (m('SC') === 'H' || m('SI') === 'H' || m('SA') === 'H') {
+    eq4 = 1;
+  }
+
+  // EQ5: E
+  const eq5 = { A: 0, P: 1, U: 2 }[m('E') as 'A' | 'P' | 'U'];
+
+  // EQ6: CR/IR/AR combined with VC/VI/VA
+  const eq6 = (m('CR') === 'H' && m('VC') === 'H') ||
+    (m('IR') === 'H' && m('VI') === 'H') ||
+    (m('AR') === 'H' && m('VA') === 'H') ? 0 : 1;
+
+  return [eq1, eq2, eq3, eq4, eq5, eq6];
+};
+
+const lookup = (eqs: number[]): number => macroVectorScores[eqs.join('')] ?? NaN;
+
+const severityDistance = (metrics: Cvss40Metrics, metric: string, maxVector: string): number => {
+  const levels = severityLevels[metric];
+  const maxValue = maxVector.split('/').find(part => part.startsWith(`${metric}:`))!.split(':')[1];
+  return levels.indexOf(effectiveValue(metrics, metric)) - levels.indexOf(maxValue);
+};
+
+// Rounds half up to one decimal; the epsilon keeps values such as 6.1 - 0.45
+// from rounding down because of floating point error, as the FIRST calculator does
+const roundScore = (score: number): number =>
+  Math.min(10, Math.max(0, Math.round((score + 1e-6) * 10) / 10));
+
+const score = (metrics: Cvss40Metrics): number => {
+  const impactMetrics = ['VC', 'VI', 'VA', 'SC', 'SI', 'SA'];
+  if (impactMetrics.every(metric => effectiveValue(metrics, metric) === 'N')) {
+    return 0;
+  }
+
+  const [eq1, eq2, eq3, eq4, eq5, eq6] = macroVector(metrics);
+  const value = lookup([eq1, eq2, eq3, eq4, eq5, eq6]);
+
+  // Score of the next lower MacroVector for each equivalence class; EQ3 and
+  // EQ6 are joint because not every combination of their levels exists
+  const nextLowerEq1 = lookup([eq1 + 1, eq2, eq3, eq4, eq5, eq6]);
+  const nextLowerEq2 = lookup([eq1, eq2 + 1, eq3, eq4, eq5, eq6]);
+  const nextLowerEq4 = lookup([eq1, eq2, eq3, eq4 + 1, eq5, eq6]);
+  const nextLowerEq5 = lookup([eq1, eq2, eq3, eq4, eq5 + 1, eq6]);
+  let nextLowerEq3Eq6: number;
+  if (eq3 === 0 && eq6 === 0) {
+    nextLowerEq3Eq6 = Math.max(
+      lookup([eq1, eq2, eq3, eq4, eq5, eq6 + 1]),
+      lookup([eq1, eq2, eq3 + 1, eq4, eq5, eq6])
+    );
+  } else if (eq3 === 1 && eq6 === 0) {
+    nextLowerEq3Eq6 = lookup([eq1, eq2, eq3, eq4, eq5, eq6 + 1]);
+  } else {
+    nextLowerEq3Eq6 = lookup([eq1, eq2, eq3 + 1, eq4, eq5, eq6]);
+  }
+
+  // Severity distance from the first highest severity vector of this
+  // MacroVector that the scored vector does not exceed
+  let distanceEq1 = 0;
+  let distanceEq2 = 0;
+  let distanceEq3Eq6 = 0;
+  let distanceEq4 = 0;
+
+  search:
+  for (const max1 of maxComposed.eq1[eq1]) {
+    for (const max2 of maxComposed.eq2[eq2]) {
+      for (const max36 of maxComposed.eq3eq6[eq3][eq6]) {
+        for (const max4 of maxComposed.eq4[eq4]) {
+          const maxVector = [max1, max2, max36, max4].join('/');
+          const distances: Record<string, number> = {};
+          for (const metric of Object.keys(severityLevels)) {
+            distances[metric] = severityDistance(metrics, metric, maxVector);
+          }
+          if (Object.values(distances).some(distance => distance < 0)) continue;
+
+          distanceEq1 = distances['AV'] + distances['PR'] + distances['UI'];
+          distanceEq2 = distances['AC'] + distances['AT'];
+          distanceEq3Eq6 = distances['VC'] + distances['VI'] + distances['VA'] + distances['CR'] + distances['IR'] + distances['AR'];
+          distanceEq4 = distances['SC'] + distances['SI'] + distances['SA'];
+          break search;
+        }
+      }
+    }
+  }
+
+  // Each available score drop is scaled by how far the vector already is
+  // from the top of its MacroVector; EQ5 has a single step so never moves
+  const normalized = [
+    { next: nextLowerEq1, proportion: distanceEq1 / maxSeverity.eq1[eq1] },
+    { next: nextLowerEq2, proportion: distanceEq2 / maxSeverity.eq2[eq2] },
+    { next: nextLowerEq3Eq6, proportion: distanceEq3Eq6 / maxSeverity.eq3eq6[eq3][eq6] },
+    { next: nextLowerEq4, proportion: distanceEq4 / maxSeverity.eq4[eq4] },
+    { next: nextLowerEq5, proportion: 0 }
+  ].filter(({ next }) => !Number.isNaN(next))
+    .map(({ next, proportion }) => (value - next) * proportion);
+
+  const meanDistance = normalized.length > 0
+    ? normalized.reduce((sum, distance) => sum + distance, 0) / normalized.length
+    : 0;
+
+  return roundScore(value - meanDistance);
+};
+
+const withoutMetrics = (metrics: Cvss40Metrics, excluded: string[]): Cvss40Metrics => {
+  const result = { ...metrics };
+  for (const metric of excluded) {
+    result[metric] = 'X';
+  }
+  return result;
+};
+
+export const scoreCvss40 = (metrics: Cvss40Metrics): Cvss40Scores => ({
+  base_score: score(withoutMetrics(metrics, [...threatMetrics, ...environmentalMetrics])),
+  threat_score: score(withoutMetrics(metrics, environmentalMetrics)),
+  environmental_score: score(metrics)
+});
@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { Pool } from 'pg';
 import * as schema from './schema';
@@ -8,4 +9,25 @@ const pool = new Pool({
 });
 
 // Pass schema to drizzle for relation queries
-export const db = drizzle(pool, { schema });
+const database = drizzle(pool, { schema });
+
+type Transaction = Parameters<Parameters<typeof database.transaction>[0]>[0];
+
+const ambient = new AsyncLocalStorage<Transaction>();
+
+// Inside runInTransaction every query made through db joins that transaction,
+// and db.transaction opens a savepoint in it. Outside, db is the pool.
+export const db: typeof database = new Proxy(database, {
+  get: (target, property) => {
+    const tx = ambient.getStore();
+    const source: object = tx && property in tx ? tx : target;
+    const value = Reflect.get(source, property, source);
+    return typeof value === 'function' ? value.bind(source) : value;
+  }
+});
+
+// Runs work in one transaction that every db call it makes, however deeply
+// nested, takes part in. The transaction commits when work returns and rolls
+// back when it throws.
+export const runInTransaction = <T>(work: () => Promise<T>): Promise<T> =>
+  db.transaction(tx => ambient.run(tx, work));
@@ -0,0 +1,139 @@
+import { db } from '.';
+import { securityIssuesTable, securityReviewsTable, securityViolationsTable, tables, usersTable } from './schema';
+import { getTableConfig, type PgColumn, type PgTable } from 'drizzle-orm/pg-core';
+import { and, eq, inArray, isNotNull, sql, type SQL } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'execute'>;
+
+// What repairOrphans does with a row whose reference is broken
+export type OrphanRepair = 'set null' | 'delete' | 'report';
+
+export interface OrphanReference {
+  table: string;
+  column: string;
+  referenced_table: string;
+  referenced_column: string;
+  repair: OrphanRepair;
+}
+
+export interface OrphanReport extends OrphanReference {
+  reason: 'missing' | 'inactive';
+  ids: number[];
+}
+
+// One entry per foreign key in the schema. Optional references are cleared,
+// rows that cascade with their parent are deleted, and required references on
+// rows that matter in their own right (an issue whose container is gone) are
+// only reported, since no automatic fix is safe.
+export const orphanReferences: OrphanReference[] = Object.values(tables)
+  .flatMap((table: PgTable) => {
+    const config = getTableConfig(table);
+    return config.foreignKeys.map(foreignKey => {
+      const reference = foreignKey.reference();
+      const column = reference.columns[0];
+      const repair: OrphanRepair = !column.notNull
+        ? 'set null'
+        : foreignKey.onDelete === 'cascade' ? 'delete' : 'report';
+
+      return {
+        table: config.name,
+        column: column.name,
+        referenced_table: getTableConfig(reference.foreignTable).name,
+        referenced_column: reference.foreignColumns[0].name,
+        repair
+      };
+    });
+  });
+
+// Users are deactivated rather than deleted, so open work still assigned to a
+// deactivated user is treated like an assignee whose row was deleted
+const inactiveAssignees: { table: PgTable; id: PgColumn; column: PgColumn; open: SQL | undefined }[] = [
+  {
+    table: securityIssuesTable,
+    id: securityIssuesTable.id,
+    column: securityIssuesTable.assigned_to,
+    open: inArray(securityIssuesTable.status, ['Open', 'In-progress'])
+  },
+  {
+    table: securityViolationsTable,
+    id: securityViolationsTable.id,
+    column: securityViolationsTable.assigned_to,
+    open: inArray(securityViolationsTable.status, ['Open', 'In-progress'])
+  },
+  {
+    table: securityReviewsTable,
+    id: securityReviewsTable.id,
+    column: securityReviewsTable.reviewer_id,
+    open: inArray(securityReviewsTable.status, ['Pending', 'InReview'])
+  }
+];
+
+const findMissing = async (executor: Executor, reference: OrphanReference): Promise<number[]> => {
+  const result = await executor.execute<{ id: number }>(sql`
+    select child.id from ${sql.identifier(reference.table)} child
+    where child.${sql.identifier(reference.column)} is not null
+      and not exists (
+        select 1 from ${sql.identifier(reference.referenced_table)} parent
+        where parent.${sql.identifier(reference.referenced_column)} = child.${sql.identifier(reference.column)}
+      )
+    order by child.id
+  `);
+  return result.rows.map(row => row.id);
+};
+
+// Rows whose references point at missing records or deactivated assignees.
+// Uses plain joins rather than the constraints, so it also works on databases
+// the foreign keys have not been applied to yet.
+export const findOrphans = async (executor: Executor = db): Promise<OrphanReport[]> => {
+  const reports: OrphanReport[] = [];
+
+  for (const reference of orphanReferences) {
+    const ids = await findMissing(executor, reference);
+    if (ids.length > 0) {
+      reports.push({ ...reference, reason: 'missing', ids });
+    }
+  }
+
+  for (const assignee of inactiveAssignees) {
+    const result = await executor.execute<{ id: number }>(sql`
+      select ${assignee.id} as id from ${assignee.table}
+      inner join ${usersTable} on ${eq(usersTable.id, assignee.column)}
+      where ${and(isNotNull(assignee.column), eq(usersTable.is_active, false), assignee.open)}
+      order by ${assignee.id}
+    `);
+    if (result.rows.length > 0) {
+      reports.push({
+        table: getTableConfig(assignee.table).name,
+        column: assignee.column.name,
+        referenced_table: 'users',
+        referenced_column: 'id',
+        repair: 'set null',
+        reason: 'inactive',
+        ids: result.rows.map(row => row.id)
+      });
+    }
+  }
+
+  return reports;
+};
+
+// Applies the repair for every orphan found, in one transaction, and returns
+// what was found. Rows marked 'report' are left untouched.
+export const repairOrphans = async (): Promise<OrphanReport[]> => {
+  return db.transaction(async (tx) => {
+    const reports = await findOrphans(tx);
+
+    for (const report of reports) {
+      const table = sql.identifier(report.table);
+      const ids = sql.join(report.ids.map(id => sql`${id}`), sql`, `);
+
+      if (report.repair === 'set null') {
+        await tx.execute(sql`update ${table} set ${sql.identifier(report.column)} = null where id in (${ids})`);
+      } else if (report.repair === 'delete') {
+        await tx.execute(sql`delete from ${table} where id in (${ids})`);
+      }
+    }
+
+    return reports;
+  });
+};
@@ -0,0 +1,194 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { sql } from 'drizzle-orm';
+import { db } from '.';
+import { type MigrationStatus, type MigrationStatusReport } from '../schema';
+
+// Generated by `bun db:generate` and checked in; never edit an applied file
+export const MIGRATIONS_FOLDER = path.resolve(import.meta.dir, '../../drizzle');
+
+// Where drizzle's migrator records applied migrations
+const MIGRATIONS_TABLE = sql`drizzle.__drizzle_migrations`;
+
+const LOCK_KEY = 'schema_migrations';
+
+type Migrator = ReturnType<typeof drizzle>;
+
+interface JournalEntry {
+  idx: number;
+  when: number;
+  tag: string;
+}
+
+interface Migration extends JournalEntry {
+  hash: string;
+  down_file: string;
+}
+
+const readMigrations = (folder: string): Migration[] => {
+  const journal = JSON.parse(readFileSync(path.join(folder, 'meta/_journal.json'), 'utf8')) as { entries: JournalEntry[] };
+  const files = readMigrationFiles({ migrationsFolder: folder });
+
+  return journal.entries.map((entry, index) => ({
+    ...entry,
+    hash: files[index].hash,
+    down_file: path.join(folder, `${entry.tag}.down.sql`)
+  }));
+};
+
+const readAppliedMigrations = async (executor: Pick<typeof db, 'execute'>): Promise<{ hash: string; created_at: number }[]> => {
+  const table = await executor.execute<{ exists: boolean }>(
+    sql`select to_regclass('drizzle.__drizzle_migrations') is not null as exists`
+  );
+  if (!table.rows[0].exists) {
+    return [];
+  }
+
+  const result = await executor.execute<{ hash: string; created_at: string }>(
+    sql`select hash, created_at from ${MIGRATIONS_TABLE} order by created_at`
+  );
+  return result.rows.map(row => ({ hash: row.hash, created_at: Number(row.created_at) }));
+};
+
+// Session-level advisory lock on a dedicated connection, so two servers
+// starting at once apply each migration exactly once
+const withMigrationLock = async <T>(run: (migrator: Migrator) => Promise<T>): Promise<T> => {
+  const client = await db.$client.connect();
+  try {
+    await client.query('select pg_advisory_lock(hashtext($1))', [LOCK_KEY]);
+    try {
+      return await run(drizzle(client));
+    } finally {
+      await client.query('select pg_advisory_unlock(hashtext($1))', [LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+};
+
+// Tables and columns the migration's snapshot describes, as "table.column"
+const snapshotColumns = (folder: string, migration: Migration): string[] => {
+  const snapshot = JSON.parse(readFileSync(
+    path.join(folder, 'meta', `${String(migration.idx).padStart(4, '0')}_snapshot.json`),
+    'utf8'
+  )) as { tables: Record<string, { name: string; schema: string; columns: Record<string, { name: string }> }> };
+
+  return Object.values(snapshot.tables)
+    .filter(table => (table.schema || 'public') === 'public')
+    .flatMap(table => Object.values(table.columns).map(column => `${table.name}.${column.name}`));
+};
+
+// Databases created by the old `drizzle-kit push` have no migration history.
+// Once their tables and columns are checked against the baseline, it is
+// recorded as applied so it is not re-run. A schema pushed from an older or
+// newer schema.ts is refused rather than adopted, since later migrations would
+// otherwise run against tables they do not expect.
+const adoptPushedDatabase = async (migrator: Migrator, folder: string, migrations: Migration[]): Promise<void> => {
+  const applied = await readAppliedMigrations(migrator);
+  const tables = await migrator.execute<{ exists: boolean }>(sql`select to_regclass('public.users') is not null as exists`);
+  if (applied.length > 0 || !tables.rows[0].exists || migrations.length === 0) {
+    return;
+  }
+
+  const baseline = migrations[0];
+  const live = await migrator.execute<{ column: string }>(sql`
+    select table_name || '.' || column_name as column from information_schema.columns where table_schema = 'public'
+  `);
+  const liveColumns = new Set(live.rows.map(row => row.column));
+  const missing = snapshotColumns(folder, baseline).filter(column => !liveColumns.has(column));
+  if (missing.length > 0) {
+    throw new Error(
+      `Existing schema without migration history does not match ${baseline.tag}; missing ${missing.join(', ')}. ` +
+      'Bring it up to the baseline or restore a backup before migrating.'
+    );
+  }
+
+  console.warn(`Existing schema without migration history; recording ${baseline.tag} as applied`);
+  await migrator.execute(sql`create schema if not exists drizzle`);
+  await migrator.execute(sql`
+    create table if not exists ${MIGRATIONS_TABLE} (id serial primary key, hash text not null, created_at bigint)
+  `);
+  await migrator.execute(sql`insert into ${MIGRATIONS_TABLE} (hash, created_at) values (${baseline.hash}, ${baseline.when})`);
+};
+
+export const getMigrationStatus = async (folder: string = MIGRATIONS_FOLDER): Promise<MigrationStatusReport> => {
+  const migrations = readMigrations(folder);
+  const applied = await readAppliedMigrations(db);
+  const appliedByTime = new Map(applied.map(row => [row.created_at, row.hash]));
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const appliedHash = appliedByTime.get(migration.when);
+    return {
+      tag: migration.tag,
+      created_at: new Date(migration.when),
+      // A checked-in file edited after it ran no longer matches what the database has
+      status: appliedHash === undefined ? 'pending' : appliedHash === migration.hash ? 'applied' : 'modified',
+      reversible: existsSync(migration.down_file)
+    };
+  });
+
+  return {
+    migrations: statuses,
+    applied: statuses.filter(migration => migration.status !== 'pending').length,
+    pending: statuses.filter(migration => migration.status === 'pending').length
+  };
+};
+
+// Applies pending migrations in order and returns the tags that were applied
+// by this call. drizzle runs every pending migration in a single transaction,
+// so if one fails none of this call's migrations are kept.
+export const runMigrations = async (folder: string = MIGRATIONS_FOLDER): Promise<string[]> => {
+  const migrations = readMigrations(folder);
+
+  return withMigrationLock(async (migrator) => {
+    await adoptPushedDatabase(migrator, folder, migrations);
+    const before = new Set((await readAppliedMigrations(migrator)).map(row => row.created_at));
+
+    await migrate(migrator, { migrationsFolder: folder });
+
+    const after = await readAppliedMigrations(migrator);
+    return after
+      .filter(row => !before.has(row.created_at))
+      .map(row => migrations.find(migration => migration.when === row.created_at)?.tag ?? String(row.created_at));
+  });
+};
+
+// Reverts the most recently applied migration using its hand-written
+// <tag>.down.sql. Migrations without one (such as the baseline) can only be
+// undone by restoring a backup taken before they ran.
+export const rollbackLastMigration = async (folder: string = MIGRATIONS_FOLDER): Promise<string> => {
+  const migrations = readMigrations(folder);
+
+  return withMigrationLock(async (migrator) => {
+    const applied = await readAppliedMigrations(migrator);
+    const last = applied[applied.length - 1];
+    if (!last) {
+      throw new Error('No migrations have been applied');
+    }
+
+    const migration = migrations.find(candidate => candidate.when === last.created_at);
+    if (!migration) {
+      throw new Error(`Applied migration from ${new Date(last.created_at).toISOString()} is not in ${folder}`);
+    }
+    if (!existsSync(migration.down_file)) {
+      throw new Error(`Migration ${migration.tag} has no down migration; restore from a backup instead`);
+    }
+
+    const statements = readFileSync(migration.down_file, 'utf8')
+      .split('--> statement-breakpoint')
+      .map(statement => statement.trim())
+      .filter(statement => statement.length > 0);
+
+    await migrator.transaction(async (tx) => {
+      for (const statement of statements) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.execute(sql`delete from ${MIGRATIONS_TABLE} where created_at = ${last.created_at}`);
+    });
+
+    return migration.tag;
+  });
+};
@@ -1,5 +1,5 @@
-import { serial, text, pgTable, timestamp, integer, boolean, pgEnum, real } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, integer, boolean, pgEnum, real, unique, uniqueIndex, index, jsonb, date, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql, type SQL } from 'drizzle-orm';
 
 // Enums for database
 export const severityLevelEnum = pgEnum('severity_level', ['Critical', 'High', 'Medium', 'Low']);
@@ -11,6 +11,51 @@ export const controlStatusEnum = pgEnum('control_status', ['Existing', 'Planned'
 export const violationTypeEnum = pgEnum('violation_type', ['SecurityBreach', 'PolicyViolation', 'ComplianceIssue', 'DataLeak']);
 export const userRoleEnum = pgEnum('user_role', ['Admin', 'SecurityAnalyst', 'SecurityManager', 'Viewer']);
 export const reviewStatusEnum = pgEnum('review_status', ['Pending', 'InReview', 'Completed', 'Rejected']);
+export const cvssVersionEnum = pgEnum('cvss_version', ['3.1', '4.0']);
+export const activityEntityTypeEnum = pgEnum('activity_entity_type', ['Issue', 'Violation', 'Review']);
+export const activityEventTypeEnum = pgEnum('activity_event_type', ['Created', 'FieldChange', 'StatusChange', 'Assignment']);
+export const externalSyncStatusEnum = pgEnum('external_sync_status', ['Synced', 'Failed', 'Conflict']);
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', ['Pending', 'Succeeded', 'Failed']);
+export const emailNotificationKindEnum = pgEnum('email_notification_kind', ['Assignment', 'CriticalViolation', 'DailyDigest']);
+export const emailNotificationStatusEnum = pgEnum('email_notification_status', ['Pending', 'Sent', 'Failed']);
+export const siemAlertFormatEnum = pgEnum('siem_alert_format', ['CEF', 'LEEF']);
+export const siemRuleActionEnum = pgEnum('siem_rule_action', ['Violation', 'Ignore']);
+export const savedViewEntityTypeEnum = pgEnum('saved_view_entity_type', ['Issue', 'Violation']);
+export const savedViewVisibilityEnum = pgEnum('saved_view_visibility', ['Private', 'Team', 'Organization']);
+
+// Foreign keys: rows other records depend on (containers, scoring profiles,
+// users as creators and authors) restrict deletes; optional links (assignees,
+// reviewers, parent and related issues, affected components, last editor) are
+// set to null; rows that only describe their parent (sessions, status history,
+// comment replies) cascade. The audit log has none, since its entries outlive
+// what they describe.
+
+// Full-text search: each searchable table has a GIN index over a weighted
+// tsvector of its text columns (A ranks highest). The search query builds the
+// same expression, optionally qualified with the table name, so the planner
+// uses the index.
+export interface SearchColumns {
+  A: string[];
+  B: string[];
+  C: string[];
+}
+
+export const searchVector = (columns: SearchColumns, table?: string): SQL => {
+  const column = (name: string) => (table ? `"${table}"."${name}"` : `"${name}"`);
+  const weighted = (Object.entries(columns) as [keyof SearchColumns, string[]][])
+    .filter(([, names]) => names.length > 0)
+    .map(([weight, names]) =>
+      `setweight(to_tsvector('english'::regconfig, ${names.map(name => `coalesce(${column(name)}, '')`).join(` || ' ' || `)}), '${weight}')`);
+  return sql.raw(`(${weighted.join(' || ')})`);
+};
+
+export const searchColumns = {
+  security_issues: { A: ['title', 'cve_id', 'package_name'], B: ['description'], C: ['threat_modeling_notes', 'compensating_controls'] },
+  security_violations: { A: ['title'], B: ['description'], C: ['remediation_steps', 'impact_assessment', 'affected_systems'] },
+  security_reviews: { A: ['title'], B: ['description', 'document_name'], C: ['ai_analysis_results'] },
+  security_controls: { A: ['name'], B: ['description'], C: ['implementation_notes', 'framework_reference', 'control_family'] },
+  architecture_components: { A: ['name'], B: ['description'], C: ['technology_stack', 'security_domain'] }
+} satisfies Record<string, SearchColumns>;
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -19,11 +64,46 @@ export const usersTable = pgTable('users', {
   email: text('email').notNull().unique(),
   full_name: text('full_name').notNull(),
   role: userRoleEnum('role').notNull(),
+  password_hash: text('password_hash'), // scrypt hash; null means the account cannot sign in
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
   is_active: boolean('is_active').default(true).notNull()
 });
 
+// Sessions table (opaque bearer tokens, only the SHA-256 hash is stored)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  last_used_at: timestamp('last_used_at').defaultNow().notNull()
+});
+
+// Risk scoring profiles (immutable; changing weights creates a new version)
+export const scoringProfilesTable = pgTable('scoring_profiles', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  version: integer('version').notNull(),
+  description: text('description'),
+  // Impact dimension weights used for the issue risk score
+  confidentiality_weight: real('confidentiality_weight').notNull(),
+  integrity_weight: real('integrity_weight').notNull(),
+  availability_weight: real('availability_weight').notNull(),
+  compliance_weight: real('compliance_weight').notNull(),
+  third_party_weight: real('third_party_weight').notNull(),
+  // Severity weights used for the container rollup
+  critical_weight: real('critical_weight').notNull(),
+  high_weight: real('high_weight').notNull(),
+  medium_weight: real('medium_weight').notNull(),
+  low_weight: real('low_weight').notNull(),
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('scoring_profiles_name_version_unique').on(table.name, table.version)
+]);
+
 // Containers table (Scopes/Projects)
 export const containersTable = pgTable('containers', {
   id: serial('id').primaryKey(),
@@ -33,7 +113,9 @@ export const containersTable = pgTable('containers', {
   risk_score: real('risk_score').default(0).notNull(), // Will be calculated based on issues
   external_id: text('external_id'), // For integration with Jira, Azure DevOps
   external_system: text('external_system'),
-  created_by: integer('created_by').notNull(),
+  scoring_profile_id: integer('scoring_profile_id').references(() => scoringProfilesTable.id, { onDelete: 'restrict' }), // Null means the built-in default profile
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
   is_active: boolean('is_active').default(true).notNull()
@@ -59,17 +141,84 @@ export const securityIssuesTable = pgTable('security_issues', {
   mitre_attack_technique: text('mitre_attack_technique'),
   linddun_category: text('linddun_category'),
   attack_complexity: text('attack_complexity'),
+  // CVSS vector as supplied; the scores below are computed from it server-side
+  cvss_vector: text('cvss_vector'),
+  cvss_version: cvssVersionEnum('cvss_version'),
+  cvss_base_score: real('cvss_base_score'),
+  cvss_temporal_score: real('cvss_temporal_score'), // v4.0: CVSS-BT
+  cvss_environmental_score: real('cvss_environmental_score'), // v4.0: CVSS-BTE
   threat_modeling_notes: text('threat_modeling_notes'),
   compensating_controls: text('compensating_controls'),
-  container_id: integer('container_id').notNull(),
-  parent_issue_id: integer('parent_issue_id'), // For Epic/Story/Task hierarchy
-  assigned_to: integer('assigned_to'),
-  created_by: integer('created_by').notNull(),
+  resolution_note: text('resolution_note'), // Why the issue was last resolved or closed; cleared on reopen
+  container_id: integer('container_id').notNull().references(() => containersTable.id, { onDelete: 'restrict' }),
+  parent_issue_id: integer('parent_issue_id').references((): AnyPgColumn => securityIssuesTable.id, { onDelete: 'set null' }), // For Epic/Story/Task hierarchy
+  assigned_to: integer('assigned_to').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-  is_automated_finding: boolean('is_automated_finding').default(false).notNull()
+  is_automated_finding: boolean('is_automated_finding').default(false).notNull(),
+  tags: text('tags').array().default([]).notNull(), // Free-form triage labels
+  fingerprint: text('fingerprint'), // Identifies an imported finding across scans; null for manual issues
+  scanner: text('scanner'), // Tool that reported an imported finding, e.g. Trivy
+  component_id: integer('component_id').references((): AnyPgColumn => architectureComponentsTable.id, { onDelete: 'set null' }),
+  // Vulnerable package, for findings from image and dependency scans
+  cve_id: text('cve_id'),
+  package_name: text('package_name'),
+  package_version: text('package_version'),
+  fixed_version: text('fixed_version'), // Null when no fix is available
+  // Weakness and where a dynamic scan observed it
+  cwe_id: text('cwe_id'), // e.g. CWE-89
+  affected_url: text('affected_url'),
+  affected_parameter: text('affected_parameter'),
+  evidence: text('evidence'),
+  // Linked issue in an external tracker; external_id is e.g. the Jira issue
+  // key or the Azure DevOps work item id
+  external_system: text('external_system'),
+  external_id: text('external_id'),
+  external_url: text('external_url'),
+  external_synced_at: timestamp('external_synced_at'), // Tracker matched the issue as of this time
+  external_sync_status: externalSyncStatusEnum('external_sync_status'), // Outcome of the last push or pull; null before the first
+  external_sync_error: text('external_sync_error') // Why the last push or pull failed
+}, (table) => [
+  // One issue per imported finding in a container
+  uniqueIndex('security_issues_container_fingerprint_idx').on(table.container_id, table.fingerprint)
+    .where(sql`${table.fingerprint} is not null`),
+  index('security_issues_external_idx').on(table.external_system, table.external_id),
+  index('security_issues_search_idx').using('gin', searchVector(searchColumns.security_issues))
+]);
+
+// Issue status history (append-only, one row per status change)
+export const issueStatusHistoryTable = pgTable('issue_status_history', {
+  id: serial('id').primaryKey(),
+  issue_id: integer('issue_id').notNull().references(() => securityIssuesTable.id, { onDelete: 'cascade' }),
+  from_status: issueStatusEnum('from_status'), // Null for the status the issue was created with
+  to_status: issueStatusEnum('to_status').notNull(),
+  note: text('note'),
+  changed_by: integer('changed_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  changed_at: timestamp('changed_at').defaultNow().notNull()
 });
 
+// Scanner imports (append-only, one row per import with what it changed)
+export const importRunsTable = pgTable('import_runs', {
+  id: serial('id').primaryKey(),
+  container_id: integer('container_id').notNull().references(() => containersTable.id, { onDelete: 'cascade' }),
+  component_id: integer('component_id').references(() => architectureComponentsTable.id, { onDelete: 'set null' }),
+  format: text('format').notNull(), // SARIF, Trivy, Grype, ZAP or Burp
+  scanners: text('scanners').array().notNull(), // Tools the report covered
+  created: integer('created').notNull(),
+  updated: integer('updated').notNull(),
+  reopened: integer('reopened').notNull(),
+  resolved: integer('resolved').notNull(),
+  skipped: integer('skipped').notNull(),
+  // Issue ids per outcome; unchanged and skipped entries are only counted
+  delta: jsonb('delta').$type<{ created: number[]; updated: number[]; reopened: number[]; resolved: number[] }>().notNull(),
+  imported_by: integer('imported_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  imported_at: timestamp('imported_at').defaultNow().notNull()
+}, (table) => [
+  index('import_runs_container_idx').on(table.container_id, table.imported_at)
+]);
+
 // Security Reviews table
 export const securityReviewsTable = pgTable('security_reviews', {
   id: serial('id').primaryKey(),
@@ -81,12 +230,16 @@ export const securityReviewsTable = pgTable('security_reviews', {
   status: reviewStatusEnum('status').default('Pending').notNull(),
   ai_analysis_complete: boolean('ai_analysis_complete').default(false).notNull(),
   ai_analysis_results: text('ai_analysis_results'), // JSON string of AI findings
-  container_id: integer('container_id'),
-  reviewer_id: integer('reviewer_id'),
-  created_by: integer('created_by').notNull(),
+  container_id: integer('container_id').references(() => containersTable.id, { onDelete: 'restrict' }),
+  reviewer_id: integer('reviewer_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
-  updated_at: timestamp('updated_at').defaultNow().notNull()
-});
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+  is_active: boolean('is_active').default(true).notNull()
+}, () => [
+  index('security_reviews_search_idx').using('gin', searchVector(searchColumns.security_reviews))
+]);
 
 // Security Violations table
 export const securityViolationsTable = pgTable('security_violations', {
@@ -101,13 +254,24 @@ export const securityViolationsTable = pgTable('security_violations', {
   affected_systems: text('affected_systems'),
   impact_assessment: text('impact_assessment'),
   remediation_steps: text('remediation_steps'),
-  container_id: integer('container_id'),
-  related_issue_id: integer('related_issue_id'),
-  assigned_to: integer('assigned_to'),
-  created_by: integer('created_by').notNull(),
+  container_id: integer('container_id').references(() => containersTable.id, { onDelete: 'restrict' }),
+  related_issue_id: integer('related_issue_id').references(() => securityIssuesTable.id, { onDelete: 'set null' }),
+  assigned_to: integer('assigned_to').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
-  updated_at: timestamp('updated_at').defaultNow().notNull()
-});
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  tags: text('tags').array().default([]).notNull(), // Free-form triage labels
+  // Violations raised from SIEM alerts: alerts with the same correlation key
+  // within the rule's window are counted on one violation
+  correlation_key: text('correlation_key'), // Null for manual violations
+  occurrence_count: integer('occurrence_count').default(1).notNull(),
+  last_occurrence_at: timestamp('last_occurrence_at')
+}, (table) => [
+  index('security_violations_correlation_idx').on(table.correlation_key, table.last_occurrence_at),
+  index('security_violations_search_idx').using('gin', searchVector(searchColumns.security_violations))
+]);
 
 // Security Controls table (Blueprints)
 export const securityControlsTable = pgTable('security_controls', {
@@ -122,12 +286,15 @@ export const securityControlsTable = pgTable('security_controls', {
   implementation_notes: text('implementation_notes'),
   testing_frequency: text('testing_frequency'),
   last_tested: timestamp('last_tested'),
-  container_id: integer('container_id').notNull(),
-  created_by: integer('created_by').notNull(),
+  container_id: integer('container_id').notNull().references(() => containersTable.id, { onDelete: 'restrict' }),
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
   is_active: boolean('is_active').default(true).notNull()
-});
+}, () => [
+  index('security_controls_search_idx').using('gin', searchVector(searchColumns.security_controls))
+]);
 
 // Architecture Components table (Blueprints - System Architecture)
 export const architectureComponentsTable = pgTable('architecture_components', {
@@ -142,15 +309,204 @@ export const architectureComponentsTable = pgTable('architecture_components', {
   data_classification: text('data_classification'),
   position_x: real('position_x'), // For diagram positioning
   position_y: real('position_y'),
-  container_id: integer('container_id').notNull(),
-  created_by: integer('created_by').notNull(),
+  container_id: integer('container_id').notNull().references(() => containersTable.id, { onDelete: 'restrict' }),
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
   is_active: boolean('is_active').default(true).notNull()
+}, () => [
+  index('architecture_components_search_idx').using('gin', searchVector(searchColumns.architecture_components))
+]);
+
+// Comments on issues, violations and reviews; replies point at the comment they answer
+export const commentsTable = pgTable('comments', {
+  id: serial('id').primaryKey(),
+  entity_type: activityEntityTypeEnum('entity_type').notNull(),
+  entity_id: integer('entity_id').notNull(),
+  parent_comment_id: integer('parent_comment_id').references((): AnyPgColumn => commentsTable.id, { onDelete: 'cascade' }),
+  body: text('body').notNull(), // Emptied on delete; the row stays so replies keep their thread
+  author_id: integer('author_id').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  edited_at: timestamp('edited_at'),
+  deleted_at: timestamp('deleted_at')
+}, (table) => [
+  index('comments_entity_idx').on(table.entity_type, table.entity_id)
+]);
+
+// Activity events (creation, field changes, status changes and assignments)
+export const activityEventsTable = pgTable('activity_events', {
+  id: serial('id').primaryKey(),
+  entity_type: activityEntityTypeEnum('entity_type').notNull(),
+  entity_id: integer('entity_id').notNull(),
+  event_type: activityEventTypeEnum('event_type').notNull(),
+  field: text('field'), // Null for Created events
+  old_value: text('old_value'),
+  new_value: text('new_value'),
+  actor_id: integer('actor_id').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('activity_events_entity_idx').on(table.entity_type, table.entity_id)
+]);
+
+// Control framework catalog (reference data maintained by the seed)
+export const controlFrameworksTable = pgTable('control_frameworks', {
+  id: serial('id').primaryKey(),
+  code: text('code').notNull().unique(), // Stable key, e.g. NIST-CSF
+  name: text('name').notNull(),
+  version: text('version').notNull(),
+  description: text('description'),
+  url: text('url'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Audit log (append-only and hash-chained; each hash covers the entry and the previous hash)
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  actor_id: integer('actor_id'), // Null when nobody is signed in, e.g. a failed login
+  procedure: text('procedure').notNull(),
+  entity_type: text('entity_type'), // Table name of the changed row
+  entity_id: integer('entity_id'),
+  input: jsonb('input'), // Procedure input with secrets redacted
+  changes: jsonb('changes').$type<Record<string, { before: unknown; after: unknown }>>(),
+  ip_address: text('ip_address'),
+  user_agent: text('user_agent'),
+  created_at: timestamp('created_at').notNull(), // Set by the writer because it is part of the hash
+  prev_hash: text('prev_hash'),
+  hash: text('hash').notNull().unique()
+}, (table) => [
+  index('audit_log_entity_idx').on(table.entity_type, table.entity_id),
+  index('audit_log_actor_idx').on(table.actor_id)
+]);
+
+// Outbound webhook subscriptions; events lists the event types sent to url
+export const webhookSubscriptionsTable = pgTable('webhook_subscriptions', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(), // Signs every delivery; never returned by the API
+  events: text('events').array().notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// One row per event and subscription, written in the transaction that raised
+// the event and sent by the delivery worker; doubles as the delivery log
+export const webhookDeliveriesTable = pgTable('webhook_deliveries', {
+  id: serial('id').primaryKey(),
+  subscription_id: integer('subscription_id').notNull().references(() => webhookSubscriptionsTable.id, { onDelete: 'cascade' }),
+  event_id: text('event_id').notNull(), // Shared by the deliveries of one event, and by redeliveries
+  event_type: text('event_type').notNull(),
+  payload: jsonb('payload').notNull(),
+  status: webhookDeliveryStatusEnum('status').default('Pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  next_attempt_at: timestamp('next_attempt_at'), // Null once the delivery succeeded or gave up
+  last_attempt_at: timestamp('last_attempt_at'),
+  response_status: integer('response_status'), // HTTP status of the last attempt, null when no response came
+  last_error: text('last_error'),
+  redelivery_of: integer('redelivery_of').references((): AnyPgColumn => webhookDeliveriesTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  delivered_at: timestamp('delivered_at')
+}, (table) => [
+  index('webhook_deliveries_due_idx').on(table.status, table.next_attempt_at),
+  index('webhook_deliveries_subscription_idx').on(table.subscription_id, table.created_at)
+]);
+
+// Which emails a user wants; users without a row get the defaults
+export const notificationPreferencesTable = pgTable('notification_preferences', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().unique().references(() => usersTable.id, { onDelete: 'cascade' }),
+  assignment_emails: boolean('assignment_emails').default(true).notNull(),
+  critical_violation_emails: boolean('critical_violation_emails').default(true).notNull(),
+  daily_digest: boolean('daily_digest').default(true).notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Outbox of rendered emails, written with the change that caused them and
+// sent by the notification worker. digest_date keeps digests to one a day.
+export const emailNotificationsTable = pgTable('email_notifications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  kind: emailNotificationKindEnum('kind').notNull(),
+  to_address: text('to_address').notNull(),
+  subject: text('subject').notNull(),
+  text_body: text('text_body').notNull(),
+  html_body: text('html_body').notNull(),
+  status: emailNotificationStatusEnum('status').default('Pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  next_attempt_at: timestamp('next_attempt_at'), // Null once sent or given up
+  last_error: text('last_error'),
+  digest_date: date('digest_date', { mode: 'string' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  sent_at: timestamp('sent_at')
+}, (table) => [
+  index('email_notifications_due_idx').on(table.status, table.next_attempt_at),
+  unique('email_notifications_digest_unique').on(table.user_id, table.digest_date)
+]);
+
+// How alerts from the syslog receiver become violations. Active rules are
+// tried by ascending priority and the first match decides.
+export const siemMappingRulesTable = pgTable('siem_mapping_rules', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  priority: integer('priority').default(100).notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  // Match conditions; null matches anything
+  format: siemAlertFormatEnum('format'),
+  vendor: text('vendor'), // Case-insensitive
+  product: text('product'), // Case-insensitive
+  event_pattern: text('event_pattern'), // Regular expression tried on the event id and the name
+  min_severity: integer('min_severity'), // 0-10 as reported by the alert
+  // What a match does
+  action: siemRuleActionEnum('action').default('Violation').notNull(),
+  violation_type: violationTypeEnum('violation_type').default('SecurityBreach').notNull(),
+  severity: severityLevelEnum('severity'), // Null derives it from the alert
+  container_id: integer('container_id').references(() => containersTable.id, { onDelete: 'set null' }),
+  title_template: text('title_template'), // e.g. "{name} on {destination}"; null uses the alert name
+  correlation_fields: text('correlation_fields').array().notNull(),
+  correlation_window_minutes: integer('correlation_window_minutes').default(60).notNull(),
+  created_by: integer('created_by').notNull().references(() => usersTable.id, { onDelete: 'restrict' }),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Saved Workroom filters. Team views are shared with the people working in
+// their container, Organization views with everyone.
+export const savedViewsTable = pgTable('saved_views', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  entity_type: savedViewEntityTypeEnum('entity_type').notNull(),
+  visibility: savedViewVisibilityEnum('visibility').default('Private').notNull(),
+  container_id: integer('container_id').references(() => containersTable.id, { onDelete: 'cascade' }), // Set for Team views
+  filter: jsonb('filter').$type<Record<string, unknown>>().notNull(), // Input of getSecurityIssues or getSecurityViolations
+  sort: jsonb('sort').$type<{ field: string; direction: 'asc' | 'desc' }[]>().notNull(),
+  columns: text('columns').array().notNull(), // Visible columns in display order; empty uses the client's defaults
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  index('saved_views_owner_idx').on(table.owner_id),
+  index('saved_views_container_idx').on(table.container_id)
+]);
+
+// Views a user pinned, whether their own or shared with them
+export const savedViewPinsTable = pgTable('saved_view_pins', {
+  id: serial('id').primaryKey(),
+  view_id: integer('view_id').notNull().references(() => savedViewsTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('saved_view_pins_view_user_unique').on(table.view_id, table.user_id)
+]);
+
 // Relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
+  sessions: many(sessionsTable),
   createdContainers: many(containersTable),
   createdIssues: many(securityIssuesTable, { relationName: 'createdIssues' }),
   assignedIssues: many(securityIssuesTable, { relationName: 'assignedIssues' }),
@@ -159,7 +515,20 @@ export const usersRelations = relations(usersTable, ({ many }) => ({
   createdViolations: many(securityViolationsTable, { relationName: 'createdViolations' }),
   assignedViolations: many(securityViolationsTable, { relationName: 'assignedViolations' }),
   createdControls: many(securityControlsTable),
-  createdComponents: many(architectureComponentsTable)
+  createdComponents: many(architectureComponentsTable),
+  comments: many(commentsTable),
+  activityEvents: many(activityEventsTable)
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const scoringProfilesRelations = relations(scoringProfilesTable, ({ many }) => ({
+  containers: many(containersTable)
 }));
 
 export const containersRelations = relations(containersTable, ({ one, many }) => ({
@@ -167,6 +536,10 @@ export const containersRelations = relations(containersTable, ({ one, many }) =>
     fields: [containersTable.created_by],
     references: [usersTable.id]
   }),
+  scoringProfile: one(scoringProfilesTable, {
+    fields: [containersTable.scoring_profile_id],
+    references: [scoringProfilesTable.id]
+  }),
   securityIssues: many(securityIssuesTable),
   securityReviews: many(securityReviewsTable),
   securityViolations: many(securityViolationsTable),
@@ -195,7 +568,19 @@ export const securityIssuesRelations = relations(securityIssuesTable, ({ one, ma
     references: [usersTable.id],
     relationName: 'createdIssues'
   }),
-  relatedViolations: many(securityViolationsTable)
+  relatedViolations: many(securityViolationsTable),
+  statusHistory: many(issueStatusHistoryTable)
+}));
+
+export const issueStatusHistoryRelations = relations(issueStatusHistoryTable, ({ one }) => ({
+  issue: one(securityIssuesTable, {
+    fields: [issueStatusHistoryTable.issue_id],
+    references: [securityIssuesTable.id]
+  }),
+  actor: one(usersTable, {
+    fields: [issueStatusHistoryTable.changed_by],
+    references: [usersTable.id]
+  })
 }));
 
 export const securityReviewsRelations = relations(securityReviewsTable, ({ one }) => ({
@@ -257,14 +642,40 @@ export const architectureComponentsRelations = relations(architectureComponentsT
     references: [usersTable.id]
   })
 }));
+export const commentsRelations = relations(commentsTable, ({ one, many }) => ({
+  author: one(usersTable, {
+    fields: [commentsTable.author_id],
+    references: [usersTable.id]
+  }),
+  parentComment: one(commentsTable, {
+    fields: [commentsTable.parent_comment_id],
+    references: [commentsTable.id],
+    relationName: 'commentReplies'
+  }),
+  replies: many(commentsTable, { relationName: 'commentReplies' })
+}));
+
+export const activityEventsRelations = relations(activityEventsTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [activityEventsTable.actor_id],
+    references: [usersTable.id]
+  })
+}));
+
 
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+export type ScoringProfile = typeof scoringProfilesTable.$inferSelect;
+export type NewScoringProfile = typeof scoringProfilesTable.$inferInsert;
 export type Container = typeof containersTable.$inferSelect;
 export type NewContainer = typeof containersTable.$inferInsert;
 export type SecurityIssue = typeof securityIssuesTable.$inferSelect;
 export type NewSecurityIssue = typeof securityIssuesTable.$inferInsert;
+export type IssueStatusHistoryEntry = typeof issueStatusHistoryTable.$inferSelect;
+export type NewIssueStatusHistoryEntry = typeof issueStatusHistoryTable.$inferInsert;
 export type SecurityReview = typeof securityReviewsTable.$inferSelect;
 export type NewSecurityReview = typeof securityReviewsTable.$inferInsert;
 export type SecurityViolation = typeof securityViolationsTable.$inferSelect;
@@ -273,14 +684,43 @@ export type SecurityControl = typeof securityControlsTable.$inferSelect;
 export type NewSecurityControl = typeof securityControlsTable.$inferInsert;
 export type ArchitectureComponent = typeof architectureComponentsTable.$inferSelect;
 export type NewArchitectureComponent = typeof architectureComponentsTable.$inferInsert;
+export type Comment = typeof commentsTable.$inferSelect;
+export type NewComment = typeof commentsTable.$inferInsert;
+export type ActivityEvent = typeof activityEventsTable.$inferSelect;
+export type NewActivityEvent = typeof activityEventsTable.$inferInsert;
+export type ControlFramework = typeof controlFrameworksTable.$inferSelect;
+export type NewControlFramework = typeof controlFrameworksTable.$inferInsert;
+export type AuditLogEntry = typeof auditLogTable.$inferSelect;
+export type NewAuditLogEntry = typeof auditLogTable.$inferInsert;
+export type WebhookSubscription = typeof webhookSubscriptionsTable.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveriesTable.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferencesTable.$inferSelect;
+export type EmailNotification = typeof emailNotificationsTable.$inferSelect;
+export type SiemMappingRule = typeof siemMappingRulesTable.$inferSelect;
+export type SavedView = typeof savedViewsTable.$inferSelect;
 
 // Export all tables and relations for proper query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  scoringProfiles: scoringProfilesTable,
   containers: containersTable,
   securityIssues: securityIssuesTable,
+  issueStatusHistory: issueStatusHistoryTable,
+  importRuns: importRunsTable,
   securityReviews: securityReviewsTable,
   securityViolations: securityViolationsTable,
   securityControls: securityControlsTable,
-  architectureComponents: architectureComponentsTable
+  architectureComponents: architectureComponentsTable,
+  comments: commentsTable,
+  activityEvents: activityEventsTable,
+  controlFrameworks: controlFrameworksTable,
+  auditLog: auditLogTable,
+  webhookSubscriptions: webhookSubscriptionsTable,
+  webhookDeliveries: webhookDeliveriesTable,
+  notificationPreferences: notificationPreferencesTable,
+  emailNotifications: emailNotificationsTable,
+  siemMappingRules: siemMappingRulesTable,
+  savedViews: savedViewsTable,
+  savedViewPins: savedViewPinsTable
 };
\ No newline at end of file
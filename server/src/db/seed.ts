@@ -0,0 +1,125 @@
+import { db } from '.';
+import { controlFrameworksTable, usersTable, type NewControlFramework } from './schema';
+import { createUserInputSchema } from '../schema';
+import { hashPassword } from '../auth/password';
+import { sql } from 'drizzle-orm';
+
+// Frameworks controls can reference; codes are stable, the rest may be revised
+export const CONTROL_FRAMEWORKS: NewControlFramework[] = [
+  {
+    code: 'NIST-CSF',
+    name: 'NIST Cybersecurity Framework',
+    version: '2.0',
+    description: 'Govern, Identify, Protect, Detect, Respond and Recover functions',
+    url: 'https://www.nist.gov/cyberframework'
+  },
+  {
+    code: 'NIST-800-53',
+    name: 'NIST SP 800-53 Security and Privacy Controls',
+    version: 'Rev. 5',
+    description: 'Control catalog for federal information systems',
+    url: 'https://csrc.nist.gov/pubs/sp/800/53/r5/upd1/final'
+  },
+  {
+    code: 'ISO-27001',
+    name: 'ISO/IEC 27001 Annex A',
+    version: '2022',
+    description: 'Information security management system controls',
+    url: 'https://www.iso.org/standard/27001'
+  },
+  {
+    code: 'CIS-CONTROLS',
+    name: 'CIS Critical Security Controls',
+    version: '8.1',
+    description: 'Prioritized safeguards against common attacks',
+    url: 'https://www.cisecurity.org/controls'
+  },
+  {
+    code: 'OWASP-ASVS',
+    name: 'OWASP Application Security Verification Standard',
+    version: '4.0.3',
+    description: 'Requirements for verifying web application security',
+    url: 'https://owasp.org/www-project-application-security-verification-standard/'
+  },
+  {
+    code: 'PCI-DSS',
+    name: 'Payment Card Industry Data Security Standard',
+    version: '4.0.1',
+    description: 'Requirements for protecting cardholder data',
+    url: 'https://www.pcisecuritystandards.org/'
+  },
+  {
+    code: 'SOC2',
+    name: 'SOC 2 Trust Services Criteria',
+    version: '2017 (rev. 2022)',
+    description: 'Security, availability, processing integrity, confidentiality and privacy criteria',
+    url: 'https://www.aicpa-cima.com/'
+  }
+];
+
+export interface SeedOptions {
+  // Bootstrap Admin account; created once and never modified afterwards
+  admin?: { username: string; email: string; full_name: string; password: string };
+}
+
+export interface SeedResult {
+  frameworks_changed: number;
+  users_created: string[];
+}
+
+// Reads the bootstrap Admin from ADMIN_USERNAME, ADMIN_EMAIL and ADMIN_PASSWORD
+export const seedOptionsFromEnv = (): SeedOptions => {
+  const username = process.env['ADMIN_USERNAME'];
+  const email = process.env['ADMIN_EMAIL'];
+  const password = process.env['ADMIN_PASSWORD'];
+
+  if (!username || !email || !password) {
+    return {};
+  }
+
+  return {
+    admin: { username, email, full_name: process.env['ADMIN_FULL_NAME'] || 'Administrator', password }
+  };
+};
+
+// Safe to run on every start: catalog rows are inserted or brought up to date,
+// and the Admin account is only created when its username is free
+export const seedReferenceData = async (options: SeedOptions = {}): Promise<SeedResult> => {
+  const frameworks = await db.insert(controlFrameworksTable)
+    .values(CONTROL_FRAMEWORKS)
+    .onConflictDoUpdate({
+      target: controlFrameworksTable.code,
+      set: {
+        name: sql`excluded.name`,
+        version: sql`excluded.version`,
+        description: sql`excluded.description`,
+        url: sql`excluded.url`,
+        updated_at: sql`now()`
+      },
+      // Leave unchanged rows alone so repeated runs write nothing
+      setWhere: sql`(${controlFrameworksTable.name}, ${controlFrameworksTable.version}, ${controlFrameworksTable.description}, ${controlFrameworksTable.url})
+        is distinct from (excluded.name, excluded.version, excluded.description, excluded.url)`
+    })
+    .returning({ id: controlFrameworksTable.id })
+    .execute();
+
+  const usersCreated: string[] = [];
+  if (options.admin) {
+    const admin = createUserInputSchema.parse({ ...options.admin, role: 'Admin', is_active: true });
+    const created = await db.insert(usersTable)
+      .values({
+        username: admin.username,
+        email: admin.email,
+        full_name: admin.full_name,
+        role: 'Admin',
+        password_hash: await hashPassword(admin.password),
+        is_active: true
+      })
+      .onConflictDoNothing()
+      .returning({ username: usersTable.username })
+      .execute();
+    usersCreated.push(...created.map(user => user.username));
+  }
+
+  return { frameworks_changed: frameworks.length, users_created: usersCreated };
+};
@@ -0,0 +1,25 @@
+import { TRPCError } from '@trpc/server';
+
+// Raised when a record looked up by id does not exist, so clients receive a
+// NOT_FOUND status instead of an internal server error
+export const notFoundError = (label: string, id: number): TRPCError =>
+  new TRPCError({ code: 'NOT_FOUND', message: `${label} with id ${id} not found` });
+
+// Postgres reports both a reference to a missing row and a delete blocked by
+// rows that still point at it (ON DELETE RESTRICT included) as
+// foreign_key_violation (23503); the detail tells the two apart. Postgres 18
+// and later report the RESTRICT case as restrict_violation (23001) instead.
+const referenceErrorCodes = ['23503', '23001'];
+
+export const isForeignKeyViolation = (error: unknown): error is { code: string; detail?: string } =>
+  typeof error === 'object' && error !== null && referenceErrorCodes.includes((error as { code?: unknown }).code as string);
+
+// Turns a foreign key violation into a client error naming the offending key
+export const foreignKeyError = (error: { code: string; detail?: string }): TRPCError => {
+  const blocked = error.code === '23001' || (error.detail?.includes('is still referenced') ?? false);
+  return new TRPCError({
+    code: blocked ? 'CONFLICT' : 'BAD_REQUEST',
+    message: error.detail ?? 'Referenced record does not exist',
+    cause: error
+  });
+};
@@ -0,0 +1,252 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { containersTable, usersTable } from '../db/schema';
+import { type FilterOperator, type FilterQueryIssue, FilterQueryError, parseFilterQuery } from './parse';
+import { and, eq, gt, gte, inArray, isNull, lt, lte, or, sql, type Column, type SQL } from 'drizzle-orm';
+
+export interface FilterContext {
+  actorId: number | null; // Who "me" is
+  now: Date; // Relative dates count back from here
+}
+
+// Turns one value of a term into a condition, or returns why it cannot
+export type ValueCompiler = (value: string, operator: FilterOperator, context: FilterContext) => SQL | string;
+
+export interface FilterField {
+  names: string[]; // The first is shown in error messages, the rest are aliases
+  comparable: boolean; // Takes >, >=, < and <=
+  compile: ValueCompiler;
+}
+
+export interface FilterFields {
+  fields: FilterField[];
+  text: Column[]; // Searched by terms without a field
+}
+
+export const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const listOf = (values: readonly string[]): string =>
+  values.length > 1 ? `${values.slice(0, -1).join(', ')} or ${values[values.length - 1]}` : values.join('');
+
+// Splits "a..b" into its ends; either may be left empty
+const splitRange = (value: string): [string, string] | null => {
+  const index = value.indexOf('..');
+  return index < 0 ? null : [value.slice(0, index), value.slice(index + 2)];
+};
+
+// Fields that only take an exact value
+const exact = (names: string[], compile: (value: string, context: FilterContext) => SQL | string): FilterField => ({
+  names,
+  comparable: false,
+  compile: (value, _operator, context) => compile(value, context)
+});
+
+// An enum column. Ordered enums list their values lowest first and can be
+// compared, e.g. severity>=High.
+export const enumField = (names: string[], column: Column, values: readonly string[], ordered = false): FilterField => ({
+  names,
+  comparable: ordered,
+  compile: (value, operator) => {
+    const index = values.findIndex(candidate => candidate.toLowerCase() === value.toLowerCase());
+    if (index < 0) {
+      return `Unknown ${names[0]} '${value}'; expected ${listOf(values)}`;
+    }
+    const matching = {
+      ':': [values[index]],
+      '>': values.slice(index + 1),
+      '>=': values.slice(index),
+      '<': values.slice(0, index),
+      '<=': values.slice(0, index + 1)
+    }[operator];
+    return matching.length > 0 ? inArray(column, matching) : sql`false`;
+  }
+});
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+// A numeric column; ":" takes a number or an inclusive range such as 40..70
+export const numberField = (names: string[], column: Column): FilterField => ({
+  names,
+  comparable: true,
+  compile: (value, operator) => {
+    const range = operator === ':' ? splitRange(value) : null;
+    if (range) {
+      const [from, to] = range;
+      if ((from === '' && to === '') || [from, to].some(end => end !== '' && !NUMBER.test(end))) {
+        return `Expected a range of numbers such as 40..70 for ${names[0]}`;
+      }
+      return and(
+        from !== '' ? gte(column, Number(from)) : undefined,
+        to !== '' ? lte(column, Number(to)) : undefined
+      )!;
+    }
+    if (!NUMBER.test(value)) {
+      return `Expected a number for ${names[0]}`;
+    }
+    const number = Number(value);
+    return { ':': eq, '>': gt, '>=': gte, '<': lt, '<=': lte }[operator](column, number);
+  }
+});
+
+const RELATIVE_DATE = /^-(\d+)([hdw])$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const UNIT_MS = { h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+// A point in time, or a whole UTC day for plain dates
+const parseDate = (value: string, now: Date): { start: Date; end: Date } | null => {
+  const relative = RELATIVE_DATE.exec(value);
+  if (relative) {
+    const at = new Date(now.getTime() - Number(relative[1]) * UNIT_MS[relative[2] as keyof typeof UNIT_MS]);
+    return { start: at, end: at };
+  }
+  const parsed = Date.parse(DATE.test(value) ? `${value}T00:00:00Z` : value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(parsed)) {
+    return null;
+  }
+  const start = new Date(parsed);
+  return { start, end: DATE.test(value) ? new Date(parsed + UNIT_MS.d) : start };
+};
+
+// A timestamp column. Values are dates (2024-05-01, the whole day),
+// timestamps, or times ago such as -30d, -12h or -2w. "created:-30d" means
+// within the last 30 days; ranges such as 2024-01-01..2024-03-31 include both
+// ends.
+export const dateField = (names: string[], column: Column): FilterField => ({
+  names,
+  comparable: true,
+  compile: (value, operator, context) => {
+    const invalid = `Expected a date such as 2024-05-01 or a time ago such as -30d for ${names[0]}`;
+    const range = operator === ':' ? splitRange(value) : null;
+    if (range) {
+      const [from, to] = range.map(end => (end === '' ? undefined : parseDate(end, context.now)));
+      if (from === null || to === null || (from === undefined && to === undefined)) {
+        return invalid;
+      }
+      return and(
+        from ? gte(column, from.start) : undefined,
+        to ? (to.end > to.start ? lt(column, to.end) : lte(column, to.end)) : undefined
+      )!;
+    }
+
+    const date = parseDate(value, context.now);
+    if (!date) {
+      return invalid;
+    }
+    const isDay = date.end > date.start;
+    switch (operator) {
+      case ':':
+        if (RELATIVE_DATE.test(value)) return gte(column, date.start);
+        return isDay ? and(gte(column, date.start), lt(column, date.end))! : eq(column, date.start);
+      case '>':
+        return isDay ? gte(column, date.end) : gt(column, date.start);
+      case '>=':
+        return gte(column, date.start);
+      case '<':
+        return lt(column, date.start);
+      case '<=':
+        return isDay ? lt(column, date.end) : lte(column, date.start);
+    }
+  }
+});
+
+// A text column matched without regard to case; * matches any run of
+// characters
+export const textField = (names: string[], column: Column): FilterField =>
+  exact(names, value => (value.includes('*')
+    ? sql`${column} ilike ${escapeLike(value).replace(/\*/g, '%')}`
+    : sql`lower(${column}) = ${value.toLowerCase()}`));
+
+// A text array column; matches rows carrying the value, without regard to case
+export const tagField = (names: string[], column: Column): FilterField =>
+  exact(names, value => sql`exists (select 1 from unnest(${column}) as tag where lower(tag) = ${value.toLowerCase()})`);
+
+const BOOLEANS: Record<string, boolean> = { true: true, yes: true, false: false, no: false };
+
+export const booleanField = (names: string[], column: Column, negate = false): FilterField =>
+  exact(names, value => {
+    const parsed = BOOLEANS[value.toLowerCase()];
+    return parsed === undefined ? `Expected true or false for ${names[0]}` : eq(column, parsed !== negate);
+  });
+
+// A user reference: "me", "none", a user id or a username
+export const userField = (names: string[], column: Column): FilterField =>
+  exact(names, (value, context) => {
+    const lowered = value.toLowerCase();
+    if (lowered === 'me') {
+      return context.actorId === null ? `${names[0]}:me needs a signed in user` : eq(column, context.actorId);
+    }
+    if (lowered === 'none') {
+      return isNull(column);
+    }
+    if (/^\d+$/.test(value)) {
+      return eq(column, Number(value));
+    }
+    return inArray(column, db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(sql`lower(${usersTable.username}) = ${lowered}`));
+  });
+
+// A container reference: an id or a container name
+export const containerField = (names: string[], column: Column): FilterField =>
+  exact(names, value => (/^\d+$/.test(value)
+    ? eq(column, Number(value))
+    : inArray(column, db.select({ id: containersTable.id })
+      .from(containersTable)
+      .where(sql`lower(${containersTable.name}) = ${value.toLowerCase()}`))));
+
+// Compiles a filter query into one condition over the given fields, or
+// undefined for a blank query. Throws BAD_REQUEST with every problem found,
+// each with its position in the query, as a FilterQueryError cause.
+export const compileFilterQuery = (query: string, filterFields: FilterFields, context: FilterContext): SQL | undefined => {
+  const { terms, issues } = parseFilterQuery(query);
+  const conditions: SQL[] = [];
+  const issue = (message: string, at: { position: number; length: number }): FilterQueryIssue =>
+    ({ message, position: at.position, length: at.length });
+
+  for (const term of terms) {
+    let condition: SQL | undefined;
+
+    if (term.kind === 'text') {
+      const pattern = `%${escapeLike(term.text)}%`;
+      condition = or(...filterFields.text.map(column => sql`${column} ilike ${pattern}`));
+    } else {
+      const name = term.field.toLowerCase();
+      const field = filterFields.fields.find(candidate => candidate.names.includes(name));
+      if (!field) {
+        issues.push(issue(
+          `Unknown field '${term.field}'; expected ${listOf(filterFields.fields.map(candidate => candidate.names[0]))}`,
+          { position: query[term.position] === '-' ? term.position + 1 : term.position, length: term.field.length }
+        ));
+        continue;
+      }
+      if (term.operator !== ':' && !field.comparable) {
+        issues.push(issue(`${field.names[0]} cannot be compared with ${term.operator}`, term));
+        continue;
+      }
+
+      const alternatives: SQL[] = [];
+      for (const value of term.values) {
+        const compiled = field.compile(value.text, term.operator, context);
+        if (typeof compiled === 'string') {
+          issues.push(issue(compiled, value));
+        } else {
+          alternatives.push(compiled);
+        }
+      }
+      condition = alternatives.length === term.values.length ? or(...alternatives) : undefined;
+    }
+
+    if (condition) {
+      // Rows where the condition is null (an unset column) count as not
+      // matching, so negating keeps them
+      conditions.push(term.negated ? sql`not coalesce(${condition}, false)` : condition);
+    }
+  }
+
+  if (issues.length > 0) {
+    const error = new FilterQueryError(issues.sort((a, b) => a.position - b.position));
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Invalid filter query: ${error.message}`, cause: error });
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+};
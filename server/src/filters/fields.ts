@@ -0,0 +1,183 @@
+import {
+  architectureComponentsTable,
+  containersTable,
+  issueClassificationEnum,
+  issueHierarchyEnum,
+  issueStatusEnum,
+  securityControlsTable,
+  securityIssuesTable,
+  securityReviewsTable,
+  securityViolationsTable,
+  severityLevelEnum,
+  violationTypeEnum
+} from '../db/schema';
+import {
+  booleanField,
+  containerField,
+  dateField,
+  enumField,
+  escapeLike,
+  numberField,
+  tagField,
+  textField,
+  userField,
+  type FilterField,
+  type FilterFields
+} from './compile';
+import { severityKey, sortKey, type Sortable } from './sort';
+import {
+  type ComponentSort,
+  type ContainerSort,
+  type ControlSort,
+  type IssueSort,
+  type ReviewSort,
+  type ViolationSort
+} from '../schema';
+import { or, sql } from 'drizzle-orm';
+
+// Lowest first, so severity>=High means High or Critical
+const SEVERITIES = [...severityLevelEnum.enumValues].reverse();
+
+// ATT&CK technique ids match their sub-techniques too (T1190 matches
+// T1190.001); anything else is compared with the tactic name
+const mitreField: FilterField = {
+  names: ['mitre', 'attack'],
+  comparable: false,
+  compile: (value) => {
+    const lowered = value.toLowerCase();
+    const { mitre_attack_id: id, mitre_attack_tactic: tactic } = securityIssuesTable;
+    return or(
+      sql`lower(${id}) = ${lowered}`,
+      sql`lower(${id}) like ${`${escapeLike(lowered)}.%`}`,
+      sql`lower(${tactic}) = ${lowered}`
+    )!;
+  }
+};
+
+export const issueFilterFields: FilterFields = {
+  fields: [
+    enumField(['severity', 'sev'], securityIssuesTable.severity, SEVERITIES, true),
+    enumField(['status'], securityIssuesTable.status, issueStatusEnum.enumValues),
+    enumField(['classification', 'class'], securityIssuesTable.classification, issueClassificationEnum.enumValues),
+    enumField(['hierarchy', 'level'], securityIssuesTable.hierarchy, issueHierarchyEnum.enumValues),
+    numberField(['risk'], securityIssuesTable.risk_score),
+    numberField(['cvss'], securityIssuesTable.cvss_base_score),
+    mitreField,
+    textField(['cve'], securityIssuesTable.cve_id),
+    textField(['cwe'], securityIssuesTable.cwe_id),
+    textField(['package', 'pkg'], securityIssuesTable.package_name),
+    textField(['scanner'], securityIssuesTable.scanner),
+    booleanField(['automated'], securityIssuesTable.is_automated_finding),
+    tagField(['tag'], securityIssuesTable.tags),
+    userField(['assignee', 'assigned'], securityIssuesTable.assigned_to),
+    userField(['author', 'creator'], securityIssuesTable.created_by),
+    containerField(['container'], securityIssuesTable.container_id),
+    dateField(['created'], securityIssuesTable.created_at),
+    dateField(['updated'], securityIssuesTable.updated_at)
+  ],
+  text: [securityIssuesTable.title, securityIssuesTable.description]
+};
+
+export const violationFilterFields: FilterFields = {
+  fields: [
+    enumField(['severity', 'sev'], securityViolationsTable.severity, SEVERITIES, true),
+    enumField(['status'], securityViolationsTable.status, issueStatusEnum.enumValues),
+    enumField(['type'], securityViolationsTable.violation_type, violationTypeEnum.enumValues),
+    numberField(['occurrences'], securityViolationsTable.occurrence_count),
+    booleanField(['archived'], securityViolationsTable.is_active, true),
+    tagField(['tag'], securityViolationsTable.tags),
+    userField(['assignee', 'assigned'], securityViolationsTable.assigned_to),
+    userField(['author', 'creator'], securityViolationsTable.created_by),
+    containerField(['container'], securityViolationsTable.container_id),
+    dateField(['created'], securityViolationsTable.created_at),
+    dateField(['updated'], securityViolationsTable.updated_at),
+    dateField(['incident'], securityViolationsTable.incident_date)
+  ],
+  text: [securityViolationsTable.title, securityViolationsTable.description]
+};
+
+export const issueSortable: Sortable<IssueSort[number]['field']> = {
+  keys: {
+    risk_score: sortKey(securityIssuesTable.risk_score),
+    severity: severityKey(securityIssuesTable.severity),
+    status: sortKey(securityIssuesTable.status),
+    title: sortKey(securityIssuesTable.title),
+    cvss_base_score: sortKey(securityIssuesTable.cvss_base_score),
+    created_at: sortKey(securityIssuesTable.created_at),
+    updated_at: sortKey(securityIssuesTable.updated_at)
+  },
+  fallback: [{ field: 'risk_score', direction: 'desc' }, { field: 'created_at', direction: 'desc' }]
+};
+
+// The per-container issue list: hierarchy descending in enum order, so tasks
+// come before stories and epics, then riskiest first
+export const issueTreeSortable: Sortable<'hierarchy' | 'risk_score' | 'created_at'> = {
+  keys: {
+    hierarchy: sortKey(securityIssuesTable.hierarchy),
+    risk_score: sortKey(securityIssuesTable.risk_score),
+    created_at: sortKey(securityIssuesTable.created_at)
+  },
+  fallback: [
+    { field: 'hierarchy', direction: 'desc' },
+    { field: 'risk_score', direction: 'desc' },
+    { field: 'created_at', direction: 'desc' }
+  ]
+};
+
+export const violationSortable: Sortable<ViolationSort[number]['field']> = {
+  keys: {
+    severity: severityKey(securityViolationsTable.severity),
+    status: sortKey(securityViolationsTable.status),
+    title: sortKey(securityViolationsTable.title),
+    occurrence_count: sortKey(securityViolationsTable.occurrence_count),
+    incident_date: sortKey(securityViolationsTable.incident_date),
+    created_at: sortKey(securityViolationsTable.created_at),
+    updated_at: sortKey(securityViolationsTable.updated_at)
+  },
+  fallback: [{ field: 'created_at', direction: 'desc' }]
+};
+
+export const containerSortable: Sortable<ContainerSort[number]['field']> = {
+  keys: {
+    name: sortKey(containersTable.name),
+    type: sortKey(containersTable.type),
+    risk_score: sortKey(containersTable.risk_score),
+    created_at: sortKey(containersTable.created_at),
+    updated_at: sortKey(containersTable.updated_at)
+  },
+  fallback: [{ field: 'name', direction: 'asc' }]
+};
+
+export const reviewSortable: Sortable<ReviewSort[number]['field']> = {
+  keys: {
+    title: sortKey(securityReviewsTable.title),
+    status: sortKey(securityReviewsTable.status),
+    created_at: sortKey(securityReviewsTable.created_at),
+    updated_at: sortKey(securityReviewsTable.updated_at)
+  },
+  fallback: [{ field: 'created_at', direction: 'desc' }]
+};
+
+export const controlSortable: Sortable<ControlSort[number]['field']> = {
+  keys: {
+    name: sortKey(securityControlsTable.name),
+    control_type: sortKey(securityControlsTable.control_type),
+    implementation_status: sortKey(securityControlsTable.implementation_status),
+    effectiveness_rating: sortKey(securityControlsTable.effectiveness_rating),
+    last_tested: sortKey(securityControlsTable.last_tested),
+    created_at: sortKey(securityControlsTable.created_at),
+    updated_at: sortKey(securityControlsTable.updated_at)
+  },
+  fallback: [{ field: 'name', direction: 'asc' }]
+};
+
+export const componentSortable: Sortable<ComponentSort[number]['field']> = {
+  keys: {
+    name: sortKey(architectureComponentsTable.name),
+    component_type: sortKey(architectureComponentsTable.component_type),
+    security_domain: sortKey(architectureComponentsTable.security_domain),
+    created_at: sortKey(architectureComponentsTable.created_at),
+    updated_at: sortKey(architectureComponentsTable.updated_at)
+  },
+  fallback: [{ field: 'name', direction: 'asc' }]
+};
@@ -0,0 +1,102 @@
+import { TRPCError } from '@trpc/server';
+import { and, eq, gt, isNull, lt, or, type Column, type SQL } from 'drizzle-orm';
+import { effectiveSort, sortOrder, type CursorValue, type Sortable, type SortSpec } from './sort';
+
+// Cursors are opaque to clients: the sort they were issued for and the last
+// row's sort values and id, as base64url JSON
+interface Cursor {
+  sort: string;
+  values: CursorValue[];
+  id: number;
+}
+
+const sortSignature = (sort: SortSpec[]): string => sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+
+const isCursorValue = (value: unknown): value is CursorValue =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const decodeCursor = (cursor: string, sort: SortSpec[]): Cursor => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+
+  const candidate = decoded as Partial<Cursor> | null;
+  if (
+    typeof candidate !== 'object' || candidate === null ||
+    typeof candidate.sort !== 'string' ||
+    !Array.isArray(candidate.values) || !candidate.values.every(isCursorValue) ||
+    !Number.isInteger(candidate.id)
+  ) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+  if (candidate.sort !== sortSignature(sort) || candidate.values.length !== sort.length) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'The cursor was issued for a different sort' });
+  }
+  return candidate as Cursor;
+};
+
+// Rows after the cursor: later in the first sort key that differs from the
+// cursor's, where unset values come last, and older on a complete tie
+const afterCursor = <F extends string>(sortable: Sortable<F>, sort: SortSpec<F>[], cursor: Cursor, tiebreaker: Column): SQL => {
+  const alternatives: SQL[] = [];
+  const equal: SQL[] = [];
+
+  sort.forEach(({ field, direction }, index) => {
+    const { expression } = sortable.keys[field];
+    const value = cursor.values[index];
+    if (value === null) {
+      equal.push(isNull(expression));
+      return;
+    }
+    const later = or(direction === 'asc' ? gt(expression, value) : lt(expression, value), isNull(expression))!;
+    alternatives.push(and(...equal, later)!);
+    equal.push(eq(expression, value));
+  });
+  alternatives.push(and(...equal, lt(tiebreaker, cursor.id))!);
+
+  return or(...alternatives)!;
+};
+
+export interface Keyset {
+  order: SQL[];
+  after: SQL | undefined; // Undefined on the first page
+  // Trims the limit + 1 rows fetched to a page, with a cursor when more follow
+  page: <R extends { id: number }>(rows: R[], limit: number) => { items: R[]; next_cursor: string | null };
+}
+
+// Keyset pagination over a whitelisted sort. Pages are fetched with
+// limit + 1 rows so the extra row tells whether another page follows.
+export const keyset = <F extends string>(
+  sortable: Sortable<F>,
+  requested: SortSpec<F>[],
+  cursor: string | undefined,
+  tiebreaker: Column
+): Keyset => {
+  const sort = effectiveSort(sortable, requested);
+
+  return {
+    order: sortOrder(sortable, sort, tiebreaker),
+    after: cursor !== undefined ? afterCursor(sortable, sort, decodeCursor(cursor, sort), tiebreaker) : undefined,
+    page: (rows, limit) => {
+      const items = rows.slice(0, limit);
+      const last = items[items.length - 1];
+      if (rows.length <= limit || !last) {
+        return { items, next_cursor: null };
+      }
+
+      const row = last as unknown as Record<string, unknown>;
+      const next: Cursor = {
+        sort: sortSignature(sort),
+        values: sort.map(({ field }) => {
+          const key = sortable.keys[field];
+          return key.cursorValue(row[key.column.name]);
+        }),
+        id: last.id
+      };
+      return { items, next_cursor: Buffer.from(JSON.stringify(next)).toString('base64url') };
+    }
+  };
+};
@@ -0,0 +1,178 @@
+// Filter queries are space separated terms that must all hold, e.g.
+//
+//   severity:Critical,High status:!Closed risk>70 mitre:T1190 assignee:me created:>-30d
+//
+// A term is field:value, where a comma separated list matches any of its
+// values, a leading ! (or a - before the field) negates the term, and
+// field>value, field>=value, field<value and field<=value (or field:>value)
+// compare. Values with spaces are double quoted. Terms without a field match
+// the record's text.
+
+export type FilterOperator = ':' | '>' | '>=' | '<' | '<=';
+
+export interface FilterValue {
+  text: string;
+  position: number; // Offset of the value in the query
+  length: number;
+}
+
+export interface FieldTerm {
+  kind: 'field';
+  field: string;
+  operator: FilterOperator;
+  values: FilterValue[];
+  negated: boolean;
+  position: number;
+  length: number;
+}
+
+export interface TextTerm {
+  kind: 'text';
+  text: string;
+  negated: boolean;
+  position: number;
+  length: number;
+}
+
+export type FilterTerm = FieldTerm | TextTerm;
+
+// A problem with the query and the span of it to underline
+export interface FilterQueryIssue {
+  message: string;
+  position: number;
+  length: number;
+}
+
+export class FilterQueryError extends Error {
+  constructor(readonly issues: FilterQueryIssue[]) {
+    super(issues.map(issue => issue.message).join('; '));
+    this.name = 'FilterQueryError';
+  }
+}
+
+const FIELD = /([A-Za-z_]\w*)(>=|<=|:|>|<)/y;
+const COMPARISON = /(>=|<=|>|<)/y;
+
+const isSpace = (char: string | undefined): boolean => char !== undefined && /\s/.test(char);
+
+// Reads a double quoted or bare value starting at offset. Bare values run to
+// the next space, or comma when stopAtComma is set.
+const readValue = (query: string, offset: number, stopAtComma: boolean): { value: FilterValue; end: number } | FilterQueryIssue => {
+  if (query[offset] === '"') {
+    let text = '';
+    for (let i = offset + 1; i < query.length; i++) {
+      if (query[i] === '\\' && i + 1 < query.length) {
+        text += query[++i];
+      } else if (query[i] === '"') {
+        const next = query[i + 1];
+        if (next !== undefined && !isSpace(next) && !(stopAtComma && next === ',')) {
+          return { message: 'Expected a space after the closing quote', position: i + 1, length: 1 };
+        }
+        return { value: { text, position: offset, length: i + 1 - offset }, end: i + 1 };
+      } else {
+        text += query[i];
+      }
+    }
+    return { message: 'Unterminated quote', position: offset, length: query.length - offset };
+  }
+
+  let end = offset;
+  while (end < query.length && !isSpace(query[end]) && !(stopAtComma && query[end] === ',')) {
+    end++;
+  }
+  return { value: { text: query.slice(offset, end), position: offset, length: end - offset }, end };
+};
+
+// Splits a query into terms, reporting every malformed term rather than
+// stopping at the first
+export const parseFilterQuery = (query: string): { terms: FilterTerm[]; issues: FilterQueryIssue[] } => {
+  const terms: FilterTerm[] = [];
+  const issues: FilterQueryIssue[] = [];
+  let offset = 0;
+
+  const skipTerm = () => {
+    while (offset < query.length && !isSpace(query[offset])) offset++;
+  };
+
+  while (offset < query.length) {
+    if (isSpace(query[offset])) {
+      offset++;
+      continue;
+    }
+
+    const start = offset;
+    let negated = false;
+    if (query[offset] === '-' && offset + 1 < query.length && !isSpace(query[offset + 1])) {
+      negated = true;
+      offset++;
+    }
+
+    FIELD.lastIndex = offset;
+    const field = FIELD.exec(query);
+    if (!field) {
+      const read = readValue(query, offset, false);
+      if ('message' in read) {
+        issues.push(read);
+        offset = read.position + read.length;
+        skipTerm();
+        continue;
+      }
+      terms.push({ kind: 'text', text: read.value.text, negated, position: start, length: read.end - start });
+      offset = read.end;
+      continue;
+    }
+
+    offset = FIELD.lastIndex;
+    let operator = field[2] as FilterOperator;
+    if (operator === ':') {
+      if (query[offset] === '!') {
+        negated = !negated;
+        offset++;
+      }
+      COMPARISON.lastIndex = offset;
+      const comparison = COMPARISON.exec(query);
+      if (comparison) {
+        operator = comparison[1] as FilterOperator;
+        offset = COMPARISON.lastIndex;
+      }
+    }
+
+    const values: FilterValue[] = [];
+    let failed = false;
+    for (;;) {
+      const read = readValue(query, offset, true);
+      if ('message' in read) {
+        issues.push(read);
+        offset = read.position + read.length;
+        failed = true;
+        break;
+      }
+      if (read.value.length === 0) {
+        issues.push({ message: `Expected a value for ${field[1]}`, position: offset, length: 0 });
+        failed = true;
+        break;
+      }
+      values.push(read.value);
+      offset = read.end;
+      if (query[offset] !== ',') break;
+      offset++;
+    }
+    if (failed) {
+      skipTerm();
+      continue;
+    }
+
+    if (operator !== ':' && values.length > 1) {
+      issues.push({
+        message: `A ${operator} comparison takes a single value`,
+        position: values[1].position,
+        length: offset - values[1].position
+      });
+      continue;
+    }
+
+    terms.push({ kind: 'field', field: field[1], operator, values, negated, position: start, length: offset - start });
+  }
+
+  return { terms, issues };
+};
@@ -0,0 +1,57 @@
+import { desc, sql, type Column, type SQL } from 'drizzle-orm';
+
+export interface SortSpec<F extends string = string> {
+  field: F;
+  direction: 'asc' | 'desc';
+}
+
+// A value a cursor keeps for one sort key
+export type CursorValue = string | number | boolean | null;
+
+export interface SortKey {
+  column: Column; // Rows carry their value under the column's name
+  expression: SQL; // What rows are ordered and compared by
+  cursorValue: (value: unknown) => CursorValue; // The row's value as the expression sees it
+}
+
+// The sort fields an endpoint allows and the order it lists in by default
+export interface Sortable<F extends string> {
+  keys: Record<F, SortKey>;
+  fallback: SortSpec<F>[];
+}
+
+const SEVERITY_RANKS: Record<string, number> = { Critical: 4, High: 3, Medium: 2, Low: 1 };
+
+// Severity ordered by rank rather than enum order, so descending puts
+// Critical first
+export const severityRank = (column: Column): SQL =>
+  sql`case ${column} when 'Critical' then 4 when 'High' then 3 when 'Medium' then 2 when 'Low' then 1 end`;
+
+// Postgres keeps timestamps to the microsecond but dates only hold
+// milliseconds, so timestamps are ordered at the precision a cursor can repeat
+export const sortKey = (column: Column): SortKey => (column.columnType === 'PgTimestamp'
+  ? {
+      column,
+      expression: sql`date_trunc('milliseconds', ${column})`,
+      cursorValue: value => (value instanceof Date ? value.toISOString() : null)
+    }
+  : { column, expression: sql`${column}`, cursorValue: value => (value ?? null) as CursorValue });
+
+export const severityKey = (column: Column): SortKey => ({
+  column,
+  expression: severityRank(column),
+  cursorValue: value => SEVERITY_RANKS[value as string] ?? null
+});
+
+// The requested sort, or the endpoint's default when none is given
+export const effectiveSort = <F extends string>(sortable: Sortable<F>, sort: SortSpec<F>[]): SortSpec<F>[] =>
+  (sort.length > 0 ? sort : sortable.fallback);
+
+// ORDER BY terms for a whitelisted sort. Unset values sort last either way,
+// and ties fall back to the newest record first.
+export const sortOrder = <F extends string>(sortable: Sortable<F>, sort: SortSpec<F>[], tiebreaker: Column): SQL[] => [
+  ...sort.map(({ field, direction }) => (direction === 'asc'
+    ? sql`${sortable.keys[field].expression} asc nulls last`
+    : sql`${sortable.keys[field].expression} desc nulls last`)),
+  desc(tiebreaker)
+];
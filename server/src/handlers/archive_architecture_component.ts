@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { architectureComponentsTable } from '../db/schema';
+import { type ArchitectureComponent } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+const setArchitectureComponentActive = async (componentId: number, isActive: boolean, actorId: number): Promise<ArchitectureComponent> => {
+  const result = await db.update(architectureComponentsTable)
+    .set({ is_active: isActive, updated_by: actorId, updated_at: new Date() })
+    .where(eq(architectureComponentsTable.id, componentId))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw notFoundError('Architecture component', componentId);
+  }
+
+  // Convert real fields back to numbers before returning
+  const component = result[0];
+  return {
+    ...component,
+    position_x: component.position_x !== null ? parseFloat(component.position_x.toString()) : null,
+    position_y: component.position_y !== null ? parseFloat(component.position_y.toString()) : null
+  };
+};
+
+export const archiveArchitectureComponent = async (componentId: number, actorId: number): Promise<ArchitectureComponent> => {
+  try {
+    return await setArchitectureComponentActive(componentId, false, actorId);
+  } catch (error) {
+    console.error('Architecture component archive failed:', error);
+    throw error;
+  }
+};
+
+export const restoreArchitectureComponent = async (componentId: number, actorId: number): Promise<ArchitectureComponent> => {
+  try {
+    return await setArchitectureComponentActive(componentId, true, actorId);
+  } catch (error) {
+    console.error('Architecture component restore failed:', error);
+    throw error;
+  }
+};
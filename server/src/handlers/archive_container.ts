@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { containersTable } from '../db/schema';
+import { type Container } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+const setContainerActive = async (containerId: number, isActive: boolean, actorId: number): Promise<Container> => {
+  const result = await db.update(containersTable)
+    .set({ is_active: isActive, updated_by: actorId, updated_at: new Date() })
+    .where(eq(containersTable.id, containerId))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw notFoundError('Container', containerId);
+  }
+
+  const container = result[0];
+  return {
+    ...container,
+    risk_score: parseFloat(container.risk_score.toString()) // Convert numeric field to number
+  };
+};
+
+export const archiveContainer = async (containerId: number, actorId: number): Promise<Container> => {
+  try {
+    return await setContainerActive(containerId, false, actorId);
+  } catch (error) {
+    console.error('Container archive failed:', error);
+    throw error;
+  }
+};
+
+export const restoreContainer = async (containerId: number, actorId: number): Promise<Container> => {
+  try {
+    return await setContainerActive(containerId, true, actorId);
+  } catch (error) {
+    console.error('Container restore failed:', error);
+    throw error;
+  }
+};
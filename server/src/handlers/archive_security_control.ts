@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { securityControlsTable } from '../db/schema';
+import { type SecurityControl } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+const setSecurityControlActive = async (controlId: number, isActive: boolean, actorId: number): Promise<SecurityControl> => {
+  const result = await db.update(securityControlsTable)
+    .set({ is_active: isActive, updated_by: actorId, updated_at: new Date() })
+    .where(eq(securityControlsTable.id, controlId))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw notFoundError('Security control', controlId);
+  }
+
+  // Convert numeric fields back to numbers before returning
+  const securityControl = result[0];
+  return {
+    ...securityControl,
+    effectiveness_rating: securityControl.effectiveness_rating !== null ? parseFloat(securityControl.effectiveness_rating.toString()) : null
+  };
+};
+
+export const archiveSecurityControl = async (controlId: number, actorId: number): Promise<SecurityControl> => {
+  try {
+    return await setSecurityControlActive(controlId, false, actorId);
+  } catch (error) {
+    console.error('Security control archive failed:', error);
+    throw error;
+  }
+};
+
+export const restoreSecurityControl = async (controlId: number, actorId: number): Promise<SecurityControl> => {
+  try {
+    return await setSecurityControlActive(controlId, true, actorId);
+  } catch (error) {
+    console.error('Security control restore failed:', error);
+    throw error;
+  }
+};
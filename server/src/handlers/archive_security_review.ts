@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { securityReviewsTable } from '../db/schema';
+import { type SecurityReview } from '../schema';
+import { notFoundError } from '../errors';
+import { diffActivity, recordActivity } from '../activity/activity';
+import { eq } from 'drizzle-orm';
+
+const setSecurityReviewActive = async (reviewId: number, isActive: boolean, actorId: number): Promise<SecurityReview> => {
+  const current = await db.select()
+    .from(securityReviewsTable)
+    .where(eq(securityReviewsTable.id, reviewId))
+    .execute();
+
+  if (current.length === 0) {
+    throw notFoundError('Security review', reviewId);
+  }
+
+  return db.transaction(async (tx) => {
+    const result = await tx.update(securityReviewsTable)
+      .set({ is_active: isActive, updated_by: actorId, updated_at: new Date() })
+      .where(eq(securityReviewsTable.id, reviewId))
+      .returning()
+      .execute();
+
+    await recordActivity(tx, diffActivity('Review', current[0], result[0], actorId));
+
+    return result[0];
+  });
+};
+
+export const archiveSecurityReview = async (reviewId: number, actorId: number): Promise<SecurityReview> => {
+  try {
+    return await setSecurityReviewActive(reviewId, false, actorId);
+  } catch (error) {
+    console.error('Security review archive failed:', error);
+    throw error;
+  }
+};
+
+export const restoreSecurityReview = async (reviewId: number, actorId: number): Promise<SecurityReview> => {
+  try {
+    return await setSecurityReviewActive(reviewId, true, actorId);
+  } catch (error) {
+    console.error('Security review restore failed:', error);
+    throw error;
+  }
+};
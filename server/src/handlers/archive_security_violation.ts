@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { securityViolationsTable } from '../db/schema';
+import { type SecurityViolation } from '../schema';
+import { notFoundError } from '../errors';
+import { diffActivity, recordActivity } from '../activity/activity';
+import { eq } from 'drizzle-orm';
+
+const setSecurityViolationActive = async (violationId: number, isActive: boolean, actorId: number): Promise<SecurityViolation> => {
+  const current = await db.select()
+    .from(securityViolationsTable)
+    .where(eq(securityViolationsTable.id, violationId))
+    .execute();
+
+  if (current.length === 0) {
+    throw notFoundError('Security violation', violationId);
+  }
+
+  return db.transaction(async (tx) => {
+    const result = await tx.update(securityViolationsTable)
+      .set({ is_active: isActive, updated_by: actorId, updated_at: new Date() })
+      .where(eq(securityViolationsTable.id, violationId))
+      .returning()
+      .execute();
+
+    await recordActivity(tx, diffActivity('Violation', current[0], result[0], actorId));
+
+    return result[0];
+  });
+};
+
+export const archiveSecurityViolation = async (violationId: number, actorId: number): Promise<SecurityViolation> => {
+  try {
+    return await setSecurityViolationActive(violationId, false, actorId);
+  } catch (error) {
+    console.error('Security violation archive failed:', error);
+    throw error;
+  }
+};
+
+export const restoreSecurityViolation = async (violationId: number, actorId: number): Promise<SecurityViolation> => {
+  try {
+    return await setSecurityViolationActive(violationId, true, actorId);
+  } catch (error) {
+    console.error('Security violation restore failed:', error);
+    throw error;
+  }
+};
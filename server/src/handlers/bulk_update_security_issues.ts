@@ -0,0 +1,200 @@
+import { db } from '../db';
+import { securityIssuesTable, type SecurityIssue as SecurityIssueRow } from '../db/schema';
+import {
+  BULK_UPDATE_LIMIT,
+  type BulkIssueChanges,
+  type BulkUpdateResult,
+  type BulkUpdateSecurityIssuesInput
+} from '../schema';
+import { type Actor } from '../auth/permissions';
+import {
+  calculateIssueRiskScore,
+  getContainerScoringProfile,
+  recalculateContainerRiskScore,
+  type ScoringProfileDefinition
+} from '../scoring/risk_scoring';
+import { DEFAULT_ISSUE_WORKFLOW, assertStatusTransition, recordStatusChange } from '../workflow/issue_workflow';
+import { queueWorkItemNotifications } from '../notifications/emails';
+import { diffActivity, recordActivity } from '../activity/activity';
+import {
+  assertContainerExists,
+  assertUserExists,
+  assertWithinBulkLimit,
+  mergeTags,
+  missingRows,
+  plannedChanges,
+  summarizeBulkUpdate,
+  toRowResult,
+  type BulkRowPlan
+} from '../bulk/bulk_update';
+import { issueConditions } from './get_security_issues';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+type IssuePlan = BulkRowPlan<SecurityIssueRow>;
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Checks one issue against the changes and works out the values it would be
+// written with. Workflow, permission and CVSS errors fail only that issue.
+const planIssue = (
+  issue: SecurityIssueRow,
+  changes: BulkIssueChanges,
+  actor: Actor,
+  profile: ScoringProfileDefinition | null
+): IssuePlan => {
+  const values: Partial<SecurityIssueRow> = {};
+
+  try {
+    if (changes.severity !== undefined && changes.severity !== issue.severity) {
+      if (issue.cvss_vector) {
+        throw new Error(`Severity of issue ${issue.id} follows its CVSS vector`);
+      }
+      values.severity = changes.severity;
+    }
+
+    const statusChanged = changes.status !== undefined && changes.status !== issue.status;
+    if (changes.status !== undefined && statusChanged) {
+      assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, {
+        from: issue.status,
+        to: changes.status,
+        severity: issue.severity,
+        new_severity: values.severity,
+        values: {
+          resolution_note: changes.resolution_note,
+          assigned_to: changes.assigned_to !== undefined ? changes.assigned_to : issue.assigned_to
+        }
+      }, actor);
+      values.status = changes.status;
+    }
+    // A status change replaces the note, as it does for a single issue
+    if (changes.resolution_note !== undefined || statusChanged) values.resolution_note = changes.resolution_note ?? null;
+
+    if (changes.assigned_to !== undefined) values.assigned_to = changes.assigned_to;
+    if (changes.add_tags !== undefined || changes.remove_tags !== undefined) {
+      values.tags = mergeTags(issue.tags, changes.add_tags, changes.remove_tags);
+    }
+
+    if (changes.container_id !== undefined && changes.container_id !== issue.container_id) {
+      if (issue.component_id !== null) {
+        throw new Error(`Issue ${issue.id} is linked to a component of its current container`);
+      }
+      values.container_id = changes.container_id;
+      // Scores are weighted by the container's profile, so a move rescores the issue
+      values.risk_score = calculateIssueRiskScore(issue, profile!);
+    }
+  } catch (error) {
+    return { row: issue, values: {}, error: errorMessage(error) };
+  }
+
+  return { row: issue, values, error: null };
+};
+
+// Parents must stay in their children's container, so an issue only moves
+// together with its parent and children. Failures spread through the tree
+// until every issue left to move has its relatives moving too.
+const planHierarchyMoves = async (executor: Pick<typeof db, 'select'>, plans: IssuePlan[]): Promise<void> => {
+  const moving = plans.filter(plan => plan.values.container_id !== undefined);
+  if (moving.length === 0) {
+    return;
+  }
+
+  const children = await executor.select({ id: securityIssuesTable.id, parent_issue_id: securityIssuesTable.parent_issue_id })
+    .from(securityIssuesTable)
+    .where(inArray(securityIssuesTable.parent_issue_id, moving.map(plan => plan.row.id)))
+    .execute();
+
+  const movingIds = new Set(moving.map(plan => plan.row.id));
+  const relatives = new Map(moving.map(plan => [plan.row.id, [
+    ...(plan.row.parent_issue_id !== null ? [plan.row.parent_issue_id] : []),
+    ...children.filter(child => child.parent_issue_id === plan.row.id).map(child => child.id)
+  ]]));
+
+  let failed = true;
+  while (failed) {
+    failed = false;
+    for (const plan of moving.filter(plan => plan.error === null)) {
+      const stranded = relatives.get(plan.row.id)!.find(id => !movingIds.has(id));
+      if (stranded !== undefined) {
+        plan.values = {};
+        plan.error = `Issue ${plan.row.id} cannot move without related issue ${stranded}`;
+        movingIds.delete(plan.row.id);
+        failed = true;
+      }
+    }
+  }
+};
+
+export const bulkUpdateSecurityIssues = async (input: BulkUpdateSecurityIssuesInput, actor: Actor): Promise<BulkUpdateResult> => {
+  try {
+    const { changes } = input;
+
+    // References shared by every row are checked once for the whole request
+    if (changes.assigned_to !== undefined && changes.assigned_to !== null) {
+      await assertUserExists(changes.assigned_to);
+    }
+    if (changes.container_id !== undefined) {
+      await assertContainerExists(changes.container_id);
+    }
+
+    // Rows are locked before they are planned, so the workflow checks and the
+    // history see the statuses being replaced. A dry run plans the same way and
+    // writes nothing.
+    const { issues, plans, changed } = await db.transaction(async (tx) => {
+      const issues = await tx.select()
+        .from(securityIssuesTable)
+        .where(input.ids ? inArray(securityIssuesTable.id, input.ids) : and(...issueConditions(input.filter!, actor)))
+        .orderBy(asc(securityIssuesTable.id))
+        .limit(BULK_UPDATE_LIMIT + 1)
+        .for('update')
+        .execute();
+      assertWithinBulkLimit(issues.length, 'issues');
+
+      const profile = changes.container_id !== undefined ? await getContainerScoringProfile(changes.container_id) : null;
+      const plans = issues.map(issue => planIssue(issue, changes, actor, profile));
+      await planHierarchyMoves(tx, plans);
+
+      const changed = plans.filter(plan => plan.error === null && Object.keys(plannedChanges(plan)).length > 0);
+
+      // Every issue is written, with its history and activity, or none is
+      if (!input.dry_run) {
+        for (const plan of changed) {
+          const result = await tx.update(securityIssuesTable)
+            .set({ ...plan.values, updated_by: actor.id, updated_at: new Date() })
+            .where(eq(securityIssuesTable.id, plan.row.id))
+            .returning()
+            .execute();
+
+          if (plan.values.status !== undefined) {
+            await recordStatusChange(tx, {
+              issue_id: plan.row.id,
+              from_status: plan.row.status,
+              to_status: plan.values.status,
+              note: plan.values.resolution_note ?? null,
+              changed_by: actor.id
+            });
+          }
+          await recordActivity(tx, diffActivity('Issue', plan.row, result[0], actor.id));
+          await queueWorkItemNotifications(tx, 'Issue', plan.row, result[0], actor.id);
+        }
+      }
+
+      return { issues, plans, changed };
+    });
+
+    if (!input.dry_run && changed.length > 0) {
+      // Rollups of the containers issues left and the one they joined
+      const containerIds = new Set(changed.flatMap(plan => [plan.row.container_id, plan.values.container_id ?? plan.row.container_id]));
+      for (const containerId of containerIds) {
+        await recalculateContainerRiskScore(containerId);
+      }
+    }
+
+    return summarizeBulkUpdate(input.dry_run, issues.length, [
+      ...plans.map(toRowResult),
+      ...missingRows(input.ids, issues, 'Security issue')
+    ]);
+  } catch (error) {
+    console.error('Bulk security issue update failed:', error);
+    throw error;
+  }
+};
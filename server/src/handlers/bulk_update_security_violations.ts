@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { securityViolationsTable, type SecurityViolation as SecurityViolationRow } from '../db/schema';
+import {
+  BULK_UPDATE_LIMIT,
+  type BulkUpdateResult,
+  type BulkUpdateSecurityViolationsInput,
+  type BulkViolationChanges
+} from '../schema';
+import { type Actor } from '../auth/permissions';
+import { queueWorkItemNotifications } from '../notifications/emails';
+import { diffActivity, recordActivity } from '../activity/activity';
+import {
+  assertContainerExists,
+  assertUserExists,
+  assertWithinBulkLimit,
+  mergeTags,
+  missingRows,
+  plannedChanges,
+  summarizeBulkUpdate,
+  toRowResult,
+  type BulkRowPlan
+} from '../bulk/bulk_update';
+import { violationConditions } from './get_security_violations';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+// Violations follow no workflow and sit in no hierarchy, so every change
+// applies as given
+const planViolation = (violation: SecurityViolationRow, changes: BulkViolationChanges): BulkRowPlan<SecurityViolationRow> => {
+  const values: Partial<SecurityViolationRow> = {};
+
+  if (changes.status !== undefined) values.status = changes.status;
+  if (changes.severity !== undefined) values.severity = changes.severity;
+  if (changes.assigned_to !== undefined) values.assigned_to = changes.assigned_to;
+  if (changes.container_id !== undefined) values.container_id = changes.container_id;
+  if (changes.add_tags !== undefined || changes.remove_tags !== undefined) {
+    values.tags = mergeTags(violation.tags, changes.add_tags, changes.remove_tags);
+  }
+
+  return { row: violation, values, error: null };
+};
+
+export const bulkUpdateSecurityViolations = async (input: BulkUpdateSecurityViolationsInput, actor: Actor): Promise<BulkUpdateResult> => {
+  try {
+    const { changes } = input;
+
+    // References shared by every row are checked once for the whole request
+    if (changes.assigned_to !== undefined && changes.assigned_to !== null) {
+      await assertUserExists(changes.assigned_to);
+    }
+    if (changes.container_id !== undefined && changes.container_id !== null) {
+      await assertContainerExists(changes.container_id);
+    }
+
+    // Rows are locked before they are planned, so merged tags and the activity
+    // diff start from the stored values
+    const { violations, plans } = await db.transaction(async (tx) => {
+      const violations = await tx.select()
+        .from(securityViolationsTable)
+        .where(input.ids ? inArray(securityViolationsTable.id, input.ids) : and(...violationConditions(input.filter!, actor)))
+        .orderBy(asc(securityViolationsTable.id))
+        .limit(BULK_UPDATE_LIMIT + 1)
+        .for('update')
+        .execute();
+      assertWithinBulkLimit(violations.length, 'violations');
+
+      const plans = violations.map(violation => planViolation(violation, changes));
+      const changed = plans.filter(plan => Object.keys(plannedChanges(plan)).length > 0);
+
+      // Every violation is written, with its activity, or none is
+      if (!input.dry_run) {
+        for (const plan of changed) {
+          const result = await tx.update(securityViolationsTable)
+            .set({ ...plan.values, updated_by: actor.id, updated_at: new Date() })
+            .where(eq(securityViolationsTable.id, plan.row.id))
+            .returning()
+            .execute();
+
+          await recordActivity(tx, diffActivity('Violation', plan.row, result[0], actor.id));
+          await queueWorkItemNotifications(tx, 'Violation', plan.row, result[0], actor.id);
+        }
+      }
+
+      return { violations, plans };
+    });
+
+    return summarizeBulkUpdate(input.dry_run, violations.length, [
+      ...plans.map(toRowResult),
+      ...missingRows(input.ids, violations, 'Security violation')
+    ]);
+  } catch (error) {
+    console.error('Bulk security violation update failed:', error);
+    throw error;
+  }
+};
@@ -3,7 +3,7 @@ import { architectureComponentsTable, containersTable, usersTable } from '../db/
 import { type CreateArchitectureComponentInput, type ArchitectureComponent } from '../schema';
 import { eq } from 'drizzle-orm';
 
-export const createArchitectureComponent = async (input: CreateArchitectureComponentInput): Promise<ArchitectureComponent> => {
+export const createArchitectureComponent = async (input: CreateArchitectureComponentInput, actorId: number): Promise<ArchitectureComponent> => {
   try {
     // Verify container exists and is active
     const container = await db.select()
@@ -18,11 +18,11 @@ export const createArchitectureComponent = async (input: CreateArchitectureCompo
     // Verify creator exists and is active
     const creator = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.created_by))
+      .where(eq(usersTable.id, actorId))
       .execute();
 
     if (creator.length === 0 || !creator[0].is_active) {
-      throw new Error(`User with ID ${input.created_by} not found or inactive`);
+      throw new Error(`User with ID ${actorId} not found or inactive`);
     }
 
     // Insert architecture component record
@@ -39,7 +39,8 @@ export const createArchitectureComponent = async (input: CreateArchitectureCompo
         position_x: input.position_x,
         position_y: input.position_y,
         container_id: input.container_id,
-        created_by: input.created_by
+        created_by: actorId,
+        updated_by: actorId
       })
       .returning()
       .execute();
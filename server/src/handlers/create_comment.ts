@@ -0,0 +1,45 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { type Comment, type CreateCommentInput } from '../schema';
+import { assertEntityExists } from '../activity/activity';
+import { eq } from 'drizzle-orm';
+
+export const createComment = async (input: CreateCommentInput, actorId: number): Promise<Comment> => {
+  try {
+    await assertEntityExists(input.entity_type, input.entity_id);
+
+    // Replies must stay within the thread's entity
+    const parentCommentId = input.parent_comment_id ?? null;
+    if (parentCommentId !== null) {
+      const parents = await db.select()
+        .from(commentsTable)
+        .where(eq(commentsTable.id, parentCommentId))
+        .execute();
+
+      const parent = parents[0];
+      if (!parent || parent.entity_type !== input.entity_type || parent.entity_id !== input.entity_id) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Comment with id ${parentCommentId} not found on this ${input.entity_type.toLowerCase()}`
+        });
+      }
+    }
+
+    const result = await db.insert(commentsTable)
+      .values({
+        entity_type: input.entity_type,
+        entity_id: input.entity_id,
+        parent_comment_id: parentCommentId,
+        body: input.body,
+        author_id: actorId
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Comment creation failed:', error);
+    throw error;
+  }
+};
@@ -3,16 +3,16 @@ import { containersTable, usersTable } from '../db/schema';
 import { type CreateContainerInput, type Container } from '../schema';
 import { eq } from 'drizzle-orm';
 
-export const createContainer = async (input: CreateContainerInput): Promise<Container> => {
+export const createContainer = async (input: CreateContainerInput, actorId: number): Promise<Container> => {
   try {
     // Verify that the creator user exists
     const existingUser = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.created_by))
+      .where(eq(usersTable.id, actorId))
       .execute();
 
     if (existingUser.length === 0) {
-      throw new Error(`User with ID ${input.created_by} does not exist`);
+      throw new Error(`User with ID ${actorId} does not exist`);
     }
 
     // Insert container record
@@ -24,7 +24,8 @@ export const createContainer = async (input: CreateContainerInput): Promise<Cont
         risk_score: 0, // Initialize default risk score to 0
         external_id: input.external_id,
         external_system: input.external_system,
-        created_by: input.created_by,
+        created_by: actorId,
+        updated_by: actorId,
         is_active: true
       })
       .returning()
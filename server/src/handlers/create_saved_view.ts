@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { containersTable, savedViewsTable } from '../db/schema';
+import { type CreateSavedViewInput, type SavedView } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { parseViewContent, toSavedView, viewContainerId } from '../views/saved_views';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const createSavedView = async (input: CreateSavedViewInput, actor: Actor): Promise<SavedView> => {
+  try {
+    const content = parseViewContent(input.entity_type, input, actor);
+    const containerId = viewContainerId(input.visibility, input.container_id);
+
+    if (containerId !== null) {
+      const containers = await db.select({ id: containersTable.id })
+        .from(containersTable)
+        .where(eq(containersTable.id, containerId))
+        .execute();
+
+      if (containers.length === 0) {
+        throw notFoundError('Container', containerId);
+      }
+    }
+
+    const result = await db.insert(savedViewsTable)
+      .values({
+        owner_id: actor.id,
+        name: input.name,
+        entity_type: input.entity_type,
+        visibility: input.visibility,
+        container_id: containerId,
+        filter: content.filter,
+        sort: content.sort,
+        columns: [...new Set(content.columns)]
+      })
+      .returning()
+      .execute();
+
+    return toSavedView(result[0], false);
+  } catch (error) {
+    console.error('Saved view creation failed:', error);
+    throw error;
+  }
+};
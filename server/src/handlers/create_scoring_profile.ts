@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { scoringProfilesTable } from '../db/schema';
+import { type CreateScoringProfileInput, type ScoringProfile } from '../schema';
+import { eq, max, sql } from 'drizzle-orm';
+
+// Profiles are immutable: creating one with an existing name adds the next
+// version. Versions of a name are numbered one at a time under an advisory lock;
+// the unique (name, version) constraint backs it up.
+export const createScoringProfile = async (input: CreateScoringProfileInput, actorId: number): Promise<ScoringProfile> => {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`scoring_profile:${input.name}`}))`);
+
+      const latest = await tx.select({ version: max(scoringProfilesTable.version) })
+        .from(scoringProfilesTable)
+        .where(eq(scoringProfilesTable.name, input.name))
+        .execute();
+
+      const result = await tx.insert(scoringProfilesTable)
+        .values({
+          name: input.name,
+          version: (latest[0]?.version ?? 0) + 1,
+          description: input.description,
+          confidentiality_weight: input.confidentiality_weight,
+          integrity_weight: input.integrity_weight,
+          availability_weight: input.availability_weight,
+          compliance_weight: input.compliance_weight,
+          third_party_weight: input.third_party_weight,
+          critical_weight: input.critical_weight,
+          high_weight: input.high_weight,
+          medium_weight: input.medium_weight,
+          low_weight: input.low_weight,
+          created_by: actorId
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Scoring profile creation failed:', error);
+    throw error;
+  }
+};
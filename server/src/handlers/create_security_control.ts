@@ -3,7 +3,7 @@ import { securityControlsTable, containersTable, usersTable } from '../db/schema
 import { type CreateSecurityControlInput, type SecurityControl } from '../schema';
 import { eq } from 'drizzle-orm';
 
-export const createSecurityControl = async (input: CreateSecurityControlInput): Promise<SecurityControl> => {
+export const createSecurityControl = async (input: CreateSecurityControlInput, actorId: number): Promise<SecurityControl> => {
   try {
     // Verify that the container exists
     const container = await db.select()
@@ -18,11 +18,11 @@ export const createSecurityControl = async (input: CreateSecurityControlInput):
     // Verify that the creating user exists
     const user = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.created_by))
+      .where(eq(usersTable.id, actorId))
       .execute();
 
     if (user.length === 0) {
-      throw new Error(`User with id ${input.created_by} not found`);
+      throw new Error(`User with id ${actorId} not found`);
     }
 
     // Insert security control record
@@ -39,7 +39,8 @@ export const createSecurityControl = async (input: CreateSecurityControlInput):
         testing_frequency: input.testing_frequency,
         last_tested: input.last_tested,
         container_id: input.container_id,
-        created_by: input.created_by
+        created_by: actorId,
+        updated_by: actorId
       })
       .returning()
       .execute();
@@ -1,95 +1,89 @@
 import { db } from '../db';
-import { securityIssuesTable, containersTable } from '../db/schema';
+import { securityIssuesTable } from '../db/schema';
 import { type CreateSecurityIssueInput, type SecurityIssue } from '../schema';
-import { eq, avg } from 'drizzle-orm';
+import {
+  calculateIssueRiskScore,
+  getContainerScoringProfile,
+  recalculateContainerRiskScore
+} from '../scoring/risk_scoring';
+import { assessCvssVector, cvssIssueColumns } from '../cvss/cvss';
+import { recordStatusChange } from '../workflow/issue_workflow';
+import { queueWorkItemNotifications } from '../notifications/emails';
+import { assertValidParent } from '../hierarchy/issue_hierarchy';
+import { createdActivity, recordActivity } from '../activity/activity';
 
-export const createSecurityIssue = async (input: CreateSecurityIssueInput): Promise<SecurityIssue> => {
+export const createSecurityIssue = async (input: CreateSecurityIssueInput, actorId: number): Promise<SecurityIssue> => {
   try {
-    // Calculate overall risk score from individual dimension impacts
-    const calculateRiskScore = (
-      confidentiality: number,
-      integrity: number,
-      availability: number,
-      compliance: number,
-      thirdParty: number
-    ): number => {
-      // Weighted risk calculation based on security impact dimensions
-      // Critical dimensions get higher weights
-      const weights = {
-        confidentiality: 0.25,
-        integrity: 0.25, 
-        availability: 0.20,
-        compliance: 0.15,
-        thirdParty: 0.15
-      };
+    // A CVSS vector is authoritative for severity, C/I/A impacts and attack complexity
+    const cvss = input.cvss_vector ? assessCvssVector(input.cvss_vector) : null;
+    const severity = cvss?.severity ?? input.severity;
 
-      const weightedScore = 
-        (confidentiality * weights.confidentiality) +
-        (integrity * weights.integrity) +
-        (availability * weights.availability) +
-        (compliance * weights.compliance) +
-        (thirdParty * weights.thirdParty);
+    if (severity === undefined) {
+      throw new Error('Severity is required unless a CVSS vector is provided');
+    }
 
-      return Math.round(weightedScore);
+    const impacts = {
+      confidentiality_impact: cvss?.confidentiality_impact ?? input.confidentiality_impact,
+      integrity_impact: cvss?.integrity_impact ?? input.integrity_impact,
+      availability_impact: cvss?.availability_impact ?? input.availability_impact,
+      compliance_impact: input.compliance_impact,
+      third_party_risk: input.third_party_risk
     };
 
-    const riskScore = calculateRiskScore(
-      input.confidentiality_impact,
-      input.integrity_impact,
-      input.availability_impact,
-      input.compliance_impact,
-      input.third_party_risk
-    );
+    await assertValidParent({
+      hierarchy: input.hierarchy,
+      container_id: input.container_id,
+      parent_issue_id: input.parent_issue_id
+    });
 
-    // Insert security issue
-    const result = await db.insert(securityIssuesTable)
-      .values({
-        title: input.title,
-        description: input.description,
-        severity: input.severity,
-        classification: input.classification,
-        hierarchy: input.hierarchy,
-        risk_score: riskScore, // Real column accepts number directly
-        confidentiality_impact: input.confidentiality_impact,
-        integrity_impact: input.integrity_impact,
-        availability_impact: input.availability_impact,
-        compliance_impact: input.compliance_impact,
-        third_party_risk: input.third_party_risk,
-        mitre_attack_id: input.mitre_attack_id,
-        mitre_attack_tactic: input.mitre_attack_tactic,
-        mitre_attack_technique: input.mitre_attack_technique,
-        linddun_category: input.linddun_category,
-        attack_complexity: input.attack_complexity,
-        threat_modeling_notes: input.threat_modeling_notes,
-        compensating_controls: input.compensating_controls,
-        container_id: input.container_id,
-        parent_issue_id: input.parent_issue_id,
-        assigned_to: input.assigned_to,
-        created_by: input.created_by,
-        is_automated_finding: input.is_automated_finding
-      })
-      .returning()
-      .execute();
+    // Score with the container's profile so create, update and rollup agree
+    const profile = await getContainerScoringProfile(input.container_id);
+    const riskScore = calculateIssueRiskScore(impacts, profile);
 
-    const securityIssue = result[0];
+    // Insert security issue along with the first entries of its status history and activity
+    const securityIssue = await db.transaction(async (tx) => {
+      const result = await tx.insert(securityIssuesTable)
+        .values({
+          title: input.title,
+          description: input.description,
+          severity,
+          classification: input.classification,
+          hierarchy: input.hierarchy,
+          risk_score: riskScore, // Real column accepts number directly
+          ...impacts,
+          mitre_attack_id: input.mitre_attack_id,
+          mitre_attack_tactic: input.mitre_attack_tactic,
+          mitre_attack_technique: input.mitre_attack_technique,
+          linddun_category: input.linddun_category,
+          attack_complexity: cvss?.attack_complexity ?? input.attack_complexity,
+          ...cvssIssueColumns(cvss),
+          threat_modeling_notes: input.threat_modeling_notes,
+          compensating_controls: input.compensating_controls,
+          container_id: input.container_id,
+          parent_issue_id: input.parent_issue_id,
+          assigned_to: input.assigned_to,
+          created_by: actorId,
+          updated_by: actorId,
+          is_automated_finding: input.is_automated_finding,
+          tags: input.tags ?? []
+        })
+        .returning()
+        .execute();
 
-    // Update container risk score based on average of all issues
-    const avgRiskResult = await db.select({
-      avg_risk: avg(securityIssuesTable.risk_score)
-    })
-      .from(securityIssuesTable)
-      .where(eq(securityIssuesTable.container_id, input.container_id))
-      .execute();
+      await recordStatusChange(tx, {
+        issue_id: result[0].id,
+        from_status: null,
+        to_status: result[0].status,
+        note: null,
+        changed_by: actorId
+      });
+      await recordActivity(tx, [createdActivity('Issue', result[0].id, actorId)]);
+      await queueWorkItemNotifications(tx, 'Issue', null, result[0], actorId);
 
-    const avgRisk = Number(avgRiskResult[0].avg_risk || 0);
+      return result[0];
+    });
 
-    await db.update(containersTable)
-      .set({
-        risk_score: avgRisk,
-        updated_at: new Date()
-      })
-      .where(eq(containersTable.id, input.container_id))
-      .execute();
+    await recalculateContainerRiskScore(input.container_id);
 
     // Return the security issue (numeric fields are already numbers from real columns)
     return securityIssue;
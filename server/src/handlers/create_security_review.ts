@@ -1,18 +1,19 @@
 import { db } from '../db';
 import { securityReviewsTable, usersTable, containersTable } from '../db/schema';
 import { type CreateSecurityReviewInput, type SecurityReview } from '../schema';
+import { createdActivity, recordActivity } from '../activity/activity';
 import { eq } from 'drizzle-orm';
 
-export const createSecurityReview = async (input: CreateSecurityReviewInput): Promise<SecurityReview> => {
+export const createSecurityReview = async (input: CreateSecurityReviewInput, actorId: number): Promise<SecurityReview> => {
   try {
     // Verify that the creator exists
     const creator = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.created_by))
+      .where(eq(usersTable.id, actorId))
       .execute();
 
     if (creator.length === 0) {
-      throw new Error(`User with id ${input.created_by} does not exist`);
+      throw new Error(`User with id ${actorId} does not exist`);
     }
 
     // Verify container exists if provided
@@ -27,25 +28,32 @@ export const createSecurityReview = async (input: CreateSecurityReviewInput): Pr
       }
     }
 
-    // Insert security review record
-    const result = await db.insert(securityReviewsTable)
-      .values({
-        title: input.title,
-        description: input.description,
-        document_name: input.document_name,
-        document_url: input.document_url,
-        document_type: input.document_type,
-        container_id: input.container_id,
-        created_by: input.created_by,
-        status: 'Pending', // Default status
-        ai_analysis_complete: false, // Default value
-        ai_analysis_results: null, // Default value
-        reviewer_id: null // Default value
-      })
-      .returning()
-      .execute();
+    // Insert security review record together with its Created activity event
+    const created = await db.transaction(async (tx) => {
+      const result = await tx.insert(securityReviewsTable)
+        .values({
+          title: input.title,
+          description: input.description,
+          document_name: input.document_name,
+          document_url: input.document_url,
+          document_type: input.document_type,
+          container_id: input.container_id,
+          created_by: actorId,
+          updated_by: actorId,
+          status: 'Pending', // Default status
+          ai_analysis_complete: false, // Default value
+          ai_analysis_results: null, // Default value
+          reviewer_id: null // Default value
+        })
+        .returning()
+        .execute();
+
+      await recordActivity(tx, [createdActivity('Review', result[0].id, actorId)]);
+
+      return result[0];
+    });
 
-    return result[0];
+    return created;
   } catch (error) {
     console.error('Security review creation failed:', error);
     throw error;
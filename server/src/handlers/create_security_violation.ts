@@ -1,18 +1,21 @@
 import { db } from '../db';
 import { securityViolationsTable, usersTable, containersTable, securityIssuesTable } from '../db/schema';
 import { type CreateSecurityViolationInput, type SecurityViolation } from '../schema';
+import { createdActivity, recordActivity } from '../activity/activity';
+import { queueWebhookEvent } from '../webhooks/events';
+import { queueWorkItemNotifications } from '../notifications/emails';
 import { eq } from 'drizzle-orm';
 
-export const createSecurityViolation = async (input: CreateSecurityViolationInput): Promise<SecurityViolation> => {
+export const createSecurityViolation = async (input: CreateSecurityViolationInput, actorId: number): Promise<SecurityViolation> => {
   try {
-    // Validate that created_by user exists
+    // Validate that the acting user exists
     const userExists = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.created_by))
+      .where(eq(usersTable.id, actorId))
       .execute();
 
     if (userExists.length === 0) {
-      throw new Error(`User with ID ${input.created_by} does not exist`);
+      throw new Error(`User with ID ${actorId} does not exist`);
     }
 
     // Validate container exists if provided
@@ -51,28 +54,38 @@ export const createSecurityViolation = async (input: CreateSecurityViolationInpu
       }
     }
 
-    // Insert security violation record
-    const result = await db.insert(securityViolationsTable)
-      .values({
-        title: input.title,
-        description: input.description,
-        violation_type: input.violation_type,
-        severity: input.severity,
-        status: 'Open', // Default status
-        incident_date: input.incident_date,
-        detection_method: input.detection_method,
-        affected_systems: input.affected_systems,
-        impact_assessment: input.impact_assessment,
-        remediation_steps: input.remediation_steps,
-        container_id: input.container_id,
-        related_issue_id: input.related_issue_id,
-        assigned_to: input.assigned_to,
-        created_by: input.created_by
-      })
-      .returning()
-      .execute();
+    // Insert security violation record together with its Created activity event
+    const created = await db.transaction(async (tx) => {
+      const result = await tx.insert(securityViolationsTable)
+        .values({
+          title: input.title,
+          description: input.description,
+          violation_type: input.violation_type,
+          severity: input.severity,
+          status: 'Open', // Default status
+          incident_date: input.incident_date,
+          detection_method: input.detection_method,
+          affected_systems: input.affected_systems,
+          impact_assessment: input.impact_assessment,
+          remediation_steps: input.remediation_steps,
+          container_id: input.container_id,
+          related_issue_id: input.related_issue_id,
+          assigned_to: input.assigned_to,
+          tags: input.tags ?? [],
+          created_by: actorId,
+          updated_by: actorId
+        })
+        .returning()
+        .execute();
+
+      await recordActivity(tx, [createdActivity('Violation', result[0].id, actorId)]);
+      await queueWebhookEvent(tx, 'violation.created', { violation: result[0] });
+      await queueWorkItemNotifications(tx, 'Violation', null, result[0], actorId);
+
+      return result[0];
+    });
 
-    return result[0];
+    return created;
   } catch (error) {
     console.error('Security violation creation failed:', error);
     throw error;
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { containersTable, siemMappingRulesTable } from '../db/schema';
+import { type CreateSiemMappingRuleInput, type SiemMappingRule } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const createSiemMappingRule = async (input: CreateSiemMappingRuleInput, actorId: number): Promise<SiemMappingRule> => {
+  try {
+    if (input.container_id !== null) {
+      const containers = await db.select({ id: containersTable.id })
+        .from(containersTable)
+        .where(eq(containersTable.id, input.container_id))
+        .execute();
+
+      if (containers.length === 0) {
+        throw notFoundError('Container', input.container_id);
+      }
+    }
+
+    const result = await db.insert(siemMappingRulesTable)
+      .values({
+        ...input,
+        correlation_fields: [...new Set(input.correlation_fields)],
+        created_by: actorId,
+        updated_by: actorId
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('SIEM mapping rule creation failed:', error);
+    throw error;
+  }
+};
@@ -1,9 +1,13 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
+import { hashPassword } from '../auth/password';
+import { toPublicUser } from '../auth/session';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
   try {
+    const passwordHash = await hashPassword(input.password);
+
     // Insert user record
     const result = await db.insert(usersTable)
       .values({
@@ -11,14 +15,14 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
         email: input.email,
         full_name: input.full_name,
         role: input.role,
+        password_hash: passwordHash,
         is_active: input.is_active
       })
       .returning()
       .execute();
 
-    // Return the created user
-    const user = result[0];
-    return user;
+    // Return the created user without its password hash
+    return toPublicUser(result[0]);
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { webhookSubscriptionsTable } from '../db/schema';
+import { type CreateWebhookSubscriptionInput, type WebhookSubscription } from '../schema';
+import { toWebhookSubscription } from '../webhooks/subscriptions';
+
+export const createWebhookSubscription = async (input: CreateWebhookSubscriptionInput, actorId: number): Promise<WebhookSubscription> => {
+  try {
+    const result = await db.insert(webhookSubscriptionsTable)
+      .values({
+        name: input.name,
+        url: input.url,
+        secret: input.secret,
+        events: [...new Set(input.events)],
+        is_active: input.is_active,
+        created_by: actorId,
+        updated_by: actorId
+      })
+      .returning()
+      .execute();
+
+    return toWebhookSubscription(result[0]);
+  } catch (error) {
+    console.error('Webhook subscription creation failed:', error);
+    throw error;
+  }
+};
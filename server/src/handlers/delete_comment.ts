@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { type Comment } from '../schema';
+import { notFoundError } from '../errors';
+import { assertPermission, type Actor } from '../auth/permissions';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Soft delete: the body is removed but the row stays so replies keep their thread
+export const deleteComment = async (commentId: number, actor: Actor): Promise<Comment> => {
+  try {
+    const comments = await db.select()
+      .from(commentsTable)
+      .where(and(eq(commentsTable.id, commentId), isNull(commentsTable.deleted_at)))
+      .execute();
+
+    if (comments.length === 0) {
+      throw notFoundError('Comment', commentId);
+    }
+
+    if (comments[0].author_id !== actor.id) {
+      assertPermission(actor.role, 'comments:moderate');
+    }
+
+    const result = await db.update(commentsTable)
+      .set({
+        body: '',
+        deleted_at: new Date()
+      })
+      .where(eq(commentsTable.id, commentId))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Comment deletion failed:', error);
+    throw error;
+  }
+};
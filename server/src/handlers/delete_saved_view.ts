@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { savedViewsTable } from '../db/schema';
+import { type SavedView } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { assertCanChangeView, loadVisibleView } from '../views/saved_views';
+import { eq } from 'drizzle-orm';
+
+// Pins of the view go with it
+export const deleteSavedView = async (id: number, actor: Actor): Promise<SavedView> => {
+  try {
+    const view = await loadVisibleView(id, actor);
+    assertCanChangeView(view, actor);
+
+    await db.delete(savedViewsTable)
+      .where(eq(savedViewsTable.id, id))
+      .execute();
+
+    return view;
+  } catch (error) {
+    console.error('Saved view deletion failed:', error);
+    throw error;
+  }
+};
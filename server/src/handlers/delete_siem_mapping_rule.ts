@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { siemMappingRulesTable } from '../db/schema';
+import { type SiemMappingRule } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+// Violations the rule raised stay; later alerts fall through to the next rule
+export const deleteSiemMappingRule = async (id: number): Promise<SiemMappingRule> => {
+  try {
+    const result = await db.delete(siemMappingRulesTable)
+      .where(eq(siemMappingRulesTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw notFoundError('SIEM mapping rule', id);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('SIEM mapping rule deletion failed:', error);
+    throw error;
+  }
+};
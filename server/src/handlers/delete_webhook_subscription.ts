@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { webhookSubscriptionsTable } from '../db/schema';
+import { type WebhookSubscription } from '../schema';
+import { notFoundError } from '../errors';
+import { toWebhookSubscription } from '../webhooks/subscriptions';
+import { eq } from 'drizzle-orm';
+
+// Deletes the subscription together with its delivery log; disable it instead
+// to keep the log
+export const deleteWebhookSubscription = async (id: number): Promise<WebhookSubscription> => {
+  try {
+    const result = await db.delete(webhookSubscriptionsTable)
+      .where(eq(webhookSubscriptionsTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw notFoundError('Webhook subscription', id);
+    }
+
+    return toWebhookSubscription(result[0]);
+  } catch (error) {
+    console.error('Webhook subscription deletion failed:', error);
+    throw error;
+  }
+};
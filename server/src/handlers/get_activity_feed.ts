@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { activityEventsTable, commentsTable } from '../db/schema';
+import { type ActivityFeedPage, type ActivityItem, type EntityActivityInput } from '../schema';
+import { assertEntityExists } from '../activity/activity';
+import { and, count, desc, eq, isNull } from 'drizzle-orm';
+
+// Merges an entity's comments and recorded events, newest first
+export const getActivityFeed = async (input: EntityActivityInput): Promise<ActivityFeedPage> => {
+  try {
+    await assertEntityExists(input.entity_type, input.entity_id);
+
+    const commentConditions = and(
+      eq(commentsTable.entity_type, input.entity_type),
+      eq(commentsTable.entity_id, input.entity_id),
+      isNull(commentsTable.deleted_at)
+    );
+    const eventConditions = and(
+      eq(activityEventsTable.entity_type, input.entity_type),
+      eq(activityEventsTable.entity_id, input.entity_id)
+    );
+
+    // The page can only contain the newest offset + limit rows of either source
+    const window = input.offset + input.limit;
+
+    const [comments, events, [commentCount], [eventCount]] = await Promise.all([
+      db.select()
+        .from(commentsTable)
+        .where(commentConditions)
+        .orderBy(desc(commentsTable.created_at), desc(commentsTable.id))
+        .limit(window)
+        .execute(),
+      db.select()
+        .from(activityEventsTable)
+        .where(eventConditions)
+        .orderBy(desc(activityEventsTable.created_at), desc(activityEventsTable.id))
+        .limit(window)
+        .execute(),
+      db.select({ total: count() }).from(commentsTable).where(commentConditions).execute(),
+      db.select({ total: count() }).from(activityEventsTable).where(eventConditions).execute()
+    ]);
+
+    const items: ActivityItem[] = [
+      ...comments.map(comment => ({ kind: 'comment' as const, occurred_at: comment.created_at, comment })),
+      ...events.map(event => ({ kind: 'event' as const, occurred_at: event.created_at, event }))
+    ];
+    items.sort((a, b) => b.occurred_at.getTime() - a.occurred_at.getTime());
+
+    return {
+      items: items.slice(input.offset, window),
+      total: commentCount.total + eventCount.total
+    };
+  } catch (error) {
+    console.error('Failed to fetch activity feed:', error);
+    throw error;
+  }
+};
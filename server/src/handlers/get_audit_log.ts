@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { auditLogTable } from '../db/schema';
+import { type AuditLogFilter, type AuditLogPage } from '../schema';
+import { and, count, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+export const getAuditLog = async (filter: AuditLogFilter): Promise<AuditLogPage> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter.actor_id !== undefined) {
+      conditions.push(eq(auditLogTable.actor_id, filter.actor_id));
+    }
+    if (filter.procedure !== undefined) {
+      conditions.push(eq(auditLogTable.procedure, filter.procedure));
+    }
+    if (filter.entity_type !== undefined) {
+      conditions.push(eq(auditLogTable.entity_type, filter.entity_type));
+    }
+    if (filter.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, filter.entity_id));
+    }
+    if (filter.from) {
+      conditions.push(gte(auditLogTable.created_at, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lte(auditLogTable.created_at, filter.to));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(auditLogTable)
+      .where(where)
+      .execute();
+
+    // Newest first; ids follow the chain order
+    const items = await db.select()
+      .from(auditLogTable)
+      .where(where)
+      .orderBy(desc(auditLogTable.id))
+      .limit(filter.limit)
+      .offset(filter.offset)
+      .execute();
+
+    return { items, total };
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { type Comment, type CommentThread, type CommentThreadPage, type EntityActivityInput } from '../schema';
+import { assertEntityExists } from '../activity/activity';
+import { and, asc, count, eq, isNotNull, isNull } from 'drizzle-orm';
+
+// Pages through an entity's top-level comments, oldest first, each with its
+// full reply thread
+export const getComments = async (input: EntityActivityInput): Promise<CommentThreadPage> => {
+  try {
+    await assertEntityExists(input.entity_type, input.entity_id);
+
+    const onEntity = and(
+      eq(commentsTable.entity_type, input.entity_type),
+      eq(commentsTable.entity_id, input.entity_id)
+    );
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(commentsTable)
+      .where(and(onEntity, isNull(commentsTable.parent_comment_id)))
+      .execute();
+
+    const roots = await db.select()
+      .from(commentsTable)
+      .where(and(onEntity, isNull(commentsTable.parent_comment_id)))
+      .orderBy(asc(commentsTable.created_at), asc(commentsTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    const replies = roots.length === 0 ? [] : await db.select()
+      .from(commentsTable)
+      .where(and(onEntity, isNotNull(commentsTable.parent_comment_id)))
+      .orderBy(asc(commentsTable.created_at), asc(commentsTable.id))
+      .execute();
+
+    const repliesTo = new Map<number, Comment[]>();
+    for (const reply of replies) {
+      const siblings = repliesTo.get(reply.parent_comment_id!) ?? [];
+      siblings.push(reply);
+      repliesTo.set(reply.parent_comment_id!, siblings);
+    }
+
+    const toThread = (comment: Comment): CommentThread => ({
+      ...comment,
+      replies: (repliesTo.get(comment.id) ?? []).map(toThread)
+    });
+
+    return {
+      items: roots.map(toThread),
+      total
+    };
+  } catch (error) {
+    console.error('Failed to fetch comments:', error);
+    throw error;
+  }
+};
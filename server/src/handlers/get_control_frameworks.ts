@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { controlFrameworksTable } from '../db/schema';
+import { type ControlFramework } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getControlFrameworks = async (): Promise<ControlFramework[]> => {
+  try {
+    return await db.select()
+      .from(controlFrameworksTable)
+      .orderBy(asc(controlFrameworksTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch control frameworks:', error);
+    throw error;
+  }
+};
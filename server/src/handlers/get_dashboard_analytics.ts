@@ -41,18 +41,18 @@ export async function getDashboardAnalytics(): Promise<DashboardAnalytics> {
 
     const avgRiskResult = await avgRiskQuery.execute();
 
-    // Get top risk containers (containers with highest average risk scores from their issues)
+    // Get top risk containers (by the stored rollup maintained by the scoring engine)
     const topRiskContainersQuery = db
       .select({
         container_id: containersTable.id,
         container_name: containersTable.name,
-        avg_risk_score: avg(securityIssuesTable.risk_score),
+        risk_score: containersTable.risk_score,
         issue_count: count(securityIssuesTable.id)
       })
       .from(containersTable)
       .innerJoin(securityIssuesTable, eq(containersTable.id, securityIssuesTable.container_id))
-      .groupBy(containersTable.id, containersTable.name)
-      .orderBy(desc(avg(securityIssuesTable.risk_score)))
+      .groupBy(containersTable.id, containersTable.name, containersTable.risk_score)
+      .orderBy(desc(containersTable.risk_score))
       .limit(5);
 
     const topRiskContainers = await topRiskContainersQuery.execute();
@@ -144,7 +144,7 @@ export async function getDashboardAnalytics(): Promise<DashboardAnalytics> {
       top_risk_containers: topRiskContainers.map(container => ({
         container_id: container.container_id,
         container_name: container.container_name,
-        risk_score: parseFloat(container.avg_risk_score?.toString() || '0'),
+        risk_score: container.risk_score,
         issue_count: container.issue_count
       })),
       recent_violations: recentViolations,
@@ -163,13 +163,13 @@ export async function getContainerRiskAnalytics(containerId: number): Promise<{
   top_issues: Array<{ id: number; title: string; risk_score: number }>;
 }> {
   try {
-    // Calculate container's average risk score
+    // Use the container's stored rollup so it matches getContainers
     const containerRiskQuery = db
       .select({
-        avg_risk: avg(securityIssuesTable.risk_score)
+        risk_score: containersTable.risk_score
       })
-      .from(securityIssuesTable)
-      .where(eq(securityIssuesTable.container_id, containerId));
+      .from(containersTable)
+      .where(eq(containersTable.id, containerId));
 
     const containerRisk = await containerRiskQuery.execute();
 
@@ -223,7 +223,7 @@ export async function getContainerRiskAnalytics(containerId: number): Promise<{
       breakdown[item.severity] = item.count;
     });
 
-    const containerRiskScore = containerRisk[0]?.avg_risk ? parseFloat(containerRisk[0].avg_risk.toString()) : 0;
+    const containerRiskScore = containerRisk[0]?.risk_score ?? 0;
 
     return {
       container_risk_score: containerRiskScore,
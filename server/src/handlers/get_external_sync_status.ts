@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { containersTable, securityIssuesTable } from '../db/schema';
+import { type ExternalSyncInput, type IssueSyncState } from '../schema';
+import { notFoundError } from '../errors';
+import { hasPendingChanges } from '../integrations/external_sync';
+import { asc, eq } from 'drizzle-orm';
+
+// Sync status and last error of every issue in the container
+export const getExternalSyncStatus = async (input: ExternalSyncInput): Promise<IssueSyncState[]> => {
+  try {
+    const containers = await db.select({ id: containersTable.id })
+      .from(containersTable)
+      .where(eq(containersTable.id, input.container_id))
+      .execute();
+
+    if (containers.length === 0) {
+      throw notFoundError('Container', input.container_id);
+    }
+
+    const issues = await db.select()
+      .from(securityIssuesTable)
+      .where(eq(securityIssuesTable.container_id, input.container_id))
+      .orderBy(asc(securityIssuesTable.id))
+      .execute();
+
+    return issues.map(issue => ({
+      issue_id: issue.id,
+      title: issue.title,
+      external_system: issue.external_system,
+      external_id: issue.external_id,
+      external_url: issue.external_url,
+      // A failed push or pull, or a pull with a conflict, stays so until a later one goes through
+      sync_status: issue.external_sync_status === 'Failed' || issue.external_sync_status === 'Conflict'
+        ? issue.external_sync_status
+        : !issue.external_id ? 'NotLinked' : hasPendingChanges(issue) ? 'Pending' : 'Synced',
+      sync_error: issue.external_sync_error,
+      synced_at: issue.external_synced_at
+    }));
+  } catch (error) {
+    console.error('Failed to fetch external sync status:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { containersTable, importRunsTable } from '../db/schema';
+import { type GetImportRunsInput, type ImportRun } from '../schema';
+import { notFoundError } from '../errors';
+import { and, desc, eq } from 'drizzle-orm';
+
+export const getImportRuns = async (input: GetImportRunsInput): Promise<ImportRun[]> => {
+  try {
+    const containers = await db.select({ id: containersTable.id })
+      .from(containersTable)
+      .where(eq(containersTable.id, input.container_id))
+      .execute();
+
+    if (containers.length === 0) {
+      throw notFoundError('Container', input.container_id);
+    }
+
+    // Newest first
+    return await db.select()
+      .from(importRunsTable)
+      .where(and(
+        eq(importRunsTable.container_id, input.container_id),
+        input.component_id !== undefined ? eq(importRunsTable.component_id, input.component_id) : undefined
+      ))
+      .orderBy(desc(importRunsTable.imported_at), desc(importRunsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch import runs:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { issueStatusHistoryTable, securityIssuesTable } from '../db/schema';
+import { type IssueStatusHistory } from '../schema';
+import { notFoundError } from '../errors';
+import { asc, eq } from 'drizzle-orm';
+
+export const getIssueStatusHistory = async (issueId: number): Promise<IssueStatusHistory[]> => {
+  try {
+    const issues = await db.select({ id: securityIssuesTable.id })
+      .from(securityIssuesTable)
+      .where(eq(securityIssuesTable.id, issueId))
+      .execute();
+
+    if (issues.length === 0) {
+      throw notFoundError('Security issue', issueId);
+    }
+
+    // Oldest first, so consecutive entries bound the time spent in each status
+    const results = await db.select()
+      .from(issueStatusHistoryTable)
+      .where(eq(issueStatusHistoryTable.issue_id, issueId))
+      .orderBy(asc(issueStatusHistoryTable.changed_at), asc(issueStatusHistoryTable.id))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch issue status history:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { securityIssuesTable } from '../db/schema';
+import { type IssueTreeNode } from '../schema';
+import { getContainerScoringProfile } from '../scoring/risk_scoring';
+import { buildIssueTree } from '../hierarchy/issue_hierarchy';
+import { eq } from 'drizzle-orm';
+
+export const getIssueTree = async (containerId: number): Promise<IssueTreeNode[]> => {
+  try {
+    // Roll up with the same profile the container's own score uses
+    const profile = await getContainerScoringProfile(containerId);
+
+    const issues = await db.select()
+      .from(securityIssuesTable)
+      .where(eq(securityIssuesTable.container_id, containerId))
+      .execute();
+
+    return buildIssueTree(issues, profile);
+  } catch (error) {
+    console.error('Failed to build issue tree:', error);
+    throw error;
+  }
+};
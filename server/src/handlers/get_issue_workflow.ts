@@ -0,0 +1,7 @@
+import { type IssueWorkflowDefinition } from '../schema';
+import { DEFAULT_ISSUE_WORKFLOW } from '../workflow/issue_workflow';
+
+// Lets clients offer only the status changes the server will accept
+export const getIssueWorkflow = async (): Promise<IssueWorkflowDefinition> => {
+  return DEFAULT_ISSUE_WORKFLOW;
+};
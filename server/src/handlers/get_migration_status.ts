@@ -0,0 +1,11 @@
+import { type MigrationStatusReport } from '../schema';
+import { getMigrationStatus as readMigrationStatus } from '../db/migrate';
+
+export const getMigrationStatus = async (): Promise<MigrationStatusReport> => {
+  try {
+    return await readMigrationStatus();
+  } catch (error) {
+    console.error('Failed to fetch migration status:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { notificationPreferencesTable } from '../db/schema';
+import { type NotificationPreferences } from '../schema';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../notifications/emails';
+import { eq } from 'drizzle-orm';
+
+// The signed-in user's email preferences, or the defaults until they save some
+export const getNotificationPreferences = async (userId: number): Promise<NotificationPreferences> => {
+  try {
+    const rows = await db.select()
+      .from(notificationPreferencesTable)
+      .where(eq(notificationPreferencesTable.user_id, userId))
+      .execute();
+
+    if (rows.length === 0) {
+      return { user_id: userId, ...DEFAULT_NOTIFICATION_PREFERENCES, updated_at: null };
+    }
+
+    const { id, ...preferences } = rows[0];
+    return preferences;
+  } catch (error) {
+    console.error('Failed to fetch notification preferences:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import { TRPCError } from '@trpc/server';
+import { type RunSavedViewInput, type SecurityIssuePage, type SecurityViolationPage } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { loadVisibleView, parseViewContent } from '../views/saved_views';
+import { getSecurityIssues } from './get_security_issues';
+import { getSecurityViolations } from './get_security_violations';
+
+const viewOfType = async (id: number, entityType: 'Issue' | 'Violation', actor: Actor) => {
+  const view = await loadVisibleView(id, actor);
+  if (view.entity_type !== entityType) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Saved view ${id} lists ${view.entity_type.toLowerCase()}s` });
+  }
+  return view;
+};
+
+// Runs an issue view through getSecurityIssues, a page at a time, so "me" in
+// its filter query is whoever runs it
+export const getSavedViewIssues = async (input: Partial<RunSavedViewInput> & { id: number }, actor: Actor): Promise<SecurityIssuePage> => {
+  try {
+    const view = await viewOfType(input.id, 'Issue', actor);
+    const content = parseViewContent('Issue', view, actor);
+
+    return getSecurityIssues({ ...content.filter, sort: content.sort, limit: input.limit, cursor: input.cursor }, actor);
+  } catch (error) {
+    console.error('Failed to run saved issue view:', error);
+    throw error;
+  }
+};
+
+// Runs a violation view through getSecurityViolations, a page at a time
+export const getSavedViewViolations = async (
+  input: Partial<RunSavedViewInput> & { id: number },
+  actor: Actor
+): Promise<SecurityViolationPage> => {
+  try {
+    const view = await viewOfType(input.id, 'Violation', actor);
+    const content = parseViewContent('Violation', view, actor);
+
+    return getSecurityViolations({ ...content.filter, sort: content.sort, limit: input.limit, cursor: input.cursor }, actor);
+  } catch (error) {
+    console.error('Failed to run saved violation view:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { savedViewPinsTable, savedViewsTable } from '../db/schema';
+import { type GetSavedViewsInput, type SavedView } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { toSavedView, visibleViewCondition } from '../views/saved_views';
+import { and, asc, eq, isNull, sql, type SQL } from 'drizzle-orm';
+
+// Views the actor can see, pinned ones first, then by name
+export const getSavedViews = async (input: GetSavedViewsInput, actor: Actor): Promise<SavedView[]> => {
+  try {
+    const conditions: SQL[] = [visibleViewCondition(actor.id)];
+
+    if (input.entity_type) {
+      conditions.push(eq(savedViewsTable.entity_type, input.entity_type));
+    }
+
+    if (input.container_id !== undefined) {
+      conditions.push(eq(savedViewsTable.container_id, input.container_id));
+    }
+
+    const rows = await db.select({ view: savedViewsTable, pin: savedViewPinsTable.id })
+      .from(savedViewsTable)
+      .leftJoin(savedViewPinsTable, and(
+        eq(savedViewPinsTable.view_id, savedViewsTable.id),
+        eq(savedViewPinsTable.user_id, actor.id)
+      ))
+      .where(and(...conditions))
+      .orderBy(isNull(savedViewPinsTable.id), asc(sql`lower(${savedViewsTable.name})`), asc(savedViewsTable.id))
+      .execute();
+
+    return rows.map(row => toSavedView(row.view, row.pin !== null));
+  } catch (error) {
+    console.error('Failed to fetch saved views:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { scoringProfilesTable } from '../db/schema';
+import { type ScoringProfile } from '../schema';
+import { asc, desc } from 'drizzle-orm';
+
+export const getScoringProfiles = async (): Promise<ScoringProfile[]> => {
+  try {
+    // Newest version of each profile first
+    const results = await db.select()
+      .from(scoringProfilesTable)
+      .orderBy(asc(scoringProfilesTable.name), desc(scoringProfilesTable.version))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch scoring profiles:', error);
+    throw error;
+  }
+};
@@ -1,77 +1,113 @@
 import { db } from '../db';
 import { securityControlsTable } from '../db/schema';
-import { type SecurityControl } from '../schema';
-import { eq, and, SQL } from 'drizzle-orm';
+import {
+  containerPageInputSchema,
+  getSecurityControlsInputSchema,
+  type ContainerPageInput,
+  type GetSecurityControlsInput,
+  type SecurityControlPage
+} from '../schema';
+import { controlSortable } from '../filters/fields';
+import { keyset } from '../filters/keyset';
+import { eq, and, count, SQL } from 'drizzle-orm';
 
-
-export interface SecurityControlFilters {
-  implementation_status?: 'Existing' | 'Planned' | 'NotSpecified';
-  control_type?: string;
-  framework_reference?: string;
-  container_id?: number;
-  control_family?: string;
-  is_active?: boolean;
-}
-
-export async function getSecurityControls(filters?: SecurityControlFilters): Promise<SecurityControl[]> {
+export async function getSecurityControls(input: Partial<GetSecurityControlsInput> = {}): Promise<SecurityControlPage> {
   try {
+    // Apply defaults for the page size and sort
+    const filters = getSecurityControlsInputSchema.parse(input);
+
     // Build conditions array
     const conditions: SQL<unknown>[] = [];
 
-    if (filters?.implementation_status) {
+    if (filters.implementation_status) {
       conditions.push(eq(securityControlsTable.implementation_status, filters.implementation_status));
     }
 
-    if (filters?.control_type) {
+    if (filters.control_type) {
       conditions.push(eq(securityControlsTable.control_type, filters.control_type));
     }
 
-    if (filters?.framework_reference) {
+    if (filters.framework_reference) {
       conditions.push(eq(securityControlsTable.framework_reference, filters.framework_reference));
     }
 
-    if (filters?.container_id !== undefined) {
+    if (filters.container_id !== undefined) {
       conditions.push(eq(securityControlsTable.container_id, filters.container_id));
     }
 
-    if (filters?.control_family) {
+    if (filters.control_family) {
       conditions.push(eq(securityControlsTable.control_family, filters.control_family));
     }
 
-    if (filters?.is_active !== undefined) {
+    if (filters.is_active !== undefined) {
       conditions.push(eq(securityControlsTable.is_active, filters.is_active));
     }
 
-    // Build and execute query
-    const query = conditions.length > 0
-      ? db.select().from(securityControlsTable).where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : db.select().from(securityControlsTable);
+    const where = and(...conditions);
+    const pages = keyset(controlSortable, filters.sort, filters.cursor, securityControlsTable.id);
 
-    const results = await query.execute();
+    const [{ total }] = await db.select({ total: count() })
+      .from(securityControlsTable)
+      .where(where)
+      .execute();
+
+    const results = await db.select()
+      .from(securityControlsTable)
+      .where(and(where, pages.after))
+      .orderBy(...pages.order)
+      .limit(filters.limit + 1)
+      .execute();
+
+    const { items, next_cursor } = pages.page(results, filters.limit);
 
     // Convert numeric fields back to numbers
-    return results.map(control => ({
-      ...control,
-      effectiveness_rating: control.effectiveness_rating ? parseFloat(control.effectiveness_rating.toString()) : null
-    }));
+    return {
+      items: items.map(control => ({
+        ...control,
+        effectiveness_rating: control.effectiveness_rating ? parseFloat(control.effectiveness_rating.toString()) : null
+      })),
+      total,
+      next_cursor
+    };
   } catch (error) {
     console.error('Failed to fetch security controls:', error);
     throw error;
   }
 }
 
-export async function getSecurityControlsByContainer(containerId: number): Promise<SecurityControl[]> {
+export async function getSecurityControlsByContainer(
+  input: Partial<ContainerPageInput> & Pick<ContainerPageInput, 'containerId'>
+): Promise<SecurityControlPage> {
   try {
+    // Apply defaults for the page size; controls list in their default order
+    const page = containerPageInputSchema.parse(input);
+
+    const where = eq(securityControlsTable.container_id, page.containerId);
+    const pages = keyset(controlSortable, [], page.cursor, securityControlsTable.id);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(securityControlsTable)
+      .where(where)
+      .execute();
+
     const results = await db.select()
       .from(securityControlsTable)
-      .where(eq(securityControlsTable.container_id, containerId))
+      .where(and(where, pages.after))
+      .orderBy(...pages.order)
+      .limit(page.limit + 1)
       .execute();
 
+    const { items, next_cursor } = pages.page(results, page.limit);
+
     // Convert numeric fields back to numbers
-    return results.map(control => ({
-      ...control,
-      effectiveness_rating: control.effectiveness_rating ? parseFloat(control.effectiveness_rating.toString()) : null
-    }));
+    return {
+      items: items.map(control => ({
+        ...control,
+        effectiveness_rating: control.effectiveness_rating ? parseFloat(control.effectiveness_rating.toString()) : null
+      })),
+      total,
+      next_cursor
+    };
   } catch (error) {
     console.error('Failed to fetch security controls by container:', error);
     throw error;
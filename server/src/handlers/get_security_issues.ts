@@ -1,114 +1,162 @@
 import { db } from '../db';
 import { securityIssuesTable } from '../db/schema';
-import { type SecurityIssue, type SecurityIssueFilter } from '../schema';
-import { eq, gte, lte, and, desc, type SQL } from 'drizzle-orm';
+import {
+  containerPageInputSchema,
+  getSecurityIssuesInputSchema,
+  type ContainerPageInput,
+  type GetSecurityIssuesInput,
+  type SecurityIssueFilter,
+  type SecurityIssuePage
+} from '../schema';
+import { type Actor } from '../auth/permissions';
+import { compileFilterQuery } from '../filters/compile';
+import { issueFilterFields, issueSortable, issueTreeSortable } from '../filters/fields';
+import { keyset } from '../filters/keyset';
+import { eq, gte, lte, and, count, type SQL } from 'drizzle-orm';
+
+// Conditions for the issue list filters, shared with bulk updates
+export const issueConditions = (input: SecurityIssueFilter, actor?: Actor): SQL<unknown>[] => {
+  const conditions: SQL<unknown>[] = [];
+
+  // Container filter
+  if (input.container_id !== undefined) {
+    conditions.push(eq(securityIssuesTable.container_id, input.container_id));
+  }
 
-export async function getSecurityIssues(filter?: SecurityIssueFilter): Promise<SecurityIssue[]> {
-  try {
-    // Build filter conditions
-    const conditions: SQL<unknown>[] = [];
-
-    if (filter) {
-      // Container filter
-      if (filter.container_id !== undefined) {
-        conditions.push(eq(securityIssuesTable.container_id, filter.container_id));
-      }
-
-      // Severity filter
-      if (filter.severity) {
-        conditions.push(eq(securityIssuesTable.severity, filter.severity));
-      }
-
-      // Status filter
-      if (filter.status) {
-        conditions.push(eq(securityIssuesTable.status, filter.status));
-      }
-
-      // Classification filter
-      if (filter.classification) {
-        conditions.push(eq(securityIssuesTable.classification, filter.classification));
-      }
-
-      // Assigned user filter
-      if (filter.assigned_to !== undefined) {
-        conditions.push(eq(securityIssuesTable.assigned_to, filter.assigned_to));
-      }
-
-      // Automated finding filter
-      if (filter.is_automated_finding !== undefined) {
-        conditions.push(eq(securityIssuesTable.is_automated_finding, filter.is_automated_finding));
-      }
-
-      // Date range filters
-      if (filter.created_after) {
-        conditions.push(gte(securityIssuesTable.created_at, filter.created_after));
-      }
-
-      if (filter.created_before) {
-        conditions.push(lte(securityIssuesTable.created_at, filter.created_before));
-      }
-
-      // Risk score range filters
-      if (filter.risk_score_min !== undefined) {
-        conditions.push(gte(securityIssuesTable.risk_score, filter.risk_score_min));
-      }
-
-      if (filter.risk_score_max !== undefined) {
-        conditions.push(lte(securityIssuesTable.risk_score, filter.risk_score_max));
-      }
+  // Severity filter
+  if (input.severity) {
+    conditions.push(eq(securityIssuesTable.severity, input.severity));
+  }
+
+  // Status filter
+  if (input.status) {
+    conditions.push(eq(securityIssuesTable.status, input.status));
+  }
+
+  // Classification filter
+  if (input.classification) {
+    conditions.push(eq(securityIssuesTable.classification, input.classification));
+  }
+
+  // Assigned user filter
+  if (input.assigned_to !== undefined) {
+    conditions.push(eq(securityIssuesTable.assigned_to, input.assigned_to));
+  }
+
+  // Automated finding filter
+  if (input.is_automated_finding !== undefined) {
+    conditions.push(eq(securityIssuesTable.is_automated_finding, input.is_automated_finding));
+  }
+
+  // Date range filters
+  if (input.created_after) {
+    conditions.push(gte(securityIssuesTable.created_at, input.created_after));
+  }
+
+  if (input.created_before) {
+    conditions.push(lte(securityIssuesTable.created_at, input.created_before));
+  }
+
+  // Risk score range filters
+  if (input.risk_score_min !== undefined) {
+    conditions.push(gte(securityIssuesTable.risk_score, input.risk_score_min));
+  }
+
+  if (input.risk_score_max !== undefined) {
+    conditions.push(lte(securityIssuesTable.risk_score, input.risk_score_max));
+  }
+
+  // Filter query
+  if (input.query) {
+    const condition = compileFilterQuery(input.query, issueFilterFields, { actorId: actor?.id ?? null, now: new Date() });
+    if (condition) {
+      conditions.push(condition);
     }
+  }
+
+  return conditions;
+};
+
+export async function getSecurityIssues(input: Partial<GetSecurityIssuesInput> = {}, actor?: Actor): Promise<SecurityIssuePage> {
+  try {
+    // Apply defaults for the page size and sort
+    const filter = getSecurityIssuesInputSchema.parse(input);
+
+    const where = and(...issueConditions(filter, actor));
+    const pages = keyset(issueSortable, filter.sort, filter.cursor, securityIssuesTable.id);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(securityIssuesTable)
+      .where(where)
+      .execute();
 
-    // Build final query with all conditions and ordering
-    const baseQuery = db.select().from(securityIssuesTable);
-    
-    const finalQuery = conditions.length > 0 
-      ? baseQuery
-          .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-          .orderBy(desc(securityIssuesTable.risk_score), desc(securityIssuesTable.created_at))
-      : baseQuery
-          .orderBy(desc(securityIssuesTable.risk_score), desc(securityIssuesTable.created_at));
+    const results = await db.select()
+      .from(securityIssuesTable)
+      .where(and(where, pages.after))
+      .orderBy(...pages.order)
+      .limit(filter.limit + 1)
+      .execute();
 
-    const results = await finalQuery.execute();
+    const { items, next_cursor } = pages.page(results, filter.limit);
 
     // Convert real/numeric fields back to numbers
-    return results.map(issue => ({
-      ...issue,
-      risk_score: parseFloat(issue.risk_score.toString()),
-      confidentiality_impact: parseFloat(issue.confidentiality_impact.toString()),
-      integrity_impact: parseFloat(issue.integrity_impact.toString()),
-      availability_impact: parseFloat(issue.availability_impact.toString()),
-      compliance_impact: parseFloat(issue.compliance_impact.toString()),
-      third_party_risk: parseFloat(issue.third_party_risk.toString())
-    }));
+    return {
+      items: items.map(issue => ({
+        ...issue,
+        risk_score: parseFloat(issue.risk_score.toString()),
+        confidentiality_impact: parseFloat(issue.confidentiality_impact.toString()),
+        integrity_impact: parseFloat(issue.integrity_impact.toString()),
+        availability_impact: parseFloat(issue.availability_impact.toString()),
+        compliance_impact: parseFloat(issue.compliance_impact.toString()),
+        third_party_risk: parseFloat(issue.third_party_risk.toString())
+      })),
+      total,
+      next_cursor
+    };
   } catch (error) {
     console.error('Failed to get security issues:', error);
     throw error;
   }
 }
 
-export async function getSecurityIssuesByContainer(containerId: number): Promise<SecurityIssue[]> {
+export async function getSecurityIssuesByContainer(
+  input: Partial<ContainerPageInput> & Pick<ContainerPageInput, 'containerId'>
+): Promise<SecurityIssuePage> {
   try {
-    // Get all issues for the container, ordered by hierarchy and risk score
+    // Apply defaults for the page size
+    const page = containerPageInputSchema.parse(input);
+
+    const where = eq(securityIssuesTable.container_id, page.containerId);
+    const pages = keyset(issueTreeSortable, [], page.cursor, securityIssuesTable.id);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(securityIssuesTable)
+      .where(where)
+      .execute();
+
     const results = await db.select()
       .from(securityIssuesTable)
-      .where(eq(securityIssuesTable.container_id, containerId))
-      .orderBy(
-        desc(securityIssuesTable.hierarchy), // Epic, Story, Task order
-        desc(securityIssuesTable.risk_score),
-        desc(securityIssuesTable.created_at)
-      )
+      .where(and(where, pages.after))
+      .orderBy(...pages.order)
+      .limit(page.limit + 1)
       .execute();
 
+    const { items, next_cursor } = pages.page(results, page.limit);
+
     // Convert real/numeric fields back to numbers
-    return results.map(issue => ({
-      ...issue,
-      risk_score: parseFloat(issue.risk_score.toString()),
-      confidentiality_impact: parseFloat(issue.confidentiality_impact.toString()),
-      integrity_impact: parseFloat(issue.integrity_impact.toString()),
-      availability_impact: parseFloat(issue.availability_impact.toString()),
-      compliance_impact: parseFloat(issue.compliance_impact.toString()),
-      third_party_risk: parseFloat(issue.third_party_risk.toString())
-    }));
+    return {
+      items: items.map(issue => ({
+        ...issue,
+        risk_score: parseFloat(issue.risk_score.toString()),
+        confidentiality_impact: parseFloat(issue.confidentiality_impact.toString()),
+        integrity_impact: parseFloat(issue.integrity_impact.toString()),
+        availability_impact: parseFloat(issue.availability_impact.toString()),
+        compliance_impact: parseFloat(issue.compliance_impact.toString()),
+        third_party_risk: parseFloat(issue.third_party_risk.toString())
+      })),
+      total,
+      next_cursor
+    };
   } catch (error) {
     console.error('Failed to get security issues by container:', error);
     throw error;
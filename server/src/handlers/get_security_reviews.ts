@@ -1,73 +1,116 @@
 import { db } from '../db';
 import { securityReviewsTable } from '../db/schema';
-import { type SecurityReview } from '../schema';
-import { eq, and, isNull, SQL } from 'drizzle-orm';
-
-export interface SecurityReviewFilters {
-  container_id?: number;
-  status?: 'Pending' | 'InReview' | 'Completed' | 'Rejected';
-  reviewer_id?: number;
-  ai_analysis_complete?: boolean;
-  created_by?: number;
-}
+import {
+  containerPageInputSchema,
+  getSecurityReviewsInputSchema,
+  type ContainerPageInput,
+  type GetSecurityReviewsInput,
+  type SecurityReview,
+  type SecurityReviewPage
+} from '../schema';
+import { reviewSortable } from '../filters/fields';
+import { keyset } from '../filters/keyset';
+import { eq, and, count, isNull, SQL } from 'drizzle-orm';
 
-export async function getSecurityReviews(filters?: SecurityReviewFilters): Promise<SecurityReview[]> {
+export async function getSecurityReviews(input: Partial<GetSecurityReviewsInput> = {}): Promise<SecurityReviewPage> {
   try {
+    // Apply defaults for the page size and sort
+    const filters = getSecurityReviewsInputSchema.parse(input);
+
     // Build conditions array for filtering
     const conditions: SQL<unknown>[] = [];
 
-    if (filters?.container_id !== undefined) {
+    if (filters.container_id !== undefined) {
       conditions.push(eq(securityReviewsTable.container_id, filters.container_id));
     }
 
-    if (filters?.status) {
+    if (filters.status) {
       conditions.push(eq(securityReviewsTable.status, filters.status));
     }
 
-    if (filters?.reviewer_id !== undefined) {
+    if (filters.reviewer_id !== undefined) {
       conditions.push(eq(securityReviewsTable.reviewer_id, filters.reviewer_id));
     }
 
-    if (filters?.ai_analysis_complete !== undefined) {
+    if (filters.ai_analysis_complete !== undefined) {
       conditions.push(eq(securityReviewsTable.ai_analysis_complete, filters.ai_analysis_complete));
     }
 
-    if (filters?.created_by !== undefined) {
+    if (filters.created_by !== undefined) {
       conditions.push(eq(securityReviewsTable.created_by, filters.created_by));
     }
 
-    // Build query with conditions
-    const query = conditions.length > 0
-      ? db.select().from(securityReviewsTable).where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : db.select().from(securityReviewsTable);
+    if (filters.is_active !== undefined) {
+      conditions.push(eq(securityReviewsTable.is_active, filters.is_active));
+    }
+
+    const where = and(...conditions);
+    const pages = keyset(reviewSortable, filters.sort, filters.cursor, securityReviewsTable.id);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(securityReviewsTable)
+      .where(where)
+      .execute();
+
+    const results = await db.select()
+      .from(securityReviewsTable)
+      .where(and(where, pages.after))
+      .orderBy(...pages.order)
+      .limit(filters.limit + 1)
+      .execute();
 
-    const results = await query.execute();
+    const { items, next_cursor } = pages.page(results, filters.limit);
 
     // Return results with proper type conversion for dates
-    return results.map(review => ({
-      ...review,
-      created_at: new Date(review.created_at),
-      updated_at: new Date(review.updated_at)
-    }));
+    return {
+      items: items.map(review => ({
+        ...review,
+        created_at: new Date(review.created_at),
+        updated_at: new Date(review.updated_at)
+      })),
+      total,
+      next_cursor
+    };
   } catch (error) {
     console.error('Failed to fetch security reviews:', error);
     throw error;
   }
 }
 
-export async function getSecurityReviewsByContainer(containerId: number): Promise<SecurityReview[]> {
+export async function getSecurityReviewsByContainer(
+  input: Partial<ContainerPageInput> & Pick<ContainerPageInput, 'containerId'>
+): Promise<SecurityReviewPage> {
   try {
+    // Apply defaults for the page size; reviews list in their default order
+    const page = containerPageInputSchema.parse(input);
+
+    const where = eq(securityReviewsTable.container_id, page.containerId);
+    const pages = keyset(reviewSortable, [], page.cursor, securityReviewsTable.id);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(securityReviewsTable)
+      .where(where)
+      .execute();
+
     const results = await db.select()
       .from(securityReviewsTable)
-      .where(eq(securityReviewsTable.container_id, containerId))
+      .where(and(where, pages.after))
+      .orderBy(...pages.order)
+      .limit(page.limit + 1)
       .execute();
 
+    const { items, next_cursor } = pages.page(results, page.limit);
+
     // Return results with proper type conversion for dates
-    return results.map(review => ({
-      ...review,
-      created_at: new Date(review.created_at),
-      updated_at: new Date(review.updated_at)
-    }));
+    return {
+      items: items.map(review => ({
+        ...review,
+        created_at: new Date(review.created_at),
+        updated_at: new Date(review.updated_at)
+      })),
+      total,
+      next_cursor
+    };
   } catch (error) {
     console.error('Failed to fetch security reviews by container:', error);
     throw error;
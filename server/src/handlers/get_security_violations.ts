@@ -1,141 +1,133 @@
 import { db } from '../db';
 import { securityViolationsTable, containersTable, usersTable } from '../db/schema';
-import { type SecurityViolation } from '../schema';
-import { eq, and, gte, lte, desc, or, SQL, sql } from 'drizzle-orm';
-import { z } from 'zod';
+import {
+  getSecurityViolationsInputSchema,
+  listPageInputSchema,
+  type GetSecurityViolationsInput,
+  type ListPageInput,
+  type SecurityViolation,
+  type SecurityViolationFilter,
+  type SecurityViolationPage
+} from '../schema';
+import { type Actor } from '../auth/permissions';
+import { compileFilterQuery } from '../filters/compile';
+import { violationFilterFields, violationSortable } from '../filters/fields';
+import { keyset } from '../filters/keyset';
+import { eq, and, gte, lte, or, count, SQL } from 'drizzle-orm';
+
+// Conditions for the filters shared by the violation lists and bulk updates
+export const violationConditions = (input: SecurityViolationFilter, actor?: Actor): SQL<unknown>[] => {
+  const conditions: SQL<unknown>[] = [];
+
+  if (input.violation_type) {
+    conditions.push(eq(securityViolationsTable.violation_type, input.violation_type));
+  }
 
-// Input schema for filtering violations
-export const getSecurityViolationsInputSchema = z.object({
-  violation_type: z.enum(['SecurityBreach', 'PolicyViolation', 'ComplianceIssue', 'DataLeak']).optional(),
-  severity: z.enum(['Critical', 'High', 'Medium', 'Low']).optional(),
-  status: z.enum(['Open', 'In-progress', 'Closed', 'Resolved']).optional(),
-  assigned_to: z.number().optional(),
-  container_id: z.number().optional(),
-  created_after: z.coerce.date().optional(),
-  created_before: z.coerce.date().optional(),
-  incident_after: z.coerce.date().optional(),
-  incident_before: z.coerce.date().optional(),
-  limit: z.number().min(1).max(1000).default(100),
-  offset: z.number().min(0).default(0),
-  order_by: z.enum(['created_at', 'incident_date', 'severity', 'status']).default('created_at')
-});
+  if (input.severity) {
+    conditions.push(eq(securityViolationsTable.severity, input.severity));
+  }
 
-export type GetSecurityViolationsInput = z.infer<typeof getSecurityViolationsInputSchema>;
+  if (input.status) {
+    conditions.push(eq(securityViolationsTable.status, input.status));
+  }
 
-export async function getSecurityViolations(input: Partial<GetSecurityViolationsInput> = {}): Promise<SecurityViolation[]> {
-  try {
-    // Apply defaults for required fields
-    const processedInput = getSecurityViolationsInputSchema.parse(input);
+  if (input.assigned_to) {
+    conditions.push(eq(securityViolationsTable.assigned_to, input.assigned_to));
+  }
 
-    // Build conditions array
-    const conditions: SQL<unknown>[] = [];
+  if (input.container_id) {
+    conditions.push(eq(securityViolationsTable.container_id, input.container_id));
+  }
 
-    if (processedInput.violation_type) {
-      conditions.push(eq(securityViolationsTable.violation_type, processedInput.violation_type));
-    }
+  if (input.created_after) {
+    conditions.push(gte(securityViolationsTable.created_at, input.created_after));
+  }
 
-    if (processedInput.severity) {
-      conditions.push(eq(securityViolationsTable.severity, processedInput.severity));
-    }
+  if (input.created_before) {
+    conditions.push(lte(securityViolationsTable.created_at, input.created_before));
+  }
 
-    if (processedInput.status) {
-      conditions.push(eq(securityViolationsTable.status, processedInput.status));
-    }
+  if (input.incident_after) {
+    conditions.push(gte(securityViolationsTable.incident_date, input.incident_after));
+  }
 
-    if (processedInput.assigned_to) {
-      conditions.push(eq(securityViolationsTable.assigned_to, processedInput.assigned_to));
-    }
+  if (input.incident_before) {
+    conditions.push(lte(securityViolationsTable.incident_date, input.incident_before));
+  }
 
-    if (processedInput.container_id) {
-      conditions.push(eq(securityViolationsTable.container_id, processedInput.container_id));
-    }
+  if (input.is_active !== undefined) {
+    conditions.push(eq(securityViolationsTable.is_active, input.is_active));
+  }
 
-    if (processedInput.created_after) {
-      conditions.push(gte(securityViolationsTable.created_at, processedInput.created_after));
+  if (input.query) {
+    const condition = compileFilterQuery(input.query, violationFilterFields, { actorId: actor?.id ?? null, now: new Date() });
+    if (condition) {
+      conditions.push(condition);
     }
+  }
 
-    if (processedInput.created_before) {
-      conditions.push(lte(securityViolationsTable.created_at, processedInput.created_before));
-    }
+  return conditions;
+};
 
-    if (processedInput.incident_after) {
-      conditions.push(gte(securityViolationsTable.incident_date, processedInput.incident_after));
-    }
+export async function getSecurityViolations(input: Partial<GetSecurityViolationsInput> = {}, actor?: Actor): Promise<SecurityViolationPage> {
+  try {
+    // Apply defaults for the page size and sort
+    const processedInput = getSecurityViolationsInputSchema.parse(input);
 
-    if (processedInput.incident_before) {
-      conditions.push(lte(securityViolationsTable.incident_date, processedInput.incident_before));
-    }
+    const where = and(...violationConditions(processedInput, actor));
+    const pages = keyset(violationSortable, processedInput.sort, processedInput.cursor, securityViolationsTable.id);
 
-    // Build the query in a single chain
-    const query = db.select()
+    const [{ total }] = await db.select({ total: count() })
       .from(securityViolationsTable)
-      .$dynamic();
-
-    // Apply conditions
-    const conditionalQuery = conditions.length > 0
-      ? query.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : query;
-
-    // Apply ordering based on order_by parameter
-    let orderedQuery: typeof conditionalQuery;
-    
-    if (processedInput.order_by === 'incident_date') {
-      orderedQuery = conditionalQuery.orderBy(desc(securityViolationsTable.incident_date));
-    } else if (processedInput.order_by === 'severity') {
-      // Create custom severity ordering: Critical > High > Medium > Low
-      orderedQuery = conditionalQuery.orderBy(
-        sql`CASE 
-          WHEN ${securityViolationsTable.severity} = 'Critical' THEN 1 
-          WHEN ${securityViolationsTable.severity} = 'High' THEN 2 
-          WHEN ${securityViolationsTable.severity} = 'Medium' THEN 3 
-          WHEN ${securityViolationsTable.severity} = 'Low' THEN 4 
-          ELSE 5 
-        END ASC`
-      );
-    } else if (processedInput.order_by === 'status') {
-      orderedQuery = conditionalQuery.orderBy(desc(securityViolationsTable.status));
-    } else {
-      orderedQuery = conditionalQuery.orderBy(desc(securityViolationsTable.created_at));
-    }
+      .where(where)
+      .execute();
 
-    // Apply pagination and execute
-    const results = await orderedQuery
-      .limit(processedInput.limit)
-      .offset(processedInput.offset)
+    const results = await db.select()
+      .from(securityViolationsTable)
+      .where(and(where, pages.after))
+      .orderBy(...pages.order)
+      .limit(processedInput.limit + 1)
       .execute();
 
-    return results;
+    return { ...pages.page(results, processedInput.limit), total };
   } catch (error) {
     console.error('Failed to fetch security violations:', error);
     throw error;
   }
 }
 
-export async function getActiveSecurityViolations(): Promise<SecurityViolation[]> {
+export async function getActiveSecurityViolations(input: Partial<ListPageInput> = {}): Promise<SecurityViolationPage> {
   try {
-    // Query for open and in-progress violations, ordered by severity then creation date
+    // Apply defaults for the page size
+    const page = listPageInputSchema.parse(input);
+
+    // Open and in-progress violations that are not archived, most severe
+    // first, then newest first
+    const where = and(
+      eq(securityViolationsTable.is_active, true),
+      or(
+        eq(securityViolationsTable.status, 'Open'),
+        eq(securityViolationsTable.status, 'In-progress')
+      )
+    );
+    const pages = keyset(violationSortable, [
+      { field: 'severity', direction: 'desc' },
+      { field: 'created_at', direction: 'desc' }
+    ], page.cursor, securityViolationsTable.id);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(securityViolationsTable)
+      .where(where)
+      .execute();
+
     const results = await db.select()
       .from(securityViolationsTable)
-      .where(
-        or(
-          eq(securityViolationsTable.status, 'Open'),
-          eq(securityViolationsTable.status, 'In-progress')
-        )
-      )
-      .orderBy(
-        // Custom severity ordering: Critical > High > Medium > Low
-        sql`CASE 
-          WHEN ${securityViolationsTable.severity} = 'Critical' THEN 1 
-          WHEN ${securityViolationsTable.severity} = 'High' THEN 2 
-          WHEN ${securityViolationsTable.severity} = 'Medium' THEN 3 
-          WHEN ${securityViolationsTable.severity} = 'Low' THEN 4 
-          ELSE 5 
-        END ASC`,
-        desc(securityViolationsTable.created_at)
-      )
+      .where(and(where, pages.after))
+      .orderBy(...pages.order)
+      .limit(page.limit + 1)
       .execute();
 
-    return results;
+    return { ...pages.page(results, page.limit), total };
   } catch (error) {
     console.error('Failed to fetch active security violations:', error);
     throw error;
@@ -143,49 +135,22 @@ export async function getActiveSecurityViolations(): Promise<SecurityViolation[]
 }
 
 // Helper function to get violations with related data (container, assignee info)
-export async function getSecurityViolationsWithDetails(input: Partial<GetSecurityViolationsInput> = {}): Promise<Array<SecurityViolation & { container_name?: string | null; assignee_name?: string | null }>> {
+export async function getSecurityViolationsWithDetails(input: Partial<GetSecurityViolationsInput> = {}, actor?: Actor): Promise<{
+  items: Array<SecurityViolation & { container_name?: string | null; assignee_name?: string | null }>;
+  total: number;
+  next_cursor: string | null;
+}> {
   try {
-    // Apply defaults for required fields
+    // Apply defaults for the page size and sort
     const processedInput = getSecurityViolationsInputSchema.parse(input);
 
-    // Build conditions array
-    const conditions: SQL<unknown>[] = [];
-
-    if (processedInput.violation_type) {
-      conditions.push(eq(securityViolationsTable.violation_type, processedInput.violation_type));
-    }
+    const where = and(...violationConditions(processedInput, actor));
+    const pages = keyset(violationSortable, processedInput.sort, processedInput.cursor, securityViolationsTable.id);
 
-    if (processedInput.severity) {
-      conditions.push(eq(securityViolationsTable.severity, processedInput.severity));
-    }
-
-    if (processedInput.status) {
-      conditions.push(eq(securityViolationsTable.status, processedInput.status));
-    }
-
-    if (processedInput.assigned_to) {
-      conditions.push(eq(securityViolationsTable.assigned_to, processedInput.assigned_to));
-    }
-
-    if (processedInput.container_id) {
-      conditions.push(eq(securityViolationsTable.container_id, processedInput.container_id));
-    }
-
-    if (processedInput.created_after) {
-      conditions.push(gte(securityViolationsTable.created_at, processedInput.created_after));
-    }
-
-    if (processedInput.created_before) {
-      conditions.push(lte(securityViolationsTable.created_at, processedInput.created_before));
-    }
-
-    if (processedInput.incident_after) {
-      conditions.push(gte(securityViolationsTable.incident_date, processedInput.incident_after));
-    }
-
-    if (processedInput.incident_before) {
-      conditions.push(lte(securityViolationsTable.incident_date, processedInput.incident_before));
-    }
+    const [{ total }] = await db.select({ total: count() })
+      .from(securityViolationsTable)
+      .where(where)
+      .execute();
 
     // Build the query with joins in a single chain
     const query = db.select({
@@ -205,8 +170,14 @@ export async function getSecurityViolationsWithDetails(input: Partial<GetSecurit
       related_issue_id: securityViolationsTable.related_issue_id,
       assigned_to: securityViolationsTable.assigned_to,
       created_by: securityViolationsTable.created_by,
+      updated_by: securityViolationsTable.updated_by,
       created_at: securityViolationsTable.created_at,
       updated_at: securityViolationsTable.updated_at,
+      is_active: securityViolationsTable.is_active,
+      tags: securityViolationsTable.tags,
+      correlation_key: securityViolationsTable.correlation_key,
+      occurrence_count: securityViolationsTable.occurrence_count,
+      last_occurrence_at: securityViolationsTable.last_occurrence_at,
       // Related data
       container_name: containersTable.name,
       assignee_name: usersTable.full_name
@@ -214,42 +185,13 @@ export async function getSecurityViolationsWithDetails(input: Partial<GetSecurit
     .from(securityViolationsTable)
     .leftJoin(containersTable, eq(securityViolationsTable.container_id, containersTable.id))
     .leftJoin(usersTable, eq(securityViolationsTable.assigned_to, usersTable.id))
-    .$dynamic();
-
-    // Apply conditions
-    const conditionalQuery = conditions.length > 0
-      ? query.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : query;
+    .where(and(where, pages.after))
+    .orderBy(...pages.order)
+    .limit(processedInput.limit + 1);
 
-    // Apply ordering based on order_by parameter
-    let orderedQuery: typeof conditionalQuery;
-    
-    if (processedInput.order_by === 'incident_date') {
-      orderedQuery = conditionalQuery.orderBy(desc(securityViolationsTable.incident_date));
-    } else if (processedInput.order_by === 'severity') {
-      // Create custom severity ordering: Critical > High > Medium > Low
-      orderedQuery = conditionalQuery.orderBy(
-        sql`CASE 
-          WHEN ${securityViolationsTable.severity} = 'Critical' THEN 1 
-          WHEN ${securityViolationsTable.severity} = 'High' THEN 2 
-          WHEN ${securityViolationsTable.severity} = 'Medium' THEN 3 
-          WHEN ${securityViolationsTable.severity} = 'Low' THEN 4 
-          ELSE 5 
-        END ASC`
-      );
-    } else if (processedInput.order_by === 'status') {
-      orderedQuery = conditionalQuery.orderBy(desc(securityViolationsTable.status));
-    } else {
-      orderedQuery = conditionalQuery.orderBy(desc(securityViolationsTable.created_at));
-    }
-
-    // Apply pagination and execute
-    const results = await orderedQuery
-      .limit(processedInput.limit)
-      .offset(processedInput.offset)
-      .execute();
+    const results = await query.execute();
 
-    return results;
+    return { ...pages.page(results, processedInput.limit), total };
   } catch (error) {
     console.error('Failed to fetch security violations with details:', error);
     throw error;
@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { siemMappingRulesTable } from '../db/schema';
+import { type SiemMappingRule } from '../schema';
+import { asc } from 'drizzle-orm';
+
+// Every rule, active or not, in the order the receiver tries them
+export const getSiemMappingRules = async (): Promise<SiemMappingRule[]> => {
+  try {
+    return await db.select()
+      .from(siemMappingRulesTable)
+      .orderBy(asc(siemMappingRulesTable.priority), asc(siemMappingRulesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch SIEM mapping rules:', error);
+    throw error;
+  }
+};
@@ -3,6 +3,7 @@ import { usersTable } from '../db/schema';
 import { type User, UserRole } from '../schema';
 import { eq, and, desc, SQL } from 'drizzle-orm';
 import { z } from 'zod';
+import { publicUserColumns } from '../auth/session';
 
 // Input schema for filtering users
 export const getUsersInputSchema = z.object({
@@ -31,7 +32,7 @@ export const getUsers = async (inputRaw: Partial<GetUsersInput> = {}): Promise<U
     }
 
     // Build the query in one go to avoid type issues
-    const baseQuery = db.select().from(usersTable);
+    const baseQuery = db.select(publicUserColumns).from(usersTable);
     
     const queryWithConditions = conditions.length > 0
       ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
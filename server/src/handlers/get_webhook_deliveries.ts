@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { type WebhookDelivery, type WebhookDeliveryFilter, type WebhookDeliveryPage } from '../schema';
+import { loadWebhookSubscription } from '../webhooks/subscriptions';
+import { and, count, desc, eq, type SQL } from 'drizzle-orm';
+
+// The delivery log of a subscription, newest first
+export const getWebhookDeliveries = async (filter: WebhookDeliveryFilter): Promise<WebhookDeliveryPage> => {
+  try {
+    await loadWebhookSubscription(filter.subscription_id);
+
+    const conditions: SQL<unknown>[] = [eq(webhookDeliveriesTable.subscription_id, filter.subscription_id)];
+    if (filter.status !== undefined) {
+      conditions.push(eq(webhookDeliveriesTable.status, filter.status));
+    }
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(webhookDeliveriesTable)
+      .where(where)
+      .execute();
+
+    const items = await db.select()
+      .from(webhookDeliveriesTable)
+      .where(where)
+      .orderBy(desc(webhookDeliveriesTable.id))
+      .limit(filter.limit)
+      .offset(filter.offset)
+      .execute();
+
+    return { items: items as WebhookDelivery[], total };
+  } catch (error) {
+    console.error('Failed to fetch webhook deliveries:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { webhookSubscriptionsTable } from '../db/schema';
+import { type WebhookSubscription } from '../schema';
+import { toWebhookSubscription } from '../webhooks/subscriptions';
+import { asc } from 'drizzle-orm';
+
+export const getWebhookSubscriptions = async (): Promise<WebhookSubscription[]> => {
+  try {
+    const subscriptions = await db.select()
+      .from(webhookSubscriptionsTable)
+      .orderBy(asc(webhookSubscriptionsTable.id))
+      .execute();
+
+    return subscriptions.map(toWebhookSubscription);
+  } catch (error) {
+    console.error('Failed to fetch webhook subscriptions:', error);
+    throw error;
+  }
+};
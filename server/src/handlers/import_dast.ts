@@ -0,0 +1,25 @@
+import { type ImportReportInput, type ImportSummary } from '../schema';
+import { parseZapReport } from '../imports/zap';
+import { parseBurpReport } from '../imports/burp';
+import { type Actor } from '../auth/permissions';
+import { importFindings } from '../imports/findings';
+
+export const importZap = async (input: ImportReportInput, actor: Actor): Promise<ImportSummary> => {
+  try {
+    const report = parseZapReport(input.report);
+    return await importFindings(report, input, actor);
+  } catch (error) {
+    console.error('ZAP import failed:', error);
+    throw error;
+  }
+};
+
+export const importBurp = async (input: ImportReportInput, actor: Actor): Promise<ImportSummary> => {
+  try {
+    const report = parseBurpReport(input.report);
+    return await importFindings(report, input, actor);
+  } catch (error) {
+    console.error('Burp import failed:', error);
+    throw error;
+  }
+};
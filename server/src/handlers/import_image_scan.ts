@@ -0,0 +1,25 @@
+import { type ImportReportInput, type ImportSummary } from '../schema';
+import { parseTrivyReport } from '../imports/trivy';
+import { parseGrypeReport } from '../imports/grype';
+import { type Actor } from '../auth/permissions';
+import { importFindings } from '../imports/findings';
+
+export const importTrivy = async (input: ImportReportInput, actor: Actor): Promise<ImportSummary> => {
+  try {
+    const report = parseTrivyReport(input.report);
+    return await importFindings(report, input, actor);
+  } catch (error) {
+    console.error('Trivy import failed:', error);
+    throw error;
+  }
+};
+
+export const importGrype = async (input: ImportReportInput, actor: Actor): Promise<ImportSummary> => {
+  try {
+    const report = parseGrypeReport(input.report);
+    return await importFindings(report, input, actor);
+  } catch (error) {
+    console.error('Grype import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,14 @@
+import { type ImportSarifInput, type ImportSummary } from '../schema';
+import { parseSarif } from '../imports/sarif';
+import { type Actor } from '../auth/permissions';
+import { importFindings } from '../imports/findings';
+
+export const importSarif = async (input: ImportSarifInput, actor: Actor): Promise<ImportSummary> => {
+  try {
+    const report = parseSarif(input.sarif);
+    return await importFindings(report, input, actor);
+  } catch (error) {
+    console.error('SARIF import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type LoginInput, type SessionResult } from '../schema';
+import { dummyPasswordHash, verifyPassword } from '../auth/password';
+import { createSession, toPublicUser } from '../auth/session';
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+
+export const login = async (input: LoginInput): Promise<SessionResult> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.username, input.username))
+      .execute();
+
+    const user = users[0];
+
+    // Same error, and the same scrypt run, for unknown users, wrong passwords
+    // and disabled accounts so the endpoint cannot be used to enumerate
+    // usernames
+    const passwordValid = await verifyPassword(input.password, user?.password_hash ?? await dummyPasswordHash());
+
+    if (!user || !user.is_active || !passwordValid) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid username or password' });
+    }
+
+    const session = await createSession(user.id);
+
+    return {
+      token: session.token,
+      expires_at: session.expires_at,
+      user: toPublicUser(user)
+    };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
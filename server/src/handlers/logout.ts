@@ -0,0 +1,11 @@
+import { revokeSession } from '../auth/session';
+
+export const logout = async (token: string): Promise<{ success: boolean }> => {
+  try {
+    const revoked = await revokeSession(token);
+    return { success: revoked };
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+};
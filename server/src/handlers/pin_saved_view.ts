@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { savedViewPinsTable } from '../db/schema';
+import { type PinSavedViewInput, type SavedView } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { loadVisibleView } from '../views/saved_views';
+import { and, eq } from 'drizzle-orm';
+
+// Pins are per user, so anyone who can see a view may pin it
+export const pinSavedView = async (input: PinSavedViewInput, actor: Actor): Promise<SavedView> => {
+  try {
+    const view = await loadVisibleView(input.id, actor);
+
+    if (input.pinned) {
+      await db.insert(savedViewPinsTable)
+        .values({ view_id: input.id, user_id: actor.id })
+        .onConflictDoNothing()
+        .execute();
+    } else {
+      await db.delete(savedViewPinsTable)
+        .where(and(eq(savedViewPinsTable.view_id, input.id), eq(savedViewPinsTable.user_id, actor.id)))
+        .execute();
+    }
+
+    return { ...view, pinned: input.pinned };
+  } catch (error) {
+    console.error('Saved view pinning failed:', error);
+    throw error;
+  }
+};
@@ -1,6 +1,8 @@
 import { db } from '../db';
 import { securityReviewsTable } from '../db/schema';
 import { type SecurityReview } from '../schema';
+import { notFoundError } from '../errors';
+import { queueWebhookEvent } from '../webhooks/events';
 import { eq } from 'drizzle-orm';
 
 export interface AIAnalysisResults {
@@ -50,7 +52,7 @@ export async function processDocumentAiAnalysis(reviewId: number): Promise<Secur
       .execute();
 
     if (existingReviews.length === 0) {
-      throw new Error(`Security review with ID ${reviewId} not found`);
+      throw notFoundError('Security review', reviewId);
     }
 
     const review = existingReviews[0];
@@ -59,18 +61,24 @@ export async function processDocumentAiAnalysis(reviewId: number): Promise<Secur
     const aiAnalysisResults: AIAnalysisResults = await simulateAIAnalysis(review);
 
     // Update the security review with AI analysis results
-    const updatedReviews = await db.update(securityReviewsTable)
-      .set({
-        status: 'Completed',
-        ai_analysis_complete: true,
-        ai_analysis_results: JSON.stringify(aiAnalysisResults),
-        updated_at: new Date()
-      })
-      .where(eq(securityReviewsTable.id, reviewId))
-      .returning()
-      .execute();
+    const updatedReview = await db.transaction(async (tx) => {
+      const updatedReviews = await tx.update(securityReviewsTable)
+        .set({
+          status: 'Completed',
+          ai_analysis_complete: true,
+          ai_analysis_results: JSON.stringify(aiAnalysisResults),
+          updated_at: new Date()
+        })
+        .where(eq(securityReviewsTable.id, reviewId))
+        .returning()
+        .execute();
+
+      await queueWebhookEvent(tx, 'review.analysis_completed', {
+        review: { ...updatedReviews[0], ai_analysis_results: aiAnalysisResults }
+      });
 
-    const updatedReview = updatedReviews[0];
+      return updatedReviews[0];
+    });
 
     return {
       ...updatedReview,
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { containersTable } from '../db/schema';
+import { type RecomputeRiskScoresInput, type RecomputeRiskScoresResult } from '../schema';
+import { notFoundError } from '../errors';
+import { recomputeContainerRiskScores } from '../scoring/risk_scoring';
+import { eq } from 'drizzle-orm';
+
+// Rescores issues and container rollups with each container's current profile,
+// e.g. after a scoring change or to repair scores written by older code
+export const recomputeRiskScores = async (input: RecomputeRiskScoresInput = {}): Promise<RecomputeRiskScoresResult> => {
+  try {
+    const baseQuery = db.select({ id: containersTable.id }).from(containersTable);
+
+    const containers = input.container_id !== undefined
+      ? await baseQuery.where(eq(containersTable.id, input.container_id)).execute()
+      : await baseQuery.execute();
+
+    if (input.container_id !== undefined && containers.length === 0) {
+      throw notFoundError('Container', input.container_id);
+    }
+
+    let issuesUpdated = 0;
+
+    for (const container of containers) {
+      const result = await recomputeContainerRiskScores(container.id);
+      issuesUpdated += result.issues_updated;
+    }
+
+    return {
+      containers_updated: containers.length,
+      issues_updated: issuesUpdated
+    };
+  } catch (error) {
+    console.error('Risk score recomputation failed:', error);
+    throw error;
+  }
+};
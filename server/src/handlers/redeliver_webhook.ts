@@ -0,0 +1,48 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { type WebhookDelivery } from '../schema';
+import { notFoundError } from '../errors';
+import { sendWebhookDelivery, webhookClaimLease } from '../webhooks/delivery';
+import { loadWebhookSubscription } from '../webhooks/subscriptions';
+import { eq } from 'drizzle-orm';
+
+// Sends the event of a logged delivery again as a new delivery, with the same
+// event id and payload, and returns it after the first attempt. Failed
+// attempts are retried like any other delivery.
+export const redeliverWebhook = async (deliveryId: number): Promise<WebhookDelivery> => {
+  try {
+    const deliveries = await db.select()
+      .from(webhookDeliveriesTable)
+      .where(eq(webhookDeliveriesTable.id, deliveryId))
+      .execute();
+
+    if (deliveries.length === 0) {
+      throw notFoundError('Webhook delivery', deliveryId);
+    }
+    const [original] = deliveries;
+
+    const subscription = await loadWebhookSubscription(original.subscription_id);
+    if (!subscription.is_active) {
+      throw new TRPCError({ code: 'PRECONDITION_FAILED', message: `Webhook subscription ${subscription.id} is disabled` });
+    }
+
+    // Inserted as claimed, so the worker leaves the first attempt to this call
+    const created = await db.insert(webhookDeliveriesTable)
+      .values({
+        subscription_id: original.subscription_id,
+        event_id: original.event_id,
+        event_type: original.event_type,
+        payload: original.payload,
+        next_attempt_at: new Date(Date.now() + webhookClaimLease(1)),
+        redelivery_of: original.id
+      })
+      .returning()
+      .execute();
+
+    return await sendWebhookDelivery(created[0], subscription) as WebhookDelivery;
+  } catch (error) {
+    console.error('Webhook redelivery failed:', error);
+    throw error;
+  }
+};
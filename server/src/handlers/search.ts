@@ -0,0 +1,177 @@
+import { db } from '../db';
+import { containersTable, searchColumns, searchVector } from '../db/schema';
+import { type SearchEntityType, type SearchInput, type SearchResult, type SearchResultPage } from '../schema';
+import { assertPermission, hasPermission, type Actor, type Permission } from '../auth/permissions';
+import { notFoundError } from '../errors';
+import { TRPCError } from '@trpc/server';
+import { and, eq, sql, type SQL } from 'drizzle-orm';
+
+interface SearchTarget {
+  table: keyof typeof searchColumns;
+  permission: Permission;
+  title: string;
+  status: string | null;
+  severity: boolean;
+  archivable: boolean; // Has is_active; issues are never archived themselves
+}
+
+const searchTargets: Record<SearchEntityType, SearchTarget> = {
+  Issue: { table: 'security_issues', permission: 'issues:read', title: 'title', status: 'status', severity: true, archivable: false },
+  Violation: { table: 'security_violations', permission: 'violations:read', title: 'title', status: 'status', severity: true, archivable: true },
+  Review: { table: 'security_reviews', permission: 'reviews:read', title: 'title', status: 'status', severity: false, archivable: true },
+  Control: { table: 'security_controls', permission: 'controls:read', title: 'name', status: 'implementation_status', severity: false, archivable: true },
+  Component: { table: 'architecture_components', permission: 'components:read', title: 'name', status: null, severity: false, archivable: true }
+};
+
+// ts_headline wraps matches in these; they are swapped for <mark> once the
+// text around them has been escaped
+const START = '\u0002';
+const STOP = '\u0003';
+const TITLE_HEADLINE = `StartSel="${START}", StopSel="${STOP}", HighlightAll=true`;
+const SNIPPET_HEADLINE = `StartSel="${START}", StopSel="${STOP}", MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "`;
+
+const toHighlight = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    .replace(new RegExp(START, 'g'), '<mark>')
+    .replace(new RegExp(STOP, 'g'), '</mark>');
+
+// Results are ordered by rank, then recency, then type and id, which are only
+// unique together. Cursors carry the last result's values of all four, with
+// updated_at as Postgres prints it so no precision is lost, as base64url JSON.
+interface SearchCursor {
+  rank: number;
+  updated_at: string;
+  entity_type: SearchEntityType;
+  id: number;
+}
+
+const decodeSearchCursor = (cursor: string): SearchCursor => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+
+  const candidate = decoded as Partial<SearchCursor> | null;
+  if (
+    typeof candidate !== 'object' || candidate === null ||
+    typeof candidate.rank !== 'number' ||
+    typeof candidate.updated_at !== 'string' ||
+    !(typeof candidate.entity_type === 'string' && candidate.entity_type in searchTargets) ||
+    !Number.isInteger(candidate.id)
+  ) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+  return candidate as SearchCursor;
+};
+
+const encodeSearchCursor = (cursor: SearchCursor): string => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+// Hits after the cursor in the result order
+const afterSearchCursor = (cursor: SearchCursor): SQL => sql`(hits.rank < ${cursor.rank}::real
+  or (hits.rank = ${cursor.rank}::real and (hits.updated_at < ${cursor.updated_at}::timestamp
+    or (hits.updated_at = ${cursor.updated_at}::timestamp and (hits.entity_type > ${cursor.entity_type}
+      or (hits.entity_type = ${cursor.entity_type} and hits.id > ${cursor.id}))))))`;
+
+// One branch of the union: the matching rows of a table with their rank and
+// the text the snippet is taken from
+const targetQuery = (type: SearchEntityType, query: SQL, containerId: number | undefined): SQL => {
+  const target = searchTargets[type];
+  const columns = searchColumns[target.table];
+  const column = (name: string) => `"${target.table}"."${name}"`;
+  const vector = searchVector(columns, target.table);
+  const document = [...columns.B, ...columns.C].map(column).join(', ');
+
+  return sql`select ${type}::text as entity_type,
+      ${sql.raw(column('id'))} as id,
+      ${sql.raw(column(target.title))} as title,
+      ${sql.raw(column('container_id'))} as container_id,
+      ${sql.raw(target.status ? `${column(target.status)}::text` : 'null::text')} as status,
+      ${sql.raw(target.severity ? `${column('severity')}::text` : 'null::text')} as severity,
+      ${sql.raw(target.archivable ? column('is_active') : 'true')} as is_active,
+      ${sql.raw(column('updated_at'))} as updated_at,
+      ts_rank_cd(${vector}, ${query}) as rank,
+      concat_ws(E'\\n', ${sql.raw(document)}) as document
+    from ${sql.raw(`"${target.table}"`)}
+    where ${vector} @@ ${query}
+      ${containerId !== undefined ? sql`and ${sql.raw(column('container_id'))} = ${containerId}` : sql``}`;
+};
+
+// Ranks and highlights matches of a web-search style query. Entity types the
+// caller's role may not read are left out, or refused when asked for by name;
+// archived records and those in archived containers are skipped unless
+// include_archived is set.
+export const search = async (input: SearchInput, actor: Actor): Promise<SearchResultPage> => {
+  try {
+    if (input.types) {
+      input.types.forEach(type => assertPermission(actor.role, searchTargets[type].permission));
+    }
+    const types = (input.types ? [...new Set(input.types)] : Object.keys(searchTargets) as SearchEntityType[])
+      .filter(type => hasPermission(actor.role, searchTargets[type].permission));
+
+    if (input.container_id !== undefined) {
+      const containers = await db.select({ id: containersTable.id })
+        .from(containersTable)
+        .where(eq(containersTable.id, input.container_id))
+        .execute();
+
+      if (containers.length === 0) {
+        throw notFoundError('Container', input.container_id);
+      }
+    }
+
+    if (types.length === 0) {
+      return { items: [], total: 0, next_cursor: null };
+    }
+
+    const query = sql`websearch_to_tsquery('english'::regconfig, ${input.query})`;
+    const hits = sql`(${sql.join(types.map(type => targetQuery(type, query, input.container_id)), sql` union all `)}) hits
+      left join "containers" on "containers"."id" = hits.container_id`;
+    const visible = input.include_archived ? [] : [sql`hits.is_active and ("containers"."id" is null or "containers"."is_active")`];
+    const whereAll = (conditions: SQL[]): SQL => (conditions.length > 0 ? sql`where ${and(...conditions)}` : sql``);
+
+    const counted = await db.execute<{ total: number }>(sql`select count(*)::int as total from ${hits} ${whereAll(visible)}`);
+
+    const after = input.cursor !== undefined ? [afterSearchCursor(decodeSearchCursor(input.cursor))] : [];
+    const page = await db.execute<Omit<SearchResult, 'updated_at' | 'title_highlight' | 'snippet'> & {
+      updated_at: string;
+      title_highlight: string;
+      snippet: string;
+    }>(sql`
+      select page.entity_type, page.id, page.title, page.container_id, page.container_name, page.status, page.severity,
+        page.rank, page.updated_at,
+        ts_headline('english'::regconfig, page.title, ${query}, ${TITLE_HEADLINE}) as title_highlight,
+        ts_headline('english'::regconfig, page.document, ${query}, ${SNIPPET_HEADLINE}) as snippet
+      from (
+        select hits.*, "containers"."name" as container_name
+        from ${hits}
+        ${whereAll([...visible, ...after])}
+        order by hits.rank desc, hits.updated_at desc, hits.entity_type, hits.id
+        limit ${input.limit + 1}
+      ) page
+      order by page.rank desc, page.updated_at desc, page.entity_type, page.id`);
+
+    // One row more than the page tells whether another page follows
+    const rows = page.rows.slice(0, input.limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      items: rows.map(row => ({
+        ...row,
+        // updated_at is a timestamp without time zone holding UTC, which
+        // Date would read as local time
+        updated_at: new Date(`${row.updated_at}+0000`),
+        title_highlight: toHighlight(row.title_highlight),
+        snippet: toHighlight(row.snippet)
+      })),
+      total: counted.rows[0].total,
+      next_cursor: page.rows.length > input.limit && last
+        ? encodeSearchCursor({ rank: last.rank, updated_at: last.updated_at, entity_type: last.entity_type, id: last.id })
+        : null
+    };
+  } catch (error) {
+    console.error('Search failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { containersTable } from '../db/schema';
+import { type Container, type SetContainerScoringProfileInput } from '../schema';
+import { notFoundError } from '../errors';
+import { getScoringProfileById, recomputeContainerRiskScores } from '../scoring/risk_scoring';
+import { eq } from 'drizzle-orm';
+
+export const setContainerScoringProfile = async (input: SetContainerScoringProfileInput, actorId: number): Promise<Container> => {
+  try {
+    // Throws when the profile does not exist; null selects the built-in default
+    await getScoringProfileById(input.scoring_profile_id);
+
+    const result = await db.update(containersTable)
+      .set({
+        scoring_profile_id: input.scoring_profile_id,
+        updated_by: actorId,
+        updated_at: new Date()
+      })
+      .where(eq(containersTable.id, input.container_id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw notFoundError('Container', input.container_id);
+    }
+
+    // Existing issue scores were computed with the old profile
+    const { container } = await recomputeContainerRiskScores(input.container_id);
+    return container;
+  } catch (error) {
+    console.error('Setting container scoring profile failed:', error);
+    throw error;
+  }
+};
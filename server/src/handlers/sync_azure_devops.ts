@@ -0,0 +1,29 @@
+import { type ExternalPullResult, type ExternalPushResult, type ExternalSyncInput } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { type AzureDevOpsConfig, azureDevOpsConfigFromEnv, requireAzureDevOpsConfig } from '../integrations/azure_devops';
+import { pullContainerChanges, pushContainerIssues } from '../integrations/azure_devops_sync';
+
+export const pushIssuesToAzureDevOps = async (
+  input: ExternalSyncInput,
+  config: AzureDevOpsConfig | null = azureDevOpsConfigFromEnv()
+): Promise<ExternalPushResult> => {
+  try {
+    return await pushContainerIssues(input.container_id, requireAzureDevOpsConfig(config));
+  } catch (error) {
+    console.error('Azure DevOps push failed:', error);
+    throw error;
+  }
+};
+
+export const pullIssuesFromAzureDevOps = async (
+  input: ExternalSyncInput,
+  actor: Actor,
+  config: AzureDevOpsConfig | null = azureDevOpsConfigFromEnv()
+): Promise<ExternalPullResult> => {
+  try {
+    return await pullContainerChanges(input.container_id, requireAzureDevOpsConfig(config), actor);
+  } catch (error) {
+    console.error('Azure DevOps pull failed:', error);
+    throw error;
+  }
+};
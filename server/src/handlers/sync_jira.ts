@@ -0,0 +1,31 @@
+import { type ExternalPullResult, type ExternalPushResult, type ExternalSyncInput } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { type JiraConfig, createJiraClient, jiraConfigFromEnv, requireJiraConfig } from '../integrations/jira';
+import { pullContainerChanges, pushContainerIssues } from '../integrations/jira_sync';
+
+export const pushIssuesToJira = async (
+  input: ExternalSyncInput,
+  config: JiraConfig | null = jiraConfigFromEnv()
+): Promise<ExternalPushResult> => {
+  try {
+    const client = createJiraClient(requireJiraConfig(config));
+    return await pushContainerIssues(input.container_id, client);
+  } catch (error) {
+    console.error('Jira push failed:', error);
+    throw error;
+  }
+};
+
+export const pullIssuesFromJira = async (
+  input: ExternalSyncInput,
+  actor: Actor,
+  config: JiraConfig | null = jiraConfigFromEnv()
+): Promise<ExternalPullResult> => {
+  try {
+    const client = createJiraClient(requireJiraConfig(config));
+    return await pullContainerChanges(input.container_id, client, actor);
+  } catch (error) {
+    console.error('Jira pull failed:', error);
+    throw error;
+  }
+};
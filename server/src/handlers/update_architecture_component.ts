@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { architectureComponentsTable } from '../db/schema';
+import { type UpdateArchitectureComponentInput, type ArchitectureComponent } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const updateArchitectureComponent = async (input: UpdateArchitectureComponentInput, actorId: number): Promise<ArchitectureComponent> => {
+  try {
+    // Prepare update values with only provided fields
+    const updateValues: any = {
+      updated_by: actorId,
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateValues.name = input.name;
+    if (input.component_type !== undefined) updateValues.component_type = input.component_type;
+    if (input.description !== undefined) updateValues.description = input.description;
+    if (input.technology_stack !== undefined) updateValues.technology_stack = input.technology_stack;
+    if (input.security_domain !== undefined) updateValues.security_domain = input.security_domain;
+    if (input.trust_boundary !== undefined) updateValues.trust_boundary = input.trust_boundary;
+    if (input.network_zone !== undefined) updateValues.network_zone = input.network_zone;
+    if (input.data_classification !== undefined) updateValues.data_classification = input.data_classification;
+    if (input.position_x !== undefined) updateValues.position_x = input.position_x;
+    if (input.position_y !== undefined) updateValues.position_y = input.position_y;
+
+    const result = await db.update(architectureComponentsTable)
+      .set(updateValues)
+      .where(eq(architectureComponentsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw notFoundError('Architecture component', input.id);
+    }
+
+    // Convert real fields back to numbers before returning
+    const component = result[0];
+    return {
+      ...component,
+      position_x: component.position_x !== null ? parseFloat(component.position_x.toString()) : null,
+      position_y: component.position_y !== null ? parseFloat(component.position_y.toString()) : null
+    };
+  } catch (error) {
+    console.error('Architecture component update failed:', error);
+    throw error;
+  }
+};
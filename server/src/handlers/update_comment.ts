@@ -0,0 +1,42 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { type Comment, type UpdateCommentInput } from '../schema';
+import { notFoundError } from '../errors';
+import { type Actor } from '../auth/permissions';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export const updateComment = async (input: UpdateCommentInput, actor: Actor): Promise<Comment> => {
+  try {
+    const comments = await db.select()
+      .from(commentsTable)
+      .where(and(eq(commentsTable.id, input.id), isNull(commentsTable.deleted_at)))
+      .execute();
+
+    if (comments.length === 0) {
+      throw notFoundError('Comment', input.id);
+    }
+
+    // Moderators may delete other people's comments but never reword them
+    if (comments[0].author_id !== actor.id) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Only the author can edit a comment'
+      });
+    }
+
+    const result = await db.update(commentsTable)
+      .set({
+        body: input.body,
+        edited_at: new Date()
+      })
+      .where(eq(commentsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Comment update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { containersTable } from '../db/schema';
+import { type UpdateContainerInput, type Container } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const updateContainer = async (input: UpdateContainerInput, actorId: number): Promise<Container> => {
+  try {
+    // Prepare update values with only provided fields
+    const updateValues: any = {
+      updated_by: actorId,
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateValues.name = input.name;
+    if (input.description !== undefined) updateValues.description = input.description;
+    if (input.type !== undefined) updateValues.type = input.type;
+    if (input.external_id !== undefined) updateValues.external_id = input.external_id;
+    if (input.external_system !== undefined) updateValues.external_system = input.external_system;
+
+    const result = await db.update(containersTable)
+      .set(updateValues)
+      .where(eq(containersTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw notFoundError('Container', input.id);
+    }
+
+    const container = result[0];
+    return {
+      ...container,
+      risk_score: parseFloat(container.risk_score.toString()) // Convert numeric field to number
+    };
+  } catch (error) {
+    console.error('Container update failed:', error);
+    throw error;
+  }
+};
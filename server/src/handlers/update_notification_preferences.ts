@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { notificationPreferencesTable } from '../db/schema';
+import { type NotificationPreferences, type UpdateNotificationPreferencesInput } from '../schema';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../notifications/emails';
+
+// Saves the signed-in user's email preferences; fields left out keep their
+// current value
+export const updateNotificationPreferences = async (
+  input: UpdateNotificationPreferencesInput,
+  userId: number
+): Promise<NotificationPreferences> => {
+  try {
+    const changes = {
+      ...(input.assignment_emails !== undefined ? { assignment_emails: input.assignment_emails } : {}),
+      ...(input.critical_violation_emails !== undefined ? { critical_violation_emails: input.critical_violation_emails } : {}),
+      ...(input.daily_digest !== undefined ? { daily_digest: input.daily_digest } : {}),
+      updated_at: new Date()
+    };
+
+    const result = await db.insert(notificationPreferencesTable)
+      .values({ user_id: userId, ...DEFAULT_NOTIFICATION_PREFERENCES, ...changes })
+      .onConflictDoUpdate({ target: notificationPreferencesTable.user_id, set: changes })
+      .returning()
+      .execute();
+
+    const { id, ...preferences } = result[0];
+    return preferences;
+  } catch (error) {
+    console.error('Notification preferences update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { containersTable, savedViewsTable } from '../db/schema';
+import { type SavedView, type UpdateSavedViewInput } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { assertCanChangeView, loadVisibleView, parseViewContent, toSavedView, viewContainerId } from '../views/saved_views';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+// The entity type is fixed when the view is created; filter, sort and columns
+// are checked against it
+export const updateSavedView = async (input: UpdateSavedViewInput, actor: Actor): Promise<SavedView> => {
+  try {
+    const view = await loadVisibleView(input.id, actor);
+    assertCanChangeView(view, actor);
+
+    const content = parseViewContent(view.entity_type, {
+      filter: input.filter ?? view.filter,
+      sort: input.sort ?? view.sort,
+      columns: input.columns ?? view.columns
+    }, actor);
+    const visibility = input.visibility ?? view.visibility;
+    const containerId = viewContainerId(visibility, input.container_id !== undefined ? input.container_id : view.container_id);
+
+    if (containerId !== null && containerId !== view.container_id) {
+      const containers = await db.select({ id: containersTable.id })
+        .from(containersTable)
+        .where(eq(containersTable.id, containerId))
+        .execute();
+
+      if (containers.length === 0) {
+        throw notFoundError('Container', containerId);
+      }
+    }
+
+    const updateValues: Partial<typeof savedViewsTable.$inferInsert> = {
+      visibility,
+      container_id: containerId,
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateValues.name = input.name;
+    if (input.filter !== undefined) updateValues.filter = content.filter;
+    if (input.sort !== undefined) updateValues.sort = content.sort;
+    if (input.columns !== undefined) updateValues.columns = [...new Set(content.columns)];
+
+    const result = await db.update(savedViewsTable)
+      .set(updateValues)
+      .where(eq(savedViewsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toSavedView(result[0], view.pinned);
+  } catch (error) {
+    console.error('Saved view update failed:', error);
+    throw error;
+  }
+};
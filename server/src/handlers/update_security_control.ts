@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { securityControlsTable } from '../db/schema';
+import { type UpdateSecurityControlInput, type SecurityControl } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const updateSecurityControl = async (input: UpdateSecurityControlInput, actorId: number): Promise<SecurityControl> => {
+  try {
+    // Prepare update values with only provided fields
+    const updateValues: any = {
+      updated_by: actorId,
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateValues.name = input.name;
+    if (input.description !== undefined) updateValues.description = input.description;
+    if (input.control_type !== undefined) updateValues.control_type = input.control_type;
+    if (input.implementation_status !== undefined) updateValues.implementation_status = input.implementation_status;
+    if (input.effectiveness_rating !== undefined) updateValues.effectiveness_rating = input.effectiveness_rating;
+    if (input.framework_reference !== undefined) updateValues.framework_reference = input.framework_reference;
+    if (input.control_family !== undefined) updateValues.control_family = input.control_family;
+    if (input.implementation_notes !== undefined) updateValues.implementation_notes = input.implementation_notes;
+    if (input.testing_frequency !== undefined) updateValues.testing_frequency = input.testing_frequency;
+    if (input.last_tested !== undefined) updateValues.last_tested = input.last_tested;
+
+    const result = await db.update(securityControlsTable)
+      .set(updateValues)
+      .where(eq(securityControlsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw notFoundError('Security control', input.id);
+    }
+
+    // Convert numeric fields back to numbers before returning
+    const securityControl = result[0];
+    return {
+      ...securityControl,
+      effectiveness_rating: securityControl.effectiveness_rating !== null ? parseFloat(securityControl.effectiveness_rating.toString()) : null
+    };
+  } catch (error) {
+    console.error('Security control update failed:', error);
+    throw error;
+  }
+};
@@ -1,143 +1,190 @@
 import { db } from '../db';
-import { securityIssuesTable, containersTable } from '../db/schema';
+import { securityIssuesTable } from '../db/schema';
 import { type UpdateSecurityIssueInput, type SecurityIssue } from '../schema';
-import { eq, avg } from 'drizzle-orm';
-
-// Calculate overall risk score based on impact dimensions
-const calculateRiskScore = (
-  confidentiality: number,
-  integrity: number,
-  availability: number,
-  compliance: number,
-  thirdParty: number
-): number => {
-  // Weighted average with CIA triad getting higher weight
-  const ciaWeight = 0.25; // 25% each for C, I, A
-  const complianceWeight = 0.15; // 15% for compliance
-  const thirdPartyWeight = 0.1; // 10% for third party
-
-  const riskScore = 
-    (confidentiality * ciaWeight) +
-    (integrity * ciaWeight) +
-    (availability * ciaWeight) +
-    (compliance * complianceWeight) +
-    (thirdParty * thirdPartyWeight);
-
-  return Math.round(riskScore * 100) / 100; // Round to 2 decimal places
-};
-
-// Update container risk score based on average of all issues
-const updateContainerRiskScore = async (containerId: number): Promise<void> => {
+import { notFoundError } from '../errors';
+import { type Actor } from '../auth/permissions';
+import {
+  calculateIssueRiskScore,
+  getContainerScoringProfile,
+  recalculateContainerRiskScore
+} from '../scoring/risk_scoring';
+import { assessCvssVector, cvssIssueColumns } from '../cvss/cvss';
+import { DEFAULT_ISSUE_WORKFLOW, assertStatusTransition, recordStatusChange } from '../workflow/issue_workflow';
+import { queueWorkItemNotifications } from '../notifications/emails';
+import { assertValidChildren, assertValidParent } from '../hierarchy/issue_hierarchy';
+import { diffActivity, recordActivity } from '../activity/activity';
+import { eq } from 'drizzle-orm';
+
+export const updateSecurityIssue = async (requested: UpdateSecurityIssueInput, actor: Actor): Promise<SecurityIssue> => {
   try {
-    const result = await db.select({ avgRisk: avg(securityIssuesTable.risk_score) })
-      .from(securityIssuesTable)
-      .where(eq(securityIssuesTable.container_id, containerId))
-      .execute();
-
-    const averageRiskScore = result[0]?.avgRisk || 0;
-    const roundedRiskScore = Math.round(Number(averageRiskScore) * 100) / 100;
-
-    await db.update(containersTable)
-      .set({ 
-        risk_score: roundedRiskScore,
+    const { updated: updatedIssue, rescore } = await db.transaction(async (tx) => {
+      // Lock the current issue so the workflow checks and the activity diff see
+      // the row this update replaces
+      const currentIssue = await tx.select()
+        .from(securityIssuesTable)
+        .where(eq(securityIssuesTable.id, requested.id))
+        .for('update')
+        .execute();
+
+      if (currentIssue.length === 0) {
+        throw notFoundError('Security issue', requested.id);
+      }
+
+      const current = currentIssue[0];
+
+      // A CVSS vector, new or already stored, is authoritative for severity,
+      // C/I/A impacts and attack complexity; manual edits to those are overridden
+      const vector = requested.cvss_vector !== undefined ? requested.cvss_vector : current.cvss_vector;
+      const cvss = vector ? assessCvssVector(vector) : null;
+      const derivedFieldsTouched =
+        requested.cvss_vector !== undefined ||
+        requested.severity !== undefined ||
+        requested.confidentiality_impact !== undefined ||
+        requested.integrity_impact !== undefined ||
+        requested.availability_impact !== undefined ||
+        requested.attack_complexity !== undefined;
+
+      const input: UpdateSecurityIssueInput = cvss && derivedFieldsTouched
+        ? {
+          ...requested,
+          severity: cvss.severity,
+          confidentiality_impact: cvss.confidentiality_impact,
+          integrity_impact: cvss.integrity_impact,
+          availability_impact: cvss.availability_impact,
+          attack_complexity: cvss.attack_complexity
+        }
+        : requested;
+
+      // Status changes must follow the workflow, including who may make them
+      const statusChanged = input.status !== undefined && input.status !== current.status;
+      if (input.status !== undefined && statusChanged) {
+        assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, {
+          from: current.status,
+          to: input.status,
+          severity: current.severity,
+          new_severity: input.severity,
+          values: {
+            resolution_note: input.resolution_note,
+            assigned_to: input.assigned_to !== undefined ? input.assigned_to : current.assigned_to
+          }
+        }, actor);
+      }
+
+      // Re-check the hierarchy when the issue moves or changes level
+      if (input.hierarchy !== undefined || input.parent_issue_id !== undefined) {
+        const hierarchy = input.hierarchy ?? current.hierarchy;
+        await assertValidParent({
+          id: current.id,
+          hierarchy,
+          container_id: current.container_id,
+          parent_issue_id: input.parent_issue_id !== undefined ? input.parent_issue_id : current.parent_issue_id
+        });
+        if (hierarchy !== current.hierarchy) {
+          await assertValidChildren(current.id, hierarchy);
+        }
+      }
+
+      // Prepare update values with only provided fields
+      const updateValues: any = {
+        updated_by: actor.id,
         updated_at: new Date()
-      })
-      .where(eq(containersTable.id, containerId))
-      .execute();
-  } catch (error) {
-    console.error('Container risk score update failed:', error);
-    // Don't throw - container risk update failure shouldn't block issue update
-  }
-};
-
-export const updateSecurityIssue = async (input: UpdateSecurityIssueInput): Promise<SecurityIssue> => {
-  try {
-    // First, get the current issue to check what's changing
-    const currentIssue = await db.select()
-      .from(securityIssuesTable)
-      .where(eq(securityIssuesTable.id, input.id))
-      .execute();
-
-    if (currentIssue.length === 0) {
-      throw new Error(`Security issue with id ${input.id} not found`);
-    }
-
-    const current = currentIssue[0];
-
-    // Prepare update values with only provided fields
-    const updateValues: any = {
-      updated_at: new Date()
-    };
-
-    // Copy provided fields to update values
-    if (input.title !== undefined) updateValues.title = input.title;
-    if (input.description !== undefined) updateValues.description = input.description;
-    if (input.severity !== undefined) updateValues.severity = input.severity;
-    if (input.status !== undefined) updateValues.status = input.status;
-    if (input.classification !== undefined) updateValues.classification = input.classification;
-    if (input.assigned_to !== undefined) updateValues.assigned_to = input.assigned_to;
-    if (input.mitre_attack_id !== undefined) updateValues.mitre_attack_id = input.mitre_attack_id;
-    if (input.mitre_attack_tactic !== undefined) updateValues.mitre_attack_tactic = input.mitre_attack_tactic;
-    if (input.mitre_attack_technique !== undefined) updateValues.mitre_attack_technique = input.mitre_attack_technique;
-    if (input.linddun_category !== undefined) updateValues.linddun_category = input.linddun_category;
-    if (input.attack_complexity !== undefined) updateValues.attack_complexity = input.attack_complexity;
-    if (input.threat_modeling_notes !== undefined) updateValues.threat_modeling_notes = input.threat_modeling_notes;
-    if (input.compensating_controls !== undefined) updateValues.compensating_controls = input.compensating_controls;
-
-    // Handle impact dimensions and recalculate risk score if any impact changed
-    const impactChanged = 
-      input.confidentiality_impact !== undefined ||
-      input.integrity_impact !== undefined ||
-      input.availability_impact !== undefined ||
-      input.compliance_impact !== undefined ||
-      input.third_party_risk !== undefined;
-
-    if (impactChanged) {
-      // Use provided values or current values for calculation
-      const confidentiality = input.confidentiality_impact !== undefined 
-        ? input.confidentiality_impact 
-        : current.confidentiality_impact;
+      };
+
+      // Copy provided fields to update values
+      if (input.title !== undefined) updateValues.title = input.title;
+      if (input.description !== undefined) updateValues.description = input.description;
+      if (input.severity !== undefined) updateValues.severity = input.severity;
+      if (input.status !== undefined) updateValues.status = input.status;
+      if (input.classification !== undefined) updateValues.classification = input.classification;
+      if (input.hierarchy !== undefined) updateValues.hierarchy = input.hierarchy;
+      if (input.parent_issue_id !== undefined) updateValues.parent_issue_id = input.parent_issue_id;
+      if (input.assigned_to !== undefined) updateValues.assigned_to = input.assigned_to;
+      if (input.mitre_attack_id !== undefined) updateValues.mitre_attack_id = input.mitre_attack_id;
+      if (input.mitre_attack_tactic !== undefined) updateValues.mitre_attack_tactic = input.mitre_attack_tactic;
+      if (input.mitre_attack_technique !== undefined) updateValues.mitre_attack_technique = input.mitre_attack_technique;
+      if (input.linddun_category !== undefined) updateValues.linddun_category = input.linddun_category;
+      if (input.attack_complexity !== undefined) updateValues.attack_complexity = input.attack_complexity;
+      if (input.threat_modeling_notes !== undefined) updateValues.threat_modeling_notes = input.threat_modeling_notes;
+      if (input.compensating_controls !== undefined) updateValues.compensating_controls = input.compensating_controls;
+      if (input.tags !== undefined) updateValues.tags = input.tags;
+      // A status change replaces the note, so reopening clears the previous resolution
+      if (input.resolution_note !== undefined || statusChanged) updateValues.resolution_note = input.resolution_note ?? null;
+      if (input.cvss_vector !== undefined) Object.assign(updateValues, cvssIssueColumns(cvss));
+
+      // Handle impact dimensions and recalculate risk score if any impact changed
+      const impactChanged = 
+        input.confidentiality_impact !== undefined ||
+        input.integrity_impact !== undefined ||
+        input.availability_impact !== undefined ||
+        input.compliance_impact !== undefined ||
+        input.third_party_risk !== undefined;
+
+      if (impactChanged) {
+        // Use provided values or current values for calculation
+        const confidentiality = input.confidentiality_impact !== undefined 
+          ? input.confidentiality_impact 
+          : current.confidentiality_impact;
       
-      const integrity = input.integrity_impact !== undefined 
-        ? input.integrity_impact 
-        : current.integrity_impact;
+        const integrity = input.integrity_impact !== undefined 
+          ? input.integrity_impact 
+          : current.integrity_impact;
       
-      const availability = input.availability_impact !== undefined 
-        ? input.availability_impact 
-        : current.availability_impact;
+        const availability = input.availability_impact !== undefined 
+          ? input.availability_impact 
+          : current.availability_impact;
       
-      const compliance = input.compliance_impact !== undefined 
-        ? input.compliance_impact 
-        : current.compliance_impact;
+        const compliance = input.compliance_impact !== undefined 
+          ? input.compliance_impact 
+          : current.compliance_impact;
       
-      const thirdParty = input.third_party_risk !== undefined 
-        ? input.third_party_risk 
-        : current.third_party_risk;
-
-      // Set impact values in update
-      if (input.confidentiality_impact !== undefined) updateValues.confidentiality_impact = input.confidentiality_impact;
-      if (input.integrity_impact !== undefined) updateValues.integrity_impact = input.integrity_impact;
-      if (input.availability_impact !== undefined) updateValues.availability_impact = input.availability_impact;
-      if (input.compliance_impact !== undefined) updateValues.compliance_impact = input.compliance_impact;
-      if (input.third_party_risk !== undefined) updateValues.third_party_risk = input.third_party_risk;
-
-      // Calculate and set new risk score
-      const newRiskScore = calculateRiskScore(confidentiality, integrity, availability, compliance, thirdParty);
-      updateValues.risk_score = newRiskScore;
-    }
-
-    // Update the security issue
-    const result = await db.update(securityIssuesTable)
-      .set(updateValues)
-      .where(eq(securityIssuesTable.id, input.id))
-      .returning()
-      .execute();
-
-    const updatedIssue = result[0];
-
-    // If risk score changed, update container risk score
-    if (impactChanged) {
-      await updateContainerRiskScore(updatedIssue.container_id);
+        const thirdParty = input.third_party_risk !== undefined 
+          ? input.third_party_risk 
+          : current.third_party_risk;
+
+        // Set impact values in update
+        if (input.confidentiality_impact !== undefined) updateValues.confidentiality_impact = input.confidentiality_impact;
+        if (input.integrity_impact !== undefined) updateValues.integrity_impact = input.integrity_impact;
+        if (input.availability_impact !== undefined) updateValues.availability_impact = input.availability_impact;
+        if (input.compliance_impact !== undefined) updateValues.compliance_impact = input.compliance_impact;
+        if (input.third_party_risk !== undefined) updateValues.third_party_risk = input.third_party_risk;
+
+        // Calculate and set new risk score with the container's profile
+        const profile = await getContainerScoringProfile(current.container_id);
+        updateValues.risk_score = calculateIssueRiskScore({
+          confidentiality_impact: confidentiality,
+          integrity_impact: integrity,
+          availability_impact: availability,
+          compliance_impact: compliance,
+          third_party_risk: thirdParty
+        }, profile);
+      }
+
+      // Update the security issue and record the status change and activity together
+      const result = await tx.update(securityIssuesTable)
+        .set(updateValues)
+        .where(eq(securityIssuesTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (statusChanged) {
+        await recordStatusChange(tx, {
+          issue_id: current.id,
+          from_status: current.status,
+          to_status: result[0].status,
+          note: input.resolution_note ?? null,
+          changed_by: actor.id
+        });
+      }
+      await recordActivity(tx, diffActivity('Issue', current, result[0], actor.id));
+      await queueWorkItemNotifications(tx, 'Issue', current, result[0], actor.id);
+
+      // The rollup depends on issue scores, severities and which issues are still active
+      const severityChanged = input.severity !== undefined && input.severity !== current.severity;
+      return { updated: result[0], rescore: impactChanged || severityChanged || statusChanged };
+    });
+
+    if (rescore) {
+      await recalculateContainerRiskScore(updatedIssue.container_id);
     }
 
     // Return with proper numeric types
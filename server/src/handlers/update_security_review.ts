@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { securityReviewsTable, usersTable, containersTable } from '../db/schema';
+import { type UpdateSecurityReviewInput, type SecurityReview } from '../schema';
+import { notFoundError } from '../errors';
+import { diffActivity, recordActivity } from '../activity/activity';
+import { eq } from 'drizzle-orm';
+
+export const updateSecurityReview = async (input: UpdateSecurityReviewInput, actorId: number): Promise<SecurityReview> => {
+  try {
+    const currentReview = await db.select()
+      .from(securityReviewsTable)
+      .where(eq(securityReviewsTable.id, input.id))
+      .execute();
+
+    if (currentReview.length === 0) {
+      throw notFoundError('Security review', input.id);
+    }
+
+    // Verify container exists if one is assigned
+    if (input.container_id) {
+      const container = await db.select()
+        .from(containersTable)
+        .where(eq(containersTable.id, input.container_id))
+        .execute();
+
+      if (container.length === 0) {
+        throw new Error(`Container with id ${input.container_id} does not exist`);
+      }
+    }
+
+    // Verify reviewer exists if one is assigned
+    if (input.reviewer_id) {
+      const reviewer = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, input.reviewer_id))
+        .execute();
+
+      if (reviewer.length === 0) {
+        throw new Error(`Reviewer with id ${input.reviewer_id} does not exist`);
+      }
+    }
+
+    // Prepare update values with only provided fields
+    const updateValues: any = {
+      updated_by: actorId,
+      updated_at: new Date()
+    };
+
+    if (input.title !== undefined) updateValues.title = input.title;
+    if (input.description !== undefined) updateValues.description = input.description;
+    if (input.document_name !== undefined) updateValues.document_name = input.document_name;
+    if (input.document_url !== undefined) updateValues.document_url = input.document_url;
+    if (input.document_type !== undefined) updateValues.document_type = input.document_type;
+    if (input.status !== undefined) updateValues.status = input.status;
+    if (input.container_id !== undefined) updateValues.container_id = input.container_id;
+    if (input.reviewer_id !== undefined) updateValues.reviewer_id = input.reviewer_id;
+
+    // Update the review and record what changed in its activity feed
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(securityReviewsTable)
+        .set(updateValues)
+        .where(eq(securityReviewsTable.id, input.id))
+        .returning()
+        .execute();
+
+      await recordActivity(tx, diffActivity('Review', currentReview[0], result[0], actorId));
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Security review update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { securityViolationsTable, usersTable, containersTable, securityIssuesTable } from '../db/schema';
+import { type UpdateSecurityViolationInput, type SecurityViolation } from '../schema';
+import { notFoundError } from '../errors';
+import { diffActivity, recordActivity } from '../activity/activity';
+import { queueWorkItemNotifications } from '../notifications/emails';
+import { eq } from 'drizzle-orm';
+
+export const updateSecurityViolation = async (input: UpdateSecurityViolationInput, actorId: number): Promise<SecurityViolation> => {
+  try {
+    const currentViolation = await db.select()
+      .from(securityViolationsTable)
+      .where(eq(securityViolationsTable.id, input.id))
+      .execute();
+
+    if (currentViolation.length === 0) {
+      throw notFoundError('Security violation', input.id);
+    }
+
+    // Validate container exists if one is assigned
+    if (input.container_id !== null && input.container_id !== undefined) {
+      const containerExists = await db.select()
+        .from(containersTable)
+        .where(eq(containersTable.id, input.container_id))
+        .execute();
+
+      if (containerExists.length === 0) {
+        throw new Error(`Container with ID ${input.container_id} does not exist`);
+      }
+    }
+
+    // Validate related issue exists if one is linked
+    if (input.related_issue_id !== null && input.related_issue_id !== undefined) {
+      const issueExists = await db.select()
+        .from(securityIssuesTable)
+        .where(eq(securityIssuesTable.id, input.related_issue_id))
+        .execute();
+
+      if (issueExists.length === 0) {
+        throw new Error(`Security issue with ID ${input.related_issue_id} does not exist`);
+      }
+    }
+
+    // Validate assigned_to user exists if one is assigned
+    if (input.assigned_to !== null && input.assigned_to !== undefined) {
+      const assignedUserExists = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, input.assigned_to))
+        .execute();
+
+      if (assignedUserExists.length === 0) {
+        throw new Error(`Assigned user with ID ${input.assigned_to} does not exist`);
+      }
+    }
+
+    // Prepare update values with only provided fields
+    const updateValues: any = {
+      updated_by: actorId,
+      updated_at: new Date()
+    };
+
+    if (input.title !== undefined) updateValues.title = input.title;
+    if (input.description !== undefined) updateValues.description = input.description;
+    if (input.violation_type !== undefined) updateValues.violation_type = input.violation_type;
+    if (input.severity !== undefined) updateValues.severity = input.severity;
+    if (input.status !== undefined) updateValues.status = input.status;
+    if (input.incident_date !== undefined) updateValues.incident_date = input.incident_date;
+    if (input.detection_method !== undefined) updateValues.detection_method = input.detection_method;
+    if (input.affected_systems !== undefined) updateValues.affected_systems = input.affected_systems;
+    if (input.impact_assessment !== undefined) updateValues.impact_assessment = input.impact_assessment;
+    if (input.remediation_steps !== undefined) updateValues.remediation_steps = input.remediation_steps;
+    if (input.container_id !== undefined) updateValues.container_id = input.container_id;
+    if (input.related_issue_id !== undefined) updateValues.related_issue_id = input.related_issue_id;
+    if (input.assigned_to !== undefined) updateValues.assigned_to = input.assigned_to;
+    if (input.tags !== undefined) updateValues.tags = input.tags;
+
+    // Update the violation and record what changed in its activity feed
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(securityViolationsTable)
+        .set(updateValues)
+        .where(eq(securityViolationsTable.id, input.id))
+        .returning()
+        .execute();
+
+      await recordActivity(tx, diffActivity('Violation', currentViolation[0], result[0], actorId));
+      await queueWorkItemNotifications(tx, 'Violation', currentViolation[0], result[0], actorId);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Security violation update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { containersTable, siemMappingRulesTable } from '../db/schema';
+import { type SiemMappingRule, type UpdateSiemMappingRuleInput } from '../schema';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+// Changes apply to alerts received from then on; the receiver rereads the
+// rules every few seconds. Violations already raised keep their correlation
+// key unless correlation_fields changes, in which case new alerts start new
+// violations.
+export const updateSiemMappingRule = async (input: UpdateSiemMappingRuleInput, actorId: number): Promise<SiemMappingRule> => {
+  try {
+    if (input.container_id !== null && input.container_id !== undefined) {
+      const containers = await db.select({ id: containersTable.id })
+        .from(containersTable)
+        .where(eq(containersTable.id, input.container_id))
+        .execute();
+
+      if (containers.length === 0) {
+        throw notFoundError('Container', input.container_id);
+      }
+    }
+
+    const updateValues: Partial<typeof siemMappingRulesTable.$inferInsert> = {
+      updated_by: actorId,
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateValues.name = input.name;
+    if (input.priority !== undefined) updateValues.priority = input.priority;
+    if (input.is_active !== undefined) updateValues.is_active = input.is_active;
+    if (input.format !== undefined) updateValues.format = input.format;
+    if (input.vendor !== undefined) updateValues.vendor = input.vendor;
+    if (input.product !== undefined) updateValues.product = input.product;
+    if (input.event_pattern !== undefined) updateValues.event_pattern = input.event_pattern;
+    if (input.min_severity !== undefined) updateValues.min_severity = input.min_severity;
+    if (input.action !== undefined) updateValues.action = input.action;
+    if (input.violation_type !== undefined) updateValues.violation_type = input.violation_type;
+    if (input.severity !== undefined) updateValues.severity = input.severity;
+    if (input.container_id !== undefined) updateValues.container_id = input.container_id;
+    if (input.title_template !== undefined) updateValues.title_template = input.title_template;
+    if (input.correlation_fields !== undefined) updateValues.correlation_fields = [...new Set(input.correlation_fields)];
+    if (input.correlation_window_minutes !== undefined) updateValues.correlation_window_minutes = input.correlation_window_minutes;
+
+    const result = await db.update(siemMappingRulesTable)
+      .set(updateValues)
+      .where(eq(siemMappingRulesTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw notFoundError('SIEM mapping rule', input.id);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('SIEM mapping rule update failed:', error);
+    throw error;
+  }
+};
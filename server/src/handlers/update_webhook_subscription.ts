@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { webhookSubscriptionsTable } from '../db/schema';
+import { type UpdateWebhookSubscriptionInput, type WebhookSubscription } from '../schema';
+import { notFoundError } from '../errors';
+import { toWebhookSubscription } from '../webhooks/subscriptions';
+import { eq } from 'drizzle-orm';
+
+// Deliveries already queued keep going to the subscription as it is when
+// they are sent, so a new URL or secret applies to them too
+export const updateWebhookSubscription = async (input: UpdateWebhookSubscriptionInput, actorId: number): Promise<WebhookSubscription> => {
+  try {
+    const updateValues: Partial<typeof webhookSubscriptionsTable.$inferInsert> = {
+      updated_by: actorId,
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateValues.name = input.name;
+    if (input.url !== undefined) updateValues.url = input.url;
+    if (input.secret !== undefined) updateValues.secret = input.secret;
+    if (input.events !== undefined) updateValues.events = [...new Set(input.events)];
+    if (input.is_active !== undefined) updateValues.is_active = input.is_active;
+
+    const result = await db.update(webhookSubscriptionsTable)
+      .set(updateValues)
+      .where(eq(webhookSubscriptionsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw notFoundError('Webhook subscription', input.id);
+    }
+
+    return toWebhookSubscription(result[0]);
+  } catch (error) {
+    console.error('Webhook subscription update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,11 @@
+import { type AuditVerificationResult } from '../schema';
+import { verifyAuditChain } from '../audit/audit_log';
+
+export const verifyAuditLog = async (): Promise<AuditVerificationResult> => {
+  try {
+    return await verifyAuditChain();
+  } catch (error) {
+    console.error('Audit log verification failed:', error);
+    throw error;
+  }
+};
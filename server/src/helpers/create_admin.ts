@@ -0,0 +1,25 @@
+import 'dotenv/config';
+import { createUser } from '../handlers/create_user';
+
+// Bootstraps the first Admin account; every other account is created through
+// the authenticated createUser procedure
+const username = process.env['ADMIN_USERNAME'];
+const email = process.env['ADMIN_EMAIL'];
+const password = process.env['ADMIN_PASSWORD'];
+
+if (!username || !email || !password) {
+  console.error('ADMIN_USERNAME, ADMIN_EMAIL and ADMIN_PASSWORD must be set');
+  process.exit(1);
+}
+
+createUser({
+  username,
+  email,
+  full_name: process.env['ADMIN_FULL_NAME'] || 'Administrator',
+  role: 'Admin',
+  password,
+  is_active: true
+}).then(user => {
+  console.log(`Admin user ${user.username} created with id ${user.id}`);
+  process.exit(0);
+}).catch(() => process.exit(1));
@@ -0,0 +1,35 @@
+import 'dotenv/config';
+import { getMigrationStatus, rollbackLastMigration, runMigrations } from '../db/migrate';
+
+// bun db:migrate [up|status|rollback]
+const command = process.argv[2] ?? 'up';
+
+const commands: Record<string, () => Promise<void>> = {
+  up: async () => {
+    const applied = await runMigrations();
+    console.log(applied.length > 0 ? `Applied ${applied.join(', ')}` : 'Database is up to date');
+  },
+  status: async () => {
+    const report = await getMigrationStatus();
+    report.migrations.forEach(migration => {
+      console.log(`${migration.status.padEnd(8)} ${migration.tag}${migration.reversible ? '' : ' (no rollback)'}`);
+    });
+    console.log(`${report.applied} applied, ${report.pending} pending`);
+  },
+  rollback: async () => {
+    const tag = await rollbackLastMigration();
+    console.log(`Rolled back ${tag}`);
+  }
+};
+
+const run = commands[command];
+
+if (!run) {
+  console.error(`Unknown command ${command}; expected one of ${Object.keys(commands).join(', ')}`);
+  process.exit(1);
+}
+
+run().then(() => process.exit(0)).catch(error => {
+  console.error(`Migration ${command} failed:`, error);
+  process.exit(1);
+});
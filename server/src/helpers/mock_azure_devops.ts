@@ -0,0 +1,232 @@
+import { type AzureDevOpsConfig } from '../integrations/azure_devops';
+
+// An in-memory stand-in for the parts of the Azure DevOps REST API the sync
+// uses, with the work item types and states of the Agile process. For tests
+// and for trying the integration locally:
+//
+//   MOCK_AZURE_DEVOPS_PORT=8090 MOCK_AZURE_DEVOPS_PROJECTS=Payments bun src/helpers/mock_azure_devops.ts
+//
+// then point AZURE_DEVOPS_ORG_URL at the printed organization URL.
+
+export interface MockWorkItem {
+  id: number;
+  project: string;
+  fields: Record<string, unknown> & {
+    'System.WorkItemType': string;
+    'System.State': string;
+    'System.AssignedTo'?: { displayName: string; uniqueName: string };
+  };
+  relations: { rel: string; url: string }[];
+}
+
+export interface MockAzureDevOpsOptions {
+  port?: number;
+  organization?: string;
+  projects?: string[];
+  token?: string;
+}
+
+const ORGANIZATION = 'example';
+
+// States of each work item type by name, with their categories, initial first
+const agileStates: Record<string, [string, string][]> = {
+  Epic: [['New', 'Proposed'], ['Active', 'InProgress'], ['Resolved', 'Resolved'], ['Closed', 'Completed'], ['Removed', 'Removed']],
+  'User Story': [['New', 'Proposed'], ['Active', 'InProgress'], ['Resolved', 'Resolved'], ['Closed', 'Completed'], ['Removed', 'Removed']],
+  Task: [['New', 'Proposed'], ['Active', 'InProgress'], ['Closed', 'Completed'], ['Removed', 'Removed']]
+};
+
+const json = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const error = (status: number, message: string): Response =>
+  json(status, { $id: '1', message, typeKey: 'MockAzureDevOpsException' });
+
+export const startMockAzureDevOps = (options: MockAzureDevOpsOptions = {}) => {
+  const organization = options.organization ?? ORGANIZATION;
+  const projects = new Set(options.projects ?? ['Payments']);
+  const token = options.token ?? 'mock-token';
+  const authorization = `Basic ${Buffer.from(`:${token}`).toString('base64')}`;
+
+  const workItems = new Map<number, MockWorkItem>();
+  const requests: { method: string; path: string; body: unknown }[] = [];
+  let nextId = 1;
+
+  const server = Bun.serve({ port: options.port ?? 0, fetch: (request: Request) => route(request) });
+  const organizationUrl = `http://localhost:${server.port}/${organization}`;
+
+  const respond = (workItem: MockWorkItem): Response =>
+    json(200, { id: workItem.id, rev: 1, fields: workItem.fields, relations: workItem.relations, url: `${organizationUrl}/_apis/wit/workItems/${workItem.id}` });
+
+  // Applies JSON Patch operations the way Azure DevOps validates them
+  const applyOperations = (workItem: MockWorkItem, operations: unknown): Response | null => {
+    if (!Array.isArray(operations)) {
+      return error(400, 'You must pass a valid patch document in the body of the request.');
+    }
+
+    const fields = { ...workItem.fields };
+    const relations = [...workItem.relations];
+    for (const operation of operations as { op?: string; path?: string; value?: unknown }[]) {
+      if (operation.op !== 'add' || typeof operation.path !== 'string') {
+        return error(400, `Unsupported patch operation ${operation.op} ${operation.path}`);
+      }
+
+      if (operation.path === '/relations/-') {
+        const relation = operation.value as { rel: string; url: string };
+        const parentId = Number(/\/workItems\/(\d+)$/i.exec(relation.url)?.[1]);
+        if (!workItems.has(parentId)) {
+          return error(400, `TF201036: You cannot add a link to work item ${parentId} because it does not exist.`);
+        }
+        relations.push(relation);
+      } else if (operation.path.startsWith('/fields/')) {
+        fields[operation.path.slice('/fields/'.length)] = operation.value;
+      } else {
+        return error(400, `Unsupported patch path ${operation.path}`);
+      }
+    }
+
+    if (typeof fields['System.Title'] !== 'string' || fields['System.Title'].trim() === '') {
+      return error(400, 'TF401320: Rule Error for field Title. Error code: Required, InvalidEmpty.');
+    }
+    const states = agileStates[fields['System.WorkItemType']];
+    if (!states.some(([name]) => name === fields['System.State'])) {
+      return error(400, `TF401320: Rule Error for field State. Error code: LimitedToValues. The value '${fields['System.State']}' is not in the list of supported values.`);
+    }
+
+    workItem.fields = fields;
+    workItem.relations = relations;
+    return null;
+  };
+
+  const route = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const path = decodeURIComponent(url.pathname);
+    const text = await request.text();
+    const body: unknown = text ? JSON.parse(text) : null;
+    requests.push({ method: request.method, path, body });
+
+    if (request.headers.get('authorization') !== authorization) {
+      // Azure DevOps sends a sign-in page to unauthenticated requests
+      return new Response('<html><body>Sign in</body></html>', { status: 401, headers: { 'Content-Type': 'text/html' } });
+    }
+
+    const segments = path.split('/').filter(segment => segment !== '');
+    if (segments[0] !== organization) {
+      return error(404, `Organization ${segments[0]} not found`);
+    }
+
+    // /{organization}/_apis/projects/{project}
+    if (segments[1] === '_apis' && segments[2] === 'projects' && request.method === 'GET') {
+      return projects.has(segments[3])
+        ? json(200, { id: segments[3], name: segments[3] })
+        : error(404, `TF200016: The following project does not exist: ${segments[3]}.`);
+    }
+
+    const [, project, apis, wit, resource, id, states] = segments;
+    if (!projects.has(project) || apis !== '_apis' || wit !== 'wit') {
+      return error(404, `No mock for ${request.method} ${path}`);
+    }
+
+    if (resource === 'workitems' && id?.startsWith('$') && request.method === 'POST') {
+      const type = id.slice(1);
+      if (!agileStates[type]) {
+        return error(404, `TF201063: Work item type ${type} does not exist.`);
+      }
+      const workItem: MockWorkItem = {
+        id: nextId,
+        project,
+        fields: { 'System.WorkItemType': type, 'System.State': agileStates[type][0][0] },
+        relations: []
+      };
+      const invalid = applyOperations(workItem, body);
+      if (invalid) return invalid;
+
+      nextId++;
+      workItems.set(workItem.id, workItem);
+      return respond(workItem);
+    }
+
+    if (resource === 'workitems' && id && request.method === 'PATCH') {
+      const workItem = workItems.get(Number(id));
+      if (!workItem) {
+        return error(404, `TF401232: Work item ${id} does not exist, or you do not have permissions to read it.`);
+      }
+      const invalid = applyOperations(workItem, body);
+      return invalid ?? respond(workItem);
+    }
+
+    if (resource === 'workitemsbatch' && request.method === 'POST') {
+      const { ids, fields } = body as { ids: number[]; fields: string[] };
+      const value = ids.map(workItemId => {
+        const workItem = workItems.get(workItemId);
+        return workItem
+          ? { id: workItem.id, fields: Object.fromEntries(fields.filter(field => field in workItem.fields).map(field => [field, workItem.fields[field]])) }
+          : null;
+      });
+      return json(200, { count: value.length, value });
+    }
+
+    if (resource === 'workitemtypes' && id && states === 'states' && request.method === 'GET') {
+      const typeStates = agileStates[id];
+      return typeStates
+        ? json(200, { count: typeStates.length, value: typeStates.map(([name, category]) => ({ name, category, color: '000000' })) })
+        : error(404, `TF201063: Work item type ${id} does not exist.`);
+    }
+
+    return error(404, `No mock for ${request.method} ${path}`);
+  };
+
+  const workItemFor = (id: number): MockWorkItem => {
+    const workItem = workItems.get(id);
+    if (!workItem) throw new Error(`Mock Azure DevOps has no work item ${id}`);
+    return workItem;
+  };
+
+  return {
+    organization_url: organizationUrl,
+    workItems,
+    requests,
+
+    // Settings that point the sync at this server
+    config: (overrides: Partial<AzureDevOpsConfig> = {}): AzureDevOpsConfig => ({
+      organization_url: organizationUrl,
+      token,
+      work_item_types: { Epic: 'Epic', Story: 'User Story', Task: 'Task' },
+      sync_username: null,
+      sync_interval_minutes: null,
+      ...overrides
+    }),
+
+    // Moves a work item as an Azure DevOps user would
+    setState: (id: number, state: string): void => {
+      workItemFor(id).fields['System.State'] = state;
+    },
+
+    setAssignee: (id: number, email: string | null): void => {
+      const workItem = workItemFor(id);
+      if (email) {
+        workItem.fields['System.AssignedTo'] = { displayName: email, uniqueName: email };
+      } else {
+        delete workItem.fields['System.AssignedTo'];
+      }
+    },
+
+    deleteWorkItem: (id: number): void => {
+      workItems.delete(id);
+    },
+
+    stop: (): void => {
+      server.stop(true);
+    }
+  };
+};
+
+export type MockAzureDevOps = ReturnType<typeof startMockAzureDevOps>;
+
+if (import.meta.main) {
+  const mock = startMockAzureDevOps({
+    port: Number(process.env['MOCK_AZURE_DEVOPS_PORT']) || 8090,
+    projects: (process.env['MOCK_AZURE_DEVOPS_PROJECTS'] || 'Payments').split(',').map(project => project.trim())
+  });
+  const config = mock.config();
+  console.log(`Mock Azure DevOps listening (AZURE_DEVOPS_ORG_URL=${config.organization_url} AZURE_DEVOPS_TOKEN=${config.token})`);
+}
@@ -0,0 +1,183 @@
+import { type JiraConfig } from '../integrations/jira';
+
+// An in-memory stand-in for the parts of the Jira REST API v2 the sync uses,
+// for tests and for trying the integration locally:
+//
+//   MOCK_JIRA_PORT=8089 MOCK_JIRA_PROJECTS=SEC bun src/helpers/mock_jira.ts
+//
+// then point JIRA_BASE_URL at http://localhost:8089 with the printed
+// credentials.
+
+export interface MockJiraIssue {
+  key: string;
+  fields: Record<string, unknown> & {
+    status: { name: string; statusCategory: { key: string } };
+    assignee: { emailAddress: string } | null;
+  };
+}
+
+export interface MockJiraOptions {
+  port?: number;
+  projects?: string[];
+  email?: string;
+  api_token?: string;
+}
+
+const ISSUE_TYPES = ['Epic', 'Story', 'Task', 'Sub-task'];
+
+const json = (status: number, body: unknown): Response =>
+  new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: body === null ? {} : { 'Content-Type': 'application/json' }
+  });
+
+const errors = (status: number, ...errorMessages: string[]): Response =>
+  json(status, { errorMessages, errors: {} });
+
+export const startMockJira = (options: MockJiraOptions = {}) => {
+  const projects = new Set(options.projects ?? ['SEC']);
+  const email = options.email ?? 'sync@example.com';
+  const apiToken = options.api_token ?? 'mock-token';
+  const authorization = `Basic ${Buffer.from(`${email}:${apiToken}`).toString('base64')}`;
+
+  const issues = new Map<string, MockJiraIssue>();
+  const counters = new Map<string, number>();
+  const requests: { method: string; path: string; body: unknown }[] = [];
+
+  const createIssue = (fields: Record<string, unknown>): Response => {
+    const project = (fields['project'] as { key?: string } | undefined)?.key;
+    const issueType = (fields['issuetype'] as { name?: string } | undefined)?.name;
+    const parent = (fields['parent'] as { key?: string } | undefined)?.key;
+
+    if (!project || !projects.has(project)) {
+      return json(400, { errorMessages: [], errors: { project: 'valid project is required' } });
+    }
+    if (!issueType || !ISSUE_TYPES.includes(issueType)) {
+      return json(400, { errorMessages: [], errors: { issuetype: 'valid issue type is required' } });
+    }
+    if (issueType === 'Sub-task' && !parent) {
+      return json(400, { errorMessages: [], errors: { parent: 'Sub-tasks need a parent issue' } });
+    }
+    if (parent && !issues.has(parent)) {
+      return json(400, { errorMessages: [], errors: { parent: `Issue ${parent} does not exist` } });
+    }
+    if (typeof fields['summary'] !== 'string' || fields['summary'] === '') {
+      return json(400, { errorMessages: [], errors: { summary: 'You must specify a summary of the issue.' } });
+    }
+
+    const number = (counters.get(project) ?? 0) + 1;
+    counters.set(project, number);
+    const key = `${project}-${number}`;
+    issues.set(key, {
+      key,
+      fields: { ...fields, status: { name: 'To Do', statusCategory: { key: 'new' } }, assignee: null }
+    });
+    return json(201, { id: String(10000 + issues.size), key, self: `/rest/api/2/issue/${key}` });
+  };
+
+  const search = (jql: unknown): Response => {
+    const match = typeof jql === 'string' ? /^key in \(([^)]*)\)$/.exec(jql.trim()) : null;
+    if (!match) {
+      return errors(400, 'The mock only supports "key in (...)" queries');
+    }
+
+    const found = match[1].split(',')
+      .map(key => issues.get(key.trim()))
+      .filter(issue => issue !== undefined)
+      .map(issue => ({ key: issue.key, fields: { status: issue.fields.status, assignee: issue.fields.assignee } }));
+    return json(200, { startAt: 0, maxResults: 50, total: found.length, issues: found });
+  };
+
+  const route = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^\/rest\/api\/2/, '');
+    const text = await request.text();
+    const body: unknown = text ? JSON.parse(text) : null;
+    requests.push({ method: request.method, path, body });
+
+    if (request.headers.get('authorization') !== authorization) {
+      return errors(401, 'You are not authenticated');
+    }
+
+    const fields = (body as { fields?: Record<string, unknown> } | null)?.fields ?? {};
+    const [, resource, key] = path.split('/');
+
+    if (resource === 'project' && key && request.method === 'GET') {
+      return projects.has(key) ? json(200, { key, name: key }) : errors(404, `No project could be found with key '${key}'.`);
+    }
+    if (resource === 'issue' && !key && request.method === 'POST') {
+      return createIssue(fields);
+    }
+    if (resource === 'issue' && key) {
+      const issue = issues.get(key);
+      if (!issue) {
+        return errors(404, 'Issue does not exist or you do not have permission to see it.');
+      }
+      if (request.method === 'GET') {
+        return json(200, issue);
+      }
+      if (request.method === 'PUT') {
+        Object.assign(issue.fields, fields);
+        return json(204, null);
+      }
+    }
+    if (resource === 'search' && request.method === 'POST') {
+      return search((body as { jql?: unknown } | null)?.jql);
+    }
+    return errors(404, `No mock for ${request.method} ${url.pathname}`);
+  };
+
+  const server = Bun.serve({ port: options.port ?? 0, fetch: route });
+  const baseUrl = `http://localhost:${server.port}`;
+
+  const issueFor = (key: string): MockJiraIssue => {
+    const issue = issues.get(key);
+    if (!issue) throw new Error(`Mock Jira has no issue ${key}`);
+    return issue;
+  };
+
+  return {
+    url: baseUrl,
+    issues,
+    requests,
+
+    // Settings that point the sync at this server
+    config: (overrides: Partial<JiraConfig> = {}): JiraConfig => ({
+      base_url: baseUrl,
+      email,
+      api_token: apiToken,
+      webhook_secret: null,
+      sync_username: null,
+      sync_interval_minutes: null,
+      ...overrides
+    }),
+
+    // Moves an issue as a Jira user would; category is new, indeterminate or done
+    setStatus: (key: string, name: string, category: string): void => {
+      issueFor(key).fields.status = { name, statusCategory: { key: category } };
+    },
+
+    setAssignee: (key: string, assigneeEmail: string | null): void => {
+      issueFor(key).fields.assignee = assigneeEmail ? { emailAddress: assigneeEmail } : null;
+    },
+
+    deleteIssue: (key: string): void => {
+      issues.delete(key);
+    },
+
+    stop: (): void => {
+      server.stop(true);
+    }
+  };
+};
+
+export type MockJira = ReturnType<typeof startMockJira>;
+
+if (import.meta.main) {
+  const mock = startMockJira({
+    port: Number(process.env['MOCK_JIRA_PORT']) || 8089,
+    projects: (process.env['MOCK_JIRA_PROJECTS'] || 'SEC').split(',').map(key => key.trim())
+  });
+  const config = mock.config();
+  console.log(`Mock Jira listening at ${mock.url} (JIRA_EMAIL=${config.email} JIRA_API_TOKEN=${config.api_token})`);
+}
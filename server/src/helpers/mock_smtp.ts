@@ -0,0 +1,252 @@
+import { createServer, type Socket } from 'node:net';
+import { type SmtpConfig } from '../notifications/smtp';
+
+// A local SMTP catcher that accepts every message and keeps it in memory with
+// its text and HTML parts decoded. For tests and for trying notifications
+// locally:
+//
+//   MOCK_SMTP_PORT=2525 bun src/helpers/mock_smtp.ts
+//
+// then set SMTP_HOST=127.0.0.1, SMTP_PORT=2525 and SMTP_FROM.
+
+export interface CaughtEmail {
+  from: string;
+  to: string[];
+  headers: Record<string, string>; // Lower-cased names
+  subject: string;
+  text: string;
+  html: string;
+  raw: string;
+}
+
+export interface MockSmtpOptions {
+  port?: number;
+  username?: string; // Requires AUTH PLAIN or LOGIN with these credentials
+  password?: string;
+  forward?: boolean; // Accepts recipients with 251 User not local; will forward
+}
+
+const decodeHeader = (value: string): string =>
+  value.replace(/=\?UTF-8\?B\?([^?]*)\?=/gi, (_, encoded: string) => Buffer.from(encoded, 'base64').toString('utf8'));
+
+const parseHeaders = (block: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of block.replace(/\r\n[ \t]+/g, ' ').split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = decodeHeader(line.slice(colon + 1).trim());
+    }
+  }
+  return headers;
+};
+
+const decodeBody = (body: string, encoding: string | undefined): string =>
+  encoding?.toLowerCase() === 'base64' ? Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8') : body;
+
+// Splits a message into headers and its text/plain and text/html parts
+const parseMessage = (raw: string): Pick<CaughtEmail, 'headers' | 'text' | 'html'> => {
+  const split = raw.indexOf('\r\n\r\n');
+  const headers = parseHeaders(raw.slice(0, split));
+  const body = raw.slice(split + 4);
+  const parts = { text: '', html: '' };
+
+  const boundary = /boundary="?([^";]+)"?/i.exec(headers['content-type'] ?? '')?.[1];
+  const sections = boundary
+    ? body.split(`--${boundary}`).slice(1, -1).map(section => section.replace(/^\r\n/, ''))
+    : [`Content-Type: ${headers['content-type'] ?? 'text/plain'}\r\nContent-Transfer-Encoding: ${headers['content-transfer-encoding'] ?? '7bit'}\r\n\r\n${body}`];
+
+  for (const section of sections) {
+    const end = section.indexOf('\r\n\r\n');
+    const partHeaders = parseHeaders(section.slice(0, end));
+    const content = decodeBody(section.slice(end + 4).replace(/\r\n$/, ''), partHeaders['content-transfer-encoding']);
+    if (partHeaders['content-type']?.startsWith('text/html')) {
+      parts.html = content;
+    } else if (partHeaders['content-type']?.startsWith('text/plain')) {
+      parts.text = content;
+    }
+  }
+
+  return { headers, ...parts };
+};
+
+export const startMockSmtp = async (options: MockSmtpOptions = {}) => {
+  const messages: CaughtEmail[] = [];
+  const sockets = new Set<Socket>();
+  // Replies used instead of 250 for the next MAIL FROM commands, to simulate
+  // a refusing relay
+  const rejections: string[] = [];
+
+  const handle = (socket: Socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    let from = '';
+    let to: string[] = [];
+    let data: string[] | null = null;
+    let authenticated = !options.username;
+    let login: 'username' | 'password' | null = null;
+    let loginUsername = '';
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    const checkCredentials = (username: string, password: string) => {
+      authenticated = username === options.username && password === (options.password ?? '');
+      reply(authenticated ? '235 2.7.0 Authentication successful' : '535 5.7.8 Authentication credentials invalid');
+    };
+
+    const onLine = (line: string) => {
+      if (data) {
+        if (line !== '.') {
+          data.push(line.startsWith('.') ? line.slice(1) : line);
+          return;
+        }
+        const raw = `${data.join('\r\n')}\r\n`;
+        const parsed = parseMessage(raw);
+        messages.push({ from, to, subject: parsed.headers['subject'] ?? '', ...parsed, raw });
+        data = null;
+        reply('250 2.0.0 OK queued');
+        return;
+      }
+
+      if (login) {
+        const value = Buffer.from(line, 'base64').toString('utf8');
+        if (login === 'username') {
+          loginUsername = value;
+          login = 'password';
+          reply(`334 ${Buffer.from('Password:').toString('base64')}`);
+        } else {
+          login = null;
+          checkCredentials(loginUsername, value);
+        }
+        return;
+      }
+
+      const [verb, ...rest] = line.split(' ');
+      const argument = rest.join(' ');
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-mock-smtp');
+          reply(options.username ? '250-AUTH PLAIN LOGIN' : '250-8BITMIME');
+          reply('250 SIZE 10485760');
+          return;
+        case 'HELO':
+          reply('250 mock-smtp');
+          return;
+        case 'AUTH': {
+          const [mechanism, initial] = argument.split(' ');
+          if (mechanism?.toUpperCase() === 'PLAIN' && initial) {
+            const [, username = '', password = ''] = Buffer.from(initial, 'base64').toString('utf8').split('\0');
+            checkCredentials(username, password);
+          } else if (mechanism?.toUpperCase() === 'LOGIN') {
+            login = 'username';
+            reply(`334 ${Buffer.from('Username:').toString('base64')}`);
+          } else {
+            reply('504 5.5.4 Unrecognized authentication type');
+          }
+          return;
+        }
+        case 'MAIL': {
+          if (!authenticated) {
+            reply('530 5.7.0 Authentication required');
+            return;
+          }
+          const rejection = rejections.shift();
+          if (rejection) {
+            reply(rejection);
+            return;
+          }
+          from = /<([^>]*)>/.exec(argument)?.[1] ?? '';
+          to = [];
+          reply('250 2.1.0 OK');
+          return;
+        }
+        case 'RCPT':
+          to.push(/<([^>]*)>/.exec(argument)?.[1] ?? '');
+          reply(options.forward ? '251 2.1.5 User not local; will forward' : '250 2.1.5 OK');
+          return;
+        case 'DATA':
+          if (to.length === 0) {
+            reply('503 5.5.1 Need RCPT command');
+            return;
+          }
+          data = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          return;
+        case 'RSET':
+          from = '';
+          to = [];
+          reply('250 2.0.0 OK');
+          return;
+        case 'NOOP':
+          reply('250 2.0.0 OK');
+          return;
+        case 'QUIT':
+          reply('221 2.0.0 Bye');
+          socket.end();
+          return;
+        default:
+          reply('502 5.5.2 Command not recognized');
+      }
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        onLine(line);
+      }
+    });
+
+    reply('220 mock-smtp ESMTP ready');
+  };
+
+  const server = createServer(handle);
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+
+  return {
+    port,
+    messages,
+
+    // Settings that send through this server
+    config: (overrides: Partial<SmtpConfig> = {}): SmtpConfig => ({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      username: options.username ?? null,
+      password: options.password ?? null,
+      allow_insecure_auth: false,
+      from: 'PrimeSec <security@example.com>',
+      ...overrides
+    }),
+
+    // Refuses the next message with the given reply, e.g. 451 4.3.0 Try again later
+    rejectNext: (reply: string): void => {
+      rejections.push(reply);
+    },
+
+    stop: async (): Promise<void> => {
+      sockets.forEach(socket => socket.destroy());
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+};
+
+export type MockSmtp = Awaited<ReturnType<typeof startMockSmtp>>;
+
+if (import.meta.main) {
+  startMockSmtp({ port: Number(process.env['MOCK_SMTP_PORT']) || 2525 }).then(mock => {
+    console.log(`Mock SMTP server listening (SMTP_HOST=127.0.0.1 SMTP_PORT=${mock.port})`);
+    // Print messages as they arrive
+    setInterval(() => {
+      while (mock.messages.length > 0) {
+        const message = mock.messages.shift()!;
+        console.log(`\n--- ${message.from} -> ${message.to.join(', ')}: ${message.subject}\n${message.text}`);
+      }
+    }, 1000);
+  });
+}
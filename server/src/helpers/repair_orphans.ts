@@ -0,0 +1,28 @@
+import 'dotenv/config';
+import { findOrphans, repairOrphans, type OrphanReport } from '../db/integrity';
+
+// Lists rows whose references point at missing records (or open work assigned
+// to deactivated users) and, with --fix, repairs them. Run it before applying
+// migrations that add foreign keys: Postgres refuses constraints that existing
+// rows violate.
+const fix = process.argv.includes('--fix');
+
+const describe = (report: OrphanReport): string => {
+  const target = report.reason === 'inactive' ? 'inactive users' : `${report.referenced_table}.${report.referenced_column}`;
+  const action = report.repair === 'report' ? 'needs manual repair' : fix ? report.repair : `would ${report.repair}`;
+  return `${report.table}.${report.column} -> ${target}: ${report.ids.length} row(s) [${action}] ids ${report.ids.join(', ')}`;
+};
+
+(fix ? repairOrphans() : findOrphans()).then(reports => {
+  if (reports.length === 0) {
+    console.log('No orphaned references found');
+  }
+  reports.forEach(report => console.log(describe(report)));
+
+  // Rows that could not be fixed automatically still block the constraints
+  const unresolved = reports.some(report => report.repair === 'report');
+  process.exit(unresolved ? 2 : 0);
+}).catch(error => {
+  console.error('Orphan repair failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,10 @@
+import 'dotenv/config';
+import { seedOptionsFromEnv, seedReferenceData } from '../db/seed';
+
+seedReferenceData(seedOptionsFromEnv()).then(result => {
+  console.log(`Seed complete: ${result.frameworks_changed} framework(s) changed, users created: ${result.users_created.join(', ') || 'none'}`);
+  process.exit(0);
+}).catch(error => {
+  console.error('Seed failed:', error);
+  process.exit(1);
+});
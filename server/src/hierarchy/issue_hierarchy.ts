@@ -0,0 +1,118 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { securityIssuesTable } from '../db/schema';
+import { type IssueTreeNode, type SecurityIssue } from '../schema';
+import { ACTIVE_ISSUE_STATUSES, calculateContainerRiskScore, type ScoringProfileDefinition } from '../scoring/risk_scoring';
+import { notFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+type Hierarchy = SecurityIssue['hierarchy'];
+
+// Lower ranks sit higher in the tree; a parent must outrank its children, so
+// Epics hold Stories or Tasks and Stories hold Tasks. Ranks strictly decrease
+// towards the root, which also rules out cycles.
+export const HIERARCHY_RANK: Record<Hierarchy, number> = {
+  Epic: 0,
+  Story: 1,
+  Task: 2
+};
+
+export const canParent = (parent: Hierarchy, child: Hierarchy): boolean =>
+  HIERARCHY_RANK[parent] < HIERARCHY_RANK[child];
+
+// An invalid tree is the caller's input at fault, not a server error
+const hierarchyError = (message: string): TRPCError => new TRPCError({ code: 'BAD_REQUEST', message });
+
+// Throws unless parent_issue_id is a valid parent for an issue of the given
+// level in the given container. id is omitted for issues not created yet.
+export const assertValidParent = async (issue: {
+  id?: number;
+  hierarchy: Hierarchy;
+  container_id: number;
+  parent_issue_id: number | null;
+}): Promise<void> => {
+  if (issue.parent_issue_id === null) {
+    return;
+  }
+
+  if (issue.parent_issue_id === issue.id) {
+    throw hierarchyError(`Issue ${issue.id} cannot be its own parent`);
+  }
+
+  const parents = await db.select()
+    .from(securityIssuesTable)
+    .where(eq(securityIssuesTable.id, issue.parent_issue_id))
+    .execute();
+
+  if (parents.length === 0) {
+    throw notFoundError('Parent issue', issue.parent_issue_id);
+  }
+
+  const parent = parents[0];
+
+  if (parent.container_id !== issue.container_id) {
+    throw hierarchyError(`Parent issue ${parent.id} belongs to a different container`);
+  }
+
+  if (!canParent(parent.hierarchy, issue.hierarchy)) {
+    throw hierarchyError(`${parent.hierarchy} issues cannot be parents of ${issue.hierarchy} issues`);
+  }
+};
+
+// Throws if changing an issue's level would leave a child it can no longer parent
+export const assertValidChildren = async (issueId: number, hierarchy: Hierarchy): Promise<void> => {
+  const children = await db.select({ id: securityIssuesTable.id, hierarchy: securityIssuesTable.hierarchy })
+    .from(securityIssuesTable)
+    .where(eq(securityIssuesTable.parent_issue_id, issueId))
+    .execute();
+
+  const invalid = children.find(child => !canParent(hierarchy, child.hierarchy));
+  if (invalid) {
+    throw hierarchyError(`${hierarchy} issues cannot be parents of ${invalid.hierarchy} issues (issue ${invalid.id})`);
+  }
+};
+
+const compareNodes = (a: SecurityIssue, b: SecurityIssue): number =>
+  HIERARCHY_RANK[a.hierarchy] - HIERARCHY_RANK[b.hierarchy] ||
+  b.risk_score - a.risk_score ||
+  b.created_at.getTime() - a.created_at.getTime();
+
+// Nests a container's issues under their parents. Issues whose parent is not
+// among them become roots. Each node rolls up the risk of its whole subtree
+// like the container rollup does, and progress is the share of its
+// descendants that are no longer active (null for leaves).
+export const buildIssueTree = (issues: SecurityIssue[], profile: ScoringProfileDefinition): IssueTreeNode[] => {
+  const byId = new Map(issues.map(issue => [issue.id, issue]));
+  const childrenOf = new Map<number | null, SecurityIssue[]>();
+
+  for (const issue of issues) {
+    const parentId = issue.parent_issue_id !== null && byId.has(issue.parent_issue_id) ? issue.parent_issue_id : null;
+    const siblings = childrenOf.get(parentId) ?? [];
+    siblings.push(issue);
+    childrenOf.set(parentId, siblings);
+  }
+
+  const buildNode = (issue: SecurityIssue): { node: IssueTreeNode; subtree: SecurityIssue[] } => {
+    const children = (childrenOf.get(issue.id) ?? [])
+      .sort(compareNodes)
+      .map(buildNode);
+
+    const descendants = children.flatMap(child => child.subtree);
+    const subtree = [issue, ...descendants];
+    const done = descendants.filter(descendant => !ACTIVE_ISSUE_STATUSES.includes(descendant.status)).length;
+
+    return {
+      node: {
+        ...issue,
+        rollup_risk_score: calculateContainerRiskScore(subtree, profile),
+        progress: descendants.length > 0 ? Math.round((done / descendants.length) * 10000) / 100 : null,
+        children: children.map(child => child.node)
+      },
+      subtree
+    };
+  };
+
+  return (childrenOf.get(null) ?? [])
+    .sort(compareNodes)
+    .map(root => buildNode(root).node);
+};
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { type ParsedReport, parseReport } from './findings';
+import { type DastAlert, type DastConfidence, type DastRisk, cweIdOf, dastReport, htmlToText, parseXmlReport, urlsIn } from './dast';
+import { type XmlElement, childText } from './xml';
+
+// The parts of a Burp Suite issue report (Report issues > XML) the import
+// reads. Request and response bodies are not imported.
+const issue = z.object({
+  type: z.string(),
+  name: z.string(),
+  host: z.string(),
+  path: z.string(),
+  location: z.string().nullable(),
+  severity: z.enum(['High', 'Medium', 'Low', 'Information', 'False positive']),
+  confidence: z.enum(['Certain', 'Firm', 'Tentative']),
+  method: z.string().nullable(),
+  issueBackground: z.string().nullable(),
+  issueDetail: z.string().nullable(),
+  remediationBackground: z.string().nullable(),
+  remediationDetail: z.string().nullable(),
+  references: z.string().nullable(),
+  vulnerabilityClassifications: z.string().nullable()
+});
+
+const burpReport = z.object({
+  burpVersion: z.string().nullable(),
+  issues: z.array(issue)
+});
+
+type BurpIssue = z.infer<typeof issue>;
+
+const risks: Record<BurpIssue['severity'], DastRisk> = {
+  High: 'High',
+  Medium: 'Medium',
+  Low: 'Low',
+  Information: 'Informational',
+  'False positive': 'Informational'
+};
+
+const confidences: Record<BurpIssue['confidence'], DastConfidence> = {
+  Certain: 'Confirmed',
+  Firm: 'High',
+  Tentative: 'Low'
+};
+
+const readIssue = (element: XmlElement): unknown => {
+  const request = element.children
+    .find(child => child.name === 'requestresponse')?.children
+    .find(child => child.name === 'request');
+
+  return {
+    type: childText(element, 'type'),
+    name: childText(element, 'name'),
+    host: childText(element, 'host'),
+    path: childText(element, 'path'),
+    location: childText(element, 'location'),
+    severity: childText(element, 'severity'),
+    confidence: childText(element, 'confidence'),
+    method: request?.attributes['method'] ?? null,
+    issueBackground: childText(element, 'issueBackground'),
+    issueDetail: childText(element, 'issueDetail'),
+    remediationBackground: childText(element, 'remediationBackground'),
+    remediationDetail: childText(element, 'remediationDetail'),
+    references: childText(element, 'references'),
+    vulnerabilityClassifications: childText(element, 'vulnerabilityClassifications')
+  };
+};
+
+// Burp names the input in the location, e.g. "/search [q parameter]"
+const parameterOf = (location: string | null): string | null =>
+  /\[(.+) (?:parameter|cookie)\]\s*$/.exec(location ?? '')?.[1] ?? null;
+
+// One entry per reported issue, plus a Story for each issue type reported on
+// several URLs. Takes the XML report as text.
+export const parseBurpReport = (input: string | Record<string, unknown>): ParsedReport => {
+  const root = parseXmlReport('Burp report', input, 'issues');
+  const report = parseReport('Burp report', {
+    burpVersion: root.attributes['burpVersion'] ?? null,
+    issues: root.children.filter(child => child.name === 'issue').map(readIssue)
+  }, burpReport);
+
+  const alerts = report.issues.map((burpIssue, index): DastAlert => {
+    const detail = htmlToText(burpIssue.issueDetail);
+    const remediation = [burpIssue.remediationDetail, burpIssue.remediationBackground]
+      .map(htmlToText)
+      .filter(text => text !== null);
+
+    return {
+      reference: `issues[${index}]`,
+      tool: 'Burp',
+      tool_version: report.burpVersion,
+      alert_id: burpIssue.type,
+      name: burpIssue.name,
+      risk: risks[burpIssue.severity],
+      confidence: burpIssue.severity === 'False positive' ? 'False positive' : confidences[burpIssue.confidence],
+      description: htmlToText(burpIssue.issueBackground) ?? detail,
+      solution: remediation.length > 0 ? remediation.join('\n\n') : null,
+      references: urlsIn(burpIssue.references),
+      cwe_id: cweIdOf(burpIssue.vulnerabilityClassifications),
+      url: `${burpIssue.host.replace(/\/+$/, '')}${burpIssue.path}`,
+      method: burpIssue.method,
+      parameter: parameterOf(burpIssue.location),
+      attack: null,
+      // The issue detail explains what Burp observed for this URL
+      evidence: burpIssue.issueBackground ? detail : null,
+      other_info: null
+    };
+  });
+
+  return dastReport('Burp', alerts);
+};
@@ -0,0 +1,235 @@
+import { type FindingDraft, type ParsedReport, type ReportEntry, fingerprintOf, invalidReport, truncateTitle } from './findings';
+import { type XmlElement, parseXml } from './xml';
+
+export type DastRisk = 'High' | 'Medium' | 'Low' | 'Informational';
+export type DastConfidence = 'Confirmed' | 'High' | 'Medium' | 'Low' | 'False positive';
+
+// One place a dynamic scanner (ZAP, Burp) raised an alert
+export interface DastAlert {
+  reference: string;
+  tool: string;
+  tool_version: string | null;
+  alert_id: string; // ZAP plugin id or Burp issue type; the same for every URL the alert is raised on
+  name: string;
+  risk: DastRisk;
+  confidence: DastConfidence;
+  description: string | null;
+  solution: string | null;
+  references: string[];
+  cwe_id: string | null;
+  url: string;
+  method: string | null;
+  parameter: string | null;
+  attack: string | null;
+  evidence: string | null;
+  other_info: string | null;
+}
+
+type Severity = FindingDraft['severity'];
+
+const SEVERITY_ORDER: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
+
+// Informational alerts are skipped before they are rated
+const riskSeverities: Record<DastRisk, Severity> = {
+  High: 'High',
+  Medium: 'Medium',
+  Low: 'Low',
+  Informational: 'Low'
+};
+
+// The risk rating sets the severity; confirmed alerts move one level up and
+// low-confidence ones one level down
+const severityOf = (alert: DastAlert): Severity => {
+  const shift = alert.confidence === 'Confirmed' ? 1 : alert.confidence === 'Low' ? -1 : 0;
+  const index = SEVERITY_ORDER.indexOf(riskSeverities[alert.risk]) + shift;
+  return SEVERITY_ORDER[Math.min(Math.max(index, 0), SEVERITY_ORDER.length - 1)];
+};
+
+const highestSeverity = (severities: Severity[]): Severity =>
+  severities.reduce((highest, severity) =>
+    SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(highest) ? severity : highest);
+
+// CWE-89 from "89", "CWE-89" or a classification listing several; the first wins
+export const cweIdOf = (text: string | null | undefined): string | null => {
+  const match = /^\s*(\d+)\s*$/.exec(text ?? '') ?? /CWE-(\d+)/i.exec(text ?? '');
+  return match && Number(match[1]) > 0 ? `CWE-${Number(match[1])}` : null;
+};
+
+// Plain text from the HTML fragments scanners put in descriptions
+export const htmlToText = (html: string | null | undefined): string | null => {
+  if (!html) {
+    return null;
+  }
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(p|div|li|ul|ol|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(lt|gt|amp|quot|#39|nbsp);/g, (_match, entity: string) =>
+      ({ lt: '<', gt: '>', amp: '&', quot: '"', '#39': "'", nbsp: ' ' })[entity] ?? '')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return text || null;
+};
+
+export const urlsIn = (text: string | null | undefined): string[] =>
+  [...new Set(text?.match(/https?:\/\/[^\s<>"']+/g) ?? [])];
+
+// Reads an XML report, throwing BAD_REQUEST when it is not well-formed or
+// its root element is not the expected one
+export const parseXmlReport = (format: string, input: unknown, rootName: string): XmlElement => {
+  if (typeof input !== 'string') {
+    throw invalidReport(format, 'expected XML text');
+  }
+
+  let root: XmlElement;
+  try {
+    root = parseXml(input);
+  } catch (error) {
+    throw invalidReport(format, `not well-formed XML (${(error as Error).message})`);
+  }
+  if (root.name !== rootName) {
+    throw invalidReport(format, `expected a <${rootName}> document, found <${root.name}>`);
+  }
+  return root;
+};
+
+const MAX_REFERENCES = 5;
+const MAX_EVIDENCE = 2000;
+
+const toolOf = (alert: DastAlert): string =>
+  alert.tool_version ? `${alert.tool} ${alert.tool_version}` : alert.tool;
+
+const endpointOf = (alert: DastAlert): string =>
+  alert.method ? `${alert.method} ${alert.url}` : alert.url;
+
+const referenceSection = (alert: DastAlert): string | null => {
+  const references = alert.references.slice(0, MAX_REFERENCES);
+  return references.length > 0 ? `References:\n${references.map(url => `- ${url}`).join('\n')}` : null;
+};
+
+const alertSummary = (alert: DastAlert): string => [
+  alert.cwe_id ? `CWE: ${alert.cwe_id}` : null,
+  `Alert: ${alert.alert_id} (${toolOf(alert)})`
+].filter(line => line !== null).join('\n');
+
+const taskFingerprint = (alert: DastAlert): string =>
+  fingerprintOf(alert.tool.toLowerCase(), alert.alert_id, alert.method, alert.url, alert.parameter);
+
+const taskEntry = (alert: DastAlert, parentFingerprint: string | undefined): ReportEntry => {
+  const evidence = alert.evidence?.trim()
+    ? alert.evidence.trim().slice(0, MAX_EVIDENCE)
+    : null;
+
+  const description = [
+    alert.description,
+    [
+      `URL: ${endpointOf(alert)}`,
+      alert.parameter ? `Parameter: ${alert.parameter}` : null,
+      alert.attack ? `Attack: ${alert.attack}` : null,
+      evidence ? `Evidence: ${evidence}` : null,
+      alert.other_info ? `Other information: ${alert.other_info}` : null
+    ].filter(line => line !== null).join('\n'),
+    alert.solution ? `Solution:\n${alert.solution}` : null,
+    `${alertSummary(alert)}\nRisk: ${alert.risk}, confidence: ${alert.confidence}`,
+    referenceSection(alert)
+  ].filter(section => section !== null).join('\n\n');
+
+  const title = alert.parameter
+    ? `${alert.name} in ${alert.parameter} at ${alert.url}`
+    : `${alert.name} at ${alert.url}`;
+
+  return {
+    reference: alert.reference,
+    rule_id: alert.alert_id,
+    finding: {
+      fingerprint: taskFingerprint(alert),
+      scanner: alert.tool,
+      title: truncateTitle(title),
+      description,
+      severity: severityOf(alert),
+      classification: 'Vulnerability',
+      cwe_id: alert.cwe_id,
+      affected_url: alert.url,
+      affected_parameter: alert.parameter,
+      evidence,
+      hierarchy: 'Task',
+      ...(parentFingerprint ? { parent_fingerprint: parentFingerprint } : {})
+    }
+  };
+};
+
+// The Story an alert raised on several URLs is grouped under
+const storyEntry = (alerts: DastAlert[], fingerprint: string): ReportEntry => {
+  const [first] = alerts;
+  const endpoints = [...new Set(alerts.map(alert =>
+    alert.parameter ? `${endpointOf(alert)} (${alert.parameter})` : endpointOf(alert)))];
+
+  const description = [
+    first.description,
+    `Affected URLs:\n${endpoints.map(endpoint => `- ${endpoint}`).join('\n')}`,
+    first.solution ? `Solution:\n${first.solution}` : null,
+    alertSummary(first),
+    referenceSection(first)
+  ].filter(section => section !== null).join('\n\n');
+
+  return {
+    reference: `${first.tool.toLowerCase()}:${first.alert_id}`,
+    rule_id: first.alert_id,
+    finding: {
+      fingerprint,
+      scanner: first.tool,
+      title: truncateTitle(first.name),
+      description,
+      severity: highestSeverity(alerts.map(severityOf)),
+      classification: 'Vulnerability',
+      cwe_id: first.cwe_id,
+      hierarchy: 'Story'
+    }
+  };
+};
+
+const skipReason = (alert: DastAlert): string | null => {
+  if (alert.confidence === 'False positive') {
+    return 'Alert is marked as a false positive';
+  }
+  if (alert.risk === 'Informational') {
+    return 'Alert is informational';
+  }
+  return null;
+};
+
+// Turns the alerts of a scanner into a report. An alert raised on several
+// URLs becomes a Story with a Task per URL; one raised on a single URL becomes
+// a lone Task. Stories are listed ahead of their Tasks. A Task whose alert
+// later shrinks to a single URL stays under its Story.
+export const dastReport = (tool: string, alerts: DastAlert[]): ParsedReport => {
+  const entries: ReportEntry[] = [];
+  const groups = new Map<string, DastAlert[]>();
+
+  for (const alert of alerts) {
+    const reason = skipReason(alert);
+    if (reason) {
+      entries.push({ reference: alert.reference, rule_id: alert.alert_id, skipped: reason });
+      continue;
+    }
+    const group = groups.get(alert.alert_id) ?? [];
+    group.push(alert);
+    groups.set(alert.alert_id, group);
+  }
+
+  for (const group of groups.values()) {
+    if (new Set(group.map(taskFingerprint)).size === 1) {
+      entries.push(...group.map(alert => taskEntry(alert, undefined)));
+      continue;
+    }
+
+    const storyFingerprint = fingerprintOf(group[0].tool.toLowerCase(), group[0].alert_id);
+    entries.push(storyEntry(group, storyFingerprint), ...group.map(alert => taskEntry(alert, storyFingerprint)));
+  }
+
+  return { format: tool, scanners: [tool], entries };
+};
@@ -0,0 +1,413 @@
+import { createHash } from 'node:crypto';
+import { TRPCError } from '@trpc/server';
+import { type z } from 'zod';
+import { db } from '../db';
+import { architectureComponentsTable, importRunsTable, securityIssuesTable } from '../db/schema';
+import { type ImportedFinding, type ImportSummary, type SecurityIssue } from '../schema';
+import { notFoundError } from '../errors';
+import { hasPermission, type Actor } from '../auth/permissions';
+import {
+  type ScoringProfileDefinition,
+  calculateIssueRiskScore,
+  ACTIVE_ISSUE_STATUSES,
+  getContainerScoringProfile,
+  recalculateContainerRiskScore
+} from '../scoring/risk_scoring';
+import { assessCvssVector, cvssIssueColumns } from '../cvss/cvss';
+import { recordStatusChange } from '../workflow/issue_workflow';
+import { createdActivity, diffActivity, recordActivity } from '../activity/activity';
+import { and, eq, inArray, isNull, notInArray, sql } from 'drizzle-orm';
+
+// A scanner result ready to become an issue. The fingerprint identifies the
+// finding by tool, rule and location and must be stable across scans of the
+// same code so that re-imports update instead of duplicate; the import adds
+// the component. Optional fields are left alone on existing issues when a
+// format lacks them.
+export interface FindingDraft {
+  fingerprint: string;
+  scanner: string; // Tool that reported the finding, one of the report's scanners
+  title: string;
+  description: string;
+  severity: SecurityIssue['severity'];
+  classification: SecurityIssue['classification'];
+  cvss_vector?: string | null;
+  cve_id?: string | null;
+  package_name?: string | null;
+  package_version?: string | null;
+  fixed_version?: string | null;
+  cwe_id?: string | null;
+  affected_url?: string | null;
+  affected_parameter?: string | null;
+  evidence?: string | null;
+  hierarchy?: 'Story' | 'Task'; // Task unless given; only applies when the issue is created
+  // Groups the finding under the Story with this fingerprint, which must come
+  // earlier in the report. Null detaches it; omit to leave the parent alone.
+  parent_fingerprint?: string | null;
+}
+
+export interface ImportTarget {
+  container_id: number;
+  component_id?: number | null; // Scanned component; null or omitted for the container as a whole
+}
+
+// One entry of a parsed report: a finding, or why the entry was left out
+export type ReportEntry = { reference: string; rule_id: string | null } & (
+  | { finding: FindingDraft }
+  | { skipped: string }
+);
+
+// A report read by one of the format parsers. Scanners lists every tool the
+// report covers, including those without results; only tools with results
+// resolve their earlier findings, so an empty run cannot clear them.
+export interface ParsedReport {
+  format: string;
+  scanners: string[];
+  entries: ReportEntry[];
+}
+
+// Fields an import owns. Status, assignee and notes belong to whoever works the issue.
+const importedFields = [
+  'title', 'description', 'severity', 'classification', 'cvss_vector', 'cve_id', 'package_name', 'package_version', 'fixed_version', 'cwe_id', 'affected_url',
+  'affected_parameter', 'evidence', 'parent_issue_id'
+] as const;
+
+type ImportedValues = Pick<SecurityIssue, 'title' | 'description' | 'severity' | 'classification'> &
+  Partial<Pick<SecurityIssue, typeof importedFields[number]>>;
+
+// The imported field values for a finding. A CVSS vector is authoritative for
+// severity, as it is for issues entered by hand.
+const importedValues = (finding: FindingDraft, parentIssueId: number | null | undefined): ImportedValues => {
+  const values: ImportedValues = {
+    title: finding.title,
+    description: finding.description,
+    severity: finding.severity,
+    classification: finding.classification
+  };
+
+  if (finding.cvss_vector !== undefined) {
+    values.cvss_vector = finding.cvss_vector;
+    if (finding.cvss_vector) values.severity = assessCvssVector(finding.cvss_vector).severity;
+  }
+  if (finding.cve_id !== undefined) values.cve_id = finding.cve_id;
+  if (finding.package_name !== undefined) values.package_name = finding.package_name;
+  if (finding.package_version !== undefined) values.package_version = finding.package_version;
+  if (finding.fixed_version !== undefined) values.fixed_version = finding.fixed_version;
+  if (finding.cwe_id !== undefined) values.cwe_id = finding.cwe_id;
+  if (finding.affected_url !== undefined) values.affected_url = finding.affected_url;
+  if (finding.affected_parameter !== undefined) values.affected_parameter = finding.affected_parameter;
+  if (finding.evidence !== undefined) values.evidence = finding.evidence;
+  if (parentIssueId !== undefined) values.parent_issue_id = parentIssueId;
+
+  return values;
+};
+
+// CVSS columns, C/I/A impacts and the risk score that follow from a new vector.
+// Compliance and third-party impacts are not in CVSS and keep their values.
+const cvssColumns = (
+  vector: string | null,
+  current: Pick<SecurityIssue, 'compliance_impact' | 'third_party_risk'>,
+  profile: ScoringProfileDefinition
+) => {
+  if (!vector) {
+    return cvssIssueColumns(null);
+  }
+
+  const cvss = assessCvssVector(vector);
+  const impacts = {
+    confidentiality_impact: cvss.confidentiality_impact,
+    integrity_impact: cvss.integrity_impact,
+    availability_impact: cvss.availability_impact,
+    compliance_impact: current.compliance_impact,
+    third_party_risk: current.third_party_risk
+  };
+
+  return {
+    ...cvssIssueColumns(cvss),
+    ...impacts,
+    attack_complexity: cvss.attack_complexity,
+    risk_score: calculateIssueRiskScore(impacts, profile)
+  };
+};
+
+export const invalidReport = (format: string, message: string): TRPCError =>
+  new TRPCError({ code: 'BAD_REQUEST', message: `Invalid ${format}: ${message}` });
+
+// Reports arrive as file text or already parsed JSON. Throws BAD_REQUEST
+// naming the first problem when the report does not match the format.
+export const parseReport = <T>(format: string, input: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T => {
+  let json = input;
+  if (typeof input === 'string') {
+    try {
+      json = JSON.parse(input);
+    } catch {
+      throw invalidReport(format, 'not valid JSON');
+    }
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const message = issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+    throw invalidReport(format, message);
+  }
+
+  return parsed.data;
+};
+
+// Issue titles are limited to 200 characters
+export const truncateTitle = (title: string): string =>
+  title.length > 200 ? `${title.slice(0, 197)}...` : title;
+
+// Hashes the parts that identify a finding; object keys are sorted so
+// equivalent inputs always hash the same
+export const fingerprintOf = (...parts: unknown[]): string => {
+  const canonical = JSON.stringify(parts, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value ?? null
+  );
+  return createHash('sha256').update(canonical).digest('hex');
+};
+
+// The same finding in two components, e.g. a package in two images, is two
+// issues. Findings without a component keep the scanner's fingerprint.
+const scopedFingerprint = (fingerprint: string, componentId: number | null): string =>
+  componentId === null ? fingerprint : fingerprintOf(fingerprint, componentId);
+
+// Throws unless the component exists and is part of the container
+const assertComponentInContainer = async (componentId: number, containerId: number): Promise<void> => {
+  const components = await db.select({ container_id: architectureComponentsTable.container_id })
+    .from(architectureComponentsTable)
+    .where(eq(architectureComponentsTable.id, componentId))
+    .execute();
+
+  if (components.length === 0) {
+    throw notFoundError('Architecture component', componentId);
+  }
+  if (components[0].container_id !== containerId) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Architecture component ${componentId} belongs to a different container` });
+  }
+};
+
+// Creates issues for new findings, refreshes the imported fields of findings
+// seen before, reopens resolved findings that are reported again and resolves
+// active findings of the report's scanners that it no longer contains, all in
+// one transaction. Critical findings are only resolved for an actor who may
+// close them; otherwise they stay open and are reported as pending. The run
+// is recorded and the container rolled up.
+export const importFindings = async (report: ParsedReport, target: ImportTarget, actor: Actor): Promise<ImportSummary> => {
+  const actorId = actor.id;
+  const containerId = target.container_id;
+  const componentId = target.component_id ?? null;
+  // Also confirms the container exists
+  const profile = await getContainerScoringProfile(containerId);
+
+  if (componentId !== null) {
+    await assertComponentInContainer(componentId, containerId);
+  }
+
+  const entries = report.entries.map((entry): ReportEntry => 'finding' in entry
+    ? {
+      ...entry,
+      finding: {
+        ...entry.finding,
+        fingerprint: scopedFingerprint(entry.finding.fingerprint, componentId),
+        ...(typeof entry.finding.parent_fingerprint === 'string'
+          ? { parent_fingerprint: scopedFingerprint(entry.finding.parent_fingerprint, componentId) }
+          : {})
+      }
+    }
+    : entry);
+
+  const fingerprints = [...new Set(entries.flatMap(entry => 'finding' in entry ? [entry.finding.fingerprint] : []))];
+
+  // Scanners whose runs in the report have results
+  const reporting = [...new Set(entries.flatMap(entry => 'finding' in entry ? [entry.finding.scanner] : []))];
+
+  const { run, findings, resolvedIds, pendingIds } = await db.transaction(async (tx) => {
+    // Imports into one container are serialised, so concurrent imports of a
+    // report see each other's issues instead of both creating them
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`import:${containerId}`}))`);
+
+    const existing = fingerprints.length > 0
+      ? await tx.select()
+        .from(securityIssuesTable)
+        .where(and(
+          eq(securityIssuesTable.container_id, containerId),
+          inArray(securityIssuesTable.fingerprint, fingerprints)
+        ))
+        .execute()
+      : [];
+    const issuesByFingerprint = new Map(existing.map(issue => [issue.fingerprint, issue]));
+
+    const results: ImportedFinding[] = [];
+    const seen = new Set<string>();
+
+    for (const entry of entries) {
+      const reference = { reference: entry.reference, rule_id: entry.rule_id };
+
+      if ('skipped' in entry) {
+        results.push({ ...reference, outcome: 'skipped', issue_id: null, reason: entry.skipped });
+        continue;
+      }
+
+      const { finding } = entry;
+      const current = issuesByFingerprint.get(finding.fingerprint);
+
+      if (seen.has(finding.fingerprint)) {
+        results.push({ ...reference, outcome: 'skipped', issue_id: current?.id ?? null, reason: 'Duplicate of an earlier result in this report' });
+        continue;
+      }
+      seen.add(finding.fingerprint);
+      const parentIssueId = typeof finding.parent_fingerprint === 'string'
+        ? issuesByFingerprint.get(finding.parent_fingerprint)?.id ?? null
+        : finding.parent_fingerprint;
+      const values = importedValues(finding, parentIssueId);
+
+      if (!current) {
+        const created = await tx.insert(securityIssuesTable)
+          .values({
+            ...values,
+            ...cvssColumns(values.cvss_vector ?? null, { compliance_impact: 0, third_party_risk: 0 }, profile),
+            hierarchy: finding.hierarchy ?? 'Task',
+            container_id: containerId,
+            component_id: componentId,
+            created_by: actorId,
+            updated_by: actorId,
+            is_automated_finding: true,
+            fingerprint: finding.fingerprint,
+            scanner: finding.scanner
+          })
+          .returning()
+          .execute();
+
+        await recordStatusChange(tx, {
+          issue_id: created[0].id,
+          from_status: null,
+          to_status: created[0].status,
+          note: null,
+          changed_by: actorId
+        });
+        await recordActivity(tx, [createdActivity('Issue', created[0].id, actorId)]);
+
+        issuesByFingerprint.set(finding.fingerprint, created[0]);
+        results.push({ ...reference, outcome: 'created', issue_id: created[0].id, reason: null });
+        continue;
+      }
+
+      // A resolved finding that is reported again is a regression. Closed
+      // findings are accepted risks and stay closed.
+      const regression = current.status === 'Resolved';
+      const changed = importedFields.filter(field => field in values && values[field] !== current[field]);
+      if (changed.length === 0 && !regression) {
+        results.push({ ...reference, outcome: 'skipped', issue_id: current.id, reason: 'Unchanged since the last import' });
+        continue;
+      }
+
+      const updated = await tx.update(securityIssuesTable)
+        .set({
+          ...values,
+          ...(changed.includes('cvss_vector') ? cvssColumns(values.cvss_vector ?? null, current, profile) : {}),
+          ...(regression ? { status: 'Open' as const, resolution_note: null } : {}),
+          updated_by: actorId,
+          updated_at: new Date()
+        })
+        .where(eq(securityIssuesTable.id, current.id))
+        .returning()
+        .execute();
+
+      if (regression) {
+        await recordStatusChange(tx, {
+          issue_id: current.id,
+          from_status: current.status,
+          to_status: 'Open',
+          note: `Regression: reported again by ${finding.scanner}`,
+          changed_by: actorId
+        });
+      }
+      await recordActivity(tx, diffActivity('Issue', current, updated[0], actorId));
+      results.push({ ...reference, outcome: regression ? 'reopened' : 'updated', issue_id: current.id, reason: null });
+    }
+
+    // Active findings of the same scanners and component that this report no
+    // longer contains have been fixed. The report comes from the caller, so
+    // resolving a Critical one takes the same permission as doing it by hand.
+    const candidates = reporting.length > 0
+      ? await tx.select()
+        .from(securityIssuesTable)
+        .where(and(
+          eq(securityIssuesTable.container_id, containerId),
+          eq(securityIssuesTable.is_automated_finding, true),
+          inArray(securityIssuesTable.scanner, reporting),
+          componentId === null ? isNull(securityIssuesTable.component_id) : eq(securityIssuesTable.component_id, componentId),
+          inArray(securityIssuesTable.status, ACTIVE_ISSUE_STATUSES),
+          ...(seen.size > 0 ? [notInArray(securityIssuesTable.fingerprint, [...seen])] : [])
+        ))
+        .orderBy(securityIssuesTable.id)
+        .execute()
+      : [];
+    const mayCloseCritical = hasPermission(actor.role, 'issues:close_critical');
+    const stale = candidates.filter(issue => issue.severity !== 'Critical' || mayCloseCritical);
+    const pending = candidates.filter(issue => !stale.includes(issue));
+
+    for (const issue of stale) {
+      const note = `No longer reported by ${issue.scanner}`;
+      const resolved = await tx.update(securityIssuesTable)
+        .set({ status: 'Resolved', resolution_note: note, updated_by: actorId, updated_at: new Date() })
+        .where(eq(securityIssuesTable.id, issue.id))
+        .returning()
+        .execute();
+
+      await recordStatusChange(tx, {
+        issue_id: issue.id,
+        from_status: issue.status,
+        to_status: 'Resolved',
+        note,
+        changed_by: actorId
+      });
+      await recordActivity(tx, diffActivity('Issue', issue, resolved[0], actorId));
+    }
+
+    const idsOf = (outcome: ImportedFinding['outcome']) =>
+      results.flatMap(result => result.outcome === outcome && result.issue_id !== null ? [result.issue_id] : []);
+    const delta = {
+      created: idsOf('created'),
+      updated: idsOf('updated'),
+      reopened: idsOf('reopened'),
+      resolved: stale.map(issue => issue.id)
+    };
+
+    const runs = await tx.insert(importRunsTable)
+      .values({
+        container_id: containerId,
+        component_id: componentId,
+        format: report.format,
+        scanners: report.scanners,
+        created: delta.created.length,
+        updated: delta.updated.length,
+        reopened: delta.reopened.length,
+        resolved: delta.resolved.length,
+        skipped: results.filter(result => result.outcome === 'skipped').length,
+        delta,
+        imported_by: actorId
+      })
+      .returning()
+      .execute();
+
+    return { run: runs[0], findings: results, resolvedIds: delta.resolved, pendingIds: pending.map(issue => issue.id) };
+  });
+
+  await recalculateContainerRiskScore(containerId);
+
+  return {
+    run_id: run.id,
+    created: run.created,
+    updated: run.updated,
+    reopened: run.reopened,
+    resolved: run.resolved,
+    skipped: run.skipped,
+    findings,
+    resolved_issue_ids: resolvedIds,
+    pending_issue_ids: pendingIds
+  };
+};
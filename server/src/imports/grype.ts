@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { type ParsedReport, parseReport } from './findings';
+import { cveIdOf, packageVulnerabilityEntry } from './image_scan';
+
+// The parts of a Grype JSON report (`grype <image> -o json`) the import reads
+const cvss = z.object({
+  type: z.string().optional(), // Primary or Secondary
+  version: z.string().optional(),
+  vector: z.string().optional()
+});
+
+const vulnerabilityMetadata = z.object({
+  id: z.string(),
+  description: z.string().optional(),
+  urls: z.array(z.string()).optional(),
+  cvss: z.array(cvss).optional()
+});
+
+const grypeReport = z.object({
+  matches: z.array(z.object({
+    vulnerability: vulnerabilityMetadata.extend({
+      severity: z.string().optional(),
+      dataSource: z.string().optional(),
+      fix: z.object({
+        versions: z.array(z.string()).optional(),
+        state: z.string().optional() // fixed, not-fixed, wont-fix or unknown
+      }).optional()
+    }),
+    relatedVulnerabilities: z.array(vulnerabilityMetadata).optional(),
+    artifact: z.object({
+      name: z.string(),
+      version: z.string(),
+      type: z.string().optional(),
+      locations: z.array(z.object({ path: z.string().optional() })).optional()
+    })
+  })),
+  source: z.object({
+    target: z.union([z.string(), z.object({ userInput: z.string().optional() })]).optional()
+  }).optional(),
+  descriptor: z.object({ name: z.string().optional(), version: z.string().optional() }).optional()
+});
+
+type GrypeCvss = z.infer<typeof cvss>;
+
+// Primary scores before secondary ones
+const vectorsOf = (scores: GrypeCvss[] = []): string[] =>
+  [...scores]
+    .sort((a, b) => Number(b.type === 'Primary') - Number(a.type === 'Primary'))
+    .flatMap(score => score.vector ? [score.vector] : []);
+
+// One entry per match of a vulnerability against a package
+export const parseGrypeReport = (input: string | Record<string, unknown>): ParsedReport => {
+  const report = parseReport('Grype report', input, grypeReport);
+  const sourceTarget = report.source?.target;
+  const target = typeof sourceTarget === 'string' ? sourceTarget : sourceTarget?.userInput ?? null;
+
+  const entries = report.matches.map((match, index) => {
+    const { vulnerability, artifact } = match;
+    const related = match.relatedVulnerabilities ?? [];
+    const fixVersions = vulnerability.fix?.state === 'fixed' ? vulnerability.fix.versions ?? [] : [];
+
+    return packageVulnerabilityEntry(`matches[${index}]`, {
+      tool: 'Grype',
+      tool_version: report.descriptor?.version ?? null,
+      target,
+      location: `${artifact.type ?? 'package'}:${artifact.locations?.[0]?.path ?? artifact.name}`,
+      vulnerability_id: vulnerability.id,
+      cve_id: cveIdOf(vulnerability.id, ...related.map(entry => entry.id)),
+      package_name: artifact.name,
+      package_version: artifact.version,
+      package_type: artifact.type ?? null,
+      fixed_version: fixVersions.length > 0 ? fixVersions.join(', ') : null,
+      severity: vulnerability.severity ?? null,
+      title: null,
+      description: vulnerability.description ?? related.find(entry => entry.description)?.description ?? null,
+      cvss_vectors: [...vectorsOf(vulnerability.cvss), ...related.flatMap(entry => vectorsOf(entry.cvss))],
+      references: [vulnerability.dataSource, ...(vulnerability.urls ?? []), ...related.flatMap(entry => entry.urls ?? [])]
+        .filter((url): url is string => !!url)
+    });
+  });
+
+  return { format: 'Grype', scanners: ['Grype'], entries };
+};
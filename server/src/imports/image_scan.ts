@@ -0,0 +1,98 @@
+import { validateCvssVector } from '../cvss/cvss';
+import { type FindingDraft, type ReportEntry, fingerprintOf, truncateTitle } from './findings';
+
+// A vulnerable package as reported by an image scanner (Trivy, Grype)
+export interface PackageVulnerability {
+  tool: string;
+  tool_version: string | null;
+  target: string | null; // Image, filesystem or lockfile that was scanned, for display
+  location: string; // Where the package was found; stable across image tags
+  vulnerability_id: string; // CVE, GHSA or distribution advisory id
+  cve_id: string | null;
+  package_name: string;
+  package_version: string;
+  package_type: string | null;
+  fixed_version: string | null;
+  severity: string | null; // The scanner's rating, used when there is no usable CVSS vector
+  title: string | null;
+  description: string | null;
+  cvss_vectors: string[]; // Candidates in order of preference
+  references: string[];
+}
+
+const scannerSeverities: Record<string, FindingDraft['severity']> = {
+  CRITICAL: 'Critical',
+  HIGH: 'High',
+  MEDIUM: 'Medium',
+  LOW: 'Low'
+};
+
+// Negligible and unknown ratings map to Low, the lowest issue severity
+const severityOf = (rating: string | null): FindingDraft['severity'] =>
+  scannerSeverities[rating?.toUpperCase() ?? ''] ?? 'Low';
+
+// CVSS 3.0 vectors use the same metrics as 3.1, so they are scored as 3.1.
+// Version 2 vectors are not supported and are passed over.
+const preferredCvssVector = (candidates: string[]): string | null => {
+  for (const candidate of candidates) {
+    const vector = candidate.trim().replace(/^CVSS:3\.0\//, 'CVSS:3.1/');
+    if (validateCvssVector(vector) === null) {
+      return vector;
+    }
+  }
+  return null;
+};
+
+// Vulnerability ids a CVE can be read from
+export const cveIdOf = (...ids: (string | undefined)[]): string | null =>
+  ids.find(id => id !== undefined && /^CVE-\d{4}-\d+$/i.test(id))?.toUpperCase() ?? null;
+
+const MAX_REFERENCES = 5;
+
+export const packageVulnerabilityEntry = (reference: string, vulnerability: PackageVulnerability): ReportEntry => {
+  const cvssVector = preferredCvssVector(vulnerability.cvss_vectors);
+  const tool = vulnerability.tool_version ? `${vulnerability.tool} ${vulnerability.tool_version}` : vulnerability.tool;
+  const packageLabel = vulnerability.package_type
+    ? `${vulnerability.package_name} ${vulnerability.package_version} (${vulnerability.package_type})`
+    : `${vulnerability.package_name} ${vulnerability.package_version}`;
+  const references = [...new Set(vulnerability.references)].slice(0, MAX_REFERENCES);
+
+  const description = [
+    vulnerability.title,
+    vulnerability.description?.trim() || null,
+    [
+      `Package: ${packageLabel}`,
+      `Fixed in: ${vulnerability.fixed_version ?? 'no fixed version available'}`,
+      vulnerability.target ? `Found in: ${vulnerability.target}` : null,
+      `Vulnerability: ${vulnerability.vulnerability_id} (${tool})`,
+      vulnerability.severity ? `Scanner severity: ${vulnerability.severity}` : null,
+      cvssVector ? `CVSS: ${cvssVector}` : null
+    ].filter(line => line !== null).join('\n'),
+    references.length > 0 ? `References:\n${references.map(url => `- ${url}`).join('\n')}` : null
+  ].filter(section => section !== null).join('\n\n');
+
+  return {
+    reference,
+    rule_id: vulnerability.vulnerability_id,
+    finding: {
+      // The installed version is left out so an upgrade that is still
+      // vulnerable updates the existing issue
+      fingerprint: fingerprintOf(
+        vulnerability.tool.toLowerCase(),
+        vulnerability.location,
+        vulnerability.package_name,
+        vulnerability.vulnerability_id
+      ),
+      scanner: vulnerability.tool,
+      title: truncateTitle(`${vulnerability.cve_id ?? vulnerability.vulnerability_id} in ${vulnerability.package_name} ${vulnerability.package_version}`),
+      description,
+      severity: severityOf(vulnerability.severity),
+      classification: 'Vulnerability',
+      cvss_vector: cvssVector,
+      cve_id: vulnerability.cve_id,
+      package_name: vulnerability.package_name,
+      package_version: vulnerability.package_version,
+      fixed_version: vulnerability.fixed_version
+    }
+  };
+};
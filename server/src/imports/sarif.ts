@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import { cvssSeverity } from '../cvss/cvss';
+import { type FindingDraft, type ParsedReport, type ReportEntry, fingerprintOf, parseReport, truncateTitle } from './findings';
+
+// The parts of SARIF 2.1.0 (OASIS static analysis results format) the import
+// reads; everything else in the log is ignored
+const level = z.enum(['none', 'note', 'warning', 'error']);
+
+const multiformatMessage = z.object({
+  text: z.string(),
+  markdown: z.string().optional()
+});
+
+const properties = z.record(z.unknown());
+
+const rule = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  shortDescription: multiformatMessage.optional(),
+  fullDescription: multiformatMessage.optional(),
+  help: multiformatMessage.optional(),
+  helpUri: z.string().optional(),
+  messageStrings: z.record(multiformatMessage).optional(),
+  defaultConfiguration: z.object({ level: level.optional() }).optional(),
+  properties: properties.optional()
+});
+
+const toolComponent = z.object({
+  name: z.string(),
+  version: z.string().optional(),
+  semanticVersion: z.string().optional(),
+  rules: z.array(rule).optional()
+});
+
+const artifactLocation = z.object({
+  uri: z.string().optional(),
+  index: z.number().int().optional()
+});
+
+const location = z.object({
+  physicalLocation: z.object({
+    artifactLocation: artifactLocation.optional(),
+    region: z.object({
+      startLine: z.number().int().optional(),
+      startColumn: z.number().int().optional()
+    }).optional()
+  }).optional(),
+  logicalLocations: z.array(z.object({
+    name: z.string().optional(),
+    fullyQualifiedName: z.string().optional()
+  })).optional()
+});
+
+const result = z.object({
+  ruleId: z.string().optional(),
+  ruleIndex: z.number().int().optional(),
+  rule: z.object({
+    id: z.string().optional(),
+    index: z.number().int().optional(),
+    toolComponent: z.object({ index: z.number().int().optional() }).optional()
+  }).optional(),
+  kind: z.enum(['notApplicable', 'pass', 'fail', 'review', 'open', 'informational']).optional(),
+  level: level.optional(),
+  message: z.object({
+    text: z.string().optional(),
+    id: z.string().optional(),
+    arguments: z.array(z.string()).optional()
+  }),
+  locations: z.array(location).optional(),
+  fingerprints: z.record(z.string()).optional(),
+  partialFingerprints: z.record(z.string()).optional(),
+  suppressions: z.array(z.object({ status: z.enum(['accepted', 'underReview', 'rejected']).optional() })).optional(),
+  baselineState: z.enum(['new', 'unchanged', 'updated', 'absent']).optional(),
+  properties: properties.optional()
+});
+
+const run = z.object({
+  tool: z.object({
+    driver: toolComponent,
+    extensions: z.array(toolComponent).optional()
+  }),
+  artifacts: z.array(z.object({ location: artifactLocation.optional() })).optional(),
+  results: z.array(result).nullable().optional() // Null when the tool failed to run
+});
+
+const sarifLog = z.object({
+  version: z.literal('2.1.0'),
+  runs: z.array(run)
+});
+
+type SarifRun = z.infer<typeof run>;
+type SarifResult = z.infer<typeof result>;
+type SarifRule = z.infer<typeof rule>;
+
+// SARIF levels mapped onto issue severity when the rule has no security-severity
+const levelSeverity: Record<Exclude<z.infer<typeof level>, 'none'>, FindingDraft['severity']> = {
+  error: 'High',
+  warning: 'Medium',
+  note: 'Low'
+};
+
+// Results point at their rule by index, by id, or through a tool extension
+// (CodeQL keeps its rules in query pack extensions)
+const findRule = (sarifRun: SarifRun, sarifResult: SarifResult): SarifRule | undefined => {
+  const componentIndex = sarifResult.rule?.toolComponent?.index;
+  const component = componentIndex !== undefined ? sarifRun.tool.extensions?.[componentIndex] : sarifRun.tool.driver;
+  const rules = component?.rules ?? [];
+
+  const index = sarifResult.rule?.index ?? sarifResult.ruleIndex;
+  if (index !== undefined && rules[index]) {
+    return rules[index];
+  }
+
+  const id = sarifResult.rule?.id ?? sarifResult.ruleId;
+  const allRules = [sarifRun.tool.driver, ...(sarifRun.tool.extensions ?? [])].flatMap(tool => tool.rules ?? []);
+  return allRules.find(candidate => candidate.id === id);
+};
+
+// Fills in {0}-style placeholders and reduces embedded links to their text
+const messageText = (sarifResult: SarifResult, sarifRule: SarifRule | undefined): string => {
+  const template = sarifResult.message.text
+    ?? (sarifResult.message.id ? sarifRule?.messageStrings?.[sarifResult.message.id]?.text : undefined)
+    ?? '';
+  const args = sarifResult.message.arguments ?? [];
+
+  return template
+    .replace(/\{(\d+)\}/g, (placeholder, index) => args[Number(index)] ?? placeholder)
+    .replace(/\[([^\]]+)\]\(\d+\)/g, '$1')
+    .trim();
+};
+
+// A result without a level inherits its rule's default, and failing that, warning
+const levelOf = (sarifResult: SarifResult, sarifRule: SarifRule | undefined): z.infer<typeof level> =>
+  sarifResult.level ?? sarifRule?.defaultConfiguration?.level ?? 'warning';
+
+const securitySeverity = (sarifResult: SarifResult, sarifRule: SarifRule | undefined): number | null => {
+  const raw = sarifResult.properties?.['security-severity'] ?? sarifRule?.properties?.['security-severity'];
+  if (typeof raw !== 'string' && typeof raw !== 'number') {
+    return null;
+  }
+  const score = Number(raw);
+  return raw !== '' && Number.isFinite(score) && score >= 0 && score <= 10 ? score : null;
+};
+
+const classificationOf = (sarifRule: SarifRule | undefined): FindingDraft['classification'] => {
+  const tags = sarifRule?.properties?.['tags'];
+  const normalized = Array.isArray(tags) ? tags.map(tag => String(tag).toLowerCase()) : [];
+
+  if (normalized.includes('vulnerability')) return 'Vulnerability';
+  if (normalized.includes('misconfiguration')) return 'Misconfiguration';
+  return 'Weakness';
+};
+
+const primaryLocation = (sarifRun: SarifRun, sarifResult: SarifResult) => {
+  const first = sarifResult.locations?.[0];
+  const artifact = first?.physicalLocation?.artifactLocation;
+  const uri = artifact?.uri
+    ?? (artifact?.index !== undefined ? sarifRun.artifacts?.[artifact.index]?.location?.uri : undefined)
+    ?? null;
+  const logical = first?.logicalLocations?.[0];
+
+  return {
+    uri,
+    line: first?.physicalLocation?.region?.startLine ?? null,
+    column: first?.physicalLocation?.region?.startColumn ?? null,
+    logical: logical?.fullyQualifiedName ?? logical?.name ?? null
+  };
+};
+
+const describeLocation = (where: ReturnType<typeof primaryLocation>): string | null => {
+  if (where.uri) {
+    return [where.uri, where.line, where.line !== null ? where.column : null]
+      .filter(part => part !== null)
+      .join(':');
+  }
+  return where.logical;
+};
+
+// Why a result should not become an issue, or null when it should
+const skipReason = (sarifResult: SarifResult, resultLevel: z.infer<typeof level>): string | null => {
+  const kind = sarifResult.kind ?? 'fail';
+  if (kind !== 'fail') {
+    return `Result kind is ${kind}`;
+  }
+  if (resultLevel === 'none') {
+    return 'Result level is none';
+  }
+  // Suppressed unless a suppression is still under review or was rejected
+  const suppressions = sarifResult.suppressions ?? [];
+  if (suppressions.length > 0 && suppressions.every(suppression => (suppression.status ?? 'accepted') === 'accepted')) {
+    return 'Result is suppressed';
+  }
+  if (sarifResult.baselineState === 'absent') {
+    return 'Result is absent from the current scan';
+  }
+  return null;
+};
+
+const toFinding = (sarifRun: SarifRun, sarifResult: SarifResult, sarifRule: SarifRule | undefined, ruleId: string | null): FindingDraft => {
+  const toolName = sarifRun.tool.driver.name;
+  const toolVersion = sarifRun.tool.driver.semanticVersion ?? sarifRun.tool.driver.version;
+  const where = primaryLocation(sarifRun, sarifResult);
+  const locationText = describeLocation(where);
+  const message = messageText(sarifResult, sarifRule);
+
+  const score = securitySeverity(sarifResult, sarifRule);
+  const severity = score !== null ? cvssSeverity(score) : levelSeverity[levelOf(sarifResult, sarifRule) as keyof typeof levelSeverity];
+
+  const ruleTitle = (sarifRule?.shortDescription?.text ?? sarifRule?.name ?? ruleId ?? message.split('\n')[0])
+    .trim()
+    .replace(/\.$/, '');
+  const fileName = where.uri ? where.uri.split('/').pop() : null;
+  const title = truncateTitle(fileName ? `${ruleTitle} in ${fileName}` : ruleTitle || `${toolName} finding`);
+
+  const help = sarifRule?.help?.markdown ?? sarifRule?.help?.text ?? sarifRule?.fullDescription?.text;
+  const description = [
+    message || ruleTitle,
+    [
+      locationText ? `Location: ${locationText}` : null,
+      `Rule: ${ruleId ?? 'unknown'} (${toolVersion ? `${toolName} ${toolVersion}` : toolName})`,
+      score !== null ? `Security severity: ${score}` : null
+    ].filter(line => line !== null).join('\n'),
+    help?.trim() || null,
+    sarifRule?.helpUri ? `More information: ${sarifRule.helpUri}` : null
+  ].filter(section => section !== null).join('\n\n');
+
+  // Tool fingerprints survive code moving within a file; without them the
+  // line number is the best identity available
+  const stableIdentity = sarifResult.fingerprints ?? sarifResult.partialFingerprints ?? where.line;
+
+  return {
+    fingerprint: fingerprintOf('sarif', toolName, ruleId, where.uri ?? where.logical, stableIdentity),
+    scanner: toolName,
+    title,
+    description,
+    severity,
+    classification: classificationOf(sarifRule)
+  };
+};
+
+// Parses a SARIF 2.1.0 log into report entries, one per result, covering the
+// tool of every run. Throws BAD_REQUEST when the log is not JSON or not SARIF 2.1.0.
+export const parseSarif = (input: string | Record<string, unknown>): ParsedReport => {
+  const log = parseReport('SARIF', input, sarifLog);
+
+  const entries = log.runs.flatMap((sarifRun, runIndex) =>
+    (sarifRun.results ?? []).map((sarifResult, resultIndex): ReportEntry => {
+      const sarifRule = findRule(sarifRun, sarifResult);
+      const ruleId = sarifResult.ruleId ?? sarifResult.rule?.id ?? sarifRule?.id ?? null;
+      const reference = { reference: `runs[${runIndex}].results[${resultIndex}]`, rule_id: ruleId };
+
+      const reason = skipReason(sarifResult, levelOf(sarifResult, sarifRule));
+      if (reason) {
+        return { ...reference, skipped: reason };
+      }
+
+      return { ...reference, finding: toFinding(sarifRun, sarifResult, sarifRule, ruleId) };
+    })
+  );
+
+  return {
+    format: 'SARIF',
+    scanners: [...new Set(log.runs.map(sarifRun => sarifRun.tool.driver.name))],
+    entries
+  };
+};
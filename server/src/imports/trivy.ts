@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { type ParsedReport, parseReport } from './findings';
+import { cveIdOf, packageVulnerabilityEntry } from './image_scan';
+
+// The parts of a Trivy JSON report (`trivy image --format json`, schema
+// version 2) the import reads. Misconfigurations and secrets are not imported.
+const cvssScores = z.object({
+  V3Vector: z.string().optional(),
+  V40Vector: z.string().optional()
+});
+
+const vulnerability = z.object({
+  VulnerabilityID: z.string(),
+  PkgName: z.string(),
+  PkgPath: z.string().optional(),
+  InstalledVersion: z.string(),
+  FixedVersion: z.string().optional(),
+  Severity: z.string().optional(),
+  SeveritySource: z.string().optional(),
+  Title: z.string().optional(),
+  Description: z.string().optional(),
+  PrimaryURL: z.string().optional(),
+  References: z.array(z.string()).optional(),
+  CVSS: z.record(cvssScores).optional()
+});
+
+const trivyReport = z.object({
+  SchemaVersion: z.literal(2),
+  ArtifactName: z.string().optional(),
+  Trivy: z.object({ Version: z.string().optional() }).optional(),
+  Results: z.array(z.object({
+    Target: z.string(),
+    Class: z.string().optional(),
+    Type: z.string().optional(),
+    Vulnerabilities: z.array(vulnerability).nullable().optional()
+  })).optional()
+});
+
+type TrivyVulnerability = z.infer<typeof vulnerability>;
+
+// The source Trivy took the severity from first, then NVD, then the rest
+const cvssVectors = (entry: TrivyVulnerability): string[] => {
+  const sources = Object.keys(entry.CVSS ?? {}).sort((a, b) => {
+    const rank = (source: string) => source === entry.SeveritySource ? 0 : source === 'nvd' ? 1 : 2;
+    return rank(a) - rank(b);
+  });
+
+  return sources.flatMap(source => {
+    const scores = entry.CVSS?.[source];
+    return [scores?.V3Vector, scores?.V40Vector].filter((vector): vector is string => !!vector);
+  });
+};
+
+// One entry per vulnerable package and vulnerability
+export const parseTrivyReport = (input: string | Record<string, unknown>): ParsedReport => {
+  const report = parseReport('Trivy report', input, trivyReport);
+
+  const entries = (report.Results ?? []).flatMap((result, resultIndex) =>
+    (result.Vulnerabilities ?? []).map((entry, vulnerabilityIndex) => {
+      // OS package targets name the image tag, so they are identified by distribution instead
+      const location = entry.PkgPath
+        ?? (result.Class === 'os-pkgs' ? `os-pkgs:${result.Type ?? 'unknown'}` : result.Target);
+
+      return packageVulnerabilityEntry(`Results[${resultIndex}].Vulnerabilities[${vulnerabilityIndex}]`, {
+        tool: 'Trivy',
+        tool_version: report.Trivy?.Version ?? null,
+        target: result.Target,
+        location,
+        vulnerability_id: entry.VulnerabilityID,
+        cve_id: cveIdOf(entry.VulnerabilityID),
+        package_name: entry.PkgName,
+        package_version: entry.InstalledVersion,
+        package_type: result.Type ?? null,
+        fixed_version: entry.FixedVersion || null,
+        severity: entry.Severity ?? null,
+        title: entry.Title ?? null,
+        description: entry.Description ?? null,
+        cvss_vectors: cvssVectors(entry),
+        references: [entry.PrimaryURL, ...(entry.References ?? [])].filter((url): url is string => !!url)
+      });
+    })
+  );
+
+  return { format: 'Trivy', scanners: ['Trivy'], entries };
+};
@@ -0,0 +1,154 @@
+// A small, non-validating XML reader for scanner reports. It covers what the
+// report formats use: elements, attributes, text, CDATA and the predefined and
+// numeric entities. Document type declarations are skipped without expanding
+// any entities they declare, so reports cannot pull in external content.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Text and CDATA directly inside the element, concatenated
+}
+
+const syntaxError = (message: string, offset: number): Error =>
+  new Error(`${message} at offset ${offset}`);
+
+const predefinedEntities: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+const decodeEntities = (raw: string, offset: number): string =>
+  raw.replace(/&([^;&\s]*);?/g, (match, name: string) => {
+    if (!match.endsWith(';')) {
+      throw syntaxError('Unterminated entity reference', offset);
+    }
+    const code = name.startsWith('#x') ? parseInt(name.slice(2), 16)
+      : name.startsWith('#') ? parseInt(name.slice(1), 10)
+        : NaN;
+    if (!Number.isNaN(code)) {
+      return String.fromCodePoint(code);
+    }
+    const entity = predefinedEntities[name];
+    if (entity === undefined) {
+      throw syntaxError(`Unknown entity &${name};`, offset);
+    }
+    return entity;
+  });
+
+const NAME = /[A-Za-z_:][\w.:-]*/y;
+const ATTRIBUTE = /\s+([A-Za-z_:][\w.:-]*)\s*=\s*(?:"([^"<]*)"|'([^'<]*)')/y;
+
+// Parses a document and returns its root element. Throws for input that is
+// not well-formed.
+export const parseXml = (source: string): XmlElement => {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let position = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) {
+      throw syntaxError(`Unterminated ${what}`, position);
+    }
+    const content = source.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+
+  const appendText = (text: string) => {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.text += text;
+    } else if (text.trim() !== '') {
+      throw syntaxError('Text outside the root element', position);
+    }
+  };
+
+  while (position < source.length) {
+    if (source.startsWith('<?', position)) {
+      position += 2;
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!--', position)) {
+      position += 4;
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      position += 9;
+      appendText(skipPast(']]>', 'CDATA section'));
+    } else if (source.startsWith('<!DOCTYPE', position)) {
+      // The internal subset in brackets may itself contain '>'
+      const subsetEnd = source.indexOf(']', position);
+      const declarationEnd = source.indexOf('>', position);
+      const subsetStart = source.indexOf('[', position);
+      if (subsetStart !== -1 && subsetStart < declarationEnd && subsetEnd !== -1) {
+        position = subsetEnd + 1;
+      }
+      skipPast('>', 'document type declaration');
+    } else if (source.startsWith('</', position)) {
+      const start = position;
+      position += 2;
+      const name = skipPast('>', 'end tag').trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw syntaxError(`Unexpected end tag </${name}>`, start);
+      }
+    } else if (source[position] === '<') {
+      const start = position;
+      NAME.lastIndex = position + 1;
+      const name = NAME.exec(source)?.[0];
+      if (!name) {
+        throw syntaxError('Invalid tag', start);
+      }
+      position = NAME.lastIndex;
+
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+      for (;;) {
+        ATTRIBUTE.lastIndex = position;
+        const attribute = ATTRIBUTE.exec(source);
+        if (!attribute) break;
+        element.attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3], position);
+        position = ATTRIBUTE.lastIndex;
+      }
+      while (/\s/.test(source[position] ?? '')) position++;
+
+      const selfClosing = source.startsWith('/>', position);
+      if (!selfClosing && source[position] !== '>') {
+        throw syntaxError(`Malformed start tag <${name}>`, start);
+      }
+      position += selfClosing ? 2 : 1;
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        throw syntaxError('More than one root element', start);
+      } else {
+        root = element;
+      }
+      if (!selfClosing) stack.push(element);
+    } else {
+      const start = position;
+      const end = source.indexOf('<', position);
+      position = end === -1 ? source.length : end;
+      appendText(decodeEntities(source.slice(start, position), start));
+    }
+  }
+
+  if (stack.length > 0) {
+    throw syntaxError(`Unclosed element <${stack[stack.length - 1].name}>`, position);
+  }
+  if (!root) {
+    throw syntaxError('No root element', position);
+  }
+  return root;
+};
+
+export const childElements = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter(child => child.name === name);
+
+// Trimmed text of the first child with the name; null when absent or empty
+export const childText = (element: XmlElement, name: string): string | null =>
+  element.children.find(child => child.name === name)?.text.trim() || null;
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { type ParsedReport, parseReport } from './findings';
+import { type DastAlert, type DastConfidence, type DastRisk, cweIdOf, dastReport, htmlToText, parseXmlReport, urlsIn } from './dast';
+import { type XmlElement, childElements, childText } from './xml';
+
+// The parts of a ZAP traditional report (`-J report.json` or `-x report.xml`)
+// the import reads. Both formats carry the same fields, as strings.
+const instance = z.object({
+  uri: z.string(),
+  method: z.string().optional(),
+  param: z.string().optional(),
+  attack: z.string().optional(),
+  evidence: z.string().optional(),
+  otherinfo: z.string().optional()
+});
+
+const alert = z.object({
+  pluginid: z.string(),
+  alert: z.string().optional(),
+  name: z.string().optional(),
+  riskcode: z.string(),
+  confidence: z.string(),
+  desc: z.string().optional(),
+  solution: z.string().optional(),
+  otherinfo: z.string().optional(),
+  reference: z.string().optional(),
+  cweid: z.string().optional(),
+  instances: z.array(instance)
+});
+
+const zapReport = z.object({
+  '@programName': z.string().optional(),
+  '@version': z.string().optional(),
+  site: z.array(z.object({
+    '@name': z.string().optional(),
+    alerts: z.array(alert)
+  }))
+});
+
+type ZapAlert = z.infer<typeof alert>;
+
+interface ZapReport {
+  version: string | null;
+  sites: ZapAlert[][];
+}
+
+const risks: Record<string, DastRisk> = {
+  0: 'Informational',
+  1: 'Low',
+  2: 'Medium',
+  3: 'High'
+};
+
+const confidences: Record<string, DastConfidence> = {
+  0: 'False positive',
+  1: 'Low',
+  2: 'Medium',
+  3: 'High',
+  4: 'Confirmed'
+};
+
+const readJsonReport = (input: string | Record<string, unknown>): ZapReport => {
+  const report = parseReport('ZAP report', input, zapReport);
+  return {
+    version: report['@version'] ?? null,
+    sites: report.site.map(site => site.alerts)
+  };
+};
+
+const optionalText = (element: XmlElement, name: string): string | undefined =>
+  childText(element, name) ?? undefined;
+
+// XML alert items hold the same fields as child elements. Reports from
+// before ZAP 2.10 have no instances and put the first one on the item itself.
+const readXmlAlert = (item: XmlElement): unknown => {
+  const instances = item.children.find(child => child.name === 'instances');
+  const readInstance = (element: XmlElement) => ({
+    uri: childText(element, 'uri'),
+    method: optionalText(element, 'method'),
+    param: optionalText(element, 'param'),
+    attack: optionalText(element, 'attack'),
+    evidence: optionalText(element, 'evidence'),
+    otherinfo: optionalText(element, 'otherinfo')
+  });
+
+  return {
+    pluginid: childText(item, 'pluginid'),
+    alert: optionalText(item, 'alert'),
+    name: optionalText(item, 'name'),
+    riskcode: childText(item, 'riskcode'),
+    confidence: childText(item, 'confidence'),
+    desc: optionalText(item, 'desc'),
+    solution: optionalText(item, 'solution'),
+    otherinfo: optionalText(item, 'otherinfo'),
+    reference: optionalText(item, 'reference'),
+    cweid: optionalText(item, 'cweid'),
+    instances: instances
+      ? childElements(instances, 'instance').map(readInstance)
+      : childText(item, 'uri') ? [readInstance(item)] : []
+  };
+};
+
+const readXmlReport = (input: string): ZapReport => {
+  const root = parseXmlReport('ZAP report', input, 'OWASPZAPReport');
+  const report = parseReport('ZAP report', {
+    '@version': root.attributes['version'],
+    site: childElements(root, 'site').map(site => ({
+      alerts: site.children
+        .filter(child => child.name === 'alerts')
+        .flatMap(alerts => childElements(alerts, 'alertitem').map(readXmlAlert))
+    }))
+  }, zapReport);
+
+  return { version: report['@version'] ?? null, sites: report.site.map(site => site.alerts) };
+};
+
+// One entry per alert instance, plus a Story for each alert raised on several
+// URLs. Accepts the JSON report as text or parsed, or the XML report as text.
+export const parseZapReport = (input: string | Record<string, unknown>): ParsedReport => {
+  const report = typeof input === 'string' && input.trimStart().startsWith('<')
+    ? readXmlReport(input)
+    : readJsonReport(input);
+
+  const alerts = report.sites.flatMap((siteAlerts, siteIndex) =>
+    siteAlerts.flatMap((zapAlert, alertIndex) => {
+      const references = urlsIn(zapAlert.reference);
+      const description = htmlToText(zapAlert.desc);
+      const solution = htmlToText(zapAlert.solution);
+
+      return zapAlert.instances.map((zapInstance, instanceIndex): DastAlert => ({
+        reference: `site[${siteIndex}].alerts[${alertIndex}].instances[${instanceIndex}]`,
+        tool: 'ZAP',
+        tool_version: report.version,
+        alert_id: zapAlert.pluginid,
+        name: zapAlert.name ?? zapAlert.alert ?? `ZAP alert ${zapAlert.pluginid}`,
+        risk: risks[zapAlert.riskcode] ?? 'Informational',
+        confidence: confidences[zapAlert.confidence] ?? 'Medium',
+        description,
+        solution,
+        references,
+        cwe_id: cweIdOf(zapAlert.cweid),
+        url: zapInstance.uri,
+        method: zapInstance.method || null,
+        parameter: zapInstance.param || null,
+        attack: zapInstance.attack || null,
+        evidence: zapInstance.evidence || null,
+        other_info: htmlToText(zapInstance.otherinfo ?? zapAlert.otherinfo)
+      }));
+    })
+  );
+
+  return dastReport('ZAP', alerts);
+};
@@ -1,152 +1,498 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import { router, publicProcedure, protectedProcedure, createContext } from './trpc';
 
 // Import all schemas
 import {
+  loginInputSchema,
   createUserInputSchema,
   createContainerInputSchema,
   createSecurityIssueInputSchema,
   updateSecurityIssueInputSchema,
+  updateContainerInputSchema,
+  updateSecurityReviewInputSchema,
+  updateSecurityViolationInputSchema,
+  updateSecurityControlInputSchema,
+  updateArchitectureComponentInputSchema,
+  archiveInputSchema,
   createSecurityReviewInputSchema,
   createSecurityViolationInputSchema,
   createSecurityControlInputSchema,
   createArchitectureComponentInputSchema,
-  securityIssueFilterSchema
+  createScoringProfileInputSchema,
+  setContainerScoringProfileInputSchema,
+  recomputeRiskScoresInputSchema,
+  importSarifInputSchema,
+  importReportInputSchema,
+  getImportRunsInputSchema,
+  externalSyncInputSchema,
+  createCommentInputSchema,
+  updateCommentInputSchema,
+  entityActivityInputSchema,
+  auditLogFilterSchema,
+  createWebhookSubscriptionInputSchema,
+  updateWebhookSubscriptionInputSchema,
+  webhookDeliveryFilterSchema,
+  updateNotificationPreferencesInputSchema,
+  createSiemMappingRuleInputSchema,
+  updateSiemMappingRuleInputSchema,
+  searchInputSchema,
+  createSavedViewInputSchema,
+  getSavedViewsInputSchema,
+  updateSavedViewInputSchema,
+  pinSavedViewInputSchema,
+  runSavedViewInputSchema,
+  getSecurityIssuesInputSchema,
+  getSecurityViolationsInputSchema,
+  getContainersInputSchema,
+  getSecurityReviewsInputSchema,
+  getSecurityControlsInputSchema,
+  getArchitectureComponentsInputSchema,
+  containerPageInputSchema,
+  listPageInputSchema,
+  bulkUpdateSecurityIssuesInputSchema,
+  bulkUpdateSecurityViolationsInputSchema
 } from './schema';
 
 // Import all handlers
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
 import { createUser } from './handlers/create_user';
 import { getUsers } from './handlers/get_users';
 import { createContainer } from './handlers/create_container';
 import { getContainers } from './handlers/get_containers';
+import { updateContainer } from './handlers/update_container';
+import { archiveContainer, restoreContainer } from './handlers/archive_container';
 import { updateContainerRiskScore } from './handlers/update_container_risk_score';
+import { createScoringProfile } from './handlers/create_scoring_profile';
+import { getScoringProfiles } from './handlers/get_scoring_profiles';
+import { setContainerScoringProfile } from './handlers/set_container_scoring_profile';
+import { recomputeRiskScores } from './handlers/recompute_risk_scores';
 import { createSecurityIssue } from './handlers/create_security_issue';
 import { getSecurityIssues, getSecurityIssuesByContainer } from './handlers/get_security_issues';
 import { updateSecurityIssue } from './handlers/update_security_issue';
+import { bulkUpdateSecurityIssues } from './handlers/bulk_update_security_issues';
+import { importSarif } from './handlers/import_sarif';
+import { importTrivy, importGrype } from './handlers/import_image_scan';
+import { importZap, importBurp } from './handlers/import_dast';
+import { getImportRuns } from './handlers/get_import_runs';
+import { pushIssuesToJira, pullIssuesFromJira } from './handlers/sync_jira';
+import { pushIssuesToAzureDevOps, pullIssuesFromAzureDevOps } from './handlers/sync_azure_devops';
+import { getExternalSyncStatus } from './handlers/get_external_sync_status';
+import { getIssueStatusHistory } from './handlers/get_issue_status_history';
+import { getIssueWorkflow } from './handlers/get_issue_workflow';
+import { getIssueTree } from './handlers/get_issue_tree';
 import { createSecurityReview } from './handlers/create_security_review';
 import { getSecurityReviews, getSecurityReviewsByContainer } from './handlers/get_security_reviews';
+import { updateSecurityReview } from './handlers/update_security_review';
+import { archiveSecurityReview, restoreSecurityReview } from './handlers/archive_security_review';
 import { processDocumentAiAnalysis } from './handlers/process_document_ai_analysis';
 import { createSecurityViolation } from './handlers/create_security_violation';
 import { getSecurityViolations, getActiveSecurityViolations } from './handlers/get_security_violations';
+import { updateSecurityViolation } from './handlers/update_security_violation';
+import { bulkUpdateSecurityViolations } from './handlers/bulk_update_security_violations';
+import { archiveSecurityViolation, restoreSecurityViolation } from './handlers/archive_security_violation';
 import { createSecurityControl } from './handlers/create_security_control';
 import { getSecurityControls, getSecurityControlsByContainer } from './handlers/get_security_controls';
+import { getControlFrameworks } from './handlers/get_control_frameworks';
+import { updateSecurityControl } from './handlers/update_security_control';
+import { archiveSecurityControl, restoreSecurityControl } from './handlers/archive_security_control';
 import { createArchitectureComponent } from './handlers/create_architecture_component';
 import { getArchitectureComponents, getArchitectureComponentsByContainer } from './handlers/get_architecture_components';
+import { updateArchitectureComponent } from './handlers/update_architecture_component';
+import { archiveArchitectureComponent, restoreArchitectureComponent } from './handlers/archive_architecture_component';
 import { getDashboardAnalytics, getContainerRiskAnalytics } from './handlers/get_dashboard_analytics';
+import { getMigrationStatus } from './handlers/get_migration_status';
+import { runMigrations } from './db/migrate';
+import { seedOptionsFromEnv, seedReferenceData } from './db/seed';
+import { jiraConfigFromEnv } from './integrations/jira';
+import { scheduleJiraPull } from './integrations/jira_sync';
+import { handleJiraWebhookRequest } from './integrations/jira_webhook';
+import { azureDevOpsConfigFromEnv } from './integrations/azure_devops';
+import { scheduleAzureDevOpsPull } from './integrations/azure_devops_sync';
+import { createComment } from './handlers/create_comment';
+import { updateComment } from './handlers/update_comment';
+import { deleteComment } from './handlers/delete_comment';
+import { getComments } from './handlers/get_comments';
+import { getActivityFeed } from './handlers/get_activity_feed';
+import { getAuditLog } from './handlers/get_audit_log';
+import { verifyAuditLog } from './handlers/verify_audit_log';
+import { createWebhookSubscription } from './handlers/create_webhook_subscription';
+import { getWebhookSubscriptions } from './handlers/get_webhook_subscriptions';
+import { updateWebhookSubscription } from './handlers/update_webhook_subscription';
+import { deleteWebhookSubscription } from './handlers/delete_webhook_subscription';
+import { getWebhookDeliveries } from './handlers/get_webhook_deliveries';
+import { redeliverWebhook } from './handlers/redeliver_webhook';
+import { scheduleWebhookDelivery } from './webhooks/delivery';
+import { getNotificationPreferences } from './handlers/get_notification_preferences';
+import { updateNotificationPreferences } from './handlers/update_notification_preferences';
+import { notificationConfigFromEnv, scheduleNotifications } from './notifications/delivery';
+import { createSiemMappingRule } from './handlers/create_siem_mapping_rule';
+import { getSiemMappingRules } from './handlers/get_siem_mapping_rules';
+import { updateSiemMappingRule } from './handlers/update_siem_mapping_rule';
+import { deleteSiemMappingRule } from './handlers/delete_siem_mapping_rule';
+import { startSyslogReceiver, syslogConfigFromEnv } from './syslog/receiver';
+import { search } from './handlers/search';
+import { createSavedView } from './handlers/create_saved_view';
+import { getSavedViews } from './handlers/get_saved_views';
+import { updateSavedView } from './handlers/update_saved_view';
+import { deleteSavedView } from './handlers/delete_saved_view';
+import { pinSavedView } from './handlers/pin_saved_view';
+import { getSavedViewIssues, getSavedViewViolations } from './handlers/get_saved_view_results';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Authentication
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(({ input }) => login(input)),
+  logout: protectedProcedure
+    .mutation(({ ctx }) => logout(ctx.sessionToken)),
+  me: protectedProcedure
+    .query(({ ctx }) => ctx.user),
+
   // User management
-  createUser: publicProcedure
+  createUser: protectedProcedure
     .input(createUserInputSchema)
     .mutation(({ input }) => createUser(input)),
-  getUsers: publicProcedure
+  getUsers: protectedProcedure
     .query(() => getUsers()),
 
   // Container management (Scopes)
-  createContainer: publicProcedure
+  createContainer: protectedProcedure
     .input(createContainerInputSchema)
-    .mutation(({ input }) => createContainer(input)),
-  getContainers: publicProcedure
-    .query(() => getContainers()),
-  updateContainerRiskScore: publicProcedure
+    .mutation(({ input, ctx }) => createContainer(input, ctx.user.id)),
+  getContainers: protectedProcedure
+    .input(getContainersInputSchema.default({}))
+    .query(({ input }) => getContainers(input)),
+  updateContainer: protectedProcedure
+    .input(updateContainerInputSchema)
+    .mutation(({ input, ctx }) => updateContainer(input, ctx.user.id)),
+  archiveContainer: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => archiveContainer(input.id, ctx.user.id)),
+  restoreContainer: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => restoreContainer(input.id, ctx.user.id)),
+  updateContainerRiskScore: protectedProcedure
     .input(z.object({ containerId: z.number() }))
     .mutation(({ input }) => updateContainerRiskScore(input.containerId)),
 
+  // Risk scoring profiles
+  createScoringProfile: protectedProcedure
+    .input(createScoringProfileInputSchema)
+    .mutation(({ input, ctx }) => createScoringProfile(input, ctx.user.id)),
+  getScoringProfiles: protectedProcedure
+    .query(() => getScoringProfiles()),
+  setContainerScoringProfile: protectedProcedure
+    .input(setContainerScoringProfileInputSchema)
+    .mutation(({ input, ctx }) => setContainerScoringProfile(input, ctx.user.id)),
+  recomputeRiskScores: protectedProcedure
+    .input(recomputeRiskScoresInputSchema)
+    .mutation(({ input }) => recomputeRiskScores(input)),
+
   // Security Issues (Workroom)
-  createSecurityIssue: publicProcedure
+  createSecurityIssue: protectedProcedure
     .input(createSecurityIssueInputSchema)
-    .mutation(({ input }) => createSecurityIssue(input)),
-  getSecurityIssues: publicProcedure
-    .input(securityIssueFilterSchema.optional())
-    .query(({ input }) => getSecurityIssues(input)),
-  getSecurityIssuesByContainer: publicProcedure
+    .mutation(({ input, ctx }) => createSecurityIssue(input, ctx.user.id)),
+  getSecurityIssues: protectedProcedure
+    .input(getSecurityIssuesInputSchema.default({}))
+    .query(({ input, ctx }) => getSecurityIssues(input, ctx.user)),
+  getSecurityIssuesByContainer: protectedProcedure
+    .input(containerPageInputSchema)
+    .query(({ input }) => getSecurityIssuesByContainer(input)),
+  getIssueTree: protectedProcedure
     .input(z.object({ containerId: z.number() }))
-    .query(({ input }) => getSecurityIssuesByContainer(input.containerId)),
-  updateSecurityIssue: publicProcedure
+    .query(({ input }) => getIssueTree(input.containerId)),
+  updateSecurityIssue: protectedProcedure
     .input(updateSecurityIssueInputSchema)
-    .mutation(({ input }) => updateSecurityIssue(input)),
+    .mutation(({ input, ctx }) => updateSecurityIssue(input, ctx.user)),
+  bulkUpdateSecurityIssues: protectedProcedure
+    .input(bulkUpdateSecurityIssuesInputSchema)
+    .mutation(({ input, ctx }) => bulkUpdateSecurityIssues(input, ctx.user)),
+  getIssueStatusHistory: protectedProcedure
+    .input(z.object({ issueId: z.number() }))
+    .query(({ input }) => getIssueStatusHistory(input.issueId)),
+  getIssueWorkflow: protectedProcedure
+    .query(() => getIssueWorkflow()),
+  importSarif: protectedProcedure
+    .input(importSarifInputSchema)
+    .mutation(({ input, ctx }) => importSarif(input, ctx.user)),
+  importTrivy: protectedProcedure
+    .input(importReportInputSchema)
+    .mutation(({ input, ctx }) => importTrivy(input, ctx.user)),
+  importGrype: protectedProcedure
+    .input(importReportInputSchema)
+    .mutation(({ input, ctx }) => importGrype(input, ctx.user)),
+  importZap: protectedProcedure
+    .input(importReportInputSchema)
+    .mutation(({ input, ctx }) => importZap(input, ctx.user)),
+  importBurp: protectedProcedure
+    .input(importReportInputSchema)
+    .mutation(({ input, ctx }) => importBurp(input, ctx.user)),
+  getImportRuns: protectedProcedure
+    .input(getImportRunsInputSchema)
+    .query(({ input }) => getImportRuns(input)),
+  pushIssuesToJira: protectedProcedure
+    .input(externalSyncInputSchema)
+    .mutation(({ input }) => pushIssuesToJira(input)),
+  pullIssuesFromJira: protectedProcedure
+    .input(externalSyncInputSchema)
+    .mutation(({ input, ctx }) => pullIssuesFromJira(input, ctx.user)),
+  pushIssuesToAzureDevOps: protectedProcedure
+    .input(externalSyncInputSchema)
+    .mutation(({ input }) => pushIssuesToAzureDevOps(input)),
+  pullIssuesFromAzureDevOps: protectedProcedure
+    .input(externalSyncInputSchema)
+    .mutation(({ input, ctx }) => pullIssuesFromAzureDevOps(input, ctx.user)),
+  getExternalSyncStatus: protectedProcedure
+    .input(externalSyncInputSchema)
+    .query(({ input }) => getExternalSyncStatus(input)),
 
   // Security Reviews
-  createSecurityReview: publicProcedure
+  createSecurityReview: protectedProcedure
     .input(createSecurityReviewInputSchema)
-    .mutation(({ input }) => createSecurityReview(input)),
-  getSecurityReviews: publicProcedure
-    .query(() => getSecurityReviews()),
-  getSecurityReviewsByContainer: publicProcedure
-    .input(z.object({ containerId: z.number() }))
-    .query(({ input }) => getSecurityReviewsByContainer(input.containerId)),
-  processDocumentAiAnalysis: publicProcedure
+    .mutation(({ input, ctx }) => createSecurityReview(input, ctx.user.id)),
+  getSecurityReviews: protectedProcedure
+    .input(getSecurityReviewsInputSchema.default({}))
+    .query(({ input }) => getSecurityReviews(input)),
+  getSecurityReviewsByContainer: protectedProcedure
+    .input(containerPageInputSchema)
+    .query(({ input }) => getSecurityReviewsByContainer(input)),
+  updateSecurityReview: protectedProcedure
+    .input(updateSecurityReviewInputSchema)
+    .mutation(({ input, ctx }) => updateSecurityReview(input, ctx.user.id)),
+  archiveSecurityReview: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => archiveSecurityReview(input.id, ctx.user.id)),
+  restoreSecurityReview: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => restoreSecurityReview(input.id, ctx.user.id)),
+  processDocumentAiAnalysis: protectedProcedure
     .input(z.object({ reviewId: z.number() }))
     .mutation(({ input }) => processDocumentAiAnalysis(input.reviewId)),
 
   // Security Violations
-  createSecurityViolation: publicProcedure
+  createSecurityViolation: protectedProcedure
     .input(createSecurityViolationInputSchema)
-    .mutation(({ input }) => createSecurityViolation(input)),
-  getSecurityViolations: publicProcedure
-    .query(() => getSecurityViolations()),
-  getActiveSecurityViolations: publicProcedure
-    .query(() => getActiveSecurityViolations()),
+    .mutation(({ input, ctx }) => createSecurityViolation(input, ctx.user.id)),
+  getSecurityViolations: protectedProcedure
+    .input(getSecurityViolationsInputSchema.default({}))
+    .query(({ input, ctx }) => getSecurityViolations(input, ctx.user)),
+  getActiveSecurityViolations: protectedProcedure
+    .input(listPageInputSchema.default({}))
+    .query(({ input }) => getActiveSecurityViolations(input)),
+  updateSecurityViolation: protectedProcedure
+    .input(updateSecurityViolationInputSchema)
+    .mutation(({ input, ctx }) => updateSecurityViolation(input, ctx.user.id)),
+  bulkUpdateSecurityViolations: protectedProcedure
+    .input(bulkUpdateSecurityViolationsInputSchema)
+    .mutation(({ input, ctx }) => bulkUpdateSecurityViolations(input, ctx.user)),
+  archiveSecurityViolation: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => archiveSecurityViolation(input.id, ctx.user.id)),
+  restoreSecurityViolation: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => restoreSecurityViolation(input.id, ctx.user.id)),
 
   // Security Controls (Blueprints)
-  createSecurityControl: publicProcedure
+  createSecurityControl: protectedProcedure
     .input(createSecurityControlInputSchema)
-    .mutation(({ input }) => createSecurityControl(input)),
-  getSecurityControls: publicProcedure
-    .query(() => getSecurityControls()),
-  getSecurityControlsByContainer: publicProcedure
-    .input(z.object({ containerId: z.number() }))
-    .query(({ input }) => getSecurityControlsByContainer(input.containerId)),
+    .mutation(({ input, ctx }) => createSecurityControl(input, ctx.user.id)),
+  getSecurityControls: protectedProcedure
+    .input(getSecurityControlsInputSchema.default({}))
+    .query(({ input }) => getSecurityControls(input)),
+  getSecurityControlsByContainer: protectedProcedure
+    .input(containerPageInputSchema)
+    .query(({ input }) => getSecurityControlsByContainer(input)),
+  getControlFrameworks: protectedProcedure
+    .query(() => getControlFrameworks()),
+  updateSecurityControl: protectedProcedure
+    .input(updateSecurityControlInputSchema)
+    .mutation(({ input, ctx }) => updateSecurityControl(input, ctx.user.id)),
+  archiveSecurityControl: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => archiveSecurityControl(input.id, ctx.user.id)),
+  restoreSecurityControl: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => restoreSecurityControl(input.id, ctx.user.id)),
 
   // Architecture Components (Blueprints)
-  createArchitectureComponent: publicProcedure
+  createArchitectureComponent: protectedProcedure
     .input(createArchitectureComponentInputSchema)
-    .mutation(({ input }) => createArchitectureComponent(input)),
-  getArchitectureComponents: publicProcedure
-    .query(() => getArchitectureComponents()),
-  getArchitectureComponentsByContainer: publicProcedure
-    .input(z.object({ containerId: z.number() }))
-    .query(({ input }) => getArchitectureComponentsByContainer(input.containerId)),
+    .mutation(({ input, ctx }) => createArchitectureComponent(input, ctx.user.id)),
+  getArchitectureComponents: protectedProcedure
+    .input(getArchitectureComponentsInputSchema.default({}))
+    .query(({ input }) => getArchitectureComponents(input)),
+  getArchitectureComponentsByContainer: protectedProcedure
+    .input(containerPageInputSchema)
+    .query(({ input }) => getArchitectureComponentsByContainer(input)),
+  updateArchitectureComponent: protectedProcedure
+    .input(updateArchitectureComponentInputSchema)
+    .mutation(({ input, ctx }) => updateArchitectureComponent(input, ctx.user.id)),
+  archiveArchitectureComponent: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => archiveArchitectureComponent(input.id, ctx.user.id)),
+  restoreArchitectureComponent: protectedProcedure
+    .input(archiveInputSchema)
+    .mutation(({ input, ctx }) => restoreArchitectureComponent(input.id, ctx.user.id)),
+
+  // Comments and activity (issues, violations and reviews)
+  createComment: protectedProcedure
+    .input(createCommentInputSchema)
+    .mutation(({ input, ctx }) => createComment(input, ctx.user.id)),
+  updateComment: protectedProcedure
+    .input(updateCommentInputSchema)
+    .mutation(({ input, ctx }) => updateComment(input, ctx.user)),
+  deleteComment: protectedProcedure
+    .input(z.object({ commentId: z.number() }))
+    .mutation(({ input, ctx }) => deleteComment(input.commentId, ctx.user)),
+  getComments: protectedProcedure
+    .input(entityActivityInputSchema)
+    .query(({ input }) => getComments(input)),
+  getActivityFeed: protectedProcedure
+    .input(entityActivityInputSchema)
+    .query(({ input }) => getActivityFeed(input)),
+
+  // Audit log
+  getAuditLog: protectedProcedure
+    .input(auditLogFilterSchema)
+    .query(({ input }) => getAuditLog(input)),
+  verifyAuditLog: protectedProcedure
+    .query(() => verifyAuditLog()),
+
+  // Outbound webhooks
+  createWebhookSubscription: protectedProcedure
+    .input(createWebhookSubscriptionInputSchema)
+    .mutation(({ input, ctx }) => createWebhookSubscription(input, ctx.user.id)),
+  getWebhookSubscriptions: protectedProcedure
+    .query(() => getWebhookSubscriptions()),
+  updateWebhookSubscription: protectedProcedure
+    .input(updateWebhookSubscriptionInputSchema)
+    .mutation(({ input, ctx }) => updateWebhookSubscription(input, ctx.user.id)),
+  deleteWebhookSubscription: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteWebhookSubscription(input.id)),
+  getWebhookDeliveries: protectedProcedure
+    .input(webhookDeliveryFilterSchema)
+    .query(({ input }) => getWebhookDeliveries(input)),
+  redeliverWebhook: protectedProcedure
+    .input(z.object({ deliveryId: z.number() }))
+    .mutation(({ input }) => redeliverWebhook(input.deliveryId)),
+
+  // Email notifications
+  getNotificationPreferences: protectedProcedure
+    .query(({ ctx }) => getNotificationPreferences(ctx.user.id)),
+  updateNotificationPreferences: protectedProcedure
+    .input(updateNotificationPreferencesInputSchema)
+    .mutation(({ input, ctx }) => updateNotificationPreferences(input, ctx.user.id)),
+
+  // SIEM alert mapping for the syslog receiver
+  createSiemMappingRule: protectedProcedure
+    .input(createSiemMappingRuleInputSchema)
+    .mutation(({ input, ctx }) => createSiemMappingRule(input, ctx.user.id)),
+  getSiemMappingRules: protectedProcedure
+    .query(() => getSiemMappingRules()),
+  updateSiemMappingRule: protectedProcedure
+    .input(updateSiemMappingRuleInputSchema)
+    .mutation(({ input, ctx }) => updateSiemMappingRule(input, ctx.user.id)),
+  deleteSiemMappingRule: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteSiemMappingRule(input.id)),
+
+  // Full-text search across issues, violations, reviews, controls and components
+  search: protectedProcedure
+    .input(searchInputSchema)
+    .query(({ input, ctx }) => search(input, ctx.user)),
+
+  // Saved views of the Workroom
+  createSavedView: protectedProcedure
+    .input(createSavedViewInputSchema)
+    .mutation(({ input, ctx }) => createSavedView(input, ctx.user)),
+  getSavedViews: protectedProcedure
+    .input(getSavedViewsInputSchema.default({}))
+    .query(({ input, ctx }) => getSavedViews(input, ctx.user)),
+  updateSavedView: protectedProcedure
+    .input(updateSavedViewInputSchema)
+    .mutation(({ input, ctx }) => updateSavedView(input, ctx.user)),
+  deleteSavedView: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input, ctx }) => deleteSavedView(input.id, ctx.user)),
+  pinSavedView: protectedProcedure
+    .input(pinSavedViewInputSchema)
+    .mutation(({ input, ctx }) => pinSavedView(input, ctx.user)),
+  getSavedViewIssues: protectedProcedure
+    .input(runSavedViewInputSchema)
+    .query(({ input, ctx }) => getSavedViewIssues(input, ctx.user)),
+  getSavedViewViolations: protectedProcedure
+    .input(runSavedViewInputSchema)
+    .query(({ input, ctx }) => getSavedViewViolations(input, ctx.user)),
 
   // Analytics Dashboard
-  getDashboardAnalytics: publicProcedure
+  getDashboardAnalytics: protectedProcedure
     .query(() => getDashboardAnalytics()),
-  getContainerRiskAnalytics: publicProcedure
+  getContainerRiskAnalytics: protectedProcedure
     .input(z.object({ containerId: z.number() }))
     .query(({ input }) => getContainerRiskAnalytics(input.containerId)),
+
+  // Operations
+  getMigrationStatus: protectedProcedure
+    .query(() => getMigrationStatus()),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  // Bring the schema and reference data up to date before serving requests;
+  // concurrent instances wait on the migration lock
+  const applied = await runMigrations();
+  if (applied.length > 0) {
+    console.log(`Applied migrations: ${applied.join(', ')}`);
+  }
+  await seedReferenceData(seedOptionsFromEnv());
+
+  const jiraConfig = jiraConfigFromEnv();
+  if (jiraConfig) {
+    scheduleJiraPull(jiraConfig);
+  }
+  const azureDevOpsConfig = azureDevOpsConfigFromEnv();
+  if (azureDevOpsConfig) {
+    scheduleAzureDevOpsPull(azureDevOpsConfig);
+  }
+  scheduleWebhookDelivery(Number(process.env['WEBHOOK_DELIVERY_INTERVAL_SECONDS']) || 10);
+  const notificationConfig = notificationConfigFromEnv();
+  if (notificationConfig) {
+    scheduleNotifications(notificationConfig);
+  }
+  const syslogConfig = syslogConfigFromEnv();
+  if (syslogConfig) {
+    const receiver = await startSyslogReceiver(syslogConfig);
+    console.log(`Syslog receiver listening (UDP ${receiver.udp_port ?? 'off'}, TCP ${receiver.tcp_port ?? 'off'})`);
+  }
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
+      if (handleJiraWebhookRequest(req, res, jiraConfig)) return;
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`PrimeSec Security Dashboard TRPC server listening at port: ${port}`);
 }
 
-start();
\ No newline at end of file
+// Only listen when run directly so tests can import the router
+if (import.meta.main) {
+  start().catch(error => {
+    console.error('Server startup failed:', error);
+    process.exit(1);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { type SecurityIssue } from '../schema';
+
+// Azure DevOps connection settings. Containers are linked to a project by
+// setting external_system to 'Azure DevOps' and external_id to the project
+// name.
+export interface AzureDevOpsConfig {
+  organization_url: string; // e.g. https://dev.azure.com/example
+  token: string; // Personal access token with Work Items (Read & write)
+  work_item_types: Record<SecurityIssue['hierarchy'], string>; // Depends on the project's process
+  sync_username: string | null; // Local user that scheduled syncs act as
+  sync_interval_minutes: number | null; // Null disables the scheduled pull
+}
+
+export const AZURE_DEVOPS_SYSTEM = 'Azure DevOps';
+
+const API_VERSION = '7.1';
+
+// Work item types of the Agile process
+const defaultWorkItemTypes: AzureDevOpsConfig['work_item_types'] = {
+  Epic: 'Epic',
+  Story: 'User Story',
+  Task: 'Task'
+};
+
+// Reads AZURE_DEVOPS_ORG_URL and AZURE_DEVOPS_TOKEN, plus the optional
+// AZURE_DEVOPS_WORK_ITEM_TYPES (Epic, Story and Task types, comma-separated),
+// AZURE_DEVOPS_SYNC_USERNAME and AZURE_DEVOPS_SYNC_INTERVAL_MINUTES. Returns
+// null when Azure DevOps is not configured.
+export const azureDevOpsConfigFromEnv = (): AzureDevOpsConfig | null => {
+  const organizationUrl = process.env['AZURE_DEVOPS_ORG_URL'];
+  const token = process.env['AZURE_DEVOPS_TOKEN'];
+
+  if (!organizationUrl || !token) {
+    return null;
+  }
+
+  const types = process.env['AZURE_DEVOPS_WORK_ITEM_TYPES']?.split(',').map(type => type.trim());
+  if (types && (types.length !== 3 || types.some(type => type === ''))) {
+    throw new Error('AZURE_DEVOPS_WORK_ITEM_TYPES must name the Epic, Story and Task work item types, e.g. "Epic,Product Backlog Item,Task"');
+  }
+
+  const interval = Number(process.env['AZURE_DEVOPS_SYNC_INTERVAL_MINUTES']);
+  return {
+    organization_url: organizationUrl.replace(/\/+$/, ''),
+    token,
+    work_item_types: types ? { Epic: types[0], Story: types[1], Task: types[2] } : defaultWorkItemTypes,
+    sync_username: process.env['AZURE_DEVOPS_SYNC_USERNAME'] || null,
+    sync_interval_minutes: interval > 0 ? interval : null
+  };
+};
+
+export const requireAzureDevOpsConfig = (config: AzureDevOpsConfig | null): AzureDevOpsConfig => {
+  if (!config) {
+    throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Azure DevOps is not configured' });
+  }
+  return config;
+};
+
+// The parts of a work item the sync reads back
+export const workItemSchema = z.object({
+  id: z.number(),
+  fields: z.object({
+    'System.WorkItemType': z.string(),
+    'System.State': z.string(),
+    'System.AssignedTo': z.object({ uniqueName: z.string().optional() }).nullable().optional()
+  })
+});
+
+export type WorkItem = z.infer<typeof workItemSchema>;
+
+// Every process sorts its states into these categories
+export const stateCategorySchema = z.enum(['Proposed', 'InProgress', 'Resolved', 'Completed', 'Removed']);
+
+export type StateCategory = z.infer<typeof stateCategorySchema>;
+
+const statesSchema = z.object({
+  value: z.array(z.object({ name: z.string(), category: z.string() }))
+});
+
+const batchSchema = z.object({
+  // Null for ids that do not exist
+  value: z.array(workItemSchema.nullable())
+});
+
+// A field to set on a work item, e.g. { path: '/fields/System.Title', value }
+export interface WorkItemOperation {
+  path: string;
+  value: unknown;
+}
+
+export type AzureDevOpsClient = ReturnType<typeof createAzureDevOpsClient>;
+
+const BATCH_SIZE = 200;
+
+// Calls the Azure DevOps REST API for one project. Failed requests throw
+// with the message Azure DevOps returns.
+export const createAzureDevOpsClient = (config: AzureDevOpsConfig, project: string) => {
+  const authorization = `Basic ${Buffer.from(`:${config.token}`).toString('base64')}`;
+  const projectUrl = `${config.organization_url}/${encodeURIComponent(project)}`;
+  const statesByType = new Map<string, Map<string, StateCategory>>();
+
+  const request = async (method: string, url: string, body?: unknown, contentType = 'application/json'): Promise<unknown> => {
+    const path = url.slice(config.organization_url.length);
+    const response = await fetch(`${url}${url.includes('?') ? '&' : '?'}api-version=${API_VERSION}`, {
+      method,
+      headers: {
+        Authorization: authorization,
+        Accept: 'application/json',
+        ...(body !== undefined ? { 'Content-Type': contentType } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    const text = await response.text();
+    let json: unknown = null;
+    try {
+      json = text ? JSON.parse(text) : null;
+    } catch {
+      // Azure DevOps answers bad credentials with a sign-in page
+      if (response.ok) throw new Error(`Azure DevOps ${method} ${path} returned a response that is not JSON`);
+    }
+    if (!response.ok) {
+      const message = (json as { message?: string } | null)?.message;
+      throw new Error(`Azure DevOps ${method} ${path} failed with ${response.status}${message ? `: ${message}` : ''}`);
+    }
+    return json;
+  };
+
+  const writeWorkItem = async (method: string, url: string, operations: WorkItemOperation[]): Promise<WorkItem> =>
+    workItemSchema.parse(await request(
+      method,
+      url,
+      operations.map(operation => ({ op: 'add', ...operation })),
+      'application/json-patch+json'
+    ));
+
+  const workItemUrl = (id: number): string => `${config.organization_url}/_apis/wit/workItems/${id}`;
+
+  return {
+    editUrl: (id: number): string => `${projectUrl}/_workitems/edit/${id}`,
+
+    // Relation linking a new work item below its parent
+    parentLink: (parentId: number): WorkItemOperation => ({
+      path: '/relations/-',
+      value: { rel: 'System.LinkTypes.Hierarchy-Reverse', url: workItemUrl(parentId) }
+    }),
+
+    getProject: async (): Promise<void> => {
+      await request('GET', `${config.organization_url}/_apis/projects/${encodeURIComponent(project)}`);
+    },
+
+    createWorkItem: (type: string, operations: WorkItemOperation[]): Promise<WorkItem> =>
+      writeWorkItem('POST', `${projectUrl}/_apis/wit/workitems/$${encodeURIComponent(type)}`, operations),
+
+    updateWorkItem: (id: number, operations: WorkItemOperation[]): Promise<WorkItem> =>
+      writeWorkItem('PATCH', `${projectUrl}/_apis/wit/workitems/${id}`, operations),
+
+    // Type, state and assignee of the work items with the given ids; ids of
+    // deleted work items are missing from the result
+    getWorkItems: async (ids: number[]): Promise<WorkItem[]> => {
+      const workItems: WorkItem[] = [];
+      for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+        const result = batchSchema.parse(await request('POST', `${projectUrl}/_apis/wit/workitemsbatch`, {
+          ids: ids.slice(start, start + BATCH_SIZE),
+          fields: ['System.WorkItemType', 'System.State', 'System.AssignedTo'],
+          errorPolicy: 'omit'
+        }));
+        workItems.push(...result.value.filter(workItem => workItem !== null));
+      }
+      return workItems;
+    },
+
+    // The states of a work item type by name, with their categories, in the
+    // order the process lists them. Cached for the life of the client.
+    getStates: async (type: string): Promise<Map<string, StateCategory>> => {
+      let states = statesByType.get(type);
+      if (!states) {
+        const result = statesSchema.parse(await request('GET', `${projectUrl}/_apis/wit/workitemtypes/${encodeURIComponent(type)}/states`));
+        states = new Map(result.value
+          .map(state => [state.name, stateCategorySchema.safeParse(state.category)] as const)
+          .filter(([, category]) => category.success)
+          .map(([name, category]) => [name, category.data!]));
+        statesByType.set(type, states);
+      }
+      return states;
+    }
+  };
+};
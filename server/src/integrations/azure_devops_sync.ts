@@ -0,0 +1,270 @@
+import { db } from '../db';
+import { securityIssuesTable } from '../db/schema';
+import { type ExternalPullResult, type ExternalPushResult, type SecurityIssue } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { HIERARCHY_RANK } from '../hierarchy/issue_hierarchy';
+import { ACTIVE_ISSUE_STATUSES, recalculateContainerRiskScore } from '../scoring/risk_scoring';
+import {
+  type AzureDevOpsClient,
+  type AzureDevOpsConfig,
+  type StateCategory,
+  type WorkItem,
+  type WorkItemOperation,
+  AZURE_DEVOPS_SYSTEM,
+  createAzureDevOpsClient
+} from './azure_devops';
+import {
+  type ContainerPullOutcome,
+  applyExternalState,
+  errorMessage,
+  externalKeyOf,
+  hasPendingChanges,
+  linkedContainerIds,
+  linkedProjectOf,
+  recordLinked,
+  recordSyncFailure,
+  recordSynced,
+  schedulePull,
+  syncUser,
+  usersByEmail
+} from './external_sync';
+import { and, asc, eq } from 'drizzle-orm';
+
+type Status = SecurityIssue['status'];
+
+// Microsoft.VSTS.Common.Priority runs from 1 (highest) to 4
+const priorities: Record<SecurityIssue['severity'], number> = {
+  Critical: 1,
+  High: 2,
+  Medium: 3,
+  Low: 4
+};
+
+const statusesByCategory: Record<StateCategory, Status> = {
+  Proposed: 'Open',
+  InProgress: 'In-progress',
+  Resolved: 'Resolved',
+  Completed: 'Resolved',
+  Removed: 'Closed'
+};
+
+// State categories that match each status, preferred first. Not every work
+// item type has a Resolved state.
+const categoriesByStatus: Record<Status, StateCategory[]> = {
+  Open: ['Proposed'],
+  'In-progress': ['InProgress'],
+  Resolved: ['Resolved', 'Completed'],
+  Closed: ['Completed']
+};
+
+// The Azure DevOps project name of a container linked to Azure DevOps
+export const azureDevOpsProjectOf = (containerId: number): Promise<string> =>
+  linkedProjectOf(containerId, AZURE_DEVOPS_SYSTEM);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// System.Description holds HTML
+const descriptionHtml = (issue: SecurityIssue): string =>
+  [
+    issue.description,
+    `Severity: ${issue.severity}`,
+    `Risk score: ${issue.risk_score}`,
+    issue.cvss_vector ? `CVSS: ${issue.cvss_vector}` : null,
+    `PrimeSec issue: #${issue.id}`
+  ]
+    .filter(line => line !== null)
+    .map(line => `<p>${escapeHtml(line).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+const contentOperations = (issue: SecurityIssue): WorkItemOperation[] => [
+  { path: '/fields/System.Title', value: issue.title },
+  { path: '/fields/System.Description', value: descriptionHtml(issue) },
+  { path: '/fields/Microsoft.VSTS.Common.Priority', value: priorities[issue.severity] },
+  { path: '/fields/System.Tags', value: 'PrimeSec' }
+];
+
+// Sets the state to the first one of the work item's type that matches the
+// issue's status, unless the work item already is in a matching state
+const stateOperations = async (client: AzureDevOpsClient, workItem: WorkItem, status: Status): Promise<WorkItemOperation[]> => {
+  const states = await client.getStates(workItem.fields['System.WorkItemType']);
+  const current = states.get(workItem.fields['System.State']);
+  const wanted = categoriesByStatus[status];
+  if (current && wanted.includes(current)) {
+    return [];
+  }
+
+  for (const category of wanted) {
+    const state = [...states].find(([, stateCategory]) => stateCategory === category)?.[0];
+    if (state) {
+      return [{ path: '/fields/System.State', value: state }];
+    }
+  }
+  throw new Error(`Work item type ${workItem.fields['System.WorkItemType']} has no state for ${status} issues`);
+};
+
+// Creates work items for active issues that are not linked yet and updates
+// linked work items whose issues changed since they were last pushed, state
+// included. Parents go first so children can be linked below them. Issues
+// that fail are reported and the rest are still pushed.
+export const pushContainerIssues = async (containerId: number, config: AzureDevOpsConfig): Promise<ExternalPushResult> => {
+  const client = createAzureDevOpsClient(config, await azureDevOpsProjectOf(containerId));
+  await client.getProject();
+
+  const issues = await db.select()
+    .from(securityIssuesTable)
+    .where(eq(securityIssuesTable.container_id, containerId))
+    .execute();
+  issues.sort((a, b) => HIERARCHY_RANK[a.hierarchy] - HIERARCHY_RANK[b.hierarchy] || a.id - b.id);
+  const issuesById = new Map(issues.map(issue => [issue.id, issue]));
+
+  // Current states of the work items that need an update
+  const pendingIds = issues
+    .filter(issue => externalKeyOf(issue, AZURE_DEVOPS_SYSTEM) && hasPendingChanges(issue))
+    .map(issue => Number(issue.external_id));
+  const workItems = new Map((await client.getWorkItems(pendingIds)).map(workItem => [String(workItem.id), workItem]));
+
+  const result: ExternalPushResult = { created: 0, updated: 0, skipped: 0, failures: [] };
+
+  for (const issue of issues) {
+    const key = externalKeyOf(issue, AZURE_DEVOPS_SYSTEM);
+    // Issues linked to another tracker are left to that tracker's sync
+    if (issue.external_system !== null && !key) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      if (!key) {
+        if (!ACTIVE_ISSUE_STATUSES.includes(issue.status)) {
+          result.skipped++;
+          continue;
+        }
+
+        const parentKey = issue.parent_issue_id !== null
+          ? externalKeyOf(issuesById.get(issue.parent_issue_id), AZURE_DEVOPS_SYSTEM)
+          : null;
+        const created = await client.createWorkItem(config.work_item_types[issue.hierarchy], [
+          ...contentOperations(issue),
+          ...(parentKey ? [client.parentLink(Number(parentKey))] : [])
+        ]);
+
+        // Work items start in their type's initial state. Link first so a
+        // failed state change is retried by the next push.
+        const state = await stateOperations(client, created, issue.status);
+        issuesById.set(issue.id, await recordLinked(issue.id, {
+          system: AZURE_DEVOPS_SYSTEM,
+          key: String(created.id),
+          url: client.editUrl(created.id)
+        }, state.length > 0 ? null : new Date()));
+        result.created++;
+
+        if (state.length > 0) {
+          await client.updateWorkItem(created.id, state);
+          await recordSynced(issue.id, new Date());
+        }
+        continue;
+      }
+
+      if (!hasPendingChanges(issue)) {
+        result.skipped++;
+        continue;
+      }
+
+      const workItem = workItems.get(key);
+      if (!workItem) {
+        throw new Error(`Work item ${key} no longer exists`);
+      }
+
+      await client.updateWorkItem(workItem.id, [
+        ...contentOperations(issue),
+        ...await stateOperations(client, workItem, issue.status)
+      ]);
+      await recordSynced(issue.id, new Date());
+      result.updated++;
+    } catch (error) {
+      const message = errorMessage(error);
+      await recordSyncFailure(issue.id, message);
+      result.failures.push({ issue_id: issue.id, error: message });
+    }
+  }
+
+  return result;
+};
+
+// Reads the state and assignee of every linked work item of the container
+// back from Azure DevOps
+export const pullContainerChanges = async (containerId: number, config: AzureDevOpsConfig, actor: Actor): Promise<ExternalPullResult> => {
+  const client = createAzureDevOpsClient(config, await azureDevOpsProjectOf(containerId));
+
+  const issues = await db.select()
+    .from(securityIssuesTable)
+    .where(and(
+      eq(securityIssuesTable.container_id, containerId),
+      eq(securityIssuesTable.external_system, AZURE_DEVOPS_SYSTEM)
+    ))
+    .orderBy(asc(securityIssuesTable.id))
+    .execute();
+
+  const linked = issues.filter((issue): issue is SecurityIssue & { external_id: string } => issue.external_id !== null);
+  const workItems = new Map((await client.getWorkItems(linked.map(issue => Number(issue.external_id))))
+    .map(workItem => [String(workItem.id), workItem]));
+  const userIds = await usersByEmail();
+
+  const result: ExternalPullResult = { updated: 0, unchanged: 0, failures: [], conflicts: [] };
+  for (const issue of linked) {
+    try {
+      const workItem = workItems.get(issue.external_id);
+      if (!workItem) {
+        throw new Error(`Work item ${issue.external_id} no longer exists`);
+      }
+
+      const state = workItem.fields['System.State'];
+      const category = (await client.getStates(workItem.fields['System.WorkItemType'])).get(state);
+      const { changed, conflict } = await applyExternalState(issue, {
+        system: AZURE_DEVOPS_SYSTEM,
+        key: issue.external_id,
+        status: category ? statusesByCategory[category] : null,
+        status_name: state,
+        assignee_email: workItem.fields['System.AssignedTo']?.uniqueName ?? null
+      }, userIds, actor);
+
+      if (changed) {
+        result.updated++;
+      } else {
+        result.unchanged++;
+      }
+      if (conflict) {
+        result.conflicts.push({ issue_id: issue.id, error: conflict });
+      }
+    } catch (error) {
+      const message = errorMessage(error);
+      await recordSyncFailure(issue.id, message);
+      result.failures.push({ issue_id: issue.id, error: message });
+    }
+  }
+
+  if (result.updated > 0) {
+    await recalculateContainerRiskScore(containerId);
+  }
+  return result;
+};
+
+// Pulls every container linked to Azure DevOps as AZURE_DEVOPS_SYNC_USERNAME.
+// Containers that fail are reported and the rest still pulled.
+export const pullAllAzureDevOpsContainers = async (config: AzureDevOpsConfig): Promise<ContainerPullOutcome[]> => {
+  const actor = await syncUser(config.sync_username, 'AZURE_DEVOPS_SYNC_USERNAME');
+
+  const outcomes: ContainerPullOutcome[] = [];
+  for (const containerId of await linkedContainerIds(AZURE_DEVOPS_SYSTEM)) {
+    try {
+      outcomes.push({ container_id: containerId, result: await pullContainerChanges(containerId, config, actor), error: null });
+    } catch (error) {
+      outcomes.push({ container_id: containerId, result: null, error: errorMessage(error) });
+    }
+  }
+  return outcomes;
+};
+
+export const scheduleAzureDevOpsPull = (config: AzureDevOpsConfig): ReturnType<typeof setInterval> | null =>
+  schedulePull(AZURE_DEVOPS_SYSTEM, config.sync_interval_minutes, () => pullAllAzureDevOpsContainers(config));
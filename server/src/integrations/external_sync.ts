@@ -0,0 +1,261 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { containersTable, securityIssuesTable, usersTable } from '../db/schema';
+import { type ExternalPullResult, type SecurityIssue } from '../schema';
+import { notFoundError } from '../errors';
+import { type Actor } from '../auth/permissions';
+import { DEFAULT_ISSUE_WORKFLOW, assertStatusTransition, recordStatusChange } from '../workflow/issue_workflow';
+import { diffActivity, recordActivity } from '../activity/activity';
+import { queueWorkItemNotifications } from '../notifications/emails';
+import { and, asc, eq } from 'drizzle-orm';
+
+// Shared by the tracker integrations. A container is linked to a tracker
+// project through its external_system and external_id; its issues are linked
+// to tracker items the same way.
+
+type Status = SecurityIssue['status'];
+
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// The project id a container is linked to in the given tracker
+export const linkedProjectOf = async (containerId: number, system: string): Promise<string> => {
+  const containers = await db.select()
+    .from(containersTable)
+    .where(eq(containersTable.id, containerId))
+    .execute();
+
+  if (containers.length === 0) {
+    throw notFoundError('Container', containerId);
+  }
+  const [container] = containers;
+  if (container.external_system !== system || !container.external_id) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Container ${containerId} is not linked to ${system}` });
+  }
+  return container.external_id;
+};
+
+// Active containers linked to the given tracker
+export const linkedContainerIds = async (system: string): Promise<number[]> => {
+  const containers = await db.select({ id: containersTable.id })
+    .from(containersTable)
+    .where(and(eq(containersTable.external_system, system), eq(containersTable.is_active, true)))
+    .orderBy(asc(containersTable.id))
+    .execute();
+  return containers.map(container => container.id);
+};
+
+// The key of the tracker item an issue is linked to, if it is linked to the
+// given tracker
+export const externalKeyOf = (issue: SecurityIssue | undefined, system: string): string | null =>
+  issue?.external_system === system ? issue.external_id : null;
+
+// Changed locally since the tracker last matched it
+export const hasPendingChanges = (issue: SecurityIssue): boolean =>
+  !issue.external_synced_at || issue.updated_at > issue.external_synced_at;
+
+// Links an issue to the tracker item just created for it. matchedAt is null
+// when the item does not match the issue yet, so the next push updates it.
+export const recordLinked = async (
+  issueId: number,
+  link: { system: string; key: string; url: string },
+  matchedAt: Date | null
+): Promise<SecurityIssue> => {
+  const updated = await db.update(securityIssuesTable)
+    .set({
+      external_system: link.system,
+      external_id: link.key,
+      external_url: link.url,
+      external_synced_at: matchedAt,
+      external_sync_status: 'Synced',
+      external_sync_error: null
+    })
+    .where(eq(securityIssuesTable.id, issueId))
+    .returning()
+    .execute();
+  return updated[0];
+};
+
+// The tracker took the push or pull; matchedAt is set only when the tracker
+// now matches every local change
+export const recordSynced = async (issueId: number, matchedAt: Date | null): Promise<void> => {
+  await db.update(securityIssuesTable)
+    .set({
+      ...(matchedAt ? { external_synced_at: matchedAt } : {}),
+      external_sync_status: 'Synced',
+      external_sync_error: null
+    })
+    .where(eq(securityIssuesTable.id, issueId))
+    .execute();
+};
+
+export const recordSyncFailure = async (issueId: number, error: string): Promise<void> => {
+  await db.update(securityIssuesTable)
+    .set({ external_sync_status: 'Failed', external_sync_error: error })
+    .where(eq(securityIssuesTable.id, issueId))
+    .execute();
+};
+
+// Active users by lower-cased email, for matching tracker assignees
+export const usersByEmail = async (): Promise<Map<string, number>> => {
+  const users = await db.select({ id: usersTable.id, email: usersTable.email })
+    .from(usersTable)
+    .where(eq(usersTable.is_active, true))
+    .execute();
+  return new Map(users.map(user => [user.email.toLowerCase(), user.id]));
+};
+
+// The local user that scheduled and webhook syncs act as; variable names the
+// setting for the error. Pulls are held to the user's workflow permissions.
+export const syncUser = async (username: string | null, variable: string): Promise<Actor> => {
+  if (!username) {
+    throw new Error(`${variable} is not set`);
+  }
+
+  const users = await db.select({ id: usersTable.id, role: usersTable.role })
+    .from(usersTable)
+    .where(and(eq(usersTable.username, username), eq(usersTable.is_active, true)))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`Sync user ${username} does not exist or is inactive`);
+  }
+  return users[0];
+};
+
+// The state of a tracker item as the pull reads it. status is null for
+// tracker states with no local equivalent; assignee_email is null when the
+// item is unassigned.
+export interface ExternalItemState {
+  system: string;
+  key: string;
+  status: Status | null;
+  status_name: string;
+  assignee_email: string | null;
+}
+
+export interface ExternalStateOutcome {
+  changed: boolean;
+  conflict: string | null; // Why the tracker's status was not applied
+}
+
+// Records a tracker status the pull could not apply; the issue is otherwise
+// left as it is
+const recordSyncConflict = async (issueId: number, conflict: string): Promise<void> => {
+  await db.update(securityIssuesTable)
+    .set({ external_sync_status: 'Conflict', external_sync_error: conflict })
+    .where(eq(securityIssuesTable.id, issueId))
+    .execute();
+};
+
+// Brings the status and assignee of a linked issue in line with the tracker
+// item. A tracker's done states do not tell a fix from a risk acceptance, so
+// Closed issues are not resolved by a sync. Status changes follow the issue
+// workflow as the actor, so a transition the workflow or the actor's
+// permissions do not allow (closing a Critical issue without close_critical,
+// say) is recorded as a conflict for someone who may make it. Assignees
+// without a local account with the same email leave the assignee unchanged.
+export const applyExternalState = async (
+  issue: SecurityIssue,
+  item: ExternalItemState,
+  userIds: Map<string, number>,
+  actor: Actor
+): Promise<ExternalStateOutcome> => {
+  const values: Partial<Pick<SecurityIssue, 'status' | 'resolution_note' | 'assigned_to'>> = {};
+  let conflict: string | null = null;
+
+  const assigneeId = item.assignee_email ? userIds.get(item.assignee_email.toLowerCase()) : null;
+  if (assigneeId !== undefined && assigneeId !== issue.assigned_to) {
+    values.assigned_to = assigneeId;
+  }
+
+  if (item.status && item.status !== issue.status && !(item.status === 'Resolved' && issue.status === 'Closed')) {
+    const note = item.status === 'Resolved' || item.status === 'Closed'
+      ? `${item.status} in ${item.system} as ${item.key} (${item.status_name})`
+      : null;
+    try {
+      assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, {
+        from: issue.status,
+        to: item.status,
+        severity: issue.severity,
+        values: {
+          resolution_note: note,
+          assigned_to: values.assigned_to !== undefined ? values.assigned_to : issue.assigned_to
+        }
+      }, actor);
+      values.status = item.status;
+      values.resolution_note = note;
+    } catch (error) {
+      conflict = `${item.status_name} in ${item.system} as ${item.key} was not applied: ${errorMessage(error)}`;
+    }
+  }
+
+  if (Object.keys(values).length === 0) {
+    if (conflict) {
+      await recordSyncConflict(issue.id, conflict);
+    } else {
+      await recordSynced(issue.id, null);
+    }
+    return { changed: false, conflict };
+  }
+
+  // Changes that came from the tracker need no push back, unless there were
+  // local changes still waiting for one
+  const now = new Date();
+  const matchedAt = hasPendingChanges(issue) ? null : now;
+
+  await db.transaction(async (tx) => {
+    const updated = await tx.update(securityIssuesTable)
+      .set({
+        ...values,
+        updated_by: actor.id,
+        updated_at: now,
+        ...(matchedAt ? { external_synced_at: matchedAt } : {}),
+        external_sync_status: conflict ? 'Conflict' : 'Synced',
+        external_sync_error: conflict
+      })
+      .where(eq(securityIssuesTable.id, issue.id))
+      .returning()
+      .execute();
+
+    if (values.status) {
+      await recordStatusChange(tx, {
+        issue_id: issue.id,
+        from_status: issue.status,
+        to_status: values.status,
+        note: `Synced from ${item.system} ${item.key} (${item.status_name})`,
+        changed_by: actor.id
+      });
+    }
+    await recordActivity(tx, diffActivity('Issue', issue, updated[0], actor.id));
+    await queueWorkItemNotifications(tx, 'Issue', issue, updated[0], actor.id);
+  });
+
+  return { changed: true, conflict };
+};
+
+export interface ContainerPullOutcome {
+  container_id: number;
+  result: ExternalPullResult | null;
+  error: string | null;
+}
+
+// Runs pullAll every intervalMinutes and logs containers that had errors;
+// returns the timer, or null when the schedule is disabled
+export const schedulePull = (
+  system: string,
+  intervalMinutes: number | null,
+  pullAll: () => Promise<ContainerPullOutcome[]>
+): ReturnType<typeof setInterval> | null => {
+  if (!intervalMinutes) {
+    return null;
+  }
+
+  return setInterval(() => {
+    pullAll()
+      .then(outcomes => outcomes
+        .filter(outcome => outcome.error || (outcome.result?.failures.length ?? 0) > 0)
+        .forEach(outcome => console.error(`${system} pull for container ${outcome.container_id} had errors:`, outcome.error ?? outcome.result?.failures)))
+      .catch(error => console.error(`Scheduled ${system} pull failed:`, error));
+  }, intervalMinutes * 60_000);
+};
@@ -0,0 +1,144 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+
+// Jira connection settings. Containers are linked to a Jira project by setting
+// external_system to 'Jira' and external_id to the project key.
+export interface JiraConfig {
+  base_url: string; // e.g. https://example.atlassian.net
+  email: string; // Account the API token belongs to
+  api_token: string;
+  webhook_secret: string | null; // Null disables the webhook endpoint
+  sync_username: string | null; // Local user that scheduled and webhook syncs act as
+  sync_interval_minutes: number | null; // Null disables the scheduled pull
+}
+
+export const JIRA_SYSTEM = 'Jira';
+
+// Reads JIRA_BASE_URL, JIRA_EMAIL and JIRA_API_TOKEN, plus the optional
+// JIRA_WEBHOOK_SECRET, JIRA_SYNC_USERNAME and JIRA_SYNC_INTERVAL_MINUTES.
+// Returns null when Jira is not configured.
+export const jiraConfigFromEnv = (): JiraConfig | null => {
+  const baseUrl = process.env['JIRA_BASE_URL'];
+  const email = process.env['JIRA_EMAIL'];
+  const apiToken = process.env['JIRA_API_TOKEN'];
+
+  if (!baseUrl || !email || !apiToken) {
+    return null;
+  }
+
+  const interval = Number(process.env['JIRA_SYNC_INTERVAL_MINUTES']);
+  return {
+    base_url: baseUrl.replace(/\/+$/, ''),
+    email,
+    api_token: apiToken,
+    webhook_secret: process.env['JIRA_WEBHOOK_SECRET'] || null,
+    sync_username: process.env['JIRA_SYNC_USERNAME'] || null,
+    sync_interval_minutes: interval > 0 ? interval : null
+  };
+};
+
+export const requireJiraConfig = (config: JiraConfig | null): JiraConfig => {
+  if (!config) {
+    throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Jira is not configured' });
+  }
+  return config;
+};
+
+// The parts of a Jira issue the sync reads back
+export const jiraIssueSchema = z.object({
+  key: z.string(),
+  fields: z.object({
+    status: z.object({
+      name: z.string(),
+      statusCategory: z.object({ key: z.string() })
+    }),
+    assignee: z.object({ emailAddress: z.string().optional() }).nullable().optional()
+  })
+});
+
+export type JiraIssue = z.infer<typeof jiraIssueSchema>;
+
+const createdIssueSchema = z.object({ id: z.string(), key: z.string() });
+
+const searchResultSchema = z.object({
+  total: z.number(),
+  issues: z.array(jiraIssueSchema)
+});
+
+export interface JiraIssueFields {
+  project?: { key: string };
+  issuetype?: { name: string };
+  parent?: { key: string };
+  summary: string;
+  description: string;
+  priority: { name: string };
+  labels: string[];
+}
+
+export type JiraClient = ReturnType<typeof createJiraClient>;
+
+const SEARCH_PAGE_SIZE = 50;
+
+// Calls the Jira REST API v2, which takes plain text descriptions. Failed
+// requests throw with Jira's error messages.
+export const createJiraClient = (config: JiraConfig) => {
+  const authorization = `Basic ${Buffer.from(`${config.email}:${config.api_token}`).toString('base64')}`;
+
+  const request = async (method: string, path: string, body?: unknown): Promise<unknown> => {
+    const response = await fetch(`${config.base_url}/rest/api/2${path}`, {
+      method,
+      headers: {
+        Authorization: authorization,
+        Accept: 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    const text = await response.text();
+    let json: unknown = null;
+    try {
+      json = text ? JSON.parse(text) : null;
+    } catch {
+      if (response.ok) throw new Error(`Jira ${method} ${path} returned a response that is not JSON`);
+    }
+    if (!response.ok) {
+      const errors = json as { errorMessages?: string[]; errors?: Record<string, string> } | null;
+      const messages = [...(errors?.errorMessages ?? []), ...Object.entries(errors?.errors ?? {}).map(([field, message]) => `${field}: ${message}`)];
+      throw new Error(`Jira ${method} ${path} failed with ${response.status}${messages.length > 0 ? `: ${messages.join('; ')}` : ''}`);
+    }
+    return json;
+  };
+
+  return {
+    browseUrl: (key: string): string => `${config.base_url}/browse/${key}`,
+
+    getProject: async (key: string): Promise<void> => {
+      await request('GET', `/project/${encodeURIComponent(key)}`);
+    },
+
+    createIssue: async (fields: JiraIssueFields): Promise<{ id: string; key: string }> =>
+      createdIssueSchema.parse(await request('POST', '/issue', { fields })),
+
+    updateIssue: async (key: string, fields: JiraIssueFields): Promise<void> => {
+      await request('PUT', `/issue/${encodeURIComponent(key)}`, { fields });
+    },
+
+    // Status and assignee of the issues with the given keys; keys of deleted
+    // issues are missing from the result
+    getIssues: async (keys: string[]): Promise<JiraIssue[]> => {
+      const issues: JiraIssue[] = [];
+      for (let start = 0; start < keys.length; start += SEARCH_PAGE_SIZE) {
+        const page = keys.slice(start, start + SEARCH_PAGE_SIZE);
+        const result = searchResultSchema.parse(await request('POST', '/search', {
+          jql: `key in (${page.join(', ')})`,
+          fields: ['status', 'assignee'],
+          maxResults: SEARCH_PAGE_SIZE,
+          validateQuery: 'warn' // Deleted issues are left out instead of failing the search
+        }));
+        issues.push(...result.issues);
+      }
+      return issues;
+    }
+  };
+};
@@ -0,0 +1,221 @@
+import { db } from '../db';
+import { securityIssuesTable } from '../db/schema';
+import { type ExternalPullResult, type ExternalPushResult, type SecurityIssue } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { HIERARCHY_RANK } from '../hierarchy/issue_hierarchy';
+import { ACTIVE_ISSUE_STATUSES, recalculateContainerRiskScore } from '../scoring/risk_scoring';
+import { type JiraClient, type JiraConfig, type JiraIssue, type JiraIssueFields, JIRA_SYSTEM, createJiraClient } from './jira';
+import {
+  type ContainerPullOutcome,
+  type ExternalItemState,
+  applyExternalState,
+  errorMessage,
+  externalKeyOf,
+  hasPendingChanges,
+  linkedContainerIds,
+  linkedProjectOf,
+  recordLinked,
+  recordSyncFailure,
+  recordSynced,
+  schedulePull,
+  syncUser,
+  usersByEmail
+} from './external_sync';
+import { and, asc, eq } from 'drizzle-orm';
+
+type Status = SecurityIssue['status'];
+
+const priorities: Record<SecurityIssue['severity'], string> = {
+  Critical: 'Highest',
+  High: 'High',
+  Medium: 'Medium',
+  Low: 'Low'
+};
+
+// Jira groups its statuses into the To Do, In Progress and Done categories
+const statusesByCategory: Record<string, Status> = {
+  new: 'Open',
+  indeterminate: 'In-progress',
+  done: 'Resolved'
+};
+
+// The Jira project key of a container linked to Jira
+export const jiraProjectOf = (containerId: number): Promise<string> =>
+  linkedProjectOf(containerId, JIRA_SYSTEM);
+
+export const jiraItemState = (jiraIssue: JiraIssue): ExternalItemState => ({
+  system: JIRA_SYSTEM,
+  key: jiraIssue.key,
+  status: statusesByCategory[jiraIssue.fields.status.statusCategory.key] ?? null,
+  status_name: jiraIssue.fields.status.name,
+  assignee_email: jiraIssue.fields.assignee?.emailAddress ?? null
+});
+
+// Epics and Stories keep their type. Jira only nests sub-tasks under Stories,
+// so a Task below a Story becomes a Sub-task; one below an Epic stays a Task.
+const issueTypeFields = (issue: SecurityIssue, parent: SecurityIssue | undefined): Pick<JiraIssueFields, 'issuetype' | 'parent'> => {
+  const parentKey = externalKeyOf(parent, JIRA_SYSTEM);
+  if (!parent || !parentKey) {
+    return { issuetype: { name: issue.hierarchy } };
+  }
+  if (issue.hierarchy === 'Task' && parent.hierarchy === 'Story') {
+    return { issuetype: { name: 'Sub-task' }, parent: { key: parentKey } };
+  }
+  return { issuetype: { name: issue.hierarchy }, parent: { key: parentKey } };
+};
+
+const contentFields = (issue: SecurityIssue): JiraIssueFields => ({
+  summary: issue.title,
+  description: [
+    issue.description,
+    [
+      `Severity: ${issue.severity}`,
+      `Risk score: ${issue.risk_score}`,
+      issue.cvss_vector ? `CVSS: ${issue.cvss_vector}` : null,
+      `PrimeSec issue: #${issue.id}`
+    ].filter(line => line !== null).join('\n')
+  ].join('\n\n'),
+  priority: { name: priorities[issue.severity] },
+  labels: ['primesec']
+});
+
+// Creates Jira issues for active issues that are not linked yet and updates
+// linked issues changed since they were last pushed. Parents go first so
+// children can be created below them. Issues that fail are reported and the
+// rest are still pushed.
+export const pushContainerIssues = async (containerId: number, client: JiraClient): Promise<ExternalPushResult> => {
+  const projectKey = await jiraProjectOf(containerId);
+  await client.getProject(projectKey);
+
+  const issues = await db.select()
+    .from(securityIssuesTable)
+    .where(eq(securityIssuesTable.container_id, containerId))
+    .execute();
+  issues.sort((a, b) => HIERARCHY_RANK[a.hierarchy] - HIERARCHY_RANK[b.hierarchy] || a.id - b.id);
+  const issuesById = new Map(issues.map(issue => [issue.id, issue]));
+
+  const result: ExternalPushResult = { created: 0, updated: 0, skipped: 0, failures: [] };
+
+  for (const issue of issues) {
+    const key = externalKeyOf(issue, JIRA_SYSTEM);
+    // Issues linked to another tracker are left to that tracker's sync
+    if (issue.external_system !== null && !key) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      if (!key) {
+        if (!ACTIVE_ISSUE_STATUSES.includes(issue.status)) {
+          result.skipped++;
+          continue;
+        }
+
+        const parent = issue.parent_issue_id !== null ? issuesById.get(issue.parent_issue_id) : undefined;
+        const created = await client.createIssue({
+          project: { key: projectKey },
+          ...issueTypeFields(issue, parent),
+          ...contentFields(issue)
+        });
+
+        issuesById.set(issue.id, await recordLinked(issue.id, {
+          system: JIRA_SYSTEM,
+          key: created.key,
+          url: client.browseUrl(created.key)
+        }, new Date()));
+        result.created++;
+        continue;
+      }
+
+      if (!hasPendingChanges(issue)) {
+        result.skipped++;
+        continue;
+      }
+
+      await client.updateIssue(key, contentFields(issue));
+      await recordSynced(issue.id, new Date());
+      result.updated++;
+    } catch (error) {
+      const message = errorMessage(error);
+      await recordSyncFailure(issue.id, message);
+      result.failures.push({ issue_id: issue.id, error: message });
+    }
+  }
+
+  return result;
+};
+
+// Reads the status and assignee of every linked issue of the container back
+// from Jira
+export const pullContainerChanges = async (containerId: number, client: JiraClient, actor: Actor): Promise<ExternalPullResult> => {
+  await jiraProjectOf(containerId);
+
+  const issues = await db.select()
+    .from(securityIssuesTable)
+    .where(and(
+      eq(securityIssuesTable.container_id, containerId),
+      eq(securityIssuesTable.external_system, JIRA_SYSTEM)
+    ))
+    .orderBy(asc(securityIssuesTable.id))
+    .execute();
+
+  const linked = issues.filter((issue): issue is SecurityIssue & { external_id: string } => issue.external_id !== null);
+  const jiraIssues = new Map((await client.getIssues(linked.map(issue => issue.external_id)))
+    .map(jiraIssue => [jiraIssue.key, jiraIssue]));
+  const userIds = await usersByEmail();
+
+  const result: ExternalPullResult = { updated: 0, unchanged: 0, failures: [], conflicts: [] };
+  for (const issue of linked) {
+    try {
+      const jiraIssue = jiraIssues.get(issue.external_id);
+      if (!jiraIssue) {
+        throw new Error(`Jira issue ${issue.external_id} no longer exists`);
+      }
+
+      const { changed, conflict } = await applyExternalState(issue, jiraItemState(jiraIssue), userIds, actor);
+      if (changed) {
+        result.updated++;
+      } else {
+        result.unchanged++;
+      }
+      if (conflict) {
+        result.conflicts.push({ issue_id: issue.id, error: conflict });
+      }
+    } catch (error) {
+      const message = errorMessage(error);
+      await recordSyncFailure(issue.id, message);
+      result.failures.push({ issue_id: issue.id, error: message });
+    }
+  }
+
+  if (result.updated > 0) {
+    await recalculateContainerRiskScore(containerId);
+  }
+  return result;
+};
+
+// The local user that scheduled and webhook syncs act as
+export const jiraSyncUser = (config: JiraConfig): Promise<Actor> =>
+  syncUser(config.sync_username, 'JIRA_SYNC_USERNAME');
+
+// Pulls every container linked to Jira. Containers that fail are reported
+// and the rest still pulled.
+export const pullAllJiraContainers = async (config: JiraConfig): Promise<ContainerPullOutcome[]> => {
+  const actor = await jiraSyncUser(config);
+  const client = createJiraClient(config);
+
+  const outcomes: ContainerPullOutcome[] = [];
+  for (const containerId of await linkedContainerIds(JIRA_SYSTEM)) {
+    try {
+      outcomes.push({ container_id: containerId, result: await pullContainerChanges(containerId, client, actor), error: null });
+    } catch (error) {
+      outcomes.push({ container_id: containerId, result: null, error: errorMessage(error) });
+    }
+  }
+  return outcomes;
+};
+
+// Runs pullAllJiraContainers every sync_interval_minutes; returns the timer,
+// or null when the schedule is disabled
+export const scheduleJiraPull = (config: JiraConfig): ReturnType<typeof setInterval> | null =>
+  schedulePull(JIRA_SYSTEM, config.sync_interval_minutes, () => pullAllJiraContainers(config));
@@ -0,0 +1,132 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { z } from 'zod';
+import { db } from '../db';
+import { securityIssuesTable } from '../db/schema';
+import { recalculateContainerRiskScore } from '../scoring/risk_scoring';
+import { type JiraConfig, JIRA_SYSTEM, jiraIssueSchema } from './jira';
+import { jiraItemState, jiraSyncUser } from './jira_sync';
+import { applyExternalState, usersByEmail } from './external_sync';
+import { and, eq } from 'drizzle-orm';
+
+export const JIRA_WEBHOOK_PATH = '/webhooks/jira';
+
+// Issue events are a few kilobytes; larger bodies are refused unread
+export const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024;
+
+const webhookPayloadSchema = z.object({
+  webhookEvent: z.string(),
+  issue: jiraIssueSchema.optional()
+});
+
+export interface JiraWebhookResponse {
+  status: number;
+  message: string;
+}
+
+// Jira signs the body with the webhook secret and sends
+// X-Hub-Signature: sha256=<hex HMAC>
+const validSignature = (body: string, signature: string | null, secret: string): boolean => {
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const received = Buffer.from(signature ?? '');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+// Applies a jira:issue_updated event to the linked issue as the sync user.
+// Events for issues that are not linked are acknowledged and ignored so Jira
+// does not retry them.
+export const receiveJiraWebhook = async (body: string, signature: string | null, config: JiraConfig | null): Promise<JiraWebhookResponse> => {
+  if (!config?.webhook_secret) {
+    return { status: 404, message: 'Jira webhook is not enabled' };
+  }
+  if (!validSignature(body, signature, config.webhook_secret)) {
+    return { status: 401, message: 'Invalid signature' };
+  }
+
+  let payload: z.infer<typeof webhookPayloadSchema>;
+  try {
+    payload = webhookPayloadSchema.parse(JSON.parse(body));
+  } catch {
+    return { status: 400, message: 'Expected a Jira issue event' };
+  }
+
+  if (payload.webhookEvent !== 'jira:issue_updated' || !payload.issue) {
+    return { status: 202, message: `Ignored ${payload.webhookEvent}` };
+  }
+
+  const issues = await db.select()
+    .from(securityIssuesTable)
+    .where(and(
+      eq(securityIssuesTable.external_system, JIRA_SYSTEM),
+      eq(securityIssuesTable.external_id, payload.issue.key)
+    ))
+    .execute();
+
+  if (issues.length === 0) {
+    return { status: 202, message: `${payload.issue.key} is not linked to an issue` };
+  }
+
+  const actor = await jiraSyncUser(config);
+  const userIds = await usersByEmail();
+
+  const [issue] = issues;
+  const { changed, conflict } = await applyExternalState(issue, jiraItemState(payload.issue), userIds, actor);
+  if (!changed) {
+    return { status: 200, message: conflict ? `Issue ${issue.id} left for review: ${conflict}` : `Issue ${issue.id} is up to date` };
+  }
+
+  await recalculateContainerRiskScore(issue.container_id);
+  return { status: 200, message: `Issue ${issue.id} updated` };
+};
+
+// Serves JIRA_WEBHOOK_PATH on the tRPC HTTP server. Returns false for other
+// requests so they go on to the API.
+export const handleJiraWebhookRequest = (req: IncomingMessage, res: ServerResponse, config: JiraConfig | null): boolean => {
+  if (req.method !== 'POST' || req.url?.split('?')[0] !== JIRA_WEBHOOK_PATH) {
+    return false;
+  }
+
+  const respond = (response: JiraWebhookResponse) => {
+    res.statusCode = response.status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ message: response.message }));
+  };
+  const tooLarge = () => {
+    // The rest of the body is drained without being kept
+    res.setHeader('Connection', 'close');
+    respond({ status: 413, message: `Body exceeds ${MAX_WEBHOOK_BODY_BYTES} bytes` });
+    req.resume();
+  };
+
+  if (Number(req.headers['content-length'] ?? 0) > MAX_WEBHOOK_BODY_BYTES) {
+    tooLarge();
+    return true;
+  }
+
+  // Chunked bodies carry no length, so the cap is also checked as they arrive
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_WEBHOOK_BODY_BYTES) {
+      chunks.length = 0;
+      req.off('data', onData);
+      req.off('end', onEnd);
+      tooLarge();
+      return;
+    }
+    chunks.push(chunk);
+  };
+  const onEnd = () => {
+    const signature = req.headers['x-hub-signature'];
+    receiveJiraWebhook(Buffer.concat(chunks).toString('utf8'), typeof signature === 'string' ? signature : null, config)
+      .catch((error): JiraWebhookResponse => {
+        console.error('Jira webhook failed:', error);
+        return { status: 500, message: 'Jira webhook failed' };
+      })
+      .then(respond);
+  };
+  req.on('data', onData);
+  req.on('end', onEnd);
+  return true;
+};
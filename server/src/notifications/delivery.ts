@@ -0,0 +1,134 @@
+import { db } from '../db';
+import { type EmailNotification, emailNotificationsTable } from '../db/schema';
+import { SMTP_SEND_TIMEOUT_MS, type SmtpConfig, sendEmail, smtpConfigFromEnv } from './smtp';
+import { queueDailyDigests } from './emails';
+import { and, asc, eq, inArray, lte } from 'drizzle-orm';
+
+// Notification settings on top of the SMTP relay
+export interface NotificationConfig {
+  smtp: SmtpConfig;
+  digest_hour: number; // UTC hour from which the day's digests are sent
+}
+
+// Reads the SMTP settings plus the optional NOTIFICATION_DIGEST_HOUR (UTC,
+// default 7). Returns null when email is not configured; emails then stay
+// queued until it is.
+export const notificationConfigFromEnv = (): NotificationConfig | null => {
+  const smtp = smtpConfigFromEnv();
+  if (!smtp) {
+    return null;
+  }
+
+  const hour = Number(process.env['NOTIFICATION_DIGEST_HOUR'] ?? 7);
+  return {
+    smtp,
+    digest_hour: Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 7
+  };
+};
+
+// An email is tried this many times before it is marked Failed, waiting a
+// minute after the first failure and doubling up to an hour
+export const EMAIL_MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 60 * 60_000;
+
+const BATCH_SIZE = 50;
+
+// How long a worker owns the emails it claimed before others may retry them:
+// long enough to send each of them up to the SMTP timeout, plus a margin
+const CLAIM_MARGIN_MS = 60_000;
+const claimLease = (count: number): number => count * SMTP_SEND_TIMEOUT_MS + CLAIM_MARGIN_MS;
+
+export const emailRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const sendNotification = async (config: SmtpConfig, notification: EmailNotification): Promise<void> => {
+  const attemptedAt = new Date();
+  const attempts = notification.attempts + 1;
+
+  let error: string | null = null;
+  try {
+    await sendEmail(config, {
+      to: notification.to_address,
+      subject: notification.subject,
+      text: notification.text_body,
+      html: notification.html_body
+    });
+  } catch (sendError) {
+    error = errorMessage(sendError);
+  }
+
+  await db.update(emailNotificationsTable)
+    .set(error === null
+      ? { status: 'Sent', attempts, next_attempt_at: null, last_error: null, sent_at: attemptedAt }
+      : attempts < EMAIL_MAX_ATTEMPTS
+        ? { attempts, next_attempt_at: new Date(attemptedAt.getTime() + emailRetryDelay(attempts)), last_error: error }
+        : { status: 'Failed', attempts, next_attempt_at: null, last_error: error })
+    .where(eq(emailNotificationsTable.id, notification.id))
+    .execute();
+};
+
+// Sends the queued emails that are due, oldest first, claiming them under
+// SKIP LOCKED like the webhook worker. Returns the number attempted.
+export const sendDueEmails = async (config: SmtpConfig, limit: number = BATCH_SIZE): Promise<number> => {
+  const now = new Date();
+
+  const claimed = await db.transaction(async (tx) => {
+    const due = await tx.select({ id: emailNotificationsTable.id })
+      .from(emailNotificationsTable)
+      .where(and(
+        eq(emailNotificationsTable.status, 'Pending'),
+        lte(emailNotificationsTable.next_attempt_at, now)
+      ))
+      .orderBy(asc(emailNotificationsTable.next_attempt_at), asc(emailNotificationsTable.id))
+      .limit(limit)
+      .for('update', { skipLocked: true })
+      .execute();
+
+    if (due.length === 0) {
+      return [];
+    }
+
+    return tx.update(emailNotificationsTable)
+      .set({ next_attempt_at: new Date(now.getTime() + claimLease(due.length)) })
+      .where(inArray(emailNotificationsTable.id, due.map(notification => notification.id)))
+      .returning()
+      .execute();
+  });
+
+  claimed.sort((a, b) => a.id - b.id);
+  for (const notification of claimed) {
+    await sendNotification(config, notification);
+  }
+  return claimed.length;
+};
+
+// Once a minute, queues the day's digests once the digest hour has passed and
+// sends whatever is due; returns the timer
+export const scheduleNotifications = (config: NotificationConfig): ReturnType<typeof setInterval> => {
+  let running = false;
+  let lastDigestDate: string | null = null;
+
+  const tick = async () => {
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+    if (lastDigestDate !== today && now.getUTCHours() >= config.digest_hour) {
+      await queueDailyDigests(today, now);
+      lastDigestDate = today;
+    }
+    await sendDueEmails(config.smtp);
+  };
+
+  return setInterval(() => {
+    if (running) return;
+    running = true;
+    tick()
+      .catch(error => console.error('Notification delivery failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  }, 60_000);
+};
@@ -0,0 +1,264 @@
+import { db } from '../db';
+import {
+  activityEventsTable,
+  emailNotificationsTable,
+  notificationPreferencesTable,
+  securityIssuesTable,
+  securityViolationsTable,
+  usersTable
+} from '../db/schema';
+import { type EmailNotificationKind, type NotificationPreferences, type SecurityIssue, type User } from '../schema';
+import { ACTIVE_ISSUE_STATUSES } from '../scoring/risk_scoring';
+import {
+  type DigestItem,
+  type WorkItem,
+  type WorkItemKind,
+  assignmentEmail,
+  criticalViolationEmail,
+  dailyDigestEmail
+} from './templates';
+import { and, eq, gte, inArray, isNotNull, lte, or } from 'drizzle-orm';
+
+type Severity = SecurityIssue['severity'];
+type Role = User['role'];
+type Executor = Pick<typeof db, 'select' | 'insert'>;
+
+export type NotificationSettings = Omit<NotificationPreferences, 'user_id' | 'updated_at'>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationSettings = {
+  assignment_emails: true,
+  critical_violation_emails: true,
+  daily_digest: true
+};
+
+// Days an active issue or violation may stay open after it was reported
+// before the digest lists it as overdue
+export const REMEDIATION_SLA_DAYS: Record<Severity, number> = {
+  Critical: 7,
+  High: 30,
+  Medium: 90,
+  Low: 180
+};
+
+// Roles told about every Critical violation, besides its assignee
+const CRITICAL_VIOLATION_ROLES: Role[] = ['SecurityManager', 'Admin'];
+
+const DAY_MS = 24 * 60 * 60_000;
+
+const severityRank: Record<Severity, number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+
+// Linked from every email when set, e.g. https://primesec.example.com
+const appUrl = (): string | null => process.env['APP_URL'] || null;
+
+// The fields of an issue or violation row the notifications read
+type NotifiedRow = Omit<WorkItem, 'kind'> & Pick<SecurityIssue, 'description' | 'assigned_to'>;
+
+interface Recipient {
+  id: number;
+  email: string;
+  full_name: string;
+  role: Role;
+  preferences: NotificationSettings;
+}
+
+// Active users among ids or roles, with their preferences
+const recipientsAmong = async (executor: Executor, ids: number[], roles: Role[]): Promise<Recipient[]> => {
+  const conditions = [
+    ...(ids.length > 0 ? [inArray(usersTable.id, ids)] : []),
+    ...(roles.length > 0 ? [inArray(usersTable.role, roles)] : [])
+  ];
+  if (conditions.length === 0) {
+    return [];
+  }
+
+  const rows = await executor.select({
+    user: usersTable,
+    preferences: notificationPreferencesTable
+  })
+    .from(usersTable)
+    .leftJoin(notificationPreferencesTable, eq(notificationPreferencesTable.user_id, usersTable.id))
+    .where(and(eq(usersTable.is_active, true), or(...conditions)))
+    .execute();
+
+  return rows.map(({ user, preferences }) => ({
+    id: user.id,
+    email: user.email,
+    full_name: user.full_name,
+    role: user.role,
+    preferences: preferences ?? DEFAULT_NOTIFICATION_PREFERENCES
+  }));
+};
+
+const queueEmail = (executor: Executor, recipient: Recipient, kind: EmailNotificationKind, email: { subject: string; text: string; html: string }) =>
+  executor.insert(emailNotificationsTable)
+    .values({
+      user_id: recipient.id,
+      kind,
+      to_address: recipient.email,
+      subject: email.subject,
+      text_body: email.text,
+      html_body: email.html,
+      next_attempt_at: new Date()
+    })
+    .execute();
+
+// Queues the immediate emails a created or updated issue or violation calls
+// for: one to a new assignee, unless they assigned it to themselves, and, for
+// violations that just became Critical, one to every Security Manager and
+// Admin. before is null for new rows. Run it in the transaction that writes
+// the row.
+export const queueWorkItemNotifications = async (
+  executor: Executor,
+  kind: WorkItemKind,
+  before: NotifiedRow | null,
+  after: NotifiedRow,
+  actorId: number
+): Promise<void> => {
+  const assigneeId = after.assigned_to !== null && after.assigned_to !== (before?.assigned_to ?? null) && after.assigned_to !== actorId
+    ? after.assigned_to
+    : null;
+  const critical = kind === 'Violation'
+    && after.severity === 'Critical'
+    && before?.severity !== 'Critical'
+    && ACTIVE_ISSUE_STATUSES.includes(after.status as SecurityIssue['status']);
+
+  if (assigneeId === null && !critical) {
+    return;
+  }
+
+  const item: WorkItem = {
+    kind,
+    id: after.id,
+    title: after.title,
+    severity: after.severity,
+    status: after.status,
+    created_at: after.created_at
+  };
+  const users = await recipientsAmong(executor, [actorId, ...(assigneeId !== null ? [assigneeId] : [])], critical ? CRITICAL_VIOLATION_ROLES : []);
+  const actorName = users.find(user => user.id === actorId)?.full_name ?? 'Someone';
+
+  for (const user of users) {
+    if (user.id === assigneeId) {
+      if (user.preferences.assignment_emails) {
+        await queueEmail(executor, user, 'Assignment', assignmentEmail(user.full_name, item, actorName, appUrl()));
+      }
+    } else if (critical && user.id !== actorId && user.preferences.critical_violation_emails
+      && CRITICAL_VIOLATION_ROLES.includes(user.role)) {
+      await queueEmail(executor, user, 'CriticalViolation', criticalViolationEmail(user.full_name, item, after.description, appUrl()));
+    }
+  }
+};
+
+const daysOverdue = (item: WorkItem, now: Date): number | null => {
+  const deadline = item.created_at.getTime() + REMEDIATION_SLA_DAYS[item.severity] * DAY_MS;
+  return now.getTime() > deadline ? Math.ceil((now.getTime() - deadline) / DAY_MS) : null;
+};
+
+const byUrgency = (a: DigestItem, b: DigestItem): number =>
+  severityRank[a.severity] - severityRank[b.severity] || a.created_at.getTime() - b.created_at.getTime();
+
+// Queues the digest of date (YYYY-MM-DD) for every active user who wants one
+// and has overdue work or work assigned in the 24 hours before now. Digests
+// already queued for the date are left alone, so running it twice is
+// harmless. Returns the number queued.
+export const queueDailyDigests = async (date: string, now: Date = new Date()): Promise<number> => {
+  const since = new Date(now.getTime() - DAY_MS);
+  const recipients = (await db.select({ user: usersTable, preferences: notificationPreferencesTable })
+    .from(usersTable)
+    .leftJoin(notificationPreferencesTable, eq(notificationPreferencesTable.user_id, usersTable.id))
+    .where(eq(usersTable.is_active, true))
+    .execute())
+    .filter(({ preferences }) => (preferences ?? DEFAULT_NOTIFICATION_PREFERENCES).daily_digest)
+    .map(({ user }) => user);
+
+  if (recipients.length === 0) {
+    return 0;
+  }
+  const recipientIds = recipients.map(user => user.id);
+
+  const columns = (table: typeof securityIssuesTable | typeof securityViolationsTable) => ({
+    id: table.id,
+    title: table.title,
+    severity: table.severity,
+    status: table.status,
+    created_at: table.created_at,
+    assigned_to: table.assigned_to
+  });
+  const issues = await db.select(columns(securityIssuesTable))
+    .from(securityIssuesTable)
+    .where(and(inArray(securityIssuesTable.assigned_to, recipientIds), inArray(securityIssuesTable.status, ACTIVE_ISSUE_STATUSES)))
+    .execute();
+  const violations = await db.select(columns(securityViolationsTable))
+    .from(securityViolationsTable)
+    .where(and(
+      inArray(securityViolationsTable.assigned_to, recipientIds),
+      inArray(securityViolationsTable.status, ACTIVE_ISSUE_STATUSES),
+      eq(securityViolationsTable.is_active, true)
+    ))
+    .execute();
+
+  // Reassignments since the last digest; new rows are recognised by created_at
+  const assignments = new Set((await db.select()
+    .from(activityEventsTable)
+    .where(and(
+      eq(activityEventsTable.event_type, 'Assignment'),
+      eq(activityEventsTable.field, 'assigned_to'),
+      isNotNull(activityEventsTable.new_value),
+      gte(activityEventsTable.created_at, since),
+      lte(activityEventsTable.created_at, now)
+    ))
+    .execute())
+    .map(event => `${event.entity_type}:${event.entity_id}:${event.new_value}`));
+
+  const items = [
+    ...issues.map(row => ({ ...row, kind: 'Issue' as const })),
+    ...violations.map(row => ({ ...row, kind: 'Violation' as const }))
+  ];
+
+  let queued = 0;
+  for (const user of recipients) {
+    const overdue: DigestItem[] = [];
+    const newlyAssigned: DigestItem[] = [];
+
+    for (const row of items.filter(candidate => candidate.assigned_to === user.id)) {
+      const item: DigestItem = {
+        kind: row.kind,
+        id: row.id,
+        title: row.title,
+        severity: row.severity,
+        status: row.status,
+        created_at: row.created_at,
+        overdue_days: null
+      };
+      item.overdue_days = daysOverdue(item, now);
+      if (item.overdue_days !== null) {
+        overdue.push(item);
+      } else if (row.created_at >= since || assignments.has(`${row.kind}:${row.id}:${user.id}`)) {
+        newlyAssigned.push(item);
+      }
+    }
+
+    if (overdue.length === 0 && newlyAssigned.length === 0) {
+      continue;
+    }
+
+    const email = dailyDigestEmail(user.full_name, date, overdue.sort(byUrgency), newlyAssigned.sort(byUrgency), appUrl());
+    const inserted = await db.insert(emailNotificationsTable)
+      .values({
+        user_id: user.id,
+        kind: 'DailyDigest',
+        to_address: user.email,
+        subject: email.subject,
+        text_body: email.text,
+        html_body: email.html,
+        digest_date: date,
+        next_attempt_at: now
+      })
+      .onConflictDoNothing()
+      .returning({ id: emailNotificationsTable.id })
+      .execute();
+    queued += inserted.length;
+  }
+
+  return queued;
+};
@@ -0,0 +1,280 @@
+import { randomUUID } from 'node:crypto';
+import { connect as connectTcp, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+
+// SMTP relay settings. With secure set the connection uses TLS from the start
+// (port 465); otherwise it is upgraded with STARTTLS when the server offers it.
+// Credentials are only sent over TLS unless allow_insecure_auth is set.
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string | null; // Null sends without authenticating
+  password: string | null;
+  allow_insecure_auth: boolean; // For local relays without TLS
+  from: string; // e.g. PrimeSec <security@example.com>
+}
+
+// Reads SMTP_HOST and SMTP_FROM, plus the optional SMTP_PORT (587, or 465
+// when SMTP_SECURE is true), SMTP_USERNAME, SMTP_PASSWORD and
+// SMTP_ALLOW_INSECURE_AUTH. Returns null when email is not configured.
+export const smtpConfigFromEnv = (): SmtpConfig | null => {
+  const host = process.env['SMTP_HOST'];
+  const from = process.env['SMTP_FROM'];
+
+  if (!host || !from) {
+    return null;
+  }
+
+  const secure = process.env['SMTP_SECURE'] === 'true';
+  const port = Number(process.env['SMTP_PORT']);
+  return {
+    host,
+    port: port > 0 ? port : secure ? 465 : 587,
+    secure,
+    username: process.env['SMTP_USERNAME'] || null,
+    password: process.env['SMTP_PASSWORD'] || null,
+    allow_insecure_auth: process.env['SMTP_ALLOW_INSECURE_AUTH'] === 'true',
+    from
+  };
+};
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Each reply must arrive within TIMEOUT_MS, and a whole send, connecting
+// included, is abandoned after SMTP_SEND_TIMEOUT_MS
+const TIMEOUT_MS = 30_000;
+export const SMTP_SEND_TIMEOUT_MS = 2 * 60_000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// The address part of "Name <address>"
+const addressOf = (mailbox: string): string =>
+  /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+
+// Header values come from issue titles and user settings; line breaks would
+// start new headers
+const headerValue = (value: string): string => {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line).toString('base64')}?=`;
+};
+
+const base64Body = (content: string): string =>
+  Buffer.from(content).toString('base64').replace(/.{76}/g, '$&\r\n');
+
+// A multipart/alternative message with the text and HTML versions
+export const buildMimeMessage = (from: string, message: EmailMessage, date: Date = new Date()): string => {
+  const boundary = `primesec-${randomUUID()}`;
+  const domain = addressOf(from).split('@')[1] ?? 'localhost';
+
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+};
+
+// A command/reply conversation over a socket that can be swapped for its TLS
+// upgrade
+const openSession = (initial: Socket) => {
+  let socket = initial;
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+
+  const settle = () => {
+    while (waiting.length > 0 && (replies.length > 0 || failure)) {
+      const waiter = waiting.shift()!;
+      if (replies.length > 0) {
+        waiter.resolve(replies.shift()!);
+      } else {
+        waiter.reject(failure!);
+      }
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line);
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), lines: lines.map(text => text.slice(4)) });
+        lines = [];
+      }
+    }
+    settle();
+  };
+
+  const onError = (error: Error) => {
+    failure = failure ?? error;
+    settle();
+  };
+  const onClose = () => onError(new Error('SMTP server closed the connection'));
+  const onTimeout = () => {
+    onError(new Error('SMTP server did not respond in time'));
+    socket.destroy();
+  };
+
+  const attach = (next: Socket) => {
+    socket = next;
+    socket.setTimeout(TIMEOUT_MS);
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+    socket.on('timeout', onTimeout);
+  };
+  attach(initial);
+
+  const read = (): Promise<SmtpReply> =>
+    new Promise((resolve, reject) => {
+      waiting.push({ resolve, reject });
+      settle();
+    });
+
+  return {
+    // Sends a command, or only reads when line is null, and throws unless the
+    // reply has one of the expected codes
+    command: async (line: string | null, expected: number | number[], description = line?.split(' ')[0] ?? 'greeting'): Promise<SmtpReply> => {
+      if (line !== null) {
+        socket.write(`${line}\r\n`);
+      }
+      const reply = await read();
+      if (!([] as number[]).concat(expected).includes(reply.code)) {
+        throw new Error(`SMTP ${description} failed: ${reply.code} ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    },
+
+    startTls: (host: string): Promise<void> =>
+      new Promise((resolve, reject) => {
+        const plain = socket;
+        plain.removeListener('data', onData);
+        plain.removeListener('close', onClose);
+        plain.removeListener('timeout', onTimeout);
+        const secured = connectTls({ socket: plain, servername: host }, () => resolve());
+        secured.once('error', reject);
+        attach(secured);
+      }),
+
+    // Fails the pending and later commands with the error
+    abort: (error: Error): void => {
+      onError(error);
+      socket.destroy(error);
+    },
+
+    close: (): void => {
+      socket.removeListener('close', onClose);
+      socket.end();
+    }
+  };
+};
+
+const connectTo = (config: SmtpConfig): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const onTimeout = () => {
+      socket.destroy();
+      reject(new Error(`Could not connect to SMTP server ${config.host}:${config.port}`));
+    };
+    const onConnect = () => {
+      socket.removeListener('error', reject);
+      socket.removeListener('timeout', onTimeout);
+      resolve(socket);
+    };
+    const socket: Socket = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : connectTcp({ host: config.host, port: config.port }, onConnect);
+    socket.once('error', reject);
+    socket.setTimeout(TIMEOUT_MS);
+    socket.once('timeout', onTimeout);
+  });
+
+const extensionsOf = (reply: SmtpReply): string[] =>
+  reply.lines.slice(1).map(line => line.toUpperCase());
+
+// Sends one message over a new connection; throws with the server's reply
+// when it is refused
+export const sendEmail = async (config: SmtpConfig, message: EmailMessage): Promise<void> => {
+  const recipient = addressOf(message.to);
+  if (/[\r\n<>]/.test(recipient)) {
+    throw new Error(`Invalid recipient ${message.to}`);
+  }
+
+  const session = openSession(await connectTo(config));
+  const clientName = 'primesec';
+  const deadline = setTimeout(
+    () => session.abort(new Error('SMTP server did not accept the message in time')),
+    SMTP_SEND_TIMEOUT_MS - TIMEOUT_MS
+  );
+  try {
+    await session.command(null, 220);
+    let extensions = extensionsOf(await session.command(`EHLO ${clientName}`, 250));
+    let encrypted = config.secure;
+
+    if (!encrypted && extensions.includes('STARTTLS')) {
+      await session.command('STARTTLS', 220);
+      await session.startTls(config.host);
+      encrypted = true;
+      extensions = extensionsOf(await session.command(`EHLO ${clientName}`, 250));
+    }
+
+    if (config.username) {
+      if (!encrypted && !config.allow_insecure_auth) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials without TLS');
+      }
+      const mechanisms = extensions.find(extension => extension.startsWith('AUTH'))?.split(/[ =]/).slice(1) ?? [];
+      if (mechanisms.includes('PLAIN')) {
+        const credentials = Buffer.from(`\0${config.username}\0${config.password ?? ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH');
+      } else if (mechanisms.includes('LOGIN')) {
+        await session.command('AUTH LOGIN', 334, 'AUTH');
+        await session.command(Buffer.from(config.username).toString('base64'), 334, 'AUTH');
+        await session.command(Buffer.from(config.password ?? '').toString('base64'), 235, 'AUTH');
+      } else {
+        throw new Error('SMTP server offers no supported authentication mechanism');
+      }
+    }
+
+    await session.command(`MAIL FROM:<${addressOf(config.from)}>`, 250, 'MAIL FROM');
+    // 251 is "user not local; will forward"
+    await session.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO');
+    await session.command('DATA', 354);
+    // Lines starting with a dot are escaped by doubling it
+    const data = buildMimeMessage(config.from, message).replace(/^\./gm, '..');
+    await session.command(`${data}.`, 250, 'DATA');
+    await session.command('QUIT', 221).catch(() => undefined);
+  } finally {
+    clearTimeout(deadline);
+    session.close();
+  }
+};
@@ -0,0 +1,155 @@
+import { type EmailMessage } from './smtp';
+
+// Email bodies, each rendered as plain text and as HTML with the same
+// content. Everything interpolated into the HTML is escaped.
+
+type Severity = 'Critical' | 'High' | 'Medium' | 'Low';
+
+export type WorkItemKind = 'Issue' | 'Violation';
+
+// An issue or violation as it appears in an email
+export interface WorkItem {
+  kind: WorkItemKind;
+  id: number;
+  title: string;
+  severity: Severity;
+  status: string;
+  created_at: Date;
+}
+
+export interface DigestItem extends WorkItem {
+  overdue_days: number | null; // Days past the remediation deadline, null when not overdue
+}
+
+type Rendered = Omit<EmailMessage, 'to'>;
+
+const kindLabels: Record<WorkItemKind, string> = {
+  Issue: 'security issue',
+  Violation: 'security violation'
+};
+
+const severityColors: Record<Severity, string> = {
+  Critical: '#b91c1c',
+  High: '#c2410c',
+  Medium: '#a16207',
+  Low: '#15803d'
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const reference = (item: WorkItem): string =>
+  `${item.kind === 'Issue' ? 'Issue' : 'Violation'} #${item.id}`;
+
+const textLine = (item: WorkItem): string =>
+  `- [${item.severity}] ${reference(item)}: ${item.title} (${item.status})`;
+
+const htmlRow = (item: WorkItem, note = ''): string =>
+  '<tr>' +
+  `<td style="padding:4px 8px;color:${severityColors[item.severity]};font-weight:bold">${item.severity}</td>` +
+  `<td style="padding:4px 8px">${escapeHtml(reference(item))}</td>` +
+  `<td style="padding:4px 8px">${escapeHtml(item.title)}</td>` +
+  `<td style="padding:4px 8px">${escapeHtml(item.status)}${note ? ` &middot; ${escapeHtml(note)}` : ''}</td>` +
+  '</tr>';
+
+const htmlTable = (rows: string[]): string =>
+  `<table style="border-collapse:collapse;font-size:14px">${rows.join('')}</table>`;
+
+const textFooter = (appUrl: string | null): string[] => [
+  '',
+  ...(appUrl ? [`Open PrimeSec: ${appUrl}`] : []),
+  'You can change which emails you get in your notification settings.'
+];
+
+const htmlLayout = (heading: string, content: string, appUrl: string | null): string =>
+  '<!DOCTYPE html><html><body style="font-family:Arial,Helvetica,sans-serif;color:#111827">' +
+  `<h2 style="margin:0 0 16px">${escapeHtml(heading)}</h2>` +
+  content +
+  (appUrl ? `<p><a href="${escapeHtml(appUrl)}">Open PrimeSec</a></p>` : '') +
+  '<p style="color:#6b7280;font-size:12px">You can change which emails you get in your notification settings.</p>' +
+  '</body></html>';
+
+export const assignmentEmail = (recipientName: string, item: WorkItem, assignedBy: string, appUrl: string | null): Rendered => {
+  const heading = `${reference(item)} was assigned to you`;
+  return {
+    subject: `[PrimeSec] ${reference(item)} assigned to you: ${item.title}`,
+    text: [
+      `Hi ${recipientName},`,
+      '',
+      `${assignedBy} assigned you a ${item.severity} ${kindLabels[item.kind]}:`,
+      '',
+      textLine(item),
+      ...textFooter(appUrl)
+    ].join('\n'),
+    html: htmlLayout(heading,
+      `<p>Hi ${escapeHtml(recipientName)},</p>` +
+      `<p>${escapeHtml(assignedBy)} assigned you a ${item.severity} ${kindLabels[item.kind]}:</p>` +
+      htmlTable([htmlRow(item)]),
+      appUrl)
+  };
+};
+
+export const criticalViolationEmail = (recipientName: string, item: WorkItem, description: string, appUrl: string | null): Rendered => {
+  const heading = `Critical security violation: ${item.title}`;
+  return {
+    subject: `[PrimeSec] Critical violation #${item.id}: ${item.title}`,
+    text: [
+      `Hi ${recipientName},`,
+      '',
+      'A security violation is now at Critical severity:',
+      '',
+      textLine(item),
+      '',
+      description,
+      ...textFooter(appUrl)
+    ].join('\n'),
+    html: htmlLayout(heading,
+      `<p>Hi ${escapeHtml(recipientName)},</p>` +
+      '<p>A security violation is now at Critical severity:</p>' +
+      htmlTable([htmlRow(item)]) +
+      `<p style="white-space:pre-wrap">${escapeHtml(description)}</p>`,
+      appUrl)
+  };
+};
+
+// date is the digest's day as YYYY-MM-DD. Overdue work is listed once, under
+// Overdue, even when it was also assigned since the last digest.
+export const dailyDigestEmail = (
+  recipientName: string,
+  date: string,
+  overdue: DigestItem[],
+  newlyAssigned: DigestItem[],
+  appUrl: string | null
+): Rendered => {
+  const overdueNote = (item: DigestItem): string => `${item.overdue_days} day${item.overdue_days === 1 ? '' : 's'} overdue`;
+  const summary = [
+    overdue.length > 0 ? `${overdue.length} overdue` : null,
+    newlyAssigned.length > 0 ? `${newlyAssigned.length} newly assigned` : null
+  ].filter(part => part !== null).join(', ');
+
+  const textSection = (title: string, items: DigestItem[], note: (item: DigestItem) => string | null) =>
+    items.length === 0 ? [] : ['', `${title}:`, ...items.map(item => {
+      const extra = note(item);
+      return extra ? `${textLine(item)}, ${extra}` : textLine(item);
+    })];
+  const htmlSection = (title: string, items: DigestItem[], note: (item: DigestItem) => string | null) =>
+    items.length === 0 ? '' : `<h3 style="margin:16px 0 8px">${escapeHtml(title)}</h3>` + htmlTable(items.map(item => htmlRow(item, note(item) ?? '')));
+
+  return {
+    subject: `[PrimeSec] Daily digest for ${date}: ${summary}`,
+    text: [
+      `Hi ${recipientName},`,
+      '',
+      `Your security work for ${date}: ${summary}.`,
+      ...textSection('Overdue', overdue, overdueNote),
+      ...textSection('Newly assigned', newlyAssigned, () => null),
+      ...textFooter(appUrl)
+    ].join('\n'),
+    html: htmlLayout(`Daily digest for ${date}`,
+      `<p>Hi ${escapeHtml(recipientName)},</p>` +
+      `<p>Your security work for ${escapeHtml(date)}: ${escapeHtml(summary)}.</p>` +
+      htmlSection('Overdue', overdue, overdueNote) +
+      htmlSection('Newly assigned', newlyAssigned, () => null),
+      appUrl)
+  };
+};
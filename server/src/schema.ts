@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { validateCvssVector } from './cvss/cvss';
 
 // Enums for various categorical data
 export const SeverityLevel = z.enum(['Critical', 'High', 'Medium', 'Low']);
@@ -11,6 +12,41 @@ export const ControlStatus = z.enum(['Existing', 'Planned', 'NotSpecified']);
 export const ViolationType = z.enum(['SecurityBreach', 'PolicyViolation', 'ComplianceIssue', 'DataLeak']);
 export const UserRole = z.enum(['Admin', 'SecurityAnalyst', 'SecurityManager', 'Viewer']);
 export const ReviewStatus = z.enum(['Pending', 'InReview', 'Completed', 'Rejected']);
+export const CvssVersion = z.enum(['3.1', '4.0']);
+export const ActivityEntityType = z.enum(['Issue', 'Violation', 'Review']);
+export const ActivityEventType = z.enum(['Created', 'FieldChange', 'StatusChange', 'Assignment']);
+export const ExternalSyncStatus = z.enum(['Synced', 'Failed', 'Conflict']);
+export const WebhookEventType = z.enum([
+  'issue.created',
+  'issue.status_changed',
+  'violation.created',
+  'review.analysis_completed',
+  'container.risk_changed'
+]);
+export const WebhookDeliveryStatus = z.enum(['Pending', 'Succeeded', 'Failed']);
+export const EmailNotificationKind = z.enum(['Assignment', 'CriticalViolation', 'DailyDigest']);
+export const SiemAlertFormat = z.enum(['CEF', 'LEEF']);
+export const SiemRuleAction = z.enum(['Violation', 'Ignore']);
+export const SearchEntityType = z.enum(['Issue', 'Violation', 'Review', 'Control', 'Component']);
+export const SavedViewEntityType = z.enum(['Issue', 'Violation']);
+export const SavedViewVisibility = z.enum(['Private', 'Team', 'Organization']);
+export const SortDirection = z.enum(['asc', 'desc']);
+export const IssueSortField = z.enum(['risk_score', 'severity', 'status', 'title', 'cvss_base_score', 'created_at', 'updated_at']);
+export const ViolationSortField = z.enum(['severity', 'status', 'title', 'occurrence_count', 'incident_date', 'created_at', 'updated_at']);
+export const ContainerSortField = z.enum(['name', 'type', 'risk_score', 'created_at', 'updated_at']);
+export const ReviewSortField = z.enum(['title', 'status', 'created_at', 'updated_at']);
+export const ControlSortField = z.enum([
+  'name', 'control_type', 'implementation_status', 'effectiveness_rating', 'last_tested', 'created_at', 'updated_at'
+]);
+export const ComponentSortField = z.enum(['name', 'component_type', 'security_domain', 'created_at', 'updated_at']);
+
+// CVSS v3.1 or v4.0 vector string, e.g. CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H
+export const cvssVectorSchema = z.string().trim().superRefine((vector, ctx) => {
+  const error = validateCvssVector(vector);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
 
 // User schema
 export const userSchema = z.object({
@@ -35,7 +71,9 @@ export const containerSchema = z.object({
   risk_score: z.number().min(0).max(100),
   external_id: z.string().nullable(), // For Jira, Azure DevOps integration
   external_system: z.string().nullable(),
+  scoring_profile_id: z.number().nullable(), // Null means the built-in default profile
   created_by: z.number(),
+  updated_by: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
   is_active: z.boolean()
@@ -43,6 +81,27 @@ export const containerSchema = z.object({
 
 export type Container = z.infer<typeof containerSchema>;
 
+// Risk scoring profile schema
+export const scoringProfileSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  version: z.number().int(),
+  description: z.string().nullable(),
+  confidentiality_weight: z.number().min(0),
+  integrity_weight: z.number().min(0),
+  availability_weight: z.number().min(0),
+  compliance_weight: z.number().min(0),
+  third_party_weight: z.number().min(0),
+  critical_weight: z.number().min(0),
+  high_weight: z.number().min(0),
+  medium_weight: z.number().min(0),
+  low_weight: z.number().min(0),
+  created_by: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+
 // Security Issue schema (Workroom)
 export const securityIssueSchema = z.object({
   id: z.number(),
@@ -63,19 +122,86 @@ export const securityIssueSchema = z.object({
   mitre_attack_technique: z.string().nullable(),
   linddun_category: z.string().nullable(),
   attack_complexity: z.string().nullable(),
+  cvss_vector: z.string().nullable(),
+  cvss_version: CvssVersion.nullable(),
+  cvss_base_score: z.number().min(0).max(10).nullable(),
+  cvss_temporal_score: z.number().min(0).max(10).nullable(),
+  cvss_environmental_score: z.number().min(0).max(10).nullable(),
   threat_modeling_notes: z.string().nullable(),
   compensating_controls: z.string().nullable(),
+  resolution_note: z.string().nullable(),
   container_id: z.number(),
   parent_issue_id: z.number().nullable(), // For Epic/Story/Task hierarchy
   assigned_to: z.number().nullable(),
   created_by: z.number(),
+  updated_by: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
-  is_automated_finding: z.boolean()
+  is_automated_finding: z.boolean(),
+  tags: z.array(z.string()),
+  fingerprint: z.string().nullable(),
+  scanner: z.string().nullable(),
+  component_id: z.number().nullable(),
+  cve_id: z.string().nullable(),
+  package_name: z.string().nullable(),
+  package_version: z.string().nullable(),
+  fixed_version: z.string().nullable(),
+  cwe_id: z.string().nullable(),
+  affected_url: z.string().nullable(),
+  affected_parameter: z.string().nullable(),
+  evidence: z.string().nullable(),
+  external_system: z.string().nullable(),
+  external_id: z.string().nullable(),
+  external_url: z.string().nullable(),
+  external_synced_at: z.coerce.date().nullable(),
+  external_sync_status: ExternalSyncStatus.nullable(),
+  external_sync_error: z.string().nullable()
 });
 
 export type SecurityIssue = z.infer<typeof securityIssueSchema>;
 
+// Issue with its children nested, as returned by getIssueTree
+export type IssueTreeNode = SecurityIssue & {
+  rollup_risk_score: number; // Severity-weighted risk of the active issues in this subtree
+  progress: number | null; // Percentage of descendants resolved or closed; null without children
+  children: IssueTreeNode[];
+};
+
+export const issueTreeNodeSchema: z.ZodType<IssueTreeNode, z.ZodTypeDef, unknown> = securityIssueSchema.extend({
+  rollup_risk_score: z.number().min(0).max(100),
+  progress: z.number().min(0).max(100).nullable(),
+  children: z.lazy(() => z.array(issueTreeNodeSchema))
+});
+
+// Issue status history entry
+export const issueStatusHistorySchema = z.object({
+  id: z.number(),
+  issue_id: z.number(),
+  from_status: IssueStatus.nullable(), // Null for the status the issue was created with
+  to_status: IssueStatus,
+  note: z.string().nullable(),
+  changed_by: z.number(),
+  changed_at: z.coerce.date()
+});
+
+export type IssueStatusHistory = z.infer<typeof issueStatusHistorySchema>;
+
+// Issue status workflow as enforced by updateSecurityIssue
+export const statusTransitionSchema = z.object({
+  from: IssueStatus,
+  to: IssueStatus,
+  permission: z.string(),
+  critical_permission: z.string().optional(), // Additionally required for Critical issues
+  required_fields: z.array(z.enum(['resolution_note', 'assigned_to']))
+});
+
+export const issueWorkflowSchema = z.object({
+  initial_status: IssueStatus,
+  transitions: z.array(statusTransitionSchema)
+});
+
+export type IssueWorkflowDefinition = z.infer<typeof issueWorkflowSchema>;
+
 // Security Review schema
 export const securityReviewSchema = z.object({
   id: z.number(),
@@ -90,8 +216,10 @@ export const securityReviewSchema = z.object({
   container_id: z.number().nullable(),
   reviewer_id: z.number().nullable(),
   created_by: z.number(),
+  updated_by: z.number().nullable(),
   created_at: z.coerce.date(),
-  updated_at: z.coerce.date()
+  updated_at: z.coerce.date(),
+  is_active: z.boolean()
 });
 
 export type SecurityReview = z.infer<typeof securityReviewSchema>;
@@ -113,8 +241,14 @@ export const securityViolationSchema = z.object({
   related_issue_id: z.number().nullable(),
   assigned_to: z.number().nullable(),
   created_by: z.number(),
+  updated_by: z.number().nullable(),
   created_at: z.coerce.date(),
-  updated_at: z.coerce.date()
+  updated_at: z.coerce.date(),
+  is_active: z.boolean(),
+  tags: z.array(z.string()),
+  correlation_key: z.string().nullable(), // Set on violations raised from SIEM alerts
+  occurrence_count: z.number().int(), // Correlated alerts counted on the violation
+  last_occurrence_at: z.coerce.date().nullable()
 });
 
 export type SecurityViolation = z.infer<typeof securityViolationSchema>;
@@ -134,6 +268,7 @@ export const securityControlSchema = z.object({
   last_tested: z.coerce.date().nullable(),
   container_id: z.number(),
   created_by: z.number(),
+  updated_by: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
   is_active: z.boolean()
@@ -156,6 +291,7 @@ export const architectureComponentSchema = z.object({
   position_y: z.number().nullable(),
   container_id: z.number(),
   created_by: z.number(),
+  updated_by: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
   is_active: z.boolean()
@@ -163,32 +299,162 @@ export const architectureComponentSchema = z.object({
 
 export type ArchitectureComponent = z.infer<typeof architectureComponentSchema>;
 
+// Control framework catalog entry (seeded reference data)
+export const controlFrameworkSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  version: z.string(),
+  description: z.string().nullable(),
+  url: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ControlFramework = z.infer<typeof controlFrameworkSchema>;
+
+// Comment schema (issues, violations and reviews)
+export const commentSchema = z.object({
+  id: z.number(),
+  entity_type: ActivityEntityType,
+  entity_id: z.number(),
+  parent_comment_id: z.number().nullable(),
+  body: z.string(), // Empty once deleted
+  author_id: z.number(),
+  created_at: z.coerce.date(),
+  edited_at: z.coerce.date().nullable(),
+  deleted_at: z.coerce.date().nullable()
+});
+
+export type Comment = z.infer<typeof commentSchema>;
+
+// Comment with its replies nested, as returned by getComments
+export type CommentThread = Comment & { replies: CommentThread[] };
+
+export const commentThreadSchema: z.ZodType<CommentThread, z.ZodTypeDef, unknown> = commentSchema.extend({
+  replies: z.lazy(() => z.array(commentThreadSchema))
+});
+
+// Activity event schema
+export const activityEventSchema = z.object({
+  id: z.number(),
+  entity_type: ActivityEntityType,
+  entity_id: z.number(),
+  event_type: ActivityEventType,
+  field: z.string().nullable(),
+  old_value: z.string().nullable(),
+  new_value: z.string().nullable(),
+  actor_id: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type ActivityEvent = z.infer<typeof activityEventSchema>;
+
+// Activity feed entry: either a comment or a recorded event
+export const activityItemSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('comment'), occurred_at: z.coerce.date(), comment: commentSchema }),
+  z.object({ kind: z.literal('event'), occurred_at: z.coerce.date(), event: activityEventSchema })
+]);
+
+export type ActivityItem = z.infer<typeof activityItemSchema>;
+
+// Audit log entry schema
+export const auditChangesSchema = z.record(z.object({
+  before: z.unknown(),
+  after: z.unknown()
+}));
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  actor_id: z.number().nullable(),
+  procedure: z.string(),
+  entity_type: z.string().nullable(),
+  entity_id: z.number().nullable(),
+  input: z.unknown(),
+  changes: auditChangesSchema.nullable(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  created_at: z.coerce.date(),
+  prev_hash: z.string().nullable(),
+  hash: z.string()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+export const auditVerificationResultSchema = z.object({
+  valid: z.boolean(),
+  entries_checked: z.number(),
+  first_invalid_id: z.number().nullable(),
+  reason: z.string().nullable()
+});
+
+export type AuditVerificationResult = z.infer<typeof auditVerificationResultSchema>;
+
+// Schema migration status, as reported by getMigrationStatus
+export const migrationStatusSchema = z.object({
+  tag: z.string(),
+  created_at: z.coerce.date(),
+  status: z.enum(['applied', 'pending', 'modified']), // modified: the file changed after it was applied
+  reversible: z.boolean() // Has a <tag>.down.sql for rollback
+});
+
+export type MigrationStatus = z.infer<typeof migrationStatusSchema>;
+
+export const migrationStatusReportSchema = z.object({
+  migrations: z.array(migrationStatusSchema),
+  applied: z.number().int(),
+  pending: z.number().int()
+});
+
+export type MigrationStatusReport = z.infer<typeof migrationStatusReportSchema>;
+
 // Input schemas for creating records
 export const createUserInputSchema = z.object({
   username: z.string().min(3).max(50),
   email: z.string().email(),
   full_name: z.string().min(1).max(100),
   role: UserRole,
+  password: z.string().min(12).max(200),
   is_active: z.boolean().default(true)
 });
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+// Authentication schemas
+export const loginInputSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1)
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+export const sessionSchema = z.object({
+  token: z.string(), // Only returned once, at login
+  expires_at: z.coerce.date(),
+  user: userSchema
+});
+
+export type SessionResult = z.infer<typeof sessionSchema>;
+
 export const createContainerInputSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().nullable(),
   type: ContainerType,
   external_id: z.string().nullable(),
-  external_system: z.string().nullable(),
-  created_by: z.number()
+  external_system: z.string().nullable()
 });
 
 export type CreateContainerInput = z.infer<typeof createContainerInputSchema>;
 
+// Free-form triage labels, e.g. "pci" or "q3-sprint"
+export const tagsSchema = z.array(z.string().trim().min(1).max(50)).max(20);
+
 export const createSecurityIssueInputSchema = z.object({
   title: z.string().min(1).max(200),
   description: z.string().min(1),
-  severity: SeverityLevel,
+  severity: SeverityLevel.optional(), // Derived from cvss_vector when one is given
   classification: IssueClassification,
   hierarchy: IssueHierarchy,
   confidentiality_impact: z.number().min(0).max(100).default(0),
@@ -201,13 +467,18 @@ export const createSecurityIssueInputSchema = z.object({
   mitre_attack_technique: z.string().nullable(),
   linddun_category: z.string().nullable(),
   attack_complexity: z.string().nullable(),
+  // When present, severity, C/I/A impacts and attack complexity are derived from it
+  cvss_vector: cvssVectorSchema.nullable().optional(),
   threat_modeling_notes: z.string().nullable(),
   compensating_controls: z.string().nullable(),
   container_id: z.number(),
   parent_issue_id: z.number().nullable(),
   assigned_to: z.number().nullable(),
-  created_by: z.number(),
-  is_automated_finding: z.boolean().default(false)
+  is_automated_finding: z.boolean().default(false),
+  tags: tagsSchema.optional()
+}).refine(input => input.severity !== undefined || !!input.cvss_vector, {
+  message: 'Severity is required unless a CVSS vector is provided',
+  path: ['severity']
 });
 
 export type CreateSecurityIssueInput = z.infer<typeof createSecurityIssueInputSchema>;
@@ -218,8 +489,7 @@ export const createSecurityReviewInputSchema = z.object({
   document_name: z.string().nullable(),
   document_url: z.string().nullable(),
   document_type: z.string().nullable(),
-  container_id: z.number().nullable(),
-  created_by: z.number()
+  container_id: z.number().nullable()
 });
 
 export type CreateSecurityReviewInput = z.infer<typeof createSecurityReviewInputSchema>;
@@ -237,7 +507,7 @@ export const createSecurityViolationInputSchema = z.object({
   container_id: z.number().nullable(),
   related_issue_id: z.number().nullable(),
   assigned_to: z.number().nullable(),
-  created_by: z.number()
+  tags: tagsSchema.optional()
 });
 
 export type CreateSecurityViolationInput = z.infer<typeof createSecurityViolationInputSchema>;
@@ -253,8 +523,7 @@ export const createSecurityControlInputSchema = z.object({
   implementation_notes: z.string().nullable(),
   testing_frequency: z.string().nullable(),
   last_tested: z.coerce.date().nullable(),
-  container_id: z.number(),
-  created_by: z.number()
+  container_id: z.number()
 });
 
 export type CreateSecurityControlInput = z.infer<typeof createSecurityControlInputSchema>;
@@ -270,12 +539,326 @@ export const createArchitectureComponentInputSchema = z.object({
   data_classification: z.string().nullable(),
   position_x: z.number().nullable(),
   position_y: z.number().nullable(),
-  container_id: z.number(),
-  created_by: z.number()
+  container_id: z.number()
 });
 
 export type CreateArchitectureComponentInput = z.infer<typeof createArchitectureComponentInputSchema>;
 
+export const createScoringProfileInputSchema = z.object({
+  name: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+  description: z.string().nullable(),
+  confidentiality_weight: z.number().min(0).max(1),
+  integrity_weight: z.number().min(0).max(1),
+  availability_weight: z.number().min(0).max(1),
+  compliance_weight: z.number().min(0).max(1),
+  third_party_weight: z.number().min(0).max(1),
+  critical_weight: z.number().min(0).max(1),
+  high_weight: z.number().min(0).max(1),
+  medium_weight: z.number().min(0).max(1),
+  low_weight: z.number().min(0).max(1)
+}).refine(
+  input => input.confidentiality_weight + input.integrity_weight + input.availability_weight +
+    input.compliance_weight + input.third_party_weight > 0,
+  { message: 'At least one impact weight must be positive' }
+);
+
+export type CreateScoringProfileInput = z.infer<typeof createScoringProfileInputSchema>;
+
+export const setContainerScoringProfileInputSchema = z.object({
+  container_id: z.number(),
+  scoring_profile_id: z.number().nullable() // Null reverts to the built-in default profile
+});
+
+export type SetContainerScoringProfileInput = z.infer<typeof setContainerScoringProfileInputSchema>;
+
+export const recomputeRiskScoresInputSchema = z.object({
+  container_id: z.number().optional() // Omit to recompute every container
+});
+
+export type RecomputeRiskScoresInput = z.infer<typeof recomputeRiskScoresInputSchema>;
+
+export const recomputeRiskScoresResultSchema = z.object({
+  containers_updated: z.number(),
+  issues_updated: z.number()
+});
+
+export type RecomputeRiskScoresResult = z.infer<typeof recomputeRiskScoresResultSchema>;
+
+export const importSarifInputSchema = z.object({
+  container_id: z.number(),
+  component_id: z.number().nullable().optional(), // Architecture component the analyzed code belongs to
+  sarif: z.union([z.string().min(1), z.record(z.unknown())]) // SARIF 2.1.0 log, as file text or parsed JSON
+});
+
+export type ImportSarifInput = z.infer<typeof importSarifInputSchema>;
+
+export const importReportInputSchema = z.object({
+  container_id: z.number(),
+  component_id: z.number().nullable().optional(), // Architecture component the scanned image or application belongs to
+  report: z.union([z.string().min(1), z.record(z.unknown())]) // Scanner output as file text, or parsed JSON
+});
+
+export type ImportReportInput = z.infer<typeof importReportInputSchema>;
+
+// What an import did with one entry of the report
+export const importedFindingSchema = z.object({
+  reference: z.string(), // Position in the report, e.g. runs[0].results[3]
+  rule_id: z.string().nullable(),
+  outcome: z.enum(['created', 'updated', 'reopened', 'skipped']), // reopened: a resolved finding reported again
+  issue_id: z.number().nullable(), // Null when skipped before matching an issue
+  reason: z.string().nullable() // Why the entry was skipped
+});
+
+export type ImportedFinding = z.infer<typeof importedFindingSchema>;
+
+export const importSummarySchema = z.object({
+  run_id: z.number(),
+  created: z.number().int(),
+  updated: z.number().int(),
+  reopened: z.number().int(),
+  resolved: z.number().int(), // Earlier findings this report no longer contains
+  skipped: z.number().int(),
+  findings: z.array(importedFindingSchema),
+  resolved_issue_ids: z.array(z.number()),
+  // Critical findings no longer reported, left open for someone with issues:close_critical
+  pending_issue_ids: z.array(z.number())
+});
+
+export type ImportSummary = z.infer<typeof importSummarySchema>;
+
+export const importRunSchema = z.object({
+  id: z.number(),
+  container_id: z.number(),
+  component_id: z.number().nullable(),
+  format: z.string(),
+  scanners: z.array(z.string()),
+  created: z.number().int(),
+  updated: z.number().int(),
+  reopened: z.number().int(),
+  resolved: z.number().int(),
+  skipped: z.number().int(),
+  delta: z.object({
+    created: z.array(z.number()),
+    updated: z.array(z.number()),
+    reopened: z.array(z.number()),
+    resolved: z.array(z.number())
+  }),
+  imported_by: z.number().nullable(),
+  imported_at: z.coerce.date()
+});
+
+export type ImportRun = z.infer<typeof importRunSchema>;
+
+export const getImportRunsInputSchema = z.object({
+  container_id: z.number(),
+  component_id: z.number().optional() // Only runs for this component
+});
+
+export type GetImportRunsInput = z.infer<typeof getImportRunsInputSchema>;
+
+// Sync with the tracker a container is linked to (external_system and external_id)
+export const externalSyncInputSchema = z.object({
+  container_id: z.number()
+});
+
+export type ExternalSyncInput = z.infer<typeof externalSyncInputSchema>;
+
+// An issue a sync could not push or pull; the rest of the sync goes ahead
+export const syncFailureSchema = z.object({
+  issue_id: z.number(),
+  error: z.string()
+});
+
+export type SyncFailure = z.infer<typeof syncFailureSchema>;
+
+export const externalPushResultSchema = z.object({
+  created: z.number().int(),
+  updated: z.number().int(),
+  skipped: z.number().int(), // Unchanged since the last sync, or not active and never pushed
+  failures: z.array(syncFailureSchema)
+});
+
+export type ExternalPushResult = z.infer<typeof externalPushResultSchema>;
+
+export const externalPullResultSchema = z.object({
+  updated: z.number().int(),
+  unchanged: z.number().int(),
+  failures: z.array(syncFailureSchema),
+  // Tracker statuses the workflow or the puller's permissions do not allow,
+  // left for someone who may make the change
+  conflicts: z.array(syncFailureSchema)
+});
+
+export type ExternalPullResult = z.infer<typeof externalPullResultSchema>;
+
+// Where an issue stands with the tracker its container is linked to. Pending
+// issues changed after they were last synced; Conflict issues have a tracker
+// status the last pull could not apply.
+export const issueSyncStateSchema = z.object({
+  issue_id: z.number(),
+  title: z.string(),
+  external_system: z.string().nullable(),
+  external_id: z.string().nullable(),
+  external_url: z.string().nullable(),
+  sync_status: z.enum(['NotLinked', 'Pending', 'Synced', 'Failed', 'Conflict']),
+  sync_error: z.string().nullable(),
+  synced_at: z.coerce.date().nullable()
+});
+
+export type IssueSyncState = z.infer<typeof issueSyncStateSchema>;
+
+export const createCommentInputSchema = z.object({
+  entity_type: ActivityEntityType,
+  entity_id: z.number(),
+  parent_comment_id: z.number().nullable().optional(), // Set to reply to a comment
+  body: z.string().trim().min(1).max(10000)
+});
+
+export type CreateCommentInput = z.infer<typeof createCommentInputSchema>;
+
+export const updateCommentInputSchema = z.object({
+  id: z.number(),
+  body: z.string().trim().min(1).max(10000)
+});
+
+export type UpdateCommentInput = z.infer<typeof updateCommentInputSchema>;
+
+// Offset pagination shared by the comment and activity procedures
+export const paginationInputSchema = z.object({
+  limit: z.number().int().min(1).max(100).default(50),
+  offset: z.number().int().min(0).default(0)
+});
+
+export const entityActivityInputSchema = paginationInputSchema.extend({
+  entity_type: ActivityEntityType,
+  entity_id: z.number()
+});
+
+export type EntityActivityInput = z.infer<typeof entityActivityInputSchema>;
+
+export const commentThreadPageSchema = z.object({
+  items: z.array(commentThreadSchema),
+  total: z.number() // Top-level comments
+});
+
+export type CommentThreadPage = z.infer<typeof commentThreadPageSchema>;
+
+export const activityFeedPageSchema = z.object({
+  items: z.array(activityItemSchema),
+  total: z.number()
+});
+
+export type ActivityFeedPage = z.infer<typeof activityFeedPageSchema>;
+
+export const auditLogFilterSchema = paginationInputSchema.extend({
+  actor_id: z.number().optional(),
+  procedure: z.string().optional(),
+  entity_type: z.string().optional(),
+  entity_id: z.number().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
+
+export const auditLogPageSchema = z.object({
+  items: z.array(auditLogEntrySchema),
+  total: z.number()
+});
+
+export type AuditLogPage = z.infer<typeof auditLogPageSchema>;
+
+// Webhook subscription as returned by the API; the secret is write-only
+export const webhookSubscriptionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  url: z.string(),
+  events: z.array(WebhookEventType),
+  is_active: z.boolean(),
+  created_by: z.number(),
+  updated_by: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type WebhookSubscription = z.infer<typeof webhookSubscriptionSchema>;
+
+const webhookUrlSchema = z.string().url().refine(url => /^https?:\/\//i.test(url), 'Webhook URL must use http or https');
+
+export const createWebhookSubscriptionInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: webhookUrlSchema,
+  secret: z.string().min(16).max(256),
+  events: z.array(WebhookEventType).min(1),
+  is_active: z.boolean().default(true)
+});
+
+export type CreateWebhookSubscriptionInput = z.infer<typeof createWebhookSubscriptionInputSchema>;
+
+export const updateWebhookSubscriptionInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).max(100).optional(),
+  url: webhookUrlSchema.optional(),
+  secret: z.string().min(16).max(256).optional(),
+  events: z.array(WebhookEventType).min(1).optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateWebhookSubscriptionInput = z.infer<typeof updateWebhookSubscriptionInputSchema>;
+
+export const webhookDeliverySchema = z.object({
+  id: z.number(),
+  subscription_id: z.number(),
+  event_id: z.string(),
+  event_type: WebhookEventType,
+  payload: z.unknown(),
+  status: WebhookDeliveryStatus,
+  attempts: z.number().int(),
+  next_attempt_at: z.coerce.date().nullable(),
+  last_attempt_at: z.coerce.date().nullable(),
+  response_status: z.number().int().nullable(),
+  last_error: z.string().nullable(),
+  redelivery_of: z.number().nullable(),
+  created_at: z.coerce.date(),
+  delivered_at: z.coerce.date().nullable()
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+export const webhookDeliveryFilterSchema = paginationInputSchema.extend({
+  subscription_id: z.number(),
+  status: WebhookDeliveryStatus.optional()
+});
+
+export type WebhookDeliveryFilter = z.infer<typeof webhookDeliveryFilterSchema>;
+
+export const webhookDeliveryPageSchema = z.object({
+  items: z.array(webhookDeliverySchema),
+  total: z.number()
+});
+
+export type WebhookDeliveryPage = z.infer<typeof webhookDeliveryPageSchema>;
+
+// Which emails a user gets; users who never saved preferences get every email
+export const notificationPreferencesSchema = z.object({
+  user_id: z.number(),
+  assignment_emails: z.boolean(), // Issues and violations assigned to the user
+  critical_violation_emails: z.boolean(), // Violations that become Critical; Security Managers and Admins only
+  daily_digest: z.boolean(), // Overdue and newly assigned work, once a day
+  updated_at: z.coerce.date().nullable() // Null until the user saves preferences
+});
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+export type EmailNotificationKind = z.infer<typeof EmailNotificationKind>;
+
+export const updateNotificationPreferencesInputSchema = z.object({
+  assignment_emails: z.boolean().optional(),
+  critical_violation_emails: z.boolean().optional(),
+  daily_digest: z.boolean().optional()
+});
+
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesInputSchema>;
+
 // Update schemas for partial updates
 export const updateSecurityIssueInputSchema = z.object({
   id: z.number(),
@@ -284,6 +867,8 @@ export const updateSecurityIssueInputSchema = z.object({
   severity: SeverityLevel.optional(),
   status: IssueStatus.optional(),
   classification: IssueClassification.optional(),
+  hierarchy: IssueHierarchy.optional(),
+  parent_issue_id: z.number().nullable().optional(),
   confidentiality_impact: z.number().min(0).max(100).optional(),
   integrity_impact: z.number().min(0).max(100).optional(),
   availability_impact: z.number().min(0).max(100).optional(),
@@ -294,13 +879,100 @@ export const updateSecurityIssueInputSchema = z.object({
   mitre_attack_technique: z.string().nullable().optional(),
   linddun_category: z.string().nullable().optional(),
   attack_complexity: z.string().nullable().optional(),
+  cvss_vector: cvssVectorSchema.nullable().optional(), // Null removes the vector and its scores
   threat_modeling_notes: z.string().nullable().optional(),
   compensating_controls: z.string().nullable().optional(),
-  assigned_to: z.number().nullable().optional()
+  resolution_note: z.string().trim().min(1).nullable().optional(), // Recorded with the status change it accompanies
+  assigned_to: z.number().nullable().optional(),
+  tags: tagsSchema.optional() // Replaces the issue's tags
 });
 
 export type UpdateSecurityIssueInput = z.infer<typeof updateSecurityIssueInputSchema>;
 
+export const updateContainerInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().nullable().optional(),
+  type: ContainerType.optional(),
+  external_id: z.string().nullable().optional(),
+  external_system: z.string().nullable().optional()
+});
+
+export type UpdateContainerInput = z.infer<typeof updateContainerInputSchema>;
+
+export const updateSecurityReviewInputSchema = z.object({
+  id: z.number(),
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().nullable().optional(),
+  document_name: z.string().nullable().optional(),
+  document_url: z.string().nullable().optional(),
+  document_type: z.string().nullable().optional(),
+  status: ReviewStatus.optional(),
+  container_id: z.number().nullable().optional(),
+  reviewer_id: z.number().nullable().optional()
+});
+
+export type UpdateSecurityReviewInput = z.infer<typeof updateSecurityReviewInputSchema>;
+
+export const updateSecurityViolationInputSchema = z.object({
+  id: z.number(),
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().min(1).optional(),
+  violation_type: ViolationType.optional(),
+  severity: SeverityLevel.optional(),
+  status: IssueStatus.optional(),
+  incident_date: z.coerce.date().optional(),
+  detection_method: z.string().nullable().optional(),
+  affected_systems: z.string().nullable().optional(),
+  impact_assessment: z.string().nullable().optional(),
+  remediation_steps: z.string().nullable().optional(),
+  container_id: z.number().nullable().optional(),
+  related_issue_id: z.number().nullable().optional(),
+  assigned_to: z.number().nullable().optional(),
+  tags: tagsSchema.optional() // Replaces the violation's tags
+});
+
+export type UpdateSecurityViolationInput = z.infer<typeof updateSecurityViolationInputSchema>;
+
+export const updateSecurityControlInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().nullable().optional(),
+  control_type: z.string().min(1).max(50).optional(),
+  implementation_status: ControlStatus.optional(),
+  effectiveness_rating: z.number().min(0).max(100).nullable().optional(),
+  framework_reference: z.string().nullable().optional(),
+  control_family: z.string().nullable().optional(),
+  implementation_notes: z.string().nullable().optional(),
+  testing_frequency: z.string().nullable().optional(),
+  last_tested: z.coerce.date().nullable().optional()
+});
+
+export type UpdateSecurityControlInput = z.infer<typeof updateSecurityControlInputSchema>;
+
+export const updateArchitectureComponentInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).max(100).optional(),
+  component_type: z.string().min(1).max(50).optional(),
+  description: z.string().nullable().optional(),
+  technology_stack: z.string().nullable().optional(),
+  security_domain: z.string().nullable().optional(),
+  trust_boundary: z.string().nullable().optional(),
+  network_zone: z.string().nullable().optional(),
+  data_classification: z.string().nullable().optional(),
+  position_x: z.number().nullable().optional(),
+  position_y: z.number().nullable().optional()
+});
+
+export type UpdateArchitectureComponentInput = z.infer<typeof updateArchitectureComponentInputSchema>;
+
+// Archive and restore toggle is_active; archived records are kept for history
+export const archiveInputSchema = z.object({
+  id: z.number()
+});
+
+export type ArchiveInput = z.infer<typeof archiveInputSchema>;
+
 // Analytics and filtering schemas
 export const securityIssueFilterSchema = z.object({
   container_id: z.number().optional(),
@@ -312,11 +984,229 @@ export const securityIssueFilterSchema = z.object({
   created_after: z.coerce.date().optional(),
   created_before: z.coerce.date().optional(),
   risk_score_min: z.number().min(0).max(100).optional(),
-  risk_score_max: z.number().min(0).max(100).optional()
+  risk_score_max: z.number().min(0).max(100).optional(),
+  query: z.string().max(1000).optional() // Filter query, e.g. "severity:Critical,High status:!Closed"
 });
 
 export type SecurityIssueFilter = z.infer<typeof securityIssueFilterSchema>;
 
+export const securityViolationFilterSchema = z.object({
+  violation_type: ViolationType.optional(),
+  severity: SeverityLevel.optional(),
+  status: IssueStatus.optional(),
+  assigned_to: z.number().optional(),
+  container_id: z.number().optional(),
+  created_after: z.coerce.date().optional(),
+  created_before: z.coerce.date().optional(),
+  incident_after: z.coerce.date().optional(),
+  incident_before: z.coerce.date().optional(),
+  is_active: z.boolean().optional(),
+  query: z.string().max(1000).optional() // Filter query, e.g. "severity>=High type:DataLeak"
+});
+
+export type SecurityViolationFilter = z.infer<typeof securityViolationFilterSchema>;
+
+// Columns to order by, most significant first; ties fall back to newest first
+export const issueSortSchema = z.array(z.object({ field: IssueSortField, direction: SortDirection.default('desc') })).max(3);
+export const violationSortSchema = z.array(z.object({ field: ViolationSortField, direction: SortDirection.default('desc') })).max(3);
+
+export const containerSortSchema = z.array(z.object({ field: ContainerSortField, direction: SortDirection.default('desc') })).max(3);
+export const reviewSortSchema = z.array(z.object({ field: ReviewSortField, direction: SortDirection.default('desc') })).max(3);
+export const controlSortSchema = z.array(z.object({ field: ControlSortField, direction: SortDirection.default('desc') })).max(3);
+export const componentSortSchema = z.array(z.object({ field: ComponentSortField, direction: SortDirection.default('desc') })).max(3);
+
+export type IssueSort = z.infer<typeof issueSortSchema>;
+export type ViolationSort = z.infer<typeof violationSortSchema>;
+export type ContainerSort = z.infer<typeof containerSortSchema>;
+export type ReviewSort = z.infer<typeof reviewSortSchema>;
+export type ControlSort = z.infer<typeof controlSortSchema>;
+export type ComponentSort = z.infer<typeof componentSortSchema>;
+
+// Keyset pagination shared by the list procedures. Pass a page's next_cursor
+// back with the same filters and sort for the page after it; next_cursor is
+// null on the last page.
+export const listPageInputSchema = z.object({
+  limit: z.number().int().min(1).max(200).default(50),
+  cursor: z.string().max(2000).optional()
+});
+
+export const securityControlFilterSchema = z.object({
+  implementation_status: ControlStatus.optional(),
+  control_type: z.string().optional(),
+  framework_reference: z.string().optional(),
+  container_id: z.number().optional(),
+  control_family: z.string().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type SecurityControlFilter = z.infer<typeof securityControlFilterSchema>;
+
+export const securityReviewFilterSchema = z.object({
+  container_id: z.number().optional(),
+  status: ReviewStatus.optional(),
+  reviewer_id: z.number().optional(),
+  ai_analysis_complete: z.boolean().optional(),
+  created_by: z.number().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type SecurityReviewFilter = z.infer<typeof securityReviewFilterSchema>;
+
+export const architectureComponentFilterSchema = z.object({
+  component_type: z.string().optional(),
+  security_domain: z.string().optional(),
+  container_id: z.number().optional(),
+  trust_boundary: z.string().optional(),
+  network_zone: z.string().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type ArchitectureComponentFilter = z.infer<typeof architectureComponentFilterSchema>;
+
+// An empty sort lists in each endpoint's default order
+export const getSecurityIssuesInputSchema = securityIssueFilterSchema
+  .merge(listPageInputSchema)
+  .extend({ sort: issueSortSchema.default([]) });
+export const getSecurityViolationsInputSchema = securityViolationFilterSchema
+  .merge(listPageInputSchema)
+  .extend({ sort: violationSortSchema.default([]) });
+export const getContainersInputSchema = listPageInputSchema.extend({ sort: containerSortSchema.default([]) });
+export const getSecurityReviewsInputSchema = securityReviewFilterSchema
+  .merge(listPageInputSchema)
+  .extend({ sort: reviewSortSchema.default([]) });
+export const getSecurityControlsInputSchema = securityControlFilterSchema
+  .merge(listPageInputSchema)
+  .extend({ sort: controlSortSchema.default([]) });
+export const getArchitectureComponentsInputSchema = architectureComponentFilterSchema
+  .merge(listPageInputSchema)
+  .extend({ sort: componentSortSchema.default([]) });
+
+export type GetSecurityIssuesInput = z.infer<typeof getSecurityIssuesInputSchema>;
+export type GetSecurityViolationsInput = z.infer<typeof getSecurityViolationsInputSchema>;
+export type GetContainersInput = z.infer<typeof getContainersInputSchema>;
+export type GetSecurityReviewsInput = z.infer<typeof getSecurityReviewsInputSchema>;
+export type GetSecurityControlsInput = z.infer<typeof getSecurityControlsInputSchema>;
+export type GetArchitectureComponentsInput = z.infer<typeof getArchitectureComponentsInputSchema>;
+
+export const securityIssuePageSchema = z.object({
+  items: z.array(securityIssueSchema),
+  total: z.number(), // Every row matching the filters, not just this page
+  next_cursor: z.string().nullable()
+});
+export const securityViolationPageSchema = z.object({
+  items: z.array(securityViolationSchema),
+  total: z.number(),
+  next_cursor: z.string().nullable()
+});
+export const containerPageSchema = z.object({
+  items: z.array(containerSchema),
+  total: z.number(),
+  next_cursor: z.string().nullable()
+});
+export const securityReviewPageSchema = z.object({
+  items: z.array(securityReviewSchema),
+  total: z.number(),
+  next_cursor: z.string().nullable()
+});
+export const securityControlPageSchema = z.object({
+  items: z.array(securityControlSchema),
+  total: z.number(),
+  next_cursor: z.string().nullable()
+});
+export const architectureComponentPageSchema = z.object({
+  items: z.array(architectureComponentSchema),
+  total: z.number(),
+  next_cursor: z.string().nullable()
+});
+
+export type SecurityIssuePage = z.infer<typeof securityIssuePageSchema>;
+export type SecurityViolationPage = z.infer<typeof securityViolationPageSchema>;
+export type ContainerPage = z.infer<typeof containerPageSchema>;
+export type SecurityReviewPage = z.infer<typeof securityReviewPageSchema>;
+export type SecurityControlPage = z.infer<typeof securityControlPageSchema>;
+export type ArchitectureComponentPage = z.infer<typeof architectureComponentPageSchema>;
+
+// The per-container lists and the active violation list page the same way,
+// in a fixed order of their own
+export const containerPageInputSchema = listPageInputSchema.extend({ containerId: z.number() });
+
+export type ListPageInput = z.infer<typeof listPageInputSchema>;
+export type ContainerPageInput = z.infer<typeof containerPageInputSchema>;
+
+// Rows a bulk change may touch at once, whether listed by id or matched by a
+// filter
+export const BULK_UPDATE_LIMIT = 1000;
+
+const bulkIdsSchema = z.array(z.number().int()).min(1).max(BULK_UPDATE_LIMIT);
+
+const hasChanges = (changes: Record<string, unknown>): boolean =>
+  Object.values(changes).some(value => value !== undefined);
+
+// Tags are added and removed rather than replaced, so rows keep their others
+export const bulkIssueChangesSchema = z.object({
+  status: IssueStatus.optional(),
+  resolution_note: z.string().trim().min(1).nullable().optional(), // Recorded with the status change it accompanies
+  assigned_to: z.number().nullable().optional(),
+  severity: SeverityLevel.optional(),
+  container_id: z.number().optional(),
+  add_tags: tagsSchema.optional(),
+  remove_tags: tagsSchema.optional()
+}).refine(hasChanges, { message: 'Nothing to change' });
+
+export const bulkViolationChangesSchema = z.object({
+  status: IssueStatus.optional(),
+  assigned_to: z.number().nullable().optional(),
+  severity: SeverityLevel.optional(),
+  container_id: z.number().nullable().optional(),
+  add_tags: tagsSchema.optional(),
+  remove_tags: tagsSchema.optional()
+}).refine(hasChanges, { message: 'Nothing to change' });
+
+// Rows are selected by ids or by a filter, never both. A dry run reports what
+// would change without writing anything.
+export const bulkUpdateSecurityIssuesInputSchema = z.object({
+  ids: bulkIdsSchema.optional(),
+  filter: securityIssueFilterSchema.optional(),
+  changes: bulkIssueChangesSchema,
+  dry_run: z.boolean().default(false)
+}).refine(input => (input.ids === undefined) !== (input.filter === undefined), {
+  message: 'Select issues with either ids or filter'
+});
+
+export const bulkUpdateSecurityViolationsInputSchema = z.object({
+  ids: bulkIdsSchema.optional(),
+  filter: securityViolationFilterSchema.optional(),
+  changes: bulkViolationChangesSchema,
+  dry_run: z.boolean().default(false)
+}).refine(input => (input.ids === undefined) !== (input.filter === undefined), {
+  message: 'Select violations with either ids or filter'
+});
+
+export type BulkIssueChanges = z.infer<typeof bulkIssueChangesSchema>;
+export type BulkViolationChanges = z.infer<typeof bulkViolationChangesSchema>;
+export type BulkUpdateSecurityIssuesInput = z.infer<typeof bulkUpdateSecurityIssuesInputSchema>;
+export type BulkUpdateSecurityViolationsInput = z.infer<typeof bulkUpdateSecurityViolationsInputSchema>;
+
+export const BulkRowOutcome = z.enum(['Changed', 'Unchanged', 'Failed']);
+
+export const bulkRowResultSchema = z.object({
+  id: z.number(),
+  outcome: BulkRowOutcome,
+  error: z.string().nullable(), // Why a Failed row was left alone
+  changes: auditChangesSchema // Field -> before/after, as written or as a dry run would write it
+});
+
+export const bulkUpdateResultSchema = z.object({
+  dry_run: z.boolean(),
+  matched: z.number(),
+  changed: z.number(),
+  failed: z.number(),
+  rows: z.array(bulkRowResultSchema)
+});
+
+export type BulkRowResult = z.infer<typeof bulkRowResultSchema>;
+export type BulkUpdateResult = z.infer<typeof bulkUpdateResultSchema>;
+
 export const dashboardAnalyticsSchema = z.object({
   total_issues: z.number(),
   critical_issues: z.number(),
@@ -345,4 +1235,212 @@ export const dashboardAnalyticsSchema = z.object({
   })
 });
 
-export type DashboardAnalytics = z.infer<typeof dashboardAnalyticsSchema>;
\ No newline at end of file
+export type DashboardAnalytics = z.infer<typeof dashboardAnalyticsSchema>;
+
+// Maps alerts from the syslog receiver to violations. Templates and
+// correlation fields name alert fields (vendor, product, event_id, name,
+// severity, source, destination, host) or CEF/LEEF extension keys.
+export const siemMappingRuleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  priority: z.number().int(),
+  is_active: z.boolean(),
+  format: SiemAlertFormat.nullable(),
+  vendor: z.string().nullable(),
+  product: z.string().nullable(),
+  event_pattern: z.string().nullable(),
+  min_severity: z.number().int().nullable(),
+  action: SiemRuleAction,
+  violation_type: ViolationType,
+  severity: SeverityLevel.nullable(),
+  container_id: z.number().nullable(),
+  title_template: z.string().nullable(),
+  correlation_fields: z.array(z.string()),
+  correlation_window_minutes: z.number().int(),
+  created_by: z.number(),
+  updated_by: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SiemMappingRule = z.infer<typeof siemMappingRuleSchema>;
+export type SiemAlertFormat = z.infer<typeof SiemAlertFormat>;
+
+const eventPatternSchema = z.string().min(1).max(500).superRefine((pattern, ctx) => {
+  try {
+    new RegExp(pattern, 'i');
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Event pattern must be a valid regular expression' });
+  }
+});
+
+const correlationFieldsSchema = z.array(z.string().regex(/^[\w.\-]+$/, 'Correlation fields are alert field or extension names')).min(1).max(10);
+
+export const createSiemMappingRuleInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  priority: z.number().int().default(100),
+  is_active: z.boolean().default(true),
+  format: SiemAlertFormat.nullable().default(null),
+  vendor: z.string().trim().min(1).nullable().default(null),
+  product: z.string().trim().min(1).nullable().default(null),
+  event_pattern: eventPatternSchema.nullable().default(null),
+  min_severity: z.number().int().min(0).max(10).nullable().default(null),
+  action: SiemRuleAction.default('Violation'),
+  violation_type: ViolationType.default('SecurityBreach'),
+  severity: SeverityLevel.nullable().default(null),
+  container_id: z.number().nullable().default(null),
+  title_template: z.string().trim().min(1).max(200).nullable().default(null),
+  correlation_fields: correlationFieldsSchema.default(['event_id', 'source']),
+  correlation_window_minutes: z.number().int().positive().max(7 * 24 * 60).default(60)
+});
+
+export type CreateSiemMappingRuleInput = z.infer<typeof createSiemMappingRuleInputSchema>;
+
+export const updateSiemMappingRuleInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).max(100).optional(),
+  priority: z.number().int().optional(),
+  is_active: z.boolean().optional(),
+  format: SiemAlertFormat.nullable().optional(),
+  vendor: z.string().trim().min(1).nullable().optional(),
+  product: z.string().trim().min(1).nullable().optional(),
+  event_pattern: eventPatternSchema.nullable().optional(),
+  min_severity: z.number().int().min(0).max(10).nullable().optional(),
+  action: SiemRuleAction.optional(),
+  violation_type: ViolationType.optional(),
+  severity: SeverityLevel.nullable().optional(),
+  container_id: z.number().nullable().optional(),
+  title_template: z.string().trim().min(1).max(200).nullable().optional(),
+  correlation_fields: correlationFieldsSchema.optional(),
+  correlation_window_minutes: z.number().int().positive().max(7 * 24 * 60).optional()
+});
+
+export type UpdateSiemMappingRuleInput = z.infer<typeof updateSiemMappingRuleInputSchema>;
+
+// Full-text search across issues, violations, reviews, controls and
+// components. query takes web search syntax: "quoted phrases", or, -exclusions.
+export const searchInputSchema = listPageInputSchema.extend({
+  query: z.string().trim().min(1).max(200),
+  types: z.array(SearchEntityType).min(1).optional(), // Defaults to every type the role may read
+  container_id: z.number().optional(),
+  include_archived: z.boolean().default(false) // Archived records and records in archived containers
+});
+
+export type SearchInput = z.infer<typeof searchInputSchema>;
+export type SearchEntityType = z.infer<typeof SearchEntityType>;
+
+// Highlights are HTML-escaped text with matches wrapped in <mark>
+export const searchResultSchema = z.object({
+  entity_type: SearchEntityType,
+  id: z.number(),
+  title: z.string(),
+  container_id: z.number().nullable(),
+  container_name: z.string().nullable(),
+  status: z.string().nullable(), // Issue, violation and review status; control implementation status
+  severity: SeverityLevel.nullable(), // Issues and violations
+  rank: z.number(),
+  title_highlight: z.string(),
+  snippet: z.string(), // Best matching fragments of the other text fields
+  updated_at: z.coerce.date()
+});
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
+export const searchResultPageSchema = z.object({
+  items: z.array(searchResultSchema),
+  total: z.number(),
+  next_cursor: z.string().nullable()
+});
+
+export type SearchResultPage = z.infer<typeof searchResultPageSchema>;
+
+export const savedViewSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  entity_type: SavedViewEntityType,
+  visibility: SavedViewVisibility,
+  container_id: z.number().nullable(),
+  filter: z.record(z.unknown()),
+  sort: z.array(z.object({ field: z.string(), direction: SortDirection })),
+  columns: z.array(z.string()),
+  pinned: z.boolean(), // Pinned by the caller
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SavedView = z.infer<typeof savedViewSchema>;
+export type SavedViewEntityType = z.infer<typeof SavedViewEntityType>;
+
+// Filter, sort and columns as each entity type accepts them
+export const savedViewContentSchemas = {
+  Issue: z.object({
+    filter: securityIssueFilterSchema,
+    sort: issueSortSchema,
+    columns: z.array(securityIssueSchema.keyof()).max(100)
+  }),
+  Violation: z.object({
+    filter: securityViolationFilterSchema,
+    sort: violationSortSchema,
+    columns: z.array(securityViolationSchema.keyof()).max(100)
+  })
+};
+
+const savedViewNameSchema = z.string().trim().min(1).max(100);
+
+const createSavedViewBaseSchema = z.object({
+  name: savedViewNameSchema,
+  visibility: SavedViewVisibility.default('Private'),
+  container_id: z.number().nullable().default(null) // Required for Team views
+});
+
+export const createSavedViewInputSchema = z.discriminatedUnion('entity_type', [
+  createSavedViewBaseSchema.extend({
+    entity_type: z.literal('Issue'),
+    filter: savedViewContentSchemas.Issue.shape.filter.default({}),
+    sort: savedViewContentSchemas.Issue.shape.sort.default([]),
+    columns: savedViewContentSchemas.Issue.shape.columns.default([])
+  }),
+  createSavedViewBaseSchema.extend({
+    entity_type: z.literal('Violation'),
+    filter: savedViewContentSchemas.Violation.shape.filter.default({}),
+    sort: savedViewContentSchemas.Violation.shape.sort.default([]),
+    columns: savedViewContentSchemas.Violation.shape.columns.default([])
+  })
+]);
+
+export type CreateSavedViewInput = z.infer<typeof createSavedViewInputSchema>;
+
+// filter, sort and columns are checked against the view's entity type
+export const updateSavedViewInputSchema = z.object({
+  id: z.number(),
+  name: savedViewNameSchema.optional(),
+  visibility: SavedViewVisibility.optional(),
+  container_id: z.number().nullable().optional(),
+  filter: z.record(z.unknown()).optional(),
+  sort: z.array(z.object({ field: z.string(), direction: SortDirection.default('desc') })).optional(),
+  columns: z.array(z.string()).optional()
+});
+
+export type UpdateSavedViewInput = z.infer<typeof updateSavedViewInputSchema>;
+
+export const getSavedViewsInputSchema = z.object({
+  entity_type: SavedViewEntityType.optional(),
+  container_id: z.number().optional()
+});
+
+export type GetSavedViewsInput = z.infer<typeof getSavedViewsInputSchema>;
+
+export const pinSavedViewInputSchema = z.object({
+  id: z.number(),
+  pinned: z.boolean()
+});
+
+export type PinSavedViewInput = z.infer<typeof pinSavedViewInputSchema>;
+
+// Runs a saved view a page at a time
+export const runSavedViewInputSchema = listPageInputSchema.extend({
+  id: z.number()
+});
+
+export type RunSavedViewInput = z.infer<typeof runSavedViewInputSchema>;
@@ -0,0 +1,218 @@
+import { db } from '../db';
+import { containersTable, scoringProfilesTable, securityIssuesTable } from '../db/schema';
+import { type Container } from '../schema';
+import { notFoundError } from '../errors';
+import { queueWebhookEvent } from '../webhooks/events';
+import { and, eq, inArray } from 'drizzle-orm';
+
+type Severity = 'Critical' | 'High' | 'Medium' | 'Low';
+type Status = 'Open' | 'In-progress' | 'Closed' | 'Resolved';
+
+export interface ScoringProfileDefinition {
+  id: number | null; // Null for the built-in default profile
+  name: string;
+  version: number;
+  weights: {
+    confidentiality: number;
+    integrity: number;
+    availability: number;
+    compliance: number;
+    third_party: number;
+  };
+  severity_weights: Record<Severity, number>;
+}
+
+export interface IssueImpacts {
+  confidentiality_impact: number;
+  integrity_impact: number;
+  availability_impact: number;
+  compliance_impact: number;
+  third_party_risk: number;
+}
+
+// Only unresolved issues contribute to a container's current risk
+export const ACTIVE_ISSUE_STATUSES: Status[] = ['Open', 'In-progress'];
+
+// Used by every container that has not opted into a stored profile
+export const DEFAULT_SCORING_PROFILE: ScoringProfileDefinition = {
+  id: null,
+  name: 'standard',
+  version: 1,
+  weights: {
+    confidentiality: 0.25,
+    integrity: 0.25,
+    availability: 0.25,
+    compliance: 0.15,
+    third_party: 0.10
+  },
+  severity_weights: {
+    Critical: 1.0,
+    High: 0.8,
+    Medium: 0.6,
+    Low: 0.3
+  }
+};
+
+const roundScore = (score: number): number =>
+  Math.min(100, Math.max(0, Math.round(score * 100) / 100));
+
+export const toScoringProfileDefinition = (row: typeof scoringProfilesTable.$inferSelect): ScoringProfileDefinition => ({
+  id: row.id,
+  name: row.name,
+  version: row.version,
+  weights: {
+    confidentiality: row.confidentiality_weight,
+    integrity: row.integrity_weight,
+    availability: row.availability_weight,
+    compliance: row.compliance_weight,
+    third_party: row.third_party_weight
+  },
+  severity_weights: {
+    Critical: row.critical_weight,
+    High: row.high_weight,
+    Medium: row.medium_weight,
+    Low: row.low_weight
+  }
+});
+
+// Weighted average of the impact dimensions, normalised by the weight total
+// so profiles whose weights do not sum to 1 still produce a 0-100 score
+export const calculateIssueRiskScore = (impacts: IssueImpacts, profile: ScoringProfileDefinition): number => {
+  const { weights } = profile;
+  const totalWeight = weights.confidentiality + weights.integrity + weights.availability +
+    weights.compliance + weights.third_party;
+
+  if (totalWeight <= 0) {
+    return 0;
+  }
+
+  const weightedScore =
+    (impacts.confidentiality_impact * weights.confidentiality) +
+    (impacts.integrity_impact * weights.integrity) +
+    (impacts.availability_impact * weights.availability) +
+    (impacts.compliance_impact * weights.compliance) +
+    (impacts.third_party_risk * weights.third_party);
+
+  return roundScore(weightedScore / totalWeight);
+};
+
+// Severity-weighted average of the active issues' risk scores
+export const calculateContainerRiskScore = (
+  issues: Array<{ severity: Severity; status: Status; risk_score: number }>,
+  profile: ScoringProfileDefinition
+): number => {
+  let totalWeightedScore = 0;
+  let totalWeight = 0;
+
+  for (const issue of issues) {
+    if (!ACTIVE_ISSUE_STATUSES.includes(issue.status)) continue;
+
+    const weight = profile.severity_weights[issue.severity];
+    totalWeightedScore += issue.risk_score * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? roundScore(totalWeightedScore / totalWeight) : 0;
+};
+
+export const getScoringProfileById = async (profileId: number | null): Promise<ScoringProfileDefinition> => {
+  if (profileId === null) {
+    return DEFAULT_SCORING_PROFILE;
+  }
+
+  const profiles = await db.select()
+    .from(scoringProfilesTable)
+    .where(eq(scoringProfilesTable.id, profileId))
+    .execute();
+
+  if (profiles.length === 0) {
+    throw notFoundError('Scoring profile', profileId);
+  }
+
+  return toScoringProfileDefinition(profiles[0]);
+};
+
+export const getContainerScoringProfile = async (containerId: number): Promise<ScoringProfileDefinition> => {
+  const containers = await db.select({ scoring_profile_id: containersTable.scoring_profile_id })
+    .from(containersTable)
+    .where(eq(containersTable.id, containerId))
+    .execute();
+
+  if (containers.length === 0) {
+    throw notFoundError('Container', containerId);
+  }
+
+  return getScoringProfileById(containers[0].scoring_profile_id);
+};
+
+// Recomputes and stores a container's rollup from its current issue scores
+export const recalculateContainerRiskScore = async (containerId: number): Promise<Container> => {
+  const profile = await getContainerScoringProfile(containerId);
+
+  const issues = await db.select({
+    severity: securityIssuesTable.severity,
+    status: securityIssuesTable.status,
+    risk_score: securityIssuesTable.risk_score
+  })
+    .from(securityIssuesTable)
+    .where(and(
+      eq(securityIssuesTable.container_id, containerId),
+      inArray(securityIssuesTable.status, ACTIVE_ISSUE_STATUSES)
+    ))
+    .execute();
+
+  return db.transaction(async (tx) => {
+    // Locked so concurrent recalculations report each change once
+    const previous = await tx.select({ risk_score: containersTable.risk_score })
+      .from(containersTable)
+      .where(eq(containersTable.id, containerId))
+      .for('update')
+      .execute();
+
+    const result = await tx.update(containersTable)
+      .set({
+        risk_score: calculateContainerRiskScore(issues, profile),
+        updated_at: new Date()
+      })
+      .where(eq(containersTable.id, containerId))
+      .returning()
+      .execute();
+
+    const container = result[0];
+    if (previous[0].risk_score !== container.risk_score) {
+      await queueWebhookEvent(tx, 'container.risk_changed', {
+        container,
+        previous_risk_score: previous[0].risk_score,
+        risk_score: container.risk_score
+      });
+    }
+    return container;
+  });
+};
+
+// Rescores every issue in a container with its current profile, then rolls up
+export const recomputeContainerRiskScores = async (containerId: number): Promise<{ container: Container; issues_updated: number }> => {
+  const profile = await getContainerScoringProfile(containerId);
+
+  const issues = await db.select()
+    .from(securityIssuesTable)
+    .where(eq(securityIssuesTable.container_id, containerId))
+    .execute();
+
+  let issuesUpdated = 0;
+
+  for (const issue of issues) {
+    const riskScore = calculateIssueRiskScore(issue, profile);
+    if (riskScore === issue.risk_score) continue;
+
+    await db.update(securityIssuesTable)
+      .set({ risk_score: riskScore })
+      .where(eq(securityIssuesTable.id, issue.id))
+      .execute();
+    issuesUpdated++;
+  }
+
+  const container = await recalculateContainerRiskScore(containerId);
+
+  return { container, issues_updated: issuesUpdated };
+};
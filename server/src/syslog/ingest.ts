@@ -0,0 +1,145 @@
+import { db } from '../db';
+import { securityViolationsTable, siemMappingRulesTable, type SiemMappingRule } from '../db/schema';
+import { type SecurityViolation } from '../schema';
+import { createdActivity, recordActivity } from '../activity/activity';
+import { queueWebhookEvent } from '../webhooks/events';
+import { queueWorkItemNotifications } from '../notifications/emails';
+import { ACTIVE_ISSUE_STATUSES } from '../scoring/risk_scoring';
+import { type SiemAlert, parseSiemAlert } from './parse';
+import { alertSeverity, correlationKey, findMatchingRule, renderTitle } from './rules';
+import { and, asc, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+
+// What became of a received line
+export type IngestOutcome = 'created' | 'appended' | 'ignored' | 'unmatched' | 'unparsed';
+
+export interface IngestResult {
+  outcome: IngestOutcome;
+  violation: SecurityViolation | null;
+}
+
+// A violation lists at most this many affected systems
+const MAX_AFFECTED_SYSTEMS = 20;
+
+export const loadSiemMappingRules = (): Promise<SiemMappingRule[]> =>
+  db.select()
+    .from(siemMappingRulesTable)
+    .where(eq(siemMappingRulesTable.is_active, true))
+    .orderBy(asc(siemMappingRulesTable.priority), asc(siemMappingRulesTable.id))
+    .execute();
+
+const affectedSystem = (alert: SiemAlert): string | null => alert.destination ?? alert.host;
+
+const mergeAffectedSystems = (current: string | null, system: string | null): string | null => {
+  const systems = current ? current.split(', ') : [];
+  if (system === null || systems.includes(system) || systems.length >= MAX_AFFECTED_SYSTEMS) {
+    return current;
+  }
+  return [...systems, system].join(', ');
+};
+
+const describeAlert = (alert: SiemAlert): string => [
+  alert.name,
+  '',
+  `Reported by ${[alert.vendor, alert.product, alert.product_version].filter(Boolean).join(' ')} `
+    + `(${alert.format} event ${alert.event_id}${alert.severity !== null ? `, severity ${alert.severity}/10` : ''}).`,
+  ...(alert.extensions['msg'] ? ['', alert.extensions['msg']] : []),
+  '',
+  ...(alert.source ? [`Source: ${alert.source}`] : []),
+  ...(alert.destination ? [`Destination: ${alert.destination}`] : []),
+  ...(alert.host ? [`Sender: ${alert.host}`] : [])
+].join('\n').trim();
+
+// Counts the alert on the open violation with the same correlation key whose
+// last occurrence is within the rule's window, or raises a new violation.
+// Concurrent alerts with one key are serialised by an advisory lock so a storm
+// cannot open duplicates.
+export const ingestSiemAlert = async (
+  alert: SiemAlert,
+  rules: SiemMappingRule[],
+  actorId: number,
+  receivedAt: Date = new Date()
+): Promise<IngestResult> => {
+  const rule = findMatchingRule(rules, alert);
+  if (!rule) {
+    return { outcome: 'unmatched', violation: null };
+  }
+  if (rule.action === 'Ignore') {
+    return { outcome: 'ignored', violation: null };
+  }
+
+  const key = correlationKey(rule, alert);
+  const occurredAt = alert.occurred_at ?? receivedAt;
+
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${key}))`);
+
+    const windowStart = new Date(occurredAt.getTime() - rule.correlation_window_minutes * 60_000);
+    const existing = await tx.select()
+      .from(securityViolationsTable)
+      .where(and(
+        eq(securityViolationsTable.correlation_key, key),
+        gte(securityViolationsTable.last_occurrence_at, windowStart),
+        inArray(securityViolationsTable.status, ACTIVE_ISSUE_STATUSES),
+        eq(securityViolationsTable.is_active, true)
+      ))
+      .orderBy(desc(securityViolationsTable.last_occurrence_at))
+      .limit(1)
+      .execute();
+
+    if (existing.length > 0) {
+      const violation = existing[0];
+      const updated = await tx.update(securityViolationsTable)
+        .set({
+          occurrence_count: sql`${securityViolationsTable.occurrence_count} + 1`,
+          last_occurrence_at: occurredAt > violation.last_occurrence_at! ? occurredAt : violation.last_occurrence_at,
+          affected_systems: mergeAffectedSystems(violation.affected_systems, affectedSystem(alert)),
+          updated_at: new Date()
+        })
+        .where(eq(securityViolationsTable.id, violation.id))
+        .returning()
+        .execute();
+
+      return { outcome: 'appended' as const, violation: updated[0] };
+    }
+
+    const created = await tx.insert(securityViolationsTable)
+      .values({
+        title: renderTitle(rule, alert),
+        description: describeAlert(alert),
+        violation_type: rule.violation_type,
+        severity: rule.severity ?? alertSeverity(alert.severity),
+        status: 'Open',
+        incident_date: occurredAt,
+        detection_method: `SIEM alert: ${[alert.vendor, alert.product].filter(Boolean).join(' ')}`,
+        affected_systems: affectedSystem(alert),
+        container_id: rule.container_id,
+        created_by: actorId,
+        updated_by: actorId,
+        correlation_key: key,
+        occurrence_count: 1,
+        last_occurrence_at: occurredAt
+      })
+      .returning()
+      .execute();
+
+    await recordActivity(tx, [createdActivity('Violation', created[0].id, actorId)]);
+    await queueWebhookEvent(tx, 'violation.created', { violation: created[0] });
+    await queueWorkItemNotifications(tx, 'Violation', null, created[0], actorId);
+
+    return { outcome: 'created' as const, violation: created[0] };
+  });
+};
+
+// Parses one syslog line and ingests the CEF or LEEF event in it
+export const ingestSyslogLine = async (
+  line: string,
+  rules: SiemMappingRule[],
+  actorId: number,
+  receivedAt: Date = new Date()
+): Promise<IngestResult> => {
+  const alert = parseSiemAlert(line);
+  if (!alert) {
+    return { outcome: 'unparsed', violation: null };
+  }
+  return ingestSiemAlert(alert, rules, actorId, receivedAt);
+};
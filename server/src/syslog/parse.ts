@@ -0,0 +1,274 @@
+import { type SiemAlertFormat } from '../schema';
+
+// Parsers for what SIEMs and security appliances forward over syslog: the
+// RFC 5424 envelope and the CEF or LEEF event inside it.
+
+export interface SyslogMessage {
+  facility: number;
+  severity: number; // Syslog severity, 0 (emergency) to 7 (debug)
+  timestamp: Date | null;
+  hostname: string | null;
+  app_name: string | null;
+  msgid: string | null;
+  message: string;
+}
+
+// A CEF or LEEF event reduced to the fields the mapping rules work with
+export interface SiemAlert {
+  format: SiemAlertFormat;
+  vendor: string;
+  product: string;
+  product_version: string;
+  event_id: string;
+  name: string;
+  severity: number | null; // 0-10; null when the event does not say
+  source: string | null; // Source address or host
+  destination: string | null; // Destination address or host
+  occurred_at: Date | null; // When the device saw the event
+  host: string | null; // Syslog hostname of the sender
+  extensions: Record<string, string>;
+}
+
+const nil = (value: string): string | null => (value === '-' ? null : value);
+
+// <PRI>VERSION TIMESTAMP HOSTNAME APP-NAME PROCID MSGID STRUCTURED-DATA [MSG]
+const RFC5424 = /^<(\d{1,3})>(\d{1,2}) (\S+) (\S+) (\S+) (\S+) (\S+) ?([\s\S]*)$/;
+
+// Skips the structured data, which is either - or one or more [id k="v"]
+// elements whose values may contain escaped quotes and brackets
+const skipStructuredData = (rest: string): string => {
+  if (rest.startsWith('-')) {
+    return rest.slice(1);
+  }
+
+  let index = 0;
+  while (rest[index] === '[') {
+    let quoted = false;
+    for (index += 1; index < rest.length; index += 1) {
+      const char = rest[index];
+      if (char === '\\' && quoted) {
+        index += 1;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if (char === ']' && !quoted) {
+        index += 1;
+        break;
+      }
+    }
+  }
+  return rest.slice(index);
+};
+
+// Parses an RFC 5424 message. Anything else that starts with <PRI>, such as
+// the older BSD format, is accepted with only the priority read, so events
+// from devices that cannot send RFC 5424 still get through. Returns null for
+// lines without a priority.
+export const parseSyslogMessage = (line: string): SyslogMessage | null => {
+  const priority = /^<(\d{1,3})>/.exec(line);
+  if (!priority || Number(priority[1]) > 191) {
+    return null;
+  }
+  const pri = Number(priority[1]);
+
+  const match = RFC5424.exec(line);
+  if (!match || match[2] !== '1') {
+    return {
+      facility: pri >> 3,
+      severity: pri & 7,
+      timestamp: null,
+      hostname: null,
+      app_name: null,
+      msgid: null,
+      message: line.slice(priority[0].length)
+    };
+  }
+
+  const [, , , timestamp, hostname, appName, , msgid, rest] = match;
+  const date = nil(timestamp) ? new Date(timestamp) : null;
+  return {
+    facility: pri >> 3,
+    severity: pri & 7,
+    timestamp: date && !Number.isNaN(date.getTime()) ? date : null,
+    hostname: nil(hostname),
+    app_name: nil(appName),
+    msgid: nil(msgid),
+    message: skipStructuredData(rest).replace(/^ /, '').replace(/^\uFEFF/, '')
+  };
+};
+
+// Splits on unescaped | up to count fields; the last field keeps the rest
+const splitHeader = (text: string, count: number): string[] | null => {
+  const fields: string[] = [];
+  let current = '';
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (fields.length === count - 1) {
+      fields.push(text.slice(index));
+      return fields;
+    }
+    if (char === '\\' && (text[index + 1] === '|' || text[index + 1] === '\\')) {
+      current += text[index + 1];
+      index += 1;
+    } else if (char === '|') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.length === count ? fields : fields.length === count - 1 ? [...fields, ''] : null;
+};
+
+const unescapeExtension = (value: string): string =>
+  value.replace(/\\([\\=nr])/g, (_, char: string) => (char === 'n' ? '\n' : char === 'r' ? '\r' : char));
+
+// key=value pairs separated by spaces; values may contain spaces and escaped
+// equals signs, so a value runs until the next " key="
+const parseCefExtension = (text: string): Record<string, string> => {
+  const extensions: Record<string, string> = {};
+  const keys = [...text.matchAll(/(?:^|\s)([\w.\-[\]]+)=/g)];
+
+  keys.forEach((match, position) => {
+    const start = match.index + match[0].length;
+    const end = position + 1 < keys.length ? keys[position + 1].index : text.length;
+    extensions[match[1]] = unescapeExtension(text.slice(start, end).trim());
+  });
+
+  // Custom fields (cs1=... cs1Label=Rule) are also made available under their label
+  for (const [key, value] of Object.entries(extensions)) {
+    const label = extensions[`${key}Label`];
+    if (/^(cs|cn|cfp|flexString|flexNumber|deviceCustomDate)\d$/.test(key) && label && !(label in extensions)) {
+      extensions[label] = value;
+    }
+  }
+  return extensions;
+};
+
+const cefSeverities: Record<string, number> = { low: 3, medium: 5, high: 8, 'very-high': 10 };
+
+const parseSeverity = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const number = Number(value);
+  if (Number.isFinite(number)) {
+    return Math.min(Math.max(Math.round(number), 0), 10);
+  }
+  return cefSeverities[value.trim().toLowerCase()] ?? null;
+};
+
+// Epoch milliseconds (or seconds) or anything Date understands
+const parseTime = (value: string | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+  const date = /^\d+$/.test(value)
+    ? new Date(value.length <= 10 ? Number(value) * 1000 : Number(value))
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const first = (extensions: Record<string, string>, keys: string[]): string | null =>
+  keys.map(key => extensions[key]).find(value => value !== undefined && value !== '') ?? null;
+
+// CEF:Version|Vendor|Product|Version|Signature ID|Name|Severity|Extension
+export const parseCef = (payload: string, host: string | null = null): SiemAlert | null => {
+  const fields = splitHeader(payload.slice(payload.indexOf('CEF:') + 4), 8);
+  if (!fields) {
+    return null;
+  }
+
+  const [, vendor, product, productVersion, eventId, name, severity, extension] = fields;
+  const extensions = parseCefExtension(extension);
+  return {
+    format: 'CEF',
+    vendor,
+    product,
+    product_version: productVersion,
+    event_id: eventId,
+    name,
+    severity: parseSeverity(severity),
+    source: first(extensions, ['src', 'shost', 'sourceTranslatedAddress']),
+    destination: first(extensions, ['dst', 'dhost', 'destinationTranslatedAddress']),
+    occurred_at: parseTime(first(extensions, ['rt', 'start', 'end']) ?? undefined),
+    host,
+    extensions
+  };
+};
+
+// A LEEF 2.0 delimiter is a single character or its hex code, e.g. ^ or x09
+const leefDelimiter = (value: string): string | null => {
+  if (value.length === 1) {
+    return value;
+  }
+  const hex = /^(?:0?x)([0-9a-f]{2,4})$/i.exec(value);
+  return hex ? String.fromCharCode(parseInt(hex[1], 16)) : null;
+};
+
+// LEEF:1.0|Vendor|Product|Version|EventID|attributes (tab separated), or
+// LEEF:2.0|Vendor|Product|Version|EventID|Delimiter|attributes
+export const parseLeef = (payload: string, host: string | null = null): SiemAlert | null => {
+  const body = payload.slice(payload.indexOf('LEEF:') + 5);
+  const version = body.slice(0, body.indexOf('|'));
+  const v2 = version.startsWith('2');
+
+  let fields = splitHeader(body, 6);
+  let delimiter = '\t';
+  if (v2) {
+    // The delimiter field is optional in 2.0
+    const withDelimiter = splitHeader(body, 7);
+    const custom = withDelimiter ? leefDelimiter(withDelimiter[5]) : null;
+    if (withDelimiter && custom) {
+      delimiter = custom;
+      fields = [...withDelimiter.slice(0, 5), withDelimiter[6]];
+    }
+  }
+  if (!fields) {
+    return null;
+  }
+
+  const [, vendor, product, productVersion, eventId, attributes] = fields;
+  const extensions: Record<string, string> = {};
+  for (const pair of attributes.split(delimiter)) {
+    const equals = pair.indexOf('=');
+    if (equals > 0) {
+      extensions[pair.slice(0, equals).trim()] = pair.slice(equals + 1).trim();
+    }
+  }
+
+  return {
+    format: 'LEEF',
+    vendor,
+    product,
+    product_version: productVersion,
+    event_id: eventId,
+    name: extensions['name'] ?? extensions['cat'] ?? eventId,
+    severity: parseSeverity(extensions['sev']),
+    source: first(extensions, ['src', 'srcHost', 'srcPreNAT']),
+    destination: first(extensions, ['dst', 'dstHost', 'dstPreNAT']),
+    occurred_at: parseTime(extensions['devTime']),
+    host,
+    extensions
+  };
+};
+
+// Reads the CEF or LEEF event from a syslog line, or from a bare event sent
+// without a syslog header. Returns null when there is none.
+export const parseSiemAlert = (line: string): SiemAlert | null => {
+  const syslog = parseSyslogMessage(line);
+  const message = syslog?.message ?? line;
+  const host = syslog?.hostname ?? null;
+
+  const start = /(CEF:\d|LEEF:\d)/.exec(message);
+  if (!start) {
+    return null;
+  }
+
+  const payload = message.slice(start.index).trimEnd();
+  const alert = start[1].startsWith('CEF') ? parseCef(payload, host) : parseLeef(payload, host);
+  if (alert && !alert.occurred_at && syslog?.timestamp) {
+    alert.occurred_at = syslog.timestamp;
+  }
+  return alert;
+};
@@ -0,0 +1,253 @@
+import { createSocket } from 'node:dgram';
+import { type EventEmitter } from 'node:events';
+import { createServer, type Socket } from 'node:net';
+import { type SiemMappingRule } from '../db/schema';
+import { syncUser } from '../integrations/external_sync';
+import { type IngestOutcome, ingestSyslogLine, loadSiemMappingRules } from './ingest';
+
+// Syslog receiver settings. Either port may be left unset; setting neither
+// leaves the receiver off.
+export interface SyslogConfig {
+  host: string; // Address to listen on
+  udp_port: number | null;
+  tcp_port: number | null;
+  username: string | null; // Local user violations are raised as
+  rate_limit: number; // Messages per second accepted from one sender
+}
+
+// Reads SYSLOG_UDP_PORT and SYSLOG_TCP_PORT plus SYSLOG_USERNAME, and the
+// optional SYSLOG_HOST (default 0.0.0.0) and SYSLOG_RATE_LIMIT (default 50).
+// Returns null when neither port is set.
+export const syslogConfigFromEnv = (): SyslogConfig | null => {
+  const port = (name: string): number | null => {
+    const value = process.env[name];
+    return value && Number.isInteger(Number(value)) ? Number(value) : null;
+  };
+  const udpPort = port('SYSLOG_UDP_PORT');
+  const tcpPort = port('SYSLOG_TCP_PORT');
+  if (udpPort === null && tcpPort === null) {
+    return null;
+  }
+
+  const rateLimit = Number(process.env['SYSLOG_RATE_LIMIT']);
+  return {
+    host: process.env['SYSLOG_HOST'] || '0.0.0.0',
+    udp_port: udpPort,
+    tcp_port: tcpPort,
+    username: process.env['SYSLOG_USERNAME'] || null,
+    rate_limit: rateLimit > 0 ? rateLimit : 50
+  };
+};
+
+// Longest message accepted over TCP, as RFC 5425 suggests receivers support
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+// Lines waiting to be ingested; more are dropped until the backlog clears
+const MAX_QUEUED = 10_000;
+
+// How long the mapping rules are reused before they are read again
+const RULES_TTL_MS = 5_000;
+
+const SUMMARY_INTERVAL_MS = 60_000;
+
+export type SyslogStats = Record<IngestOutcome | 'received' | 'rate_limited' | 'dropped' | 'failed', number>;
+
+// A token bucket per sender that refills at rate tokens a second and holds a
+// second's worth
+export const createRateLimiter = (rate: number) => {
+  const buckets = new Map<string, { tokens: number; updated: number }>();
+
+  return (sender: string, now: number = Date.now()): boolean => {
+    const bucket = buckets.get(sender) ?? { tokens: rate, updated: now };
+    bucket.tokens = Math.min(rate, bucket.tokens + ((now - bucket.updated) / 1000) * rate);
+    bucket.updated = now;
+
+    // Forget full buckets now and then so the map does not grow without bound
+    if (!buckets.has(sender) && buckets.size >= 10_000) {
+      for (const [key, other] of buckets) {
+        if (other.tokens + ((now - other.updated) / 1000) * rate >= rate) buckets.delete(key);
+      }
+    }
+    buckets.set(sender, bucket);
+
+    if (bucket.tokens < 1) {
+      return false;
+    }
+    bucket.tokens -= 1;
+    return true;
+  };
+};
+
+// Splits a TCP stream into messages framed by octet counting ("LEN MSG") or
+// by newlines (RFC 6587). Returns the messages and what is left over, or
+// null when the sender exceeded the message size.
+export const splitFrames = (buffer: Buffer): { messages: string[]; rest: Buffer } | null => {
+  const messages: string[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const counted = /^(\d{1,6}) /.exec(buffer.subarray(offset, offset + 8).toString('latin1'));
+    if (counted) {
+      const length = Number(counted[1]);
+      const start = offset + counted[0].length;
+      if (length > MAX_MESSAGE_BYTES) return null;
+      if (buffer.length < start + length) break;
+      messages.push(buffer.subarray(start, start + length).toString('utf8'));
+      offset = start + length;
+      continue;
+    }
+    if (/^\d{1,6}$/.test(buffer.subarray(offset, offset + 8).toString('latin1'))) {
+      break; // The rest of an octet count is still on its way
+    }
+
+    const newline = buffer.indexOf(0x0a, offset);
+    if (newline < 0) {
+      if (buffer.length - offset > MAX_MESSAGE_BYTES) return null;
+      break;
+    }
+    messages.push(buffer.subarray(offset, newline).toString('utf8'));
+    offset = newline + 1;
+  }
+
+  return { messages, rest: buffer.subarray(offset) };
+};
+
+// Resolves once a socket is bound, or rejects with the error binding raised
+// (EADDRINUSE when the port is taken) rather than waiting forever
+const bound = (socket: EventEmitter, bind: (listening: () => void) => void): Promise<void> =>
+  new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    bind(() => {
+      socket.off('error', reject);
+      resolve();
+    });
+  });
+
+// Listens for syslog over UDP and/or TCP and turns the CEF and LEEF events it
+// receives into violations through the mapping rules. Lines are ingested one
+// at a time in arrival order; senders over the rate limit have their excess
+// dropped, and the counts are logged once a minute.
+export const startSyslogReceiver = async (config: SyslogConfig) => {
+  const { id: actorId } = await syncUser(config.username, 'SYSLOG_USERNAME');
+  const allow = createRateLimiter(config.rate_limit);
+
+  const stats: SyslogStats = {
+    received: 0, created: 0, appended: 0, ignored: 0, unmatched: 0, unparsed: 0, rate_limited: 0, dropped: 0, failed: 0
+  };
+  const queue: { line: string; receivedAt: Date }[] = [];
+  let processing: Promise<void> | null = null;
+  let rules: { loaded: number; rules: SiemMappingRule[] } | null = null;
+
+  const currentRules = async (): Promise<SiemMappingRule[]> => {
+    if (!rules || Date.now() - rules.loaded > RULES_TTL_MS) {
+      rules = { loaded: Date.now(), rules: await loadSiemMappingRules() };
+    }
+    return rules.rules;
+  };
+
+  const processQueue = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      try {
+        const result = await ingestSyslogLine(next.line, await currentRules(), actorId, next.receivedAt);
+        stats[result.outcome] += 1;
+      } catch (error) {
+        stats.failed += 1;
+        console.error('Syslog message ingestion failed:', error);
+      }
+    }
+    processing = null;
+  };
+
+  const receive = (message: string, sender: string) => {
+    const line = message.replace(/[\r\n]+$/, '');
+    if (line.trim() === '') {
+      return;
+    }
+    stats.received += 1;
+    if (!allow(sender)) {
+      stats.rate_limited += 1;
+      return;
+    }
+    if (queue.length >= MAX_QUEUED) {
+      stats.dropped += 1;
+      return;
+    }
+    queue.push({ line, receivedAt: new Date() });
+    processing ??= processQueue();
+  };
+
+  let udp: ReturnType<typeof createSocket> | null = null;
+  if (config.udp_port !== null) {
+    const socket = createSocket('udp4');
+    socket.on('message', (message, remote) => receive(message.toString('utf8'), remote.address));
+    socket.on('error', error => console.error('Syslog UDP listener failed:', error));
+    await bound(socket, listening => socket.bind(config.udp_port!, config.host, listening));
+    udp = socket;
+  }
+
+  const connections = new Set<Socket>();
+  let tcp: ReturnType<typeof createServer> | null = null;
+  if (config.tcp_port !== null) {
+    const server = createServer(socket => {
+      connections.add(socket);
+      socket.on('close', () => connections.delete(socket));
+      socket.on('error', () => socket.destroy());
+
+      let buffer: Buffer = Buffer.alloc(0);
+      socket.on('data', (chunk: Buffer) => {
+        const frames = splitFrames(Buffer.concat([buffer, chunk]));
+        if (!frames) {
+          socket.destroy();
+          return;
+        }
+        buffer = frames.rest;
+        frames.messages.forEach(message => receive(message, socket.remoteAddress ?? 'unknown'));
+      });
+    });
+    try {
+      await bound(server, listening => server.listen(config.tcp_port!, config.host, listening));
+    } catch (error) {
+      udp?.close();
+      throw error;
+    }
+    tcp = server;
+  }
+
+  let reported = { rate_limited: 0, dropped: 0, failed: 0 };
+  const summary = setInterval(() => {
+    const { rate_limited: rateLimited, dropped, failed } = stats;
+    if (rateLimited > reported.rate_limited || dropped > reported.dropped || failed > reported.failed) {
+      console.warn(`Syslog receiver: ${rateLimited - reported.rate_limited} rate limited, `
+        + `${dropped - reported.dropped} dropped, ${failed - reported.failed} failed in the last minute`);
+    }
+    reported = { rate_limited: rateLimited, dropped, failed };
+  }, SUMMARY_INTERVAL_MS);
+
+  const udpAddress = udp?.address();
+  const tcpAddress = tcp?.address();
+
+  return {
+    udp_port: udpAddress ? udpAddress.port : null,
+    tcp_port: tcpAddress && typeof tcpAddress === 'object' ? tcpAddress.port : null,
+    stats,
+
+    // Resolves once every line received so far has been ingested
+    idle: async (): Promise<void> => {
+      while (processing) {
+        await processing;
+      }
+    },
+
+    stop: async (): Promise<void> => {
+      clearInterval(summary);
+      udp?.close();
+      connections.forEach(socket => socket.destroy());
+      await new Promise<void>(resolve => (tcp ? tcp.close(() => resolve()) : resolve()));
+      while (processing) {
+        await processing;
+      }
+    }
+  };
+};
+
+export type SyslogReceiver = Awaited<ReturnType<typeof startSyslogReceiver>>;
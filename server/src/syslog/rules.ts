@@ -0,0 +1,66 @@
+import { createHash } from 'node:crypto';
+import { type SiemMappingRule } from '../db/schema';
+import { type SecurityViolation } from '../schema';
+import { type SiemAlert } from './parse';
+
+type Severity = SecurityViolation['severity'];
+
+// Alert fields that templates and correlation fields can name; any other
+// name is looked up among the CEF or LEEF extensions
+const alertFields = ['format', 'vendor', 'product', 'product_version', 'event_id', 'name', 'severity', 'source', 'destination', 'host'] as const;
+
+export const alertField = (alert: SiemAlert, field: string): string | null => {
+  if ((alertFields as readonly string[]).includes(field)) {
+    const value = alert[field as typeof alertFields[number]];
+    return value === null || value === '' ? null : String(value);
+  }
+  return alert.extensions[field] ?? null;
+};
+
+const equalsIgnoringCase = (expected: string | null, actual: string): boolean =>
+  expected === null || expected.toLowerCase() === actual.toLowerCase();
+
+export const ruleMatches = (rule: SiemMappingRule, alert: SiemAlert): boolean => {
+  if (rule.format !== null && rule.format !== alert.format) {
+    return false;
+  }
+  if (!equalsIgnoringCase(rule.vendor, alert.vendor) || !equalsIgnoringCase(rule.product, alert.product)) {
+    return false;
+  }
+  if (rule.event_pattern !== null) {
+    const pattern = new RegExp(rule.event_pattern, 'i');
+    if (!pattern.test(alert.event_id) && !pattern.test(alert.name)) {
+      return false;
+    }
+  }
+  // Alerts that do not report a severity never meet a minimum
+  return rule.min_severity === null || (alert.severity !== null && alert.severity >= rule.min_severity);
+};
+
+// The first of the rules, already in priority order, that matches
+export const findMatchingRule = (rules: SiemMappingRule[], alert: SiemAlert): SiemMappingRule | null =>
+  rules.find(rule => rule.is_active && ruleMatches(rule, alert)) ?? null;
+
+// CEF and LEEF severities run from 0 to 10
+export const alertSeverity = (severity: number | null): Severity => {
+  if (severity === null) return 'Medium';
+  if (severity >= 9) return 'Critical';
+  if (severity >= 7) return 'High';
+  if (severity >= 4) return 'Medium';
+  return 'Low';
+};
+
+// Fills {field} placeholders; fields the alert lacks are left empty
+export const renderTitle = (rule: SiemMappingRule, alert: SiemAlert): string => {
+  const title = rule.title_template
+    ? rule.title_template.replace(/\{([\w.-]+)\}/g, (_, field: string) => alertField(alert, field) ?? '')
+    : alert.name;
+  return (title.replace(/\s+/g, ' ').trim() || `${alert.vendor} ${alert.product} event ${alert.event_id}`).slice(0, 200);
+};
+
+// Alerts with the same key are counted on one violation. The key covers the
+// rule and the values of its correlation fields, hashed to a fixed length.
+export const correlationKey = (rule: SiemMappingRule, alert: SiemAlert): string => {
+  const values = rule.correlation_fields.map(field => alertField(alert, field));
+  return `siem:${rule.id}:${createHash('sha256').update(JSON.stringify(values)).digest('hex').slice(0, 40)}`;
+};
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { architectureComponentsTable, containersTable, usersTable } from '../db/schema';
+import { archiveArchitectureComponent, restoreArchitectureComponent } from '../handlers/archive_architecture_component';
+import { getArchitectureComponentsByContainer } from '../handlers/get_architecture_components';
+
+describe('archiveArchitectureComponent', () => {
+  let userId: number;
+  let containerId: number;
+  let componentId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'manager', email: 'manager@example.com', full_name: 'Manager', role: 'SecurityManager' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+
+    const components = await db.insert(architectureComponentsTable)
+      .values({ name: 'API Gateway', component_type: 'Gateway', container_id: containerId, created_by: userId })
+      .returning()
+      .execute();
+    componentId = components[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should archive and restore a component', async () => {
+    const archived = await archiveArchitectureComponent(componentId, userId);
+    expect(archived.is_active).toBe(false);
+    expect((await getArchitectureComponentsByContainer({ containerId })).items).toHaveLength(0);
+
+    const restored = await restoreArchitectureComponent(componentId, userId);
+    expect(restored.is_active).toBe(true);
+    expect((await getArchitectureComponentsByContainer({ containerId })).items).toHaveLength(1);
+  });
+
+  it('should throw NOT_FOUND for a missing component', async () => {
+    await expect(restoreArchitectureComponent(999, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Architecture component with id 999 not found'
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, usersTable } from '../db/schema';
+import { archiveContainer, restoreContainer } from '../handlers/archive_container';
+import { getContainers } from '../handlers/get_containers';
+
+describe('archiveContainer', () => {
+  let userId: number;
+  let containerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should hide archived containers from the container list', async () => {
+    const archived = await archiveContainer(containerId, userId);
+
+    expect(archived.is_active).toBe(false);
+    expect(archived.updated_by).toEqual(userId);
+    expect((await getContainers()).items).toHaveLength(0);
+  });
+
+  it('should restore an archived container', async () => {
+    await archiveContainer(containerId, userId);
+    const restored = await restoreContainer(containerId, userId);
+
+    expect(restored.is_active).toBe(true);
+    expect((await getContainers()).items.map(container => container.id)).toEqual([containerId]);
+  });
+
+  it('should throw NOT_FOUND for a missing container', async () => {
+    await expect(archiveContainer(999, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Container with id 999 not found'
+    });
+    await expect(restoreContainer(999, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
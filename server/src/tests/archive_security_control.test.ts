@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityControlsTable, usersTable } from '../db/schema';
+import { archiveSecurityControl, restoreSecurityControl } from '../handlers/archive_security_control';
+import { getSecurityControls } from '../handlers/get_security_controls';
+
+describe('archiveSecurityControl', () => {
+  let userId: number;
+  let controlId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'manager', email: 'manager@example.com', full_name: 'Manager', role: 'SecurityManager' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+
+    const controls = await db.insert(securityControlsTable)
+      .values({
+        name: 'MFA',
+        control_type: 'Technical',
+        implementation_status: 'Existing',
+        effectiveness_rating: 80,
+        container_id: containers[0].id,
+        created_by: userId
+      })
+      .returning()
+      .execute();
+    controlId = controls[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should archive and restore a control', async () => {
+    const archived = await archiveSecurityControl(controlId, userId);
+    expect(archived.is_active).toBe(false);
+    expect(archived.effectiveness_rating).toEqual(80);
+    expect((await getSecurityControls({ is_active: true })).items).toHaveLength(0);
+
+    const restored = await restoreSecurityControl(controlId, userId);
+    expect(restored.is_active).toBe(true);
+    expect((await getSecurityControls({ is_active: true })).items).toHaveLength(1);
+  });
+
+  it('should throw NOT_FOUND for a missing control', async () => {
+    await expect(archiveSecurityControl(999, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Security control with id 999 not found'
+    });
+  });
+});
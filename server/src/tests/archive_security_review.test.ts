@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activityEventsTable, securityReviewsTable, usersTable } from '../db/schema';
+import { archiveSecurityReview, restoreSecurityReview } from '../handlers/archive_security_review';
+import { getSecurityReviews } from '../handlers/get_security_reviews';
+import { eq } from 'drizzle-orm';
+
+describe('archiveSecurityReview', () => {
+  let userId: number;
+  let reviewId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const reviews = await db.insert(securityReviewsTable)
+      .values({ title: 'Design review', created_by: userId })
+      .returning()
+      .execute();
+    reviewId = reviews[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should archive and restore a review', async () => {
+    const archived = await archiveSecurityReview(reviewId, userId);
+    expect(archived.is_active).toBe(false);
+    expect((await getSecurityReviews({ is_active: true })).items).toHaveLength(0);
+
+    const restored = await restoreSecurityReview(reviewId, userId);
+    expect(restored.is_active).toBe(true);
+    expect((await getSecurityReviews({ is_active: true })).items).toHaveLength(1);
+  });
+
+  it('should record archiving in the activity feed', async () => {
+    await archiveSecurityReview(reviewId, userId);
+
+    const events = await db.select()
+      .from(activityEventsTable)
+      .where(eq(activityEventsTable.entity_id, reviewId))
+      .execute();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ entity_type: 'Review', field: 'is_active', old_value: 'true', new_value: 'false' });
+  });
+
+  it('should throw NOT_FOUND for a missing review', async () => {
+    await expect(archiveSecurityReview(999, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Security review with id 999 not found'
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { securityViolationsTable, usersTable } from '../db/schema';
+import { archiveSecurityViolation, restoreSecurityViolation } from '../handlers/archive_security_violation';
+import { getActiveSecurityViolations, getSecurityViolations } from '../handlers/get_security_violations';
+
+describe('archiveSecurityViolation', () => {
+  let userId: number;
+  let violationId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const violations = await db.insert(securityViolationsTable)
+      .values({
+        title: 'Shared admin account',
+        description: 'Admin credentials shared over chat',
+        violation_type: 'PolicyViolation',
+        severity: 'Medium',
+        incident_date: new Date('2024-02-01'),
+        created_by: userId
+      })
+      .returning()
+      .execute();
+    violationId = violations[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should drop archived violations from the active list', async () => {
+    const archived = await archiveSecurityViolation(violationId, userId);
+
+    expect(archived.is_active).toBe(false);
+    expect(archived.status).toEqual('Open');
+    expect((await getActiveSecurityViolations()).items).toHaveLength(0);
+    expect((await getSecurityViolations({ is_active: false })).items).toHaveLength(1);
+  });
+
+  it('should restore an archived violation', async () => {
+    await archiveSecurityViolation(violationId, userId);
+    const restored = await restoreSecurityViolation(violationId, userId);
+
+    expect(restored.is_active).toBe(true);
+    expect((await getActiveSecurityViolations()).items.map(violation => violation.id)).toEqual([violationId]);
+  });
+
+  it('should throw NOT_FOUND for a missing violation', async () => {
+    await expect(archiveSecurityViolation(999, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Security violation with id 999 not found'
+    });
+  });
+});
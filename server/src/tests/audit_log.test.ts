@@ -0,0 +1,301 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditLogTable, containersTable, securityIssuesTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { appRouter } from '../index';
+import { createCallerFactory, type Context } from '../trpc';
+import { auditTargets, diffRows, verifyAuditChain } from '../audit/audit_log';
+import { hashPassword } from '../auth/password';
+import { asc, eq, sql } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+const callerFor = (user: User | null) => {
+  const ctx: Context = {
+    user,
+    sessionToken: user ? 'test-session-token' : null,
+    request: { ip_address: '10.0.0.7', user_agent: 'audit-test/1.0' }
+  };
+  return createCaller(ctx);
+};
+
+const createAdmin = async (): Promise<User> => {
+  const result = await db.insert(usersTable)
+    .values({
+      username: 'admin',
+      email: 'admin@example.com',
+      full_name: 'Admin',
+      role: 'Admin',
+      password_hash: await hashPassword('correct horse battery')
+    })
+    .returning()
+    .execute();
+  const { password_hash, ...user } = result[0];
+  return user;
+};
+
+const auditEntries = () => db.select()
+  .from(auditLogTable)
+  .orderBy(asc(auditLogTable.id))
+  .execute();
+
+const mutationNames = Object.entries(appRouter._def.procedures)
+  .filter(([, procedure]) => (procedure as { _def: { type: string } })._def.type === 'mutation')
+  .map(([name]) => name);
+
+describe('audit log', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should declare an audit target for every mutation', () => {
+    expect(mutationNames.filter(name => auditTargets[name] === undefined)).toEqual([]);
+    expect(Object.keys(auditTargets).filter(name => !mutationNames.includes(name))).toEqual([]);
+  });
+
+  it('should record the actor, request and created row of a mutation', async () => {
+    const admin = await createAdmin();
+
+    const container = await callerFor(admin).createContainer({
+      name: 'Payments',
+      description: null,
+      type: 'Application',
+      external_id: null,
+      external_system: null
+    });
+
+    const [entry] = await auditEntries();
+    expect(entry.actor_id).toEqual(admin.id);
+    expect(entry.procedure).toEqual('createContainer');
+    expect(entry.entity_type).toEqual('containers');
+    expect(entry.entity_id).toEqual(container.id);
+    expect(entry.ip_address).toEqual('10.0.0.7');
+    expect(entry.user_agent).toEqual('audit-test/1.0');
+    expect(entry.input).toMatchObject({ name: 'Payments', type: 'Application' });
+    expect(entry.changes!['name']).toEqual({ before: null, after: 'Payments' });
+    expect(entry.prev_hash).toBeNull();
+    expect(entry.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should diff only the columns an update changed', async () => {
+    const admin = await createAdmin();
+    const caller = callerFor(admin);
+
+    const container = await caller.createContainer({
+      name: 'Payments',
+      description: null,
+      type: 'Application',
+      external_id: null,
+      external_system: null
+    });
+    const issue = await caller.createSecurityIssue({
+      title: 'Weak session cookies',
+      description: 'Missing Secure flag',
+      severity: 'Medium',
+      classification: 'Misconfiguration',
+      hierarchy: 'Task',
+      confidentiality_impact: 40,
+      integrity_impact: 20,
+      availability_impact: 0,
+      compliance_impact: 10,
+      third_party_risk: 0,
+      mitre_attack_id: null,
+      mitre_attack_tactic: null,
+      mitre_attack_technique: null,
+      linddun_category: null,
+      attack_complexity: null,
+      threat_modeling_notes: null,
+      compensating_controls: null,
+      container_id: container.id,
+      parent_issue_id: null,
+      assigned_to: null
+    });
+    await caller.updateSecurityIssue({ id: issue.id, confidentiality_impact: 80 });
+
+    const entries = await auditEntries();
+    const update = entries[2];
+    expect(update.procedure).toEqual('updateSecurityIssue');
+    expect(update.entity_id).toEqual(issue.id);
+    expect(Object.keys(update.changes!).sort()).toEqual(['confidentiality_impact', 'risk_score', 'updated_at']);
+    expect(update.changes!['confidentiality_impact']).toEqual({ before: 40, after: 80 });
+    expect(update.prev_hash).toEqual(entries[1].hash);
+  });
+
+  it('should redact secrets and attribute logins to the signed-in user', async () => {
+    const admin = await createAdmin();
+
+    await callerFor(null).login({ username: 'admin', password: 'correct horse battery' });
+
+    const [entry] = await auditEntries();
+    expect(entry.procedure).toEqual('login');
+    expect(entry.actor_id).toEqual(admin.id);
+    expect(entry.input).toEqual({ username: 'admin', password: '[redacted]' });
+    expect(JSON.stringify(entry)).not.toContain('correct horse battery');
+  });
+
+  it('should redact webhook secrets from the input and the diff', async () => {
+    const admin = await createAdmin();
+
+    await callerFor(admin).createWebhookSubscription({
+      name: 'SIEM',
+      url: 'https://siem.example.com/hooks/primesec',
+      secret: 'a-very-long-shared-secret',
+      events: ['issue.created']
+    });
+
+    const [entry] = await auditEntries();
+    expect(entry.entity_type).toEqual('webhook_subscriptions');
+    expect((entry.input as Record<string, unknown>)['secret']).toEqual('[redacted]');
+    expect(entry.changes!['secret']).toEqual({ before: null, after: '[redacted]' });
+    expect(JSON.stringify(entry)).not.toContain('a-very-long-shared-secret');
+  });
+
+  it('should log a bulk update once with the rows it changed', async () => {
+    const admin = await createAdmin();
+    const caller = callerFor(admin);
+
+    const violations = await Promise.all(['Shared admin account', 'Unapproved SaaS'].map(title => caller.createSecurityViolation({
+      title,
+      description: title,
+      violation_type: 'PolicyViolation',
+      severity: 'Medium',
+      incident_date: new Date('2024-02-01'),
+      detection_method: null,
+      affected_systems: null,
+      impact_assessment: null,
+      remediation_steps: null,
+      container_id: null,
+      related_issue_id: null,
+      assigned_to: null
+    })));
+    const ids = violations.map(violation => violation.id).sort((a, b) => a - b);
+
+    await caller.bulkUpdateSecurityViolations({ ids, changes: { severity: 'High' }, dry_run: true });
+    await caller.bulkUpdateSecurityViolations({ ids, changes: { severity: 'High' } });
+
+    const [dryRun, update] = (await auditEntries()).slice(2);
+    expect(dryRun.procedure).toEqual('bulkUpdateSecurityViolations');
+    expect(dryRun.changes).toEqual({});
+    expect(update.entity_type).toEqual('security_violations');
+    expect(update.entity_id).toBeNull();
+    expect(update.changes).toEqual({
+      [ids[0]]: { before: { severity: 'Medium' }, after: { severity: 'High' } },
+      [ids[1]]: { before: { severity: 'Medium' }, after: { severity: 'High' } }
+    });
+  });
+
+  it('should log the issues an import or recompute changed', async () => {
+    const admin = await createAdmin();
+    const caller = callerFor(admin);
+    const container = await caller.createContainer({ name: 'Payments', description: null, type: 'Project', external_id: null, external_system: null });
+    const [issue] = await db.insert(securityIssuesTable)
+      .values({
+        title: 'Stale score',
+        description: 'Scored by older code',
+        severity: 'High',
+        classification: 'Vulnerability',
+        hierarchy: 'Task',
+        confidentiality_impact: 80,
+        risk_score: 0,
+        container_id: container.id,
+        created_by: admin.id
+      })
+      .returning()
+      .execute();
+
+    await caller.recomputeRiskScores({ container_id: container.id });
+
+    const [, entry] = await auditEntries();
+    expect(entry.entity_type).toEqual('security_issues');
+    expect(Object.keys(entry.changes!)).toEqual([String(issue.id)]);
+    expect(entry.changes![issue.id]).toEqual({ before: { risk_score: 0 }, after: { risk_score: expect.any(Number) } });
+  });
+
+  it('should roll back a mutation whose entry cannot be written', async () => {
+    const admin = await createAdmin();
+    await db.execute(sql`alter table audit_log rename to audit_log_unavailable`);
+
+    await expect(callerFor(admin).createContainer({ name: 'Payments', description: null, type: 'Project', external_id: null, external_system: null })).rejects.toThrow();
+
+    expect(await db.select().from(containersTable).execute()).toHaveLength(0);
+  });
+
+  it('should not log failed mutations or queries', async () => {
+    const admin = await createAdmin();
+    const caller = callerFor(admin);
+
+    await expect(caller.updateSecurityIssue({ id: 999, title: 'Missing' })).rejects.toThrow();
+    await expect(callerFor(null).login({ username: 'admin', password: 'wrong password!!' })).rejects.toThrow();
+    await caller.getContainers();
+
+    expect(await auditEntries()).toHaveLength(0);
+  });
+
+  it('should report the diff of rows that appear or disappear', () => {
+    expect(diffRows(null, { id: 1, name: 'x' })).toEqual({
+      id: { before: null, after: 1 },
+      name: { before: null, after: 'x' }
+    });
+    expect(diffRows({ id: 1, when: new Date('2024-01-01T00:00:00Z') }, { id: 1, when: new Date('2024-01-01T00:00:00Z') }))
+      .toEqual({});
+  });
+});
+
+describe('verifyAuditChain', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createEntries = async () => {
+    const admin = await createAdmin();
+    const caller = callerFor(admin);
+    for (const name of ['Alpha', 'Beta', 'Gamma']) {
+      await caller.createContainer({ name, description: null, type: 'Service', external_id: null, external_system: null });
+    }
+    return auditEntries();
+  };
+
+  it('should accept an empty and an intact chain', async () => {
+    expect(await verifyAuditChain()).toEqual({ valid: true, entries_checked: 0, first_invalid_id: null, reason: null });
+
+    await createEntries();
+
+    expect(await verifyAuditChain()).toEqual({ valid: true, entries_checked: 3, first_invalid_id: null, reason: null });
+  });
+
+  it('should detect an edited entry', async () => {
+    const entries = await createEntries();
+
+    await db.update(auditLogTable)
+      .set({ actor_id: 999 })
+      .where(eq(auditLogTable.id, entries[1].id))
+      .execute();
+
+    const result = await verifyAuditChain();
+    expect(result.valid).toBe(false);
+    expect(result.first_invalid_id).toEqual(entries[1].id);
+    expect(result.entries_checked).toEqual(1);
+    expect(result.reason).toMatch(/do not match its hash/);
+  });
+
+  it('should detect edits to the recorded changes', async () => {
+    const entries = await createEntries();
+
+    await db.execute(sql`update audit_log set changes = jsonb_set(changes, '{name,after}', '"Omega"') where id = ${entries[2].id}`);
+
+    const result = await verifyAuditChain();
+    expect(result.first_invalid_id).toEqual(entries[2].id);
+  });
+
+  it('should detect a deleted entry', async () => {
+    const entries = await createEntries();
+
+    await db.delete(auditLogTable)
+      .where(eq(auditLogTable.id, entries[1].id))
+      .execute();
+
+    const result = await verifyAuditChain();
+    expect(result.valid).toBe(false);
+    expect(result.first_invalid_id).toEqual(entries[2].id);
+    expect(result.reason).toMatch(/Link to previous entry is broken/);
+  });
+});
@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  activityEventsTable,
+  containersTable,
+  issueStatusHistoryTable,
+  securityIssuesTable,
+  usersTable
+} from '../db/schema';
+import { bulkUpdateSecurityIssuesInputSchema, type BulkUpdateSecurityIssuesInput, type User } from '../schema';
+import { bulkUpdateSecurityIssues } from '../handlers/bulk_update_security_issues';
+import { asc, eq, inArray } from 'drizzle-orm';
+
+const createTestUser = async (role: User['role'] = 'SecurityAnalyst') => {
+  const result = await db.insert(usersTable)
+    .values({
+      username: `testuser_${role.toLowerCase()}`,
+      email: `${role.toLowerCase()}@example.com`,
+      full_name: 'Test User',
+      role
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestContainer = async (name: string, userId: number) => {
+  const result = await db.insert(containersTable)
+    .values({ name, type: 'Project', created_by: userId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestIssues = async (
+  containerId: number,
+  userId: number,
+  values: Array<Partial<typeof securityIssuesTable.$inferInsert> & { title: string }>
+) => db.insert(securityIssuesTable)
+  .values(values.map(value => ({
+    description: value.title,
+    severity: 'Medium' as const,
+    classification: 'Vulnerability' as const,
+    hierarchy: 'Task' as const,
+    confidentiality_impact: 50,
+    container_id: containerId,
+    created_by: userId,
+    ...value
+  })))
+  .returning()
+  .execute();
+
+const bulkUpdate = (input: Omit<BulkUpdateSecurityIssuesInput, 'dry_run'> & { dry_run?: boolean }, actor: User) =>
+  bulkUpdateSecurityIssues(bulkUpdateSecurityIssuesInputSchema.parse(input), actor);
+
+const loadIssues = (ids: number[]) => db.select()
+  .from(securityIssuesTable)
+  .where(inArray(securityIssuesTable.id, ids))
+  .orderBy(asc(securityIssuesTable.id))
+  .execute();
+
+describe('bulkUpdateSecurityIssues', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update every listed issue in one call', async () => {
+    const user = await createTestUser();
+    const assignee = await createTestUser('SecurityManager');
+    const container = await createTestContainer('Payments', user.id);
+    const issues = await createTestIssues(container.id, user.id, [
+      { title: 'One', tags: ['pci'] },
+      { title: 'Two' },
+      { title: 'Three' }
+    ]);
+    const ids = issues.map(issue => issue.id);
+
+    const result = await bulkUpdate({
+      ids,
+      changes: { status: 'In-progress', assigned_to: assignee.id, severity: 'High', add_tags: ['q3-sprint', 'PCI'] }
+    }, user);
+
+    expect(result).toMatchObject({ dry_run: false, matched: 3, changed: 3, failed: 0 });
+    expect(result.rows[0]).toEqual({
+      id: issues[0].id,
+      outcome: 'Changed',
+      error: null,
+      changes: {
+        status: { before: 'Open', after: 'In-progress' },
+        assigned_to: { before: null, after: assignee.id },
+        severity: { before: 'Medium', after: 'High' },
+        tags: { before: ['pci'], after: ['pci', 'q3-sprint'] }
+      }
+    });
+
+    const updated = await loadIssues(ids);
+    expect(updated.map(issue => issue.status)).toEqual(['In-progress', 'In-progress', 'In-progress']);
+    expect(updated.map(issue => issue.assigned_to)).toEqual([assignee.id, assignee.id, assignee.id]);
+    expect(updated.map(issue => issue.tags)).toEqual([['pci', 'q3-sprint'], ['q3-sprint', 'PCI'], ['q3-sprint', 'PCI']]);
+    expect(updated.every(issue => issue.updated_by === user.id)).toBe(true);
+
+    const history = await db.select().from(issueStatusHistoryTable).where(inArray(issueStatusHistoryTable.issue_id, ids)).execute();
+    expect(history).toHaveLength(3);
+    const activity = await db.select().from(activityEventsTable).where(eq(activityEventsTable.entity_type, 'Issue')).execute();
+    expect(activity.length).toBeGreaterThan(0);
+  });
+
+  it('should preview changes without writing on a dry run', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer('Payments', user.id);
+    const issues = await createTestIssues(container.id, user.id, [{ title: 'One' }, { title: 'Two', severity: 'High' }]);
+
+    const result = await bulkUpdate({ ids: issues.map(issue => issue.id), changes: { severity: 'High' }, dry_run: true }, user);
+
+    expect(result).toMatchObject({ dry_run: true, matched: 2, changed: 1, failed: 0 });
+    expect(result.rows.map(row => row.outcome)).toEqual(['Changed', 'Unchanged']);
+    expect(result.rows[0].changes).toEqual({ severity: { before: 'Medium', after: 'High' } });
+
+    const unchanged = await loadIssues(issues.map(issue => issue.id));
+    expect(unchanged.map(issue => issue.severity)).toEqual(['Medium', 'High']);
+    expect(unchanged.every(issue => issue.updated_by === null)).toBe(true);
+  });
+
+  it('should report rows that fail validation and apply the rest', async () => {
+    const analyst = await createTestUser();
+    const container = await createTestContainer('Payments', analyst.id);
+    const issues = await createTestIssues(container.id, analyst.id, [
+      { title: 'Medium' },
+      { title: 'Critical', severity: 'Critical' },
+      { title: 'Already closed', status: 'Closed' }
+    ]);
+
+    const result = await bulkUpdate({
+      ids: [...issues.map(issue => issue.id), 99999],
+      changes: { status: 'Resolved', resolution_note: 'Patched in 2.4.1' }
+    }, analyst);
+
+    expect(result).toMatchObject({ matched: 3, changed: 1, failed: 3 });
+    expect(result.rows.map(row => [row.id, row.outcome])).toEqual([
+      [issues[0].id, 'Changed'],
+      [issues[1].id, 'Failed'],
+      [issues[2].id, 'Failed'],
+      [99999, 'Failed']
+    ]);
+    expect(result.rows[2].error).toEqual('Status transition from Closed to Resolved is not allowed');
+    expect(result.rows[3].error).toEqual('Security issue with id 99999 not found');
+    expect(result.rows[1].changes).toEqual({});
+
+    const updated = await loadIssues(issues.map(issue => issue.id));
+    expect(updated.map(issue => issue.status)).toEqual(['Resolved', 'Open', 'Closed']);
+    expect(updated[0].resolution_note).toEqual('Patched in 2.4.1');
+  });
+
+  it('should not let a severity change in the same update skip the critical permission', async () => {
+    const analyst = await createTestUser();
+    const container = await createTestContainer('Payments', analyst.id);
+    const [critical, medium, other] = await createTestIssues(container.id, analyst.id, [
+      { title: 'Critical', severity: 'Critical' },
+      { title: 'Medium' },
+      { title: 'Other' }
+    ]);
+
+    const lowered = await bulkUpdate({
+      ids: [critical.id, medium.id],
+      changes: { status: 'Resolved', severity: 'Low', resolution_note: 'Patched in 2.4.1' }
+    }, analyst);
+    const raised = await bulkUpdate({
+      ids: [other.id],
+      changes: { status: 'Resolved', severity: 'Critical', resolution_note: 'Patched in 2.4.1' }
+    }, analyst);
+
+    const error = 'Role SecurityAnalyst lacks permission issues:close_critical';
+    expect(lowered.rows.map(row => [row.outcome, row.error])).toEqual([['Failed', error], ['Changed', null]]);
+    expect(raised.rows[0]).toMatchObject({ outcome: 'Failed', error });
+    expect((await loadIssues([critical.id, medium.id, other.id])).map(issue => [issue.severity, issue.status])).toEqual([
+      ['Critical', 'Open'],
+      ['Low', 'Resolved'],
+      ['Medium', 'Open']
+    ]);
+  });
+
+  it('should refuse severity changes to issues scored from a CVSS vector', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer('Payments', user.id);
+    const [issue] = await createTestIssues(container.id, user.id, [
+      { title: 'Scored', severity: 'Critical', cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' }
+    ]);
+
+    const result = await bulkUpdate({ ids: [issue.id], changes: { severity: 'Low' } }, user);
+
+    expect(result.rows[0]).toMatchObject({ outcome: 'Failed', error: `Severity of issue ${issue.id} follows its CVSS vector` });
+  });
+
+  it('should select issues with a filter', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer('Payments', user.id);
+    const other = await createTestContainer('Identity', user.id);
+    await createTestIssues(container.id, user.id, [
+      { title: 'High', severity: 'High' },
+      { title: 'Critical', severity: 'Critical', tags: ['pci'] },
+      { title: 'Low', severity: 'Low' }
+    ]);
+    await createTestIssues(other.id, user.id, [{ title: 'Elsewhere', severity: 'Critical' }]);
+
+    const result = await bulkUpdate({
+      filter: { container_id: container.id, query: 'severity>=High' },
+      changes: { remove_tags: ['PCI'], add_tags: ['triaged'] }
+    }, user);
+
+    expect(result).toMatchObject({ matched: 2, changed: 2, failed: 0 });
+    const issues = await db.select().from(securityIssuesTable).orderBy(asc(securityIssuesTable.id)).execute();
+    expect(issues.map(issue => [issue.title, issue.tags])).toEqual([
+      ['High', ['triaged']],
+      ['Critical', ['triaged']],
+      ['Low', []],
+      ['Elsewhere', []]
+    ]);
+  });
+
+  it('should move issues with their hierarchy and rescore both containers', async () => {
+    const user = await createTestUser();
+    const source = await createTestContainer('Payments', user.id);
+    const target = await createTestContainer('Identity', user.id);
+    const [epic] = await createTestIssues(source.id, user.id, [{ title: 'Epic', hierarchy: 'Epic' }]);
+    const [story, loose] = await createTestIssues(source.id, user.id, [
+      { title: 'Story', hierarchy: 'Story', parent_issue_id: epic.id },
+      { title: 'Loose' }
+    ]);
+    const [task] = await createTestIssues(source.id, user.id, [{ title: 'Task', parent_issue_id: story.id }]);
+
+    // The task's parent stays behind, which strands the story's child and so the epic's
+    const blocked = await bulkUpdate({ ids: [epic.id, story.id, loose.id], changes: { container_id: target.id } }, user);
+    expect(blocked.rows.map(row => row.outcome)).toEqual(['Failed', 'Failed', 'Changed']);
+    expect(blocked.rows[1].error).toEqual(`Issue ${story.id} cannot move without related issue ${task.id}`);
+
+    const moved = await bulkUpdate({ ids: [epic.id, story.id, task.id], changes: { container_id: target.id } }, user);
+    expect(moved).toMatchObject({ changed: 3, failed: 0 });
+
+    const issues = await loadIssues([epic.id, story.id, loose.id, task.id]);
+    expect(issues.every(issue => issue.container_id === target.id)).toBe(true);
+
+    const [sourceContainer] = await db.select().from(containersTable).where(eq(containersTable.id, source.id)).execute();
+    const [targetContainer] = await db.select().from(containersTable).where(eq(containersTable.id, target.id)).execute();
+    expect(sourceContainer.risk_score).toEqual(0);
+    expect(targetContainer.risk_score).toBeGreaterThan(0);
+  });
+
+  it('should plan concurrent updates from the latest rows', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer('Payments', user.id);
+    const issues = await createTestIssues(container.id, user.id, [{ title: 'One' }, { title: 'Two' }]);
+    const ids = issues.map(issue => issue.id);
+
+    await Promise.all([
+      bulkUpdate({ ids, changes: { add_tags: ['pci'] } }, user),
+      bulkUpdate({ ids, changes: { add_tags: ['q3-sprint'] } }, user)
+    ]);
+
+    const updated = await loadIssues(ids);
+    expect(updated.map(issue => [...issue.tags].sort())).toEqual([['pci', 'q3-sprint'], ['pci', 'q3-sprint']]);
+  });
+
+  it('should check the assignee and container up front', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer('Payments', user.id);
+    const [issue] = await createTestIssues(container.id, user.id, [{ title: 'One' }]);
+
+    await expect(bulkUpdate({ ids: [issue.id], changes: { assigned_to: 99999 } }, user))
+      .rejects.toThrow('User with id 99999 not found');
+    await expect(bulkUpdate({ ids: [issue.id], changes: { container_id: 99999 } }, user))
+      .rejects.toThrow('Container with id 99999 not found');
+  });
+
+  it('should require exactly one selection and at least one change', () => {
+    expect(bulkUpdateSecurityIssuesInputSchema.safeParse({ changes: { severity: 'Low' } }).success).toBe(false);
+    expect(bulkUpdateSecurityIssuesInputSchema.safeParse({ ids: [1], filter: {}, changes: { severity: 'Low' } }).success).toBe(false);
+    expect(bulkUpdateSecurityIssuesInputSchema.safeParse({ ids: [1], changes: {} }).success).toBe(false);
+    expect(bulkUpdateSecurityIssuesInputSchema.safeParse({ filter: {}, changes: { add_tags: ['pci'] } }).success).toBe(true);
+  });
+});
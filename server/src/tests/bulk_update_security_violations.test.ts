@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activityEventsTable, containersTable, securityViolationsTable, usersTable, type User } from '../db/schema';
+import { bulkUpdateSecurityViolationsInputSchema, type BulkUpdateSecurityViolationsInput } from '../schema';
+import { bulkUpdateSecurityViolations } from '../handlers/bulk_update_security_violations';
+import { asc, eq } from 'drizzle-orm';
+
+const bulkUpdate = (input: Omit<BulkUpdateSecurityViolationsInput, 'dry_run'> & { dry_run?: boolean }, actor: User) =>
+  bulkUpdateSecurityViolations(bulkUpdateSecurityViolationsInputSchema.parse(input), actor);
+
+const loadViolations = () => db.select()
+  .from(securityViolationsTable)
+  .orderBy(asc(securityViolationsTable.id))
+  .execute();
+
+describe('bulkUpdateSecurityViolations', () => {
+  let user: User;
+  let containerId: number;
+  let violationIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    user = users[0];
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', type: 'Application', created_by: user.id })
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+
+    const violations = await db.insert(securityViolationsTable)
+      .values(['Shared admin account', 'Unapproved SaaS', 'Badge tailgating'].map((title, index) => ({
+        title,
+        description: title,
+        violation_type: 'PolicyViolation' as const,
+        severity: index === 2 ? 'Low' as const : 'Medium' as const,
+        incident_date: new Date('2024-02-01'),
+        tags: index === 0 ? ['insider'] : [],
+        created_by: user.id
+      })))
+      .returning()
+      .execute();
+    violationIds = violations.map(violation => violation.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should update every listed violation and record its activity', async () => {
+    const result = await bulkUpdate({
+      ids: violationIds,
+      changes: { status: 'Resolved', assigned_to: user.id, container_id: containerId, add_tags: ['audit-2024'] }
+    }, user);
+
+    expect(result).toMatchObject({ dry_run: false, matched: 3, changed: 3, failed: 0 });
+    expect(result.rows[0].changes).toEqual({
+      status: { before: 'Open', after: 'Resolved' },
+      assigned_to: { before: null, after: user.id },
+      container_id: { before: null, after: containerId },
+      tags: { before: ['insider'], after: ['insider', 'audit-2024'] }
+    });
+
+    const violations = await loadViolations();
+    expect(violations.every(violation => violation.status === 'Resolved' && violation.container_id === containerId)).toBe(true);
+    expect(violations.every(violation => violation.updated_by === user.id)).toBe(true);
+
+    const events = await db.select()
+      .from(activityEventsTable)
+      .where(eq(activityEventsTable.entity_id, violationIds[1]))
+      .execute();
+    expect(events.length).toBeGreaterThan(0);
+  });
+
+  it('should preview changes without writing on a dry run', async () => {
+    const result = await bulkUpdate({ filter: { severity: 'Medium' }, changes: { severity: 'High' }, dry_run: true }, user);
+
+    expect(result).toMatchObject({ dry_run: true, matched: 2, changed: 2 });
+    expect((await loadViolations()).map(violation => violation.severity)).toEqual(['Medium', 'Medium', 'Low']);
+  });
+
+  it('should select violations with a filter query', async () => {
+    const result = await bulkUpdate({ filter: { query: 'tag:insider' }, changes: { remove_tags: ['INSIDER'] } }, user);
+
+    expect(result.rows.map(row => row.id)).toEqual([violationIds[0]]);
+    expect((await loadViolations()).map(violation => violation.tags)).toEqual([[], [], []]);
+  });
+
+  it('should report missing ids and leave unchanged rows alone', async () => {
+    const result = await bulkUpdate({ ids: [violationIds[2], 99999], changes: { severity: 'Low' } }, user);
+
+    expect(result).toMatchObject({ matched: 1, changed: 0, failed: 1 });
+    expect(result.rows).toEqual([
+      { id: violationIds[2], outcome: 'Unchanged', error: null, changes: {} },
+      { id: 99999, outcome: 'Failed', error: 'Security violation with id 99999 not found', changes: {} }
+    ]);
+    expect((await loadViolations())[2].updated_by).toBeNull();
+  });
+
+  it('should check the container up front', async () => {
+    await expect(bulkUpdate({ ids: violationIds, changes: { container_id: 99999 } }, user))
+      .rejects.toThrow('Container with id 99999 not found');
+  });
+});
@@ -55,18 +55,16 @@ describe('createArchitectureComponent', () => {
     data_classification: 'Internal',
     position_x: 100,
     position_y: 200,
-    container_id: 0, // Will be set in tests
-    created_by: 0 // Will be set in tests
+    container_id: 0 // Will be set in tests
   };
 
   it('should create an architecture component', async () => {
     const testInput = {
       ...baseInput,
-      container_id: testContainerId,
-      created_by: testUserId
+      container_id: testContainerId
     };
 
-    const result = await createArchitectureComponent(testInput);
+    const result = await createArchitectureComponent(testInput, testUserId);
 
     // Basic field validation
     expect(result.name).toEqual('Web Server');
@@ -92,11 +90,10 @@ describe('createArchitectureComponent', () => {
   it('should save component to database', async () => {
     const testInput = {
       ...baseInput,
-      container_id: testContainerId,
-      created_by: testUserId
+      container_id: testContainerId
     };
 
-    const result = await createArchitectureComponent(testInput);
+    const result = await createArchitectureComponent(testInput, testUserId);
 
     const components = await db.select()
       .from(architectureComponentsTable)
@@ -133,11 +130,10 @@ describe('createArchitectureComponent', () => {
       data_classification: null,
       position_x: null,
       position_y: null,
-      container_id: testContainerId,
-      created_by: testUserId
+      container_id: testContainerId
     };
 
-    const result = await createArchitectureComponent(minimalInput);
+    const result = await createArchitectureComponent(minimalInput, testUserId);
 
     expect(result.name).toEqual('Minimal Component');
     expect(result.component_type).toEqual('Service');
@@ -159,11 +155,10 @@ describe('createArchitectureComponent', () => {
       ...baseInput,
       position_x: 123.45,
       position_y: 678.90,
-      container_id: testContainerId,
-      created_by: testUserId
+      container_id: testContainerId
     };
 
-    const result = await createArchitectureComponent(testInput);
+    const result = await createArchitectureComponent(testInput, testUserId);
 
     expect(typeof result.position_x).toBe('number');
     expect(typeof result.position_y).toBe('number');
@@ -183,11 +178,10 @@ describe('createArchitectureComponent', () => {
   it('should throw error for non-existent container', async () => {
     const testInput = {
       ...baseInput,
-      container_id: 99999, // Non-existent container
-      created_by: testUserId
+      container_id: 99999 // Non-existent container
     };
 
-    await expect(createArchitectureComponent(testInput)).rejects.toThrow(/Container with ID 99999 not found/i);
+    await expect(createArchitectureComponent(testInput, testUserId)).rejects.toThrow(/Container with ID 99999 not found/i);
   });
 
   it('should throw error for inactive container', async () => {
@@ -205,21 +199,19 @@ describe('createArchitectureComponent', () => {
 
     const testInput = {
       ...baseInput,
-      container_id: inactiveContainerResult[0].id,
-      created_by: testUserId
+      container_id: inactiveContainerResult[0].id
     };
 
-    await expect(createArchitectureComponent(testInput)).rejects.toThrow(/Container with ID .* not found or inactive/i);
+    await expect(createArchitectureComponent(testInput, testUserId)).rejects.toThrow(/Container with ID .* not found or inactive/i);
   });
 
   it('should throw error for non-existent user', async () => {
     const testInput = {
       ...baseInput,
-      container_id: testContainerId,
-      created_by: 99999 // Non-existent user
+      container_id: testContainerId
     };
 
-    await expect(createArchitectureComponent(testInput)).rejects.toThrow(/User with ID 99999 not found/i);
+    await expect(createArchitectureComponent(testInput, 99999)).rejects.toThrow(/User with ID 99999 not found/i);
   });
 
   it('should throw error for inactive user', async () => {
@@ -237,11 +229,10 @@ describe('createArchitectureComponent', () => {
 
     const testInput = {
       ...baseInput,
-      container_id: testContainerId,
-      created_by: inactiveUserResult[0].id
+      container_id: testContainerId
     };
 
-    await expect(createArchitectureComponent(testInput)).rejects.toThrow(/User with ID .* not found or inactive/i);
+    await expect(createArchitectureComponent(testInput, inactiveUserResult[0].id)).rejects.toThrow(/User with ID .* not found or inactive/i);
   });
 
   it('should create components with same name but different containers', async () => {
@@ -259,18 +250,16 @@ describe('createArchitectureComponent', () => {
 
     const testInput1 = {
       ...baseInput,
-      container_id: testContainerId,
-      created_by: testUserId
+      container_id: testContainerId
     };
 
     const testInput2 = {
       ...baseInput,
-      container_id: container2Result[0].id,
-      created_by: testUserId
+      container_id: container2Result[0].id
     };
 
-    const result1 = await createArchitectureComponent(testInput1);
-    const result2 = await createArchitectureComponent(testInput2);
+    const result1 = await createArchitectureComponent(testInput1, testUserId);
+    const result2 = await createArchitectureComponent(testInput2, testUserId);
 
     expect(result1.name).toEqual(result2.name);
     expect(result1.container_id).not.toEqual(result2.container_id);
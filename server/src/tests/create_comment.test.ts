@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { commentsTable, containersTable, securityIssuesTable, securityReviewsTable, usersTable } from '../db/schema';
+import { createComment } from '../handlers/create_comment';
+import { eq } from 'drizzle-orm';
+
+let userId: number;
+let issueId: number;
+let reviewId: number;
+
+describe('createComment', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    userId = user[0].id;
+
+    const container = await db.insert(containersTable)
+      .values({ name: 'Portal', description: null, type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+
+    const issue = await db.insert(securityIssuesTable)
+      .values({
+        title: 'Open redirect',
+        description: 'Login accepts arbitrary return URLs',
+        severity: 'Medium',
+        classification: 'Vulnerability',
+        hierarchy: 'Task',
+        container_id: container[0].id,
+        created_by: userId
+      })
+      .returning()
+      .execute();
+    issueId = issue[0].id;
+
+    const review = await db.insert(securityReviewsTable)
+      .values({ title: 'Design review', description: 'Portal design', created_by: userId })
+      .returning()
+      .execute();
+    reviewId = review[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a comment on an issue', async () => {
+    const result = await createComment({
+      entity_type: 'Issue',
+      entity_id: issueId,
+      body: 'Reproduced on staging'
+    }, userId);
+
+    expect(result.id).toBeDefined();
+    expect(result.entity_type).toEqual('Issue');
+    expect(result.entity_id).toEqual(issueId);
+    expect(result.parent_comment_id).toBeNull();
+    expect(result.body).toEqual('Reproduced on staging');
+    expect(result.author_id).toEqual(userId);
+    expect(result.edited_at).toBeNull();
+    expect(result.deleted_at).toBeNull();
+
+    const saved = await db.select().from(commentsTable).where(eq(commentsTable.id, result.id)).execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should create replies', async () => {
+    const root = await createComment({ entity_type: 'Review', entity_id: reviewId, body: 'Is MFA in scope?' }, userId);
+    const reply = await createComment({
+      entity_type: 'Review',
+      entity_id: reviewId,
+      parent_comment_id: root.id,
+      body: 'Yes, for admins'
+    }, userId);
+
+    expect(reply.parent_comment_id).toEqual(root.id);
+  });
+
+  it('should reject replies to a comment on another entity', async () => {
+    const other = await createComment({ entity_type: 'Review', entity_id: reviewId, body: 'Review note' }, userId);
+
+    await expect(createComment({
+      entity_type: 'Issue',
+      entity_id: issueId,
+      parent_comment_id: other.id,
+      body: 'Misplaced reply'
+    }, userId)).rejects.toMatchObject({ code: 'NOT_FOUND', message: `Comment with id ${other.id} not found on this issue` });
+    await expect(createComment({
+      entity_type: 'Issue',
+      entity_id: issueId,
+      parent_comment_id: 99999,
+      body: 'Orphaned reply'
+    }, userId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should throw for a missing entity', async () => {
+    await expect(createComment({ entity_type: 'Violation', entity_id: 999, body: 'Hello' }, userId))
+      .rejects.toThrow(/Security violation with id 999 not found/);
+  });
+});
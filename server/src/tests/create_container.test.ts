@@ -21,8 +21,7 @@ const testInput: CreateContainerInput = {
   description: 'A test project for security analysis',
   type: 'Project',
   external_id: 'EXT-123',
-  external_system: 'Jira',
-  created_by: 1 // Will be set after creating test user
+  external_system: 'Jira'
 };
 
 describe('createContainer', () => {
@@ -37,8 +36,7 @@ describe('createContainer', () => {
       .execute();
     const userId = userResult[0].id;
 
-    const input = { ...testInput, created_by: userId };
-    const result = await createContainer(input);
+    const result = await createContainer(testInput, userId);
 
     // Basic field validation
     expect(result.name).toEqual('Test Security Project');
@@ -68,11 +66,10 @@ describe('createContainer', () => {
       description: null,
       type: 'Application',
       external_id: null,
-      external_system: null,
-      created_by: userId
+      external_system: null
     };
 
-    const result = await createContainer(minimalInput);
+    const result = await createContainer(minimalInput, userId);
 
     expect(result.name).toEqual('Minimal Container');
     expect(result.description).toBeNull();
@@ -92,8 +89,7 @@ describe('createContainer', () => {
       .execute();
     const userId = userResult[0].id;
 
-    const input = { ...testInput, created_by: userId };
-    const result = await createContainer(input);
+    const result = await createContainer(testInput, userId);
 
     // Query using proper drizzle syntax
     const containers = await db.select()
@@ -129,20 +125,17 @@ describe('createContainer', () => {
         description: `A test ${type.toLowerCase()}`,
         type,
         external_id: null,
-        external_system: null,
-        created_by: userId
+        external_system: null
       };
 
-      const result = await createContainer(input);
+      const result = await createContainer(input, userId);
       expect(result.type).toEqual(type);
       expect(result.name).toEqual(`Test ${type}`);
     }
   });
 
   it('should throw error when user does not exist', async () => {
-    const input = { ...testInput, created_by: 999 }; // Non-existent user ID
-
-    await expect(createContainer(input)).rejects.toThrow(/User with ID 999 does not exist/i);
+    await expect(createContainer(testInput, 999)).rejects.toThrow(/User with ID 999 does not exist/i);
   });
 
   it('should handle external system integration fields', async () => {
@@ -159,11 +152,10 @@ describe('createContainer', () => {
       description: 'Integrated with Azure DevOps',
       type: 'Project',
       external_id: 'AZ-456',
-      external_system: 'Azure DevOps',
-      created_by: userId
+      external_system: 'Azure DevOps'
     };
 
-    const result = await createContainer(azureInput);
+    const result = await createContainer(azureInput, userId);
 
     expect(result.external_id).toEqual('AZ-456');
     expect(result.external_system).toEqual('Azure DevOps');
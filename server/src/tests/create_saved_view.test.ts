@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, savedViewsTable, usersTable } from '../db/schema';
+import { createSavedViewInputSchema } from '../schema';
+import { createSavedView } from '../handlers/create_saved_view';
+import { eq } from 'drizzle-orm';
+
+describe('createSavedView', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const addAnalyst = async () => {
+    const [analyst] = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    return analyst;
+  };
+
+  it('should save a private issue view with its filter, sort and columns', async () => {
+    const analyst = await addAnalyst();
+
+    const view = await createSavedView(createSavedViewInputSchema.parse({
+      name: 'My criticals',
+      entity_type: 'Issue',
+      filter: { severity: 'Critical', created_after: '2024-01-01T00:00:00.000Z', query: 'assignee:me status:!Closed' },
+      sort: [{ field: 'risk_score' }, { field: 'title', direction: 'asc' }],
+      columns: ['title', 'severity', 'risk_score', 'title']
+    }), analyst);
+
+    expect(view).toMatchObject({
+      owner_id: analyst.id,
+      name: 'My criticals',
+      entity_type: 'Issue',
+      visibility: 'Private',
+      container_id: null,
+      filter: { severity: 'Critical', created_after: '2024-01-01T00:00:00.000Z', query: 'assignee:me status:!Closed' },
+      sort: [{ field: 'risk_score', direction: 'desc' }, { field: 'title', direction: 'asc' }],
+      columns: ['title', 'severity', 'risk_score'],
+      pinned: false
+    });
+
+    const stored = await db.select().from(savedViewsTable).where(eq(savedViewsTable.id, view.id)).execute();
+    expect(stored[0].filter).toEqual(view.filter);
+  });
+
+  it('should share team views with a container', async () => {
+    const analyst = await addAnalyst();
+    const [container] = await db.insert(containersTable)
+      .values({ name: 'Payments', type: 'Application', created_by: analyst.id })
+      .returning()
+      .execute();
+
+    const view = await createSavedView(createSavedViewInputSchema.parse({
+      name: 'Payments leaks', entity_type: 'Violation', visibility: 'Team', container_id: container.id, filter: { violation_type: 'DataLeak' }
+    }), analyst);
+    expect(view).toMatchObject({ visibility: 'Team', container_id: container.id, sort: [], columns: [] });
+
+    // Only Team views keep a container
+    const orgView = await createSavedView(createSavedViewInputSchema.parse({
+      name: 'Everything', entity_type: 'Violation', visibility: 'Organization', container_id: container.id
+    }), analyst);
+    expect(orgView.container_id).toBeNull();
+
+    await expect(createSavedView(createSavedViewInputSchema.parse({
+      name: 'Nowhere', entity_type: 'Violation', visibility: 'Team'
+    }), analyst)).rejects.toThrow('Team views need a container_id');
+    await expect(createSavedView(createSavedViewInputSchema.parse({
+      name: 'Gone', entity_type: 'Violation', visibility: 'Team', container_id: 999
+    }), analyst)).rejects.toThrow('Container with id 999 not found');
+  });
+
+  it('should check the filter, sort and columns against the entity type', async () => {
+    const analyst = await addAnalyst();
+
+    expect(() => createSavedViewInputSchema.parse({ name: 'Bad sort', entity_type: 'Violation', sort: [{ field: 'risk_score' }] }))
+      .toThrow();
+    expect(() => createSavedViewInputSchema.parse({ name: 'Bad column', entity_type: 'Issue', columns: ['incident_date'] }))
+      .toThrow();
+    expect(() => createSavedViewInputSchema.parse({ name: 'Bad filter', entity_type: 'Issue', filter: { severity: 'Severe' } }))
+      .toThrow();
+
+    await expect(createSavedView(createSavedViewInputSchema.parse({
+      name: 'Bad query', entity_type: 'Violation', filter: { query: 'risk>70' }
+    }), analyst)).rejects.toThrow("Invalid filter query: Unknown field 'risk'");
+  });
+});
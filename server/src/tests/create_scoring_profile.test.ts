@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { scoringProfilesTable, usersTable } from '../db/schema';
+import { createScoringProfileInputSchema, type CreateScoringProfileInput } from '../schema';
+import { createScoringProfile } from '../handlers/create_scoring_profile';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateScoringProfileInput = {
+  name: 'payments',
+  description: 'PCI scope weighs confidentiality and compliance higher',
+  confidentiality_weight: 0.4,
+  integrity_weight: 0.2,
+  availability_weight: 0.1,
+  compliance_weight: 0.25,
+  third_party_weight: 0.05,
+  critical_weight: 1,
+  high_weight: 0.7,
+  medium_weight: 0.4,
+  low_weight: 0.1
+};
+
+const createTestUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      username: 'manager',
+      email: 'manager@example.com',
+      full_name: 'Security Manager',
+      role: 'SecurityManager'
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('createScoringProfile', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create the first version of a profile', async () => {
+    const user = await createTestUser();
+
+    const result = await createScoringProfile(testInput, user.id);
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('payments');
+    expect(result.version).toEqual(1);
+    expect(result.confidentiality_weight).toBeCloseTo(0.4, 5);
+    expect(result.created_by).toEqual(user.id);
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should add a new version when the name already exists', async () => {
+    const user = await createTestUser();
+
+    await createScoringProfile(testInput, user.id);
+    const second = await createScoringProfile({ ...testInput, availability_weight: 0.3 }, user.id);
+    const other = await createScoringProfile({ ...testInput, name: 'internal' }, user.id);
+
+    expect(second.version).toEqual(2);
+    expect(other.version).toEqual(1);
+
+    const stored = await db.select()
+      .from(scoringProfilesTable)
+      .where(eq(scoringProfilesTable.name, 'payments'))
+      .execute();
+    expect(stored).toHaveLength(2);
+  });
+
+  it('should number concurrent versions of a name one after another', async () => {
+    const user = await createTestUser();
+
+    const created = await Promise.all([1, 2, 3].map(() => createScoringProfile(testInput, user.id)));
+
+    expect(created.map(profile => profile.version).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('should reject profiles without any impact weight', () => {
+    const parsed = createScoringProfileInputSchema.safeParse({
+      ...testInput,
+      confidentiality_weight: 0,
+      integrity_weight: 0,
+      availability_weight: 0,
+      compliance_weight: 0,
+      third_party_weight: 0
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('should reject names that are not slugs', () => {
+    expect(createScoringProfileInputSchema.safeParse({ ...testInput, name: 'Payments v2' }).success).toBe(false);
+  });
+});
@@ -17,8 +17,7 @@ const testUser = {
 const testContainer = {
   name: 'Test Container',
   description: 'A container for testing',
-  type: 'Project' as const,
-  created_by: 1
+  type: 'Project' as const
 };
 
 // Test input with all required fields
@@ -33,8 +32,7 @@ const testInput: CreateSecurityControlInput = {
   implementation_notes: 'Implemented using RBAC model with regular reviews',
   testing_frequency: 'Quarterly',
   last_tested: new Date('2024-01-15'),
-  container_id: 1,
-  created_by: 1
+  container_id: 1
 };
 
 describe('createSecurityControl', () => {
@@ -60,13 +58,12 @@ describe('createSecurityControl', () => {
 
     // Update test input with actual IDs
     testInput.container_id = containerId;
-    testInput.created_by = userId;
   });
 
   afterEach(resetDB);
 
   it('should create a security control with all fields', async () => {
-    const result = await createSecurityControl(testInput);
+    const result = await createSecurityControl(testInput, userId);
 
     // Basic field validation
     expect(result.name).toEqual('Access Control Policy');
@@ -89,7 +86,7 @@ describe('createSecurityControl', () => {
   });
 
   it('should save security control to database', async () => {
-    const result = await createSecurityControl(testInput);
+    const result = await createSecurityControl(testInput, userId);
 
     // Query using proper drizzle syntax
     const controls = await db.select()
@@ -124,11 +121,10 @@ describe('createSecurityControl', () => {
       implementation_notes: null,
       testing_frequency: null,
       last_tested: null,
-      container_id: containerId,
-      created_by: userId
+      container_id: containerId
     };
 
-    const result = await createSecurityControl(minimalInput);
+    const result = await createSecurityControl(minimalInput, userId);
 
     expect(result.name).toEqual('Minimal Control');
     expect(result.description).toBeNull();
@@ -151,7 +147,7 @@ describe('createSecurityControl', () => {
 
     for (const status of statuses) {
       const input = { ...testInput, implementation_status: status, name: `Control ${status}` };
-      const result = await createSecurityControl(input);
+      const result = await createSecurityControl(input, userId);
 
       expect(result.implementation_status).toEqual(status);
       expect(result.name).toEqual(`Control ${status}`);
@@ -170,7 +166,7 @@ describe('createSecurityControl', () => {
 
     for (const controlType of controlTypes) {
       const input = { ...testInput, control_type: controlType, name: `${controlType} Control` };
-      const result = await createSecurityControl(input);
+      const result = await createSecurityControl(input, userId);
 
       expect(result.control_type).toEqual(controlType);
       expect(result.name).toEqual(`${controlType} Control`);
@@ -182,7 +178,7 @@ describe('createSecurityControl', () => {
 
     for (const framework of frameworks) {
       const input = { ...testInput, framework_reference: framework, name: `${framework} Control` };
-      const result = await createSecurityControl(input);
+      const result = await createSecurityControl(input, userId);
 
       expect(result.framework_reference).toEqual(framework);
       expect(result.name).toEqual(`${framework} Control`);
@@ -192,37 +188,35 @@ describe('createSecurityControl', () => {
   it('should handle effectiveness rating edge cases', async () => {
     // Test minimum effectiveness rating (0)
     const minRatingInput = { ...testInput, effectiveness_rating: 0, name: 'Min Rating Control' };
-    const minResult = await createSecurityControl(minRatingInput);
+    const minResult = await createSecurityControl(minRatingInput, userId);
     expect(minResult.effectiveness_rating).toEqual(0);
 
     // Test maximum effectiveness rating (100)
     const maxRatingInput = { ...testInput, effectiveness_rating: 100, name: 'Max Rating Control' };
-    const maxResult = await createSecurityControl(maxRatingInput);
+    const maxResult = await createSecurityControl(maxRatingInput, userId);
     expect(maxResult.effectiveness_rating).toEqual(100);
 
     // Test decimal effectiveness rating
     const decimalInput = { ...testInput, effectiveness_rating: 75.75, name: 'Decimal Rating Control' };
-    const decimalResult = await createSecurityControl(decimalInput);
+    const decimalResult = await createSecurityControl(decimalInput, userId);
     expect(decimalResult.effectiveness_rating).toEqual(75.75);
   });
 
   it('should throw error for non-existent container', async () => {
     const invalidInput = { ...testInput, container_id: 999 };
 
-    expect(createSecurityControl(invalidInput)).rejects.toThrow(/Container with id 999 not found/i);
+    expect(createSecurityControl(invalidInput, userId)).rejects.toThrow(/Container with id 999 not found/i);
   });
 
   it('should throw error for non-existent user', async () => {
-    const invalidInput = { ...testInput, created_by: 999 };
-
-    expect(createSecurityControl(invalidInput)).rejects.toThrow(/User with id 999 not found/i);
+    expect(createSecurityControl(testInput, 999)).rejects.toThrow(/User with id 999 not found/i);
   });
 
   it('should handle date fields correctly', async () => {
     const testDate = new Date('2023-12-01T10:30:00Z');
     const input = { ...testInput, last_tested: testDate };
 
-    const result = await createSecurityControl(input);
+    const result = await createSecurityControl(input, userId);
 
     expect(result.last_tested).toEqual(testDate);
     expect(result.last_tested).toBeInstanceOf(Date);
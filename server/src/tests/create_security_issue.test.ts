@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { securityIssuesTable, containersTable, usersTable } from '../db/schema';
+import { securityIssuesTable, containersTable, usersTable, issueStatusHistoryTable } from '../db/schema';
 import { type CreateSecurityIssueInput } from '../schema';
 import { createSecurityIssue } from '../handlers/create_security_issue';
 import { eq } from 'drizzle-orm';
@@ -31,7 +31,6 @@ const baseTestInput: CreateSecurityIssueInput = {
   container_id: 0, // Will be set in beforeEach
   parent_issue_id: null,
   assigned_to: null,
-  created_by: 0, // Will be set in beforeEach
   is_automated_finding: false
 };
 
@@ -65,15 +64,14 @@ describe('createSecurityIssue', () => {
 
     testContainerId = containerResult[0].id;
 
-    // Update test input with actual IDs
+    // Update test input with actual container ID
     baseTestInput.container_id = testContainerId;
-    baseTestInput.created_by = testUserId;
   });
 
   afterEach(resetDB);
 
   it('should create a security issue with calculated risk score', async () => {
-    const result = await createSecurityIssue(baseTestInput);
+    const result = await createSecurityIssue(baseTestInput, testUserId);
 
     // Basic field validation
     expect(result.title).toEqual('Critical SQL Injection Vulnerability');
@@ -114,7 +112,7 @@ describe('createSecurityIssue', () => {
   });
 
   it('should save security issue to database', async () => {
-    const result = await createSecurityIssue(baseTestInput);
+    const result = await createSecurityIssue(baseTestInput, testUserId);
 
     // Query database directly
     const issues = await db.select()
@@ -135,7 +133,7 @@ describe('createSecurityIssue', () => {
 
   it('should update container risk score based on issue average', async () => {
     // Create first security issue
-    await createSecurityIssue(baseTestInput);
+    await createSecurityIssue(baseTestInput, testUserId);
 
     // Create second issue with different risk profile
     const secondIssue: CreateSecurityIssueInput = {
@@ -149,7 +147,7 @@ describe('createSecurityIssue', () => {
       third_party_risk: 10
     };
 
-    await createSecurityIssue(secondIssue);
+    await createSecurityIssue(secondIssue, testUserId);
 
     // Check updated container risk score
     const containers = await db.select()
@@ -174,7 +172,7 @@ describe('createSecurityIssue', () => {
       title: 'Security Epic - Web Application Vulnerabilities',
       hierarchy: 'Epic',
       severity: 'High'
-    });
+    }, testUserId);
 
     // Create child task
     const childIssue = await createSecurityIssue({
@@ -182,7 +180,7 @@ describe('createSecurityIssue', () => {
       title: 'Child Task - Fix SQL Injection',
       hierarchy: 'Task',
       parent_issue_id: parentIssue.id
-    });
+    }, testUserId);
 
     expect(childIssue.parent_issue_id).toEqual(parentIssue.id);
 
@@ -195,6 +193,51 @@ describe('createSecurityIssue', () => {
     expect(savedChild[0].parent_issue_id).toEqual(parentIssue.id);
   });
 
+  it('should reject a parent below the child in the hierarchy', async () => {
+    const task = await createSecurityIssue({ ...baseTestInput, hierarchy: 'Task' }, testUserId);
+
+    await expect(createSecurityIssue({
+      ...baseTestInput,
+      hierarchy: 'Epic',
+      parent_issue_id: task.id
+    }, testUserId)).rejects.toThrow('Task issues cannot be parents of Epic issues');
+
+    const story = await createSecurityIssue({ ...baseTestInput, hierarchy: 'Story' }, testUserId);
+    await expect(createSecurityIssue({
+      ...baseTestInput,
+      hierarchy: 'Story',
+      parent_issue_id: story.id
+    }, testUserId)).rejects.toThrow('Story issues cannot be parents of Story issues');
+  });
+
+  it('should reject a parent in another container', async () => {
+    const otherContainer = await db.insert(containersTable)
+      .values({
+        name: 'Other Application',
+        description: null,
+        type: 'Application',
+        created_by: testUserId
+      })
+      .returning()
+      .execute();
+
+    const epic = await createSecurityIssue({
+      ...baseTestInput,
+      hierarchy: 'Epic',
+      container_id: otherContainer[0].id
+    }, testUserId);
+
+    await expect(createSecurityIssue({
+      ...baseTestInput,
+      parent_issue_id: epic.id
+    }, testUserId)).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/belongs to a different container/) });
+  });
+
+  it('should reject a missing parent', async () => {
+    await expect(createSecurityIssue({ ...baseTestInput, parent_issue_id: 999 }, testUserId))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: 'Parent issue with id 999 not found' });
+  });
+
   it('should handle automated findings flag', async () => {
     const automatedIssue: CreateSecurityIssueInput = {
       ...baseTestInput,
@@ -202,7 +245,7 @@ describe('createSecurityIssue', () => {
       is_automated_finding: true
     };
 
-    const result = await createSecurityIssue(automatedIssue);
+    const result = await createSecurityIssue(automatedIssue, testUserId);
     expect(result.is_automated_finding).toBe(true);
   });
 
@@ -220,7 +263,7 @@ describe('createSecurityIssue', () => {
       assigned_to: null
     };
 
-    const result = await createSecurityIssue(minimalIssue);
+    const result = await createSecurityIssue(minimalIssue, testUserId);
 
     expect(result.mitre_attack_id).toBeNull();
     expect(result.mitre_attack_tactic).toBeNull();
@@ -244,7 +287,7 @@ describe('createSecurityIssue', () => {
       third_party_risk: 0
     };
 
-    const result = await createSecurityIssue(zeroImpactIssue);
+    const result = await createSecurityIssue(zeroImpactIssue, testUserId);
     expect(result.risk_score).toEqual(0);
   });
 
@@ -259,7 +302,7 @@ describe('createSecurityIssue', () => {
       third_party_risk: 100
     };
 
-    const result = await createSecurityIssue(maxImpactIssue);
+    const result = await createSecurityIssue(maxImpactIssue, testUserId);
     expect(result.risk_score).toEqual(100);
   });
 
@@ -282,7 +325,72 @@ describe('createSecurityIssue', () => {
       assigned_to: assigneeId
     };
 
-    const result = await createSecurityIssue(assignedIssue);
+    const result = await createSecurityIssue(assignedIssue, testUserId);
     expect(result.assigned_to).toEqual(assigneeId);
   });
-});
\ No newline at end of file
+
+  it('should derive severity and impacts from a CVSS vector', async () => {
+    const result = await createSecurityIssue({
+      ...baseTestInput,
+      severity: 'Low',
+      confidentiality_impact: 10,
+      attack_complexity: 'Unknown',
+      cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/E:P/RL:O/RC:C'
+    }, testUserId);
+
+    expect(result.cvss_version).toEqual('3.1');
+    expect(result.cvss_base_score).toEqual(9.8);
+    expect(result.cvss_temporal_score).toEqual(8.8);
+    expect(result.cvss_environmental_score).toEqual(8.8);
+    expect(result.severity).toEqual('High');
+    expect(result.confidentiality_impact).toEqual(100);
+    expect(result.integrity_impact).toEqual(100);
+    expect(result.availability_impact).toEqual(100);
+    expect(result.attack_complexity).toEqual('Low');
+    // Compliance and third-party impacts are not covered by CVSS
+    expect(result.compliance_impact).toEqual(80);
+    expect(result.third_party_risk).toEqual(40);
+    // 100 * .25 * 3 + 80 * .15 + 40 * .10
+    expect(result.risk_score).toEqual(91);
+  });
+
+  it('should not require a severity when a CVSS vector is given', async () => {
+    const result = await createSecurityIssue({
+      ...baseTestInput,
+      severity: undefined,
+      cvss_vector: 'CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N'
+    }, testUserId);
+
+    expect(result.cvss_version).toEqual('4.0');
+    expect(result.cvss_base_score).toEqual(9.3);
+    expect(result.severity).toEqual('Critical');
+  });
+
+  it('should require a severity without a CVSS vector', async () => {
+    await expect(createSecurityIssue({ ...baseTestInput, severity: undefined }, testUserId))
+      .rejects.toThrow(/Severity is required/);
+  });
+
+  it('should leave CVSS fields empty without a vector', async () => {
+    const result = await createSecurityIssue(baseTestInput, testUserId);
+
+    expect(result.cvss_vector).toBeNull();
+    expect(result.cvss_version).toBeNull();
+    expect(result.cvss_base_score).toBeNull();
+    expect(result.severity).toEqual('Critical');
+  });
+
+  it('should start the status history', async () => {
+    const result = await createSecurityIssue(baseTestInput, testUserId);
+
+    const history = await db.select()
+      .from(issueStatusHistoryTable)
+      .where(eq(issueStatusHistoryTable.issue_id, result.id))
+      .execute();
+
+    expect(history).toHaveLength(1);
+    expect(history[0].from_status).toBeNull();
+    expect(history[0].to_status).toEqual('Open');
+    expect(history[0].changed_by).toEqual(testUserId);
+  });
+});
@@ -49,11 +49,10 @@ describe('createSecurityReview', () => {
       document_name: 'security_arch.pdf',
       document_url: 'https://example.com/docs/security_arch.pdf',
       document_type: 'PDF',
-      container_id: container.id,
-      created_by: user.id
+      container_id: container.id
     };
 
-    const result = await createSecurityReview(testInput);
+    const result = await createSecurityReview(testInput, user.id);
 
     // Verify all fields are correctly set
     expect(result.title).toEqual('Security Architecture Review');
@@ -81,11 +80,10 @@ describe('createSecurityReview', () => {
       document_name: null,
       document_url: null,
       document_type: null,
-      container_id: null,
-      created_by: user.id
+      container_id: null
     };
 
-    const result = await createSecurityReview(testInput);
+    const result = await createSecurityReview(testInput, user.id);
 
     expect(result.title).toEqual('Basic Review');
     expect(result.description).toBeNull();
@@ -109,11 +107,10 @@ describe('createSecurityReview', () => {
       document_name: 'test.docx',
       document_url: 'https://example.com/test.docx',
       document_type: 'DOCX',
-      container_id: container.id,
-      created_by: user.id
+      container_id: container.id
     };
 
-    const result = await createSecurityReview(testInput);
+    const result = await createSecurityReview(testInput, user.id);
 
     // Query database to verify persistence
     const reviews = await db.select()
@@ -140,11 +137,10 @@ describe('createSecurityReview', () => {
       document_name: null,
       document_url: null,
       document_type: null,
-      container_id: null,
-      created_by: 999 // Non-existent user ID
+      container_id: null
     };
 
-    expect(createSecurityReview(testInput)).rejects.toThrow(/User with id 999 does not exist/i);
+    expect(createSecurityReview(testInput, 999)).rejects.toThrow(/User with id 999 does not exist/i);
   });
 
   it('should throw error when container does not exist', async () => {
@@ -156,11 +152,10 @@ describe('createSecurityReview', () => {
       document_name: null,
       document_url: null,
       document_type: null,
-      container_id: 999, // Non-existent container ID
-      created_by: user.id
+      container_id: 999 // Non-existent container ID
     };
 
-    expect(createSecurityReview(testInput)).rejects.toThrow(/Container with id 999 does not exist/i);
+    expect(createSecurityReview(testInput, user.id)).rejects.toThrow(/Container with id 999 does not exist/i);
   });
 
   it('should handle different document types correctly', async () => {
@@ -175,11 +170,10 @@ describe('createSecurityReview', () => {
         document_name: `test.${docType.toLowerCase()}`,
         document_url: `https://example.com/test.${docType.toLowerCase()}`,
         document_type: docType,
-        container_id: null,
-        created_by: user.id
+        container_id: null
       };
 
-      const result = await createSecurityReview(testInput);
+      const result = await createSecurityReview(testInput, user.id);
       expect(result.document_type).toEqual(docType);
       expect(result.title).toEqual(`Review for ${docType}`);
     }
@@ -194,11 +188,10 @@ describe('createSecurityReview', () => {
       document_name: null,
       document_url: null,
       document_type: null,
-      container_id: null,
-      created_by: user.id
+      container_id: null
     };
 
-    const result = await createSecurityReview(testInput);
+    const result = await createSecurityReview(testInput, user.id);
 
     // Verify default values
     expect(result.status).toEqual('Pending');
@@ -88,11 +88,10 @@ describe('createSecurityViolation', () => {
       remediation_steps: 'Immediate access revocation, patch deployment',
       container_id: testContainerId,
       related_issue_id: testIssueId,
-      assigned_to: assignedUserId,
-      created_by: testUserId
+      assigned_to: assignedUserId
     };
 
-    const result = await createSecurityViolation(testInput);
+    const result = await createSecurityViolation(testInput, testUserId);
 
     // Basic field validation
     expect(result.title).toEqual('Critical Security Breach');
@@ -127,11 +126,10 @@ describe('createSecurityViolation', () => {
       remediation_steps: null,
       container_id: null,
       related_issue_id: null,
-      assigned_to: null,
-      created_by: testUserId
+      assigned_to: null
     };
 
-    const result = await createSecurityViolation(testInput);
+    const result = await createSecurityViolation(testInput, testUserId);
 
     expect(result.title).toEqual('Policy Violation');
     expect(result.description).toEqual(testInput.description);
@@ -163,11 +161,10 @@ describe('createSecurityViolation', () => {
       remediation_steps: 'Update privacy controls, notify DPO',
       container_id: testContainerId,
       related_issue_id: testIssueId,
-      assigned_to: assignedUserId,
-      created_by: testUserId
+      assigned_to: assignedUserId
     };
 
-    const result = await createSecurityViolation(testInput);
+    const result = await createSecurityViolation(testInput, testUserId);
 
     // Query database directly to verify save
     const violations = await db.select()
@@ -203,11 +200,10 @@ describe('createSecurityViolation', () => {
       remediation_steps: null,
       container_id: null,
       related_issue_id: null,
-      assigned_to: null,
-      created_by: 99999 // Non-existent user ID
+      assigned_to: null
     };
 
-    await expect(createSecurityViolation(testInput)).rejects.toThrow(/User with ID 99999 does not exist/i);
+    await expect(createSecurityViolation(testInput, 99999)).rejects.toThrow(/User with ID 99999 does not exist/i);
   });
 
   it('should throw error when container_id does not exist', async () => {
@@ -223,11 +219,10 @@ describe('createSecurityViolation', () => {
       remediation_steps: null,
       container_id: 99999, // Non-existent container ID
       related_issue_id: null,
-      assigned_to: null,
-      created_by: testUserId
+      assigned_to: null
     };
 
-    await expect(createSecurityViolation(testInput)).rejects.toThrow(/Container with ID 99999 does not exist/i);
+    await expect(createSecurityViolation(testInput, testUserId)).rejects.toThrow(/Container with ID 99999 does not exist/i);
   });
 
   it('should throw error when related_issue_id does not exist', async () => {
@@ -243,11 +238,10 @@ describe('createSecurityViolation', () => {
       remediation_steps: null,
       container_id: testContainerId,
       related_issue_id: 99999, // Non-existent issue ID
-      assigned_to: null,
-      created_by: testUserId
+      assigned_to: null
     };
 
-    await expect(createSecurityViolation(testInput)).rejects.toThrow(/Security issue with ID 99999 does not exist/i);
+    await expect(createSecurityViolation(testInput, testUserId)).rejects.toThrow(/Security issue with ID 99999 does not exist/i);
   });
 
   it('should throw error when assigned_to user does not exist', async () => {
@@ -263,11 +257,10 @@ describe('createSecurityViolation', () => {
       remediation_steps: null,
       container_id: testContainerId,
       related_issue_id: testIssueId,
-      assigned_to: 99999, // Non-existent user ID
-      created_by: testUserId
+      assigned_to: 99999 // Non-existent user ID
     };
 
-    await expect(createSecurityViolation(testInput)).rejects.toThrow(/Assigned user with ID 99999 does not exist/i);
+    await expect(createSecurityViolation(testInput, testUserId)).rejects.toThrow(/Assigned user with ID 99999 does not exist/i);
   });
 
   it('should handle different violation types and severities', async () => {
@@ -284,8 +277,7 @@ describe('createSecurityViolation', () => {
         remediation_steps: 'API secured, affected customers notified',
         container_id: testContainerId,
         related_issue_id: null,
-        assigned_to: assignedUserId,
-        created_by: testUserId
+        assigned_to: assignedUserId
       },
       {
         title: 'Policy Violation - Low Severity',
@@ -299,13 +291,12 @@ describe('createSecurityViolation', () => {
         remediation_steps: 'Password reset required, user training',
         container_id: null,
         related_issue_id: null,
-        assigned_to: null,
-        created_by: testUserId
+        assigned_to: null
       }
     ];
 
     for (const input of testInputs) {
-      const result = await createSecurityViolation(input);
+      const result = await createSecurityViolation(input, testUserId);
       
       expect(result.title).toEqual(input.title);
       expect(result.violation_type).toEqual(input.violation_type);
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, usersTable } from '../db/schema';
+import { createSiemMappingRuleInputSchema } from '../schema';
+import { createSiemMappingRule } from '../handlers/create_siem_mapping_rule';
+
+describe('createSiemMappingRule', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const addAdmin = async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+    return admin;
+  };
+
+  it('should create a rule with defaults for what is left out', async () => {
+    const admin = await addAdmin();
+    const [container] = await db.insert(containersTable)
+      .values({ name: 'Perimeter', description: null, type: 'System', created_by: admin.id })
+      .returning()
+      .execute();
+
+    const rule = await createSiemMappingRule(createSiemMappingRuleInputSchema.parse({
+      name: 'Firewall denies',
+      vendor: 'Cisco',
+      container_id: container.id,
+      correlation_fields: ['event_id', 'source', 'event_id']
+    }), admin.id);
+
+    expect(rule).toMatchObject({
+      name: 'Firewall denies',
+      priority: 100,
+      is_active: true,
+      format: null,
+      vendor: 'Cisco',
+      event_pattern: null,
+      action: 'Violation',
+      violation_type: 'SecurityBreach',
+      severity: null,
+      container_id: container.id,
+      correlation_fields: ['event_id', 'source'],
+      correlation_window_minutes: 60,
+      created_by: admin.id,
+      updated_by: admin.id
+    });
+    expect(rule.id).toBeDefined();
+  });
+
+  it('should reject invalid patterns and missing containers', async () => {
+    const admin = await addAdmin();
+
+    expect(() => createSiemMappingRuleInputSchema.parse({ name: 'Broken', event_pattern: '([' }))
+      .toThrow('Event pattern must be a valid regular expression');
+    await expect(createSiemMappingRule(createSiemMappingRuleInputSchema.parse({ name: 'Orphan', container_id: 999 }), admin.id))
+      .rejects.toThrow('Container with id 999 not found');
+  });
+});
@@ -12,6 +12,7 @@ const testInput: CreateUserInput = {
   email: 'test@example.com',
   full_name: 'Test User',
   role: 'SecurityAnalyst',
+  password: 'correct-horse-battery',
   is_active: true
 };
 
@@ -59,6 +60,7 @@ describe('createUser', () => {
       email: 'default@example.com',
       full_name: 'Default User',
       role: 'Viewer',
+      password: 'correct-horse-battery',
       is_active: true // Zod default is applied
     };
 
@@ -75,6 +77,7 @@ describe('createUser', () => {
       email: 'admin@example.com',
       full_name: 'Admin User',
       role: 'Admin',
+      password: 'correct-horse-battery',
       is_active: true
     };
 
@@ -83,6 +86,7 @@ describe('createUser', () => {
       email: 'manager@example.com',
       full_name: 'Manager User',
       role: 'SecurityManager',
+      password: 'correct-horse-battery',
       is_active: true
     };
 
@@ -106,6 +110,7 @@ describe('createUser', () => {
       email: 'inactive@example.com',
       full_name: 'Inactive User',
       role: 'Viewer',
+      password: 'correct-horse-battery',
       is_active: false
     };
 
@@ -132,6 +137,7 @@ describe('createUser', () => {
       email: 'different@example.com',
       full_name: 'Different User',
       role: 'Viewer',
+      password: 'correct-horse-battery',
       is_active: true
     };
 
@@ -148,6 +154,7 @@ describe('createUser', () => {
       email: 'test@example.com', // Same email
       full_name: 'Different User',
       role: 'Viewer',
+      password: 'correct-horse-battery',
       is_active: true
     };
 
@@ -164,6 +171,7 @@ describe('createUser', () => {
         email: `user${i}@example.com`,
         full_name: `User ${i}`,
         role: role,
+        password: 'correct-horse-battery',
         is_active: true
       };
 
@@ -178,4 +186,19 @@ describe('createUser', () => {
     const createdRoles = allUsers.map(u => u.role).sort();
     expect(createdRoles).toEqual(['Admin', 'SecurityAnalyst', 'SecurityManager', 'Viewer']);
   });
+
+  it('should store a password hash instead of the plain password', async () => {
+    const result = await createUser(testInput);
+
+    expect((result as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+
+    expect(users[0].password_hash).toBeDefined();
+    expect(users[0].password_hash).not.toContain('correct-horse-battery');
+    expect(users[0].password_hash).toMatch(/^scrypt\$/);
+  });
 });
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, webhookSubscriptionsTable } from '../db/schema';
+import { createWebhookSubscriptionInputSchema } from '../schema';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+
+describe('createWebhookSubscription', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should store the subscription without returning its secret', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+
+    const subscription = await createWebhookSubscription(createWebhookSubscriptionInputSchema.parse({
+      name: 'SIEM',
+      url: 'https://siem.example.com/hooks/primesec',
+      secret: 'a-very-long-shared-secret',
+      events: ['issue.created', 'violation.created', 'issue.created']
+    }), admin.id);
+
+    expect(subscription).toMatchObject({
+      name: 'SIEM',
+      url: 'https://siem.example.com/hooks/primesec',
+      events: ['issue.created', 'violation.created'],
+      is_active: true,
+      created_by: admin.id,
+      updated_by: admin.id
+    });
+    expect(subscription).not.toHaveProperty('secret');
+
+    const [stored] = await db.select().from(webhookSubscriptionsTable).execute();
+    expect(stored.id).toEqual(subscription.id);
+    expect(stored.secret).toEqual('a-very-long-shared-secret');
+  });
+
+  it('should reject unusable subscriptions', () => {
+    const valid = {
+      name: 'SIEM',
+      url: 'https://siem.example.com/hooks/primesec',
+      secret: 'a-very-long-shared-secret',
+      events: ['issue.created']
+    };
+
+    expect(createWebhookSubscriptionInputSchema.safeParse(valid).success).toBe(true);
+    expect(createWebhookSubscriptionInputSchema.safeParse({ ...valid, url: 'ftp://siem.example.com/hooks' }).success).toBe(false);
+    expect(createWebhookSubscriptionInputSchema.safeParse({ ...valid, secret: 'short' }).success).toBe(false);
+    expect(createWebhookSubscriptionInputSchema.safeParse({ ...valid, events: [] }).success).toBe(false);
+    expect(createWebhookSubscriptionInputSchema.safeParse({ ...valid, events: ['issue.deleted'] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'bun:test';
+import { assessCvssVector, cvssSeverity, validateCvssVector } from '../cvss/cvss';
+import { parseCvss31Vector, roundUp, scoreCvss31 } from '../cvss/cvss31';
+import { parseCvss40Vector, scoreCvss40 } from '../cvss/cvss40';
+import { createSecurityIssueInputSchema } from '../schema';
+
+const score31 = (vector: string) => scoreCvss31(parseCvss31Vector(vector));
+const score40 = (vector: string) => scoreCvss40(parseCvss40Vector(vector));
+
+describe('CVSS v3.1', () => {
+  it('should compute base scores', () => {
+    expect(score31('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H').base_score).toEqual(9.8);
+    expect(score31('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N').base_score).toEqual(6.1);
+    expect(score31('CVSS:3.1/AV:L/AC:H/PR:L/UI:N/S:C/C:N/I:N/A:N').base_score).toEqual(0);
+  });
+
+  it('should compute temporal scores', () => {
+    const scores = score31('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/E:P/RL:O/RC:C');
+
+    expect(scores).toEqual({ base_score: 9.8, temporal_score: 8.8, environmental_score: 8.8 });
+  });
+
+  it('should compute environmental scores', () => {
+    const scores = score31('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/E:P/RL:O/RC:C/CR:L/IR:L/AR:L/MAV:A');
+
+    expect(scores).toEqual({ base_score: 9.8, temporal_score: 8.8, environmental_score: 6.2 });
+  });
+
+  it('should round up to one decimal', () => {
+    expect(roundUp(4.02)).toEqual(4.1);
+    expect(roundUp(4.0)).toEqual(4.0);
+    // 0.1 + 0.2 is 0.30000000000000004 in floating point
+    expect(roundUp(0.1 + 0.2)).toEqual(0.3);
+  });
+
+  it('should reject malformed vectors', () => {
+    expect(() => parseCvss31Vector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H')).toThrow(/missing base metrics: A/);
+    expect(() => parseCvss31Vector('CVSS:3.1/AV:X/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toThrow(/Invalid value "X" for CVSS v3.1 metric AV/);
+    expect(() => parseCvss31Vector('CVSS:3.1/AV:N/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toThrow(/AV is defined more than once/);
+    expect(() => parseCvss31Vector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/ZZ:1')).toThrow(/Unknown CVSS v3.1 metric "ZZ:1"/);
+  });
+});
+
+describe('CVSS v4.0', () => {
+  it('should compute base scores from the MacroVector table', () => {
+    expect(score40('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N').base_score).toEqual(9.3);
+    expect(score40('CVSS:4.0/AV:L/AC:L/AT:N/PR:L/UI:N/VC:H/VI:L/VA:N/SC:N/SI:N/SA:N').base_score).toEqual(6.9);
+  });
+
+  it('should round interpolated scores half up', () => {
+    // MacroVector 111200 (6.1) less a mean distance of 0.45
+    expect(score40('CVSS:4.0/AV:N/AC:H/AT:N/PR:H/UI:A/VC:H/VI:L/VA:N/SC:L/SI:N/SA:N').base_score).toEqual(5.7);
+  });
+
+  it('should score threat and environmental metrics separately', () => {
+    const threat = score40('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N/E:U');
+    expect(threat).toEqual({ base_score: 9.3, threat_score: 8.1, environmental_score: 8.1 });
+
+    const environmental = score40('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N/E:P/CR:L/IR:L/AR:L');
+    expect(environmental.base_score).toEqual(9.3);
+    expect(environmental.environmental_score).toEqual(7.9);
+  });
+
+  it('should score vectors without impact as zero', () => {
+    expect(score40('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:N/VI:N/VA:N/SC:N/SI:N/SA:N').base_score).toEqual(0);
+  });
+
+  it('should reject malformed vectors', () => {
+    expect(() => parseCvss40Vector('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H')).toThrow(/missing base metrics: SC, SI, SA/);
+    expect(() => parseCvss40Vector('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:S/SA:N')).toThrow(/metric SI/);
+  });
+});
+
+describe('assessCvssVector', () => {
+  it('should derive severity, impacts and attack complexity from v3.1', () => {
+    const assessment = assessCvssVector(' CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:H/I:L/A:N ');
+
+    expect(assessment.version).toEqual('3.1');
+    expect(assessment.vector).toEqual('CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:H/I:L/A:N');
+    expect(assessment.base_score).toEqual(6.5);
+    expect(assessment.severity).toEqual('Medium');
+    expect(assessment.confidentiality_impact).toEqual(100);
+    expect(assessment.integrity_impact).toEqual(50);
+    expect(assessment.availability_impact).toEqual(0);
+    expect(assessment.attack_complexity).toEqual('High');
+  });
+
+  it('should use the worst of vulnerable and subsequent system impacts for v4.0', () => {
+    const assessment = assessCvssVector('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:L/VI:N/VA:N/SC:N/SI:N/SA:H');
+
+    expect(assessment.version).toEqual('4.0');
+    expect(assessment.confidentiality_impact).toEqual(50);
+    expect(assessment.integrity_impact).toEqual(0);
+    expect(assessment.availability_impact).toEqual(100);
+    expect(assessment.attack_complexity).toEqual('Low');
+  });
+
+  it('should rate severity from the environmental score', () => {
+    const assessment = assessCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/E:P/RL:O/RC:C/CR:L/IR:L/AR:L/MAV:A');
+
+    expect(assessment.base_score).toEqual(9.8);
+    expect(assessment.severity).toEqual('Medium');
+  });
+
+  it('should map the rating scale onto issue severities', () => {
+    expect(cvssSeverity(9.0)).toEqual('Critical');
+    expect(cvssSeverity(8.9)).toEqual('High');
+    expect(cvssSeverity(4.0)).toEqual('Medium');
+    expect(cvssSeverity(3.9)).toEqual('Low');
+    expect(cvssSeverity(0)).toEqual('Low');
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(validateCvssVector('CVSS:3.0/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toMatch(/Unsupported CVSS vector/);
+    expect(validateCvssVector('AV:N/AC:L/Au:N/C:C/I:C/A:C')).toMatch(/Unsupported CVSS vector/);
+    expect(validateCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toBeNull();
+  });
+
+  it('should surface vector errors through the input schema', () => {
+    const result = createSecurityIssueInputSchema.safeParse({
+      title: 'Bad vector',
+      description: 'Vector with an invalid metric value',
+      classification: 'Vulnerability',
+      hierarchy: 'Task',
+      mitre_attack_id: null,
+      mitre_attack_tactic: null,
+      mitre_attack_technique: null,
+      linddun_category: null,
+      attack_complexity: null,
+      cvss_vector: 'CVSS:3.1/AV:Q/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+      threat_modeling_notes: null,
+      compensating_controls: null,
+      container_id: 1,
+      parent_issue_id: null,
+      assigned_to: null
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.issues.map(issue => issue.message)).toEqual([
+      'Invalid value "Q" for CVSS v3.1 metric AV'
+    ]);
+  });
+});
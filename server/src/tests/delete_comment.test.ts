@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { commentsTable, usersTable } from '../db/schema';
+import { deleteComment } from '../handlers/delete_comment';
+import { eq } from 'drizzle-orm';
+
+const createUser = async (username: string, role: 'Admin' | 'SecurityAnalyst' | 'SecurityManager' | 'Viewer') => {
+  const result = await db.insert(usersTable)
+    .values({ username, email: `${username}@example.com`, full_name: username, role })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestComment = async (authorId: number) => {
+  const result = await db.insert(commentsTable)
+    .values({ entity_type: 'Violation', entity_id: 1, body: 'Contains a password by mistake', author_id: authorId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('deleteComment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should blank the body and keep the row', async () => {
+    const author = await createUser('author', 'SecurityAnalyst');
+    const comment = await createTestComment(author.id);
+
+    const result = await deleteComment(comment.id, author);
+
+    expect(result.body).toEqual('');
+    expect(result.deleted_at).toBeInstanceOf(Date);
+
+    const saved = await db.select().from(commentsTable).where(eq(commentsTable.id, comment.id)).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].body).toEqual('');
+  });
+
+  it('should require moderation rights for other people\'s comments', async () => {
+    const author = await createUser('author', 'SecurityAnalyst');
+    const colleague = await createUser('colleague', 'SecurityAnalyst');
+    const manager = await createUser('manager', 'SecurityManager');
+    const comment = await createTestComment(author.id);
+
+    await expect(deleteComment(comment.id, colleague)).rejects.toThrow(/comments:moderate/);
+
+    const result = await deleteComment(comment.id, manager);
+    expect(result.deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should throw for missing or already deleted comments', async () => {
+    const author = await createUser('author', 'SecurityAnalyst');
+    const comment = await createTestComment(author.id);
+    await deleteComment(comment.id, author);
+
+    await expect(deleteComment(comment.id, author)).rejects.toThrow(`Comment with id ${comment.id} not found`);
+    await expect(deleteComment(999, author)).rejects.toThrow('Comment with id 999 not found');
+  });
+});
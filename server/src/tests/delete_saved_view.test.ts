@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { savedViewPinsTable, savedViewsTable, usersTable } from '../db/schema';
+import { deleteSavedView } from '../handlers/delete_saved_view';
+
+describe('deleteSavedView', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the view and its pins', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', full_name: 'Owner', role: 'Viewer' },
+        { username: 'other', email: 'other@example.com', full_name: 'Other', role: 'Viewer' }
+      ])
+      .returning()
+      .execute();
+    const owner = { id: users[0].id, role: 'Viewer' as const };
+    const other = { id: users[1].id, role: 'Viewer' as const };
+    const [view] = await db.insert(savedViewsTable)
+      .values({ owner_id: owner.id, name: 'Shared', entity_type: 'Issue', visibility: 'Organization', filter: {}, sort: [], columns: [] })
+      .returning()
+      .execute();
+    await db.insert(savedViewPinsTable).values({ view_id: view.id, user_id: other.id }).execute();
+
+    await expect(deleteSavedView(view.id, other)).rejects.toThrow('Only the owner of a saved view can change it');
+
+    const deleted = await deleteSavedView(view.id, owner);
+
+    expect(deleted).toMatchObject({ id: view.id, name: 'Shared', pinned: false });
+    expect(await db.select().from(savedViewsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(savedViewPinsTable).execute()).toHaveLength(0);
+    await expect(deleteSavedView(view.id, owner)).rejects.toThrow(`Saved view with id ${view.id} not found`);
+  });
+});
@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { siemMappingRulesTable, usersTable } from '../db/schema';
+import { deleteSiemMappingRule } from '../handlers/delete_siem_mapping_rule';
+
+describe('deleteSiemMappingRule', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the rule', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+    const [created] = await db.insert(siemMappingRulesTable)
+      .values({ name: 'Firewall', correlation_fields: ['event_id'], created_by: admin.id })
+      .returning()
+      .execute();
+
+    const deleted = await deleteSiemMappingRule(created.id);
+
+    expect(deleted.id).toEqual(created.id);
+    expect(await db.select().from(siemMappingRulesTable).execute()).toHaveLength(0);
+  });
+
+  it('should throw for a missing rule', async () => {
+    await expect(deleteSiemMappingRule(999)).rejects.toThrow('SIEM mapping rule with id 999 not found');
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { deleteWebhookSubscription } from '../handlers/delete_webhook_subscription';
+
+describe('deleteWebhookSubscription', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the subscription and its delivery log', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+    const [subscription] = await db.insert(webhookSubscriptionsTable)
+      .values({ name: 'SIEM', url: 'https://siem.example.com/hooks', secret: 'siem-shared-secret', events: ['issue.created'], created_by: admin.id })
+      .returning()
+      .execute();
+    await db.insert(webhookDeliveriesTable)
+      .values({ subscription_id: subscription.id, event_id: 'evt-1', event_type: 'issue.created', payload: {} })
+      .execute();
+
+    const deleted = await deleteWebhookSubscription(subscription.id);
+
+    expect(deleted.id).toEqual(subscription.id);
+    expect(await db.select().from(webhookSubscriptionsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(webhookDeliveriesTable).execute()).toHaveLength(0);
+  });
+
+  it('should throw for a missing subscription', async () => {
+    await expect(deleteWebhookSubscription(999)).rejects.toThrow('Webhook subscription with id 999 not found');
+  });
+});
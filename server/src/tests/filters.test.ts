@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityIssuesTable, securityViolationsTable, usersTable } from '../db/schema';
+import { FilterQueryError, parseFilterQuery, type FilterQueryIssue } from '../filters/parse';
+import { getSecurityIssues } from '../handlers/get_security_issues';
+import { getSecurityViolations } from '../handlers/get_security_violations';
+
+const DAY_MS = 86_400_000;
+
+// The structured problems a query is rejected with
+const filterErrors = async (call: () => Promise<unknown>): Promise<FilterQueryIssue[]> => {
+  try {
+    await call();
+  } catch (error) {
+    expect(error).toBeInstanceOf(TRPCError);
+    expect((error as TRPCError).code).toEqual('BAD_REQUEST');
+    expect((error as TRPCError).cause).toBeInstanceOf(FilterQueryError);
+    return ((error as TRPCError).cause as FilterQueryError).issues;
+  }
+  throw new Error('Expected the query to be rejected');
+};
+
+describe('parseFilterQuery', () => {
+  it('should split a query into field and text terms', () => {
+    const { terms, issues } = parseFilterQuery('severity:Critical,High status:!Closed risk>70 created:>-30d log4j');
+
+    expect(issues).toEqual([]);
+    expect(terms).toEqual([
+      {
+        kind: 'field', field: 'severity', operator: ':', negated: false, position: 0, length: 22,
+        values: [{ text: 'Critical', position: 9, length: 8 }, { text: 'High', position: 18, length: 4 }]
+      },
+      {
+        kind: 'field', field: 'status', operator: ':', negated: true, position: 23, length: 14,
+        values: [{ text: 'Closed', position: 31, length: 6 }]
+      },
+      {
+        kind: 'field', field: 'risk', operator: '>', negated: false, position: 38, length: 7,
+        values: [{ text: '70', position: 43, length: 2 }]
+      },
+      {
+        kind: 'field', field: 'created', operator: '>', negated: false, position: 46, length: 13,
+        values: [{ text: '-30d', position: 55, length: 4 }]
+      },
+      { kind: 'text', text: 'log4j', negated: false, position: 60, length: 5 }
+    ]);
+  });
+
+  it('should read quoted values and negated terms', () => {
+    const { terms, issues } = parseFilterQuery('-assignee:"jane doe",me "remote code"');
+
+    expect(issues).toEqual([]);
+    expect(terms[0]).toMatchObject({
+      kind: 'field', field: 'assignee', negated: true,
+      values: [{ text: 'jane doe', position: 10, length: 10 }, { text: 'me', position: 21, length: 2 }]
+    });
+    expect(terms[1]).toMatchObject({ kind: 'text', text: 'remote code', negated: false });
+  });
+
+  it('should report every malformed term with its position', () => {
+    const { terms, issues } = parseFilterQuery('status: risk>=1,2 "open title:x');
+
+    expect(issues).toEqual([
+      { message: 'Expected a value for status', position: 7, length: 0 },
+      { message: 'A >= comparison takes a single value', position: 16, length: 1 },
+      { message: 'Unterminated quote', position: 18, length: 13 }
+    ]);
+    expect(terms).toEqual([]);
+  });
+});
+
+describe('filter queries', () => {
+  let userId: number;
+  let otherUserId: number;
+  let containerId: number;
+  let otherContainerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' },
+        { username: 'jdoe', email: 'jdoe@example.com', full_name: 'Jane Doe', role: 'SecurityAnalyst' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    otherUserId = users[1].id;
+
+    const containers = await db.insert(containersTable)
+      .values([
+        { name: 'Payments', type: 'Application', created_by: userId },
+        { name: 'Identity Platform', type: 'Service', created_by: userId }
+      ])
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+    otherContainerId = containers[1].id;
+  });
+
+  afterEach(resetDB);
+
+  const createIssue = async (title: string, values: Partial<typeof securityIssuesTable.$inferInsert> = {}) => {
+    const issue = await db.insert(securityIssuesTable)
+      .values({
+        title,
+        description: `${title} description`,
+        severity: 'Medium',
+        classification: 'Vulnerability',
+        hierarchy: 'Task',
+        container_id: containerId,
+        created_by: userId,
+        ...values
+      })
+      .returning()
+      .execute();
+    return issue[0].id;
+  };
+
+  const issueTitles = async (query: string): Promise<string[]> => {
+    const { items: issues } = await getSecurityIssues({ query }, { id: userId, role: 'SecurityAnalyst' });
+    return issues.map(issue => issue.title).sort();
+  };
+
+  it('should combine terms from the example query', async () => {
+    const now = Date.now();
+    await createIssue('Match', {
+      severity: 'Critical', status: 'In-progress', risk_score: 85, mitre_attack_id: 'T1190.001', assigned_to: userId
+    });
+    await createIssue('Closed', { severity: 'Critical', status: 'Closed', risk_score: 85, mitre_attack_id: 'T1190', assigned_to: userId });
+    await createIssue('Low risk', { severity: 'High', risk_score: 40, mitre_attack_id: 'T1190', assigned_to: userId });
+    await createIssue('Other technique', { severity: 'High', risk_score: 90, mitre_attack_id: 'T11900', assigned_to: userId });
+    await createIssue('Someone else', { severity: 'High', risk_score: 90, mitre_attack_id: 'T1190', assigned_to: otherUserId });
+    await createIssue('Medium', { severity: 'Medium', risk_score: 90, mitre_attack_id: 'T1190', assigned_to: userId });
+    await createIssue('Old', {
+      severity: 'High', risk_score: 90, mitre_attack_id: 'T1190', assigned_to: userId, created_at: new Date(now - 60 * DAY_MS)
+    });
+
+    expect(await issueTitles('severity:Critical,High status:!Closed risk>70 mitre:T1190 assignee:me created:>-30d'))
+      .toEqual(['Match']);
+  });
+
+  it('should compare ordered enums, numbers and ranges', async () => {
+    await createIssue('Critical', { severity: 'Critical', risk_score: 95 });
+    await createIssue('High', { severity: 'High', risk_score: 70 });
+    await createIssue('Low', { severity: 'Low', risk_score: 10 });
+
+    expect(await issueTitles('severity>=High')).toEqual(['Critical', 'High']);
+    expect(await issueTitles('sev:<medium')).toEqual(['Low']);
+    expect(await issueTitles('risk:60..80')).toEqual(['High']);
+    expect(await issueTitles('risk:70..')).toEqual(['Critical', 'High']);
+    expect(await issueTitles('risk<=70')).toEqual(['High', 'Low']);
+  });
+
+  it('should match dates as whole days, timestamps and ranges', async () => {
+    await createIssue('March', { created_at: new Date('2024-03-15T10:00:00Z') });
+    await createIssue('April', { created_at: new Date('2024-04-01T00:00:00Z') });
+    await createIssue('May', { created_at: new Date('2024-05-20T23:59:00Z') });
+
+    expect(await issueTitles('created:2024-03-15')).toEqual(['March']);
+    expect(await issueTitles('created>2024-03-15')).toEqual(['April', 'May']);
+    expect(await issueTitles('created<=2024-04-01')).toEqual(['April', 'March']);
+    expect(await issueTitles('created:2024-03-01..2024-04-01')).toEqual(['April', 'March']);
+    expect(await issueTitles('created:<2024-04-01T00:00:00Z')).toEqual(['March']);
+  });
+
+  it('should resolve users and containers by name, id or keyword', async () => {
+    await createIssue('Mine', { assigned_to: userId });
+    await createIssue('Theirs', { assigned_to: otherUserId, container_id: otherContainerId });
+    await createIssue('Unassigned');
+
+    expect(await issueTitles('assignee:JDOE')).toEqual(['Theirs']);
+    expect(await issueTitles(`assignee:${userId},none`)).toEqual(['Mine', 'Unassigned']);
+    expect(await issueTitles('container:"identity platform"')).toEqual(['Theirs']);
+    expect(await issueTitles(`container:${containerId}`)).toEqual(['Mine', 'Unassigned']);
+  });
+
+  it('should keep rows with unset columns when a term is negated', async () => {
+    await createIssue('Mine', { assigned_to: userId, package_name: 'log4j-core' });
+    await createIssue('Unassigned', { package_name: 'openssl' });
+    await createIssue('No package', { assigned_to: otherUserId });
+
+    expect(await issueTitles('assignee:!me')).toEqual(['No package', 'Unassigned']);
+    expect(await issueTitles('-package:log4j*')).toEqual(['No package', 'Unassigned']);
+    expect(await issueTitles('package:LOG4J*')).toEqual(['Mine']);
+  });
+
+  it('should match free text against titles and descriptions', async () => {
+    await createIssue('Remote code execution in parser');
+    await createIssue('Weak ciphers', { description: 'Allows 100% of clients to downgrade' });
+
+    expect(await issueTitles('remote')).toEqual(['Remote code execution in parser']);
+    expect(await issueTitles('"100%"')).toEqual(['Weak ciphers']);
+    expect(await issueTitles('-remote')).toEqual(['Weak ciphers']);
+  });
+
+  it('should combine with the fixed filter fields', async () => {
+    await createIssue('Payments critical', { severity: 'Critical' });
+    await createIssue('Identity critical', { severity: 'Critical', container_id: otherContainerId });
+
+    const { items: issues } = await getSecurityIssues({ container_id: otherContainerId, query: 'severity:Critical' });
+
+    expect(issues.map(issue => issue.title)).toEqual(['Identity critical']);
+  });
+
+  it('should reject queries with structured errors', async () => {
+    const issues = await filterErrors(() =>
+      getSecurityIssues({ query: 'sevrity:High severity:Hgh risk>high status>Open created:yesterday' }));
+
+    expect(issues).toEqual([
+      {
+        message: expect.stringContaining("Unknown field 'sevrity'; expected severity, status, classification"),
+        position: 0,
+        length: 7
+      },
+      { message: "Unknown severity 'Hgh'; expected Low, Medium, High or Critical", position: 22, length: 3 },
+      { message: 'Expected a number for risk', position: 31, length: 4 },
+      { message: 'status cannot be compared with >', position: 36, length: 11 },
+      {
+        message: 'Expected a date such as 2024-05-01 or a time ago such as -30d for created',
+        position: 56,
+        length: 9
+      }
+    ]);
+  });
+
+  it('should need a signed in user for me', async () => {
+    const issues = await filterErrors(() => getSecurityIssues({ query: 'assignee:me' }));
+
+    expect(issues).toEqual([{ message: 'assignee:me needs a signed in user', position: 9, length: 2 }]);
+  });
+
+  it('should filter violations with their own fields', async () => {
+    const violation = {
+      description: 'Found by monitoring',
+      incident_date: new Date('2024-02-01T12:00:00Z'),
+      container_id: containerId,
+      created_by: userId
+    };
+    await db.insert(securityViolationsTable)
+      .values([
+        { ...violation, title: 'Leak', violation_type: 'DataLeak', severity: 'Critical', occurrence_count: 12, assigned_to: userId },
+        { ...violation, title: 'Breach', violation_type: 'SecurityBreach', severity: 'High', is_active: false },
+        {
+          ...violation,
+          title: 'Policy',
+          violation_type: 'PolicyViolation',
+          severity: 'Low',
+          incident_date: new Date('2024-03-01T12:00:00Z')
+        }
+      ])
+      .execute();
+
+    const titles = async (query: string) =>
+      (await getSecurityViolations({ query }, { id: userId, role: 'SecurityAnalyst' })).items.map(item => item.title).sort();
+
+    expect(await titles('type:dataleak,securitybreach')).toEqual(['Breach', 'Leak']);
+    expect(await titles('severity>=High archived:false')).toEqual(['Leak']);
+    expect(await titles('occurrences>10 assignee:me')).toEqual(['Leak']);
+    expect(await titles('incident:2024-03-01')).toEqual(['Policy']);
+
+    const issues = await filterErrors(() => getSecurityViolations({ query: 'risk>70' }));
+    expect(issues[0]).toMatchObject({ message: expect.stringContaining("Unknown field 'risk'"), position: 0, length: 4 });
+  });
+});
@@ -0,0 +1,2 @@
+DROP INDEX "widgets_color_idx";--> statement-breakpoint
+ALTER TABLE "widgets" DROP COLUMN "color";
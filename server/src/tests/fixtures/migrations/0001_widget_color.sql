@@ -0,0 +1,2 @@
+ALTER TABLE "widgets" ADD COLUMN "color" text;--> statement-breakpoint
+CREATE INDEX "widgets_color_idx" ON "widgets" ("color");
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, usersTable } from '../db/schema';
+import { createSecurityIssue } from '../handlers/create_security_issue';
+import { updateSecurityIssue } from '../handlers/update_security_issue';
+import { createSecurityViolation } from '../handlers/create_security_violation';
+import { createComment } from '../handlers/create_comment';
+import { deleteComment } from '../handlers/delete_comment';
+import { getActivityFeed } from '../handlers/get_activity_feed';
+
+let analyst: { id: number; role: 'SecurityAnalyst' };
+let containerId: number;
+
+const createIssue = () => createSecurityIssue({
+  title: 'Weak TLS ciphers',
+  description: 'Server accepts CBC suites',
+  severity: 'Medium',
+  classification: 'Misconfiguration',
+  hierarchy: 'Task',
+  confidentiality_impact: 40,
+  integrity_impact: 20,
+  availability_impact: 0,
+  compliance_impact: 30,
+  third_party_risk: 0,
+  mitre_attack_id: null,
+  mitre_attack_tactic: null,
+  mitre_attack_technique: null,
+  linddun_category: null,
+  attack_complexity: null,
+  threat_modeling_notes: null,
+  compensating_controls: null,
+  container_id: containerId,
+  parent_issue_id: null,
+  assigned_to: null,
+  is_automated_finding: false
+}, analyst.id);
+
+describe('getActivityFeed', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    analyst = { id: user[0].id, role: 'SecurityAnalyst' };
+
+    const container = await db.insert(containersTable)
+      .values({ name: 'Edge', description: null, type: 'Service', created_by: analyst.id })
+      .returning()
+      .execute();
+    containerId = container[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should merge comments with creation, field, status and assignment events', async () => {
+    const issue = await createIssue();
+    await updateSecurityIssue({
+      id: issue.id,
+      title: 'Weak TLS ciphers on edge',
+      status: 'In-progress',
+      assigned_to: analyst.id
+    }, analyst);
+    await createComment({ entity_type: 'Issue', entity_id: issue.id, body: 'Config change scheduled' }, analyst.id);
+
+    const feed = await getActivityFeed({ entity_type: 'Issue', entity_id: issue.id, limit: 50, offset: 0 });
+
+    expect(feed.total).toEqual(5);
+    expect(feed.items).toHaveLength(5);
+
+    // Newest first
+    const [latest] = feed.items;
+    expect(latest.kind).toEqual('comment');
+    expect(latest.kind === 'comment' && latest.comment.body).toEqual('Config change scheduled');
+
+    const events = feed.items.flatMap(item => item.kind === 'event' ? [item.event] : []);
+    expect(events.map(event => [event.event_type, event.field]).sort()).toEqual([
+      ['Assignment', 'assigned_to'],
+      ['Created', null],
+      ['FieldChange', 'title'],
+      ['StatusChange', 'status']
+    ].sort());
+
+    const status = events.find(event => event.event_type === 'StatusChange')!;
+    expect(status.old_value).toEqual('Open');
+    expect(status.new_value).toEqual('In-progress');
+    expect(status.actor_id).toEqual(analyst.id);
+
+    const assignment = events.find(event => event.event_type === 'Assignment')!;
+    expect(assignment.old_value).toBeNull();
+    expect(assignment.new_value).toEqual(String(analyst.id));
+
+    expect(feed.items[4]).toMatchObject({ kind: 'event', event: { event_type: 'Created' } });
+  });
+
+  it('should not record unchanged fields', async () => {
+    const issue = await createIssue();
+    await updateSecurityIssue({ id: issue.id, title: issue.title, severity: issue.severity }, analyst);
+
+    const feed = await getActivityFeed({ entity_type: 'Issue', entity_id: issue.id, limit: 50, offset: 0 });
+
+    expect(feed.total).toEqual(1);
+  });
+
+  it('should paginate across both sources and hide deleted comments', async () => {
+    const issue = await createIssue();
+    const comments = [];
+    for (const body of ['First', 'Second', 'Third']) {
+      comments.push(await createComment({ entity_type: 'Issue', entity_id: issue.id, body }, analyst.id));
+    }
+    await deleteComment(comments[1].id, analyst);
+
+    const firstPage = await getActivityFeed({ entity_type: 'Issue', entity_id: issue.id, limit: 2, offset: 0 });
+    const secondPage = await getActivityFeed({ entity_type: 'Issue', entity_id: issue.id, limit: 2, offset: 2 });
+
+    expect(firstPage.total).toEqual(3);
+    expect(firstPage.items.map(item => item.kind === 'comment' ? item.comment.body : item.event.event_type))
+      .toEqual(['Third', 'First']);
+    expect(secondPage.items.map(item => item.kind === 'comment' ? item.comment.body : item.event.event_type))
+      .toEqual(['Created']);
+  });
+
+  it('should cover violations', async () => {
+    const violation = await createSecurityViolation({
+      title: 'Badge cloning',
+      description: 'Cloned badge used at the data centre',
+      violation_type: 'SecurityBreach',
+      severity: 'High',
+      incident_date: new Date(),
+      detection_method: null,
+      affected_systems: null,
+      impact_assessment: null,
+      remediation_steps: null,
+      container_id: containerId,
+      related_issue_id: null,
+      assigned_to: null
+    }, analyst.id);
+
+    const feed = await getActivityFeed({ entity_type: 'Violation', entity_id: violation.id, limit: 50, offset: 0 });
+
+    expect(feed.items).toHaveLength(1);
+    expect(feed.items[0]).toMatchObject({ kind: 'event', event: { event_type: 'Created', actor_id: analyst.id } });
+  });
+
+  it('should throw for a missing entity', async () => {
+    await expect(getActivityFeed({ entity_type: 'Issue', entity_id: 999, limit: 50, offset: 0 }))
+      .rejects.toThrow(/Security issue with id 999 not found/);
+  });
+});
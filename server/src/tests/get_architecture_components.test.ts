@@ -2,7 +2,8 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, containersTable, architectureComponentsTable } from '../db/schema';
-import { getArchitectureComponents, getArchitectureComponentsByContainer, type GetArchitectureComponentsFilters } from '../handlers/get_architecture_components';
+import { getArchitectureComponents, getArchitectureComponentsByContainer } from '../handlers/get_architecture_components';
+import { type ArchitectureComponentFilter } from '../schema';
 
 describe('getArchitectureComponents', () => {
   beforeEach(createDB);
@@ -86,7 +87,7 @@ describe('getArchitectureComponents', () => {
       ])
       .execute();
 
-    const results = await getArchitectureComponents();
+    const { items: results } = await getArchitectureComponents({ sort: [{ field: 'name', direction: 'desc' }] });
 
     expect(results).toHaveLength(2);
     expect(results[0].name).toEqual('Web Server');
@@ -124,11 +125,11 @@ describe('getArchitectureComponents', () => {
       ])
       .execute();
 
-    const filters: GetArchitectureComponentsFilters = {
+    const filters: ArchitectureComponentFilter = {
       component_type: 'Server'
     };
 
-    const results = await getArchitectureComponents(filters);
+    const { items: results } = await getArchitectureComponents(filters);
 
     expect(results).toHaveLength(2);
     results.forEach(component => {
@@ -163,11 +164,11 @@ describe('getArchitectureComponents', () => {
       ])
       .execute();
 
-    const filters: GetArchitectureComponentsFilters = {
+    const filters: ArchitectureComponentFilter = {
       security_domain: 'DMZ'
     };
 
-    const results = await getArchitectureComponents(filters);
+    const { items: results } = await getArchitectureComponents(filters);
 
     expect(results).toHaveLength(2);
     results.forEach(component => {
@@ -193,11 +194,11 @@ describe('getArchitectureComponents', () => {
       ])
       .execute();
 
-    const filters: GetArchitectureComponentsFilters = {
+    const filters: ArchitectureComponentFilter = {
       container_id: testContainerId
     };
 
-    const results = await getArchitectureComponents(filters);
+    const { items: results } = await getArchitectureComponents(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].container_id).toEqual(testContainerId);
@@ -234,13 +235,13 @@ describe('getArchitectureComponents', () => {
       ])
       .execute();
 
-    const filters: GetArchitectureComponentsFilters = {
+    const filters: ArchitectureComponentFilter = {
       component_type: 'Server',
       security_domain: 'DMZ',
       trust_boundary: 'External'
     };
 
-    const results = await getArchitectureComponents(filters);
+    const { items: results } = await getArchitectureComponents(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].name).toEqual('DMZ Web Server');
@@ -269,11 +270,11 @@ describe('getArchitectureComponents', () => {
       ])
       .execute();
 
-    const filters: GetArchitectureComponentsFilters = {
+    const filters: ArchitectureComponentFilter = {
       is_active: true
     };
 
-    const results = await getArchitectureComponents(filters);
+    const { items: results } = await getArchitectureComponents(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].name).toEqual('Active Server');
@@ -302,7 +303,7 @@ describe('getArchitectureComponents', () => {
       ])
       .execute();
 
-    const results = await getArchitectureComponents();
+    const { items: results } = await getArchitectureComponents();
 
     expect(results).toHaveLength(2);
     
@@ -330,11 +331,11 @@ describe('getArchitectureComponents', () => {
       ])
       .execute();
 
-    const filters: GetArchitectureComponentsFilters = {
+    const filters: ArchitectureComponentFilter = {
       component_type: 'NonExistentType'
     };
 
-    const results = await getArchitectureComponents(filters);
+    const { items: results } = await getArchitectureComponents(filters);
 
     expect(results).toHaveLength(0);
   });
@@ -419,7 +420,7 @@ describe('getArchitectureComponentsByContainer', () => {
       ])
       .execute();
 
-    const results = await getArchitectureComponentsByContainer(testContainerId);
+    const results = (await getArchitectureComponentsByContainer({ containerId: testContainerId })).items;
 
     expect(results).toHaveLength(2);
     results.forEach(component => {
@@ -455,7 +456,7 @@ describe('getArchitectureComponentsByContainer', () => {
       ])
       .execute();
 
-    const results = await getArchitectureComponentsByContainer(testContainerId);
+    const results = (await getArchitectureComponentsByContainer({ containerId: testContainerId })).items;
 
     expect(results).toHaveLength(1);
     expect(results[0].name).toEqual('Active Component');
@@ -492,7 +493,7 @@ describe('getArchitectureComponentsByContainer', () => {
       ])
       .execute();
 
-    const results = await getArchitectureComponentsByContainer(testContainerId);
+    const results = (await getArchitectureComponentsByContainer({ containerId: testContainerId })).items;
 
     expect(results).toHaveLength(2);
     
@@ -517,14 +518,14 @@ describe('getArchitectureComponentsByContainer', () => {
   });
 
   it('should return empty array for container with no components', async () => {
-    const results = await getArchitectureComponentsByContainer(testContainerId);
+    const results = (await getArchitectureComponentsByContainer({ containerId: testContainerId })).items;
     expect(results).toHaveLength(0);
   });
 
   it('should throw error for non-existent container', async () => {
     const nonExistentId = 999999;
 
-    await expect(getArchitectureComponentsByContainer(nonExistentId))
+    await expect(getArchitectureComponentsByContainer({ containerId: nonExistentId }))
       .rejects
       .toThrow(/Container with id 999999 does not exist/i);
   });
@@ -551,7 +552,7 @@ describe('getArchitectureComponentsByContainer', () => {
       ])
       .execute();
 
-    const results = await getArchitectureComponentsByContainer(testContainerId);
+    const results = (await getArchitectureComponentsByContainer({ containerId: testContainerId })).items;
 
     expect(results).toHaveLength(2);
     
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { auditLogFilterSchema } from '../schema';
+import { getAuditLog } from '../handlers/get_audit_log';
+import { appendAuditEntry } from '../audit/audit_log';
+
+const request = { ip_address: '127.0.0.1', user_agent: 'bun-test' };
+
+const filter = (input: Record<string, unknown> = {}) => auditLogFilterSchema.parse(input);
+
+describe('getAuditLog', () => {
+  let actorId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'auditor', email: 'auditor@example.com', full_name: 'Auditor', role: 'SecurityManager' })
+      .returning()
+      .execute();
+    actorId = users[0].id;
+
+    for (const [procedure, entity_type, entity_id] of [
+      ['createContainer', 'containers', 1],
+      ['createSecurityIssue', 'security_issues', 1],
+      ['updateSecurityIssue', 'security_issues', 1],
+      ['createSecurityIssue', 'security_issues', 2]
+    ] as const) {
+      await appendAuditEntry({
+        actor_id: actorId,
+        procedure,
+        entity_type,
+        entity_id,
+        input: {},
+        changes: {},
+        request
+      });
+    }
+    await appendAuditEntry({
+      actor_id: null,
+      procedure: 'logout',
+      entity_type: null,
+      entity_id: null,
+      input: {},
+      changes: null,
+      request
+    });
+  });
+
+  afterEach(resetDB);
+
+  it('should return entries newest first with a total', async () => {
+    const page = await getAuditLog(filter());
+
+    expect(page.total).toEqual(5);
+    expect(page.items.map(entry => entry.procedure)).toEqual([
+      'logout',
+      'createSecurityIssue',
+      'updateSecurityIssue',
+      'createSecurityIssue',
+      'createContainer'
+    ]);
+  });
+
+  it('should filter by entity and procedure', async () => {
+    const history = await getAuditLog(filter({ entity_type: 'security_issues', entity_id: 1 }));
+    expect(history.total).toEqual(2);
+    expect(history.items.map(entry => entry.procedure)).toEqual(['updateSecurityIssue', 'createSecurityIssue']);
+
+    const creates = await getAuditLog(filter({ procedure: 'createSecurityIssue' }));
+    expect(creates.items.map(entry => entry.entity_id)).toEqual([2, 1]);
+  });
+
+  it('should filter by actor and time range', async () => {
+    expect((await getAuditLog(filter({ actor_id: actorId }))).total).toEqual(4);
+    expect((await getAuditLog(filter({ from: new Date(Date.now() + 60_000) }))).total).toEqual(0);
+    expect((await getAuditLog(filter({ to: new Date(Date.now() + 60_000) }))).total).toEqual(5);
+  });
+
+  it('should paginate', async () => {
+    const page = await getAuditLog(filter({ limit: 2, offset: 2 }));
+
+    expect(page.total).toEqual(5);
+    expect(page.items.map(entry => entry.procedure)).toEqual(['updateSecurityIssue', 'createSecurityIssue']);
+  });
+});
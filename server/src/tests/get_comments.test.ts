@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { securityReviewsTable, usersTable } from '../db/schema';
+import { createComment } from '../handlers/create_comment';
+import { deleteComment } from '../handlers/delete_comment';
+import { getComments } from '../handlers/get_comments';
+
+let analyst: { id: number; role: 'SecurityAnalyst' };
+let reviewId: number;
+
+describe('getComments', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    analyst = { id: user[0].id, role: 'SecurityAnalyst' };
+
+    const review = await db.insert(securityReviewsTable)
+      .values({ title: 'Threat model', description: 'Checkout threat model', created_by: analyst.id })
+      .returning()
+      .execute();
+    reviewId = review[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const comment = (body: string, parent_comment_id: number | null = null) =>
+    createComment({ entity_type: 'Review', entity_id: reviewId, parent_comment_id, body }, analyst.id);
+
+  it('should nest replies under their threads', async () => {
+    const first = await comment('First question');
+    const second = await comment('Second question');
+    const reply = await comment('Answer', first.id);
+    await comment('Follow-up', reply.id);
+
+    const page = await getComments({ entity_type: 'Review', entity_id: reviewId, limit: 50, offset: 0 });
+
+    expect(page.total).toEqual(2);
+    expect(page.items.map(thread => thread.id)).toEqual([first.id, second.id]);
+    expect(page.items[0].replies).toHaveLength(1);
+    expect(page.items[0].replies[0].body).toEqual('Answer');
+    expect(page.items[0].replies[0].replies[0].body).toEqual('Follow-up');
+    expect(page.items[1].replies).toEqual([]);
+  });
+
+  it('should page through top-level comments', async () => {
+    for (const body of ['One', 'Two', 'Three']) {
+      await comment(body);
+    }
+
+    const page = await getComments({ entity_type: 'Review', entity_id: reviewId, limit: 2, offset: 1 });
+
+    expect(page.total).toEqual(3);
+    expect(page.items.map(thread => thread.body)).toEqual(['Two', 'Three']);
+  });
+
+  it('should keep deleted comments that have replies in place', async () => {
+    const root = await comment('Since retracted');
+    await comment('Still relevant reply', root.id);
+    await deleteComment(root.id, analyst);
+
+    const page = await getComments({ entity_type: 'Review', entity_id: reviewId, limit: 50, offset: 0 });
+
+    expect(page.items[0].body).toEqual('');
+    expect(page.items[0].deleted_at).toBeInstanceOf(Date);
+    expect(page.items[0].replies[0].body).toEqual('Still relevant reply');
+  });
+
+  it('should throw for a missing entity', async () => {
+    await expect(getComments({ entity_type: 'Review', entity_id: 999, limit: 50, offset: 0 }))
+      .rejects.toThrow(/Security review with id 999 not found/);
+  });
+});
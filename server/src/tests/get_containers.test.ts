@@ -3,13 +3,14 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { containersTable, usersTable, securityIssuesTable } from '../db/schema';
 import { getContainers } from '../handlers/get_containers';
+import { updateContainerRiskScore } from '../handlers/update_container_risk_score';
 
 describe('getContainers', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
   it('should return empty array when no containers exist', async () => {
-    const result = await getContainers();
+    const { items: result } = await getContainers();
     expect(result).toHaveLength(0);
   });
 
@@ -43,7 +44,7 @@ describe('getContainers', () => {
       .returning()
       .execute();
 
-    const result = await getContainers();
+    const { items: result } = await getContainers();
 
     expect(result).toHaveLength(1);
     expect(result[0].name).toEqual('Test Container');
@@ -95,14 +96,14 @@ describe('getContainers', () => {
       })
       .execute();
 
-    const result = await getContainers();
+    const { items: result } = await getContainers();
 
     expect(result).toHaveLength(1);
     expect(result[0].name).toEqual('Active Container');
     expect(result[0].is_active).toBe(true);
   });
 
-  it('should calculate risk scores based on security issues', async () => {
+  it('should return the severity-weighted rollup of security issues', async () => {
     // Create test user
     const userResult = await db.insert(usersTable)
       .values({
@@ -152,7 +153,7 @@ describe('getContainers', () => {
     // Create security issues with different risk scores
     await db.insert(securityIssuesTable)
       .values([
-        // High-risk container issues (should average to 85)
+        // High-risk container issues
         {
           title: 'Critical Issue 1',
           description: 'Critical security issue',
@@ -173,7 +174,7 @@ describe('getContainers', () => {
           container_id: highRiskContainerId,
           created_by: userId
         },
-        // Low-risk container issues (should average to 25)
+        // Low-risk container issues
         {
           title: 'Low Issue 1',
           description: 'Low security issue',
@@ -197,7 +198,11 @@ describe('getContainers', () => {
       ])
       .execute();
 
-    const result = await getContainers();
+    // Issues inserted directly bypass the engine, so roll them up explicitly
+    await updateContainerRiskScore(highRiskContainerId);
+    await updateContainerRiskScore(lowRiskContainerId);
+
+    const { items: result } = await getContainers();
 
     expect(result).toHaveLength(3);
 
@@ -208,10 +213,10 @@ describe('getContainers', () => {
 
     // Verify risk score calculations
     expect(highRiskContainer).toBeDefined();
-    expect(highRiskContainer!.risk_score).toEqual(85); // (90 + 80) / 2
+    expect(highRiskContainer!.risk_score).toEqual(85.56); // (90 * 1.0 + 80 * 0.8) / 1.8
 
     expect(lowRiskContainer).toBeDefined();
-    expect(lowRiskContainer!.risk_score).toEqual(25); // (20 + 30) / 2
+    expect(lowRiskContainer!.risk_score).toEqual(26.67); // (20 * 0.3 + 30 * 0.6) / 0.9
 
     expect(noIssuesContainer).toBeDefined();
     expect(noIssuesContainer!.risk_score).toEqual(0); // No issues
@@ -266,7 +271,7 @@ describe('getContainers', () => {
       ])
       .execute();
 
-    const result = await getContainers();
+    const { items: result } = await getContainers();
 
     expect(result).toHaveLength(4);
 
@@ -303,7 +308,7 @@ describe('getContainers', () => {
       })
       .execute();
 
-    const result = await getContainers();
+    const { items: result } = await getContainers();
 
     expect(result).toHaveLength(1);
     expect(result[0].name).toEqual('Container Without Description');
@@ -358,7 +363,7 @@ describe('getContainers', () => {
       ])
       .execute();
 
-    const result = await getContainers();
+    const { items: result } = await getContainers();
 
     expect(result).toHaveLength(3);
 
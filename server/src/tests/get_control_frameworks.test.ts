@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { seedReferenceData } from '../db/seed';
+import { getControlFrameworks } from '../handlers/get_control_frameworks';
+
+describe('getControlFrameworks', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return empty array before the seed has run', async () => {
+    expect(await getControlFrameworks()).toHaveLength(0);
+  });
+
+  it('should return the seeded catalog ordered by name', async () => {
+    await seedReferenceData();
+
+    const frameworks = await getControlFrameworks();
+
+    const names = frameworks.map(framework => framework.name);
+    expect(names).toEqual([...names].sort());
+    expect(frameworks.find(framework => framework.code === 'OWASP-ASVS')).toMatchObject({
+      version: '4.0.3',
+      created_at: expect.any(Date)
+    });
+  });
+});
@@ -9,6 +9,7 @@ import {
   securityControlsTable 
 } from '../db/schema';
 import { getDashboardAnalytics, getContainerRiskAnalytics } from '../handlers/get_dashboard_analytics';
+import { updateContainerRiskScore } from '../handlers/update_container_risk_score';
 
 describe('getDashboardAnalytics', () => {
   beforeEach(createDB);
@@ -121,6 +122,10 @@ describe('getDashboardAnalytics', () => {
       ])
       .execute();
 
+    // Issues inserted directly bypass the engine, so roll them up explicitly
+    await updateContainerRiskScore(highRiskContainerId);
+    await updateContainerRiskScore(lowRiskContainerId);
+
     // Create recent violations
     await db.insert(securityViolationsTable)
       .values([
@@ -197,11 +202,11 @@ describe('getDashboardAnalytics', () => {
     // Verify top risk containers
     expect(result.top_risk_containers).toHaveLength(2);
     expect(result.top_risk_containers[0].container_name).toBe('High Risk Container');
-    expect(result.top_risk_containers[0].risk_score).toBeCloseTo(87.5, 1); // (95 + 80) / 2
+    expect(result.top_risk_containers[0].risk_score).toBeCloseTo(88.33, 2); // (95 * 1.0 + 80 * 0.8) / 1.8
     expect(result.top_risk_containers[0].issue_count).toBe(2);
     
     expect(result.top_risk_containers[1].container_name).toBe('Low Risk Container');
-    expect(result.top_risk_containers[1].risk_score).toBeCloseTo(35.0, 1); // (50 + 20) / 2
+    expect(result.top_risk_containers[1].risk_score).toBe(0); // Resolved and Closed issues carry no risk
     expect(result.top_risk_containers[1].issue_count).toBe(2);
 
     // Verify recent violations
@@ -430,11 +435,14 @@ describe('getContainerRiskAnalytics', () => {
       })
       .execute();
 
+    await updateContainerRiskScore(containerId);
+    await updateContainerRiskScore(otherContainerId);
+
     const result = await getContainerRiskAnalytics(containerId);
 
-    // Verify container risk score calculation
-    // (90 + 75 + 40) / 3 = 68.33
-    expect(result.container_risk_score).toBeCloseTo(68.33, 2);
+    // Verify container risk score is the stored severity-weighted rollup
+    // of active issues: (90 * 1.0 + 75 * 0.8) / 1.8 = 83.33
+    expect(result.container_risk_score).toBeCloseTo(83.33, 2);
 
     // Verify issue breakdown by severity
     expect(result.issue_breakdown).toEqual({
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityIssuesTable, usersTable } from '../db/schema';
+import { getExternalSyncStatus } from '../handlers/get_external_sync_status';
+
+const syncedAt = new Date('2026-03-02T10:00:00Z');
+
+describe('getExternalSyncStatus', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report where each issue stands with the tracker', async () => {
+    const users = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments API', description: null, type: 'Service', external_system: 'Jira', external_id: 'SEC', created_by: users[0].id })
+      .returning()
+      .execute();
+    const base = {
+      description: 'Found in review',
+      severity: 'High' as const,
+      classification: 'Vulnerability' as const,
+      hierarchy: 'Task' as const,
+      container_id: containers[0].id,
+      created_by: users[0].id
+    };
+    const linked = { external_system: 'Jira', external_url: 'https://example.atlassian.net/browse/SEC-1', external_synced_at: syncedAt };
+
+    const issues = await db.insert(securityIssuesTable)
+      .values([
+        { ...base, title: 'Not linked' },
+        { ...base, ...linked, title: 'Synced', external_id: 'SEC-1', external_sync_status: 'Synced', updated_at: syncedAt },
+        { ...base, ...linked, title: 'Changed', external_id: 'SEC-2', external_sync_status: 'Synced', updated_at: new Date('2026-03-02T11:00:00Z') },
+        { ...base, ...linked, title: 'Failed', external_id: 'SEC-3', external_sync_status: 'Failed', external_sync_error: 'Jira issue SEC-3 no longer exists', updated_at: syncedAt },
+        { ...base, title: 'Rejected', external_sync_status: 'Failed', external_sync_error: 'summary: required' }
+      ])
+      .returning()
+      .execute();
+
+    const states = await getExternalSyncStatus({ container_id: containers[0].id });
+
+    expect(states.map(state => [state.title, state.sync_status, state.sync_error])).toEqual([
+      ['Not linked', 'NotLinked', null],
+      ['Synced', 'Synced', null],
+      ['Changed', 'Pending', null],
+      ['Failed', 'Failed', 'Jira issue SEC-3 no longer exists'],
+      ['Rejected', 'Failed', 'summary: required']
+    ]);
+    expect(states[1]).toEqual({
+      issue_id: issues[1].id,
+      title: 'Synced',
+      external_system: 'Jira',
+      external_id: 'SEC-1',
+      external_url: 'https://example.atlassian.net/browse/SEC-1',
+      sync_status: 'Synced',
+      sync_error: null,
+      synced_at: syncedAt
+    });
+  });
+
+  it('should throw for a missing container', async () => {
+    await expect(getExternalSyncStatus({ container_id: 999 })).rejects.toThrow('Container with id 999 not found');
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { architectureComponentsTable, containersTable, usersTable } from '../db/schema';
+import { importTrivy } from '../handlers/import_image_scan';
+import { importSarif } from '../handlers/import_sarif';
+import { getImportRuns } from '../handlers/get_import_runs';
+
+const readFixture = (directory: string, name: string): string =>
+  readFileSync(path.resolve(import.meta.dir, 'fixtures', directory, name), 'utf8');
+
+const createTestUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({ username: 'pipeline', email: 'pipeline@example.com', full_name: 'Build Pipeline', role: 'SecurityAnalyst' })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestContainer = async (userId: number) => {
+  const result = await db.insert(containersTable)
+    .values({ name: 'Payments API', description: null, type: 'Service', created_by: userId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('getImportRuns', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record each import with its delta', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const first = await importTrivy({ container_id: container.id, report: readFixture('image_scans', 'trivy.json') }, user);
+
+    const report = JSON.parse(readFixture('image_scans', 'trivy.json'));
+    report.Results[0].Vulnerabilities.splice(2, 1);
+    const second = await importTrivy({ container_id: container.id, report }, user);
+
+    const runs = await getImportRuns({ container_id: container.id });
+
+    // Newest first
+    expect(runs.map(run => run.id)).toEqual([second.run_id, first.run_id]);
+    expect(runs[1]).toMatchObject({
+      container_id: container.id,
+      component_id: null,
+      format: 'Trivy',
+      scanners: ['Trivy'],
+      created: 6,
+      updated: 0,
+      reopened: 0,
+      resolved: 0,
+      skipped: 0,
+      imported_by: user.id
+    });
+    expect(runs[1].delta.created).toEqual(first.findings.map(finding => finding.issue_id!));
+    expect(runs[0]).toMatchObject({
+      created: 0,
+      resolved: 1,
+      skipped: 5,
+      delta: { created: [], updated: [], reopened: [], resolved: second.resolved_issue_ids }
+    });
+    expect(runs[0].imported_at).toBeInstanceOf(Date);
+  });
+
+  it('should list every tool a SARIF log covers', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const sarif = JSON.parse(readFixture('sarif', 'semgrep.sarif'));
+    sarif.runs.push({ tool: { driver: { name: 'Bandit' } }, results: [] });
+
+    await importSarif({ container_id: container.id, sarif }, user);
+
+    const [run] = await getImportRuns({ container_id: container.id });
+    expect(run).toMatchObject({ format: 'SARIF', scanners: ['Semgrep OSS', 'Bandit'], created: 2, skipped: 1 });
+  });
+
+  it('should filter by component', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const component = await db.insert(architectureComponentsTable)
+      .values({ name: 'payments-api image', component_type: 'Container', container_id: container.id, created_by: user.id })
+      .returning()
+      .execute();
+    await importTrivy({ container_id: container.id, report: readFixture('image_scans', 'trivy.json') }, user);
+    await importTrivy({ container_id: container.id, component_id: component[0].id, report: readFixture('image_scans', 'trivy.json') }, user);
+
+    const runs = await getImportRuns({ container_id: container.id, component_id: component[0].id });
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({ component_id: component[0].id, created: 6 });
+  });
+
+  it('should throw for a missing container', async () => {
+    await expect(getImportRuns({ container_id: 999 })).rejects.toThrow('Container with id 999 not found');
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, usersTable } from '../db/schema';
+import { createSecurityIssue } from '../handlers/create_security_issue';
+import { updateSecurityIssue } from '../handlers/update_security_issue';
+import { getIssueStatusHistory } from '../handlers/get_issue_status_history';
+
+describe('getIssueStatusHistory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the status changes of an issue, oldest first', async () => {
+    const [manager] = await db.insert(usersTable)
+      .values({ username: 'manager', email: 'manager@example.com', full_name: 'Manager', role: 'SecurityManager' })
+      .returning()
+      .execute();
+    const [container] = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: manager.id })
+      .returning()
+      .execute();
+
+    const issue = await createSecurityIssue({
+      title: 'Verbose errors',
+      description: 'Stack traces are returned to clients',
+      severity: 'Low',
+      classification: 'Misconfiguration',
+      hierarchy: 'Task',
+      confidentiality_impact: 20,
+      integrity_impact: 0,
+      availability_impact: 0,
+      compliance_impact: 10,
+      third_party_risk: 0,
+      mitre_attack_id: null,
+      mitre_attack_tactic: null,
+      mitre_attack_technique: null,
+      linddun_category: null,
+      attack_complexity: null,
+      threat_modeling_notes: null,
+      compensating_controls: null,
+      container_id: container.id,
+      parent_issue_id: null,
+      assigned_to: null,
+      is_automated_finding: false
+    }, manager.id);
+
+    await updateSecurityIssue({ id: issue.id, status: 'In-progress' }, manager);
+    await updateSecurityIssue({
+      id: issue.id,
+      status: 'Closed',
+      resolution_note: 'Accepted, internal service only'
+    }, manager);
+
+    const history = await getIssueStatusHistory(issue.id);
+
+    expect(history.map(entry => entry.to_status)).toEqual(['Open', 'In-progress', 'Closed']);
+    expect(history.map(entry => entry.from_status)).toEqual([null, 'Open', 'In-progress']);
+    expect(history[2].note).toEqual('Accepted, internal service only');
+    expect(history.every(entry => entry.changed_by === manager.id)).toBe(true);
+  });
+
+  it('should throw for a missing issue', async () => {
+    await expect(getIssueStatusHistory(999)).rejects.toThrow(/Security issue with id 999 not found/);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityIssuesTable, usersTable } from '../db/schema';
+import { getIssueTree } from '../handlers/get_issue_tree';
+
+let userId: number;
+let containerId: number;
+
+const insertIssue = async (values: {
+  title: string;
+  hierarchy: 'Epic' | 'Story' | 'Task';
+  severity: 'Critical' | 'High' | 'Medium' | 'Low';
+  status: 'Open' | 'In-progress' | 'Closed' | 'Resolved';
+  risk_score: number;
+  parent_issue_id?: number;
+  container_id?: number;
+}) => {
+  const result = await db.insert(securityIssuesTable)
+    .values({
+      description: `${values.title} description`,
+      classification: 'Vulnerability',
+      container_id: containerId,
+      created_by: userId,
+      ...values
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('getIssueTree', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    userId = user[0].id;
+
+    const container = await db.insert(containersTable)
+      .values({ name: 'Web Shop', description: null, type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+    containerId = container[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return an empty tree for a container without issues', async () => {
+    expect(await getIssueTree(containerId)).toEqual([]);
+  });
+
+  it('should nest issues and roll up risk and progress', async () => {
+    const epic = await insertIssue({ title: 'Harden checkout', hierarchy: 'Epic', severity: 'Medium', status: 'Open', risk_score: 40 });
+    const story = await insertIssue({ title: 'Payment form', hierarchy: 'Story', severity: 'High', status: 'In-progress', risk_score: 80, parent_issue_id: epic.id });
+    await insertIssue({ title: 'Fix XSS', hierarchy: 'Task', severity: 'Critical', status: 'Resolved', risk_score: 90, parent_issue_id: story.id });
+    await insertIssue({ title: 'Add CSP', hierarchy: 'Task', severity: 'Low', status: 'Open', risk_score: 20, parent_issue_id: story.id });
+    await insertIssue({ title: 'Rotate keys', hierarchy: 'Task', severity: 'Medium', status: 'Closed', risk_score: 60, parent_issue_id: epic.id });
+    await insertIssue({ title: 'Banner grabbing', hierarchy: 'Task', severity: 'Low', status: 'Open', risk_score: 10 });
+
+    const tree = await getIssueTree(containerId);
+
+    expect(tree.map(node => node.title)).toEqual(['Harden checkout', 'Banner grabbing']);
+
+    const [epicNode, standalone] = tree;
+    expect(epicNode.children.map(node => node.title)).toEqual(['Payment form', 'Rotate keys']);
+    // Active issues in the subtree: (40 * .6 + 80 * .8 + 20 * .3) / 1.7
+    expect(epicNode.rollup_risk_score).toEqual(55.29);
+    // Fix XSS and Rotate keys are done out of four descendants
+    expect(epicNode.progress).toEqual(50);
+
+    const storyNode = epicNode.children[0];
+    expect(storyNode.children.map(node => node.title)).toEqual(['Fix XSS', 'Add CSP']);
+    expect(storyNode.rollup_risk_score).toEqual(63.64);
+    expect(storyNode.progress).toEqual(50);
+
+    const closedLeaf = epicNode.children[1];
+    expect(closedLeaf.children).toEqual([]);
+    expect(closedLeaf.rollup_risk_score).toEqual(0);
+    expect(closedLeaf.progress).toBeNull();
+
+    expect(standalone.rollup_risk_score).toEqual(10);
+    expect(standalone.progress).toBeNull();
+  });
+
+  it('should treat issues whose parent is elsewhere as roots', async () => {
+    const other = await db.insert(containersTable)
+      .values({ name: 'Legacy', description: null, type: 'System', created_by: userId })
+      .returning()
+      .execute();
+    const foreignEpic = await insertIssue({
+      title: 'Foreign epic',
+      hierarchy: 'Epic',
+      severity: 'Low',
+      status: 'Open',
+      risk_score: 5,
+      container_id: other[0].id
+    });
+    // Written directly, bypassing the hierarchy rules
+    await insertIssue({ title: 'Stray task', hierarchy: 'Task', severity: 'High', status: 'Open', risk_score: 70, parent_issue_id: foreignEpic.id });
+
+    const tree = await getIssueTree(containerId);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].title).toEqual('Stray task');
+  });
+
+  it('should throw for a missing container', async () => {
+    await expect(getIssueTree(999)).rejects.toThrow(/Container with id 999 not found/);
+  });
+});
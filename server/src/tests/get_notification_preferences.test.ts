@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationPreferencesTable, usersTable } from '../db/schema';
+import { getNotificationPreferences } from '../handlers/get_notification_preferences';
+
+describe('getNotificationPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const addUser = async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ username: 'engineer', email: 'engineer@example.com', full_name: 'Engineer', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    return user;
+  };
+
+  it('should default to every email until the user saves preferences', async () => {
+    const user = await addUser();
+
+    expect(await getNotificationPreferences(user.id)).toEqual({
+      user_id: user.id,
+      assignment_emails: true,
+      critical_violation_emails: true,
+      daily_digest: true,
+      updated_at: null
+    });
+  });
+
+  it('should return saved preferences', async () => {
+    const user = await addUser();
+    await db.insert(notificationPreferencesTable)
+      .values({ user_id: user.id, daily_digest: false })
+      .execute();
+
+    const preferences = await getNotificationPreferences(user.id);
+
+    expect(preferences).toMatchObject({ assignment_emails: true, critical_violation_emails: true, daily_digest: false });
+    expect(preferences.updated_at).toBeInstanceOf(Date);
+  });
+});
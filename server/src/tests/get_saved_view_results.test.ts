@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityIssuesTable, securityViolationsTable, usersTable } from '../db/schema';
+import { createSavedViewInputSchema } from '../schema';
+import { createSavedView } from '../handlers/create_saved_view';
+import { getSavedViewIssues, getSavedViewViolations } from '../handlers/get_saved_view_results';
+import { getSecurityIssues } from '../handlers/get_security_issues';
+import { getSecurityViolations } from '../handlers/get_security_violations';
+
+describe('saved view results', () => {
+  let owner: { id: number; role: 'SecurityAnalyst' };
+  let colleague: { id: number; role: 'SecurityAnalyst' };
+  let containerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', full_name: 'Owner', role: 'SecurityAnalyst' },
+        { username: 'colleague', email: 'colleague@example.com', full_name: 'Colleague', role: 'SecurityAnalyst' }
+      ])
+      .returning()
+      .execute();
+    owner = { id: users[0].id, role: 'SecurityAnalyst' };
+    colleague = { id: users[1].id, role: 'SecurityAnalyst' };
+
+    const [container] = await db.insert(containersTable)
+      .values({ name: 'Payments', type: 'Application', created_by: owner.id })
+      .returning()
+      .execute();
+    containerId = container.id;
+  });
+
+  afterEach(resetDB);
+
+  const issue = (title: string, values: Partial<typeof securityIssuesTable.$inferInsert>) => ({
+    title,
+    description: title,
+    severity: 'High' as const,
+    classification: 'Vulnerability' as const,
+    hierarchy: 'Task' as const,
+    container_id: containerId,
+    created_by: owner.id,
+    ...values
+  });
+
+  it('should return what getSecurityIssues returns for the saved filter, in the saved order', async () => {
+    await db.insert(securityIssuesTable)
+      .values([
+        issue('B high', { risk_score: 90, assigned_to: owner.id }),
+        issue('A critical', { severity: 'Critical', risk_score: 50, assigned_to: owner.id }),
+        issue('C closed', { severity: 'Critical', status: 'Closed', risk_score: 99, assigned_to: owner.id }),
+        issue('D colleague', { severity: 'Critical', risk_score: 70, assigned_to: colleague.id }),
+        issue('E low', { severity: 'Low', risk_score: 95, assigned_to: owner.id })
+      ])
+      .execute();
+
+    const view = await createSavedView(createSavedViewInputSchema.parse({
+      name: 'My open high risk',
+      entity_type: 'Issue',
+      visibility: 'Organization',
+      filter: { container_id: containerId, query: 'severity>=High status:!Closed assignee:me' },
+      sort: [{ field: 'severity' }, { field: 'risk_score' }]
+    }), owner);
+
+    const results = await getSavedViewIssues({ id: view.id }, owner);
+    const direct = await getSecurityIssues({
+      container_id: containerId,
+      query: 'severity>=High status:!Closed assignee:me',
+      sort: [{ field: 'severity', direction: 'desc' }, { field: 'risk_score', direction: 'desc' }]
+    }, owner);
+
+    expect(results.items.map(result => result.title)).toEqual(['A critical', 'B high']);
+    expect(results).toEqual(direct);
+
+    // "me" is whoever runs the view
+    expect((await getSavedViewIssues({ id: view.id }, colleague)).items.map(result => result.title)).toEqual(['D colleague']);
+  });
+
+  it('should page through violation views', async () => {
+    const violation = (title: string, severity: 'Critical' | 'High' | 'Low', incidentDate: string) => ({
+      title,
+      description: title,
+      violation_type: 'DataLeak' as const,
+      severity,
+      incident_date: new Date(incidentDate),
+      container_id: containerId,
+      created_by: owner.id
+    });
+    await db.insert(securityViolationsTable)
+      .values([
+        violation('Older critical', 'Critical', '2024-01-01'),
+        violation('Newer critical', 'Critical', '2024-02-01'),
+        violation('High', 'High', '2024-03-01'),
+        violation('Low', 'Low', '2024-04-01')
+      ])
+      .execute();
+
+    const view = await createSavedView(createSavedViewInputSchema.parse({
+      name: 'Leaks by severity',
+      entity_type: 'Violation',
+      filter: { violation_type: 'DataLeak', query: 'severity>=High' },
+      sort: [{ field: 'severity' }, { field: 'incident_date', direction: 'asc' }]
+    }), owner);
+
+    const first = await getSavedViewViolations({ id: view.id, limit: 2 }, owner);
+    const rest = await getSavedViewViolations({ id: view.id, limit: 2, cursor: first.next_cursor! }, owner);
+
+    expect(first.items.map(result => result.title)).toEqual(['Older critical', 'Newer critical']);
+    expect(first.total).toEqual(3);
+    expect(rest.items.map(result => result.title)).toEqual(['High']);
+    expect(rest.next_cursor).toBeNull();
+    expect(await getSavedViewViolations({ id: view.id }, owner)).toEqual(await getSecurityViolations({
+      violation_type: 'DataLeak',
+      query: 'severity>=High',
+      sort: [{ field: 'severity', direction: 'desc' }, { field: 'incident_date', direction: 'asc' }]
+    }, owner));
+  });
+
+  it('should refuse views of the other entity type and views the caller cannot see', async () => {
+    const issueView = await createSavedView(createSavedViewInputSchema.parse({ name: 'Issues', entity_type: 'Issue' }), owner);
+
+    await expect(getSavedViewViolations({ id: issueView.id }, owner)).rejects.toThrow(`Saved view ${issueView.id} lists issues`);
+    await expect(getSavedViewIssues({ id: issueView.id }, colleague)).rejects.toThrow(`Saved view with id ${issueView.id} not found`);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, savedViewPinsTable, savedViewsTable, securityIssuesTable, usersTable } from '../db/schema';
+import { getSavedViews } from '../handlers/get_saved_views';
+
+describe('getSavedViews', () => {
+  let owner: { id: number; role: 'SecurityAnalyst' };
+  let teammate: { id: number; role: 'SecurityAnalyst' };
+  let outsider: { id: number; role: 'SecurityAnalyst' };
+  let containerId: number;
+  let otherContainerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values(['owner', 'teammate', 'outsider'].map(name => ({
+        username: name, email: `${name}@example.com`, full_name: name, role: 'SecurityAnalyst' as const
+      })))
+      .returning()
+      .execute();
+    [owner, teammate, outsider] = users.map(user => ({ id: user.id, role: 'SecurityAnalyst' as const }));
+
+    const containers = await db.insert(containersTable)
+      .values([
+        { name: 'Payments', type: 'Application', created_by: owner.id },
+        { name: 'Identity', type: 'Service', created_by: outsider.id }
+      ])
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+    otherContainerId = containers[1].id;
+
+    // The teammate works in Payments by being assigned an issue there
+    await db.insert(securityIssuesTable)
+      .values({
+        title: 'Payments issue', description: 'Assigned to the teammate', severity: 'High', classification: 'Vulnerability',
+        hierarchy: 'Task', container_id: containerId, assigned_to: teammate.id, created_by: owner.id
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const addView = async (name: string, values: Partial<typeof savedViewsTable.$inferInsert> = {}) => {
+    const [view] = await db.insert(savedViewsTable)
+      .values({ owner_id: owner.id, name, entity_type: 'Issue', filter: {}, sort: [], columns: [], ...values })
+      .returning()
+      .execute();
+    return view;
+  };
+
+  it('should list the views each user may see', async () => {
+    await addView('Private');
+    await addView('Payments team', { visibility: 'Team', container_id: containerId });
+    await addView('Identity team', { visibility: 'Team', container_id: otherContainerId });
+    await addView('Everyone', { visibility: 'Organization', owner_id: outsider.id });
+
+    const names = async (actor: typeof owner) => (await getSavedViews({}, actor)).map(view => view.name);
+
+    expect(await names(owner)).toEqual(['Everyone', 'Identity team', 'Payments team', 'Private']);
+    expect(await names(teammate)).toEqual(['Everyone', 'Payments team']);
+    expect(await names(outsider)).toEqual(['Everyone', 'Identity team']);
+  });
+
+  it('should put the caller\'s pinned views first', async () => {
+    await addView('Alpha', { visibility: 'Organization' });
+    const beta = await addView('beta', { visibility: 'Organization' });
+    const gamma = await addView('Gamma', { visibility: 'Organization' });
+    await db.insert(savedViewPinsTable)
+      .values([{ view_id: gamma.id, user_id: teammate.id }, { view_id: beta.id, user_id: owner.id }])
+      .execute();
+
+    const views = await getSavedViews({}, teammate);
+
+    expect(views.map(view => [view.name, view.pinned])).toEqual([['Gamma', true], ['Alpha', false], ['beta', false]]);
+  });
+
+  it('should filter by entity type and container', async () => {
+    await addView('Issues');
+    await addView('Violations', { entity_type: 'Violation' });
+    await addView('Payments team', { visibility: 'Team', container_id: containerId });
+
+    expect((await getSavedViews({ entity_type: 'Violation' }, owner)).map(view => view.name)).toEqual(['Violations']);
+    expect((await getSavedViews({ container_id: containerId }, owner)).map(view => view.name)).toEqual(['Payments team']);
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type CreateScoringProfileInput } from '../schema';
+import { createScoringProfile } from '../handlers/create_scoring_profile';
+import { getScoringProfiles } from '../handlers/get_scoring_profiles';
+
+const profileInput = (name: string): CreateScoringProfileInput => ({
+  name,
+  description: null,
+  confidentiality_weight: 0.25,
+  integrity_weight: 0.25,
+  availability_weight: 0.25,
+  compliance_weight: 0.15,
+  third_party_weight: 0.1,
+  critical_weight: 1,
+  high_weight: 0.8,
+  medium_weight: 0.6,
+  low_weight: 0.3
+});
+
+describe('getScoringProfiles', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return empty array when no profiles exist', async () => {
+    expect(await getScoringProfiles()).toHaveLength(0);
+  });
+
+  it('should list profiles by name with the newest version first', async () => {
+    const user = await db.insert(usersTable)
+      .values({
+        username: 'manager',
+        email: 'manager@example.com',
+        full_name: 'Security Manager',
+        role: 'SecurityManager'
+      })
+      .returning()
+      .execute();
+
+    await createScoringProfile(profileInput('payments'), user[0].id);
+    await createScoringProfile(profileInput('internal'), user[0].id);
+    await createScoringProfile(profileInput('payments'), user[0].id);
+
+    const result = await getScoringProfiles();
+
+    expect(result.map(profile => `${profile.name}@${profile.version}`)).toEqual([
+      'internal@1',
+      'payments@2',
+      'payments@1'
+    ]);
+  });
+});
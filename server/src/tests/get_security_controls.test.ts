@@ -110,7 +110,7 @@ describe('getSecurityControls', () => {
   });
 
   it('should fetch all security controls without filters', async () => {
-    const results = await getSecurityControls();
+    const { items: results } = await getSecurityControls();
 
     expect(results).toHaveLength(4);
     expect(results[0].name).toBeDefined();
@@ -122,7 +122,7 @@ describe('getSecurityControls', () => {
   });
 
   it('should filter by implementation status', async () => {
-    const results = await getSecurityControls({ implementation_status: 'Existing' });
+    const { items: results } = await getSecurityControls({ implementation_status: 'Existing' });
 
     expect(results).toHaveLength(2);
     results.forEach(control => {
@@ -131,7 +131,7 @@ describe('getSecurityControls', () => {
   });
 
   it('should filter by control type', async () => {
-    const results = await getSecurityControls({ control_type: 'Technical' });
+    const { items: results } = await getSecurityControls({ control_type: 'Technical' });
 
     expect(results).toHaveLength(2);
     results.forEach(control => {
@@ -140,7 +140,7 @@ describe('getSecurityControls', () => {
   });
 
   it('should filter by framework reference', async () => {
-    const results = await getSecurityControls({ framework_reference: 'NIST' });
+    const { items: results } = await getSecurityControls({ framework_reference: 'NIST' });
 
     expect(results).toHaveLength(2);
     results.forEach(control => {
@@ -149,7 +149,7 @@ describe('getSecurityControls', () => {
   });
 
   it('should filter by container_id', async () => {
-    const results = await getSecurityControls({ container_id: testContainerId1 });
+    const { items: results } = await getSecurityControls({ container_id: testContainerId1 });
 
     expect(results).toHaveLength(3);
     results.forEach(control => {
@@ -158,7 +158,7 @@ describe('getSecurityControls', () => {
   });
 
   it('should filter by control family', async () => {
-    const results = await getSecurityControls({ control_family: 'Access Control' });
+    const { items: results } = await getSecurityControls({ control_family: 'Access Control' });
 
     expect(results).toHaveLength(1);
     expect(results[0].control_family).toBe('Access Control');
@@ -166,20 +166,20 @@ describe('getSecurityControls', () => {
   });
 
   it('should filter by active status', async () => {
-    const results = await getSecurityControls({ is_active: true });
+    const { items: results } = await getSecurityControls({ is_active: true });
 
     expect(results).toHaveLength(3);
     results.forEach(control => {
       expect(control.is_active).toBe(true);
     });
 
-    const inactiveResults = await getSecurityControls({ is_active: false });
+    const { items: inactiveResults } = await getSecurityControls({ is_active: false });
     expect(inactiveResults).toHaveLength(1);
     expect(inactiveResults[0].name).toBe('Inactive Control');
   });
 
   it('should apply multiple filters correctly', async () => {
-    const results = await getSecurityControls({
+    const { items: results } = await getSecurityControls({
       implementation_status: 'Existing',
       control_type: 'Technical',
       framework_reference: 'NIST'
@@ -193,7 +193,7 @@ describe('getSecurityControls', () => {
   });
 
   it('should handle numeric conversions for effectiveness_rating', async () => {
-    const results = await getSecurityControls({ implementation_status: 'Existing' });
+    const { items: results } = await getSecurityControls({ implementation_status: 'Existing' });
 
     const accessControl = results.find(c => c.name === 'Access Control Policy');
     const networkSeg = results.find(c => c.name === 'Network Segmentation');
@@ -205,14 +205,14 @@ describe('getSecurityControls', () => {
   });
 
   it('should handle null effectiveness_rating values', async () => {
-    const results = await getSecurityControls({ implementation_status: 'Planned' });
+    const { items: results } = await getSecurityControls({ implementation_status: 'Planned' });
 
     expect(results).toHaveLength(1);
     expect(results[0].effectiveness_rating).toBeNull();
   });
 
   it('should return empty array when no controls match filters', async () => {
-    const results = await getSecurityControls({ 
+    const { items: results } = await getSecurityControls({ 
       framework_reference: 'NonExistentFramework' 
     });
 
@@ -305,7 +305,7 @@ describe('getSecurityControlsByContainer', () => {
   });
 
   it('should fetch controls for specific container', async () => {
-    const results = await getSecurityControlsByContainer(testContainerId1);
+    const results = (await getSecurityControlsByContainer({ containerId: testContainerId1 })).items;
 
     expect(results).toHaveLength(2);
     results.forEach(control => {
@@ -318,7 +318,7 @@ describe('getSecurityControlsByContainer', () => {
   });
 
   it('should fetch controls for different container', async () => {
-    const results = await getSecurityControlsByContainer(testContainerId2);
+    const results = (await getSecurityControlsByContainer({ containerId: testContainerId2 })).items;
 
     expect(results).toHaveLength(1);
     expect(results[0].container_id).toBe(testContainerId2);
@@ -326,7 +326,7 @@ describe('getSecurityControlsByContainer', () => {
   });
 
   it('should handle numeric conversions correctly', async () => {
-    const results = await getSecurityControlsByContainer(testContainerId1);
+    const results = (await getSecurityControlsByContainer({ containerId: testContainerId1 })).items;
 
     const controlA = results.find(c => c.name === 'Container 1 Control A');
     const controlB = results.find(c => c.name === 'Container 1 Control B');
@@ -337,13 +337,13 @@ describe('getSecurityControlsByContainer', () => {
   });
 
   it('should return empty array for non-existent container', async () => {
-    const results = await getSecurityControlsByContainer(99999);
+    const results = (await getSecurityControlsByContainer({ containerId: 99999 })).items;
 
     expect(results).toHaveLength(0);
   });
 
   it('should verify controls exist in database', async () => {
-    await getSecurityControlsByContainer(testContainerId1);
+    await getSecurityControlsByContainer({ containerId: testContainerId1 });
 
     // Verify data exists in database
     const dbControls = await db.select()
@@ -356,7 +356,7 @@ describe('getSecurityControlsByContainer', () => {
   });
 
   it('should include all control fields', async () => {
-    const results = await getSecurityControlsByContainer(testContainerId2);
+    const results = (await getSecurityControlsByContainer({ containerId: testContainerId2 })).items;
 
     expect(results).toHaveLength(1);
     const control = results[0];
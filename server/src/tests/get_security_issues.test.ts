@@ -98,7 +98,7 @@ describe('getSecurityIssues', () => {
       })
       .execute();
 
-    const results = await getSecurityIssues();
+    const { items: results } = await getSecurityIssues();
 
     expect(results).toHaveLength(2);
     expect(results[0].title).toEqual('Critical SQL Injection');
@@ -139,7 +139,7 @@ describe('getSecurityIssues', () => {
       container_id: testContainer1.id
     };
 
-    const results = await getSecurityIssues(filter);
+    const { items: results } = await getSecurityIssues(filter);
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toEqual('Container 1 Issue');
@@ -188,7 +188,7 @@ describe('getSecurityIssues', () => {
       severity: 'Critical'
     };
 
-    const results = await getSecurityIssues(filter);
+    const { items: results } = await getSecurityIssues(filter);
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toEqual('Critical Issue');
@@ -226,7 +226,7 @@ describe('getSecurityIssues', () => {
       status: 'Resolved'
     };
 
-    const results = await getSecurityIssues(filter);
+    const { items: results } = await getSecurityIssues(filter);
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toEqual('Resolved Issue');
@@ -278,7 +278,7 @@ describe('getSecurityIssues', () => {
       risk_score_max: 90
     };
 
-    const results = await getSecurityIssues(filter);
+    const { items: results } = await getSecurityIssues(filter);
 
     expect(results).toHaveLength(2);
     expect(results[0].title).toEqual('High Risk Issue');
@@ -311,7 +311,7 @@ describe('getSecurityIssues', () => {
       created_before: tomorrow
     };
 
-    const results = await getSecurityIssues(filter);
+    const { items: results } = await getSecurityIssues(filter);
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toEqual('Recent Issue');
@@ -360,7 +360,7 @@ describe('getSecurityIssues', () => {
       risk_score_min: 70
     };
 
-    const results = await getSecurityIssues(filter);
+    const { items: results } = await getSecurityIssues(filter);
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toEqual('Matching Issue');
@@ -388,7 +388,7 @@ describe('getSecurityIssues', () => {
       severity: 'Critical'
     };
 
-    const results = await getSecurityIssues(filter);
+    const { items: results } = await getSecurityIssues(filter);
 
     expect(results).toHaveLength(0);
   });
@@ -442,7 +442,7 @@ describe('getSecurityIssuesByContainer', () => {
       })
       .execute();
 
-    const results = await getSecurityIssuesByContainer(testContainer1.id);
+    const results = (await getSecurityIssuesByContainer({ containerId: testContainer1.id })).items;
 
     expect(results).toHaveLength(2);
     // With hierarchy DESC, Task > Story > Epic in enum order
@@ -477,7 +477,7 @@ describe('getSecurityIssuesByContainer', () => {
       })
       .execute();
 
-    const results = await getSecurityIssuesByContainer(testContainer1.id);
+    const results = (await getSecurityIssuesByContainer({ containerId: testContainer1.id })).items;
 
     expect(results).toHaveLength(1);
     const issue = results[0];
@@ -537,7 +537,7 @@ describe('getSecurityIssuesByContainer', () => {
       })
       .execute();
 
-    const results = await getSecurityIssuesByContainer(testContainer1.id);
+    const results = (await getSecurityIssuesByContainer({ containerId: testContainer1.id })).items;
 
     expect(results).toHaveLength(3);
     
@@ -570,7 +570,7 @@ describe('getSecurityIssuesByContainer', () => {
       })
       .execute();
 
-    const results = await getSecurityIssuesByContainer(testContainer1.id);
+    const results = (await getSecurityIssuesByContainer({ containerId: testContainer1.id })).items;
 
     expect(results).toHaveLength(1);
     const issue = results[0];
@@ -581,14 +581,37 @@ describe('getSecurityIssuesByContainer', () => {
     expect(issue.linddun_category).toEqual('Spoofing');
   });
 
+  it('should page through a container in hierarchy order', async () => {
+    await db.insert(securityIssuesTable)
+      .values((['Epic', 'Task', 'Story', 'Task'] as const).map((hierarchy, index) => ({
+        title: `${hierarchy} ${index}`,
+        description: 'Paged issue',
+        severity: 'High' as const,
+        classification: 'Vulnerability' as const,
+        hierarchy,
+        risk_score: 10 * (index + 1),
+        container_id: testContainer1.id,
+        created_by: testUser1.id
+      })))
+      .execute();
+
+    const first = await getSecurityIssuesByContainer({ containerId: testContainer1.id, limit: 3 });
+    const second = await getSecurityIssuesByContainer({ containerId: testContainer1.id, limit: 3, cursor: first.next_cursor! });
+
+    expect(first.total).toEqual(4);
+    expect(first.items.map(issue => issue.title)).toEqual(['Task 3', 'Task 1', 'Story 2']);
+    expect(second.items.map(issue => issue.title)).toEqual(['Epic 0']);
+    expect(second.next_cursor).toBeNull();
+  });
+
   it('should return empty array when container has no issues', async () => {
-    const results = await getSecurityIssuesByContainer(testContainer1.id);
+    const results = (await getSecurityIssuesByContainer({ containerId: testContainer1.id })).items;
 
     expect(results).toHaveLength(0);
   });
 
   it('should return empty array for non-existent container', async () => {
-    const results = await getSecurityIssuesByContainer(99999);
+    const results = (await getSecurityIssuesByContainer({ containerId: 99999 })).items;
 
     expect(results).toHaveLength(0);
   });
@@ -1,12 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, containersTable, securityReviewsTable } from '../db/schema';
+import { usersTable, containersTable, securityReviewsTable, type NewUser, type NewContainer, type NewSecurityReview } from '../db/schema';
 import { getSecurityReviews, getSecurityReviewsByContainer, getSecurityReviewById } from '../handlers/get_security_reviews';
-import { type CreateUserInput, type CreateContainerInput, type CreateSecurityReviewInput } from '../schema';
 
 // Test data setup
-const testUser: CreateUserInput = {
+const testUser: NewUser = {
   username: 'testuser',
   email: 'test@example.com',
   full_name: 'Test User',
@@ -14,7 +13,7 @@ const testUser: CreateUserInput = {
   is_active: true
 };
 
-const testReviewer: CreateUserInput = {
+const testReviewer: NewUser = {
   username: 'reviewer',
   email: 'reviewer@example.com',
   full_name: 'Test Reviewer',
@@ -22,7 +21,7 @@ const testReviewer: CreateUserInput = {
   is_active: true
 };
 
-const testContainer: CreateContainerInput = {
+const testContainer: NewContainer = {
   name: 'Test Container',
   description: 'Container for testing',
   type: 'Project',
@@ -31,7 +30,7 @@ const testContainer: CreateContainerInput = {
   created_by: 1 // Will be set after user creation
 };
 
-const testReview1: CreateSecurityReviewInput = {
+const testReview1: NewSecurityReview = {
   title: 'Security Architecture Review',
   description: 'Review of system architecture',
   document_name: 'arch_review.pdf',
@@ -41,7 +40,7 @@ const testReview1: CreateSecurityReviewInput = {
   created_by: 1 // Will be set after user creation
 };
 
-const testReview2: CreateSecurityReviewInput = {
+const testReview2: NewSecurityReview = {
   title: 'Code Security Review',
   description: 'Review of application code',
   document_name: null,
@@ -56,7 +55,7 @@ describe('getSecurityReviews', () => {
   afterEach(resetDB);
 
   it('should return empty array when no reviews exist', async () => {
-    const reviews = await getSecurityReviews();
+    const { items: reviews } = await getSecurityReviews();
     expect(reviews).toEqual([]);
   });
 
@@ -85,7 +84,7 @@ describe('getSecurityReviews', () => {
       }
     ]).execute();
 
-    const reviews = await getSecurityReviews();
+    const { items: reviews } = await getSecurityReviews({ sort: [{ field: 'title', direction: 'desc' }] });
 
     expect(reviews).toHaveLength(2);
     expect(reviews[0].title).toEqual('Security Architecture Review');
@@ -136,8 +135,8 @@ describe('getSecurityReviews', () => {
       }
     ]).execute();
 
-    const reviewsContainer1 = await getSecurityReviews({ container_id: container1Id });
-    const reviewsContainer2 = await getSecurityReviews({ container_id: container2Id });
+    const { items: reviewsContainer1 } = await getSecurityReviews({ container_id: container1Id });
+    const { items: reviewsContainer2 } = await getSecurityReviews({ container_id: container2Id });
 
     expect(reviewsContainer1).toHaveLength(1);
     expect(reviewsContainer1[0].container_id).toEqual(container1Id);
@@ -176,8 +175,8 @@ describe('getSecurityReviews', () => {
       }
     ]).execute();
 
-    const pendingReviews = await getSecurityReviews({ status: 'Pending' });
-    const completedReviews = await getSecurityReviews({ status: 'Completed' });
+    const { items: pendingReviews } = await getSecurityReviews({ status: 'Pending' });
+    const { items: completedReviews } = await getSecurityReviews({ status: 'Completed' });
 
     expect(pendingReviews).toHaveLength(1);
     expect(pendingReviews[0].status).toEqual('Pending');
@@ -217,8 +216,8 @@ describe('getSecurityReviews', () => {
       }
     ]).execute();
 
-    const nonAnalyzedReviews = await getSecurityReviews({ ai_analysis_complete: false });
-    const analyzedReviews = await getSecurityReviews({ ai_analysis_complete: true });
+    const { items: nonAnalyzedReviews } = await getSecurityReviews({ ai_analysis_complete: false });
+    const { items: analyzedReviews } = await getSecurityReviews({ ai_analysis_complete: true });
 
     expect(nonAnalyzedReviews).toHaveLength(1);
     expect(nonAnalyzedReviews[0].ai_analysis_complete).toEqual(false);
@@ -259,7 +258,7 @@ describe('getSecurityReviews', () => {
       }
     ]).execute();
 
-    const reviewsByReviewer = await getSecurityReviews({ reviewer_id: reviewerId });
+    const { items: reviewsByReviewer } = await getSecurityReviews({ reviewer_id: reviewerId });
 
     expect(reviewsByReviewer).toHaveLength(1);
     expect(reviewsByReviewer[0].reviewer_id).toEqual(reviewerId);
@@ -299,7 +298,7 @@ describe('getSecurityReviews', () => {
       }
     ]).execute();
 
-    const filteredReviews = await getSecurityReviews({
+    const { items: filteredReviews } = await getSecurityReviews({
       container_id: containerId,
       reviewer_id: reviewerId,
       status: 'InReview',
@@ -319,7 +318,7 @@ describe('getSecurityReviewsByContainer', () => {
   afterEach(resetDB);
 
   it('should return empty array when no reviews exist for container', async () => {
-    const reviews = await getSecurityReviewsByContainer(999);
+    const reviews = (await getSecurityReviewsByContainer({ containerId: 999 })).items;
     expect(reviews).toEqual([]);
   });
 
@@ -348,7 +347,7 @@ describe('getSecurityReviewsByContainer', () => {
       }
     ]).execute();
 
-    const reviews = await getSecurityReviewsByContainer(containerId);
+    const reviews = (await getSecurityReviewsByContainer({ containerId })).items;
 
     expect(reviews).toHaveLength(2);
     reviews.forEach(review => {
@@ -391,8 +390,8 @@ describe('getSecurityReviewsByContainer', () => {
       }
     ]).execute();
 
-    const container1Reviews = await getSecurityReviewsByContainer(container1Id);
-    const container2Reviews = await getSecurityReviewsByContainer(container2Id);
+    const container1Reviews = (await getSecurityReviewsByContainer({ containerId: container1Id })).items;
+    const container2Reviews = (await getSecurityReviewsByContainer({ containerId: container2Id })).items;
 
     expect(container1Reviews).toHaveLength(1);
     expect(container1Reviews[0].container_id).toEqual(container1Id);
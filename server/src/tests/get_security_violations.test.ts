@@ -6,9 +6,9 @@ import { eq } from 'drizzle-orm';
 import { 
   getSecurityViolations, 
   getActiveSecurityViolations, 
-  getSecurityViolationsWithDetails,
-  type GetSecurityViolationsInput 
+  getSecurityViolationsWithDetails
 } from '../handlers/get_security_violations';
+import { type GetSecurityViolationsInput } from '../schema';
 
 describe('getSecurityViolations', () => {
   let testUserId: number;
@@ -69,7 +69,7 @@ describe('getSecurityViolations', () => {
 
   describe('getSecurityViolations', () => {
     it('should fetch all security violations with default parameters', async () => {
-      const result = await getSecurityViolations();
+      const { items: result } = await getSecurityViolations();
 
       expect(result).toHaveLength(1);
       expect(result[0].title).toEqual('Test Security Breach');
@@ -101,7 +101,7 @@ describe('getSecurityViolations', () => {
         violation_type: 'PolicyViolation'
       };
 
-      const result = await getSecurityViolations(filters);
+      const { items: result } = await getSecurityViolations(filters);
 
       expect(result).toHaveLength(1);
       expect(result[0].violation_type).toEqual('PolicyViolation');
@@ -126,7 +126,7 @@ describe('getSecurityViolations', () => {
         severity: 'High'
       };
 
-      const result = await getSecurityViolations(filters);
+      const { items: result } = await getSecurityViolations(filters);
 
       expect(result).toHaveLength(1);
       expect(result[0].severity).toEqual('High');
@@ -151,7 +151,7 @@ describe('getSecurityViolations', () => {
         status: 'Open'
       };
 
-      const result = await getSecurityViolations(filters);
+      const { items: result } = await getSecurityViolations(filters);
 
       expect(result).toHaveLength(1);
       expect(result[0].status).toEqual('Open');
@@ -188,7 +188,7 @@ describe('getSecurityViolations', () => {
         assigned_to: testUserId
       };
 
-      const result = await getSecurityViolations(filters);
+      const { items: result } = await getSecurityViolations(filters);
 
       expect(result).toHaveLength(1);
       expect(result[0].assigned_to).toEqual(testUserId);
@@ -224,7 +224,7 @@ describe('getSecurityViolations', () => {
         container_id: testContainerId
       };
 
-      const result = await getSecurityViolations(filters);
+      const { items: result } = await getSecurityViolations(filters);
 
       expect(result).toHaveLength(1);
       expect(result[0].container_id).toEqual(testContainerId);
@@ -262,7 +262,7 @@ describe('getSecurityViolations', () => {
         incident_before: new Date('2024-01-18')
       };
 
-      const result = await getSecurityViolations(filters);
+      const { items: result } = await getSecurityViolations(filters);
 
       expect(result).toHaveLength(1);
       expect(result[0].title).toEqual('Test Security Breach');
@@ -313,7 +313,7 @@ describe('getSecurityViolations', () => {
         container_id: testContainerId
       };
 
-      const result = await getSecurityViolations(filters);
+      const { items: result } = await getSecurityViolations(filters);
 
       expect(result).toHaveLength(2);
       result.forEach(violation => {
@@ -358,14 +358,18 @@ describe('getSecurityViolations', () => {
         .execute();
 
       const filters: Partial<GetSecurityViolationsInput> = {
-        limit: 2,
-        offset: 1
+        limit: 2
       };
 
-      const result = await getSecurityViolations(filters);
+      const first = await getSecurityViolations(filters);
+      const second = await getSecurityViolations({ ...filters, cursor: first.next_cursor! });
 
-      expect(result).toHaveLength(2);
-      // Should skip the first result due to offset
+      expect(first.items).toHaveLength(2);
+      expect(first.total).toEqual(4);
+      // The second page picks up after the first
+      expect(second.items).toHaveLength(2);
+      expect(second.next_cursor).toBeNull();
+      expect(new Set([...first.items, ...second.items].map(violation => violation.id)).size).toEqual(4);
     });
 
     it('should apply custom ordering correctly', async () => {
@@ -394,10 +398,10 @@ describe('getSecurityViolations', () => {
         .execute();
 
       const filters: Partial<GetSecurityViolationsInput> = {
-        order_by: 'incident_date'
+        sort: [{ field: 'incident_date', direction: 'desc' }]
       };
 
-      const result = await getSecurityViolations(filters);
+      const { items: result } = await getSecurityViolations(filters);
 
       expect(result).toHaveLength(3);
       // Should be ordered by incident_date descending
@@ -441,7 +445,7 @@ describe('getSecurityViolations', () => {
         ])
         .execute();
 
-      const result = await getActiveSecurityViolations();
+      const result = (await getActiveSecurityViolations()).items;
 
       expect(result).toHaveLength(2);
       result.forEach(violation => {
@@ -463,7 +467,7 @@ describe('getSecurityViolations', () => {
         .where(eq(securityViolationsTable.id, testViolationId))
         .execute();
 
-      const result = await getActiveSecurityViolations();
+      const result = (await getActiveSecurityViolations()).items;
 
       expect(result).toHaveLength(0);
     });
@@ -493,17 +497,38 @@ describe('getSecurityViolations', () => {
         ])
         .execute();
 
-      const result = await getActiveSecurityViolations();
+      const result = (await getActiveSecurityViolations()).items;
 
       expect(result).toHaveLength(3);
       // Critical should come first due to severity ordering
       expect(result[0].severity).toEqual('Critical');
     });
+
+    it('should page through active violations in severity order', async () => {
+      await db.insert(securityViolationsTable)
+        .values(['Critical', 'Low', 'Medium'].map(severity => ({
+          title: `${severity} Open Violation`,
+          description: `${severity} violation`,
+          violation_type: 'PolicyViolation' as const,
+          severity: severity as 'Critical' | 'Low' | 'Medium',
+          incident_date: new Date('2024-01-16'),
+          created_by: testUserId
+        })))
+        .execute();
+
+      const first = await getActiveSecurityViolations({ limit: 3 });
+      const second = await getActiveSecurityViolations({ limit: 3, cursor: first.next_cursor! });
+
+      expect(first.total).toEqual(4);
+      expect(first.items.map(violation => violation.severity)).toEqual(['Critical', 'High', 'Medium']);
+      expect(second.items.map(violation => violation.severity)).toEqual(['Low']);
+      expect(second.next_cursor).toBeNull();
+    });
   });
 
   describe('getSecurityViolationsWithDetails', () => {
     it('should fetch violations with container and assignee details', async () => {
-      const result = await getSecurityViolationsWithDetails();
+      const { items: result } = await getSecurityViolationsWithDetails();
 
       expect(result).toHaveLength(1);
       expect(result[0].title).toEqual('Test Security Breach');
@@ -529,7 +554,7 @@ describe('getSecurityViolations', () => {
         })
         .execute();
 
-      const result = await getSecurityViolationsWithDetails();
+      const { items: result } = await getSecurityViolationsWithDetails();
 
       const unassignedViolation = result.find(v => v.title === 'Unassigned Violation');
       expect(unassignedViolation).toBeDefined();
@@ -543,7 +568,7 @@ describe('getSecurityViolations', () => {
         severity: 'High'
       };
 
-      const result = await getSecurityViolationsWithDetails(filters);
+      const { items: result } = await getSecurityViolationsWithDetails(filters);
 
       expect(result).toHaveLength(1);
       expect(result[0].container_id).toEqual(testContainerId);
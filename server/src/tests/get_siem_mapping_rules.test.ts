@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { siemMappingRulesTable, usersTable } from '../db/schema';
+import { getSiemMappingRules } from '../handlers/get_siem_mapping_rules';
+
+describe('getSiemMappingRules', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list every rule in the order they are tried', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+    await db.insert(siemMappingRulesTable)
+      .values([
+        { name: 'Catch-all', priority: 1000, correlation_fields: ['event_id'], created_by: admin.id },
+        { name: 'Disabled', priority: 5, is_active: false, correlation_fields: ['event_id'], created_by: admin.id },
+        { name: 'Firewall', priority: 10, vendor: 'Cisco', correlation_fields: ['event_id', 'source'], created_by: admin.id }
+      ])
+      .execute();
+
+    const rules = await getSiemMappingRules();
+
+    expect(rules.map(rule => [rule.name, rule.is_active])).toEqual([
+      ['Disabled', false],
+      ['Firewall', true],
+      ['Catch-all', true]
+    ]);
+  });
+});
@@ -1,13 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput } from '../schema';
+import { usersTable, type NewUser } from '../db/schema';
 import { getUsers, type GetUsersInput, getUsersInputSchema } from '../handlers/get_users';
 import { eq } from 'drizzle-orm';
 
 // Test user data
-const testUsers: CreateUserInput[] = [
+const testUsers: NewUser[] = [
   {
     username: 'admin_user',
     email: 'admin@example.com',
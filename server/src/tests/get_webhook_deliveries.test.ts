@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { getWebhookDeliveries } from '../handlers/get_webhook_deliveries';
+
+describe('getWebhookDeliveries', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should page through the delivery log of one subscription, newest first', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+    const [siem, chat] = await db.insert(webhookSubscriptionsTable)
+      .values([
+        { name: 'SIEM', url: 'https://siem.example.com/hooks', secret: 'siem-shared-secret', events: ['issue.created'], created_by: admin.id },
+        { name: 'Chat', url: 'https://chat.example.com/hooks', secret: 'chat-shared-secret', events: ['issue.created'], created_by: admin.id }
+      ])
+      .returning()
+      .execute();
+    const delivery = (subscriptionId: number, eventId: string, status: 'Pending' | 'Succeeded' | 'Failed') =>
+      ({ subscription_id: subscriptionId, event_id: eventId, event_type: 'issue.created', payload: { id: eventId }, status });
+    await db.insert(webhookDeliveriesTable)
+      .values([
+        delivery(siem.id, 'evt-1', 'Succeeded'),
+        delivery(chat.id, 'evt-1', 'Succeeded'),
+        delivery(siem.id, 'evt-2', 'Failed'),
+        delivery(siem.id, 'evt-3', 'Succeeded')
+      ])
+      .execute();
+
+    const page = await getWebhookDeliveries({ subscription_id: siem.id, limit: 2, offset: 0 });
+    expect(page.total).toEqual(3);
+    expect(page.items.map(item => item.event_id)).toEqual(['evt-3', 'evt-2']);
+    expect(page.items[0].payload).toEqual({ id: 'evt-3' });
+
+    const failed = await getWebhookDeliveries({ subscription_id: siem.id, status: 'Failed', limit: 50, offset: 0 });
+    expect(failed.total).toEqual(1);
+    expect(failed.items.map(item => item.event_id)).toEqual(['evt-2']);
+  });
+
+  it('should throw for a missing subscription', async () => {
+    await expect(getWebhookDeliveries({ subscription_id: 999, limit: 50, offset: 0 })).rejects.toThrow('Webhook subscription with id 999 not found');
+  });
+});
@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, webhookSubscriptionsTable } from '../db/schema';
+import { getWebhookSubscriptions } from '../handlers/get_webhook_subscriptions';
+
+describe('getWebhookSubscriptions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list subscriptions in creation order without secrets', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+    await db.insert(webhookSubscriptionsTable)
+      .values([
+        { name: 'SIEM', url: 'https://siem.example.com/hooks', secret: 'siem-shared-secret', events: ['issue.created'], created_by: admin.id },
+        { name: 'Chat', url: 'https://chat.example.com/hooks', secret: 'chat-shared-secret', events: ['violation.created'], is_active: false, created_by: admin.id }
+      ])
+      .execute();
+
+    const subscriptions = await getWebhookSubscriptions();
+
+    expect(subscriptions.map(subscription => [subscription.name, subscription.events, subscription.is_active])).toEqual([
+      ['SIEM', ['issue.created'], true],
+      ['Chat', ['violation.created'], false]
+    ]);
+    expect(JSON.stringify(subscriptions)).not.toContain('shared-secret');
+  });
+});
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityIssuesTable, usersTable } from '../db/schema';
+import { importBurp, importZap } from '../handlers/import_dast';
+import { asc } from 'drizzle-orm';
+
+const readFixture = (name: string): string =>
+  readFileSync(path.resolve(import.meta.dir, 'fixtures/dast', name), 'utf8');
+
+const createTestUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({ username: 'dast', email: 'dast@example.com', full_name: 'Nightly DAST', role: 'SecurityAnalyst' })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestContainer = async (userId: number) => {
+  const result = await db.insert(containersTable)
+    .values({ name: 'Web Shop', description: null, type: 'Application', created_by: userId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const importedIssues = () => db.select()
+  .from(securityIssuesTable)
+  .orderBy(asc(securityIssuesTable.id))
+  .execute();
+
+describe('importZap', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an issue per alert instance from the JSON report', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    const summary = await importZap({ container_id: container.id, report: JSON.parse(readFixture('zap.json')) }, user);
+
+    expect(summary).toMatchObject({ created: 7, updated: 0, skipped: 2 });
+    expect(summary.findings.slice(0, 2)).toEqual([
+      expect.objectContaining({ reference: 'site[0].alerts[4].instances[0]', rule_id: '10109', reason: 'Alert is informational' }),
+      expect.objectContaining({ reference: 'site[0].alerts[5].instances[0]', rule_id: '90022', reason: 'Alert is marked as a false positive' })
+    ]);
+
+    const issues = await importedIssues();
+    expect(issues.map(issue => [issue.title, issue.hierarchy, issue.severity])).toEqual([
+      ['SQL Injection', 'Story', 'High'],
+      ['SQL Injection in q at https://shop.example.com/search?q=shoes', 'Task', 'High'],
+      ['SQL Injection in id at https://shop.example.com/products', 'Task', 'High'],
+      ['SQL Injection in sort at https://api.shop.example.com/v1/orders?sort=created', 'Task', 'High'],
+      // Confirmed by a user, so one level above the risk
+      ['Cross Site Scripting (Reflected) in q at https://shop.example.com/search?q=%3Cscript%3Ealert%281%29%3B%3C%2Fscript%3E', 'Task', 'Critical'],
+      ['Content Security Policy (CSP) Header Not Set at https://shop.example.com/', 'Task', 'Medium'],
+      // Low risk at low confidence stays Low
+      ['Cookie with SameSite Attribute None in session at https://shop.example.com/', 'Task', 'Low']
+    ]);
+    issues.forEach(issue => expect(issue).toMatchObject({ classification: 'Vulnerability', is_automated_finding: true }));
+  });
+
+  it('should group an alert raised on several URLs under a Story', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await importZap({ container_id: container.id, report: readFixture('zap.json') }, user);
+
+    const [story, search, products, orders, xss] = await importedIssues();
+    expect(story).toMatchObject({ cwe_id: 'CWE-89', affected_url: null, parent_issue_id: null });
+    expect(story.description).toStartWith('SQL injection may be possible.');
+    expect(story.description).toContain([
+      'Affected URLs:',
+      '- GET https://shop.example.com/search?q=shoes (q)',
+      '- POST https://shop.example.com/products (id)',
+      '- GET https://api.shop.example.com/v1/orders?sort=created (sort)'
+    ].join('\n'));
+    [search, products, orders].forEach(task => expect(task.parent_issue_id).toEqual(story.id));
+    expect(xss.parent_issue_id).toBeNull();
+  });
+
+  it('should record the URL, parameter, evidence and CWE of each instance', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await importZap({ container_id: container.id, report: readFixture('zap.json') }, user);
+
+    const [, search, products] = await importedIssues();
+    expect(products).toMatchObject({
+      cwe_id: 'CWE-89',
+      affected_url: 'https://shop.example.com/products',
+      affected_parameter: 'id',
+      evidence: 'You have an error in your SQL syntax'
+    });
+    expect(products.description).toContain('URL: POST https://shop.example.com/products');
+    expect(products.description).toContain('Attack: 1 OR 1=1');
+    expect(products.description).toContain([
+      'Solution:',
+      'Do not trust client side input, even if there is client side validation in place.',
+      'Use prepared statements with parameterized queries.'
+    ].join('\n'));
+    expect(products.description).toContain('Alert: 40018 (ZAP 2.14.0)\nRisk: High, confidence: Medium');
+    expect(products.description).toContain('- https://cheatsheetseries.owasp.org/cheatsheets/SQL_Injection_Prevention_Cheat_Sheet.html');
+
+    expect(search).toMatchObject({ affected_parameter: 'q', evidence: null });
+    expect(search.description).toContain("Other information: The page results were successfully manipulated");
+  });
+
+  it('should read the XML report like the JSON one', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    const summary = await importZap({ container_id: container.id, report: readFixture('zap.xml') }, user);
+
+    expect(summary).toMatchObject({ created: 3, updated: 0, skipped: 1 });
+    const [story, search, products] = await importedIssues();
+    expect(story).toMatchObject({ title: 'SQL Injection', hierarchy: 'Story' });
+    expect(search).toMatchObject({ title: 'SQL Injection in q at https://shop.example.com/search?q=shoes', parent_issue_id: story.id });
+    expect(search.description).toContain("Attack: shoes' AND '1'='1' --");
+    expect(products).toMatchObject({ evidence: 'You have an error in your SQL syntax', cwe_id: 'CWE-89' });
+
+    // The same alerts match across formats
+    const json = await importZap({ container_id: container.id, report: readFixture('zap.json') }, user);
+    expect(json).toMatchObject({ created: 4 });
+    expect(await importedIssues()).toHaveLength(7);
+  });
+
+  it('should move a lone Task under a new Story when the alert spreads', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const report = JSON.parse(readFixture('zap.json'));
+    const singleSite = { ...report, site: [report.site[1]] };
+    await importZap({ container_id: container.id, report: singleSite }, user);
+    const [orders] = await importedIssues();
+    expect(orders).toMatchObject({ hierarchy: 'Task', parent_issue_id: null });
+
+    const summary = await importZap({ container_id: container.id, report }, user);
+
+    const story = (await importedIssues()).find(issue => issue.hierarchy === 'Story')!;
+    expect(summary.findings.find(finding => finding.issue_id === orders.id)).toMatchObject({ outcome: 'updated' });
+    const [moved] = await importedIssues();
+    expect(moved.parent_issue_id).toEqual(story.id);
+  });
+
+  it('should skip unchanged alerts on re-import', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importZap({ container_id: container.id, report: readFixture('zap.json') }, user);
+
+    const summary = await importZap({ container_id: container.id, report: readFixture('zap.json') }, user);
+
+    expect(summary).toMatchObject({ created: 0, updated: 0, skipped: 9 });
+  });
+
+  it('should reject reports that are not ZAP reports', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await expect(importZap({ container_id: container.id, report: { site: [{ alerts: [{ pluginid: '1' }] }] } }, user))
+      .rejects.toThrow(/Invalid ZAP report: site\.0\.alerts\.0\.riskcode/);
+    await expect(importZap({ container_id: container.id, report: '<OWASPZAPReport><site></OWASPZAPReport>' }, user))
+      .rejects.toThrow('Invalid ZAP report: not well-formed XML (Unexpected end tag </OWASPZAPReport> at offset 22)');
+    await expect(importZap({ container_id: container.id, report: readFixture('burp.xml') }, user))
+      .rejects.toThrow('Invalid ZAP report: expected a <OWASPZAPReport> document, found <issues>');
+    expect(await importedIssues()).toHaveLength(0);
+  });
+});
+
+describe('importBurp', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an issue per reported issue', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    const summary = await importBurp({ container_id: container.id, report: readFixture('burp.xml') }, user);
+
+    expect(summary).toMatchObject({ created: 5, updated: 0, skipped: 1 });
+    expect(summary.findings[0]).toMatchObject({ reference: 'issues[4]', rule_id: '16777472', reason: 'Alert is informational' });
+
+    const issues = await importedIssues();
+    expect(issues.map(issue => [issue.title, issue.hierarchy, issue.severity])).toEqual([
+      ['SQL injection', 'Story', 'Critical'],
+      // Certain confidence raises the severity, firm keeps it
+      ['SQL injection in q at https://shop.example.com/search', 'Task', 'Critical'],
+      ['SQL injection in id at https://shop.example.com/products', 'Task', 'High'],
+      ['Cross-site scripting (reflected) in q at https://shop.example.com/search', 'Task', 'High'],
+      ['Strict transport security not enforced at https://shop.example.com/', 'Task', 'Medium']
+    ]);
+    expect(issues[1].parent_issue_id).toEqual(issues[0].id);
+    expect(issues[2].parent_issue_id).toEqual(issues[0].id);
+  });
+
+  it('should map the CWE, request method and issue detail', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await importBurp({ container_id: container.id, report: readFixture('burp.xml') }, user);
+
+    const [, search, , xss, hsts] = await importedIssues();
+    // The first of several classifications
+    expect(search).toMatchObject({
+      cwe_id: 'CWE-89',
+      affected_url: 'https://shop.example.com/search',
+      affected_parameter: 'q',
+      evidence: 'The q parameter appears to be vulnerable to SQL injection attacks. A single quote was submitted in the q parameter, and a database error message was returned.'
+    });
+    expect(search.description).toStartWith('SQL injection vulnerabilities arise when user-controllable data');
+    expect(search.description).toContain('URL: GET https://shop.example.com/search');
+    expect(search.description).toContain('Alert: 1049088 (Burp 2024.8.4)\nRisk: High, confidence: Confirmed');
+    expect(search.description).toContain('- https://portswigger.net/web-security/sql-injection/cheat-sheet');
+
+    expect(xss.evidence).toContain('The payload <script>alert(1)</script> was submitted in the q parameter.');
+    expect(xss.description).toContain('- Input should be validated as strictly as possible on arrival.');
+    expect(hsts).toMatchObject({ cwe_id: 'CWE-523', affected_parameter: null, evidence: null });
+  });
+
+  it('should reject reports that are not Burp XML', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await expect(importBurp({ container_id: container.id, report: { issues: [] } }, user))
+      .rejects.toThrow('Invalid Burp report: expected XML text');
+    await expect(importBurp({ container_id: container.id, report: '<issues><issue><name>SQL injection</name></issue></issues>' }, user))
+      .rejects.toThrow(/Invalid Burp report: issues\.0\.type/);
+    await expect(importBurp({ container_id: container.id, report: '<issues>&ent;</issues>' }, user))
+      .rejects.toThrow('Invalid Burp report: not well-formed XML (Unknown entity &ent; at offset 8)');
+  });
+});
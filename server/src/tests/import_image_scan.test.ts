@@ -0,0 +1,405 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  activityEventsTable,
+  architectureComponentsTable,
+  containersTable,
+  issueStatusHistoryTable,
+  securityIssuesTable,
+  usersTable
+} from '../db/schema';
+import { importGrype, importTrivy } from '../handlers/import_image_scan';
+import { asc, eq } from 'drizzle-orm';
+
+const readFixture = (name: string) =>
+  JSON.parse(readFileSync(path.resolve(import.meta.dir, 'fixtures/image_scans', name), 'utf8'));
+
+const createTestUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({ username: 'pipeline', email: 'pipeline@example.com', full_name: 'Build Pipeline', role: 'SecurityAnalyst' })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestContainer = async (userId: number, name = 'Payments API') => {
+  const result = await db.insert(containersTable)
+    .values({ name, description: null, type: 'Service', created_by: userId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestComponent = async (containerId: number, userId: number, name = 'payments-api image') => {
+  const result = await db.insert(architectureComponentsTable)
+    .values({ name, component_type: 'Container', container_id: containerId, created_by: userId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const importedIssues = () => db.select()
+  .from(securityIssuesTable)
+  .orderBy(asc(securityIssuesTable.id))
+  .execute();
+
+describe('importTrivy', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a Vulnerability issue per vulnerable package', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    const summary = await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    // Misconfigurations in the config result are not imported
+    expect(summary).toMatchObject({ created: 6, updated: 0, skipped: 0 });
+    expect(summary.findings.map(finding => finding.rule_id)).toEqual([
+      'CVE-2023-5363', 'CVE-2023-5363', 'CVE-2024-0727', 'CVE-2023-42366', 'CVE-2024-4068', 'GHSA-c2qf-rxjj-qqgw'
+    ]);
+
+    const issues = await importedIssues();
+    expect(issues.map(issue => issue.title)).toEqual([
+      'CVE-2023-5363 in libcrypto3 3.1.3-r0',
+      'CVE-2023-5363 in libssl3 3.1.3-r0',
+      'CVE-2024-0727 in libcrypto3 3.1.3-r0',
+      'CVE-2023-42366 in busybox 1.36.1-r2',
+      'CVE-2024-4068 in braces 3.0.2',
+      'GHSA-c2qf-rxjj-qqgw in semver 7.5.1'
+    ]);
+    issues.forEach(issue => expect(issue).toMatchObject({ classification: 'Vulnerability', hierarchy: 'Task', is_automated_finding: true }));
+  });
+
+  it('should carry the CVE, package and CVSS-derived impacts', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    const [libcrypto] = await importedIssues();
+    expect(libcrypto).toMatchObject({
+      cve_id: 'CVE-2023-5363',
+      package_name: 'libcrypto3',
+      package_version: '3.1.3-r0',
+      fixed_version: '3.1.4-r0',
+      // NVD is the severity source, so its vector wins over Red Hat's
+      cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N',
+      cvss_version: '3.1',
+      cvss_base_score: 7.5,
+      severity: 'High',
+      confidentiality_impact: 100,
+      integrity_impact: 0,
+      availability_impact: 0,
+      attack_complexity: 'Low',
+      component_id: null
+    });
+    expect(libcrypto.risk_score).toBeGreaterThan(0);
+    expect(libcrypto.description).toStartWith('openssl: Incorrect cipher key and IV length processing');
+    expect(libcrypto.description).toContain('Package: libcrypto3 3.1.3-r0 (alpine)');
+    expect(libcrypto.description).toContain('Fixed in: 3.1.4-r0');
+    expect(libcrypto.description).toContain('Found in: registry.example.com/payments-api:1.4.2 (alpine 3.18.4)');
+    expect(libcrypto.description).toContain('- https://avd.aquasec.com/nvd/cve-2023-5363');
+
+    const [updatedContainer] = await db.select().from(containersTable).where(eq(containersTable.id, container.id)).execute();
+    expect(updatedContainer.risk_score).toBeGreaterThan(0);
+  });
+
+  it('should fall back to the scanner severity without a usable vector', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    const issues = await importedIssues();
+    const busybox = issues.find(issue => issue.package_name === 'busybox')!;
+    expect(busybox).toMatchObject({ severity: 'Low', cvss_vector: null, fixed_version: null, risk_score: 0 });
+    expect(busybox.description).toContain('Fixed in: no fixed version available');
+
+    // CVSS 3.0 vectors are scored as 3.1; GHSA ids carry no CVE
+    const semver = issues.find(issue => issue.package_name === 'semver')!;
+    expect(semver).toMatchObject({
+      cve_id: null,
+      cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:L',
+      severity: 'Medium',
+      availability_impact: 50
+    });
+  });
+
+  it('should attach findings to an architecture component', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const component = await createTestComponent(container.id, user.id);
+
+    await importTrivy({ container_id: container.id, component_id: component.id, report: readFixture('trivy.json') }, user);
+
+    const issues = await importedIssues();
+    issues.forEach(issue => expect(issue.component_id).toEqual(component.id));
+  });
+
+  it('should reject a component of another container', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const other = await createTestContainer(user.id, 'Other');
+    const component = await createTestComponent(other.id, user.id);
+
+    await expect(importTrivy({ container_id: container.id, component_id: component.id, report: readFixture('trivy.json') }, user))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: `Architecture component ${component.id} belongs to a different container` });
+    await expect(importTrivy({ container_id: container.id, component_id: 999, report: readFixture('trivy.json') }, user))
+      .rejects.toThrow('Architecture component with id 999 not found');
+    expect(await importedIssues()).toHaveLength(0);
+  });
+
+  it('should not duplicate findings when the same report is imported twice at once', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    const summaries = await Promise.all([1, 2].map(() =>
+      importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user)));
+
+    expect(summaries.map(summary => summary.created).sort()).toEqual([0, 6]);
+    expect(await importedIssues()).toHaveLength(6);
+  });
+
+  it('should match findings in a newer image tag', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    const report = readFixture('trivy.json');
+    report.Results[0].Target = 'registry.example.com/payments-api:1.4.3 (alpine 3.18.4)';
+    const summary = await importTrivy({ container_id: container.id, report }, user);
+
+    // Only the descriptions of the OS packages mention the target
+    expect(summary).toMatchObject({ created: 0, updated: 4, skipped: 2 });
+    expect(await importedIssues()).toHaveLength(6);
+  });
+
+  it('should update the package version of a finding that is still vulnerable', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    const report = readFixture('trivy.json');
+    report.Results[0].Vulnerabilities[2].InstalledVersion = '3.1.4-r0';
+    const summary = await importTrivy({ container_id: container.id, report }, user);
+
+    expect(summary).toMatchObject({ created: 0, updated: 1, skipped: 5 });
+    const issue = (await importedIssues()).find(candidate => candidate.cve_id === 'CVE-2024-0727')!;
+    expect(issue).toMatchObject({ title: 'CVE-2024-0727 in libcrypto3 3.1.4-r0', package_version: '3.1.4-r0' });
+
+    const activity = await db.select().from(activityEventsTable)
+      .where(eq(activityEventsTable.field, 'package_version'))
+      .execute();
+    expect(activity).toEqual([expect.objectContaining({ entity_id: issue.id, old_value: '3.1.3-r0', new_value: '3.1.4-r0' })]);
+  });
+
+  it('should resolve findings that a later scan no longer reports', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    // libcrypto3 upgraded past the fix for CVE-2024-0727
+    const report = readFixture('trivy.json');
+    report.Results[0].Vulnerabilities.splice(2, 1);
+    const summary = await importTrivy({ container_id: container.id, report }, user);
+
+    const fixed = (await importedIssues()).find(issue => issue.cve_id === 'CVE-2024-0727')!;
+    expect(summary).toMatchObject({ created: 0, updated: 0, reopened: 0, resolved: 1, skipped: 5, resolved_issue_ids: [fixed.id] });
+    expect(fixed).toMatchObject({ status: 'Resolved', resolution_note: 'No longer reported by Trivy' });
+
+    const history = await db.select().from(issueStatusHistoryTable)
+      .where(eq(issueStatusHistoryTable.issue_id, fixed.id))
+      .orderBy(asc(issueStatusHistoryTable.id))
+      .execute();
+    expect(history.map(entry => [entry.from_status, entry.to_status, entry.note])).toEqual([
+      [null, 'Open', null],
+      ['Open', 'Resolved', 'No longer reported by Trivy']
+    ]);
+  });
+
+  it('should reopen a resolved finding that is reported again as a regression', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+    const report = readFixture('trivy.json');
+    report.Results[0].Vulnerabilities.splice(2, 1);
+    await importTrivy({ container_id: container.id, report }, user);
+
+    const summary = await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    const regressed = (await importedIssues()).find(issue => issue.cve_id === 'CVE-2024-0727')!;
+    expect(summary).toMatchObject({ created: 0, reopened: 1, resolved: 0, skipped: 5 });
+    expect(summary.findings[2]).toMatchObject({ outcome: 'reopened', issue_id: regressed.id });
+    expect(regressed).toMatchObject({ status: 'Open', resolution_note: null });
+
+    const history = await db.select().from(issueStatusHistoryTable)
+      .where(eq(issueStatusHistoryTable.issue_id, regressed.id))
+      .orderBy(asc(issueStatusHistoryTable.id))
+      .execute();
+    expect(history[2]).toMatchObject({ from_status: 'Resolved', to_status: 'Open', note: 'Regression: reported again by Trivy' });
+  });
+
+  it('should leave accepted risks closed when they are reported again', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+    const [accepted] = await importedIssues();
+    await db.update(securityIssuesTable)
+      .set({ status: 'Closed', resolution_note: 'Not reachable from the payment flow' })
+      .where(eq(securityIssuesTable.id, accepted.id))
+      .execute();
+
+    const summary = await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    expect(summary).toMatchObject({ reopened: 0, resolved: 0, skipped: 6 });
+    const [issue] = await importedIssues();
+    expect(issue).toMatchObject({ status: 'Closed', resolution_note: 'Not reachable from the payment flow' });
+  });
+
+  it('should identify findings per component', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const api = await createTestComponent(container.id, user.id);
+    const worker = await createTestComponent(container.id, user.id, 'payments-worker image');
+    await importTrivy({ container_id: container.id, component_id: api.id, report: readFixture('trivy.json') }, user);
+
+    // The same packages in another image are separate findings
+    const summary = await importTrivy({ container_id: container.id, component_id: worker.id, report: readFixture('trivy.json') }, user);
+    expect(summary).toMatchObject({ created: 6, resolved: 0 });
+
+    // A later scan of one image resolves only that image's findings
+    const report = readFixture('trivy.json');
+    report.Results[0].Vulnerabilities.splice(2, 1);
+    const resolved = await importTrivy({ container_id: container.id, component_id: worker.id, report }, user);
+    expect(resolved).toMatchObject({ resolved: 1 });
+
+    const issues = await importedIssues();
+    expect(issues.filter(issue => issue.component_id === api.id && issue.status === 'Open')).toHaveLength(6);
+    expect(issues.filter(issue => issue.component_id === worker.id && issue.status === 'Resolved')).toHaveLength(1);
+  });
+
+  it('should not resolve anything from a scan without results', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    const summary = await importTrivy({ container_id: container.id, report: { SchemaVersion: 2, Results: [] } }, user);
+
+    expect(summary).toMatchObject({ resolved: 0, resolved_issue_ids: [] });
+    expect((await importedIssues()).every(issue => issue.status === 'Open')).toBe(true);
+  });
+
+  it('should leave Critical findings open for an importer who may not close them', async () => {
+    const user = await createTestUser();
+    const manager = (await db.insert(usersTable)
+      .values({ username: 'manager', email: 'manager@example.com', full_name: 'Manager', role: 'SecurityManager' })
+      .returning()
+      .execute())[0];
+    const container = await createTestContainer(user.id);
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+    const critical = (await importedIssues()).find(issue => issue.cve_id === 'CVE-2024-0727')!;
+    await db.update(securityIssuesTable).set({ severity: 'Critical' }).where(eq(securityIssuesTable.id, critical.id)).execute();
+
+    const report = readFixture('trivy.json');
+    report.Results[0].Vulnerabilities.splice(2, 1);
+    const pending = await importTrivy({ container_id: container.id, report }, user);
+
+    expect(pending).toMatchObject({ resolved: 0, resolved_issue_ids: [], pending_issue_ids: [critical.id] });
+    expect((await importedIssues()).find(issue => issue.id === critical.id)!.status).toEqual('Open');
+
+    const resolved = await importTrivy({ container_id: container.id, report }, manager);
+    expect(resolved).toMatchObject({ resolved: 1, resolved_issue_ids: [critical.id], pending_issue_ids: [] });
+  });
+
+  it('should reject reports that are not Trivy JSON', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await expect(importTrivy({ container_id: container.id, report: { SchemaVersion: 1, Results: [] } }, user))
+      .rejects.toThrow(/Invalid Trivy report: SchemaVersion/);
+    await expect(importTrivy({ container_id: container.id, report: 'Total: 6 (HIGH: 3)' }, user))
+      .rejects.toThrow('Invalid Trivy report: not valid JSON');
+  });
+});
+
+describe('importGrype', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a Vulnerability issue per match', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    const summary = await importGrype({ container_id: container.id, report: JSON.stringify(readFixture('grype.json')) }, user);
+
+    expect(summary).toMatchObject({ created: 3, updated: 0, skipped: 0 });
+    const [libcrypto] = await importedIssues();
+
+    expect(libcrypto).toMatchObject({
+      title: 'CVE-2023-5363 in libcrypto3 3.1.3-r0',
+      cve_id: 'CVE-2023-5363',
+      package_name: 'libcrypto3',
+      package_version: '3.1.3-r0',
+      fixed_version: '3.1.4-r0',
+      cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N',
+      severity: 'High',
+      confidentiality_impact: 100
+    });
+    expect(libcrypto.description).toContain('Package: libcrypto3 3.1.3-r0 (apk)');
+    expect(libcrypto.description).toContain('Found in: registry.example.com/payments-api:1.4.2');
+    expect(libcrypto.description).toContain('Vulnerability: CVE-2023-5363 (Grype 0.79.3)');
+  });
+
+  it('should read the CVE and vector from related vulnerabilities', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await importGrype({ container_id: container.id, report: readFixture('grype.json') }, user);
+
+    const [, braces, busybox] = await importedIssues();
+    expect(braces).toMatchObject({
+      title: 'CVE-2024-4068 in braces 3.0.2',
+      cve_id: 'CVE-2024-4068',
+      cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:H',
+      severity: 'High',
+      availability_impact: 100
+    });
+    expect(braces.description).toStartWith('Uncontrolled resource consumption in braces');
+
+    // Only a CVSS v2 vector, negligible severity and no fix
+    expect(busybox).toMatchObject({ severity: 'Low', cvss_vector: null, fixed_version: null });
+  });
+
+  it('should skip unchanged matches on re-import', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importGrype({ container_id: container.id, report: readFixture('grype.json') }, user);
+
+    const summary = await importGrype({ container_id: container.id, report: readFixture('grype.json') }, user);
+
+    expect(summary).toMatchObject({ created: 0, updated: 0, skipped: 3 });
+  });
+
+  it('should not resolve findings of another scanner', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importTrivy({ container_id: container.id, report: readFixture('trivy.json') }, user);
+
+    const summary = await importGrype({ container_id: container.id, report: { matches: [] } }, user);
+
+    expect(summary).toMatchObject({ created: 0, resolved: 0 });
+    (await importedIssues()).forEach(issue => expect(issue).toMatchObject({ scanner: 'Trivy', status: 'Open' }));
+  });
+
+  it('should reject reports that are not Grype JSON', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await expect(importGrype({ container_id: container.id, report: { source: {} } }, user))
+      .rejects.toThrow(/Invalid Grype report: matches/);
+  });
+});
@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activityEventsTable, containersTable, securityIssuesTable, usersTable } from '../db/schema';
+import { importSarif } from '../handlers/import_sarif';
+import { updateSecurityIssue } from '../handlers/update_security_issue';
+import { asc, eq } from 'drizzle-orm';
+
+const readFixture = (name: string): string =>
+  readFileSync(path.resolve(import.meta.dir, 'fixtures/sarif', name), 'utf8');
+
+const createTestUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({ username: 'scanner', email: 'scanner@example.com', full_name: 'CI Scanner', role: 'SecurityAnalyst' })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestContainer = async (userId: number) => {
+  const result = await db.insert(containersTable)
+    .values({ name: 'Payments API', description: null, type: 'Service', created_by: userId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const importedIssues = () => db.select()
+  .from(securityIssuesTable)
+  .orderBy(asc(securityIssuesTable.id))
+  .execute();
+
+describe('importSarif', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an automated issue per Semgrep result', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    const summary = await importSarif({ container_id: container.id, sarif: readFixture('semgrep.sarif') }, user);
+
+    expect(summary).toMatchObject({ created: 2, updated: 0, skipped: 1 });
+    const issues = await importedIssues();
+    expect(issues).toHaveLength(2);
+
+    const [sqlInjection, md5] = issues;
+    expect(sqlInjection).toMatchObject({
+      title: 'Semgrep Finding: javascript.express.security.injection.tainted-sql-string in users.js',
+      severity: 'High', // level error
+      status: 'Open',
+      classification: 'Weakness',
+      hierarchy: 'Task',
+      container_id: container.id,
+      created_by: user.id,
+      is_automated_finding: true
+    });
+    expect(sqlInjection.description).toContain('Detected user input used to manually construct a SQL string.');
+    expect(sqlInjection.description).toContain('Location: src/routes/users.js:42:5');
+    expect(sqlInjection.description).toContain('Rule: javascript.express.security.injection.tainted-sql-string (Semgrep OSS 1.85.0)');
+    expect(sqlInjection.description).toContain('Use **parameterized queries** instead of string concatenation.');
+    expect(sqlInjection.description).toContain('More information: https://semgrep.dev/r/');
+    expect(sqlInjection.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+
+    // No result level, so the rule's default applies
+    expect(md5).toMatchObject({ title: 'MD5 used as password hash in hash.js', severity: 'Medium' });
+  });
+
+  it('should report what happened to every result', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    const summary = await importSarif({ container_id: container.id, sarif: readFixture('semgrep.sarif') }, user);
+    const issues = await importedIssues();
+
+    expect(summary.findings).toEqual([
+      {
+        reference: 'runs[0].results[0]',
+        rule_id: 'javascript.express.security.injection.tainted-sql-string',
+        outcome: 'created',
+        issue_id: issues[0].id,
+        reason: null
+      },
+      {
+        reference: 'runs[0].results[1]',
+        rule_id: 'javascript.lang.security.audit.md5-used-as-password',
+        outcome: 'created',
+        issue_id: issues[1].id,
+        reason: null
+      },
+      {
+        reference: 'runs[0].results[2]',
+        rule_id: 'generic.secrets.security.detected-generic-secret',
+        outcome: 'skipped',
+        issue_id: null,
+        reason: 'Result is suppressed'
+      }
+    ]);
+  });
+
+  it('should map CodeQL security-severity and resolve rules from extensions', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const sarif = JSON.parse(readFixture('codeql.sarif'));
+
+    const summary = await importSarif({ container_id: container.id, sarif }, user);
+
+    expect(summary).toMatchObject({ created: 2, updated: 0, skipped: 1 });
+    expect(summary.findings[2]).toMatchObject({ outcome: 'skipped', reason: 'Result kind is pass' });
+
+    const [pathInjection, codeInjection] = await importedIssues();
+    expect(pathInjection).toMatchObject({ title: 'Uncontrolled data used in path expression in download.js', severity: 'High' });
+    expect(pathInjection.description).toStartWith('This path depends on a user-provided value.');
+    expect(pathInjection.description).toContain('Rule: js/path-injection (CodeQL 2.18.1)');
+    expect(pathInjection.description).toContain('Security severity: 7.5');
+    expect(pathInjection.description).toContain('Validate user input before using it to construct a file path.');
+
+    // Location given as an artifact index, message with an argument
+    expect(codeInjection).toMatchObject({ title: 'Code injection in eval.js', severity: 'Critical' });
+    expect(codeInjection.description).toStartWith('This code execution depends on a user-provided value.');
+    expect(codeInjection.description).toContain('Location: server/eval.js:9:3');
+  });
+
+  it('should skip unchanged findings on re-import', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importSarif({ container_id: container.id, sarif: readFixture('semgrep.sarif') }, user);
+
+    const summary = await importSarif({ container_id: container.id, sarif: readFixture('semgrep.sarif') }, user);
+
+    expect(summary).toMatchObject({ created: 0, updated: 0, skipped: 3 });
+    expect(summary.findings[0]).toMatchObject({ outcome: 'skipped', reason: 'Unchanged since the last import' });
+    expect(await importedIssues()).toHaveLength(2);
+  });
+
+  it('should update matched findings without touching triage', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importSarif({ container_id: container.id, sarif: readFixture('semgrep.sarif') }, user);
+    const [issue] = await importedIssues();
+    await updateSecurityIssue({ id: issue.id, status: 'In-progress', assigned_to: user.id }, user);
+
+    // Same finding on the same line, now reported at a lower level
+    const sarif = JSON.parse(readFixture('semgrep.sarif'));
+    sarif.runs[0].results[0].level = 'warning';
+    const summary = await importSarif({ container_id: container.id, sarif }, user);
+
+    expect(summary).toMatchObject({ created: 0, updated: 1, skipped: 2 });
+    expect(summary.findings[0]).toMatchObject({ outcome: 'updated', issue_id: issue.id });
+
+    const [updated] = await importedIssues();
+    expect(updated).toMatchObject({ severity: 'Medium', status: 'In-progress', assigned_to: user.id });
+
+    const activity = await db.select().from(activityEventsTable)
+      .where(eq(activityEventsTable.field, 'severity'))
+      .execute();
+    expect(activity).toEqual([expect.objectContaining({ entity_id: issue.id, old_value: 'High', new_value: 'Medium' })]);
+  });
+
+  it('should follow a fingerprinted finding when its line moves', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importSarif({ container_id: container.id, sarif: readFixture('semgrep.sarif') }, user);
+
+    const sarif = JSON.parse(readFixture('semgrep.sarif'));
+    sarif.runs[0].results[0].locations[0].physicalLocation.region.startLine = 58; // Has a tool fingerprint
+    sarif.runs[0].results[1].locations[0].physicalLocation.region.startLine = 9; // Located by line only
+    const summary = await importSarif({ container_id: container.id, sarif }, user);
+
+    expect(summary.findings.map(finding => finding.outcome)).toEqual(['updated', 'created', 'skipped']);
+    expect(await importedIssues()).toHaveLength(3);
+  });
+
+  it('should keep findings of different containers apart', async () => {
+    const user = await createTestUser();
+    const first = await createTestContainer(user.id);
+    const second = await createTestContainer(user.id);
+    await importSarif({ container_id: first.id, sarif: readFixture('semgrep.sarif') }, user);
+
+    const summary = await importSarif({ container_id: second.id, sarif: readFixture('semgrep.sarif') }, user);
+
+    expect(summary.created).toEqual(2);
+  });
+
+  it('should skip results that are not findings', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const base = { ruleId: 'rule', message: { text: 'Found' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'a.js' }, region: { startLine: 1 } } }] };
+    const sarif = {
+      version: '2.1.0',
+      runs: [{
+        tool: { driver: { name: 'Scanner' } },
+        results: [
+          { ...base, level: 'none' },
+          { ...base, baselineState: 'absent' },
+          { ...base, suppressions: [{ status: 'rejected' }] },
+          { ...base, suppressions: [{ status: 'rejected' }] }
+        ]
+      }]
+    };
+
+    const summary = await importSarif({ container_id: container.id, sarif }, user);
+
+    expect(summary.findings.map(finding => [finding.outcome, finding.reason])).toEqual([
+      ['skipped', 'Result level is none'],
+      ['skipped', 'Result is absent from the current scan'],
+      ['created', null],
+      ['skipped', 'Duplicate of an earlier result in this report']
+    ]);
+  });
+
+  it('should resolve findings only of the tools in the log', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importSarif({ container_id: container.id, sarif: readFixture('semgrep.sarif') }, user);
+    await importSarif({ container_id: container.id, sarif: readFixture('codeql.sarif') }, user);
+
+    // Semgrep ran again and found only the first issue
+    const sarif = JSON.parse(readFixture('semgrep.sarif'));
+    sarif.runs[0].results = sarif.runs[0].results.slice(0, 1);
+    const summary = await importSarif({ container_id: container.id, sarif }, user);
+
+    expect(summary).toMatchObject({ created: 0, resolved: 1 });
+    const issues = await importedIssues();
+    expect(issues.map(issue => [issue.scanner, issue.status])).toEqual([
+      ['Semgrep OSS', 'Open'],
+      ['Semgrep OSS', 'Resolved'],
+      ['CodeQL', 'Open'],
+      ['CodeQL', 'Open']
+    ]);
+  });
+
+  it('should not resolve anything for a run without results', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    await importSarif({ container_id: container.id, sarif: readFixture('semgrep.sarif') }, user);
+
+    const sarif = JSON.parse(readFixture('semgrep.sarif'));
+    sarif.runs[0].results = [];
+    const summary = await importSarif({ container_id: container.id, sarif }, user);
+
+    expect(summary).toMatchObject({ resolved: 0, resolved_issue_ids: [] });
+    expect((await importedIssues()).map(issue => issue.status)).toEqual(['Open', 'Open']);
+  });
+
+  it('should accept a run without results', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+    const sarif = { version: '2.1.0', runs: [{ tool: { driver: { name: 'Scanner' } }, results: null }] };
+
+    expect(await importSarif({ container_id: container.id, sarif }, user))
+      .toMatchObject({ created: 0, updated: 0, reopened: 0, resolved: 0, skipped: 0, findings: [] });
+  });
+
+  it('should reject logs that are not SARIF 2.1.0', async () => {
+    const user = await createTestUser();
+    const container = await createTestContainer(user.id);
+
+    await expect(importSarif({ container_id: container.id, sarif: '{ not json' }, user))
+      .rejects.toThrow('Invalid SARIF: not valid JSON');
+    await expect(importSarif({ container_id: container.id, sarif: { version: '2.0.0', runs: [] } }, user))
+      .rejects.toThrow(/Invalid SARIF: version/);
+    await expect(importSarif({ container_id: container.id, sarif: { version: '2.1.0', runs: [{ results: [] }] } }, user))
+      .rejects.toThrow(/Invalid SARIF: runs\.0\.tool/);
+  });
+
+  it('should throw for a missing container', async () => {
+    const user = await createTestUser();
+
+    await expect(importSarif({ container_id: 999, sarif: readFixture('semgrep.sarif') }, user))
+      .rejects.toThrow('Container with id 999 not found');
+    expect(await importedIssues()).toHaveLength(0);
+  });
+});
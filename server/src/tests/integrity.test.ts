@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  commentsTable,
+  containersTable,
+  issueStatusHistoryTable,
+  securityIssuesTable,
+  securityReviewsTable,
+  securityViolationsTable,
+  sessionsTable,
+  usersTable
+} from '../db/schema';
+import { findOrphans, orphanReferences, repairOrphans } from '../db/integrity';
+import { foreignKeyError, isForeignKeyViolation } from '../errors';
+import { appRouter } from '../index';
+import { createCallerFactory } from '../trpc';
+import { eq, sql } from 'drizzle-orm';
+
+const createUser = async (username: string, role: 'Admin' | 'SecurityAnalyst' = 'SecurityAnalyst') => {
+  const result = await db.insert(usersTable)
+    .values({ username, email: `${username}@example.com`, full_name: username, role })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createContainer = async (createdBy: number) => {
+  const result = await db.insert(containersTable)
+    .values({ name: 'Payments', description: null, type: 'Application', created_by: createdBy })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createIssue = async (values: { container_id: number; created_by: number; parent_issue_id?: number; assigned_to?: number; hierarchy?: 'Epic' | 'Story' | 'Task' }) => {
+  const result = await db.insert(securityIssuesTable)
+    .values({
+      title: 'Finding',
+      description: 'Details',
+      severity: 'Medium',
+      classification: 'Vulnerability',
+      hierarchy: 'Task',
+      ...values
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+// Mimics a production database from before the constraints existed
+const dropForeignKeys = async () => {
+  const constraints = await db.execute<{ table_name: string; constraint_name: string }>(sql`
+    select conrelid::regclass::text as table_name, conname as constraint_name
+    from pg_constraint
+    where contype = 'f' and connamespace = 'public'::regnamespace
+  `);
+  for (const row of constraints.rows) {
+    await db.execute(sql`alter table ${sql.identifier(row.table_name)} drop constraint ${sql.identifier(row.constraint_name)}`);
+  }
+};
+
+describe('foreign keys', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should refuse to delete a container that still has issues', async () => {
+    const user = await createUser('analyst');
+    const container = await createContainer(user.id);
+    await createIssue({ container_id: container.id, created_by: user.id });
+
+    const error = await db.delete(containersTable).where(eq(containersTable.id, container.id)).execute()
+      .then(() => null, (caught: unknown) => caught);
+
+    // 23503 before Postgres 18, 23001 from it on
+    expect(isForeignKeyViolation(error)).toBe(true);
+    expect(foreignKeyError(error as { code: string; detail?: string }).code).toEqual('CONFLICT');
+  });
+
+  it('should unassign work when the assignee is deleted', async () => {
+    const creator = await createUser('creator');
+    const assignee = await createUser('assignee');
+    const container = await createContainer(creator.id);
+    const issue = await createIssue({ container_id: container.id, created_by: creator.id, assigned_to: assignee.id });
+
+    await db.delete(usersTable).where(eq(usersTable.id, assignee.id)).execute();
+
+    const issues = await db.select().from(securityIssuesTable).where(eq(securityIssuesTable.id, issue.id)).execute();
+    expect(issues[0].assigned_to).toBeNull();
+  });
+
+  it('should detach children and drop history when an issue is deleted', async () => {
+    const user = await createUser('analyst');
+    const container = await createContainer(user.id);
+    const story = await createIssue({ container_id: container.id, created_by: user.id, hierarchy: 'Story' });
+    const task = await createIssue({ container_id: container.id, created_by: user.id, parent_issue_id: story.id });
+    await db.insert(issueStatusHistoryTable)
+      .values({ issue_id: story.id, from_status: null, to_status: 'Open', changed_by: user.id })
+      .execute();
+
+    await db.delete(securityIssuesTable).where(eq(securityIssuesTable.id, story.id)).execute();
+
+    const tasks = await db.select().from(securityIssuesTable).where(eq(securityIssuesTable.id, task.id)).execute();
+    expect(tasks[0].parent_issue_id).toBeNull();
+    expect(await db.select().from(issueStatusHistoryTable).execute()).toHaveLength(0);
+  });
+
+  it('should report dangling ids as bad requests', async () => {
+    const admin = await createUser('admin', 'Admin');
+    const container = await createContainer(admin.id);
+    const caller = createCallerFactory(appRouter)({
+      user: { ...admin },
+      sessionToken: 'test-session-token',
+      request: { ip_address: null, user_agent: null }
+    });
+
+    await expect(caller.updateSecurityReview({ id: 999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(caller.createSecurityIssue({
+      title: 'Assigned to nobody',
+      description: 'Details',
+      severity: 'Low',
+      classification: 'Weakness',
+      hierarchy: 'Task',
+      mitre_attack_id: null,
+      mitre_attack_tactic: null,
+      mitre_attack_technique: null,
+      linddun_category: null,
+      attack_complexity: null,
+      threat_modeling_notes: null,
+      compensating_controls: null,
+      container_id: container.id,
+      parent_issue_id: null,
+      assigned_to: 999
+    })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: 'Key (assigned_to)=(999) is not present in table "users".'
+    });
+  });
+});
+
+describe('orphan repair', () => {
+  beforeEach(async () => {
+    await createDB();
+    await dropForeignKeys();
+  });
+  afterEach(resetDB);
+
+  it('should derive a repair for every foreign key', () => {
+    const byColumn = Object.fromEntries(orphanReferences.map(reference => [`${reference.table}.${reference.column}`, reference.repair]));
+
+    expect(byColumn['security_issues.assigned_to']).toEqual('set null');
+    expect(byColumn['security_issues.container_id']).toEqual('report');
+    expect(byColumn['sessions.user_id']).toEqual('delete');
+    expect(byColumn['issue_status_history.issue_id']).toEqual('delete');
+    expect(byColumn['audit_log.actor_id']).toBeUndefined();
+  });
+
+  it('should find nothing in a consistent database', async () => {
+    const user = await createUser('analyst');
+    const container = await createContainer(user.id);
+    await createIssue({ container_id: container.id, created_by: user.id, assigned_to: user.id });
+
+    expect(await findOrphans()).toEqual([]);
+  });
+
+  it('should report orphans without changing anything', async () => {
+    const user = await createUser('analyst');
+    const container = await createContainer(user.id);
+    const issue = await createIssue({ container_id: container.id, created_by: user.id, assigned_to: 404 });
+    const lost = await createIssue({ container_id: 405, created_by: user.id });
+
+    const reports = await findOrphans();
+
+    expect(reports).toEqual([
+      {
+        table: 'security_issues',
+        column: 'container_id',
+        referenced_table: 'containers',
+        referenced_column: 'id',
+        repair: 'report',
+        reason: 'missing',
+        ids: [lost.id]
+      },
+      {
+        table: 'security_issues',
+        column: 'assigned_to',
+        referenced_table: 'users',
+        referenced_column: 'id',
+        repair: 'set null',
+        reason: 'missing',
+        ids: [issue.id]
+      }
+    ]);
+    const issues = await db.select().from(securityIssuesTable).where(eq(securityIssuesTable.id, issue.id)).execute();
+    expect(issues[0].assigned_to).toEqual(404);
+  });
+
+  it('should clear, delete or leave orphans according to their repair', async () => {
+    const user = await createUser('analyst');
+    const container = await createContainer(user.id);
+    const issue = await createIssue({ container_id: container.id, created_by: user.id, parent_issue_id: 500 });
+    const lost = await createIssue({ container_id: 501, created_by: user.id });
+    await db.insert(sessionsTable)
+      .values({ user_id: 502, token_hash: 'hash', expires_at: new Date(Date.now() + 60_000) })
+      .execute();
+    const violations = await db.insert(securityViolationsTable)
+      .values({
+        title: 'Leak',
+        description: 'Details',
+        violation_type: 'DataLeak',
+        severity: 'High',
+        incident_date: new Date(),
+        related_issue_id: 503,
+        created_by: user.id
+      })
+      .returning()
+      .execute();
+    const replies = await db.insert(commentsTable)
+      .values({ entity_type: 'Issue', entity_id: issue.id, parent_comment_id: 504, body: 'Reply', author_id: user.id })
+      .returning()
+      .execute();
+
+    const reports = await repairOrphans();
+
+    expect(reports.map(report => `${report.table}.${report.column}:${report.repair}`).sort()).toEqual([
+      'comments.parent_comment_id:set null',
+      'security_issues.container_id:report',
+      'security_issues.parent_issue_id:set null',
+      'security_violations.related_issue_id:set null',
+      'sessions.user_id:delete'
+    ]);
+
+    const issues = await db.select().from(securityIssuesTable).execute();
+    expect(issues.find(row => row.id === issue.id)!.parent_issue_id).toBeNull();
+    expect(issues.find(row => row.id === lost.id)!.container_id).toEqual(501);
+    expect(await db.select().from(sessionsTable).execute()).toHaveLength(0);
+    const repairedViolations = await db.select().from(securityViolationsTable).where(eq(securityViolationsTable.id, violations[0].id)).execute();
+    expect(repairedViolations[0].related_issue_id).toBeNull();
+    const repairedReplies = await db.select().from(commentsTable).where(eq(commentsTable.id, replies[0].id)).execute();
+    expect(repairedReplies[0].parent_comment_id).toBeNull();
+
+    // Only the rows that need a person's decision remain
+    expect((await findOrphans()).map(report => report.repair)).toEqual(['report']);
+  });
+
+  it('should unassign open work from deactivated users', async () => {
+    const creator = await createUser('creator');
+    const leaver = await createUser('leaver');
+    const container = await createContainer(creator.id);
+    const open = await createIssue({ container_id: container.id, created_by: creator.id, assigned_to: leaver.id });
+    const closed = await createIssue({ container_id: container.id, created_by: creator.id, assigned_to: leaver.id });
+    await db.update(securityIssuesTable).set({ status: 'Closed' }).where(eq(securityIssuesTable.id, closed.id)).execute();
+    const reviews = await db.insert(securityReviewsTable)
+      .values({ title: 'Design review', reviewer_id: leaver.id, created_by: creator.id })
+      .returning()
+      .execute();
+    await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, leaver.id)).execute();
+
+    const reports = await repairOrphans();
+
+    expect(reports.map(report => [report.table, report.column, report.reason, report.ids])).toEqual([
+      ['security_issues', 'assigned_to', 'inactive', [open.id]],
+      ['security_reviews', 'reviewer_id', 'inactive', [reviews[0].id]]
+    ]);
+    const issues = await db.select().from(securityIssuesTable).execute();
+    expect(issues.find(row => row.id === open.id)!.assigned_to).toBeNull();
+    // Finished work keeps its history
+    expect(issues.find(row => row.id === closed.id)!.assigned_to).toEqual(leaver.id);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import {
+  DEFAULT_ISSUE_WORKFLOW,
+  assertStatusTransition,
+  findStatusTransition,
+  type IssueWorkflow
+} from '../workflow/issue_workflow';
+import { getIssueWorkflow } from '../handlers/get_issue_workflow';
+import { issueWorkflowSchema } from '../schema';
+
+const analyst = { id: 1, role: 'SecurityAnalyst' as const };
+const manager = { id: 2, role: 'SecurityManager' as const };
+
+describe('issue workflow', () => {
+  it('should define each transition once', () => {
+    const keys = DEFAULT_ISSUE_WORKFLOW.transitions.map(transition => `${transition.from}->${transition.to}`);
+    expect(new Set(keys).size).toEqual(keys.length);
+    expect(DEFAULT_ISSUE_WORKFLOW.transitions.every(transition => transition.from !== transition.to)).toBe(true);
+  });
+
+  it('should not let resolved issues skip back into progress', () => {
+    expect(findStatusTransition(DEFAULT_ISSUE_WORKFLOW, 'Resolved', 'In-progress')).toBeUndefined();
+    expect(findStatusTransition(DEFAULT_ISSUE_WORKFLOW, 'Resolved', 'Open')).toBeDefined();
+  });
+
+  it('should check the transition permission', () => {
+    const change = { from: 'Open' as const, to: 'Closed' as const, severity: 'Low' as const, values: { resolution_note: 'Accepted' } };
+
+    expect(() => assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, change, analyst)).toThrow(TRPCError);
+    expect(assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, change, manager).permission).toEqual('risk:accept');
+  });
+
+  it('should check the critical permission only for Critical issues', () => {
+    const change = { from: 'In-progress' as const, to: 'Resolved' as const, values: { resolution_note: 'Fixed' } };
+
+    expect(() => assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, { ...change, severity: 'Critical' }, analyst))
+      .toThrow(/issues:close_critical/);
+    expect(() => assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, { ...change, severity: 'High' }, analyst))
+      .not.toThrow();
+  });
+
+  it('should check the critical permission when either the stored or the new severity is Critical', () => {
+    const change = { from: 'In-progress' as const, to: 'Resolved' as const, values: { resolution_note: 'Fixed' } };
+
+    expect(() => assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, { ...change, severity: 'Critical', new_severity: 'Low' }, analyst))
+      .toThrow(/issues:close_critical/);
+    expect(() => assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, { ...change, severity: 'Low', new_severity: 'Critical' }, analyst))
+      .toThrow(/issues:close_critical/);
+  });
+
+  it('should report invalid transitions as bad requests', () => {
+    const attempt = () => assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, {
+      from: 'Resolved',
+      to: 'In-progress',
+      severity: 'Low',
+      values: {}
+    }, analyst);
+
+    expect(attempt).toThrow(TRPCError);
+    expect(attempt).toThrow(expect.objectContaining({ code: 'BAD_REQUEST' }));
+  });
+
+  it('should treat blank required fields as missing', () => {
+    expect(() => assertStatusTransition(DEFAULT_ISSUE_WORKFLOW, {
+      from: 'Open',
+      to: 'Resolved',
+      severity: 'Low',
+      values: { resolution_note: '   ' }
+    }, analyst)).toThrow('Status transition from Open to Resolved requires resolution_note');
+  });
+
+  it('should enforce the required fields of a custom workflow', () => {
+    const workflow: IssueWorkflow = {
+      initial_status: 'Open',
+      transitions: [
+        { from: 'Open', to: 'In-progress', permission: 'issues:write', required_fields: ['assigned_to'] }
+      ]
+    };
+    const change = { from: 'Open' as const, to: 'In-progress' as const, severity: 'Low' as const };
+
+    expect(() => assertStatusTransition(workflow, { ...change, values: { assigned_to: null } }, analyst))
+      .toThrow(/requires assigned_to/);
+    expect(() => assertStatusTransition(workflow, { ...change, values: { assigned_to: 7 } }, analyst))
+      .not.toThrow();
+  });
+
+  it('should expose the workflow to clients', async () => {
+    const workflow = await getIssueWorkflow();
+
+    expect(issueWorkflowSchema.parse(workflow)).toEqual(DEFAULT_ISSUE_WORKFLOW);
+  });
+});
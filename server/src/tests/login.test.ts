@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type LoginInput } from '../schema';
+import { login } from '../handlers/login';
+import { dummyPasswordHash, hashPassword, verifyPassword } from '../auth/password';
+import { getSessionUser, hashSessionToken } from '../auth/session';
+import { eq } from 'drizzle-orm';
+
+const testPassword = 'correct-horse-battery';
+
+const testInput: LoginInput = {
+  username: 'analyst',
+  password: testPassword
+};
+
+const createTestUser = async (overrides: Partial<typeof usersTable.$inferInsert> = {}) => {
+  const result = await db.insert(usersTable)
+    .values({
+      username: 'analyst',
+      email: 'analyst@example.com',
+      full_name: 'Security Analyst',
+      role: 'SecurityAnalyst',
+      password_hash: await hashPassword(testPassword),
+      is_active: true,
+      ...overrides
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a session token and the public user', async () => {
+    const user = await createTestUser();
+
+    const result = await login(testInput);
+
+    expect(typeof result.token).toBe('string');
+    expect(result.token.length).toBeGreaterThan(20);
+    expect(result.expires_at).toBeInstanceOf(Date);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(result.user.id).toEqual(user.id);
+    expect(result.user.role).toEqual('SecurityAnalyst');
+    expect((result.user as Record<string, unknown>)['password_hash']).toBeUndefined();
+  });
+
+  it('should persist only the hash of the session token', async () => {
+    const user = await createTestUser();
+
+    const result = await login(testInput);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).not.toEqual(result.token);
+    expect(sessions[0].token_hash).toEqual(hashSessionToken(result.token));
+    expect(sessions[0].revoked_at).toBeNull();
+  });
+
+  it('should resolve the issued token to the signed-in user', async () => {
+    const user = await createTestUser();
+
+    const result = await login(testInput);
+    const sessionUser = await getSessionUser(result.token);
+
+    expect(sessionUser).not.toBeNull();
+    expect(sessionUser!.id).toEqual(user.id);
+    expect(sessionUser!.username).toEqual('analyst');
+  });
+
+  it('should reject a wrong password', async () => {
+    await createTestUser();
+
+    await expect(login({ ...testInput, password: 'wrong-password' })).rejects.toThrow(/invalid username or password/i);
+  });
+
+  it('should reject an unknown username', async () => {
+    await expect(login({ ...testInput, username: 'nobody' })).rejects.toThrow(/invalid username or password/i);
+  });
+
+  it('should check unknown usernames against a real scrypt hash', async () => {
+    const hash = await dummyPasswordHash();
+
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(await dummyPasswordHash()).toEqual(hash);
+    expect(await verifyPassword(testInput.password, hash)).toBe(false);
+  });
+
+  it('should reject users without a password', async () => {
+    await createTestUser({ password_hash: null });
+
+    await expect(login(testInput)).rejects.toThrow(/invalid username or password/i);
+  });
+
+  it('should reject inactive users', async () => {
+    await createTestUser({ is_active: false });
+
+    await expect(login(testInput)).rejects.toThrow(/invalid username or password/i);
+  });
+
+  it('should not resolve expired sessions', async () => {
+    const user = await createTestUser();
+
+    const result = await login(testInput);
+
+    await db.update(sessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+
+    expect(await getSessionUser(result.token)).toBeNull();
+  });
+
+  it('should not resolve sessions of deactivated users', async () => {
+    const user = await createTestUser();
+
+    const result = await login(testInput);
+
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(await getSessionUser(result.token)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { logout } from '../handlers/logout';
+import { createSession, getSessionUser } from '../auth/session';
+import { eq } from 'drizzle-orm';
+
+const createTestUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      username: 'analyst',
+      email: 'analyst@example.com',
+      full_name: 'Security Analyst',
+      role: 'SecurityAnalyst',
+      is_active: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('logout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should revoke the session', async () => {
+    const user = await createTestUser();
+    const session = await createSession(user.id);
+
+    const result = await logout(session.token);
+
+    expect(result.success).toBe(true);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+
+    expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+    expect(await getSessionUser(session.token)).toBeNull();
+  });
+
+  it('should only revoke the given session', async () => {
+    const user = await createTestUser();
+    const first = await createSession(user.id);
+    const second = await createSession(user.id);
+
+    await logout(first.token);
+
+    expect(await getSessionUser(first.token)).toBeNull();
+    expect((await getSessionUser(second.token))?.id).toEqual(user.id);
+  });
+
+  it('should report unknown or already revoked tokens', async () => {
+    const user = await createTestUser();
+    const session = await createSession(user.id);
+
+    await logout(session.token);
+
+    expect((await logout(session.token)).success).toBe(false);
+    expect((await logout('not-a-token')).success).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { resetDB } from '../helpers';
+import { db } from '../db';
+import * as schema from '../db/schema';
+import { sql } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { MIGRATIONS_FOLDER, getMigrationStatus, rollbackLastMigration, runMigrations } from '../db/migrate';
+
+const FIXTURES = path.resolve(import.meta.dir, 'fixtures/migrations');
+
+const journal = JSON.parse(readFileSync(path.join(MIGRATIONS_FOLDER, 'meta/_journal.json'), 'utf8')) as {
+  entries: { idx: number; tag: string }[];
+};
+const tags = journal.entries.map(entry => entry.tag);
+
+const readSnapshot = (idx: number) =>
+  JSON.parse(readFileSync(path.join(MIGRATIONS_FOLDER, 'meta', `${String(idx).padStart(4, '0')}_snapshot.json`), 'utf8'));
+
+const columnsOf = async (table: string): Promise<string[]> => {
+  const result = await db.execute<{ column_name: string }>(sql`
+    select column_name from information_schema.columns
+    where table_schema = 'public' and table_name = ${table}
+    order by ordinal_position
+  `);
+  return result.rows.map(row => row.column_name);
+};
+
+describe('migrations', () => {
+  beforeEach(resetDB);
+  afterEach(resetDB);
+
+  it('should have a checked-in migration for every schema change', async () => {
+    const snapshot = readSnapshot(journal.entries[journal.entries.length - 1].idx);
+
+    // Fails when schema.ts changed without `bun db:generate`
+    const drift = await generateMigration(snapshot, generateDrizzleJson({ ...schema }));
+    expect(drift).toEqual([]);
+  });
+
+  it('should apply pending migrations once', async () => {
+    expect(await runMigrations()).toEqual(tags);
+    expect(await runMigrations()).toEqual([]);
+
+    const status = await getMigrationStatus();
+    expect(status.pending).toEqual(0);
+    expect(status.migrations.map(migration => migration.status)).toEqual(tags.map(() => 'applied'));
+    expect(await columnsOf('control_frameworks')).toContain('code');
+  });
+
+  it('should apply migrations once when servers start concurrently', async () => {
+    const results = await Promise.all([runMigrations(), runMigrations(), runMigrations()]);
+
+    expect(results.flat()).toEqual(tags);
+    const rows = await db.execute(sql`select count(*)::int as count from drizzle.__drizzle_migrations`);
+    expect(rows.rows[0]['count']).toEqual(tags.length);
+  });
+
+  it('should adopt a database created before migrations without re-running the baseline', async () => {
+    // What `drizzle-kit push` left behind: the baseline schema and no history
+    const pushed = await generateMigration(generateDrizzleJson({}), readSnapshot(0));
+    await db.execute(pushed.join('\n'));
+
+    expect((await getMigrationStatus()).pending).toEqual(tags.length);
+    expect(await runMigrations()).toEqual(tags.slice(1));
+
+    const status = await getMigrationStatus();
+    expect(status.pending).toEqual(0);
+    expect(status.migrations[0]).toMatchObject({ tag: '0000_baseline', status: 'applied', reversible: false });
+  });
+
+  it('should refuse to adopt a database that does not match the baseline', async () => {
+    // Pushed from an older schema.ts, before the baseline's later tables
+    const pushed = await generateMigration(generateDrizzleJson({}), readSnapshot(0));
+    await db.execute(pushed.join('\n'));
+    await db.execute(sql`drop table comments cascade`);
+    await db.execute(sql`alter table users drop column password_hash`);
+
+    await expect(runMigrations()).rejects.toThrow(
+      'Existing schema without migration history does not match 0000_baseline; missing comments.id'
+    );
+    await expect(runMigrations()).rejects.toThrow('users.password_hash');
+    expect((await getMigrationStatus()).applied).toEqual(0);
+  });
+
+  it('should reverse every migration after the baseline', async () => {
+    await runMigrations();
+
+    for (const tag of [...tags.slice(1)].reverse()) {
+      expect(await rollbackLastMigration()).toEqual(tag);
+    }
+
+    // Back at the baseline schema, so re-applying brings the database up to date again
+    expect(await runMigrations()).toEqual(tags.slice(1));
+  });
+
+  it('should report pending migrations and whether they can be rolled back', async () => {
+    const status = await getMigrationStatus(FIXTURES);
+
+    expect(status).toMatchObject({ applied: 0, pending: 2 });
+    expect(status.migrations).toEqual([
+      { tag: '0000_widgets', created_at: new Date(1700000000000), status: 'pending', reversible: false },
+      { tag: '0001_widget_color', created_at: new Date(1700000100000), status: 'pending', reversible: true }
+    ]);
+  });
+
+  it('should roll back the last migration with its down file', async () => {
+    expect(await runMigrations(FIXTURES)).toEqual(['0000_widgets', '0001_widget_color']);
+    expect(await columnsOf('widgets')).toEqual(['id', 'name', 'color']);
+
+    expect(await rollbackLastMigration(FIXTURES)).toEqual('0001_widget_color');
+
+    expect(await columnsOf('widgets')).toEqual(['id', 'name']);
+    expect(await getMigrationStatus(FIXTURES)).toMatchObject({ applied: 1, pending: 1 });
+
+    // Rolled back migrations are re-applied on the next run
+    expect(await runMigrations(FIXTURES)).toEqual(['0001_widget_color']);
+    expect(await columnsOf('widgets')).toEqual(['id', 'name', 'color']);
+  });
+
+  it('should refuse to roll back a migration without a down file', async () => {
+    await runMigrations(FIXTURES);
+    await rollbackLastMigration(FIXTURES);
+
+    await expect(rollbackLastMigration(FIXTURES)).rejects.toThrow(/0000_widgets has no down migration/);
+    expect(await columnsOf('widgets')).toEqual(['id', 'name']);
+  });
+
+  it('should refuse to roll back when nothing is applied', async () => {
+    await expect(rollbackLastMigration(FIXTURES)).rejects.toThrow(/No migrations have been applied/);
+  });
+});
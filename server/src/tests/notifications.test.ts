@@ -0,0 +1,372 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, emailNotificationsTable, securityIssuesTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { createSecurityIssue } from '../handlers/create_security_issue';
+import { updateSecurityIssue } from '../handlers/update_security_issue';
+import { createSecurityViolation } from '../handlers/create_security_violation';
+import { updateSecurityViolation } from '../handlers/update_security_violation';
+import { updateNotificationPreferences } from '../handlers/update_notification_preferences';
+import { queueDailyDigests } from '../notifications/emails';
+import { EMAIL_MAX_ATTEMPTS, emailRetryDelay, sendDueEmails } from '../notifications/delivery';
+import { buildMimeMessage } from '../notifications/smtp';
+import { startMockSmtp, type MockSmtp } from '../helpers/mock_smtp';
+import { asc, eq } from 'drizzle-orm';
+
+let smtp: MockSmtp;
+let manager: User;
+let engineer: User;
+let admin: User;
+let containerId: number;
+
+const addUser = async (username: string, role: User['role']): Promise<User> => {
+  const users = await db.insert(usersTable)
+    .values({ username, email: `${username}@example.com`, full_name: username[0].toUpperCase() + username.slice(1), role })
+    .returning()
+    .execute();
+  const { password_hash, ...rest } = users[0];
+  return rest;
+};
+
+const emails = () => db.select()
+  .from(emailNotificationsTable)
+  .orderBy(asc(emailNotificationsTable.id))
+  .execute();
+
+const createIssue = (overrides: { title?: string; severity?: 'Critical' | 'High' | 'Medium' | 'Low'; assigned_to?: number | null } = {}) =>
+  createSecurityIssue({
+    title: overrides.title ?? 'Verbose errors',
+    description: 'Stack traces are returned to clients',
+    severity: overrides.severity ?? 'High',
+    classification: 'Misconfiguration',
+    hierarchy: 'Task',
+    confidentiality_impact: 60,
+    integrity_impact: 0,
+    availability_impact: 0,
+    compliance_impact: 10,
+    third_party_risk: 0,
+    mitre_attack_id: null,
+    mitre_attack_tactic: null,
+    mitre_attack_technique: null,
+    linddun_category: null,
+    attack_complexity: null,
+    threat_modeling_notes: null,
+    compensating_controls: null,
+    container_id: containerId,
+    parent_issue_id: null,
+    assigned_to: overrides.assigned_to ?? null,
+    is_automated_finding: false
+  }, manager.id);
+
+const createViolation = (severity: 'Critical' | 'High', actorId: number) =>
+  createSecurityViolation({
+    title: 'Admin console <exposed>',
+    description: 'Reached from the internet',
+    violation_type: 'SecurityBreach',
+    severity,
+    incident_date: new Date('2026-03-01T08:00:00Z'),
+    detection_method: null,
+    affected_systems: null,
+    impact_assessment: null,
+    remediation_steps: null,
+    container_id: null,
+    related_issue_id: null,
+    assigned_to: null
+  }, actorId);
+
+describe('email notifications', () => {
+  beforeAll(async () => {
+    smtp = await startMockSmtp();
+  });
+
+  afterAll(async () => {
+    await smtp.stop();
+  });
+
+  beforeEach(async () => {
+    await createDB();
+    smtp.messages.length = 0;
+    manager = await addUser('manager', 'SecurityManager');
+    engineer = await addUser('engineer', 'SecurityAnalyst');
+    admin = await addUser('admin', 'Admin');
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: manager.id })
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('assignment', () => {
+    it('should email whoever an issue is assigned to', async () => {
+      const issue = await createIssue({ assigned_to: engineer.id });
+
+      const [email] = await emails();
+      expect(await emails()).toHaveLength(1);
+      expect(email).toMatchObject({
+        user_id: engineer.id,
+        kind: 'Assignment',
+        to_address: 'engineer@example.com',
+        subject: `[PrimeSec] Issue #${issue.id} assigned to you: Verbose errors`,
+        status: 'Pending',
+        attempts: 0
+      });
+      expect(email.text_body).toContain('Manager assigned you a High security issue');
+      expect(email.html_body).toContain('<td style="padding:4px 8px">Verbose errors</td>');
+    });
+
+    it('should email only when the assignee changes', async () => {
+      const issue = await createIssue();
+      await updateSecurityIssue({ id: issue.id, assigned_to: engineer.id }, manager);
+      await updateSecurityIssue({ id: issue.id, title: 'Verbose error pages' }, manager);
+      await updateSecurityIssue({ id: issue.id, assigned_to: admin.id }, manager);
+
+      expect((await emails()).map(email => [email.user_id, email.kind])).toEqual([
+        [engineer.id, 'Assignment'],
+        [admin.id, 'Assignment']
+      ]);
+    });
+
+    it('should not email people who assign work to themselves', async () => {
+      await createIssue({ assigned_to: manager.id });
+
+      expect(await emails()).toHaveLength(0);
+    });
+
+    it('should respect the assignee preference', async () => {
+      await updateNotificationPreferences({ assignment_emails: false }, engineer.id);
+
+      await createIssue({ assigned_to: engineer.id });
+
+      expect(await emails()).toHaveLength(0);
+    });
+
+    it('should email assignees of violations', async () => {
+      const violation = await createViolation('High', manager.id);
+      await updateSecurityViolation({ id: violation.id, assigned_to: engineer.id }, manager.id);
+
+      expect(await emails()).toEqual([expect.objectContaining({
+        user_id: engineer.id,
+        kind: 'Assignment',
+        subject: `[PrimeSec] Violation #${violation.id} assigned to you: Admin console <exposed>`
+      })]);
+    });
+  });
+
+  describe('critical violations', () => {
+    it('should email managers and admins other than the reporter', async () => {
+      const violation = await createViolation('Critical', manager.id);
+
+      const [email] = await emails();
+      expect(await emails()).toHaveLength(1);
+      expect(email).toMatchObject({
+        user_id: admin.id,
+        kind: 'CriticalViolation',
+        subject: `[PrimeSec] Critical violation #${violation.id}: Admin console <exposed>`
+      });
+      expect(email.text_body).toContain('Reached from the internet');
+      expect(email.html_body).toContain('Admin console &lt;exposed&gt;');
+      expect(email.html_body).not.toContain('<exposed>');
+    });
+
+    it('should email when a violation is raised to Critical', async () => {
+      const violation = await createViolation('High', engineer.id);
+      expect(await emails()).toHaveLength(0);
+
+      await updateSecurityViolation({ id: violation.id, severity: 'Critical' }, engineer.id);
+      await updateSecurityViolation({ id: violation.id, title: 'Admin console exposed' }, engineer.id);
+
+      expect((await emails()).map(email => email.user_id).sort()).toEqual([manager.id, admin.id].sort());
+    });
+
+    it('should skip inactive users and those who opted out', async () => {
+      await updateNotificationPreferences({ critical_violation_emails: false }, admin.id);
+      const other = await addUser('other', 'SecurityManager');
+      await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, other.id)).execute();
+
+      await createViolation('Critical', engineer.id);
+
+      expect((await emails()).map(email => email.user_id)).toEqual([manager.id]);
+    });
+
+    it('should send the assignee only the assignment email', async () => {
+      const violation = await createViolation('High', engineer.id);
+
+      await updateSecurityViolation({ id: violation.id, severity: 'Critical', assigned_to: manager.id }, engineer.id);
+
+      expect((await emails()).map(email => [email.user_id, email.kind])).toEqual([
+        [manager.id, 'Assignment'],
+        [admin.id, 'CriticalViolation']
+      ]);
+    });
+  });
+
+  describe('daily digest', () => {
+    const now = new Date('2026-06-10T07:00:00Z');
+    const backdate = (id: number, createdAt: Date) =>
+      db.update(securityIssuesTable).set({ created_at: createdAt }).where(eq(securityIssuesTable.id, id)).execute();
+
+    it('should list overdue and newly assigned work', async () => {
+      const overdue = await createIssue({ title: 'Old critical', severity: 'Critical', assigned_to: engineer.id });
+      await backdate(overdue.id, new Date('2026-05-30T07:00:00Z'));
+      const fresh = await createIssue({ title: 'New finding', severity: 'Low', assigned_to: engineer.id });
+      await backdate(fresh.id, new Date('2026-06-09T12:00:00Z'));
+      const stale = await createIssue({ title: 'Quiet finding', severity: 'Low', assigned_to: engineer.id });
+      await backdate(stale.id, new Date('2026-06-01T07:00:00Z'));
+      await db.delete(emailNotificationsTable).execute();
+
+      expect(await queueDailyDigests('2026-06-10', now)).toEqual(1);
+
+      const [digest] = await emails();
+      expect(digest).toMatchObject({
+        user_id: engineer.id,
+        kind: 'DailyDigest',
+        digest_date: '2026-06-10',
+        subject: '[PrimeSec] Daily digest for 2026-06-10: 1 overdue, 1 newly assigned'
+      });
+      expect(digest.text_body).toContain(`Overdue:\n- [Critical] Issue #${overdue.id}: Old critical (Open), 4 days overdue`);
+      expect(digest.text_body).toContain(`Newly assigned:\n- [Low] Issue #${fresh.id}: New finding (Open)`);
+      expect(digest.text_body).not.toContain('Quiet finding');
+      expect(digest.html_body).toContain('4 days overdue');
+    });
+
+    it('should count reassignments as newly assigned', async () => {
+      const issue = await createIssue({ title: 'Handed over', severity: 'Low' });
+      await backdate(issue.id, new Date('2026-06-01T07:00:00Z'));
+      await updateSecurityIssue({ id: issue.id, assigned_to: engineer.id }, manager);
+
+      await queueDailyDigests('2026-06-10', new Date());
+
+      const digests = (await emails()).filter(email => email.kind === 'DailyDigest');
+      expect(digests).toEqual([expect.objectContaining({ user_id: engineer.id })]);
+      expect(digests[0].text_body).toContain(`Newly assigned:\n- [Low] Issue #${issue.id}: Handed over (Open)`);
+    });
+
+    it('should queue each digest once and respect the preference', async () => {
+      await createIssue({ assigned_to: engineer.id });
+      await createIssue({ assigned_to: admin.id });
+      await updateNotificationPreferences({ daily_digest: false }, admin.id);
+
+      expect(await queueDailyDigests('2026-06-10', new Date())).toEqual(1);
+      expect(await queueDailyDigests('2026-06-10', new Date())).toEqual(0);
+
+      const digests = (await emails()).filter(email => email.kind === 'DailyDigest');
+      expect(digests.map(email => email.user_id)).toEqual([engineer.id]);
+    });
+
+    it('should skip users with nothing to report', async () => {
+      expect(await queueDailyDigests('2026-06-10', now)).toEqual(0);
+    });
+  });
+
+  describe('delivery', () => {
+    it('should send due emails with text and HTML parts', async () => {
+      await createIssue({ assigned_to: engineer.id });
+
+      expect(await sendDueEmails(smtp.config())).toEqual(1);
+
+      const [message] = smtp.messages;
+      expect(message.from).toEqual('security@example.com');
+      expect(message.to).toEqual(['engineer@example.com']);
+      expect(message.subject).toMatch(/^\[PrimeSec\] Issue #\d+ assigned to you: Verbose errors$/);
+      expect(message.headers['content-type']).toStartWith('multipart/alternative');
+      expect(message.text).toContain('Hi Engineer,');
+      expect(message.html).toContain('<p>Hi Engineer,</p>');
+
+      const [email] = await emails();
+      expect(email).toMatchObject({ status: 'Sent', attempts: 1, last_error: null, next_attempt_at: null });
+      expect(email.sent_at).toBeInstanceOf(Date);
+
+      // Nothing is due any more
+      expect(await sendDueEmails(smtp.config())).toEqual(0);
+    });
+
+    it('should authenticate when the relay requires it', async () => {
+      const relay = await startMockSmtp({ username: 'primesec', password: 'relay-password' });
+      try {
+        await createIssue({ assigned_to: engineer.id });
+        await sendDueEmails(relay.config({ allow_insecure_auth: true }));
+
+        expect(relay.messages).toHaveLength(1);
+        expect((await emails())[0].status).toEqual('Sent');
+      } finally {
+        await relay.stop();
+      }
+    });
+
+    it('should not send credentials to a relay without TLS', async () => {
+      const relay = await startMockSmtp({ username: 'primesec', password: 'relay-password' });
+      try {
+        await createIssue({ assigned_to: engineer.id });
+        await sendDueEmails(relay.config());
+
+        expect(relay.messages).toHaveLength(0);
+        const [email] = await emails();
+        expect(email.status).toEqual('Pending');
+        expect(email.last_error).toContain('refusing to send credentials without TLS');
+      } finally {
+        await relay.stop();
+      }
+    });
+
+    it('should send when the relay forwards the recipient', async () => {
+      const relay = await startMockSmtp({ forward: true });
+      try {
+        await createIssue({ assigned_to: engineer.id });
+        await sendDueEmails(relay.config());
+
+        expect(relay.messages).toHaveLength(1);
+        expect((await emails())[0].status).toEqual('Sent');
+      } finally {
+        await relay.stop();
+      }
+    });
+
+    it('should retry refused emails with backoff', async () => {
+      await createIssue({ assigned_to: engineer.id });
+      smtp.rejectNext('451 4.3.0 Try again later');
+
+      const before = Date.now();
+      await sendDueEmails(smtp.config());
+
+      const [email] = await emails();
+      expect(email).toMatchObject({ status: 'Pending', attempts: 1 });
+      expect(email.last_error).toContain('451 4.3.0 Try again later');
+      expect(email.next_attempt_at!.getTime()).toBeGreaterThanOrEqual(before + emailRetryDelay(1));
+      expect(await sendDueEmails(smtp.config())).toEqual(0);
+
+      await db.update(emailNotificationsTable).set({ next_attempt_at: new Date() }).execute();
+      await sendDueEmails(smtp.config());
+
+      expect(await emails()).toEqual([expect.objectContaining({ status: 'Sent', attempts: 2 })]);
+      expect(smtp.messages).toHaveLength(1);
+    });
+
+    it('should give up after the last attempt', async () => {
+      await createIssue({ assigned_to: engineer.id });
+      await db.update(emailNotificationsTable).set({ attempts: EMAIL_MAX_ATTEMPTS - 1 }).execute();
+      smtp.rejectNext('550 5.7.1 Relaying denied');
+
+      await sendDueEmails(smtp.config());
+
+      expect(await emails()).toEqual([expect.objectContaining({ status: 'Failed', attempts: EMAIL_MAX_ATTEMPTS, next_attempt_at: null })]);
+    });
+  });
+
+  describe('buildMimeMessage', () => {
+    it('should encode non-ASCII subjects and strip header line breaks', () => {
+      const raw = buildMimeMessage('PrimeSec <security@example.com>', {
+        to: 'engineer@example.com\r\nBcc: someone@example.com',
+        subject: 'Überprüfung fällig',
+        text: 'Hallo',
+        html: '<p>Hallo</p>'
+      }, new Date('2026-06-10T07:00:00Z'));
+
+      expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('Überprüfung fällig').toString('base64')}?=`);
+      expect(raw).not.toContain('\r\nBcc:');
+    });
+  });
+});
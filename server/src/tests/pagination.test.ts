@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  architectureComponentsTable,
+  containersTable,
+  securityControlsTable,
+  securityIssuesTable,
+  securityReviewsTable,
+  usersTable
+} from '../db/schema';
+import { type GetSecurityIssuesInput } from '../schema';
+import { getSecurityIssues } from '../handlers/get_security_issues';
+import { getContainers } from '../handlers/get_containers';
+import { getSecurityControls } from '../handlers/get_security_controls';
+import { getSecurityReviews } from '../handlers/get_security_reviews';
+import { getArchitectureComponents } from '../handlers/get_architecture_components';
+import { inArray, sql } from 'drizzle-orm';
+
+// Follows next_cursor from the first page to the last
+const allPages = async <T>(
+  list: (cursor: string | undefined) => Promise<{ items: T[]; total: number; next_cursor: string | null }>
+): Promise<{ pages: T[][]; total: number }> => {
+  const pages: T[][] = [];
+  let cursor: string | undefined;
+  let total = 0;
+  do {
+    const page = await list(cursor);
+    pages.push(page.items);
+    total = page.total;
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor !== undefined);
+  return { pages, total };
+};
+
+describe('keyset pagination', () => {
+  let userId: number;
+  let containerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [user] = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    userId = user.id;
+
+    const [container] = await db.insert(containersTable)
+      .values({ name: 'Payments', type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+    containerId = container.id;
+  });
+
+  afterEach(resetDB);
+
+  const createIssues = async (values: Array<Partial<typeof securityIssuesTable.$inferInsert> & { title: string }>) =>
+    db.insert(securityIssuesTable)
+      .values(values.map(value => ({
+        description: value.title,
+        severity: 'Medium' as const,
+        classification: 'Vulnerability' as const,
+        hierarchy: 'Task' as const,
+        container_id: containerId,
+        created_by: userId,
+        ...value
+      })))
+      .returning()
+      .execute();
+
+  it('should page through a multi-column sort with ties and unset values', async () => {
+    await createIssues([
+      { title: 'A', severity: 'Critical', cvss_base_score: 9.8 },
+      { title: 'B', severity: 'Critical', cvss_base_score: null },
+      { title: 'C', severity: 'High', cvss_base_score: 7.5 },
+      { title: 'D', severity: 'High', cvss_base_score: 7.5 },
+      { title: 'E', severity: 'High', cvss_base_score: 5.3 },
+      { title: 'F', severity: 'High', cvss_base_score: null },
+      { title: 'G', severity: 'High', cvss_base_score: null },
+      { title: 'H', severity: 'Low', cvss_base_score: 2.1 }
+    ]);
+    const input: Partial<GetSecurityIssuesInput> = {
+      sort: [{ field: 'severity', direction: 'desc' }, { field: 'cvss_base_score', direction: 'asc' }]
+    };
+
+    const { items: everything } = await getSecurityIssues(input);
+    const { pages, total } = await allPages(cursor => getSecurityIssues({ ...input, limit: 3, cursor }));
+
+    // Unset scores come last, and ties fall back to the newest first
+    expect(everything.map(issue => issue.title)).toEqual(['A', 'B', 'E', 'D', 'C', 'G', 'F', 'H']);
+    expect(pages.map(page => page.map(issue => issue.title))).toEqual([['A', 'B', 'E'], ['D', 'C', 'G'], ['F', 'H']]);
+    expect(total).toEqual(8);
+  });
+
+  it('should not skip rows whose timestamps differ below a millisecond', async () => {
+    const issues = await createIssues([{ title: 'First' }, { title: 'Second' }, { title: 'Third' }]);
+    await db.execute(sql`update ${securityIssuesTable} set created_at = case ${securityIssuesTable.title}
+      when 'First' then timestamp '2024-05-01 10:00:00.123400'
+      when 'Second' then timestamp '2024-05-01 10:00:00.123900'
+      else timestamp '2024-05-01 10:00:00.124000' end
+      where ${inArray(securityIssuesTable.id, issues.map(issue => issue.id))}`);
+
+    const { pages } = await allPages(cursor => getSecurityIssues({
+      sort: [{ field: 'created_at', direction: 'asc' }],
+      limit: 1,
+      cursor
+    }));
+
+    // First and Second share a millisecond, so they tie and the newer id leads
+    expect(pages.flat().map(issue => issue.title)).toEqual(['Second', 'First', 'Third']);
+  });
+
+  it('should keep filters and totals across pages', async () => {
+    await createIssues([
+      { title: 'Critical 1', severity: 'Critical' },
+      { title: 'Critical 2', severity: 'Critical' },
+      { title: 'Critical 3', severity: 'Critical' },
+      { title: 'Low', severity: 'Low' }
+    ]);
+
+    const first = await getSecurityIssues({ severity: 'Critical', limit: 2 });
+    const second = await getSecurityIssues({ severity: 'Critical', limit: 2, cursor: first.next_cursor! });
+
+    expect(first.total).toEqual(3);
+    expect(second.total).toEqual(3);
+    expect([...first.items, ...second.items].map(issue => issue.title).sort()).toEqual(['Critical 1', 'Critical 2', 'Critical 3']);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('should reject malformed cursors and cursors from another sort', async () => {
+    await createIssues([{ title: 'One' }, { title: 'Two' }]);
+    const { next_cursor } = await getSecurityIssues({ limit: 1 });
+
+    await expect(getSecurityIssues({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+    await expect(getSecurityIssues({ cursor: Buffer.from('{"sort":"title:asc","values":[{}],"id":1}').toString('base64url') }))
+      .rejects.toThrow('Invalid cursor');
+    await expect(getSecurityIssues({ sort: [{ field: 'title', direction: 'asc' }], cursor: next_cursor! }))
+      .rejects.toThrow('The cursor was issued for a different sort');
+  });
+
+  it('should page every list endpoint', async () => {
+    await db.insert(containersTable)
+      .values(['Identity', 'Billing'].map(name => ({ name, type: 'Service' as const, created_by: userId })))
+      .execute();
+    await db.insert(securityControlsTable)
+      .values(['MFA', 'Encryption', 'Logging'].map(name => ({
+        name,
+        control_type: 'Technical',
+        implementation_status: 'Existing' as const,
+        container_id: containerId,
+        created_by: userId
+      })))
+      .execute();
+    await db.insert(securityReviewsTable)
+      .values(['Threat model', 'Pen test', 'Design review'].map(title => ({ title, container_id: containerId, created_by: userId })))
+      .execute();
+    await db.insert(architectureComponentsTable)
+      .values(['Gateway', 'API', 'Queue'].map(name => ({ name, component_type: 'Service', container_id: containerId, created_by: userId })))
+      .execute();
+
+    const containers = await allPages(cursor => getContainers({ limit: 2, cursor }));
+    const controls = await allPages(cursor => getSecurityControls({ limit: 2, cursor }));
+    const reviews = await allPages(cursor => getSecurityReviews({ sort: [{ field: 'title', direction: 'asc' }], limit: 2, cursor }));
+    const components = await allPages(cursor => getArchitectureComponents({
+      sort: [{ field: 'name', direction: 'desc' }],
+      limit: 2,
+      cursor
+    }));
+
+    expect(containers.pages.map(page => page.map(container => container.name))).toEqual([['Billing', 'Identity'], ['Payments']]);
+    expect(containers.total).toEqual(3);
+    expect(controls.pages.flat().map(control => control.name)).toEqual(['Encryption', 'Logging', 'MFA']);
+    expect(reviews.pages.flat().map(review => review.title)).toEqual(['Design review', 'Pen test', 'Threat model']);
+    expect(components.pages.flat().map(component => component.name)).toEqual(['Queue', 'Gateway', 'API']);
+  });
+});
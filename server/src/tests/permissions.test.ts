@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { appRouter } from '../index';
+import { createCallerFactory, type Context } from '../trpc';
+import { hasPermission, procedurePermissions, rolePermissions } from '../auth/permissions';
+import { TRPCError } from '@trpc/server';
+
+const roles = ['Admin', 'SecurityAnalyst', 'SecurityManager', 'Viewer'] as const;
+
+const createCaller = createCallerFactory(appRouter);
+
+type DynamicCaller = Record<string, (input?: unknown) => Promise<unknown>>;
+
+const testUser = (role: User['role'], id = 1): User => ({
+  id,
+  username: `${role.toLowerCase()}_user`,
+  email: `${role.toLowerCase()}@example.com`,
+  full_name: `${role} User`,
+  role,
+  created_at: new Date(),
+  updated_at: new Date(),
+  is_active: true
+});
+
+const callerFor = (user: User | null): DynamicCaller => {
+  const ctx: Context = {
+    user,
+    sessionToken: user ? 'test-session-token' : null,
+    request: { ip_address: '127.0.0.1', user_agent: 'bun-test' }
+  };
+  return createCaller(ctx) as unknown as DynamicCaller;
+};
+
+// Resolves to the tRPC error code of a call, or 'OK' when it succeeds
+const outcome = async (call: () => Promise<unknown>): Promise<string> => {
+  try {
+    await call();
+    return 'OK';
+  } catch (error) {
+    return error instanceof TRPCError ? error.code : 'ERROR';
+  }
+};
+
+const procedureNames = Object.keys(appRouter._def.procedures);
+
+describe('permission matrix', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should declare a permission for every procedure', () => {
+    const undeclared = procedureNames.filter(name => procedurePermissions[name] === undefined);
+    expect(undeclared).toEqual([]);
+  });
+
+  it('should not declare permissions for unknown procedures', () => {
+    const stale = Object.keys(procedurePermissions).filter(name => !procedureNames.includes(name));
+    expect(stale).toEqual([]);
+  });
+
+  it('should grant viewers read permissions only', () => {
+    for (const permission of rolePermissions.Viewer) {
+      expect(permission.endsWith(':read')).toBe(true);
+    }
+  });
+
+  it('should grant admins every permission', () => {
+    for (const role of roles) {
+      for (const permission of rolePermissions[role]) {
+        expect(hasPermission('Admin', permission)).toBe(true);
+      }
+    }
+  });
+
+  it('should reject anonymous calls to protected procedures', async () => {
+    const caller = callerFor(null);
+
+    for (const name of procedureNames) {
+      if (procedurePermissions[name] === 'public') continue;
+      expect(`${name}: ${await outcome(() => caller[name]({}))}`).toEqual(`${name}: UNAUTHORIZED`);
+    }
+  });
+
+  it('should enforce the matrix on every procedure for every role', async () => {
+    for (const role of roles) {
+      const caller = callerFor(testUser(role));
+
+      for (const name of procedureNames) {
+        const required = procedurePermissions[name];
+        const allowed = required === 'public' || required === 'authenticated' || hasPermission(role, required);
+        const result = await outcome(() => caller[name]({}));
+
+        // Allowed calls may still fail input validation, but never with FORBIDDEN
+        if (allowed) {
+          expect(`${role} ${name}: ${result === 'FORBIDDEN' ? 'FORBIDDEN' : 'allowed'}`).toEqual(`${role} ${name}: allowed`);
+        } else {
+          expect(`${role} ${name}: ${result}`).toEqual(`${role} ${name}: FORBIDDEN`);
+        }
+      }
+    }
+  });
+
+  it('should let analysts create issues but not containers', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'analyst',
+        email: 'analyst@example.com',
+        full_name: 'Analyst',
+        role: 'SecurityAnalyst'
+      })
+      .returning()
+      .execute();
+    const analyst = { ...testUser('SecurityAnalyst'), id: userResult[0].id };
+
+    const containerResult = await db.insert(containersTable)
+      .values({ name: 'Scope', type: 'Application', created_by: analyst.id })
+      .returning()
+      .execute();
+
+    const caller = callerFor(analyst);
+
+    const issue = await caller['createSecurityIssue']({
+      title: 'Stored XSS',
+      description: 'Comment field renders HTML',
+      severity: 'High',
+      classification: 'Vulnerability',
+      hierarchy: 'Task',
+      mitre_attack_id: null,
+      mitre_attack_tactic: null,
+      mitre_attack_technique: null,
+      linddun_category: null,
+      attack_complexity: null,
+      threat_modeling_notes: null,
+      compensating_controls: null,
+      container_id: containerResult[0].id,
+      parent_issue_id: null,
+      assigned_to: null
+    }) as { created_by: number };
+
+    expect(issue.created_by).toEqual(analyst.id);
+
+    const containerOutcome = await outcome(() => caller['createContainer']({
+      name: 'New scope',
+      description: null,
+      type: 'Project',
+      external_id: null,
+      external_system: null
+    }));
+    expect(containerOutcome).toEqual('FORBIDDEN');
+  });
+
+  it('should stop viewers from writing anything', async () => {
+    const caller = callerFor(testUser('Viewer'));
+
+    expect(await outcome(() => caller['createSecurityViolation']({}))).toEqual('FORBIDDEN');
+    expect(await outcome(() => caller['updateSecurityIssue']({ id: 1, title: 'x' }))).toEqual('FORBIDDEN');
+    expect(await outcome(() => caller['createUser']({}))).toEqual('FORBIDDEN');
+  });
+});
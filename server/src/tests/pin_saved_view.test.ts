@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { savedViewPinsTable, savedViewsTable, usersTable } from '../db/schema';
+import { pinSavedView } from '../handlers/pin_saved_view';
+
+describe('pinSavedView', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should pin and unpin a view for the caller only', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', full_name: 'Owner', role: 'SecurityAnalyst' },
+        { username: 'reader', email: 'reader@example.com', full_name: 'Reader', role: 'Viewer' }
+      ])
+      .returning()
+      .execute();
+    const owner = { id: users[0].id, role: 'SecurityAnalyst' as const };
+    const reader = { id: users[1].id, role: 'Viewer' as const };
+    const [shared, personal] = await db.insert(savedViewsTable)
+      .values([
+        { owner_id: owner.id, name: 'Shared', entity_type: 'Issue', visibility: 'Organization', filter: {}, sort: [], columns: [] },
+        { owner_id: owner.id, name: 'Personal', entity_type: 'Issue', filter: {}, sort: [], columns: [] }
+      ])
+      .returning()
+      .execute();
+
+    expect((await pinSavedView({ id: shared.id, pinned: true }, reader)).pinned).toBe(true);
+    // Pinning twice keeps one pin
+    await pinSavedView({ id: shared.id, pinned: true }, reader);
+
+    const pins = await db.select().from(savedViewPinsTable).execute();
+    expect(pins).toHaveLength(1);
+    expect(pins[0]).toMatchObject({ view_id: shared.id, user_id: reader.id });
+
+    expect((await pinSavedView({ id: shared.id, pinned: false }, reader)).pinned).toBe(false);
+    expect(await db.select().from(savedViewPinsTable).execute()).toHaveLength(0);
+
+    await expect(pinSavedView({ id: personal.id, pinned: true }, reader))
+      .rejects.toThrow(`Saved view with id ${personal.id} not found`);
+  });
+});
@@ -1,13 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { securityReviewsTable, usersTable, containersTable } from '../db/schema';
-import { type CreateUserInput, type CreateContainerInput, type CreateSecurityReviewInput } from '../schema';
+import { securityReviewsTable, usersTable, containersTable, type NewUser, type NewContainer, type NewSecurityReview } from '../db/schema';
 import { processDocumentAiAnalysis, type AIAnalysisResults } from '../handlers/process_document_ai_analysis';
 import { eq } from 'drizzle-orm';
 
 // Test data setup
-const testUser: CreateUserInput = {
+const testUser: NewUser = {
   username: 'aianalyst',
   email: 'analyst@security.com',
   full_name: 'AI Security Analyst',
@@ -15,7 +14,7 @@ const testUser: CreateUserInput = {
   is_active: true
 };
 
-const testContainer: CreateContainerInput = {
+const testContainer: NewContainer = {
   name: 'Security Analysis Project',
   description: 'Project for AI analysis testing',
   type: 'Project',
@@ -24,7 +23,7 @@ const testContainer: CreateContainerInput = {
   created_by: 1 // Will be set after user creation
 };
 
-const testArchitectureReview: CreateSecurityReviewInput = {
+const testArchitectureReview: NewSecurityReview = {
   title: 'System Architecture Security Review',
   description: 'Comprehensive review of system architecture for security compliance',
   document_name: 'architecture_review.pdf',
@@ -34,7 +33,7 @@ const testArchitectureReview: CreateSecurityReviewInput = {
   created_by: 1 // Will be set after user creation
 };
 
-const testGeneralReview: CreateSecurityReviewInput = {
+const testGeneralReview: NewSecurityReview = {
   title: 'General Security Policy Review',
   description: 'Review of general security policies and procedures',
   document_name: 'security_policy.docx',
@@ -304,7 +303,7 @@ describe('processDocumentAiAnalysis', () => {
 
     await expect(processDocumentAiAnalysis(nonExistentId))
       .rejects
-      .toThrow(/Security review with ID 99999 not found/);
+      .toThrow(/Security review with id 99999 not found/);
   });
 
   it('should handle reviews without container or document metadata', async () => {
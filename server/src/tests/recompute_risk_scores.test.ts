@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityIssuesTable, usersTable } from '../db/schema';
+import { recomputeRiskScores } from '../handlers/recompute_risk_scores';
+import { eq } from 'drizzle-orm';
+
+const createFixtures = async () => {
+  const user = await db.insert(usersTable)
+    .values({
+      username: 'manager',
+      email: 'manager@example.com',
+      full_name: 'Security Manager',
+      role: 'SecurityManager'
+    })
+    .returning()
+    .execute();
+
+  const containers = await db.insert(containersTable)
+    .values([
+      { name: 'Web', type: 'Application', risk_score: 12, created_by: user[0].id },
+      { name: 'Infra', type: 'System', risk_score: 34, created_by: user[0].id }
+    ])
+    .returning()
+    .execute();
+
+  // Scores written by the old create path (integer rounding, 0.20/0.15/0.15 weights)
+  await db.insert(securityIssuesTable)
+    .values([
+      {
+        title: 'SQL injection',
+        description: 'Search endpoint',
+        severity: 'Critical',
+        classification: 'Vulnerability',
+        hierarchy: 'Task',
+        confidentiality_impact: 90,
+        integrity_impact: 90,
+        availability_impact: 50,
+        compliance_impact: 70,
+        third_party_risk: 30,
+        risk_score: 73,
+        container_id: containers[0].id,
+        created_by: user[0].id
+      },
+      {
+        title: 'Open SSH',
+        description: 'Bastion reachable from the internet',
+        severity: 'Medium',
+        classification: 'Exposure',
+        hierarchy: 'Task',
+        confidentiality_impact: 40,
+        integrity_impact: 40,
+        availability_impact: 40,
+        compliance_impact: 40,
+        third_party_risk: 40,
+        risk_score: 40,
+        container_id: containers[1].id,
+        created_by: user[0].id
+      }
+    ])
+    .execute();
+
+  return { web: containers[0], infra: containers[1] };
+};
+
+describe('recomputeRiskScores', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should rescore every container and its issues', async () => {
+    const { web, infra } = await createFixtures();
+
+    const result = await recomputeRiskScores();
+
+    // Only the SQL injection score changes: 22.5 + 22.5 + 12.5 + 10.5 + 3 = 71
+    expect(result).toEqual({ containers_updated: 2, issues_updated: 1 });
+
+    const containers = await db.select().from(containersTable).execute();
+    expect(containers.find(c => c.id === web.id)!.risk_score).toEqual(71);
+    expect(containers.find(c => c.id === infra.id)!.risk_score).toEqual(40);
+  });
+
+  it('should limit the recompute to one container', async () => {
+    const { web, infra } = await createFixtures();
+
+    const result = await recomputeRiskScores({ container_id: infra.id });
+
+    expect(result).toEqual({ containers_updated: 1, issues_updated: 0 });
+
+    const untouched = await db.select()
+      .from(containersTable)
+      .where(eq(containersTable.id, web.id))
+      .execute();
+    expect(untouched[0].risk_score).toEqual(12);
+  });
+
+  it('should reject unknown containers', async () => {
+    await expect(recomputeRiskScores({ container_id: 999 })).rejects.toThrow(/Container with id 999 not found/);
+  });
+});
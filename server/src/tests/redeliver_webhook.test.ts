@@ -0,0 +1,98 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { redeliverWebhook } from '../handlers/redeliver_webhook';
+import { deliverDueWebhooks, signWebhookPayload } from '../webhooks/delivery';
+import { asc, eq } from 'drizzle-orm';
+
+const SECRET = 'receiver-shared-secret';
+
+describe('redeliverWebhook', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests: { headers: Headers; body: string }[] = [];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: async (request: Request) => {
+        requests.push({ headers: request.headers, body: await request.text() });
+        return new Response('ok');
+      }
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(async () => {
+    await createDB();
+    requests = [];
+  });
+
+  afterEach(resetDB);
+
+  const failedDelivery = async (isActive = true) => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' })
+      .returning()
+      .execute();
+    const [subscription] = await db.insert(webhookSubscriptionsTable)
+      .values({ name: 'SIEM', url: `http://localhost:${server.port}/hooks`, secret: SECRET, events: ['issue.created'], is_active: isActive, created_by: admin.id })
+      .returning()
+      .execute();
+    const [delivery] = await db.insert(webhookDeliveriesTable)
+      .values({
+        subscription_id: subscription.id,
+        event_id: 'evt-1',
+        event_type: 'issue.created',
+        payload: { id: 'evt-1', type: 'issue.created', created_at: '2026-03-01T08:00:00.000Z', data: { issue: { id: 7 } } },
+        status: 'Failed',
+        attempts: 8,
+        response_status: 503,
+        last_error: 'Receiver responded with HTTP 503'
+      })
+      .returning()
+      .execute();
+    return delivery;
+  };
+
+  it('should send the event again as a new delivery', async () => {
+    const original = await failedDelivery();
+
+    const redelivery = await redeliverWebhook(original.id);
+
+    expect(redelivery).toMatchObject({
+      event_id: 'evt-1',
+      redelivery_of: original.id,
+      status: 'Succeeded',
+      attempts: 1,
+      response_status: 200
+    });
+
+    const [request] = requests;
+    expect(requests).toHaveLength(1);
+    expect(request.headers.get('X-PrimeSec-Delivery')).toEqual(String(redelivery.id));
+    expect(request.headers.get('X-PrimeSec-Signature'))
+      .toEqual(signWebhookPayload(SECRET, request.headers.get('X-PrimeSec-Timestamp')!, request.body));
+    expect(JSON.parse(request.body)).toEqual(original.payload);
+
+    // The original stays in the log as it was, and the worker sends nothing more
+    const log = await db.select().from(webhookDeliveriesTable).orderBy(asc(webhookDeliveriesTable.id)).execute();
+    expect(log.map(delivery => delivery.status)).toEqual(['Failed', 'Succeeded']);
+    expect(await deliverDueWebhooks()).toEqual(0);
+  });
+
+  it('should refuse deliveries of disabled subscriptions', async () => {
+    const original = await failedDelivery(false);
+
+    await expect(redeliverWebhook(original.id)).rejects.toThrow(`Webhook subscription ${original.subscription_id} is disabled`);
+    expect(requests).toHaveLength(0);
+    expect(await db.select().from(webhookDeliveriesTable).where(eq(webhookDeliveriesTable.redelivery_of, original.id)).execute()).toHaveLength(0);
+  });
+
+  it('should throw for a missing delivery', async () => {
+    await expect(redeliverWebhook(999)).rejects.toThrow('Webhook delivery with id 999 not found');
+  });
+});
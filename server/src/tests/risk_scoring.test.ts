@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, scoringProfilesTable, securityIssuesTable, usersTable } from '../db/schema';
+import {
+  DEFAULT_SCORING_PROFILE,
+  calculateContainerRiskScore,
+  calculateIssueRiskScore,
+  getContainerScoringProfile,
+  recalculateContainerRiskScore,
+  recomputeContainerRiskScores,
+  type ScoringProfileDefinition
+} from '../scoring/risk_scoring';
+import { eq } from 'drizzle-orm';
+
+const impacts = {
+  confidentiality_impact: 80,
+  integrity_impact: 60,
+  availability_impact: 40,
+  compliance_impact: 20,
+  third_party_risk: 10
+};
+
+const confidentialityOnly: ScoringProfileDefinition = {
+  ...DEFAULT_SCORING_PROFILE,
+  id: 1,
+  name: 'confidentiality-only',
+  weights: { confidentiality: 2, integrity: 0, availability: 0, compliance: 0, third_party: 0 }
+};
+
+const createTestUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      username: 'manager',
+      email: 'manager@example.com',
+      full_name: 'Security Manager',
+      role: 'SecurityManager'
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('calculateIssueRiskScore', () => {
+  it('should apply the default profile weights', () => {
+    // 80*.25 + 60*.25 + 40*.25 + 20*.15 + 10*.10 = 49
+    expect(calculateIssueRiskScore(impacts, DEFAULT_SCORING_PROFILE)).toEqual(49);
+  });
+
+  it('should normalise weights that do not sum to one', () => {
+    expect(calculateIssueRiskScore(impacts, confidentialityOnly)).toEqual(80);
+  });
+
+  it('should round to two decimals and stay within 0-100', () => {
+    const score = calculateIssueRiskScore({ ...impacts, third_party_risk: 13 }, DEFAULT_SCORING_PROFILE);
+    expect(score).toEqual(49.3);
+
+    const maxed = calculateIssueRiskScore({
+      confidentiality_impact: 100,
+      integrity_impact: 100,
+      availability_impact: 100,
+      compliance_impact: 100,
+      third_party_risk: 100
+    }, DEFAULT_SCORING_PROFILE);
+    expect(maxed).toEqual(100);
+  });
+
+  it('should score zero when every weight is zero', () => {
+    const profile = {
+      ...DEFAULT_SCORING_PROFILE,
+      weights: { confidentiality: 0, integrity: 0, availability: 0, compliance: 0, third_party: 0 }
+    };
+    expect(calculateIssueRiskScore(impacts, profile)).toEqual(0);
+  });
+});
+
+describe('calculateContainerRiskScore', () => {
+  it('should weight active issues by severity', () => {
+    const score = calculateContainerRiskScore([
+      { severity: 'Critical', status: 'Open', risk_score: 90 },
+      { severity: 'Low', status: 'In-progress', risk_score: 30 }
+    ], DEFAULT_SCORING_PROFILE);
+
+    // (90 * 1.0 + 30 * 0.3) / 1.3 = 76.15
+    expect(score).toEqual(76.15);
+  });
+
+  it('should ignore resolved and closed issues', () => {
+    const score = calculateContainerRiskScore([
+      { severity: 'High', status: 'Open', risk_score: 40 },
+      { severity: 'Critical', status: 'Resolved', risk_score: 100 },
+      { severity: 'Critical', status: 'Closed', risk_score: 100 }
+    ], DEFAULT_SCORING_PROFILE);
+
+    expect(score).toEqual(40);
+  });
+
+  it('should return zero without active issues', () => {
+    expect(calculateContainerRiskScore([], DEFAULT_SCORING_PROFILE)).toEqual(0);
+  });
+});
+
+describe('container scoring', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should fall back to the default profile', async () => {
+    const user = await createTestUser();
+    const container = await db.insert(containersTable)
+      .values({ name: 'Default', type: 'Project', created_by: user.id })
+      .returning()
+      .execute();
+
+    const profile = await getContainerScoringProfile(container[0].id);
+
+    expect(profile).toEqual(DEFAULT_SCORING_PROFILE);
+  });
+
+  it('should load the container profile', async () => {
+    const user = await createTestUser();
+    const stored = await db.insert(scoringProfilesTable)
+      .values({
+        name: 'payments',
+        version: 3,
+        description: null,
+        confidentiality_weight: 0.5,
+        integrity_weight: 0.2,
+        availability_weight: 0.1,
+        compliance_weight: 0.1,
+        third_party_weight: 0.1,
+        critical_weight: 1,
+        high_weight: 0.5,
+        medium_weight: 0.25,
+        low_weight: 0.1,
+        created_by: user.id
+      })
+      .returning()
+      .execute();
+    const container = await db.insert(containersTable)
+      .values({ name: 'Payments', type: 'System', scoring_profile_id: stored[0].id, created_by: user.id })
+      .returning()
+      .execute();
+
+    const profile = await getContainerScoringProfile(container[0].id);
+
+    expect(profile.id).toEqual(stored[0].id);
+    expect(profile.version).toEqual(3);
+    expect(profile.weights.confidentiality).toBeCloseTo(0.5, 5);
+    expect(profile.severity_weights.High).toBeCloseTo(0.5, 5);
+  });
+
+  it('should reject unknown containers', async () => {
+    await expect(getContainerScoringProfile(999)).rejects.toThrow(/Container with id 999 not found/);
+  });
+
+  it('should store the rollup on the container', async () => {
+    const user = await createTestUser();
+    const container = await db.insert(containersTable)
+      .values({ name: 'Rollup', type: 'Project', created_by: user.id })
+      .returning()
+      .execute();
+    await db.insert(securityIssuesTable)
+      .values([
+        { title: 'A', description: 'A', severity: 'High', classification: 'Vulnerability', hierarchy: 'Task', risk_score: 60, container_id: container[0].id, created_by: user.id },
+        { title: 'B', description: 'B', severity: 'High', classification: 'Vulnerability', hierarchy: 'Task', risk_score: 40, container_id: container[0].id, created_by: user.id }
+      ])
+      .execute();
+
+    const result = await recalculateContainerRiskScore(container[0].id);
+
+    expect(result.risk_score).toEqual(50);
+    expect(result.updated_at.getTime()).toBeGreaterThan(container[0].updated_at.getTime());
+  });
+
+  it('should rescore issues from their impacts', async () => {
+    const user = await createTestUser();
+    const container = await db.insert(containersTable)
+      .values({ name: 'Rescore', type: 'Project', created_by: user.id })
+      .returning()
+      .execute();
+    const issue = await db.insert(securityIssuesTable)
+      .values({
+        title: 'Stale',
+        description: 'Scored with old weights',
+        severity: 'Medium',
+        classification: 'Weakness',
+        hierarchy: 'Task',
+        ...impacts,
+        risk_score: 47, // Old create-path weights
+        container_id: container[0].id,
+        created_by: user.id
+      })
+      .returning()
+      .execute();
+
+    const result = await recomputeContainerRiskScores(container[0].id);
+
+    expect(result.issues_updated).toEqual(1);
+    expect(result.container.risk_score).toEqual(49);
+
+    const issues = await db.select()
+      .from(securityIssuesTable)
+      .where(eq(securityIssuesTable.id, issue[0].id))
+      .execute();
+    expect(issues[0].risk_score).toEqual(49);
+
+    // Nothing left to change on a second run
+    expect((await recomputeContainerRiskScores(container[0].id)).issues_updated).toEqual(0);
+  });
+});
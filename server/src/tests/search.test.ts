@@ -0,0 +1,306 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  architectureComponentsTable,
+  containersTable,
+  securityControlsTable,
+  securityIssuesTable,
+  securityReviewsTable,
+  securityViolationsTable,
+  usersTable
+} from '../db/schema';
+import { searchInputSchema, type SearchInput } from '../schema';
+import { search } from '../handlers/search';
+import { eq, sql } from 'drizzle-orm';
+
+const searchFor = (input: Partial<SearchInput> & { query: string }) => searchInputSchema.parse(input);
+
+describe('search', () => {
+  let actor: { id: number; role: 'Viewer' };
+  let containerId: number;
+  let otherContainerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'viewer', email: 'viewer@example.com', full_name: 'Viewer', role: 'Viewer' })
+      .returning()
+      .execute();
+    actor = { id: user[0].id, role: 'Viewer' };
+
+    const containers = await db.insert(containersTable)
+      .values([
+        { name: 'Payments', type: 'Application', created_by: actor.id },
+        { name: 'Identity', type: 'Service', created_by: actor.id }
+      ])
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+    otherContainerId = containers[1].id;
+  });
+
+  afterEach(resetDB);
+
+  const createIssue = async (values: { title: string; description: string; container_id?: number; package_name?: string; threat_modeling_notes?: string }) => {
+    const issue = await db.insert(securityIssuesTable)
+      .values({
+        severity: 'High',
+        classification: 'Vulnerability',
+        hierarchy: 'Task',
+        container_id: containerId,
+        created_by: actor.id,
+        ...values
+      })
+      .returning()
+      .execute();
+    return issue[0];
+  };
+
+  it('should find matches in every searchable entity type', async () => {
+    const issue = await createIssue({ title: 'Outdated logging library', description: 'Upgrade required', package_name: 'log4j' });
+    const violation = await db.insert(securityViolationsTable)
+      .values({
+        title: 'Suspicious JNDI lookup',
+        description: 'Outbound LDAP request observed',
+        violation_type: 'SecurityBreach',
+        severity: 'Critical',
+        incident_date: new Date('2024-01-15'),
+        remediation_steps: 'Patch log4j on all hosts',
+        container_id: containerId,
+        created_by: actor.id
+      })
+      .returning()
+      .execute();
+    const review = await db.insert(securityReviewsTable)
+      .values({
+        title: 'Q3 architecture review',
+        ai_analysis_results: 'The service bundles log4j 2.14 which is vulnerable',
+        container_id: containerId,
+        created_by: actor.id
+      })
+      .returning()
+      .execute();
+    const control = await db.insert(securityControlsTable)
+      .values({
+        name: 'Dependency scanning',
+        control_type: 'Detective',
+        implementation_status: 'Existing',
+        implementation_notes: 'Blocks builds that pull in log4j',
+        container_id: containerId,
+        created_by: actor.id
+      })
+      .returning()
+      .execute();
+    const component = await db.insert(architectureComponentsTable)
+      .values({
+        name: 'Audit service',
+        component_type: 'Service',
+        technology_stack: 'Java, log4j',
+        container_id: containerId,
+        created_by: actor.id
+      })
+      .returning()
+      .execute();
+    await createIssue({ title: 'Weak TLS ciphers', description: 'Disable CBC suites' });
+
+    const result = await search(searchFor({ query: 'log4j' }), actor);
+
+    expect(result.total).toEqual(5);
+    expect(result.items.map(item => [item.entity_type, item.id]).sort()).toEqual([
+      ['Component', component[0].id],
+      ['Control', control[0].id],
+      ['Issue', issue.id],
+      ['Review', review[0].id],
+      ['Violation', violation[0].id]
+    ]);
+
+    const violationHit = result.items.find(item => item.entity_type === 'Violation')!;
+    expect(violationHit.title).toEqual('Suspicious JNDI lookup');
+    expect(violationHit.container_id).toEqual(containerId);
+    expect(violationHit.container_name).toEqual('Payments');
+    expect(violationHit.status).toEqual('Open');
+    expect(violationHit.severity).toEqual('Critical');
+    expect(violationHit.snippet).toContain('<mark>log4j</mark>');
+    expect(violationHit.updated_at).toBeInstanceOf(Date);
+
+    const controlHit = result.items.find(item => item.entity_type === 'Control')!;
+    expect(controlHit.title).toEqual('Dependency scanning');
+    expect(controlHit.status).toEqual('Existing');
+    expect(controlHit.severity).toBeNull();
+  });
+
+  it('should rank title matches above description matches', async () => {
+    const inDescription = await createIssue({ title: 'Library upgrade', description: 'Moves the service off openssl 1.1' });
+    const inTitle = await createIssue({ title: 'Vulnerable openssl version', description: 'See advisory' });
+    const inNotes = await createIssue({ title: 'Legacy crypto', description: 'Old ciphers', threat_modeling_notes: 'Attackers target openssl' });
+
+    const result = await search(searchFor({ query: 'openssl' }), actor);
+
+    expect(result.items.map(item => item.id)).toEqual([inTitle.id, inDescription.id, inNotes.id]);
+    expect(result.items[0].rank).toBeGreaterThan(result.items[1].rank);
+    expect(result.items[1].rank).toBeGreaterThan(result.items[2].rank);
+  });
+
+  it('should match word forms and web search syntax', async () => {
+    const matching = await createIssue({ title: 'Tokens are logged in plain text', description: 'Session tokens appear in logs' });
+    await createIssue({ title: 'Tokens expire too late', description: 'Refresh tokens live for a year' });
+
+    const stemmed = await search(searchFor({ query: 'logging' }), actor);
+    expect(stemmed.items.map(item => item.id)).toEqual([matching.id]);
+
+    const phrase = await search(searchFor({ query: '"session tokens" -refresh' }), actor);
+    expect(phrase.items.map(item => item.id)).toEqual([matching.id]);
+  });
+
+  it('should highlight matches and escape the surrounding text', async () => {
+    await createIssue({
+      title: 'Injected script runs via <img> tags',
+      description: 'Unescaped "query" parameter lets a script run & steal cookies'
+    });
+
+    const result = await search(searchFor({ query: 'script' }), actor);
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].title).toEqual('Injected script runs via <img> tags');
+    expect(result.items[0].title_highlight).toEqual('Injected <mark>script</mark> runs via &lt;img&gt; tags');
+    expect(result.items[0].snippet).toContain('<mark>script</mark>');
+    expect(result.items[0].snippet).toContain('&quot;query&quot;');
+    expect(result.items[0].snippet).toContain('&amp;');
+    expect(result.items[0].snippet).not.toContain('<img>');
+  });
+
+  it('should filter by entity type and container', async () => {
+    const issue = await createIssue({ title: 'Exposed secrets in repo', description: 'Rotate them' });
+    const other = await createIssue({ title: 'Secrets in environment', description: 'Move to vault', container_id: otherContainerId });
+    await db.insert(securityViolationsTable)
+      .values({
+        title: 'Secrets leaked to pastebin',
+        description: 'Found by monitoring',
+        violation_type: 'DataLeak',
+        severity: 'High',
+        incident_date: new Date('2024-01-15'),
+        container_id: containerId,
+        created_by: actor.id
+      })
+      .execute();
+
+    const issues = await search(searchFor({ query: 'secrets', types: ['Issue'] }), actor);
+    expect(issues.total).toEqual(2);
+    expect(issues.items.every(item => item.entity_type === 'Issue')).toBe(true);
+
+    const scoped = await search(searchFor({ query: 'secrets', types: ['Issue'], container_id: otherContainerId }), actor);
+    expect(scoped.items.map(item => item.id)).toEqual([other.id]);
+    expect(scoped.items[0].container_name).toEqual('Identity');
+
+    const container = await search(searchFor({ query: 'secrets', container_id: containerId }), actor);
+    expect(container.total).toEqual(2);
+    expect(container.items.map(item => item.entity_type).sort()).toEqual(['Issue', 'Violation']);
+    expect(container.items.find(item => item.entity_type === 'Issue')!.id).toEqual(issue.id);
+  });
+
+  it('should leave out archived records and archived containers unless asked', async () => {
+    await createIssue({ title: 'Cache poisoning', description: 'Vary header missing', container_id: otherContainerId });
+    await db.insert(architectureComponentsTable)
+      .values({
+        name: 'Cache layer',
+        component_type: 'Service',
+        description: 'Poisoning risk from shared cache',
+        is_active: false,
+        container_id: containerId,
+        created_by: actor.id
+      })
+      .execute();
+    await db.update(containersTable)
+      .set({ is_active: false })
+      .where(eq(containersTable.id, otherContainerId))
+      .execute();
+
+    const active = await search(searchFor({ query: 'poisoning' }), actor);
+    expect(active.total).toEqual(0);
+    expect(active.items).toHaveLength(0);
+
+    const archived = await search(searchFor({ query: 'poisoning', include_archived: true }), actor);
+    expect(archived.total).toEqual(2);
+    expect(archived.items.map(item => item.entity_type).sort()).toEqual(['Component', 'Issue']);
+  });
+
+  it('should page through results with a stable total', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await createIssue({ title: `Injection finding ${i}`, description: 'SQL injection in report filters' });
+    }
+
+    const first = await search(searchFor({ query: 'injection', limit: 2 }), actor);
+    const second = await search(searchFor({ query: 'injection', limit: 2, cursor: first.next_cursor! }), actor);
+    const last = await search(searchFor({ query: 'injection', limit: 2, cursor: second.next_cursor! }), actor);
+
+    expect(first.total).toEqual(5);
+    expect(first.items).toHaveLength(2);
+    expect(last.total).toEqual(5);
+    expect(last.items).toHaveLength(1);
+    expect(last.next_cursor).toBeNull();
+
+    const all = await search(searchFor({ query: 'injection', limit: 10 }), actor);
+    expect([...first.items, ...second.items, ...last.items].map(item => item.id)).toEqual(all.items.map(item => item.id));
+    expect(all.next_cursor).toBeNull();
+  });
+
+  it('should keep its place among results of equal rank updated in the same millisecond', async () => {
+    // Microseconds apart, which a Date cannot tell apart
+    const values = [1, 2, 3].map(i => ({
+      title: 'Injection finding',
+      description: 'SQL injection in report filters',
+      severity: 'High' as const,
+      classification: 'Vulnerability' as const,
+      hierarchy: 'Task' as const,
+      container_id: containerId,
+      created_by: actor.id,
+      updated_at: sql`${`2024-03-01 12:00:00.00000${i}`}::timestamp`
+    }));
+    await db.insert(securityIssuesTable).values(values).execute();
+
+    const ids: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await search(searchFor({ query: 'injection', limit: 1, cursor }), actor);
+      ids.push(...page.items.map(item => item.id));
+      cursor = page.next_cursor ?? undefined;
+    } while (cursor);
+
+    expect(new Set(ids).size).toEqual(3);
+  });
+
+  it('should report update times in UTC', async () => {
+    const issue = await createIssue({ title: 'Injection finding', description: 'SQL injection in report filters' });
+    await db.update(securityIssuesTable)
+      .set({ updated_at: new Date('2024-03-01T12:00:00.000Z') })
+      .where(eq(securityIssuesTable.id, issue.id))
+      .execute();
+
+    const result = await search(searchFor({ query: 'injection' }), actor);
+
+    expect(result.items[0].updated_at).toEqual(new Date('2024-03-01T12:00:00.000Z'));
+  });
+
+  it('should reject cursors it did not issue', async () => {
+    await expect(search(searchFor({ query: 'injection', cursor: 'not-a-cursor' }), actor)).rejects.toThrow('Invalid cursor');
+  });
+
+  it('should return nothing for queries without searchable terms', async () => {
+    await createIssue({ title: 'The and of', description: 'Stop words only' });
+
+    const result = await search(searchFor({ query: 'the' }), actor);
+
+    expect(result).toEqual({ items: [], total: 0, next_cursor: null });
+  });
+
+  it('should reject an unknown container', async () => {
+    await expect(search(searchFor({ query: 'anything', container_id: 9999 }), actor))
+      .rejects.toThrow(/Container with id 9999 not found/);
+  });
+
+  it('should reject blank queries', () => {
+    expect(() => searchFor({ query: '   ' })).toThrow();
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { controlFrameworksTable, usersTable } from '../db/schema';
+import { CONTROL_FRAMEWORKS, seedReferenceData } from '../db/seed';
+import { verifyPassword } from '../auth/password';
+import { eq } from 'drizzle-orm';
+
+const admin = { username: 'bootstrap', email: 'bootstrap@example.com', full_name: 'Bootstrap Admin', password: 'initial-password' };
+
+describe('seedReferenceData', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should load the control framework catalog', async () => {
+    const result = await seedReferenceData();
+
+    expect(result).toEqual({ frameworks_changed: CONTROL_FRAMEWORKS.length, users_created: [] });
+    const frameworks = await db.select().from(controlFrameworksTable).execute();
+    expect(frameworks.map(framework => framework.code).sort())
+      .toEqual(CONTROL_FRAMEWORKS.map(framework => framework.code).sort());
+  });
+
+  it('should change nothing when run again', async () => {
+    await seedReferenceData({ admin });
+    const before = await db.select().from(controlFrameworksTable).execute();
+
+    const result = await seedReferenceData({ admin });
+
+    expect(result).toEqual({ frameworks_changed: 0, users_created: [] });
+    expect(await db.select().from(controlFrameworksTable).execute()).toEqual(before);
+    expect(await db.select().from(usersTable).execute()).toHaveLength(1);
+  });
+
+  it('should bring revised catalog entries up to date', async () => {
+    await seedReferenceData();
+    await db.update(controlFrameworksTable)
+      .set({ version: '1.1' })
+      .where(eq(controlFrameworksTable.code, 'NIST-CSF'))
+      .execute();
+
+    const result = await seedReferenceData();
+
+    expect(result.frameworks_changed).toEqual(1);
+    const [framework] = await db.select().from(controlFrameworksTable)
+      .where(eq(controlFrameworksTable.code, 'NIST-CSF'))
+      .execute();
+    expect(framework.version).toEqual('2.0');
+  });
+
+  it('should create the bootstrap admin', async () => {
+    const result = await seedReferenceData({ admin });
+
+    expect(result.users_created).toEqual(['bootstrap']);
+    const [user] = await db.select().from(usersTable).execute();
+    expect(user).toMatchObject({ username: 'bootstrap', role: 'Admin', is_active: true });
+    expect(await verifyPassword('initial-password', user.password_hash!)).toBe(true);
+  });
+
+  it('should not overwrite an existing admin account', async () => {
+    await seedReferenceData({ admin });
+    await db.update(usersTable).set({ role: 'SecurityManager' }).execute();
+
+    await seedReferenceData({ admin: { ...admin, password: 'different-password' } });
+
+    const [user] = await db.select().from(usersTable).execute();
+    expect(user.role).toEqual('SecurityManager');
+    expect(await verifyPassword('initial-password', user.password_hash!)).toBe(true);
+  });
+
+  it('should reject an invalid admin account', async () => {
+    await expect(seedReferenceData({ admin: { ...admin, email: 'not-an-email' } })).rejects.toThrow();
+  });
+});
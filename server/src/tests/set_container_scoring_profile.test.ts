@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityIssuesTable, usersTable } from '../db/schema';
+import { createScoringProfile } from '../handlers/create_scoring_profile';
+import { setContainerScoringProfile } from '../handlers/set_container_scoring_profile';
+import { eq } from 'drizzle-orm';
+
+const createFixtures = async () => {
+  const user = await db.insert(usersTable)
+    .values({
+      username: 'manager',
+      email: 'manager@example.com',
+      full_name: 'Security Manager',
+      role: 'SecurityManager'
+    })
+    .returning()
+    .execute();
+
+  const container = await db.insert(containersTable)
+    .values({ name: 'Payments', type: 'System', created_by: user[0].id })
+    .returning()
+    .execute();
+
+  // Default profile: 80*.25 + 40*.25 + 0 + 0 + 0 = 30
+  const issue = await db.insert(securityIssuesTable)
+    .values({
+      title: 'Card data exposure',
+      description: 'PAN logged in plaintext',
+      severity: 'High',
+      classification: 'Vulnerability',
+      hierarchy: 'Task',
+      confidentiality_impact: 80,
+      integrity_impact: 40,
+      risk_score: 30,
+      container_id: container[0].id,
+      created_by: user[0].id
+    })
+    .returning()
+    .execute();
+
+  return { user: user[0], container: container[0], issue: issue[0] };
+};
+
+describe('setContainerScoringProfile', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should assign the profile and rescore the container', async () => {
+    const { user, container, issue } = await createFixtures();
+    const profile = await createScoringProfile({
+      name: 'confidentiality-first',
+      description: null,
+      confidentiality_weight: 1,
+      integrity_weight: 0,
+      availability_weight: 0,
+      compliance_weight: 0,
+      third_party_weight: 0,
+      critical_weight: 1,
+      high_weight: 1,
+      medium_weight: 1,
+      low_weight: 1
+    }, user.id);
+
+    const result = await setContainerScoringProfile({
+      container_id: container.id,
+      scoring_profile_id: profile.id
+    }, user.id);
+
+    expect(result.scoring_profile_id).toEqual(profile.id);
+    expect(result.updated_by).toEqual(user.id);
+    expect(result.risk_score).toEqual(80);
+
+    const issues = await db.select()
+      .from(securityIssuesTable)
+      .where(eq(securityIssuesTable.id, issue.id))
+      .execute();
+    expect(issues[0].risk_score).toEqual(80);
+  });
+
+  it('should revert to the default profile', async () => {
+    const { user, container } = await createFixtures();
+    await db.update(containersTable)
+      .set({ risk_score: 99 })
+      .where(eq(containersTable.id, container.id))
+      .execute();
+
+    const result = await setContainerScoringProfile({
+      container_id: container.id,
+      scoring_profile_id: null
+    }, user.id);
+
+    expect(result.scoring_profile_id).toBeNull();
+    expect(result.risk_score).toEqual(30);
+  });
+
+  it('should reject unknown profiles', async () => {
+    const { user, container } = await createFixtures();
+
+    await expect(setContainerScoringProfile({
+      container_id: container.id,
+      scoring_profile_id: 999
+    }, user.id)).rejects.toThrow(/Scoring profile with id 999 not found/);
+  });
+
+  it('should reject unknown containers', async () => {
+    const { user } = await createFixtures();
+
+    await expect(setContainerScoringProfile({
+      container_id: 999,
+      scoring_profile_id: null
+    }, user.id)).rejects.toThrow(/Container with id 999 not found/);
+  });
+});
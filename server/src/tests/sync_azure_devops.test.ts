@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { type MockAzureDevOps, startMockAzureDevOps } from '../helpers/mock_azure_devops';
+import { db } from '../db';
+import { containersTable, issueStatusHistoryTable, securityIssuesTable, usersTable } from '../db/schema';
+import { pullIssuesFromAzureDevOps, pushIssuesToAzureDevOps } from '../handlers/sync_azure_devops';
+import { eq } from 'drizzle-orm';
+
+const createTestUser = async (username: string, email: string, role: 'SecurityAnalyst' | 'SecurityManager' = 'SecurityAnalyst') => {
+  const result = await db.insert(usersTable)
+    .values({ username, email, full_name: username, role })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestContainer = async (userId: number, project: string | null = 'Payments') => {
+  const result = await db.insert(containersTable)
+    .values({
+      name: 'Payments API',
+      description: null,
+      type: 'Service',
+      external_system: project ? 'Azure DevOps' : null,
+      external_id: project,
+      created_by: userId
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestIssue = async (
+  containerId: number,
+  userId: number,
+  values: Partial<typeof securityIssuesTable.$inferInsert> = {}
+) => {
+  const result = await db.insert(securityIssuesTable)
+    .values({
+      title: 'SQL injection in search',
+      description: 'The q parameter is concatenated into <SQL>',
+      severity: 'Critical',
+      classification: 'Vulnerability',
+      hierarchy: 'Task',
+      risk_score: 80,
+      container_id: containerId,
+      created_by: userId,
+      ...values
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const issueById = async (id: number) => {
+  const result = await db.select()
+    .from(securityIssuesTable)
+    .where(eq(securityIssuesTable.id, id))
+    .execute();
+  return result[0];
+};
+
+// Marks an issue as changed after its last sync
+const changeIssue = async (id: number, values: Partial<typeof securityIssuesTable.$inferInsert>) => {
+  await db.update(securityIssuesTable)
+    .set({ ...values, updated_at: new Date(Date.now() + 1000) })
+    .where(eq(securityIssuesTable.id, id))
+    .execute();
+};
+
+describe('Azure DevOps sync', () => {
+  let devops: MockAzureDevOps;
+
+  beforeEach(async () => {
+    await createDB();
+    devops = startMockAzureDevOps({ projects: ['Payments'] });
+  });
+
+  afterEach(async () => {
+    devops.stop();
+    await resetDB();
+  });
+
+  describe('pushIssuesToAzureDevOps', () => {
+    it('should create work items with priority, parent links and state', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const epic = await createTestIssue(container.id, user.id, { title: 'Harden payments', hierarchy: 'Epic', severity: 'High' });
+      const story = await createTestIssue(container.id, user.id, { title: 'Fix injection flaws', hierarchy: 'Story', parent_issue_id: epic.id });
+      const task = await createTestIssue(container.id, user.id, { severity: 'Medium', status: 'In-progress', parent_issue_id: story.id });
+
+      const result = await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      expect(result).toEqual({ created: 3, updated: 0, skipped: 0, failures: [] });
+
+      const linkedTask = await issueById(task.id);
+      expect(linkedTask).toMatchObject({
+        external_system: 'Azure DevOps',
+        external_id: '3',
+        external_url: `${devops.organization_url}/Payments/_workitems/edit/3`,
+        external_sync_status: 'Synced',
+        external_sync_error: null
+      });
+      expect(linkedTask.external_synced_at).toBeInstanceOf(Date);
+
+      expect(devops.workItems.get(1)!.fields).toMatchObject({
+        'System.WorkItemType': 'Epic',
+        'System.Title': 'Harden payments',
+        'Microsoft.VSTS.Common.Priority': 2,
+        'System.State': 'New'
+      });
+      expect(devops.workItems.get(2)!.fields['System.WorkItemType']).toBe('User Story');
+      expect(devops.workItems.get(2)!.relations).toEqual([
+        { rel: 'System.LinkTypes.Hierarchy-Reverse', url: `${devops.organization_url}/_apis/wit/workItems/1` }
+      ]);
+      expect(devops.workItems.get(3)!.fields).toMatchObject({
+        'System.WorkItemType': 'Task',
+        'Microsoft.VSTS.Common.Priority': 3,
+        'System.State': 'Active',
+        'System.Tags': 'PrimeSec'
+      });
+      expect(devops.workItems.get(3)!.fields['System.Description']).toContain('<p>The q parameter is concatenated into &lt;SQL&gt;</p>');
+    });
+
+    it('should push changed issues, state included', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const story = await createTestIssue(container.id, user.id, { hierarchy: 'Story' });
+      const task = await createTestIssue(container.id, user.id, { title: 'Verbose errors' });
+      const untouched = await createTestIssue(container.id, user.id, { title: 'Missing HSTS' });
+      await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      await changeIssue(story.id, { status: 'Resolved', severity: 'Low' });
+      // Tasks have no Resolved state in the Agile process
+      await changeIssue(task.id, { status: 'Resolved' });
+      const result = await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      expect(result).toEqual({ created: 0, updated: 2, skipped: 1, failures: [] });
+      expect(devops.workItems.get(1)!.fields).toMatchObject({ 'System.State': 'Resolved', 'Microsoft.VSTS.Common.Priority': 4 });
+      expect(devops.workItems.get(2)!.fields['System.State']).toBe('Closed');
+      expect(devops.workItems.get(3)!.fields['System.State']).toBe('New');
+      expect((await issueById(untouched.id)).external_sync_status).toBe('Synced');
+    });
+
+    it('should record per-issue errors and push the rest', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const rejected = await createTestIssue(container.id, user.id, { title: ' ' });
+      const deleted = await createTestIssue(container.id, user.id, { title: 'Verbose errors' });
+      const accepted = await createTestIssue(container.id, user.id, { title: 'Missing HSTS' });
+
+      const first = await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+      expect(first.created).toBe(2);
+      expect(first.failures).toEqual([{
+        issue_id: rejected.id,
+        error: `Azure DevOps POST /Payments/_apis/wit/workitems/$Task failed with 400: TF401320: Rule Error for field Title. Error code: Required, InvalidEmpty.`
+      }]);
+      expect(await issueById(rejected.id)).toMatchObject({
+        external_id: null,
+        external_sync_status: 'Failed',
+        external_sync_error: first.failures[0].error
+      });
+
+      devops.deleteWorkItem(1);
+      await changeIssue(deleted.id, { severity: 'High' });
+      await changeIssue(rejected.id, { title: 'Stored XSS in profile' });
+      const second = await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      expect(second).toEqual({
+        created: 1,
+        updated: 0,
+        skipped: 1,
+        failures: [{ issue_id: deleted.id, error: 'Work item 1 no longer exists' }]
+      });
+      expect(await issueById(rejected.id)).toMatchObject({ external_id: '3', external_sync_status: 'Synced', external_sync_error: null });
+      expect(await issueById(deleted.id)).toMatchObject({ external_sync_status: 'Failed', external_sync_error: 'Work item 1 no longer exists' });
+      expect((await issueById(accepted.id)).external_sync_status).toBe('Synced');
+    });
+
+    it('should leave issues linked to another tracker alone', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      await createTestIssue(container.id, user.id, { external_system: 'Jira', external_id: 'SEC-1' });
+
+      const result = await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      expect(result).toEqual({ created: 0, updated: 0, skipped: 1, failures: [] });
+      expect(devops.workItems.size).toBe(0);
+    });
+
+    it('should require a configured connection to an existing project', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const unlinked = await createTestContainer(user.id, null);
+      const missing = await createTestContainer(user.id, 'Ledger');
+
+      await expect(pushIssuesToAzureDevOps({ container_id: container.id }, null)).rejects.toThrow('Azure DevOps is not configured');
+      await expect(pushIssuesToAzureDevOps({ container_id: unlinked.id }, devops.config()))
+        .rejects.toThrow(`Container ${unlinked.id} is not linked to Azure DevOps`);
+      await expect(pushIssuesToAzureDevOps({ container_id: missing.id }, devops.config()))
+        .rejects.toThrow('Azure DevOps GET /_apis/projects/Ledger failed with 404: TF200016: The following project does not exist: Ledger.');
+      await expect(pushIssuesToAzureDevOps({ container_id: container.id }, devops.config({ token: 'expired' })))
+        .rejects.toThrow('Azure DevOps GET /_apis/projects/Payments failed with 401');
+    });
+  });
+
+  describe('pullIssuesFromAzureDevOps', () => {
+    it('should round-trip state and assignee changes', async () => {
+      const user = await createTestUser('manager', 'manager@example.com', 'SecurityManager');
+      const developer = await createTestUser('dev', 'dev@example.com');
+      const container = await createTestContainer(user.id);
+      const story = await createTestIssue(container.id, user.id, { hierarchy: 'Story' });
+      const task = await createTestIssue(container.id, user.id, { title: 'Verbose errors' });
+      const removed = await createTestIssue(container.id, user.id, { title: 'Duplicate finding' });
+      await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      devops.setState(1, 'Resolved');
+      devops.setState(2, 'Active');
+      devops.setAssignee(2, 'DEV@example.com');
+      devops.setState(3, 'Removed');
+
+      const result = await pullIssuesFromAzureDevOps({ container_id: container.id }, user, devops.config());
+
+      expect(result).toEqual({ updated: 3, unchanged: 0, failures: [], conflicts: [] });
+      expect(await issueById(story.id)).toMatchObject({ status: 'Resolved', resolution_note: 'Resolved in Azure DevOps as 1 (Resolved)' });
+      expect(await issueById(task.id)).toMatchObject({ status: 'In-progress', assigned_to: developer.id });
+      expect(await issueById(removed.id)).toMatchObject({ status: 'Closed', resolution_note: 'Closed in Azure DevOps as 3 (Removed)' });
+
+      const history = await db.select()
+        .from(issueStatusHistoryTable)
+        .where(eq(issueStatusHistoryTable.issue_id, task.id))
+        .execute();
+      expect(history[0]).toMatchObject({ from_status: 'Open', to_status: 'In-progress', note: 'Synced from Azure DevOps 2 (Active)' });
+
+      // Pulled changes are not pushed back
+      const push = await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+      expect(push).toEqual({ created: 0, updated: 0, skipped: 3, failures: [] });
+    });
+
+    it('should keep local changes that were not pushed yet pending', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const issue = await createTestIssue(container.id, user.id);
+      await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      await changeIssue(issue.id, { severity: 'Low' });
+      devops.setState(1, 'Active');
+      await pullIssuesFromAzureDevOps({ container_id: container.id }, user, devops.config());
+
+      const push = await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+      expect(push.updated).toBe(1);
+      expect(devops.workItems.get(1)!.fields).toMatchObject({ 'System.State': 'Active', 'Microsoft.VSTS.Common.Priority': 4 });
+    });
+
+    it('should not close or resolve Critical issues for a puller without the permission', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const resolved = await createTestIssue(container.id, user.id, { hierarchy: 'Story' });
+      const removed = await createTestIssue(container.id, user.id, { title: 'Duplicate finding' });
+      await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      devops.setState(1, 'Resolved');
+      devops.setState(2, 'Removed');
+      const result = await pullIssuesFromAzureDevOps({ container_id: container.id }, user, devops.config());
+
+      expect(result).toEqual({
+        updated: 0,
+        unchanged: 2,
+        failures: [],
+        conflicts: [
+          {
+            issue_id: resolved.id,
+            error: 'Resolved in Azure DevOps as 1 was not applied: Role SecurityAnalyst lacks permission issues:close_critical'
+          },
+          {
+            issue_id: removed.id,
+            error: 'Removed in Azure DevOps as 2 was not applied: Role SecurityAnalyst lacks permission risk:accept'
+          }
+        ]
+      });
+      expect(await issueById(resolved.id)).toMatchObject({ status: 'Open', external_sync_status: 'Conflict' });
+      expect(await issueById(removed.id)).toMatchObject({ status: 'Open', external_sync_status: 'Conflict' });
+
+      const history = await db.select()
+        .from(issueStatusHistoryTable)
+        .where(eq(issueStatusHistoryTable.issue_id, resolved.id))
+        .execute();
+      expect(history).toHaveLength(0);
+    });
+
+    it('should record work items that no longer exist', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const issue = await createTestIssue(container.id, user.id);
+      await createTestIssue(container.id, user.id, { title: 'Verbose errors' });
+      await pushIssuesToAzureDevOps({ container_id: container.id }, devops.config());
+
+      devops.deleteWorkItem(1);
+      const result = await pullIssuesFromAzureDevOps({ container_id: container.id }, user, devops.config());
+
+      expect(result).toEqual({
+        updated: 0,
+        unchanged: 1,
+        failures: [{ issue_id: issue.id, error: 'Work item 1 no longer exists' }],
+        conflicts: []
+      });
+      expect(await issueById(issue.id)).toMatchObject({ external_sync_status: 'Failed', external_sync_error: 'Work item 1 no longer exists' });
+    });
+  });
+});
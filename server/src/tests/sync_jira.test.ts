@@ -0,0 +1,373 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB } from '../helpers';
+import { type MockJira, startMockJira } from '../helpers/mock_jira';
+import { db } from '../db';
+import { containersTable, issueStatusHistoryTable, securityIssuesTable, usersTable } from '../db/schema';
+import { pullIssuesFromJira, pushIssuesToJira } from '../handlers/sync_jira';
+import { JIRA_WEBHOOK_PATH, MAX_WEBHOOK_BODY_BYTES, handleJiraWebhookRequest, receiveJiraWebhook } from '../integrations/jira_webhook';
+import { eq } from 'drizzle-orm';
+
+const createTestUser = async (username: string, email: string) => {
+  const result = await db.insert(usersTable)
+    .values({ username, email, full_name: username, role: 'SecurityAnalyst' })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestContainer = async (userId: number, projectKey: string | null = 'SEC') => {
+  const result = await db.insert(containersTable)
+    .values({
+      name: 'Payments API',
+      description: null,
+      type: 'Service',
+      external_system: projectKey ? 'Jira' : null,
+      external_id: projectKey,
+      created_by: userId
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestIssue = async (
+  containerId: number,
+  userId: number,
+  values: Partial<typeof securityIssuesTable.$inferInsert> = {}
+) => {
+  const result = await db.insert(securityIssuesTable)
+    .values({
+      title: 'SQL injection in search',
+      description: 'The q parameter is concatenated into SQL',
+      severity: 'Critical',
+      classification: 'Vulnerability',
+      hierarchy: 'Task',
+      risk_score: 80,
+      container_id: containerId,
+      created_by: userId,
+      ...values
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const issueById = async (id: number) => {
+  const result = await db.select()
+    .from(securityIssuesTable)
+    .where(eq(securityIssuesTable.id, id))
+    .execute();
+  return result[0];
+};
+
+describe('Jira sync', () => {
+  let jira: MockJira;
+
+  beforeEach(async () => {
+    await createDB();
+    jira = startMockJira({ projects: ['SEC'] });
+  });
+
+  afterEach(async () => {
+    jira.stop();
+    await resetDB();
+  });
+
+  describe('pushIssuesToJira', () => {
+    it('should create Jira issues that keep the hierarchy', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      // Created before its parents, which still have to be pushed first
+      const task = await createTestIssue(container.id, user.id, { severity: 'High' });
+      const epic = await createTestIssue(container.id, user.id, { title: 'Harden payments', hierarchy: 'Epic' });
+      const story = await createTestIssue(container.id, user.id, { title: 'Fix injection flaws', hierarchy: 'Story', parent_issue_id: epic.id });
+      const loose = await createTestIssue(container.id, user.id, { title: 'Weak TLS ciphers', severity: 'Low', parent_issue_id: epic.id });
+      await db.update(securityIssuesTable).set({ parent_issue_id: story.id }).where(eq(securityIssuesTable.id, task.id)).execute();
+
+      const result = await pushIssuesToJira({ container_id: container.id }, jira.config());
+
+      expect(result).toEqual({ created: 4, updated: 0, skipped: 0, failures: [] });
+
+      const linkedEpic = await issueById(epic.id);
+      const linkedStory = await issueById(story.id);
+      const linkedTask = await issueById(task.id);
+      const linkedLoose = await issueById(loose.id);
+      expect(linkedEpic).toMatchObject({ external_system: 'Jira', external_id: 'SEC-1', external_url: `${jira.url}/browse/SEC-1` });
+      expect(linkedEpic.external_synced_at).toBeInstanceOf(Date);
+
+      expect(jira.issues.get(linkedEpic.external_id!)!.fields).toMatchObject({ issuetype: { name: 'Epic' }, summary: 'Harden payments' });
+      expect(jira.issues.get(linkedStory.external_id!)!.fields).toMatchObject({
+        issuetype: { name: 'Story' },
+        parent: { key: linkedEpic.external_id }
+      });
+      expect(jira.issues.get(linkedTask.external_id!)!.fields).toMatchObject({
+        issuetype: { name: 'Sub-task' },
+        parent: { key: linkedStory.external_id },
+        priority: { name: 'High' },
+        labels: ['primesec']
+      });
+      expect(jira.issues.get(linkedLoose.external_id!)!.fields).toMatchObject({
+        issuetype: { name: 'Task' },
+        parent: { key: linkedEpic.external_id },
+        priority: { name: 'Low' }
+      });
+      expect(jira.issues.get(linkedTask.external_id!)!.fields['description']).toContain(`PrimeSec issue: #${task.id}`);
+    });
+
+    it('should only push issues changed since the last push', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const changed = await createTestIssue(container.id, user.id);
+      await createTestIssue(container.id, user.id, { title: 'Verbose errors', severity: 'Medium' });
+      await pushIssuesToJira({ container_id: container.id }, jira.config());
+
+      await db.update(securityIssuesTable)
+        .set({ title: 'SQL injection in search and filters', severity: 'High', updated_at: new Date(Date.now() + 1000) })
+        .where(eq(securityIssuesTable.id, changed.id))
+        .execute();
+      const result = await pushIssuesToJira({ container_id: container.id }, jira.config());
+
+      expect(result).toEqual({ created: 0, updated: 1, skipped: 1, failures: [] });
+      expect(jira.issues.get('SEC-1')!.fields).toMatchObject({ summary: 'SQL injection in search and filters', priority: { name: 'High' } });
+      expect(jira.requests.filter(request => request.method === 'PUT').map(request => request.path)).toEqual(['/issue/SEC-1']);
+    });
+
+    it('should not create Jira issues for inactive issues', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const resolved = await createTestIssue(container.id, user.id, { status: 'Resolved' });
+      await createTestIssue(container.id, user.id, { status: 'Closed' });
+
+      const result = await pushIssuesToJira({ container_id: container.id }, jira.config());
+
+      expect(result).toEqual({ created: 0, updated: 0, skipped: 2, failures: [] });
+      expect((await issueById(resolved.id)).external_id).toBeNull();
+    });
+
+    it('should report issues Jira rejects and push the rest', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const rejected = await createTestIssue(container.id, user.id, { title: '' });
+      const accepted = await createTestIssue(container.id, user.id);
+
+      const result = await pushIssuesToJira({ container_id: container.id }, jira.config());
+
+      expect(result.created).toBe(1);
+      expect(result.failures).toEqual([{
+        issue_id: rejected.id,
+        error: 'Jira POST /issue failed with 400: summary: You must specify a summary of the issue.'
+      }]);
+      expect(await issueById(rejected.id)).toMatchObject({
+        external_id: null,
+        external_sync_status: 'Failed',
+        external_sync_error: 'Jira POST /issue failed with 400: summary: You must specify a summary of the issue.'
+      });
+      expect(await issueById(accepted.id)).toMatchObject({ external_id: 'SEC-1', external_sync_status: 'Synced', external_sync_error: null });
+    });
+
+    it('should require the container to be linked to an existing Jira project', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const unlinked = await createTestContainer(user.id, null);
+      const missing = await createTestContainer(user.id, 'NOPE');
+
+      await expect(pushIssuesToJira({ container_id: unlinked.id }, jira.config()))
+        .rejects.toThrow(`Container ${unlinked.id} is not linked to Jira`);
+      await expect(pushIssuesToJira({ container_id: missing.id }, jira.config()))
+        .rejects.toThrow("Jira GET /project/NOPE failed with 404: No project could be found with key 'NOPE'.");
+      await expect(pushIssuesToJira({ container_id: 999 }, jira.config()))
+        .rejects.toThrow('Container with id 999 not found');
+    });
+
+    it('should fail when Jira is not configured or rejects the credentials', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+
+      await expect(pushIssuesToJira({ container_id: container.id }, null)).rejects.toThrow('Jira is not configured');
+      await expect(pushIssuesToJira({ container_id: container.id }, jira.config({ api_token: 'wrong' })))
+        .rejects.toThrow('Jira GET /project/SEC failed with 401: You are not authenticated');
+    });
+  });
+
+  describe('pullIssuesFromJira', () => {
+    it('should apply status and assignee changes made in Jira', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const developer = await createTestUser('dev', 'Dev@Example.com');
+      const container = await createTestContainer(user.id);
+      const fixed = await createTestIssue(container.id, user.id, { severity: 'High' });
+      const started = await createTestIssue(container.id, user.id, { title: 'Verbose errors', severity: 'Medium' });
+      const untouched = await createTestIssue(container.id, user.id, { title: 'Missing HSTS', severity: 'Low' });
+      await pushIssuesToJira({ container_id: container.id }, jira.config());
+
+      jira.setStatus('SEC-1', 'Done', 'done');
+      jira.setStatus('SEC-2', 'In Review', 'indeterminate');
+      jira.setAssignee('SEC-2', 'dev@example.com');
+      jira.setAssignee('SEC-3', 'contractor@elsewhere.com');
+
+      const result = await pullIssuesFromJira({ container_id: container.id }, user, jira.config());
+
+      expect(result).toEqual({ updated: 2, unchanged: 1, failures: [], conflicts: [] });
+      expect(await issueById(fixed.id)).toMatchObject({
+        status: 'Resolved',
+        resolution_note: 'Resolved in Jira as SEC-1 (Done)',
+        updated_by: user.id
+      });
+      expect(await issueById(started.id)).toMatchObject({ status: 'In-progress', assigned_to: developer.id });
+      // Assignees without a local account leave the assignee alone
+      expect(await issueById(untouched.id)).toMatchObject({ status: 'Open', assigned_to: null });
+
+      const history = await db.select()
+        .from(issueStatusHistoryTable)
+        .where(eq(issueStatusHistoryTable.issue_id, fixed.id))
+        .execute();
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ from_status: 'Open', to_status: 'Resolved', note: 'Synced from Jira SEC-1 (Done)', changed_by: user.id });
+
+      const containers = await db.select().from(containersTable).where(eq(containersTable.id, container.id)).execute();
+      expect(containers[0].risk_score).toBeGreaterThan(0);
+    });
+
+    it('should reopen issues reopened in Jira and keep Closed issues closed', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const reopened = await createTestIssue(container.id, user.id);
+      const closed = await createTestIssue(container.id, user.id, { title: 'Accepted risk' });
+      await pushIssuesToJira({ container_id: container.id }, jira.config());
+      await db.update(securityIssuesTable)
+        .set({ status: 'Resolved', resolution_note: 'Fixed' })
+        .where(eq(securityIssuesTable.id, reopened.id))
+        .execute();
+      await db.update(securityIssuesTable)
+        .set({ status: 'Closed', resolution_note: 'Risk accepted' })
+        .where(eq(securityIssuesTable.id, closed.id))
+        .execute();
+
+      jira.setStatus('SEC-2', 'Done', 'done');
+      const result = await pullIssuesFromJira({ container_id: container.id }, user, jira.config());
+
+      expect(result).toEqual({ updated: 1, unchanged: 1, failures: [], conflicts: [] });
+      expect(await issueById(reopened.id)).toMatchObject({ status: 'Open', resolution_note: null });
+      expect(await issueById(closed.id)).toMatchObject({ status: 'Closed', resolution_note: 'Risk accepted' });
+    });
+
+    it('should leave Critical issues done in Jira for someone who may resolve them', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const developer = await createTestUser('dev', 'dev@example.com');
+      const container = await createTestContainer(user.id);
+      const critical = await createTestIssue(container.id, user.id);
+      await pushIssuesToJira({ container_id: container.id }, jira.config());
+
+      jira.setStatus('SEC-1', 'Done', 'done');
+      jira.setAssignee('SEC-1', 'dev@example.com');
+      const result = await pullIssuesFromJira({ container_id: container.id }, user, jira.config());
+
+      // The assignee still syncs; the status waits
+      const conflict = 'Done in Jira as SEC-1 was not applied: Role SecurityAnalyst lacks permission issues:close_critical';
+      expect(result).toEqual({ updated: 1, unchanged: 0, failures: [], conflicts: [{ issue_id: critical.id, error: conflict }] });
+      expect(await issueById(critical.id)).toMatchObject({
+        status: 'Open',
+        assigned_to: developer.id,
+        external_sync_status: 'Conflict',
+        external_sync_error: conflict
+      });
+    });
+
+    it('should report issues deleted in Jira', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const container = await createTestContainer(user.id);
+      const deleted = await createTestIssue(container.id, user.id);
+      await createTestIssue(container.id, user.id, { title: 'Verbose errors' });
+      await pushIssuesToJira({ container_id: container.id }, jira.config());
+
+      jira.deleteIssue('SEC-1');
+      const result = await pullIssuesFromJira({ container_id: container.id }, user, jira.config());
+
+      expect(result).toEqual({
+        updated: 0,
+        unchanged: 1,
+        failures: [{ issue_id: deleted.id, error: 'Jira issue SEC-1 no longer exists' }],
+        conflicts: []
+      });
+    });
+  });
+
+  describe('receiveJiraWebhook', () => {
+    const secret = 'webhook-secret';
+    const sign = (body: string) => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+    const issueUpdated = (key: string, status: string, category: string, assignee: string | null = null) => JSON.stringify({
+      webhookEvent: 'jira:issue_updated',
+      issue: {
+        key,
+        fields: { status: { name: status, statusCategory: { key: category } }, assignee: assignee ? { emailAddress: assignee } : null }
+      }
+    });
+
+    it('should apply the update as the sync user', async () => {
+      const user = await createTestUser('analyst', 'analyst@example.com');
+      const syncUser = await createTestUser('jira-sync', 'jira-sync@example.com');
+      const container = await createTestContainer(user.id);
+      const issue = await createTestIssue(container.id, user.id);
+      await pushIssuesToJira({ container_id: container.id }, jira.config());
+      const config = jira.config({ webhook_secret: secret, sync_username: 'jira-sync' });
+
+      const body = issueUpdated('SEC-1', 'In Progress', 'indeterminate', 'analyst@example.com');
+      const response = await receiveJiraWebhook(body, sign(body), config);
+
+      expect(response).toEqual({ status: 200, message: `Issue ${issue.id} updated` });
+      expect(await issueById(issue.id)).toMatchObject({ status: 'In-progress', assigned_to: user.id, updated_by: syncUser.id });
+
+      const again = await receiveJiraWebhook(body, sign(body), config);
+      expect(again).toEqual({ status: 200, message: `Issue ${issue.id} is up to date` });
+    });
+
+    it('should reject bad signatures and ignore unrelated events', async () => {
+      const config = jira.config({ webhook_secret: secret, sync_username: 'jira-sync' });
+      const body = issueUpdated('SEC-9', 'Done', 'done');
+
+      expect(await receiveJiraWebhook(body, null, jira.config())).toMatchObject({ status: 404 });
+      expect(await receiveJiraWebhook(body, null, config)).toMatchObject({ status: 401 });
+      expect(await receiveJiraWebhook(body, sign(`${body} `), config)).toMatchObject({ status: 401 });
+      expect(await receiveJiraWebhook('{}', sign('{}'), config)).toMatchObject({ status: 400 });
+
+      const created = JSON.stringify({ webhookEvent: 'jira:issue_created' });
+      expect(await receiveJiraWebhook(created, sign(created), config)).toEqual({ status: 202, message: 'Ignored jira:issue_created' });
+      expect(await receiveJiraWebhook(body, sign(body), config)).toEqual({ status: 202, message: 'SEC-9 is not linked to an issue' });
+    });
+
+    it('should refuse oversized bodies before reading them', async () => {
+      const config = jira.config({ webhook_secret: secret, sync_username: 'jira-sync' });
+      const server: Server = createServer((req, res) => {
+        if (!handleJiraWebhookRequest(req, res, config)) res.writeHead(404).end();
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}${JIRA_WEBHOOK_PATH}`;
+
+      try {
+        const oversized = 'x'.repeat(MAX_WEBHOOK_BODY_BYTES + 1);
+        const sized = await fetch(url, { method: 'POST', body: oversized });
+        expect(sized.status).toEqual(413);
+
+        // Without a Content-Length the cap applies as the body streams in
+        const streamed = await fetch(url, {
+          method: 'POST',
+          body: new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode(oversized));
+              controller.close();
+            }
+          })
+        });
+        expect(streamed.status).toEqual(413);
+
+        const body = issueUpdated('SEC-9', 'Done', 'done');
+        const small = await fetch(url, { method: 'POST', body, headers: { 'X-Hub-Signature': sign(body) } });
+        expect(await small.json()).toEqual({ message: 'SEC-9 is not linked to an issue' });
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+});
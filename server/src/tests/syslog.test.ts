@@ -0,0 +1,380 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createSocket } from 'node:dgram';
+import { connect, createServer, type AddressInfo } from 'node:net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activityEventsTable, containersTable, securityViolationsTable, siemMappingRulesTable, usersTable, type SiemMappingRule } from '../db/schema';
+import { createSiemMappingRuleInputSchema } from '../schema';
+import { createSiemMappingRule } from '../handlers/create_siem_mapping_rule';
+import { parseCef, parseLeef, parseSiemAlert, parseSyslogMessage } from '../syslog/parse';
+import { alertSeverity, correlationKey, findMatchingRule, renderTitle } from '../syslog/rules';
+import { ingestSyslogLine, loadSiemMappingRules } from '../syslog/ingest';
+import { createRateLimiter, splitFrames, startSyslogReceiver, type SyslogReceiver } from '../syslog/receiver';
+import { asc, eq } from 'drizzle-orm';
+
+const CEF_LINE = '<134>1 2026-03-01T08:00:00.000Z fw01.example.com ASA - - - CEF:0|Cisco|ASA|9.8|106023|Deny tcp src outside|8|'
+  + 'src=203.0.113.7 dst=10.0.0.5 dpt=22 msg=Denied by access-group outside_in rt=1772352000000';
+
+const cefLine = (source: string, destination = '10.0.0.5') =>
+  `<134>1 2026-03-01T08:00:00.000Z fw01.example.com ASA - - - CEF:0|Cisco|ASA|9.8|106023|Deny tcp src outside|8|src=${source} dst=${destination}`;
+
+// A rule as the handler stores it, without touching the database
+const rule = (overrides: Partial<SiemMappingRule> = {}): SiemMappingRule => ({
+  id: 1,
+  ...createSiemMappingRuleInputSchema.parse({ name: 'Rule' }),
+  created_by: 1,
+  updated_by: 1,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+describe('syslog parsing', () => {
+  it('should parse RFC 5424 messages with structured data', () => {
+    const message = parseSyslogMessage('<165>1 2026-03-01T08:00:00.003Z mymachine.example.com evntslog - ID47 '
+      + '[exampleSDID@32473 iut="3" eventSource="App\\"lication" eventID="1011"][other x="]"] \uFEFFAn application event');
+
+    expect(message).toEqual({
+      facility: 20,
+      severity: 5,
+      timestamp: new Date('2026-03-01T08:00:00.003Z'),
+      hostname: 'mymachine.example.com',
+      app_name: 'evntslog',
+      msgid: 'ID47',
+      message: 'An application event'
+    });
+  });
+
+  it('should accept other messages with a priority and reject the rest', () => {
+    expect(parseSyslogMessage('<34>Oct 11 22:14:15 mymachine su: su root failed')).toMatchObject({
+      facility: 4,
+      severity: 2,
+      hostname: null,
+      message: 'Oct 11 22:14:15 mymachine su: su root failed'
+    });
+    expect(parseSyslogMessage('no priority')).toBeNull();
+    expect(parseSyslogMessage('<999>1 - - - - - -')).toBeNull();
+  });
+
+  it('should parse CEF headers and extensions with escapes', () => {
+    const alert = parseCef('CEF:0|Security|threat\\|manager|1.0|100|worm successfully stopped|10|'
+      + 'src=10.0.0.1 dst=2.1.2.2 spt=1232 msg=Detected a threat. No action needed\\=yes cs1Label=Rule cs1=Block worms');
+
+    expect(alert).toMatchObject({
+      format: 'CEF',
+      vendor: 'Security',
+      product: 'threat|manager',
+      product_version: '1.0',
+      event_id: '100',
+      name: 'worm successfully stopped',
+      severity: 10,
+      source: '10.0.0.1',
+      destination: '2.1.2.2',
+      occurred_at: null
+    });
+    expect(alert!.extensions).toMatchObject({
+      spt: '1232',
+      msg: 'Detected a threat. No action needed=yes',
+      cs1: 'Block worms',
+      Rule: 'Block worms'
+    });
+  });
+
+  it('should read named CEF severities and device times', () => {
+    const alert = parseCef('CEF:0|Vendor|Product|1|42|Login burst|Very-High|rt=1772352000000 shost=web01');
+
+    expect(alert).toMatchObject({ severity: 10, source: 'web01', occurred_at: new Date(1772352000000) });
+    expect(parseCef('CEF:0|Vendor|Product')).toBeNull();
+  });
+
+  it('should parse LEEF 1.0 and 2.0 events', () => {
+    const v1 = parseLeef('LEEF:1.0|Microsoft|MSExchange|4.0 SP1|15345|src=192.0.2.0\tdst=172.50.123.1\tsev=5\tcat=anomaly\tdevTime=2026-03-01T08:00:00Z');
+    expect(v1).toMatchObject({
+      format: 'LEEF',
+      vendor: 'Microsoft',
+      product: 'MSExchange',
+      event_id: '15345',
+      name: 'anomaly',
+      severity: 5,
+      source: '192.0.2.0',
+      destination: '172.50.123.1',
+      occurred_at: new Date('2026-03-01T08:00:00Z')
+    });
+
+    const v2 = parseLeef('LEEF:2.0|Lancope|StealthWatch|1.0|41|^|src=10.0.1.8^dst=10.0.0.5^sev=7^usrName=alice');
+    expect(v2).toMatchObject({ event_id: '41', severity: 7, source: '10.0.1.8', extensions: { usrName: 'alice' } });
+
+    const hexDelimiter = parseLeef('LEEF:2.0|Vendor|Product|1.0|7|x7C|src=10.0.1.8|sev=2');
+    expect(hexDelimiter).toMatchObject({ source: '10.0.1.8', severity: 2 });
+
+    const withoutDelimiter = parseLeef('LEEF:2.0|Vendor|Product|1.0|7|src=10.0.1.8\tsev=3');
+    expect(withoutDelimiter).toMatchObject({ source: '10.0.1.8', severity: 3 });
+  });
+
+  it('should find the event in a syslog line or on its own', () => {
+    const alert = parseSiemAlert(CEF_LINE);
+    expect(alert).toMatchObject({ vendor: 'Cisco', event_id: '106023', host: 'fw01.example.com', occurred_at: new Date(1772352000000) });
+
+    // Without a device time the syslog timestamp is used
+    expect(parseSiemAlert(cefLine('203.0.113.7'))!.occurred_at).toEqual(new Date('2026-03-01T08:00:00.000Z'));
+    expect(parseSiemAlert('CEF:0|Vendor|Product|1|42|Login burst|5|')).toMatchObject({ host: null, severity: 5 });
+    expect(parseSiemAlert('<13>1 - host app - - - plain text')).toBeNull();
+  });
+});
+
+describe('syslog mapping rules', () => {
+  const alert = parseSiemAlert(CEF_LINE)!;
+
+  it('should pick the first active rule that matches', () => {
+    const rules = [
+      rule({ id: 1, vendor: 'Palo Alto' }),
+      rule({ id: 2, is_active: false }),
+      rule({ id: 3, vendor: 'cisco', format: 'CEF', event_pattern: '^1060\\d\\d$', min_severity: 7 }),
+      rule({ id: 4 })
+    ];
+
+    expect(findMatchingRule(rules, alert)?.id).toEqual(3);
+    expect(findMatchingRule([rule({ event_pattern: 'deny tcp' })], alert)).not.toBeNull();
+    expect(findMatchingRule([rule({ min_severity: 9 }), rule({ format: 'LEEF' }), rule({ product: 'FTD' })], alert)).toBeNull();
+    expect(findMatchingRule([rule({ min_severity: 0 })], { ...alert, severity: null })).toBeNull();
+  });
+
+  it('should map alert severities and render titles', () => {
+    expect([0, 3, 4, 6, 7, 8, 9, 10, null].map(alertSeverity)).toEqual(
+      ['Low', 'Low', 'Medium', 'Medium', 'High', 'High', 'Critical', 'Critical', 'Medium']
+    );
+    expect(renderTitle(rule(), alert)).toEqual('Deny tcp src outside');
+    expect(renderTitle(rule({ title_template: '{vendor} {name} from {source} to {destination}:{dpt} {missing}' }), alert))
+      .toEqual('Cisco Deny tcp src outside from 203.0.113.7 to 10.0.0.5:22');
+  });
+
+  it('should key correlation on the rule and its fields', () => {
+    const other = parseSiemAlert(cefLine('198.51.100.9'))!;
+    const sameSource = parseSiemAlert(cefLine('203.0.113.7', '10.0.0.99'))!;
+
+    expect(correlationKey(rule(), alert)).toEqual(correlationKey(rule(), sameSource));
+    expect(correlationKey(rule(), alert)).not.toEqual(correlationKey(rule(), other));
+    expect(correlationKey(rule(), alert)).not.toEqual(correlationKey(rule({ id: 2 }), alert));
+    expect(correlationKey(rule({ correlation_fields: ['event_id'] }), alert))
+      .toEqual(correlationKey(rule({ correlation_fields: ['event_id'] }), other));
+  });
+});
+
+describe('syslog ingestion', () => {
+  let userId: number;
+  let containerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ username: 'siem', email: 'siem@example.com', full_name: 'SIEM', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Perimeter', description: null, type: 'System', created_by: userId })
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const addRule = (input: Record<string, unknown> = {}) =>
+    createSiemMappingRule(createSiemMappingRuleInputSchema.parse({ name: 'Firewall denies', vendor: 'Cisco', ...input }), userId);
+
+  const violations = () => db.select()
+    .from(securityViolationsTable)
+    .orderBy(asc(securityViolationsTable.id))
+    .execute();
+
+  it('should load the active rules in priority order', async () => {
+    await db.insert(siemMappingRulesTable)
+      .values([
+        { name: 'Late', priority: 200, correlation_fields: ['event_id'], created_by: userId },
+        { name: 'Disabled', priority: 1, is_active: false, correlation_fields: ['event_id'], created_by: userId },
+        { name: 'Early', priority: 10, correlation_fields: ['event_id'], created_by: userId }
+      ])
+      .execute();
+
+    expect((await loadSiemMappingRules()).map(stored => stored.name)).toEqual(['Early', 'Late']);
+  });
+
+  it('should raise a violation from a matching alert', async () => {
+    await addRule({ container_id: containerId, violation_type: 'PolicyViolation', title_template: '{name} from {source}' });
+
+    const result = await ingestSyslogLine(CEF_LINE, await loadSiemMappingRules(), userId);
+
+    expect(result.outcome).toEqual('created');
+    const [violation] = await violations();
+    expect(violation).toMatchObject({
+      title: 'Deny tcp src outside from 203.0.113.7',
+      violation_type: 'PolicyViolation',
+      severity: 'High',
+      status: 'Open',
+      incident_date: new Date(1772352000000),
+      detection_method: 'SIEM alert: Cisco ASA',
+      affected_systems: '10.0.0.5',
+      container_id: containerId,
+      created_by: userId,
+      occurrence_count: 1,
+      last_occurrence_at: new Date(1772352000000)
+    });
+    expect(violation.correlation_key).toStartWith('siem:');
+    expect(violation.description).toContain('Reported by Cisco ASA 9.8 (CEF event 106023, severity 8/10).');
+    expect(violation.description).toContain('Denied by access-group outside_in');
+    expect(violation.description).toContain('Source: 203.0.113.7');
+
+    const activity = await db.select().from(activityEventsTable).where(eq(activityEventsTable.entity_id, violation.id)).execute();
+    expect(activity.map(event => event.event_type)).toEqual(['Created']);
+  });
+
+  it('should count an alert storm on one violation', async () => {
+    await addRule({ severity: 'Critical' });
+    const rules = await loadSiemMappingRules();
+
+    const outcomes = [];
+    for (const destination of ['10.0.0.5', '10.0.0.6', '10.0.0.5', '10.0.0.7']) {
+      outcomes.push((await ingestSyslogLine(cefLine('203.0.113.7', destination), rules, userId)).outcome);
+    }
+    await ingestSyslogLine(cefLine('198.51.100.9'), rules, userId);
+
+    expect(outcomes).toEqual(['created', 'appended', 'appended', 'appended']);
+    const [storm, other] = await violations();
+    expect(storm).toMatchObject({ severity: 'Critical', occurrence_count: 4, affected_systems: '10.0.0.5, 10.0.0.6, 10.0.0.7' });
+    expect(other).toMatchObject({ occurrence_count: 1, affected_systems: '10.0.0.5' });
+  });
+
+  it('should start a new violation outside the window or once resolved', async () => {
+    await addRule({ correlation_window_minutes: 30 });
+    const rules = await loadSiemMappingRules();
+    const at = (time: string) => `<134>1 ${time} fw01 ASA - - - CEF:0|Cisco|ASA|9.8|106023|Deny|5|src=203.0.113.7`;
+
+    await ingestSyslogLine(at('2026-03-01T08:00:00Z'), rules, userId);
+    await ingestSyslogLine(at('2026-03-01T08:20:00Z'), rules, userId);
+    // 30 minutes after the last occurrence, not the first
+    await ingestSyslogLine(at('2026-03-01T08:45:00Z'), rules, userId);
+    await ingestSyslogLine(at('2026-03-01T09:30:00Z'), rules, userId);
+
+    let [first, second] = await violations();
+    expect([first.occurrence_count, second.occurrence_count]).toEqual([3, 1]);
+    expect(first.last_occurrence_at).toEqual(new Date('2026-03-01T08:45:00Z'));
+
+    await db.update(securityViolationsTable).set({ status: 'Resolved' }).where(eq(securityViolationsTable.id, second.id)).execute();
+    await ingestSyslogLine(at('2026-03-01T09:35:00Z'), rules, userId);
+
+    expect((await violations()).map(violation => violation.occurrence_count)).toEqual([3, 1, 1]);
+  });
+
+  it('should report ignored, unmatched and unparsed lines', async () => {
+    await addRule({ action: 'Ignore', event_pattern: '^106023$', priority: 1 });
+    await addRule({ event_pattern: '^999$' });
+    const rules = await loadSiemMappingRules();
+
+    expect((await ingestSyslogLine(CEF_LINE, rules, userId)).outcome).toEqual('ignored');
+    expect((await ingestSyslogLine('CEF:0|Other|Product|1|1|Name|5|', rules, userId)).outcome).toEqual('unmatched');
+    expect((await ingestSyslogLine('<13>1 - host app - - - plain text', rules, userId)).outcome).toEqual('unparsed');
+    expect(await violations()).toHaveLength(0);
+  });
+
+  describe('receiver', () => {
+    let receiver: SyslogReceiver | null = null;
+
+    afterEach(async () => {
+      await receiver?.stop();
+      receiver = null;
+    });
+
+    const start = (rateLimit = 100) =>
+      startSyslogReceiver({ host: '127.0.0.1', udp_port: 0, tcp_port: 0, username: 'siem', rate_limit: rateLimit });
+
+    const waitFor = async (condition: () => boolean) => {
+      for (let attempt = 0; attempt < 100 && !condition(); attempt += 1) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      await receiver!.idle();
+    };
+
+    it('should fail to start when a port is taken', async () => {
+      const occupied = createServer();
+      await new Promise<void>(resolve => occupied.listen(0, '127.0.0.1', resolve));
+      const { port } = occupied.address() as AddressInfo;
+
+      try {
+        await expect(startSyslogReceiver({ host: '127.0.0.1', udp_port: 0, tcp_port: port, username: 'siem', rate_limit: 100 }))
+          .rejects.toMatchObject({ code: 'EADDRINUSE' });
+      } finally {
+        await new Promise(resolve => occupied.close(resolve));
+      }
+    });
+
+    it('should ingest messages sent over UDP', async () => {
+      await addRule();
+      receiver = await start();
+
+      const socket = createSocket('udp4');
+      await new Promise<void>(resolve => socket.send(CEF_LINE, receiver!.udp_port!, '127.0.0.1', () => resolve()));
+      socket.close();
+      await waitFor(() => receiver!.stats.received === 1);
+
+      expect(receiver.stats).toMatchObject({ received: 1, created: 1 });
+      expect(await violations()).toHaveLength(1);
+    });
+
+    it('should split TCP streams by octet count and newline', async () => {
+      await addRule();
+      receiver = await start();
+
+      const first = cefLine('203.0.113.7');
+      const second = cefLine('198.51.100.9');
+      const socket = connect(receiver.tcp_port!, '127.0.0.1');
+      await new Promise<void>(resolve => socket.once('connect', () => resolve()));
+      socket.write(`${Buffer.byteLength(first)} ${first}${Buffer.byteLength(second)} ${second.slice(0, 40)}`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      socket.write(`${second.slice(40)}${CEF_LINE}\n<13>1 - host app - - - plain text\n`);
+      await waitFor(() => receiver!.stats.received === 4);
+      socket.destroy();
+
+      expect(receiver.stats).toMatchObject({ received: 4, created: 2, appended: 1, unparsed: 1 });
+      expect((await violations()).map(violation => violation.occurrence_count)).toEqual([2, 1]);
+    });
+
+    it('should drop what a sender sends over the rate limit', async () => {
+      await addRule();
+      receiver = await start(3);
+
+      const socket = connect(receiver.tcp_port!, '127.0.0.1');
+      await new Promise<void>(resolve => socket.once('connect', () => resolve()));
+      socket.write(Array.from({ length: 10 }, () => CEF_LINE).join('\n') + '\n');
+      await waitFor(() => receiver!.stats.received === 10);
+      socket.destroy();
+
+      expect(receiver.stats).toMatchObject({ received: 10, rate_limited: 7, created: 1, appended: 2 });
+      expect((await violations())[0].occurrence_count).toEqual(3);
+    });
+
+    it('should refuse to start without a valid user', async () => {
+      await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, userId)).execute();
+
+      await expect(start()).rejects.toThrow('Sync user siem does not exist or is inactive');
+    });
+  });
+});
+
+describe('syslog framing and rate limiting', () => {
+  it('should keep partial frames for the next chunk', () => {
+    const result = splitFrames(Buffer.from('5 hello3 abcline one\nline two\n12'));
+
+    expect(result!.messages).toEqual(['hello', 'abc', 'line one', 'line two']);
+    expect(result!.rest.toString()).toEqual('12');
+    expect(splitFrames(Buffer.from('99999 x'))).toBeNull();
+  });
+
+  it('should refill tokens over time', () => {
+    const allow = createRateLimiter(2);
+
+    expect([allow('a', 0), allow('a', 0), allow('a', 0), allow('b', 0)]).toEqual([true, true, false, true]);
+    expect(allow('a', 499)).toBe(false);
+    expect(allow('a', 500)).toBe(true);
+  });
+});
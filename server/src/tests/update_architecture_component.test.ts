@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { architectureComponentsTable, containersTable, usersTable } from '../db/schema';
+import { updateArchitectureComponent } from '../handlers/update_architecture_component';
+
+describe('updateArchitectureComponent', () => {
+  let userId: number;
+  let componentId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'manager', email: 'manager@example.com', full_name: 'Manager', role: 'SecurityManager' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+
+    const components = await db.insert(architectureComponentsTable)
+      .values({
+        name: 'API Gateway',
+        component_type: 'Gateway',
+        trust_boundary: 'DMZ',
+        position_x: 10,
+        position_y: 20,
+        container_id: containers[0].id,
+        created_by: userId
+      })
+      .returning()
+      .execute();
+    componentId = components[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const result = await updateArchitectureComponent({
+      id: componentId,
+      technology_stack: 'Envoy',
+      position_x: 0,
+      position_y: 125.5
+    }, userId);
+
+    expect(result.technology_stack).toEqual('Envoy');
+    expect(result.position_x).toEqual(0);
+    expect(result.position_y).toEqual(125.5);
+    expect(result.name).toEqual('API Gateway');
+    expect(result.trust_boundary).toEqual('DMZ');
+    expect(result.updated_by).toEqual(userId);
+  });
+
+  it('should clear nullable fields', async () => {
+    const result = await updateArchitectureComponent({ id: componentId, trust_boundary: null, position_x: null }, userId);
+
+    expect(result.trust_boundary).toBeNull();
+    expect(result.position_x).toBeNull();
+    expect(result.position_y).toEqual(20);
+  });
+
+  it('should throw NOT_FOUND for a missing component', async () => {
+    await expect(updateArchitectureComponent({ id: 999, name: 'Missing' }, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Architecture component with id 999 not found'
+    });
+  });
+});
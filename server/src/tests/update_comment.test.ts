@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { commentsTable, usersTable } from '../db/schema';
+import { updateComment } from '../handlers/update_comment';
+import { deleteComment } from '../handlers/delete_comment';
+
+const createUser = async (username: string, role: 'Admin' | 'SecurityAnalyst' | 'SecurityManager' | 'Viewer') => {
+  const result = await db.insert(usersTable)
+    .values({ username, email: `${username}@example.com`, full_name: username, role })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+// Comments do not check their entity on read, so a bare row is enough here
+const createTestComment = async (authorId: number) => {
+  const result = await db.insert(commentsTable)
+    .values({ entity_type: 'Issue', entity_id: 1, body: 'Original text', author_id: authorId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('updateComment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should let the author edit a comment', async () => {
+    const author = await createUser('author', 'SecurityAnalyst');
+    const comment = await createTestComment(author.id);
+
+    const result = await updateComment({ id: comment.id, body: 'Corrected text' }, author);
+
+    expect(result.body).toEqual('Corrected text');
+    expect(result.edited_at).toBeInstanceOf(Date);
+    expect(result.created_at).toEqual(comment.created_at);
+  });
+
+  it('should not let anyone else edit a comment', async () => {
+    const author = await createUser('author', 'SecurityAnalyst');
+    const admin = await createUser('admin', 'Admin');
+    const comment = await createTestComment(author.id);
+
+    await expect(updateComment({ id: comment.id, body: 'Rewritten' }, admin))
+      .rejects.toThrow(/Only the author can edit a comment/);
+  });
+
+  it('should not edit deleted comments', async () => {
+    const author = await createUser('author', 'SecurityAnalyst');
+    const comment = await createTestComment(author.id);
+    await deleteComment(comment.id, author);
+
+    await expect(updateComment({ id: comment.id, body: 'Back again' }, author))
+      .rejects.toThrow(`Comment with id ${comment.id} not found`);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, usersTable } from '../db/schema';
+import { updateContainer } from '../handlers/update_container';
+import { eq } from 'drizzle-orm';
+
+describe('updateContainer', () => {
+  let userId: number;
+  let editorId: number;
+  let containerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'creator', email: 'creator@example.com', full_name: 'Creator', role: 'Admin' },
+        { username: 'editor', email: 'editor@example.com', full_name: 'Editor', role: 'Admin' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    editorId = users[1].id;
+
+    const containers = await db.insert(containersTable)
+      .values({
+        name: 'Payments',
+        description: 'Card processing',
+        type: 'Application',
+        risk_score: 42.5,
+        external_id: 'PAY',
+        external_system: 'Jira',
+        created_by: userId
+      })
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const result = await updateContainer({ id: containerId, name: 'Payments Platform', external_id: null }, editorId);
+
+    expect(result.name).toEqual('Payments Platform');
+    expect(result.external_id).toBeNull();
+    expect(result.description).toEqual('Card processing');
+    expect(result.type).toEqual('Application');
+    expect(result.external_system).toEqual('Jira');
+    expect(result.risk_score).toEqual(42.5);
+    expect(result.updated_by).toEqual(editorId);
+    expect(result.is_active).toBe(true);
+  });
+
+  it('should save changes to the database', async () => {
+    await updateContainer({ id: containerId, type: 'Service', description: null }, editorId);
+
+    const containers = await db.select()
+      .from(containersTable)
+      .where(eq(containersTable.id, containerId))
+      .execute();
+
+    expect(containers[0].type).toEqual('Service');
+    expect(containers[0].description).toBeNull();
+    expect(containers[0].updated_at.getTime()).toBeGreaterThanOrEqual(containers[0].created_at.getTime());
+  });
+
+  it('should throw NOT_FOUND for a missing container', async () => {
+    const error = await updateContainer({ id: 999, name: 'Missing' }, editorId).catch(e => e);
+
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toEqual('NOT_FOUND');
+    expect(error.message).toEqual('Container with id 999 not found');
+  });
+});
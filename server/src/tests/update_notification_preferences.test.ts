@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationPreferencesTable, usersTable } from '../db/schema';
+import { updateNotificationPreferences } from '../handlers/update_notification_preferences';
+
+describe('updateNotificationPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should save preferences and keep fields left out', async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ username: 'engineer', email: 'engineer@example.com', full_name: 'Engineer', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+
+    const created = await updateNotificationPreferences({ daily_digest: false }, user.id);
+    expect(created).toMatchObject({ user_id: user.id, assignment_emails: true, critical_violation_emails: true, daily_digest: false });
+
+    const updated = await updateNotificationPreferences({ assignment_emails: false }, user.id);
+    expect(updated).toMatchObject({ assignment_emails: false, critical_violation_emails: true, daily_digest: false });
+    expect(updated.updated_at).toBeInstanceOf(Date);
+
+    expect(await db.select().from(notificationPreferencesTable).execute()).toHaveLength(1);
+  });
+});
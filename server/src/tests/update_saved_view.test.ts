@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, savedViewsTable, usersTable } from '../db/schema';
+import { updateSavedViewInputSchema } from '../schema';
+import { updateSavedView } from '../handlers/update_saved_view';
+
+describe('updateSavedView', () => {
+  let owner: { id: number; role: 'SecurityAnalyst' };
+  let other: { id: number; role: 'SecurityAnalyst' };
+  let admin: { id: number; role: 'Admin' };
+  let containerId: number;
+  let viewId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', full_name: 'Owner', role: 'SecurityAnalyst' },
+        { username: 'other', email: 'other@example.com', full_name: 'Other', role: 'SecurityAnalyst' },
+        { username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' }
+      ])
+      .returning()
+      .execute();
+    owner = { id: users[0].id, role: 'SecurityAnalyst' };
+    other = { id: users[1].id, role: 'SecurityAnalyst' };
+    admin = { id: users[2].id, role: 'Admin' };
+
+    const [container] = await db.insert(containersTable)
+      .values({ name: 'Payments', type: 'Application', created_by: owner.id })
+      .returning()
+      .execute();
+    containerId = container.id;
+
+    const [view] = await db.insert(savedViewsTable)
+      .values({
+        owner_id: owner.id, name: 'Open violations', entity_type: 'Violation', visibility: 'Organization',
+        filter: { status: 'Open' }, sort: [{ field: 'severity', direction: 'desc' }], columns: ['title']
+      })
+      .returning()
+      .execute();
+    viewId = view.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should change only what is given', async () => {
+    const view = await updateSavedView(updateSavedViewInputSchema.parse({
+      id: viewId, name: 'Open leaks', filter: { status: 'Open', violation_type: 'DataLeak' }
+    }), owner);
+
+    expect(view).toMatchObject({
+      name: 'Open leaks',
+      visibility: 'Organization',
+      filter: { status: 'Open', violation_type: 'DataLeak' },
+      sort: [{ field: 'severity', direction: 'desc' }],
+      columns: ['title']
+    });
+    expect(view.updated_at > view.created_at).toBe(true);
+  });
+
+  it('should move a view between sharing levels', async () => {
+    const team = await updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, visibility: 'Team', container_id: containerId }), owner);
+    expect(team).toMatchObject({ visibility: 'Team', container_id: containerId });
+
+    const personal = await updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, visibility: 'Private' }), owner);
+    expect(personal).toMatchObject({ visibility: 'Private', container_id: null });
+
+    await expect(updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, visibility: 'Team' }), owner))
+      .rejects.toThrow('Team views need a container_id');
+  });
+
+  it('should check changes against the view\'s entity type', async () => {
+    await expect(updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, sort: [{ field: 'risk_score' }] }), owner))
+      .rejects.toThrow('Invalid violation view sort.0.field');
+    await expect(updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, columns: ['cve_id'] }), owner))
+      .rejects.toThrow('Invalid violation view columns.0');
+    await expect(updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, filter: { query: 'status:Pending' } }), owner))
+      .rejects.toThrow("Unknown status 'Pending'");
+  });
+
+  it('should only let the owner or an Admin change a view', async () => {
+    await expect(updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, name: 'Mine now' }), other))
+      .rejects.toThrow('Only the owner of a saved view can change it');
+
+    const view = await updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, name: 'Tidied' }), admin);
+    expect(view.name).toEqual('Tidied');
+    expect(view.owner_id).toEqual(owner.id);
+  });
+
+  it('should hide private views of others', async () => {
+    await updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, visibility: 'Private' }), owner);
+
+    await expect(updateSavedView(updateSavedViewInputSchema.parse({ id: viewId, name: 'Peek' }), other))
+      .rejects.toThrow(`Saved view with id ${viewId} not found`);
+  });
+});
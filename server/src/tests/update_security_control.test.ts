@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityControlsTable, usersTable } from '../db/schema';
+import { updateSecurityControl } from '../handlers/update_security_control';
+import { eq } from 'drizzle-orm';
+
+describe('updateSecurityControl', () => {
+  let userId: number;
+  let controlId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'manager', email: 'manager@example.com', full_name: 'Manager', role: 'SecurityManager' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+
+    const controls = await db.insert(securityControlsTable)
+      .values({
+        name: 'MFA',
+        description: 'Multi-factor authentication for admins',
+        control_type: 'Technical',
+        implementation_status: 'Planned',
+        effectiveness_rating: null,
+        framework_reference: 'NIST CSF',
+        container_id: containers[0].id,
+        created_by: userId
+      })
+      .returning()
+      .execute();
+    controlId = controls[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const result = await updateSecurityControl({
+      id: controlId,
+      implementation_status: 'Existing',
+      effectiveness_rating: 72.5,
+      last_tested: new Date('2024-03-01')
+    }, userId);
+
+    expect(result.implementation_status).toEqual('Existing');
+    expect(result.effectiveness_rating).toEqual(72.5);
+    expect(typeof result.effectiveness_rating).toBe('number');
+    expect(result.last_tested).toEqual(new Date('2024-03-01'));
+    expect(result.name).toEqual('MFA');
+    expect(result.framework_reference).toEqual('NIST CSF');
+    expect(result.updated_by).toEqual(userId);
+  });
+
+  it('should clear nullable fields', async () => {
+    await updateSecurityControl({ id: controlId, description: null, framework_reference: null }, userId);
+
+    const controls = await db.select()
+      .from(securityControlsTable)
+      .where(eq(securityControlsTable.id, controlId))
+      .execute();
+
+    expect(controls[0].description).toBeNull();
+    expect(controls[0].framework_reference).toBeNull();
+  });
+
+  it('should throw NOT_FOUND for a missing control', async () => {
+    await expect(updateSecurityControl({ id: 999, name: 'Missing' }, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Security control with id 999 not found'
+    });
+  });
+});
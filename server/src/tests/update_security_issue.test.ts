@@ -1,19 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, containersTable, securityIssuesTable } from '../db/schema';
+import { usersTable, containersTable, securityIssuesTable, issueStatusHistoryTable } from '../db/schema';
 import { type UpdateSecurityIssueInput } from '../schema';
 import { updateSecurityIssue } from '../handlers/update_security_issue';
 import { eq } from 'drizzle-orm';
 
 // Test data setup
-const createTestUser = async () => {
+const createTestUser = async (role: 'Admin' | 'SecurityAnalyst' | 'SecurityManager' | 'Viewer' = 'SecurityAnalyst') => {
   const result = await db.insert(usersTable)
     .values({
-      username: 'testuser',
-      email: 'test@example.com',
+      username: `testuser_${role.toLowerCase()}`,
+      email: `${role.toLowerCase()}@example.com`,
       full_name: 'Test User',
-      role: 'SecurityAnalyst',
+      role,
       is_active: true
     })
     .returning()
@@ -73,10 +73,11 @@ describe('updateSecurityIssue', () => {
       status: 'In-progress'
     };
 
-    const result = await updateSecurityIssue(input);
+    const result = await updateSecurityIssue(input, user);
 
     expect(result.id).toBe(issue.id);
     expect(result.title).toBe('Updated Issue Title');
+    expect(result.updated_by).toBe(user.id);
     expect(result.description).toBe('Updated description');
     expect(result.severity).toBe('High');
     expect(result.status).toBe('In-progress');
@@ -93,7 +94,7 @@ describe('updateSecurityIssue', () => {
       title: 'Only Title Updated'
     };
 
-    const result = await updateSecurityIssue(input);
+    const result = await updateSecurityIssue(input, user);
 
     expect(result.title).toBe('Only Title Updated');
     expect(result.description).toBe('Original description'); // Should remain unchanged
@@ -113,7 +114,7 @@ describe('updateSecurityIssue', () => {
       availability_impact: 60
     };
 
-    const result = await updateSecurityIssue(input);
+    const result = await updateSecurityIssue(input, user);
 
     // Expected calculation: (80 * 0.25) + (70 * 0.25) + (60 * 0.25) + (10 * 0.15) + (5 * 0.1) = 54.5
     expect(result.confidentiality_impact).toBe(80);
@@ -159,15 +160,16 @@ describe('updateSecurityIssue', () => {
       third_party_risk: 100
     };
 
-    await updateSecurityIssue(input);
+    await updateSecurityIssue(input, user);
 
-    // Check that container risk score was updated (average of 100 and 10 = 55)
+    // Check that container risk score was updated with the severity-weighted
+    // rollup: (100 * 0.6 Medium + 10 * 0.3 Low) / 0.9 = 70
     const updatedContainer = await db.select()
       .from(containersTable)
       .where(eq(containersTable.id, container.id))
       .execute();
 
-    expect(updatedContainer[0].risk_score).toBe(55);
+    expect(updatedContainer[0].risk_score).toBe(70);
     expect(updatedContainer[0].updated_at.getTime()).toBeGreaterThan(container.updated_at.getTime());
   });
 
@@ -182,7 +184,7 @@ describe('updateSecurityIssue', () => {
       compliance_impact: 40 // And this one
     };
 
-    const result = await updateSecurityIssue(input);
+    const result = await updateSecurityIssue(input, user);
 
     // Should use new values for updated dimensions and existing values for others
     // Expected: (90 * 0.25) + (30 * 0.25) + (20 * 0.25) + (40 * 0.15) + (5 * 0.1) = 41.5
@@ -208,7 +210,7 @@ describe('updateSecurityIssue', () => {
       attack_complexity: 'Low'
     };
 
-    const result = await updateSecurityIssue(input);
+    const result = await updateSecurityIssue(input, user);
 
     expect(result.mitre_attack_id).toBe('T1078');
     expect(result.mitre_attack_tactic).toBe('Initial Access');
@@ -240,7 +242,7 @@ describe('updateSecurityIssue', () => {
       compensating_controls: 'Updated compensating controls'
     };
 
-    const result = await updateSecurityIssue(input);
+    const result = await updateSecurityIssue(input, user);
 
     expect(result.assigned_to).toBe(assignee[0].id);
     expect(result.threat_modeling_notes).toBe('Updated threat modeling notes');
@@ -259,7 +261,7 @@ describe('updateSecurityIssue', () => {
       threat_modeling_notes: null
     };
 
-    const result = await updateSecurityIssue(input);
+    const result = await updateSecurityIssue(input, user);
 
     expect(result.assigned_to).toBeNull();
     expect(result.mitre_attack_id).toBeNull();
@@ -278,7 +280,7 @@ describe('updateSecurityIssue', () => {
       confidentiality_impact: 95
     };
 
-    await updateSecurityIssue(input);
+    await updateSecurityIssue(input, user);
 
     // Verify changes were persisted to database
     const dbIssue = await db.select()
@@ -299,7 +301,7 @@ describe('updateSecurityIssue', () => {
       title: 'This should fail'
     };
 
-    await expect(updateSecurityIssue(input)).rejects.toThrow(/not found/i);
+    await expect(updateSecurityIssue(input, { id: 1, role: 'SecurityAnalyst' })).rejects.toThrow(/not found/i);
   });
 
   it('should calculate risk scores with edge values correctly', async () => {
@@ -317,7 +319,7 @@ describe('updateSecurityIssue', () => {
       third_party_risk: 0
     };
 
-    const zeroResult = await updateSecurityIssue(zeroInput);
+    const zeroResult = await updateSecurityIssue(zeroInput, user);
     expect(zeroResult.risk_score).toBe(0);
 
     // Test with all maximum values
@@ -330,7 +332,271 @@ describe('updateSecurityIssue', () => {
       third_party_risk: 100
     };
 
-    const maxResult = await updateSecurityIssue(maxInput);
+    const maxResult = await updateSecurityIssue(maxInput, user);
     expect(maxResult.risk_score).toBe(100);
   });
-});
\ No newline at end of file
+
+  it('should require manager permission to resolve a Critical issue', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const manager = await createTestUser('SecurityManager');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    await db.update(securityIssuesTable)
+      .set({ severity: 'Critical' })
+      .where(eq(securityIssuesTable.id, issue.id))
+      .execute();
+
+    const input: UpdateSecurityIssueInput = {
+      id: issue.id,
+      status: 'Resolved',
+      resolution_note: 'Patched in release 2.4'
+    };
+
+    await expect(updateSecurityIssue(input, analyst)).rejects.toThrow(/issues:close_critical/);
+
+    const result = await updateSecurityIssue(input, manager);
+    expect(result.status).toBe('Resolved');
+    expect(result.updated_by).toBe(manager.id);
+  });
+
+  it('should not let a severity change in the same update skip the critical permission', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    await db.update(securityIssuesTable)
+      .set({ severity: 'Critical' })
+      .where(eq(securityIssuesTable.id, issue.id))
+      .execute();
+
+    await expect(updateSecurityIssue({
+      id: issue.id,
+      severity: 'Low',
+      status: 'Resolved',
+      resolution_note: 'Not that bad after all'
+    }, analyst)).rejects.toThrow(/issues:close_critical/);
+
+    const dbIssue = await db.select().from(securityIssuesTable).where(eq(securityIssuesTable.id, issue.id)).execute();
+    expect(dbIssue[0].status).toBe('Open');
+    expect(dbIssue[0].severity).toBe('Critical');
+  });
+
+  it('should let analysts resolve non-critical issues', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    const result = await updateSecurityIssue({
+      id: issue.id,
+      status: 'Resolved',
+      resolution_note: 'Input is now validated'
+    }, analyst);
+    expect(result.status).toBe('Resolved');
+    expect(result.resolution_note).toBe('Input is now validated');
+  });
+
+  it('should require risk acceptance permission to close an issue', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const manager = await createTestUser('SecurityManager');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    const input: UpdateSecurityIssueInput = {
+      id: issue.id,
+      status: 'Closed',
+      resolution_note: 'Accepted until the legacy API is retired'
+    };
+
+    await expect(updateSecurityIssue(input, analyst)).rejects.toThrow(/risk:accept/);
+
+    const result = await updateSecurityIssue(input, manager);
+    expect(result.status).toBe('Closed');
+  });
+
+  it('should derive severity and impacts when a CVSS vector is set', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    const result = await updateSecurityIssue({
+      id: issue.id,
+      cvss_vector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:H/I:L/A:N'
+    }, analyst);
+
+    expect(result.cvss_vector).toBe('CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:H/I:L/A:N');
+    expect(result.cvss_version).toBe('3.1');
+    expect(result.cvss_base_score).toBe(6.5);
+    expect(result.cvss_environmental_score).toBe(6.5);
+    expect(result.severity).toBe('Medium');
+    expect(result.confidentiality_impact).toBe(100);
+    expect(result.integrity_impact).toBe(50);
+    expect(result.availability_impact).toBe(0);
+    expect(result.attack_complexity).toBe('High');
+  });
+
+  it('should keep vector-derived fields when they are edited directly', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    await updateSecurityIssue({
+      id: issue.id,
+      cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H'
+    }, analyst);
+
+    const result = await updateSecurityIssue({
+      id: issue.id,
+      severity: 'Low',
+      confidentiality_impact: 10,
+      title: 'Retitled'
+    }, analyst);
+
+    expect(result.title).toBe('Retitled');
+    expect(result.severity).toBe('Critical');
+    expect(result.confidentiality_impact).toBe(100);
+  });
+
+  it('should clear CVSS fields when the vector is removed', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    await updateSecurityIssue({
+      id: issue.id,
+      cvss_vector: 'CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N'
+    }, analyst);
+
+    const result = await updateSecurityIssue({ id: issue.id, cvss_vector: null, severity: 'Low' }, analyst);
+
+    expect(result.cvss_vector).toBeNull();
+    expect(result.cvss_version).toBeNull();
+    expect(result.cvss_base_score).toBeNull();
+    expect(result.cvss_temporal_score).toBeNull();
+    expect(result.cvss_environmental_score).toBeNull();
+    expect(result.severity).toBe('Low');
+    // Impacts stay at their last derived values until edited
+    expect(result.confidentiality_impact).toBe(100);
+  });
+
+  it('should reject status changes the workflow does not allow', async () => {
+    const manager = await createTestUser('SecurityManager');
+    const container = await createTestContainer(manager.id);
+    const issue = await createTestSecurityIssue(container.id, manager.id);
+
+    await updateSecurityIssue({ id: issue.id, status: 'Resolved', resolution_note: 'Fixed' }, manager);
+
+    await expect(updateSecurityIssue({ id: issue.id, status: 'In-progress' }, manager))
+      .rejects.toThrow(/from Resolved to In-progress is not allowed/);
+  });
+
+  it('should require a resolution note to resolve an issue', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    await expect(updateSecurityIssue({ id: issue.id, status: 'Resolved' }, analyst))
+      .rejects.toThrow(/requires resolution_note/);
+
+    const stored = await db.select()
+      .from(securityIssuesTable)
+      .where(eq(securityIssuesTable.id, issue.id))
+      .execute();
+    expect(stored[0].status).toBe('Open');
+  });
+
+  it('should record each status change in the history', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    await updateSecurityIssue({ id: issue.id, status: 'In-progress' }, analyst);
+    await updateSecurityIssue({ id: issue.id, title: 'No status change' }, analyst);
+    await updateSecurityIssue({ id: issue.id, status: 'Resolved', resolution_note: 'Fixed' }, analyst);
+
+    const history = await db.select()
+      .from(issueStatusHistoryTable)
+      .where(eq(issueStatusHistoryTable.issue_id, issue.id))
+      .orderBy(issueStatusHistoryTable.id)
+      .execute();
+
+    expect(history.map(entry => [entry.from_status, entry.to_status])).toEqual([
+      ['Open', 'In-progress'],
+      ['In-progress', 'Resolved']
+    ]);
+    expect(history[1].note).toBe('Fixed');
+    expect(history[1].changed_by).toBe(analyst.id);
+    expect(history[1].changed_at).toBeInstanceOf(Date);
+  });
+
+  it('should check concurrent status changes against the latest status', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    await Promise.allSettled([
+      updateSecurityIssue({ id: issue.id, status: 'In-progress' }, analyst),
+      updateSecurityIssue({ id: issue.id, status: 'Resolved', resolution_note: 'Fixed' }, analyst)
+    ]);
+
+    const history = await db.select()
+      .from(issueStatusHistoryTable)
+      .where(eq(issueStatusHistoryTable.issue_id, issue.id))
+      .orderBy(issueStatusHistoryTable.id)
+      .execute();
+    const stored = await db.select().from(securityIssuesTable).where(eq(securityIssuesTable.id, issue.id)).execute();
+
+    // Each change starts from the status the previous one left
+    expect(history[0].from_status).toBe('Open');
+    history.slice(1).forEach((entry, index) => expect(entry.from_status).toBe(history[index].to_status));
+    expect(history[history.length - 1].to_status).toBe(stored[0].status);
+  });
+
+  it('should clear the resolution note when an issue is reopened', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const issue = await createTestSecurityIssue(container.id, analyst.id);
+
+    await updateSecurityIssue({ id: issue.id, status: 'Resolved', resolution_note: 'Fixed' }, analyst);
+    const result = await updateSecurityIssue({ id: issue.id, status: 'Open' }, analyst);
+
+    expect(result.status).toBe('Open');
+    expect(result.resolution_note).toBeNull();
+  });
+
+  it('should validate the parent when moving an issue', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const task = await createTestSecurityIssue(container.id, analyst.id);
+    const story = await createTestSecurityIssue(container.id, analyst.id);
+
+    await updateSecurityIssue({ id: story.id, hierarchy: 'Story' }, analyst);
+    const result = await updateSecurityIssue({ id: task.id, parent_issue_id: story.id }, analyst);
+    expect(result.parent_issue_id).toBe(story.id);
+
+    // The story cannot in turn be nested under its own task
+    await expect(updateSecurityIssue({ id: story.id, parent_issue_id: task.id }, analyst))
+      .rejects.toThrow('Task issues cannot be parents of Story issues');
+    await expect(updateSecurityIssue({ id: story.id, parent_issue_id: story.id }, analyst))
+      .rejects.toThrow(/cannot be its own parent/);
+
+    const detached = await updateSecurityIssue({ id: task.id, parent_issue_id: null }, analyst);
+    expect(detached.parent_issue_id).toBeNull();
+  });
+
+  it('should not change the level of a parent below its children', async () => {
+    const analyst = await createTestUser('SecurityAnalyst');
+    const container = await createTestContainer(analyst.id);
+    const epic = await createTestSecurityIssue(container.id, analyst.id);
+    const task = await createTestSecurityIssue(container.id, analyst.id);
+
+    await updateSecurityIssue({ id: epic.id, hierarchy: 'Epic' }, analyst);
+    await updateSecurityIssue({ id: task.id, parent_issue_id: epic.id }, analyst);
+
+    await expect(updateSecurityIssue({ id: epic.id, hierarchy: 'Task' }, analyst))
+      .rejects.toThrow(/Task issues cannot be parents of Task issues/);
+
+    const result = await updateSecurityIssue({ id: epic.id, hierarchy: 'Story' }, analyst);
+    expect(result.hierarchy).toBe('Story');
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activityEventsTable, containersTable, securityReviewsTable, usersTable } from '../db/schema';
+import { updateSecurityReview } from '../handlers/update_security_review';
+import { eq } from 'drizzle-orm';
+
+describe('updateSecurityReview', () => {
+  let userId: number;
+  let reviewerId: number;
+  let containerId: number;
+  let reviewId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' },
+        { username: 'reviewer', email: 'reviewer@example.com', full_name: 'Reviewer', role: 'SecurityManager' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    reviewerId = users[1].id;
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: userId })
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+
+    const reviews = await db.insert(securityReviewsTable)
+      .values({ title: 'Design review', document_name: 'design.pdf', created_by: userId })
+      .returning()
+      .execute();
+    reviewId = reviews[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const result = await updateSecurityReview({
+      id: reviewId,
+      status: 'InReview',
+      reviewer_id: reviewerId,
+      container_id: containerId
+    }, userId);
+
+    expect(result.status).toEqual('InReview');
+    expect(result.reviewer_id).toEqual(reviewerId);
+    expect(result.container_id).toEqual(containerId);
+    expect(result.title).toEqual('Design review');
+    expect(result.document_name).toEqual('design.pdf');
+    expect(result.updated_by).toEqual(userId);
+  });
+
+  it('should record the changes in the activity feed', async () => {
+    await updateSecurityReview({ id: reviewId, status: 'InReview', reviewer_id: reviewerId }, userId);
+
+    const events = await db.select()
+      .from(activityEventsTable)
+      .where(eq(activityEventsTable.entity_id, reviewId))
+      .execute();
+
+    expect(events.map(event => [event.event_type, event.field, event.new_value]).sort()).toEqual([
+      ['Assignment', 'reviewer_id', String(reviewerId)],
+      ['StatusChange', 'status', 'InReview']
+    ]);
+  });
+
+  it('should validate the container and reviewer', async () => {
+    await expect(updateSecurityReview({ id: reviewId, container_id: 999 }, userId))
+      .rejects.toThrow(/Container with id 999 does not exist/);
+    await expect(updateSecurityReview({ id: reviewId, reviewer_id: 999 }, userId))
+      .rejects.toThrow(/Reviewer with id 999 does not exist/);
+  });
+
+  it('should throw NOT_FOUND for a missing review', async () => {
+    await expect(updateSecurityReview({ id: 999, title: 'Missing' }, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Security review with id 999 not found'
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activityEventsTable, securityViolationsTable, usersTable } from '../db/schema';
+import { updateSecurityViolation } from '../handlers/update_security_violation';
+import { eq } from 'drizzle-orm';
+
+describe('updateSecurityViolation', () => {
+  let userId: number;
+  let violationId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'analyst', email: 'analyst@example.com', full_name: 'Analyst', role: 'SecurityAnalyst' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const violations = await db.insert(securityViolationsTable)
+      .values({
+        title: 'Shared admin account',
+        description: 'Admin credentials shared over chat',
+        violation_type: 'PolicyViolation',
+        severity: 'Medium',
+        incident_date: new Date('2024-02-01'),
+        created_by: userId
+      })
+      .returning()
+      .execute();
+    violationId = violations[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const result = await updateSecurityViolation({
+      id: violationId,
+      severity: 'High',
+      status: 'In-progress',
+      assigned_to: userId,
+      remediation_steps: 'Rotate credentials'
+    }, userId);
+
+    expect(result.severity).toEqual('High');
+    expect(result.status).toEqual('In-progress');
+    expect(result.assigned_to).toEqual(userId);
+    expect(result.remediation_steps).toEqual('Rotate credentials');
+    expect(result.title).toEqual('Shared admin account');
+    expect(result.incident_date).toEqual(new Date('2024-02-01'));
+  });
+
+  it('should record the changes in the activity feed', async () => {
+    await updateSecurityViolation({ id: violationId, severity: 'High', assigned_to: userId }, userId);
+
+    const events = await db.select()
+      .from(activityEventsTable)
+      .where(eq(activityEventsTable.entity_id, violationId))
+      .execute();
+
+    expect(events.map(event => [event.event_type, event.field, event.old_value, event.new_value]).sort()).toEqual([
+      ['Assignment', 'assigned_to', null, String(userId)],
+      ['FieldChange', 'severity', 'Medium', 'High']
+    ]);
+  });
+
+  it('should validate referenced records', async () => {
+    await expect(updateSecurityViolation({ id: violationId, container_id: 999 }, userId))
+      .rejects.toThrow(/Container with ID 999 does not exist/);
+    await expect(updateSecurityViolation({ id: violationId, related_issue_id: 999 }, userId))
+      .rejects.toThrow(/Security issue with ID 999 does not exist/);
+    await expect(updateSecurityViolation({ id: violationId, assigned_to: 999 }, userId))
+      .rejects.toThrow(/Assigned user with ID 999 does not exist/);
+  });
+
+  it('should throw NOT_FOUND for a missing violation', async () => {
+    await expect(updateSecurityViolation({ id: 999, title: 'Missing' }, userId)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Security violation with id 999 not found'
+    });
+  });
+});
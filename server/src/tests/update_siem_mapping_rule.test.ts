@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { siemMappingRulesTable, usersTable } from '../db/schema';
+import { updateSiemMappingRule } from '../handlers/update_siem_mapping_rule';
+
+describe('updateSiemMappingRule', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update only the given fields', async () => {
+    const [admin, other] = await db.insert(usersTable)
+      .values([
+        { username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' },
+        { username: 'other', email: 'other@example.com', full_name: 'Other Admin', role: 'Admin' }
+      ])
+      .returning()
+      .execute();
+    const [created] = await db.insert(siemMappingRulesTable)
+      .values({ name: 'Firewall', vendor: 'Cisco', correlation_fields: ['event_id'], created_by: admin.id })
+      .returning()
+      .execute();
+
+    const updated = await updateSiemMappingRule({
+      id: created.id,
+      vendor: null,
+      severity: 'Critical',
+      correlation_fields: ['source', 'source'],
+      is_active: false
+    }, other.id);
+
+    expect(updated).toMatchObject({
+      name: 'Firewall',
+      vendor: null,
+      severity: 'Critical',
+      correlation_fields: ['source'],
+      is_active: false,
+      created_by: admin.id,
+      updated_by: other.id
+    });
+    expect(updated.updated_at.getTime()).toBeGreaterThan(created.updated_at.getTime());
+  });
+
+  it('should throw for a missing rule or container', async () => {
+    await expect(updateSiemMappingRule({ id: 999, name: 'Missing' }, 1)).rejects.toThrow('SIEM mapping rule with id 999 not found');
+    await expect(updateSiemMappingRule({ id: 999, container_id: 998 }, 1)).rejects.toThrow('Container with id 998 not found');
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, webhookSubscriptionsTable } from '../db/schema';
+import { updateWebhookSubscription } from '../handlers/update_webhook_subscription';
+
+describe('updateWebhookSubscription', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update only the given fields', async () => {
+    const [admin, other] = await db.insert(usersTable)
+      .values([
+        { username: 'admin', email: 'admin@example.com', full_name: 'Admin', role: 'Admin' },
+        { username: 'other', email: 'other@example.com', full_name: 'Other Admin', role: 'Admin' }
+      ])
+      .returning()
+      .execute();
+    const [created] = await db.insert(webhookSubscriptionsTable)
+      .values({ name: 'SIEM', url: 'https://siem.example.com/hooks', secret: 'siem-shared-secret', events: ['issue.created'], created_by: admin.id })
+      .returning()
+      .execute();
+
+    const updated = await updateWebhookSubscription({
+      id: created.id,
+      secret: 'rotated-shared-secret',
+      events: ['issue.created', 'issue.status_changed'],
+      is_active: false
+    }, other.id);
+
+    expect(updated).toMatchObject({
+      name: 'SIEM',
+      url: 'https://siem.example.com/hooks',
+      events: ['issue.created', 'issue.status_changed'],
+      is_active: false,
+      created_by: admin.id,
+      updated_by: other.id
+    });
+    expect(updated).not.toHaveProperty('secret');
+
+    const [stored] = await db.select().from(webhookSubscriptionsTable).execute();
+    expect(stored.secret).toEqual('rotated-shared-secret');
+    expect(stored.updated_at.getTime()).toBeGreaterThan(created.updated_at.getTime());
+  });
+
+  it('should throw for a missing subscription', async () => {
+    await expect(updateWebhookSubscription({ id: 999, name: 'Missing' }, 1)).rejects.toThrow('Webhook subscription with id 999 not found');
+  });
+});
@@ -0,0 +1,292 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { containersTable, securityReviewsTable, usersTable, webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { type User } from '../schema';
+import { createSecurityIssue } from '../handlers/create_security_issue';
+import { updateSecurityIssue } from '../handlers/update_security_issue';
+import { createSecurityViolation } from '../handlers/create_security_violation';
+import { processDocumentAiAnalysis } from '../handlers/process_document_ai_analysis';
+import { recalculateContainerRiskScore } from '../scoring/risk_scoring';
+import { queueWebhookEvent, type WebhookEvent, type WebhookPayload } from '../webhooks/events';
+import { WEBHOOK_MAX_ATTEMPTS, deliverDueWebhooks, signWebhookPayload, webhookRetryDelay } from '../webhooks/delivery';
+import { asc, eq } from 'drizzle-orm';
+
+const SECRET = 'receiver-shared-secret';
+
+// Records what it is sent and answers with the next queued status, 200 once
+// the queue is empty
+const receiver = {
+  server: null as ReturnType<typeof Bun.serve> | null,
+  requests: [] as { headers: Headers; body: string }[],
+  statuses: [] as number[],
+  get url(): string {
+    return `http://localhost:${receiver.server!.port}/hooks`;
+  }
+};
+
+let user: User;
+let containerId: number;
+
+const subscribe = async (events: WebhookEvent[], overrides: { url?: string; is_active?: boolean } = {}) => {
+  const result = await db.insert(webhookSubscriptionsTable)
+    .values({ name: 'SIEM', url: overrides.url ?? receiver.url, secret: SECRET, events, is_active: overrides.is_active ?? true, created_by: user.id })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const deliveries = () => db.select()
+  .from(webhookDeliveriesTable)
+  .orderBy(asc(webhookDeliveriesTable.id))
+  .execute();
+
+const createIssue = () => createSecurityIssue({
+  title: 'Verbose errors',
+  description: 'Stack traces are returned to clients',
+  severity: 'High',
+  classification: 'Misconfiguration',
+  hierarchy: 'Task',
+  confidentiality_impact: 60,
+  integrity_impact: 0,
+  availability_impact: 0,
+  compliance_impact: 10,
+  third_party_risk: 0,
+  mitre_attack_id: null,
+  mitre_attack_tactic: null,
+  mitre_attack_technique: null,
+  linddun_category: null,
+  attack_complexity: null,
+  threat_modeling_notes: null,
+  compensating_controls: null,
+  container_id: containerId,
+  parent_issue_id: null,
+  assigned_to: null,
+  is_automated_finding: false
+}, user.id);
+
+describe('webhooks', () => {
+  beforeAll(() => {
+    receiver.server = Bun.serve({
+      port: 0,
+      fetch: async (request: Request) => {
+        receiver.requests.push({ headers: request.headers, body: await request.text() });
+        return new Response(null, { status: receiver.statuses.shift() ?? 200 });
+      }
+    });
+  });
+
+  afterAll(() => {
+    receiver.server?.stop(true);
+  });
+
+  beforeEach(async () => {
+    await createDB();
+    receiver.requests = [];
+    receiver.statuses = [];
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'manager', email: 'manager@example.com', full_name: 'Manager', role: 'SecurityManager' })
+      .returning()
+      .execute();
+    const { password_hash, ...rest } = users[0];
+    user = rest;
+
+    const containers = await db.insert(containersTable)
+      .values({ name: 'Payments', description: null, type: 'Application', created_by: user.id })
+      .returning()
+      .execute();
+    containerId = containers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('events', () => {
+    it('should queue one delivery per active subscription to the event', async () => {
+      const first = await subscribe(['issue.created', 'issue.status_changed']);
+      const second = await subscribe(['issue.created']);
+      await subscribe(['violation.created']);
+      await subscribe(['issue.created'], { is_active: false });
+
+      const issue = await createIssue();
+
+      const queued = await deliveries();
+      expect(queued.map(delivery => delivery.subscription_id)).toEqual([first.id, second.id]);
+      expect(queued.every(delivery => delivery.status === 'Pending' && delivery.event_type === 'issue.created')).toBe(true);
+      expect(queued[0].event_id).toEqual(queued[1].event_id);
+
+      const payload = queued[0].payload as WebhookPayload;
+      expect(payload.id).toEqual(queued[0].event_id);
+      expect(payload.type).toEqual('issue.created');
+      expect(payload.data['issue']).toMatchObject({ id: issue.id, title: 'Verbose errors', status: 'Open' });
+    });
+
+    it('should raise status changes with the statuses and note', async () => {
+      const issue = await createIssue();
+      await subscribe(['issue.status_changed']);
+
+      await updateSecurityIssue({ id: issue.id, title: 'Verbose error pages' }, user);
+      await updateSecurityIssue({ id: issue.id, status: 'Resolved', resolution_note: 'Errors are generic now' }, user);
+
+      const [delivery] = await deliveries();
+      expect(await deliveries()).toHaveLength(1);
+      expect((delivery.payload as WebhookPayload).data).toMatchObject({
+        issue: { id: issue.id, status: 'Resolved' },
+        from_status: 'Open',
+        to_status: 'Resolved',
+        note: 'Errors are generic now',
+        changed_by: user.id
+      });
+    });
+
+    it('should raise created violations and completed analyses', async () => {
+      await subscribe(['violation.created', 'review.analysis_completed']);
+
+      const violation = await createSecurityViolation({
+        title: 'Unauthorised access',
+        description: 'Admin console reached from the internet',
+        violation_type: 'SecurityBreach',
+        severity: 'Critical',
+        incident_date: new Date('2026-03-01T08:00:00Z'),
+        detection_method: null,
+        affected_systems: null,
+        impact_assessment: null,
+        remediation_steps: null,
+        container_id: containerId,
+        related_issue_id: null,
+        assigned_to: null
+      }, user.id);
+
+      const reviews = await db.insert(securityReviewsTable)
+        .values({ title: 'Architecture review', description: null, container_id: containerId, created_by: user.id })
+        .returning()
+        .execute();
+      await processDocumentAiAnalysis(reviews[0].id);
+
+      const [violationEvent, reviewEvent] = (await deliveries()).map(delivery => delivery.payload as WebhookPayload);
+      expect(violationEvent.type).toEqual('violation.created');
+      expect(violationEvent.data['violation']).toMatchObject({ id: violation.id, severity: 'Critical' });
+      expect(reviewEvent.type).toEqual('review.analysis_completed');
+      expect(reviewEvent.data['review']).toMatchObject({
+        id: reviews[0].id,
+        status: 'Completed',
+        ai_analysis_results: { document_classification: 'Architecture Review' }
+      });
+    });
+
+    it('should raise container risk changes only when the score moves', async () => {
+      await subscribe(['container.risk_changed']);
+
+      await recalculateContainerRiskScore(containerId);
+      expect(await deliveries()).toHaveLength(0);
+
+      // Creating the issue recalculates the rollup; doing it again changes nothing
+      await createIssue();
+      await recalculateContainerRiskScore(containerId);
+
+      const queued = await deliveries();
+      expect(queued).toHaveLength(1);
+      const { data } = queued[0].payload as WebhookPayload;
+      expect(data['previous_risk_score']).toEqual(0);
+      expect(data['risk_score']).toBeGreaterThan(0);
+      expect(data['container']).toMatchObject({ id: containerId, risk_score: data['risk_score'] });
+    });
+
+    it('should not build the event when nobody subscribes', async () => {
+      let built = false;
+      await queueWebhookEvent(db, 'issue.created', async () => {
+        built = true;
+        return {};
+      });
+
+      expect(built).toBe(false);
+      expect(await deliveries()).toHaveLength(0);
+    });
+  });
+
+  describe('delivery', () => {
+    it('should POST signed events and record the delivery', async () => {
+      await subscribe(['issue.created']);
+      await createIssue();
+
+      expect(await deliverDueWebhooks()).toEqual(1);
+
+      const [request] = receiver.requests;
+      const [delivery] = await deliveries();
+      const timestamp = request.headers.get('X-PrimeSec-Timestamp')!;
+      expect(request.headers.get('Content-Type')).toEqual('application/json');
+      expect(request.headers.get('X-PrimeSec-Event')).toEqual('issue.created');
+      expect(request.headers.get('X-PrimeSec-Delivery')).toEqual(String(delivery.id));
+      expect(request.headers.get('X-PrimeSec-Signature')).toEqual(signWebhookPayload(SECRET, timestamp, request.body));
+      expect(JSON.parse(request.body)).toEqual(delivery.payload);
+
+      expect(delivery).toMatchObject({ status: 'Succeeded', attempts: 1, response_status: 200, last_error: null, next_attempt_at: null });
+      expect(delivery.delivered_at).toBeInstanceOf(Date);
+
+      // Nothing is due any more
+      expect(await deliverDueWebhooks()).toEqual(0);
+      expect(receiver.requests).toHaveLength(1);
+    });
+
+    it('should retry failed attempts with backoff', async () => {
+      await subscribe(['issue.created']);
+      await createIssue();
+      receiver.statuses = [500];
+
+      const before = Date.now();
+      await deliverDueWebhooks();
+
+      const [delivery] = await deliveries();
+      expect(delivery).toMatchObject({
+        status: 'Pending',
+        attempts: 1,
+        response_status: 500,
+        last_error: 'Receiver responded with HTTP 500'
+      });
+      expect(delivery.next_attempt_at!.getTime()).toBeGreaterThanOrEqual(before + webhookRetryDelay(1));
+
+      // Not due until the backoff has passed
+      expect(await deliverDueWebhooks()).toEqual(0);
+
+      await db.update(webhookDeliveriesTable).set({ next_attempt_at: new Date() }).where(eq(webhookDeliveriesTable.id, delivery.id)).execute();
+      await deliverDueWebhooks();
+
+      expect(await deliveries()).toEqual([expect.objectContaining({ status: 'Succeeded', attempts: 2, response_status: 200 })]);
+    });
+
+    it('should give up after the last attempt', async () => {
+      // Nothing listens on port 9 of localhost
+      await subscribe(['issue.created'], { url: 'http://localhost:9/hooks' });
+      await createIssue();
+      await db.update(webhookDeliveriesTable).set({ attempts: WEBHOOK_MAX_ATTEMPTS - 1 }).execute();
+
+      await deliverDueWebhooks();
+
+      const [delivery] = await deliveries();
+      expect(delivery).toMatchObject({ status: 'Failed', attempts: WEBHOOK_MAX_ATTEMPTS, response_status: null, next_attempt_at: null });
+      expect(delivery.last_error).toBeTruthy();
+    });
+
+    it('should fail deliveries of disabled subscriptions without sending them', async () => {
+      const subscription = await subscribe(['issue.created']);
+      await createIssue();
+      await db.update(webhookSubscriptionsTable).set({ is_active: false }).where(eq(webhookSubscriptionsTable.id, subscription.id)).execute();
+
+      await deliverDueWebhooks();
+
+      expect(receiver.requests).toHaveLength(0);
+      expect(await deliveries()).toEqual([expect.objectContaining({ status: 'Failed', last_error: 'Subscription is disabled' })]);
+    });
+
+    it('should send each delivery once when workers overlap', async () => {
+      await subscribe(['issue.created']);
+      await createIssue();
+      await createIssue();
+
+      const sent = await Promise.all([deliverDueWebhooks(), deliverDueWebhooks()]);
+
+      expect(sent[0] + sent[1]).toEqual(2);
+      expect(receiver.requests).toHaveLength(2);
+    });
+  });
+});
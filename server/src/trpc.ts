@@ -0,0 +1,160 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { type User } from './schema';
+import { getSessionUser } from './auth/session';
+import { assertPermission, procedurePermissions } from './auth/permissions';
+import {
+  appendAuditEntry,
+  auditTargets,
+  diffRowSets,
+  diffRows,
+  loadAuditedRow,
+  loadAuditedRows,
+  type RequestMetadata
+} from './audit/audit_log';
+import { runInTransaction } from './db';
+import { foreignKeyError, isForeignKeyViolation } from './errors';
+import { FilterQueryError } from './filters/parse';
+
+export interface Context {
+  user: User | null;
+  sessionToken: string | null;
+  request: RequestMetadata;
+}
+
+// Reads the bearer token from the Authorization header and resolves it to the
+// signed-in user. Anonymous requests get a null user rather than an error so
+// public procedures (healthcheck, login) keep working.
+export const createContext = async ({ req }: CreateHTTPContextOptions): Promise<Context> => {
+  // Recorded with audit entries. X-Forwarded-For is client-controlled, so
+  // only the socket address is trusted.
+  const request: RequestMetadata = {
+    ip_address: req.socket.remoteAddress ?? null,
+    user_agent: req.headers['user-agent'] ?? null
+  };
+
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+
+  if (!match) {
+    return { user: null, sessionToken: null, request };
+  }
+
+  const sessionToken = match[1];
+  const user = await getSessionUser(sessionToken);
+
+  return { user, sessionToken: user ? sessionToken : null, request };
+};
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+  // Filter query problems carry their positions so clients can point at them
+  errorFormatter: ({ shape, error }) => ({
+    ...shape,
+    data: {
+      ...shape.data,
+      filter_errors: error.cause instanceof FilterQueryError ? error.cause.issues : null
+    }
+  })
+});
+
+export const router = t.router;
+export const middleware = t.middleware;
+export const createCallerFactory = t.createCallerFactory;
+
+// Appends an audit log entry for every successful mutation, with the changed
+// row diffed before and after the call, or the rows a bulk mutation reports it
+// changed. The mutation and its entry share one transaction, so neither is
+// committed without the other. Mutations without a declared audit target are
+// refused so nothing slips past the log.
+const auditMutations = t.middleware(async ({ ctx, path, type, getRawInput, next }) => {
+  if (type !== 'mutation') {
+    return next();
+  }
+
+  const target = auditTargets[path];
+  if (target === undefined) {
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: `No audit target declared for ${path}` });
+  }
+
+  const input = await getRawInput();
+  const entity = target && 'entity' in target ? target : null;
+
+  // A failed mutation keeps whatever it wrote before failing, as it would
+  // outside a transaction, but gets no entry
+  return runInTransaction(async () => {
+    const inputId = entity?.inputId?.(input);
+    const before = entity && typeof inputId === 'number' ? await loadAuditedRow(entity.entity, inputId) : null;
+    const scope = entity?.scope?.(input);
+    const rowsBefore = entity?.scope ? await loadAuditedRows(entity.entity, scope) : null;
+
+    const result = await next();
+    if (!result.ok) {
+      return result;
+    }
+
+    const entityId = inputId ?? entity?.resultId?.(result.data);
+    const after = entity && typeof entityId === 'number' ? await loadAuditedRow(entity.entity, entityId) : null;
+
+    const changes = entity?.changedRows
+      ? entity.changedRows(result.data)
+      : rowsBefore
+        ? diffRowSets(rowsBefore, await loadAuditedRows(entity!.entity, scope))
+        : entity ? diffRows(before, after) : null;
+
+    await appendAuditEntry({
+      actor_id: ctx.user?.id ?? (target && 'actor' in target ? target.actor(result.data) : null),
+      procedure: path,
+      entity_type: entity?.entity ?? null,
+      entity_id: typeof entityId === 'number' ? entityId : null,
+      input,
+      changes,
+      request: ctx.request
+    });
+
+    return result;
+  });
+});
+
+// Foreign key violations are the caller's fault (a dangling id, or deleting a
+// record others still point at), so they surface as client errors
+const translateDatabaseErrors = t.middleware(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && isForeignKeyViolation(result.error.cause)) {
+    throw foreignKeyError(result.error.cause);
+  }
+  return result;
+});
+
+export const publicProcedure = t.procedure.use(auditMutations).use(translateDatabaseErrors);
+
+// Requires a valid session; narrows ctx.user to non-null for handlers
+export const authedProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.sessionToken) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({
+    ctx: {
+      user: ctx.user,
+      sessionToken: ctx.sessionToken
+    }
+  });
+});
+
+// Requires a session whose role grants the permission declared for this
+// procedure in procedurePermissions; undeclared procedures are denied
+export const protectedProcedure = authedProcedure.use(({ ctx, path, next }) => {
+  const required = procedurePermissions[path];
+
+  if (required === undefined) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `No permission declared for ${path}` });
+  }
+
+  if (required !== 'public' && required !== 'authenticated') {
+    assertPermission(ctx.user.role, required);
+  }
+
+  return next();
+});
@@ -0,0 +1,101 @@
+import { TRPCError } from '@trpc/server';
+import { type z } from 'zod';
+import { db } from '../db';
+import {
+  containersTable,
+  savedViewPinsTable,
+  savedViewsTable,
+  securityIssuesTable,
+  securityViolationsTable,
+  type SavedView as SavedViewRow
+} from '../db/schema';
+import { savedViewContentSchemas, type SavedView, type SavedViewEntityType } from '../schema';
+import { type Actor } from '../auth/permissions';
+import { compileFilterQuery } from '../filters/compile';
+import { issueFilterFields, violationFilterFields } from '../filters/fields';
+import { notFoundError } from '../errors';
+import { and, eq, or, sql, type SQL } from 'drizzle-orm';
+
+export type SavedViewContent<T extends SavedViewEntityType> = z.infer<typeof savedViewContentSchemas[T]>;
+
+// A container's team is everyone working in it: whoever created it, and
+// whoever created or is assigned an issue or violation in it
+const teamContainerIds = (userId: number): SQL => sql`(
+  select ${containersTable.id} from ${containersTable}
+    where ${containersTable.created_by} = ${userId}
+  union
+  select ${securityIssuesTable.container_id} from ${securityIssuesTable}
+    where ${securityIssuesTable.assigned_to} = ${userId} or ${securityIssuesTable.created_by} = ${userId}
+  union
+  select ${securityViolationsTable.container_id} from ${securityViolationsTable}
+    where (${securityViolationsTable.assigned_to} = ${userId} or ${securityViolationsTable.created_by} = ${userId})
+      and ${securityViolationsTable.container_id} is not null
+)`;
+
+// Views the user owns, Organization views, and Team views of containers the
+// user works in
+export const visibleViewCondition = (userId: number): SQL => or(
+  eq(savedViewsTable.owner_id, userId),
+  eq(savedViewsTable.visibility, 'Organization'),
+  and(eq(savedViewsTable.visibility, 'Team'), sql`${savedViewsTable.container_id} in ${teamContainerIds(userId)}`)
+)!;
+
+export const toSavedView = (view: SavedViewRow, pinned: boolean): SavedView => ({ ...view, pinned });
+
+// Loads a view the actor may see. Views hidden from the actor are reported
+// as missing so their existence does not leak.
+export const loadVisibleView = async (id: number, actor: Actor): Promise<SavedView> => {
+  const rows = await db.select({ view: savedViewsTable, pin: savedViewPinsTable.id })
+    .from(savedViewsTable)
+    .leftJoin(savedViewPinsTable, and(
+      eq(savedViewPinsTable.view_id, savedViewsTable.id),
+      eq(savedViewPinsTable.user_id, actor.id)
+    ))
+    .where(and(eq(savedViewsTable.id, id), visibleViewCondition(actor.id)))
+    .execute();
+
+  if (rows.length === 0) {
+    throw notFoundError('Saved view', id);
+  }
+  return toSavedView(rows[0].view, rows[0].pin !== null);
+};
+
+// Only the owner changes a view; Admins may also tidy up shared ones
+export const assertCanChangeView = (view: SavedView, actor: Actor): void => {
+  if (view.owner_id !== actor.id && actor.role !== 'Admin') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the owner of a saved view can change it' });
+  }
+};
+
+// Team views need a container to be shared with, and only Team views keep one
+export const viewContainerId = (visibility: SavedView['visibility'], containerId: number | null): number | null => {
+  if (visibility === 'Team' && containerId === null) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Team views need a container_id' });
+  }
+  return visibility === 'Team' ? containerId : null;
+};
+
+// Checks a view's filter, sort and columns against its entity type. The
+// filter query is compiled so a broken one is refused when it is saved
+// rather than each time the view runs.
+export const parseViewContent = <T extends SavedViewEntityType>(
+  entityType: T,
+  content: { filter: unknown; sort: unknown; columns: unknown },
+  actor: Actor
+): SavedViewContent<T> => {
+  const parsed = savedViewContentSchemas[entityType].safeParse(content);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Invalid ${entityType.toLowerCase()} view ${issue.path.join('.')}: ${issue.message}`
+    });
+  }
+
+  const query = parsed.data.filter.query;
+  if (query) {
+    const fields = entityType === 'Issue' ? issueFilterFields : violationFilterFields;
+    compileFilterQuery(query, fields, { actorId: actor.id, now: new Date() });
+  }
+  return parsed.data as SavedViewContent<T>;
+};
@@ -0,0 +1,173 @@
+import { createHmac } from 'node:crypto';
+import { db } from '../db';
+import {
+  type WebhookDelivery,
+  type WebhookSubscription,
+  webhookDeliveriesTable,
+  webhookSubscriptionsTable
+} from '../db/schema';
+import { and, asc, eq, inArray, lte } from 'drizzle-orm';
+
+// Deliveries are POSTed as JSON with these headers. Receivers verify
+// X-PrimeSec-Signature, an HMAC-SHA256 of "{timestamp}.{body}" keyed with the
+// subscription secret, and may reject old timestamps to stop replays.
+export const WEBHOOK_HEADERS = {
+  event: 'X-PrimeSec-Event',
+  delivery: 'X-PrimeSec-Delivery',
+  timestamp: 'X-PrimeSec-Timestamp',
+  signature: 'X-PrimeSec-Signature'
+} as const;
+
+// A delivery is tried this many times before it is marked Failed, waiting
+// 30 seconds after the first failure and doubling up to an hour
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60_000;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const BATCH_SIZE = 50;
+
+// How long a worker owns the deliveries it claimed: long enough to send each
+// of them up to the request timeout, plus a margin. Deliveries still Pending
+// after that, because the worker died, are picked up again.
+const CLAIM_MARGIN_MS = 60_000;
+export const webhookClaimLease = (count: number): number =>
+  count * REQUEST_TIMEOUT_MS + CLAIM_MARGIN_MS;
+
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+export const webhookRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// POSTs the delivery once and records the outcome. 2xx responses count as
+// delivered; anything else is retried with backoff until attempts run out.
+export const sendWebhookDelivery = async (
+  delivery: WebhookDelivery,
+  subscription: WebhookSubscription
+): Promise<WebhookDelivery> => {
+  const attemptedAt = new Date();
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (!subscription.is_active) {
+    error = 'Subscription is disabled';
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(attemptedAt.getTime() / 1000));
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'PrimeSec-Webhooks/1.0',
+          [WEBHOOK_HEADERS.event]: delivery.event_type,
+          [WEBHOOK_HEADERS.delivery]: String(delivery.id),
+          [WEBHOOK_HEADERS.timestamp]: timestamp,
+          [WEBHOOK_HEADERS.signature]: signWebhookPayload(subscription.secret, timestamp, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      await response.body?.cancel();
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = errorMessage(requestError);
+    }
+  }
+
+  const outcome = error === null
+    ? { status: 'Succeeded' as const, next_attempt_at: null, delivered_at: attemptedAt }
+    : subscription.is_active && attempts < WEBHOOK_MAX_ATTEMPTS
+      ? { status: 'Pending' as const, next_attempt_at: new Date(attemptedAt.getTime() + webhookRetryDelay(attempts)) }
+      : { status: 'Failed' as const, next_attempt_at: null };
+
+  const updated = await db.update(webhookDeliveriesTable)
+    .set({
+      ...outcome,
+      attempts,
+      last_attempt_at: attemptedAt,
+      response_status: responseStatus,
+      last_error: error
+    })
+    .where(eq(webhookDeliveriesTable.id, delivery.id))
+    .returning()
+    .execute();
+
+  return updated[0];
+};
+
+// Sends the Pending deliveries that are due, oldest first. Claiming pushes
+// next_attempt_at out by the lease under SKIP LOCKED, so several workers can
+// run side by side without sending a delivery twice. Returns the number sent.
+export const deliverDueWebhooks = async (limit: number = BATCH_SIZE): Promise<number> => {
+  const now = new Date();
+
+  const claimed = await db.transaction(async (tx) => {
+    const due = await tx.select({ id: webhookDeliveriesTable.id })
+      .from(webhookDeliveriesTable)
+      .where(and(
+        eq(webhookDeliveriesTable.status, 'Pending'),
+        lte(webhookDeliveriesTable.next_attempt_at, now)
+      ))
+      .orderBy(asc(webhookDeliveriesTable.next_attempt_at), asc(webhookDeliveriesTable.id))
+      .limit(limit)
+      .for('update', { skipLocked: true })
+      .execute();
+
+    if (due.length === 0) {
+      return [];
+    }
+
+    return tx.update(webhookDeliveriesTable)
+      .set({ next_attempt_at: new Date(now.getTime() + webhookClaimLease(due.length)) })
+      .where(inArray(webhookDeliveriesTable.id, due.map(delivery => delivery.id)))
+      .returning()
+      .execute();
+  });
+
+  if (claimed.length === 0) {
+    return 0;
+  }
+
+  const subscriptions = new Map((await db.select()
+    .from(webhookSubscriptionsTable)
+    .where(inArray(webhookSubscriptionsTable.id, [...new Set(claimed.map(delivery => delivery.subscription_id))]))
+    .execute()).map(subscription => [subscription.id, subscription]));
+
+  claimed.sort((a, b) => a.id - b.id);
+  for (const delivery of claimed) {
+    const subscription = subscriptions.get(delivery.subscription_id);
+    // Deleting a subscription deletes its deliveries
+    if (subscription) {
+      await sendWebhookDelivery(delivery, subscription);
+    }
+  }
+  return claimed.length;
+};
+
+// Runs deliverDueWebhooks every intervalSeconds, skipping a tick while the
+// previous run is still sending; returns the timer
+export const scheduleWebhookDelivery = (intervalSeconds: number): ReturnType<typeof setInterval> => {
+  let running = false;
+
+  return setInterval(() => {
+    if (running) return;
+    running = true;
+    deliverDueWebhooks()
+      .catch(error => console.error('Webhook delivery failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalSeconds * 1000);
+};
@@ -0,0 +1,60 @@
+import { randomUUID } from 'node:crypto';
+import { type z } from 'zod';
+import { db } from '../db';
+import { webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { type WebhookEventType } from '../schema';
+import { and, arrayContains, eq } from 'drizzle-orm';
+
+export type WebhookEvent = z.infer<typeof WebhookEventType>;
+
+// Body of every delivery; id identifies the event across subscriptions and
+// redeliveries so receivers can drop duplicates
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+type EventData = Record<string, unknown>;
+
+// Queues a delivery of the event to every active subscription to its type.
+// Run it with the transaction that makes the change, so only committed
+// changes are announced. data may be a function, called only when someone
+// subscribes to the event.
+export const queueWebhookEvent = async (
+  executor: Pick<typeof db, 'select' | 'insert'>,
+  type: WebhookEvent,
+  data: EventData | (() => Promise<EventData>)
+): Promise<void> => {
+  const subscriptions = await executor.select({ id: webhookSubscriptionsTable.id })
+    .from(webhookSubscriptionsTable)
+    .where(and(
+      eq(webhookSubscriptionsTable.is_active, true),
+      arrayContains(webhookSubscriptionsTable.events, [type])
+    ))
+    .execute();
+
+  if (subscriptions.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type,
+    created_at: now.toISOString(),
+    // Round-trip through JSON so dates are stored the way they are sent
+    data: JSON.parse(JSON.stringify(typeof data === 'function' ? await data() : data))
+  };
+
+  await executor.insert(webhookDeliveriesTable)
+    .values(subscriptions.map(subscription => ({
+      subscription_id: subscription.id,
+      event_id: payload.id,
+      event_type: type,
+      payload,
+      next_attempt_at: now
+    })))
+    .execute();
+};
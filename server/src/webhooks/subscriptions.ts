@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { type WebhookSubscription as WebhookSubscriptionRow, webhookSubscriptionsTable } from '../db/schema';
+import { type WebhookSubscription } from '../schema';
+import { notFoundError } from '../errors';
+import { type WebhookEvent } from './events';
+import { eq } from 'drizzle-orm';
+
+export const loadWebhookSubscription = async (id: number): Promise<WebhookSubscriptionRow> => {
+  const subscriptions = await db.select()
+    .from(webhookSubscriptionsTable)
+    .where(eq(webhookSubscriptionsTable.id, id))
+    .execute();
+
+  if (subscriptions.length === 0) {
+    throw notFoundError('Webhook subscription', id);
+  }
+  return subscriptions[0];
+};
+
+// The subscription as the API returns it; the secret never leaves the server
+export const toWebhookSubscription = (subscription: WebhookSubscriptionRow): WebhookSubscription => ({
+  id: subscription.id,
+  name: subscription.name,
+  url: subscription.url,
+  events: subscription.events as WebhookEvent[],
+  is_active: subscription.is_active,
+  created_by: subscription.created_by,
+  updated_by: subscription.updated_by,
+  created_at: subscription.created_at,
+  updated_at: subscription.updated_at
+});
@@ -0,0 +1,144 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { issueStatusHistoryTable, securityIssuesTable } from '../db/schema';
+import { assertPermission, type Actor, type Permission } from '../auth/permissions';
+import { type SecurityIssue } from '../schema';
+import { queueWebhookEvent } from '../webhooks/events';
+import { eq } from 'drizzle-orm';
+
+type Status = SecurityIssue['status'];
+type Severity = SecurityIssue['severity'];
+
+// Fields a transition can demand. resolution_note must be supplied with the
+// transition itself; other fields may already be set on the issue.
+export type TransitionField = 'resolution_note' | 'assigned_to';
+
+export interface StatusTransition {
+  from: Status;
+  to: Status;
+  permission: Permission;
+  critical_permission?: Permission; // Additionally required when the issue is Critical
+  required_fields: TransitionField[];
+}
+
+export interface IssueWorkflow {
+  initial_status: Status;
+  transitions: StatusTransition[];
+}
+
+// Values the required fields are checked against, after the update is applied
+export type TransitionValues = Partial<Record<TransitionField, string | number | null>>;
+
+// The workflow every issue follows. Work moves Open -> In-progress -> Resolved;
+// Closed without a fix is a risk acceptance, and both end states can be reopened.
+export const DEFAULT_ISSUE_WORKFLOW: IssueWorkflow = {
+  initial_status: 'Open',
+  transitions: [
+    { from: 'Open', to: 'In-progress', permission: 'issues:write', required_fields: [] },
+    { from: 'In-progress', to: 'Open', permission: 'issues:write', required_fields: [] },
+    {
+      from: 'Open',
+      to: 'Resolved',
+      permission: 'issues:write',
+      critical_permission: 'issues:close_critical',
+      required_fields: ['resolution_note']
+    },
+    {
+      from: 'In-progress',
+      to: 'Resolved',
+      permission: 'issues:write',
+      critical_permission: 'issues:close_critical',
+      required_fields: ['resolution_note']
+    },
+    {
+      from: 'Open',
+      to: 'Closed',
+      permission: 'risk:accept',
+      critical_permission: 'issues:close_critical',
+      required_fields: ['resolution_note']
+    },
+    {
+      from: 'In-progress',
+      to: 'Closed',
+      permission: 'risk:accept',
+      critical_permission: 'issues:close_critical',
+      required_fields: ['resolution_note']
+    },
+    {
+      from: 'Resolved',
+      to: 'Closed',
+      permission: 'risk:accept',
+      critical_permission: 'issues:close_critical',
+      required_fields: []
+    },
+    { from: 'Resolved', to: 'Open', permission: 'issues:write', required_fields: [] },
+    { from: 'Closed', to: 'Open', permission: 'issues:write', required_fields: [] }
+  ]
+};
+
+export const findStatusTransition = (workflow: IssueWorkflow, from: Status, to: Status): StatusTransition | undefined =>
+  workflow.transitions.find(transition => transition.from === from && transition.to === to);
+
+// Throws unless the actor may move an issue between the two statuses with the
+// given values; returns the matching transition. severity is the stored one and
+// new_severity what the same update sets, so lowering a Critical issue's
+// severity while closing it still needs the critical permission.
+export const assertStatusTransition = (
+  workflow: IssueWorkflow,
+  change: { from: Status; to: Status; severity: Severity; new_severity?: Severity; values: TransitionValues },
+  actor: Actor
+): StatusTransition => {
+  const transition = findStatusTransition(workflow, change.from, change.to);
+
+  if (!transition) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Status transition from ${change.from} to ${change.to} is not allowed` });
+  }
+
+  assertPermission(actor.role, transition.permission);
+  if (transition.critical_permission && (change.severity === 'Critical' || change.new_severity === 'Critical')) {
+    assertPermission(actor.role, transition.critical_permission);
+  }
+
+  const missing = transition.required_fields.filter(field => {
+    const value = change.values[field];
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+  });
+
+  if (missing.length > 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Status transition from ${change.from} to ${change.to} requires ${missing.join(', ')}`
+    });
+  }
+
+  return transition;
+};
+
+// Appends a status change to the issue's history and raises the matching
+// webhook event. from is null for the status an issue was created with. Call
+// it after the issue row is written, in the same transaction.
+export const recordStatusChange = async (
+  executor: Pick<typeof db, 'insert' | 'select'>,
+  entry: { issue_id: number; from_status: Status | null; to_status: Status; note: string | null; changed_by: number }
+): Promise<void> => {
+  await executor.insert(issueStatusHistoryTable)
+    .values(entry)
+    .execute();
+
+  await queueWebhookEvent(executor, entry.from_status === null ? 'issue.created' : 'issue.status_changed', async () => {
+    const issues = await executor.select()
+      .from(securityIssuesTable)
+      .where(eq(securityIssuesTable.id, entry.issue_id))
+      .execute();
+
+    return entry.from_status === null
+      ? { issue: issues[0] }
+      : {
+        issue: issues[0],
+        from_status: entry.from_status,
+        to_status: entry.to_status,
+        note: entry.note,
+        changed_by: entry.changed_by
+      };
+  });
+};